@@ -25,6 +25,13 @@ import { TOOLS_REGISTRY } from './apToolsConfig';
 import { targetToVehicleType } from './apLaunch';
 import { FireAndForget, isVehicleTarget } from './apCommonUtils';
 import { apTerminalMonitor } from './apTerminalMonitor';
+import { apParametersPanel } from './apParametersPanel';
+import { apUploader, findFirmwareFiles } from './apUploader';
+import { apConnectedDevices } from './apConnectedDevices';
+import { apSymbolExplorerPanel } from './apSymbolExplorerPanel';
+import { paramFileArgs } from './apParameters';
+import { apWorkspace } from './apWorkspace';
+import { apIntelliSense } from './apIntelliSense';
 
 // Interface for launch configuration
 interface LaunchConfiguration {
@@ -35,13 +42,15 @@ interface LaunchConfiguration {
 	preLaunchTask?: string; // Optional for non-vehicle targets
 	isSITL: boolean;
 	simVehicleCommand?: string;
+	paramFiles?: string[];
 	board?: string; // Board name for hardware debugging
 }
 
 // Store the currently active build configuration
 export let activeConfiguration: vscode.Task | undefined;
-export let activeUploadTask: vscode.Task | undefined;
 export let activeLaunchConfig: LaunchConfiguration | null;
+const activeConfigurationChanged = new vscode.EventEmitter<vscode.Task | undefined>();
+export const onDidChangeActiveConfiguration = activeConfigurationChanged.event;
 
 // Optional pre-set tasks for clean and distclean
 let presetCleanTask: vscode.Task | undefined;
@@ -62,18 +71,15 @@ export function setActiveConfiguration(task: vscode.Task): void {
 		return;
 	}
 	activeConfiguration = task;
+	// a configuration of another folder of a multi-root workspace selects that folder
+	const folder = apWorkspace.folderOf(task);
+	apWorkspace.select(folder);
 	// Notify other views that configuration changed - prefer soft refresh in listeners
 	vscode.commands.executeCommand('apActions.configChanged');
+	activeConfigurationChanged.fire(task);
 	// After successful build, create matching launch configuration
 	if (activeConfiguration && activeConfiguration.definition) {
 		const taskDef = activeConfiguration.definition as ArdupilotTaskDefinition;
-		const isSITL = taskDef.configure?.toLowerCase().startsWith('sitl') ?? false;
-		if (!isSITL)	{
-			// find appropriate upload task
-			vscode.tasks.fetchTasks().then(tasks => {
-				activeUploadTask = tasks.find(task => task.name === `${activeConfiguration?.name}-upload`);
-			});
-		}
 		// Only create launch config and update properties for non-override tasks
 		if (!taskDef.overrideEnabled && taskDef.configure && taskDef.target) {
 			activeLaunchConfig = apActionItem.createMatchingLaunchConfig(
@@ -81,16 +87,27 @@ export function setActiveConfiguration(task: vscode.Task): void {
 				taskDef.configure,
 				taskDef.target,
 				taskDef.simVehicleCommand || '',
-				taskDef.configure // Pass board name (same as configure for hardware builds)
+				taskDef.configure, // Pass board name (same as configure for hardware builds)
+				taskDef.paramFiles,
+				folder
 			);
 			// Update c_cpp_properties.json for IntelliSense
-			updateCppProperties(taskDef.configure).catch(error => {
+			updateCppProperties(taskDef.configure, folder?.uri.fsPath).catch(error => {
 				new apLog('setActiveConfiguration').log(`Error updating C++ properties: ${error}`);
 			});
+			apIntelliSense.select(taskDef.configure, folder?.uri.fsPath);
 		}
 	}
 }
 
+// Forget the active configuration, when the selected folder has none
+export function clearActiveConfiguration(): void {
+	activeConfiguration = undefined;
+	activeLaunchConfig = null;
+	vscode.commands.executeCommand('apActions.configChanged');
+	activeConfigurationChanged.fire(undefined);
+}
+
 // Interface for C++ configuration based on c_cpp_properties.json schema
 interface CppConfiguration {
 	name: string;
@@ -116,10 +133,9 @@ interface CppProperties {
 }
 
 // Function to update c_cpp_properties.json with the current configuration's compile_commands.json path
-async function updateCppProperties(boardName: string): Promise<void> {
+async function updateCppProperties(boardName: string, workspaceRoot: string | undefined): Promise<void> {
 	const log = new apLog('updateCppProperties').log;
 
-	const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
 	if (!workspaceRoot) {
 		log('No workspace folder is open.');
 		return;
@@ -146,17 +162,15 @@ async function updateCppProperties(boardName: string): Promise<void> {
 		compilerPath = armGccInfo.path || 'arm-none-eabi-gcc';
 	}
 
-	// Default C++ properties structure
+	// Default C++ properties structure, language standards and IntelliSense mode
+	// come from the compile flags of each file served by the configuration provider
 	const defaultConfig: CppConfiguration = {
 		name: 'ArduPilot',
 		includePath: [
 			'${workspaceFolder}/**'
 		],
 		defines: [],
-		compilerPath: compilerPath,
-		cStandard: 'c11',
-		cppStandard: 'gnu++11',
-		intelliSenseMode: isSITL ? 'gcc-x64' : 'gcc-arm'
+		compilerPath: compilerPath
 	};
 
 	let cppProperties: CppProperties = {
@@ -182,23 +196,19 @@ async function updateCppProperties(boardName: string): Promise<void> {
 	// Find or create ArduPilot configuration
 	let apConfig = cppProperties.configurations.find((cfg: CppConfiguration) => cfg.name === 'ArduPilot');
 	if (!apConfig) {
-		apConfig = {
-			name: 'ArduPilot',
-			includePath: [
-				'${workspaceFolder}/**'
-			],
-			defines: [],
-			compilerPath: compilerPath,
-			cStandard: 'c11',
-			cppStandard: 'gnu++11',
-			intelliSenseMode: isSITL ? 'gcc-x64' : 'gcc-arm'
-		};
+		apConfig = { ...defaultConfig };
 		cppProperties.configurations.push(apConfig);
 	}
 
 	// Update compiler settings based on board type
 	apConfig.compilerPath = compilerPath;
-	apConfig.intelliSenseMode = isSITL ? 'gcc-x64' : 'gcc-arm';
+	// the board's architecture is derived from the compiler and its flags
+	delete apConfig.intelliSenseMode;
+	if (apIntelliSense.backend === 'cpptools') {
+		apConfig.configurationProvider = apIntelliSense.EXTENSION_ID;
+	} else if (apConfig.configurationProvider === apIntelliSense.EXTENSION_ID) {
+		delete apConfig.configurationProvider;
+	}
 
 	// Update compile commands path
 	const compileCommandsPath = '${workspaceFolder}/build/' + boardName + '/compile_commands.json';
@@ -252,6 +262,12 @@ export class apActionItem extends vscode.TreeItem {
 		case 'distclean':
 			this.iconPath = new vscode.ThemeIcon('clear-all');
 			break;
+		case 'parameters':
+			this.iconPath = new vscode.ThemeIcon('settings');
+			break;
+		case 'flashUsage':
+			this.iconPath = new vscode.ThemeIcon('graph');
+			break;
 		default:
 			this.iconPath = new vscode.ThemeIcon('symbol-event');
 		}
@@ -279,7 +295,7 @@ export class apActionItem extends vscode.TreeItem {
 			this.debugFirmware();
 			break;
 		case 'upload':
-			this.uploadFirmware();
+			void this.uploadFirmware();
 			break;
 		case 'run':
 			void this.runFirmware();
@@ -293,6 +309,12 @@ export class apActionItem extends vscode.TreeItem {
 		case 'distclean':
 			void this.runDistcleanTask();
 			break;
+		case 'parameters':
+			void this.showSITLParameters();
+			break;
+		case 'flashUsage':
+			this.showFlashUsage();
+			break;
 		}
 	}
 
@@ -357,8 +379,8 @@ export class apActionItem extends vscode.TreeItem {
 		}
 	}
 
-	static createMatchingLaunchConfig(configName: string, configure: string, target: string, simVehicleCommand: string, board?: string): LaunchConfiguration | null {
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
+	static createMatchingLaunchConfig(configName: string, configure: string, target: string, simVehicleCommand: string, board?: string, paramFiles?: string[], folder: vscode.WorkspaceFolder | undefined = apWorkspace.folder): LaunchConfiguration | null {
+		const workspaceRoot = folder?.uri.fsPath;
 		if (!workspaceRoot) {
 			apActionItem.log('No workspace folder is open.');
 			return null;
@@ -399,6 +421,7 @@ export class apActionItem extends vscode.TreeItem {
 			...(preLaunchTask && { preLaunchTask }), // Only add preLaunchTask if defined
 			isSITL: isSITL,
 			...(simVehicleCommand && { simVehicleCommand }),
+			...(isSITL && paramFiles && paramFiles.length > 0 ? { paramFiles } : {}),
 			...(!isSITL && board && { board }) // Add board field for hardware debugging
 		};
 
@@ -420,19 +443,19 @@ export class apActionItem extends vscode.TreeItem {
 
 		// Also update the task configuration with the simVehicleCommand
 		if (isSITL && simVehicleCommand) {
-			this.updateTaskWithSimVehicleCommand(configName, simVehicleCommand);
+			this.updateTaskWithSimVehicleCommand(configName, simVehicleCommand, folder);
 		}
 
 		// Persist updated configurations via VS Code API if available
 		if (typeof (launchSettings as unknown as { update?: unknown }).update === 'function') {
-			launchSettings.update('configurations', configurations, vscode.ConfigurationTarget.Workspace).then(() => {
+			launchSettings.update('configurations', configurations, apWorkspace.configurationTarget).then(() => {
 				apActionItem.log(`Updated launch configurations for ${configName}`);
 			}, (error) => {
 				apActionItem.log(`Error updating launch configurations: ${error}`);
 			});
 			const version = launchSettings.get<string>('version');
 			if (!version) {
-				launchSettings.update('version', '0.2.0', vscode.ConfigurationTarget.Workspace).then(() => {
+				launchSettings.update('version', '0.2.0', apWorkspace.configurationTarget).then(() => {
 					apActionItem.log('Set launch.json version to 0.2.0');
 				}, (error) => {
 					apActionItem.log(`Error setting launch.json version: ${error}`);
@@ -484,9 +507,10 @@ export class apActionItem extends vscode.TreeItem {
 		 * Updates the task configuration with the simVehicleCommand
 		 * @param configName The configuration name
 		 * @param simVehicleCommand The simVehicleCommand to save
+		 * @param folder The folder whose tasks.json holds the configuration
 		 */
-	static updateTaskWithSimVehicleCommand(configName: string, simVehicleCommand: string): void {
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
+	static updateTaskWithSimVehicleCommand(configName: string, simVehicleCommand: string, folder: vscode.WorkspaceFolder | undefined = apWorkspace.folder): void {
+		const workspaceRoot = folder?.uri.fsPath;
 		if (!workspaceRoot) {
 			apActionItem.log('No workspace folder is open.');
 			return;
@@ -513,7 +537,7 @@ export class apActionItem extends vscode.TreeItem {
 			tasks[taskIndex].simVehicleCommand = simVehicleCommand;
 
 			// Update the tasks configuration
-			tasksConfig.update('tasks', tasks, vscode.ConfigurationTarget.Workspace).then(() => {
+			tasksConfig.update('tasks', tasks, apWorkspace.configurationTarget).then(() => {
 				apActionItem.log(`Updated simVehicleCommand for ${configName} in tasks.json`);
 			}, (error) => {
 				apActionItem.log(`Error updating tasks.json: ${error}`);
@@ -523,6 +547,62 @@ export class apActionItem extends vscode.TreeItem {
 		}
 	}
 
+	/**
+	 * Replaces the parameter files of a SITL configuration in tasks.json and in the
+	 * active configuration, so Run and Debug pick them up straight away
+	 * @param configName The configuration name
+	 * @param paramFiles Parameter files relative to the workspace
+	 * @param folder The folder whose tasks.json holds the configuration
+	 */
+	static async updateTaskParamFiles(configName: string, paramFiles: string[], folder: vscode.WorkspaceFolder | undefined = apWorkspace.folder): Promise<void> {
+		const workspaceRoot = folder?.uri.fsPath;
+		if (!workspaceRoot) {
+			apActionItem.log('No workspace folder is open.');
+			return;
+		}
+
+		const tasksConfig = vscode.workspace.getConfiguration('tasks', vscode.Uri.file(workspaceRoot));
+		const tasks = tasksConfig.get('tasks') as Array<ArdupilotTaskDefinition> || [];
+		const taskIndex = tasks.findIndex((task: ArdupilotTaskDefinition) => task.configName === configName && task.type === 'ardupilot');
+		if (taskIndex < 0) {
+			apActionItem.log(`No task found for ${configName}`);
+			return;
+		}
+		tasks[taskIndex].paramFiles = paramFiles.length > 0 ? paramFiles : undefined;
+		await tasksConfig.update('tasks', tasks, apWorkspace.configurationTarget);
+		apActionItem.log(`Updated paramFiles for ${configName} in tasks.json`);
+
+		if (activeConfiguration && (activeConfiguration.definition as ArdupilotTaskDefinition).configName === configName &&
+			apWorkspace.isSameFolder(apWorkspace.folderOf(activeConfiguration), folder)) {
+			activeConfiguration.definition.paramFiles = tasks[taskIndex].paramFiles;
+			setActiveConfiguration(activeConfiguration);
+		}
+	}
+
+	/**
+	 * Adds the parameter file open in the editor to the active SITL configuration
+	 */
+	static async addParamFileToActiveConfiguration(uri?: vscode.Uri): Promise<void> {
+		const workspaceRoot = apWorkspace.rootOf(activeConfiguration);
+		const file = uri ?? vscode.window.activeTextEditor?.document.uri;
+		const taskDef = activeConfiguration?.definition as ArdupilotTaskDefinition | undefined;
+		if (!workspaceRoot || !file) {
+			return;
+		}
+		if (!taskDef || taskDef.overrideEnabled || !taskDef.configure?.toLowerCase().startsWith('sitl')) {
+			vscode.window.showErrorMessage('Parameter files can only be added to an active SITL configuration');
+			return;
+		}
+		const relative = path.relative(workspaceRoot, file.fsPath);
+		const paramFiles = taskDef.paramFiles ?? [];
+		if (paramFiles.includes(relative)) {
+			vscode.window.showInformationMessage(`${relative} is already used by ${taskDef.configName}`);
+			return;
+		}
+		await this.updateTaskParamFiles(taskDef.configName, [...paramFiles, relative], apWorkspace.folderOf(activeConfiguration));
+		vscode.window.showInformationMessage(`${taskDef.configName} now loads ${relative} in SITL`);
+	}
+
 	private debugFirmware(): void {
 		if (!activeConfiguration) {
 			vscode.window.showErrorMessage('No active configuration selected');
@@ -534,17 +614,63 @@ export class apActionItem extends vscode.TreeItem {
 		}
 	}
 
-	private uploadFirmware(): void {
+	/**
+	 * Builds the active configuration and flashes the newest firmware from
+	 * build/<board>/bin with the built-in bootloader uploader, or runs its
+	 * waf -upload task where that is unsupported
+	 */
+	@FireAndForget({ apLog: apActionItem.logger, showErrorPopup: true })
+	private async uploadFirmware(): Promise<void> {
 		apActionItem.log(`upload firmware for ${this.label}`);
 		if (!activeConfiguration) {
 			vscode.window.showErrorMessage('No active configuration selected');
 			return;
 		}
-		if (activeUploadTask) {
-			vscode.tasks.executeTask(activeUploadTask);
-		} else {
-			vscode.window.showErrorMessage('No upload task found');
+
+		const config = activeConfiguration.definition as ArdupilotTaskDefinition;
+		if (!config.configure) {
+			vscode.window.showErrorMessage('Configuration is missing board information');
+			return;
+		}
+
+		if (!apUploader.supported) {
+			await apUploader.runUploadTask(activeConfiguration);
+			return;
 		}
+
+		const workspaceRoot = apWorkspace.rootOf(activeConfiguration);
+		if (!workspaceRoot) {
+			vscode.window.showErrorMessage('No workspace folder is open');
+			return;
+		}
+
+		// build first so the upload never flashes stale firmware
+		const buildTask = activeConfiguration;
+		const built = await new Promise<boolean>(resolve => {
+			vscode.tasks.executeTask(buildTask).then(taskExecution => {
+				const disposable = vscode.tasks.onDidEndTaskProcess(e => {
+					if (e.execution === taskExecution) {
+						disposable.dispose();
+						resolve(e.exitCode === 0);
+					}
+				});
+			}, () => resolve(false));
+		});
+		if (!built) {
+			vscode.window.showErrorMessage(`Build failed for ${config.configName}`);
+			return;
+		}
+
+		const firmware = findFirmwareFiles(workspaceRoot, config.configure)[0];
+		if (!firmware) {
+			vscode.window.showErrorMessage(`No firmware found in build/${config.configure}/bin`);
+			return;
+		}
+		const device = await apUploader.pickDevice(apConnectedDevices.getKnownDevices());
+		if (!device) {
+			return; // User cancelled or no board connected
+		}
+		await apUploader.upload(firmware.path, device);
 	}
 
 	@FireAndForget({ apLog: apActionItem.logger, showErrorPopup: true })
@@ -574,7 +700,7 @@ export class apActionItem extends vscode.TreeItem {
 			return;
 		}
 
-		const workspaceRoot = vscode.workspace.workspaceFolders?.[0].uri.fsPath;
+		const workspaceRoot = apWorkspace.rootOf(activeConfiguration);
 		if (!workspaceRoot) {
 			vscode.window.showErrorMessage('No workspace folder is open');
 			return;
@@ -635,7 +761,7 @@ export class apActionItem extends vscode.TreeItem {
 		await sitlMonitor.runCommand(`cd ${workspaceRoot}`, { nonblocking: true });
 		const pythonPath = await ProgramUtils.PYTHON();
 
-		let simVehicleCommand = `${pythonPath} ${simVehiclePath} --no-rebuild -v ${vehicleType} ${additionalArgs} ${config.simVehicleCommand || ''} ${extraOptions}`;
+		let simVehicleCommand = `${pythonPath} ${simVehiclePath} --no-rebuild -v ${vehicleType} ${additionalArgs} ${config.simVehicleCommand || ''} ${paramFileArgs(config.paramFiles, workspaceRoot)} ${extraOptions}`;
 		if (os.platform() === 'darwin') {
 			simVehicleCommand = `DISPLAY=1 ${simVehicleCommand}`;
 		}
@@ -643,6 +769,19 @@ export class apActionItem extends vscode.TreeItem {
 		sitlMonitor.show();
 	}
 
+	private async showSITLParameters(): Promise<void> {
+		// sim_vehicle.py's MAVProxy forwards to 14550 and 14551, leave 14550 to any GCS
+		await apParametersPanel.createOrShow(this._actionsProvider.context.extensionUri,
+			{ type: 'udpin', host: '127.0.0.1', port: 14551 }, 'SITL');
+	}
+
+	private showFlashUsage(): void {
+		if (!activeConfiguration) {
+			return;
+		}
+		apSymbolExplorerPanel.createOrShow(this._actionsProvider.context, activeConfiguration.definition as ArdupilotTaskDefinition);
+	}
+
 	private configure(): void {
 		// Show quick current active configuration
 		if (activeConfiguration && activeConfiguration.definition) {
@@ -686,6 +825,16 @@ export class apActionsProvider implements vscode.TreeDataProvider<apActionItem>
 			this.log(`Error loading default active configuration: ${err}`);
 			vscode.window.showErrorMessage(`Error loading default active configuration: ${err.message ?? err}`);
 		});
+
+		// Another folder of a multi-root workspace was selected, switch to its active configuration
+		context.subscriptions.push(apWorkspace.onDidChangeFolder(folder => {
+			if (activeConfiguration && apWorkspace.isSameFolder(apWorkspace.folderOf(activeConfiguration), folder)) {
+				return;
+			}
+			this.loadDefaultActiveConfiguration().catch(err => {
+				this.log(`Error loading active configuration of ${folder?.name}: ${err}`);
+			});
+		}));
 	}
 
 	refresh(): void {
@@ -697,17 +846,19 @@ export class apActionsProvider implements vscode.TreeDataProvider<apActionItem>
 		return element;
 	}
 
-	// Load the default active configuration from workspace settings or tasks
+	// Load the default active configuration of the selected folder from its settings or tasks
 	private async loadDefaultActiveConfiguration(): Promise<void> {
 		// Check if we have a saved active configuration
-		const taskConfig = vscode.workspace.getConfiguration('ardupilot');
-		const activeConfigName = taskConfig.get<string>('activeConfiguration');
+		const folder = apWorkspace.folder;
+		const activeConfigName = apWorkspace.activeConfigurationName(folder);
+		// tasks of the other folders of a multi-root workspace
+		const inFolder = (task: vscode.Task) => !apWorkspace.isMultiRoot || apWorkspace.isSameFolder(apWorkspace.folderOf(task), folder);
 
 		if (activeConfigName) {
 			// Try to find this task
 			const tasks = await vscode.tasks.fetchTasks();
 			const arduPilotTasks = tasks.filter(task =>
-				task.definition.type === 'ardupilot' && !apActionsProvider.isUtilityTask(task)
+				task.definition.type === 'ardupilot' && !apActionsProvider.isUtilityTask(task) && inFolder(task)
 			);
 
 			const matchingTask = arduPilotTasks.find(task =>
@@ -725,13 +876,17 @@ export class apActionsProvider implements vscode.TreeDataProvider<apActionItem>
 		// If no saved configuration, try to use the first available configuration
 		const tasks = await vscode.tasks.fetchTasks();
 		const arduPilotTasks = tasks.filter(task =>
-			task.definition.type === 'ardupilot' && !apActionsProvider.isUtilityTask(task)
+			task.definition.type === 'ardupilot' && !apActionsProvider.isUtilityTask(task) && inFolder(task)
 		);
 
 		if (arduPilotTasks.length > 0) {
 			setActiveConfiguration(arduPilotTasks[0]);
 			this.log(`Using default configuration: ${activeConfiguration?.definition.configName}`);
 			this.refresh();
+		} else if (activeConfiguration) {
+			// the newly selected folder has no configuration yet
+			clearActiveConfiguration();
+			this.refresh();
 		}
 	}
 
@@ -748,6 +903,11 @@ export class apActionsProvider implements vscode.TreeDataProvider<apActionItem>
 			const def = activeConfiguration.definition as ArdupilotTaskDefinition;
 			configLabel = `Configuration: ${def.configName}`;
 			configTooltip = `Active configuration: ${def.configName}`;
+			const folder = apWorkspace.folderOf(activeConfiguration);
+			if (apWorkspace.isMultiRoot && folder) {
+				configLabel = `${configLabel} (${folder.name})`;
+				configTooltip = `${configTooltip} in ${folder.uri.fsPath}`;
+			}
 		}
 
 		actionItems.push(new apActionItem(
@@ -791,6 +951,13 @@ export class apActionsProvider implements vscode.TreeDataProvider<apActionItem>
 					'clean',
 					'Clean build artifacts'
 				));
+				actionItems.push(new apActionItem(
+					this,
+					'Flash Usage',
+					vscode.TreeItemCollapsibleState.None,
+					'flashUsage',
+					`Show flash and RAM usage by library and symbol for ${def.configName}`
+				));
 
 				// Add Upload action for hardware configurations or Run for SITL
 				if (isSITL) {
@@ -802,6 +969,13 @@ export class apActionsProvider implements vscode.TreeDataProvider<apActionItem>
 						`Run SITL simulation for ${def.target}`,
 						activeConfiguration
 					));
+					actionItems.push(new apActionItem(
+						this,
+						'SITL Parameters',
+						vscode.TreeItemCollapsibleState.None,
+						'parameters',
+						'Edit the parameters of the running SITL vehicle'
+					));
 				} else {
 					const boardName = def.configure || 'unknown board';
 					actionItems.push(new apActionItem(
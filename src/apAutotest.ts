@@ -0,0 +1,165 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+export interface AutotestSubtest {
+	name: string;
+	description: string;
+}
+
+export interface AutotestVehicle {
+	// autotest's name for the vehicle, e.g. 'Copter' for the test.Copter step
+	name: string;
+	subtests: AutotestSubtest[];
+}
+
+export type AutotestEvent =
+	| { type: 'started', subtest: string }
+	| { type: 'passed', subtest: string }
+	| { type: 'failed', subtest: string, message: string, logFile?: string }
+	| { type: 'stepPassed', step: string }
+	| { type: 'stepFailed', step: string, message?: string }
+	| { type: 'gdbserver', port: number };
+
+// autotest vehicles that run on the binary built for each SITL target
+const TARGET_AUTOTEST_VEHICLES: Record<string, string[]> = {
+	'copter': ['Copter'],
+	'heli': ['Helicopter'],
+	'plane': ['Plane', 'QuadPlane'],
+	'rover': ['Rover', 'Sailboat', 'BalanceBot'],
+	'sub': ['Sub'],
+	'antennatracker': ['Tracker'],
+	'blimp': ['Blimp']
+};
+
+// Tools/autotest module defining each vehicle's tests
+const AUTOTEST_VEHICLE_FILES: Record<string, string> = {
+	Copter: 'arducopter.py',
+	Helicopter: 'helicopter.py',
+	Plane: 'arduplane.py',
+	QuadPlane: 'quadplane.py',
+	Rover: 'rover.py',
+	Sailboat: 'sailboat.py',
+	BalanceBot: 'balancebot.py',
+	Sub: 'ardusub.py',
+	Tracker: 'antennatracker.py',
+	Blimp: 'blimp.py'
+};
+
+// tests shared by every vehicle live in the common base class
+export const AUTOTEST_COMMON_FILE = 'vehicle_test_suite.py';
+
+/**
+ * Vehicles autotest can test with the active SITL configuration's binary
+ * @param target build target, e.g. 'copter' or 'sitl-copter'
+ */
+export function autotestVehiclesForTarget(target: string): string[] {
+	return TARGET_AUTOTEST_VEHICLES[target.replace(/^sitl-/, '')] ?? [];
+}
+
+export function autotestVehicleFile(vehicle: string): string | undefined {
+	return AUTOTEST_VEHICLE_FILES[vehicle];
+}
+
+/**
+ * autotest.py step running a whole vehicle, or one of its subtests
+ */
+export function autotestStep(vehicle: string, subtest?: string): string {
+	return subtest ? `test.${vehicle}.${subtest}` : `test.${vehicle}`;
+}
+
+/**
+ * Reads the output of `autotest.py --list-subtests`, a block per vehicle:
+ *
+ *     test.Copter:
+ *         AltEstimation: Test that Alt Estimation is mandatory for ALT_HOLD
+ */
+export function parseSubtestList(output: string): AutotestVehicle[] {
+	const vehicles: AutotestVehicle[] = [];
+	let current: AutotestVehicle | undefined;
+	for (const line of output.split(/\r?\n/)) {
+		const header = /^(?:test\.)?(\w+):\s*$/.exec(line);
+		if (header) {
+			current = { name: header[1], subtests: [] };
+			vehicles.push(current);
+			continue;
+		}
+		const subtest = /^\s+(\w+):\s*(.*)$/.exec(line);
+		if (subtest && current) {
+			current.subtests.push({ name: subtest[1], description: subtest[2].trim() });
+		}
+	}
+	return vehicles.filter(vehicle => vehicle.subtests.length > 0);
+}
+
+/**
+ * Finds the method implementing a subtest in a test module
+ * @returns the 0-based line of its `def`, undefined when not defined there
+ */
+export function findSubtestDefinition(source: string, subtest: string): number | undefined {
+	const pattern = new RegExp(`^\\s+def ${subtest}\\(self\\b`);
+	const line = source.split(/\r?\n/).findIndex(text => pattern.test(text));
+	return line < 0 ? undefined : line;
+}
+
+/**
+ * Turns autotest.py output into test events. Output arrives in arbitrary
+ * chunks, so partial lines are kept until the rest comes in.
+ */
+export class AutotestOutputParser {
+	private _pending = '';
+
+	feed(chunk: string): AutotestEvent[] {
+		const lines = (this._pending + chunk).split(/\r?\n/);
+		this._pending = lines.pop() ?? '';
+		return lines.flatMap(line => this._parseLine(line));
+	}
+
+	// parses whatever is left once the process has exited
+	flush(): AutotestEvent[] {
+		const line = this._pending;
+		this._pending = '';
+		return this._parseLine(line);
+	}
+
+	private _parseLine(rawLine: string): AutotestEvent[] {
+		// progress lines are prefixed with the simulation time, e.g. "AT-0123.4: "
+		const line = rawLine.replace(/^AT-[\d.]+: /, '').trimEnd();
+
+		const started = /^#{10} (\w+) \(.*\) +#{10}$/.exec(line);
+		if (started) {
+			return [{ type: 'started', subtest: started[1] }];
+		}
+		const passed = /^PASSED: "(\w+)[ "]/.exec(line);
+		if (passed) {
+			return [{ type: 'passed', subtest: passed[1] }];
+		}
+		const failed = /^FAILED: "(\w+)(?: \(.*\))?": (.*?)(?: \(see (\S+)\))?$/.exec(line);
+		if (failed) {
+			return [{ type: 'failed', subtest: failed[1], message: failed[2], logFile: failed[3] }];
+		}
+		const step = /^>>>> (PASSED|FAILED) STEP: (\S+) at [^(]*(?:\((.*)\))?$/.exec(line);
+		if (step) {
+			return [step[1] === 'PASSED'
+				? { type: 'stepPassed', step: step[2] }
+				: { type: 'stepFailed', step: step[2], message: step[3] }];
+		}
+		const gdbserver = /^Listening on port (\d+)$/.exec(line);
+		if (gdbserver) {
+			return [{ type: 'gdbserver', port: parseInt(gdbserver[1], 10) }];
+		}
+		return [];
+	}
+}
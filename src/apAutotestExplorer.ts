@@ -0,0 +1,347 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { apLog } from './apLog';
+import { ProgramUtils } from './apProgramUtils';
+import { APTaskProvider, ArdupilotTaskDefinition } from './taskProvider';
+import { activeConfiguration } from './apActions';
+import {
+	AUTOTEST_COMMON_FILE,
+	AutotestEvent,
+	AutotestOutputParser,
+	autotestStep,
+	autotestVehicleFile,
+	autotestVehiclesForTarget,
+	findSubtestDefinition,
+	parseSubtestList
+} from './apAutotest';
+
+// listing instantiates every vehicle's test suite, which takes a while
+const LIST_TIMEOUT_MS = 120000;
+
+/**
+ * Shows the vehicle tests of Tools/autotest/autotest.py in the Test Explorer and
+ * runs or debugs them against the active SITL configuration
+ */
+export class apAutotestExplorer implements vscode.Disposable {
+	private static log = new apLog('apAutotestExplorer').log;
+	private readonly _controller: vscode.TestController;
+	private _disposables: vscode.Disposable[] = [];
+
+	constructor(private _workspaceRoot: string) {
+		this._controller = vscode.tests.createTestController('ardupilotAutotest', 'ArduPilot Autotest');
+		this._controller.resolveHandler = async item => {
+			if (!item) {
+				await this.discover();
+			}
+		};
+		this._controller.refreshHandler = () => this.discover();
+		this._controller.createRunProfile('Run', vscode.TestRunProfileKind.Run,
+			(request, token) => this.run(request, token, false), true);
+		this._controller.createRunProfile('Debug', vscode.TestRunProfileKind.Debug,
+			(request, token) => this.run(request, token, true), true);
+		this._disposables.push(this._controller);
+	}
+
+	private get autotestPath(): string {
+		return path.join(this._workspaceRoot, 'Tools', 'autotest', 'autotest.py');
+	}
+
+	/**
+	 * Lists the subtests of every vehicle with autotest.py --list-subtests
+	 */
+	public async discover(): Promise<void> {
+		if (!fs.existsSync(this.autotestPath)) {
+			apAutotestExplorer.log('autotest.py not found, no tests to show');
+			return;
+		}
+		const python = await ProgramUtils.PYTHON();
+		const output = await new Promise<string>((resolve, reject) => {
+			cp.execFile(python, [this.autotestPath, '--list-subtests'],
+				{ cwd: this._workspaceRoot, timeout: LIST_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+					if (error) {
+						reject(new Error(stderr.trim() || error.message));
+					} else {
+						resolve(stdout);
+					}
+				});
+		}).catch((error: Error) => {
+			apAutotestExplorer.log(`Failed to list autotest subtests: ${error.message}`);
+			void vscode.window.showErrorMessage(`Failed to list autotest tests: ${error.message}`);
+			return undefined;
+		});
+		if (output === undefined) {
+			return;
+		}
+
+		const vehicles = parseSubtestList(output);
+		const common = this._readTestModule(AUTOTEST_COMMON_FILE);
+		this._controller.items.replace(vehicles.map(vehicle => {
+			const file = autotestVehicleFile(vehicle.name);
+			const module = file ? this._readTestModule(file) : undefined;
+			const item = this._controller.createTestItem(autotestStep(vehicle.name), vehicle.name, module?.uri);
+			item.children.replace(vehicle.subtests.map(subtest => {
+				// tests shared by all vehicles are defined in the common base class
+				const definedIn = [module, common].find(source =>
+					source && findSubtestDefinition(source.content, subtest.name) !== undefined);
+				const child = this._controller.createTestItem(autotestStep(vehicle.name, subtest.name), subtest.name, definedIn?.uri);
+				child.description = subtest.description;
+				if (definedIn) {
+					const line = findSubtestDefinition(definedIn.content, subtest.name) ?? 0;
+					child.range = new vscode.Range(line, 0, line, 0);
+				}
+				return child;
+			}));
+			return item;
+		}));
+		apAutotestExplorer.log(`Found ${vehicles.reduce((count, vehicle) => count + vehicle.subtests.length, 0)} subtests for ${vehicles.length} vehicles`);
+	}
+
+	private _readTestModule(file: string): { uri: vscode.Uri, content: string } | undefined {
+		const modulePath = path.join(this._workspaceRoot, 'Tools', 'autotest', file);
+		try {
+			return { uri: vscode.Uri.file(modulePath), content: fs.readFileSync(modulePath, 'utf8') };
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Builds the active SITL configuration, then runs the requested steps in one autotest.py process
+	 */
+	private async run(request: vscode.TestRunRequest, token: vscode.CancellationToken, debug: boolean): Promise<void> {
+		const run = this._controller.createTestRun(request);
+		// subtest items by name, per vehicle item
+		const queued = new Map<vscode.TestItem, Map<string, vscode.TestItem>>();
+		const steps: string[] = [];
+		const excluded = new Set(request.exclude ?? []);
+		const included = request.include ?? this._gatherItems(this._controller.items);
+
+		const definition = activeConfiguration?.definition as ArdupilotTaskDefinition | undefined;
+		const vehicles = definition?.configure?.toLowerCase().startsWith('sitl') && !definition.overrideEnabled && definition.target
+			? autotestVehiclesForTarget(definition.target)
+			: [];
+
+		for (const item of included) {
+			if (excluded.has(item)) {
+				continue;
+			}
+			const vehicleItem = item.parent ?? item;
+			if (!vehicles.includes(vehicleItem.label)) {
+				const message = definition
+					? `${vehicleItem.label} tests need an active SITL configuration building its vehicle, ${definition.configName} builds ${definition.target}`
+					: `${vehicleItem.label} tests need an active SITL configuration`;
+				this._forEachSubtest(item, subtest => run.errored(subtest, new vscode.TestMessage(message)));
+				continue;
+			}
+			const subtests = queued.get(vehicleItem) ?? new Map<string, vscode.TestItem>();
+			queued.set(vehicleItem, subtests);
+			const children = item.parent ? [item] : this._gatherItems(item.children);
+			const selected = children.filter(child => !excluded.has(child));
+			// a whole vehicle runs as one step, unless some of its tests were excluded
+			if (!item.parent && selected.length === children.length) {
+				steps.push(item.id);
+			} else {
+				steps.push(...selected.map(child => child.id));
+			}
+			selected.forEach(child => {
+				subtests.set(child.label, child);
+				run.enqueued(child);
+			});
+		}
+
+		if (steps.length === 0 || !activeConfiguration || !definition) {
+			run.end();
+			return;
+		}
+
+		run.appendOutput(`Building ${definition.configName}\r\n`);
+		if (!await this._build(activeConfiguration)) {
+			queued.forEach(subtests => subtests.forEach(item =>
+				run.errored(item, new vscode.TestMessage(`Build failed for ${definition.configName}`))));
+			run.end();
+			return;
+		}
+		if (token.isCancellationRequested) {
+			run.end();
+			return;
+		}
+
+		const exitCode = await this._runAutotest(run, steps, queued, definition, token, debug);
+
+		// anything autotest never reported on, e.g. after a crash or a cancelled run
+		queued.forEach(subtests => subtests.forEach(item => {
+			if (token.isCancellationRequested) {
+				run.skipped(item);
+			} else {
+				run.errored(item, new vscode.TestMessage(`autotest.py exited with code ${exitCode} before reporting a result`));
+			}
+		}));
+		run.end();
+	}
+
+	private async _runAutotest(run: vscode.TestRun, steps: string[], queued: Map<vscode.TestItem, Map<string, vscode.TestItem>>,
+		definition: ArdupilotTaskDefinition, token: vscode.CancellationToken, debug: boolean): Promise<number | null> {
+		const python = await ProgramUtils.PYTHON();
+		const args = [this.autotestPath, ...(debug ? ['--gdbserver'] : []), ...steps];
+		const env = await APTaskProvider.prepareEnvironmentVariables(definition);
+		run.appendOutput(`${python} ${args.join(' ')}\r\n`);
+		apAutotestExplorer.log(`Running ${steps.join(' ')}`);
+
+		const parser = new AutotestOutputParser();
+		const startTimes = new Map<vscode.TestItem, number>();
+		// the vehicle whose step is running, to tell apart subtests with the same name
+		let current: vscode.TestItem | undefined;
+
+		const findSubtest = (name: string) => {
+			const vehicleItems = current ? [current, ...queued.keys()] : [...queued.keys()];
+			for (const vehicleItem of vehicleItems) {
+				const item = queued.get(vehicleItem)?.get(name);
+				if (item) {
+					current = vehicleItem;
+					return item;
+				}
+			}
+			return undefined;
+		};
+		const finish = (item: vscode.TestItem, outcome: (duration?: number) => void) => {
+			const started = startTimes.get(item);
+			outcome(started === undefined ? undefined : Date.now() - started);
+			queued.get(item.parent ?? item)?.delete(item.label);
+		};
+		const handle = (event: AutotestEvent) => {
+			switch (event.type) {
+			case 'started': {
+				const item = findSubtest(event.subtest);
+				if (item) {
+					startTimes.set(item, Date.now());
+					run.started(item);
+				}
+				break;
+			}
+			case 'passed': {
+				const item = findSubtest(event.subtest);
+				if (item) {
+					finish(item, duration => run.passed(item, duration));
+				}
+				break;
+			}
+			case 'failed': {
+				const item = findSubtest(event.subtest);
+				if (item) {
+					const message = new vscode.TestMessage(event.logFile ? `${event.message}\nSee ${event.logFile}` : event.message);
+					if (item.uri && item.range) {
+						message.location = new vscode.Location(item.uri, item.range);
+					}
+					finish(item, duration => run.failed(item, message, duration));
+				}
+				break;
+			}
+			case 'stepPassed':
+			case 'stepFailed': {
+				// covers subtests that failed before autotest could report them, e.g. SITL not starting
+				const item = this._findItem(event.step);
+				const remaining = item ? [...(queued.get(item.parent ?? item)?.values() ?? [])]
+					.filter(subtest => !item.parent || subtest === item) : [];
+				remaining.forEach(subtest => finish(subtest, duration => event.type === 'stepPassed'
+					? run.passed(subtest, duration)
+					: run.failed(subtest, new vscode.TestMessage(event.message ?? `${event.step} failed`), duration)));
+				break;
+			}
+			case 'gdbserver':
+				void this._attachDebugger(definition, event.port);
+				break;
+			}
+		};
+
+		return new Promise(resolve => {
+			const child = cp.spawn(python, args, { cwd: this._workspaceRoot, env });
+			const onOutput = (data: Buffer) => {
+				const text = data.toString();
+				run.appendOutput(text.replace(/\r?\n/g, '\r\n'));
+				parser.feed(text).forEach(handle);
+			};
+			child.stdout.on('data', onOutput);
+			child.stderr.on('data', onOutput);
+			const cancel = token.onCancellationRequested(() => child.kill('SIGINT'));
+			child.on('error', error => {
+				run.appendOutput(`Failed to start autotest.py: ${error.message}\r\n`);
+			});
+			child.on('close', code => {
+				cancel.dispose();
+				parser.flush().forEach(handle);
+				apAutotestExplorer.log(`autotest.py exited with code ${code}`);
+				resolve(code);
+			});
+		});
+	}
+
+	// autotest --gdbserver starts each SITL instance under gdbserver and waits for GDB to connect
+	private async _attachDebugger(definition: ArdupilotTaskDefinition, port: number): Promise<void> {
+		const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(this._workspaceRoot));
+		await vscode.debug.startDebugging(folder, {
+			type: 'apLaunch',
+			request: 'launch',
+			name: `Debug autotest ${definition.configName}`,
+			target: definition.target ?? '',
+			isSITL: true,
+			gdbServer: `localhost:${port}`
+		});
+	}
+
+	private _build(task: vscode.Task): Promise<boolean> {
+		return new Promise<boolean>(resolve => {
+			vscode.tasks.executeTask(task).then(taskExecution => {
+				const disposable = vscode.tasks.onDidEndTaskProcess(e => {
+					if (e.execution === taskExecution) {
+						disposable.dispose();
+						resolve(e.exitCode === 0);
+					}
+				});
+			}, () => resolve(false));
+		});
+	}
+
+	private _findItem(id: string): vscode.TestItem | undefined {
+		const [vehicle] = id.split('.').slice(1);
+		const vehicleItem = this._controller.items.get(autotestStep(vehicle));
+		return vehicleItem?.id === id ? vehicleItem : vehicleItem?.children.get(id);
+	}
+
+	private _forEachSubtest(item: vscode.TestItem, callback: (subtest: vscode.TestItem) => void): void {
+		if (item.parent) {
+			callback(item);
+		} else {
+			item.children.forEach(callback);
+		}
+	}
+
+	private _gatherItems(collection: vscode.TestItemCollection): vscode.TestItem[] {
+		const items: vscode.TestItem[] = [];
+		collection.forEach(item => items.push(item));
+		return items;
+	}
+
+	dispose(): void {
+		while (this._disposables.length) {
+			this._disposables.pop()?.dispose();
+		}
+	}
+}
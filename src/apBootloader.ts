@@ -0,0 +1,306 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { MavlinkTransport } from './apMavlink';
+
+// Bootloader protocol shared by ArduPilot and PX4 boards, as implemented by
+// Tools/scripts/uploader.py
+export const PROTO_OK = 0x10;
+export const PROTO_FAILED = 0x11;
+export const PROTO_INSYNC = 0x12;
+export const PROTO_INVALID = 0x13;
+export const PROTO_BAD_SILICON_REV = 0x14;
+export const PROTO_EOC = 0x20;
+export const PROTO_GET_SYNC = 0x21;
+export const PROTO_GET_DEVICE = 0x22;
+export const PROTO_CHIP_ERASE = 0x23;
+export const PROTO_PROG_MULTI = 0x27;
+export const PROTO_GET_CRC = 0x29;
+export const PROTO_REBOOT = 0x30;
+
+export const INFO_BL_REV = 1;
+export const INFO_BOARD_ID = 2;
+export const INFO_BOARD_REV = 3;
+export const INFO_FLASH_SIZE = 4;
+
+// must be a multiple of 4, the bootloader programs whole words
+export const PROG_MULTI_MAX = 252;
+// GET_CRC needs bootloader revision 3, 5 is the newest known protocol
+const BL_REV_MIN = 3;
+const BL_REV_MAX = 5;
+
+// boards whose bootloader reports a different id to the firmware they run
+const COMPATIBLE_BOARD_IDS: Record<number, { firmwareId: number, name: string }> = {
+	33: { firmwareId: 9, name: 'AUAVX2.1' },
+};
+
+export interface BootloaderInfo {
+	bootloaderRev: number;
+	boardId: number;
+	boardRev: number;
+	flashSize: number;
+}
+
+export interface ApjFirmware {
+	boardId: number;
+	boardRevision: number;
+	imageSize: number;
+	image: Buffer;
+	summary?: string;
+	description?: string;
+	version?: string;
+	gitIdentity?: string;
+}
+
+export type FlashStage = 'erase' | 'program' | 'verify' | 'reboot';
+
+/**
+ * Reads an .apj firmware file as written by waf into build/<board>/bin
+ */
+export function loadApj(filePath: string): ApjFirmware {
+	return parseApj(fs.readFileSync(filePath, 'utf8'));
+}
+
+export function parseApj(content: string): ApjFirmware {
+	const apj = JSON.parse(content) as Record<string, unknown>;
+	if (typeof apj.board_id !== 'number' || typeof apj.image !== 'string') {
+		throw new Error('Not an ArduPilot firmware file, board_id or image is missing');
+	}
+	if (typeof apj.extf_image_size === 'number' && apj.extf_image_size > 0) {
+		throw new Error('Firmware with an external flash image is not supported, use the waf --upload task');
+	}
+
+	let image = zlib.inflateSync(Buffer.from(apj.image, 'base64'));
+	// the bootloader programs whole words, pad with erased flash
+	if (image.length % 4 !== 0) {
+		image = Buffer.concat([image, Buffer.alloc(4 - image.length % 4, 0xFF)]);
+	}
+	return {
+		boardId: apj.board_id,
+		boardRevision: typeof apj.board_revision === 'number' ? apj.board_revision : 0,
+		imageSize: typeof apj.image_size === 'number' ? apj.image_size : image.length,
+		image,
+		summary: apj.summary as string | undefined,
+		description: apj.description as string | undefined,
+		version: apj.version as string | undefined,
+		gitIdentity: apj.git_identity as string | undefined
+	};
+}
+
+const CRC32_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let i = 0; i < 256; i++) {
+		let crc = i;
+		for (let bit = 0; bit < 8; bit++) {
+			crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+		}
+		table[i] = crc;
+	}
+	return table;
+})();
+
+function crc32(data: Uint8Array, state: number): number {
+	for (const byte of data) {
+		state = (CRC32_TABLE[(state ^ byte) & 0xFF] ^ (state >>> 8)) >>> 0;
+	}
+	return state;
+}
+
+/**
+ * The checksum GET_CRC reports for the image: CRC32 without the final inversion,
+ * over the whole flash with the unprogrammed part read as 0xFF
+ * @param flashSize size reported by INFO_FLASH_SIZE
+ */
+export function firmwareCrc(image: Buffer, flashSize: number): number {
+	let state = crc32(image, 0);
+	const pad = Buffer.alloc(4, 0xFF);
+	for (let offset = image.length; offset < flashSize - 1; offset += 4) {
+		state = crc32(pad, state);
+	}
+	return state;
+}
+
+/**
+ * Throws when the firmware was built for a different board or does not fit
+ */
+export function checkFirmwareCompatible(firmware: ApjFirmware, info: BootloaderInfo): void {
+	if (firmware.boardId !== info.boardId && COMPATIBLE_BOARD_IDS[info.boardId]?.firmwareId !== firmware.boardId) {
+		throw new Error(`Firmware not suitable for this board (firmware board_id ${firmware.boardId}, board reports ${info.boardId})`);
+	}
+	if (firmware.image.length > info.flashSize) {
+		throw new Error(`Firmware image is too large for this board (${firmware.image.length} bytes, flash is ${info.flashSize} bytes)`);
+	}
+}
+
+/**
+ * Client side of the bootloader protocol. Every command is answered by INSYNC
+ * followed by a status byte, with any reply data in between.
+ */
+export class BootloaderClient {
+	private rx = Buffer.alloc(0);
+	private wake: (() => void) | undefined;
+	private closeError: Error | undefined;
+
+	constructor(private transport: MavlinkTransport) {}
+
+	async open(): Promise<void> {
+		await this.transport.open(
+			data => {
+				this.rx = Buffer.concat([this.rx, data]);
+				this.wake?.();
+			},
+			error => {
+				this.closeError = error ?? new Error('Port closed');
+				this.wake?.();
+			});
+	}
+
+	close(): void {
+		this.transport.close();
+	}
+
+	private send(...bytes: (number | Buffer)[]): void {
+		this.transport.write(Buffer.concat(bytes.map(part => typeof part === 'number' ? Buffer.from([part]) : part)));
+	}
+
+	private async read(count: number, timeoutMs: number): Promise<Buffer> {
+		const deadline = Date.now() + timeoutMs;
+		while (this.rx.length < count) {
+			if (this.closeError) {
+				throw this.closeError;
+			}
+			const remaining = deadline - Date.now();
+			if (remaining <= 0) {
+				throw new Error('Timed out waiting for the bootloader');
+			}
+			await new Promise<void>(resolve => {
+				const timer = setTimeout(resolve, remaining);
+				this.wake = () => {
+					clearTimeout(timer);
+					resolve();
+				};
+			});
+			this.wake = undefined;
+		}
+		const data = this.rx.subarray(0, count);
+		this.rx = this.rx.subarray(count);
+		return data;
+	}
+
+	private async getSync(timeoutMs: number): Promise<void> {
+		const [insync, status] = await this.read(2, timeoutMs);
+		if (insync !== PROTO_INSYNC) {
+			throw new Error(`Bootloader out of sync, expected INSYNC and got 0x${insync.toString(16)}`);
+		}
+		switch (status) {
+		case PROTO_OK:
+			return;
+		case PROTO_INVALID:
+			throw new Error('Bootloader reports INVALID OPERATION');
+		case PROTO_FAILED:
+			throw new Error('Bootloader reports OPERATION FAILED');
+		case PROTO_BAD_SILICON_REV:
+			throw new Error('Bootloader reports a bad silicon revision');
+		default:
+			throw new Error(`Unexpected bootloader status 0x${status.toString(16)}`);
+		}
+	}
+
+	/**
+	 * Discards anything still buffered and checks the bootloader is listening
+	 */
+	async sync(timeoutMs = 500): Promise<void> {
+		this.rx = Buffer.alloc(0);
+		this.send(PROTO_GET_SYNC, PROTO_EOC);
+		await this.getSync(timeoutMs);
+	}
+
+	async getInfo(param: number, timeoutMs = 500): Promise<number> {
+		this.send(PROTO_GET_DEVICE, param, PROTO_EOC);
+		const value = (await this.read(4, timeoutMs)).readUInt32LE(0);
+		await this.getSync(timeoutMs);
+		return value;
+	}
+
+	async identify(): Promise<BootloaderInfo> {
+		const bootloaderRev = await this.getInfo(INFO_BL_REV);
+		if (bootloaderRev < BL_REV_MIN || bootloaderRev > BL_REV_MAX) {
+			throw new Error(`Unsupported bootloader protocol revision ${bootloaderRev}`);
+		}
+		return {
+			bootloaderRev,
+			boardId: await this.getInfo(INFO_BOARD_ID),
+			boardRev: await this.getInfo(INFO_BOARD_REV),
+			flashSize: await this.getInfo(INFO_FLASH_SIZE)
+		};
+	}
+
+	async erase(timeoutMs = 20000): Promise<void> {
+		this.send(PROTO_CHIP_ERASE, PROTO_EOC);
+		await this.getSync(timeoutMs);
+	}
+
+	async program(image: Buffer, onProgress?: (written: number, total: number) => void, timeoutMs = 1000): Promise<void> {
+		for (let offset = 0; offset < image.length; offset += PROG_MULTI_MAX) {
+			const chunk = image.subarray(offset, offset + PROG_MULTI_MAX);
+			this.send(PROTO_PROG_MULTI, chunk.length, chunk, PROTO_EOC);
+			await this.getSync(timeoutMs);
+			onProgress?.(offset + chunk.length, image.length);
+		}
+	}
+
+	async getCrc(timeoutMs = 5000): Promise<number> {
+		this.send(PROTO_GET_CRC, PROTO_EOC);
+		const crc = (await this.read(4, timeoutMs)).readUInt32LE(0);
+		await this.getSync(timeoutMs);
+		return crc;
+	}
+
+	/**
+	 * Boots the flashed firmware. The bootloader may reset before it can answer,
+	 * so no reply is awaited.
+	 */
+	reboot(): void {
+		this.send(PROTO_REBOOT, PROTO_EOC);
+	}
+}
+
+/**
+ * Erases, programs and verifies the firmware, then boots it
+ * @param client a client already in sync with the bootloader
+ */
+export async function flashFirmware(client: BootloaderClient, firmware: ApjFirmware,
+	onProgress?: (stage: FlashStage, fraction: number) => void): Promise<BootloaderInfo> {
+	const info = await client.identify();
+	checkFirmwareCompatible(firmware, info);
+
+	onProgress?.('erase', 0);
+	await client.erase();
+	await client.program(firmware.image, (written, total) => onProgress?.('program', written / total));
+
+	onProgress?.('verify', 0);
+	const expected = firmwareCrc(firmware.image, info.flashSize);
+	const reported = await client.getCrc();
+	if (reported !== expected) {
+		throw new Error(`Verification failed, flash CRC 0x${reported.toString(16)} expected 0x${expected.toString(16)}`);
+	}
+
+	onProgress?.('reboot', 0);
+	client.reboot();
+	return info;
+}
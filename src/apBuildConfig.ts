@@ -20,7 +20,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { apBuildConfigPanel } from './apBuildConfigPanel';
 import { APTaskProvider, ArdupilotTaskDefinition } from './taskProvider';
-import { activeConfiguration } from './apActions';
+import { activeConfiguration, setActiveConfiguration } from './apActions';
+import { apBuildHistory, describeBuild, describeDelta, flashUsagePercent } from './apBuildHistory';
+import { parseHwdef } from './apHwdef';
+import { apPinoutPanel } from './apPinoutPanel';
+import { FeaturePreset, applyFeaturePreset, describeFeatureSet, diffFeatureSets, presetFlags, readFeaturePresets, FEATURE_PRESETS_FILE } from './apFeaturePresets';
+import { apWorkspace } from './apWorkspace';
+
+// read-only documents listing a configuration's features, opened side by side to compare them
+export const FEATURE_SET_SCHEME = 'ardupilot-features';
 
 export const binToTarget : { [target: string]: string} = {
 	'bin/arducopter': 'copter',
@@ -40,14 +48,18 @@ Object.keys(binToTarget).forEach(key => {
 
 export class apBuildConfig extends vscode.TreeItem {
 	private static log = new apLog('apBuildConfig').log;
+	// the ArduPilot folder whose tasks.json holds the configuration
+	public readonly folder: vscode.WorkspaceFolder | undefined;
 
 	constructor(
 		private _buildProvider: apBuildConfigProvider,
 		public readonly label: string,
 		public readonly collapsibleState: vscode.TreeItemCollapsibleState,
 		public readonly task?: vscode.Task,
+		folder?: vscode.WorkspaceFolder,
 	) {
 		super(label, collapsibleState);
+		this.folder = folder ?? apWorkspace.folderOf(task);
 		if (this.task && this.task.definition) {
 			const taskDef = this.task.definition as ArdupilotTaskDefinition;
 
@@ -58,8 +70,8 @@ export class apBuildConfig extends vscode.TreeItem {
 				this.description = taskDef.target;
 			}
 
-			// Check if this is the active configuration using configName
-			if (activeConfiguration && taskDef.configName === activeConfiguration.definition.configName) {
+			// Check if this is the active configuration of its folder using configName
+			if (this.isActive(taskDef)) {
 				// Highlight active configuration with blue check circle
 				this.iconPath = new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('terminal.ansiBlue'));
 				if (taskDef.overrideEnabled) {
@@ -78,13 +90,49 @@ export class apBuildConfig extends vscode.TreeItem {
 					arguments: [this]
 				};
 			}
+
+			this.showBuildSize(taskDef);
+		} else if (this.folder) {
+			// a folder of a multi-root workspace, grouping its configurations
+			const selected = apWorkspace.isSameFolder(this.folder, apWorkspace.folder);
+			this.description = selected ? 'selected' : undefined;
+			this.tooltip = this.folder.uri.fsPath;
+			this.iconPath = new vscode.ThemeIcon(selected ? 'root-folder-opened' : 'root-folder');
+			this.contextValue = 'apBuildConfigFolder';
+		}
+	}
+
+	// Each folder keeps its own active configuration, the selected folder's is the one in use
+	private isActive(taskDef: ArdupilotTaskDefinition): boolean {
+		if (!apWorkspace.isSameFolder(this.folder, apWorkspace.folder)) {
+			return apWorkspace.activeConfigurationName(this.folder) === taskDef.configName;
+		}
+		return activeConfiguration !== undefined && taskDef.configName === activeConfiguration.definition.configName;
+	}
+
+	// Append the size change of the last build and flag it when the board's flash is nearly full
+	private showBuildSize(taskDef: ArdupilotTaskDefinition): void {
+		const comparison = apBuildHistory.compare(taskDef.configName, this.folder?.uri.fsPath);
+		if (!comparison) {
+			return;
+		}
+		const baselineBranch = apBuildHistory.baselineBranch;
+		const delta = describeDelta(comparison, baselineBranch);
+		if (delta) {
+			this.description = `${this.description} ${delta}`;
+		}
+		this.tooltip = describeBuild(comparison, baselineBranch);
+		const usage = flashUsagePercent(comparison.latest);
+		if (usage !== undefined && usage >= apBuildHistory.flashWarningPercent) {
+			this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+			this.tooltip = `Flash ${usage.toFixed(1)}% full\n${this.tooltip}`;
 		}
 	}
 
 	edit(): void {
 		apBuildConfig.log(`edit ${this.label}`);
 		if (this.task) {
-			apBuildConfigPanel.createOrShow(this._buildProvider.context.extensionUri, this.task);
+			apBuildConfigPanel.createOrShow(this._buildProvider.context.extensionUri, this.task, this.folder);
 		}
 	}
 
@@ -98,16 +146,16 @@ export class apBuildConfig extends vscode.TreeItem {
 		const taskDef = this.task.definition as ArdupilotTaskDefinition;
 
 		// Check if workspace is available before trying to save settings
-		if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
+		if (!this.folder) {
 			apBuildConfig.log('No workspace available to save active configuration');
 			return;
 		}
 
-		// Save the selection to workspace settings using configName
-		vscode.workspace.getConfiguration('ardupilot').update(
+		// Save the selection to the folder's settings using configName
+		vscode.workspace.getConfiguration('ardupilot', this.folder.uri).update(
 			'activeConfiguration',
 			taskDef.configName,
-			vscode.ConfigurationTarget.Workspace
+			apWorkspace.configurationTarget
 		).then(() => {
 			// Set as active configuration (this will trigger a refresh through the watcher)
 			vscode.commands.executeCommand('apActions.setActiveConfiguration', this.task);
@@ -117,6 +165,104 @@ export class apBuildConfig extends vscode.TreeItem {
 		});
 	}
 
+	// Show the pin assignments of this configuration's board
+	showPinout(): void {
+		const taskDef = this.task?.definition as ArdupilotTaskDefinition | undefined;
+		if (!taskDef?.configure || taskDef.configure.toLowerCase().startsWith('sitl')) {
+			vscode.window.showInformationMessage('Board pinouts are only available for ChibiOS boards');
+			return;
+		}
+		apPinoutPanel.createOrShow(this._buildProvider.context.extensionUri, taskDef.configure);
+	}
+
+	// Replace this configuration's feature flags with those of a workspace preset
+	async applyFeaturePreset(): Promise<void> {
+		const taskDef = this.task?.definition as ArdupilotTaskDefinition | undefined;
+		const workspaceRoot = this.folder?.uri.fsPath;
+		if (!taskDef || !workspaceRoot) {
+			return;
+		}
+		if (taskDef.overrideEnabled || !taskDef.configure || !taskDef.target) {
+			vscode.window.showErrorMessage(`${taskDef.configName} uses custom commands, feature presets only apply to standard configurations`);
+			return;
+		}
+		let presets: FeaturePreset[];
+		try {
+			presets = readFeaturePresets(workspaceRoot);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to read ${FEATURE_PRESETS_FILE}: ${error instanceof Error ? error.message : error}`);
+			return;
+		}
+		if (presets.length === 0) {
+			vscode.window.showInformationMessage(`No feature presets yet. Save one from the features section of a build configuration, or add it to ${FEATURE_PRESETS_FILE}`);
+			return;
+		}
+		const picked = await vscode.window.showQuickPick(presets.map(preset => ({
+			label: preset.name,
+			description: `${preset.enable.length} enabled, ${preset.disable.length} disabled`,
+			detail: preset.description,
+			preset
+		})), { placeHolder: `Feature preset to apply to ${taskDef.configName}` });
+		if (!picked) {
+			return;
+		}
+
+		const task = await APTaskProvider.getOrCreateBuildConfig(
+			taskDef.configure,
+			taskDef.target,
+			taskDef.configName,
+			applyFeaturePreset(taskDef.configureOptions ?? '', picked.preset),
+			taskDef.simVehicleCommand,
+			false,
+			undefined,
+			undefined,
+			taskDef.paramFiles,
+			this.folder
+		);
+		if (!task) {
+			return;
+		}
+		if (activeConfiguration && activeConfiguration.definition.configName === taskDef.configName && apWorkspace.isSameFolder(apWorkspace.folderOf(activeConfiguration), this.folder)) {
+			setActiveConfiguration(task);
+		}
+		vscode.window.showInformationMessage(`Applied ${picked.preset.name} to ${taskDef.configName} (${presetFlags(picked.preset).length} feature flags), rebuild to use it`);
+	}
+
+	// Show the feature flags of this configuration next to those of another one
+	async compareFeatures(): Promise<void> {
+		const taskDef = this.task?.definition as ArdupilotTaskDefinition | undefined;
+		if (!taskDef) {
+			return;
+		}
+		const others = this._buildProvider.getTaskDefinitions(this.folder).filter(other => other.configName !== taskDef.configName && !other.overrideEnabled);
+		if (others.length === 0) {
+			vscode.window.showInformationMessage('There is no other build configuration to compare with');
+			return;
+		}
+		const picked = await vscode.window.showQuickPick(others.map(other => ({
+			label: other.configName,
+			description: `${other.configure} ${other.target}`,
+			other
+		})), { placeHolder: `Compare the features of ${taskDef.configName} with` });
+		if (!picked) {
+			return;
+		}
+
+		const left = taskDef.configureOptions ?? '';
+		const right = picked.other.configureOptions ?? '';
+		const differences = diffFeatureSets(left, right);
+		if (differences.length === 0) {
+			vscode.window.showInformationMessage(`${taskDef.configName} and ${picked.other.configName} set the same features`);
+			return;
+		}
+		await vscode.commands.executeCommand(
+			'vscode.diff',
+			featureSetUri(taskDef.configName, left),
+			featureSetUri(picked.other.configName, right),
+			`Features: ${taskDef.configName} ↔ ${picked.other.configName} (${differences.length} differ)`
+		);
+	}
+
 	delete(): void {
 		// delete the folder
 		apBuildConfig.log(`delete ${this.label}`);
@@ -124,9 +270,14 @@ export class apBuildConfig extends vscode.TreeItem {
 		// also delete the task from tasks.json using configName
 		if (this.task && this.task.definition) {
 			const taskDef = this.task.definition as ArdupilotTaskDefinition;
-			APTaskProvider.delete(taskDef.configName);
+			APTaskProvider.delete(taskDef.configName, this.folder);
 		}
 	}
+
+	// Make this folder the one builds, runs and tools use
+	selectFolder(): void {
+		apWorkspace.select(this.folder);
+	}
 }
 
 export class apBuildConfigProvider implements vscode.TreeDataProvider<apBuildConfig> {
@@ -138,9 +289,13 @@ export class apBuildConfigProvider implements vscode.TreeDataProvider<apBuildCon
 	constructor(private workspaceRoot: string | undefined, public context: vscode.ExtensionContext) {
 		apBuildConfigProvider.log('apBuildConfigProvider constructor');
 
+		context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(FEATURE_SET_SCHEME, {
+			provideTextDocumentContent: uri => describeFeatureSet(decodeURIComponent(uri.query))
+		}));
+
 		// Watch for changes to the active configuration
 		vscode.workspace.onDidChangeConfiguration(e => {
-			if (e.affectsConfiguration('ardupilot.activeConfiguration')) {
+			if (e.affectsConfiguration('ardupilot.activeConfiguration') || e.affectsConfiguration('ardupilot.buildHistory')) {
 				this.refresh();
 			}
 		});
@@ -152,9 +307,16 @@ export class apBuildConfigProvider implements vscode.TreeDataProvider<apBuildCon
 			})
 		);
 
-		// Watch for changes to tasks.json to auto-refresh build configurations
-		if (this.workspaceRoot) {
-			const tasksJsonPattern = new vscode.RelativePattern(this.workspaceRoot, '.vscode/tasks.json');
+		// Regroup when the selected folder or the workspace folders change
+		context.subscriptions.push(apWorkspace.onDidChangeFolder(() => this.refresh()));
+
+		// Watch for changes to tasks.json to auto-refresh build configurations, in every ArduPilot folder
+		const folderRoots = apWorkspace.isMultiRoot ? apWorkspace.folders.map(folder => folder.uri.fsPath) : [this.workspaceRoot];
+		for (const folderRoot of folderRoots) {
+			if (!folderRoot) {
+				continue;
+			}
+			const tasksJsonPattern = new vscode.RelativePattern(folderRoot, '.vscode/tasks.json');
 			const tasksJsonWatcher = vscode.workspace.createFileSystemWatcher(tasksJsonPattern);
 
 			tasksJsonWatcher.onDidChange(() => {
@@ -185,23 +347,23 @@ export class apBuildConfigProvider implements vscode.TreeDataProvider<apBuildCon
 		this._onDidChangeTreeData.fire(undefined);
 	}
 
-	// add option
-	add(): void {
+	// add option, to the folder of the item it was invoked on
+	async add(item?: apBuildConfig): Promise<void> {
 		apBuildConfigProvider.log('addOption');
-		apBuildConfigPanel.createOrShow(this.context.extensionUri);
-	}
-
-	async getChildren(): Promise<apBuildConfig[]> {
-		apBuildConfigProvider.log('getChildren');
-		if (!this.workspaceRoot) {
-			return [];
+		const folder = item?.folder ?? await apWorkspace.pickFolder('ArduPilot folder to add the build configuration to');
+		if (!folder && apWorkspace.isMultiRoot) {
+			return;
 		}
+		apBuildConfigPanel.createOrShow(this.context.extensionUri, undefined, folder);
+	}
 
+	// Build configurations in a folder's tasks.json, leaving out the upload tasks
+	getTaskDefinitions(folder: vscode.WorkspaceFolder | undefined = apWorkspace.folder): ArdupilotTaskDefinition[] {
 		// Get all configurations from tasks.json instead of scanning build folders
 		let tasks: Array<ArdupilotTaskDefinition> = [];
 		try {
-			const taskConfiguration = vscode.workspace.workspaceFolders
-				? vscode.workspace.getConfiguration('tasks', vscode.workspace.workspaceFolders[0].uri)
+			const taskConfiguration = folder
+				? vscode.workspace.getConfiguration('tasks', folder.uri)
 				: vscode.workspace.getConfiguration('tasks');
 			tasks = taskConfiguration.get('tasks') as Array<ArdupilotTaskDefinition> || [];
 		} catch {
@@ -209,22 +371,37 @@ export class apBuildConfigProvider implements vscode.TreeDataProvider<apBuildCon
 			tasks = [];
 		}
 
-		const buildConfigList: apBuildConfig[] = [];
-
-		// Filter and process only ardupilot tasks (excluding upload tasks)
-		const ardupilotTasks = tasks.filter(task =>
+		return tasks.filter(task =>
 			task.type === 'ardupilot' && !task.configName.endsWith('-upload')
 		);
+	}
+
+	async getChildren(element?: apBuildConfig): Promise<apBuildConfig[]> {
+		apBuildConfigProvider.log('getChildren');
+		if (!this.workspaceRoot) {
+			return [];
+		}
+
+		// with several ArduPilot folders open, configurations are grouped by folder
+		if (!element && apWorkspace.isMultiRoot) {
+			return apWorkspace.folders.map(folder =>
+				new apBuildConfig(this, folder.name, vscode.TreeItemCollapsibleState.Expanded, undefined, folder)
+			);
+		}
+
+		const folder = element?.folder ?? apWorkspace.folder;
+		const buildConfigList: apBuildConfig[] = [];
+		const ardupilotTasks = this.getTaskDefinitions(folder);
 
 		for (const taskDef of ardupilotTasks) {
 			try {
 				// Create a VS Code task from the task definition and cache it
-				const task = await APTaskProvider.createTask(taskDef);
+				const task = await APTaskProvider.createTask(taskDef, folder);
 
 				if (task) {
 					// Use configName for display
 					const displayName = taskDef.configName;
-					buildConfigList.push(new apBuildConfig(this, displayName, vscode.TreeItemCollapsibleState.None, task));
+					buildConfigList.push(new apBuildConfig(this, displayName, vscode.TreeItemCollapsibleState.None, task, folder));
 					apBuildConfigProvider.log(`Added config: ${displayName}`);
 				}
 			} catch (err) {
@@ -237,96 +414,23 @@ export class apBuildConfigProvider implements vscode.TreeDataProvider<apBuildCon
 	}
 }
 
+function featureSetUri(configName: string, configureOptions: string): vscode.Uri {
+	return vscode.Uri.from({ scheme: FEATURE_SET_SCHEME, path: `/${configName}.features`, query: encodeURIComponent(configureOptions) });
+}
+
 export interface HwdefInfo {
 	mcuTarget?: string;
 	flashSizeKB?: number;
 }
 
-/**
- * Helper function to parse a hwdef file and extract MCU/flash info
- * @param filePath - Absolute path to the hwdef file to parse
- * @param result - HwdefInfo object to populate with found data
- * @param processedFiles - Set of already processed file paths to prevent infinite loops
- * @param workspaceRoot - Root of the workspace
- * @param logger - Logger instance
- * @returns Promise resolving to collected include paths for later processing
- */
-async function parseHwdefFile(filePath: string, result: HwdefInfo, processedFiles: Set<string>, workspaceRoot: string, logger: apLog): Promise<string[]> {
-	// Skip if already processed (circular include protection)
-	if (processedFiles.has(filePath)) {
-		logger.log(`INCLUDE_DEBUG: Skipping already processed file: ${filePath}`);
-		return [];
-	}
-
-	processedFiles.add(filePath);
-	logger.log(`INCLUDE_DEBUG: Processing hwdef file: ${filePath}`);
-
-	if (!fs.existsSync(filePath)) {
-		logger.log(`INCLUDE_DEBUG: File does not exist: ${filePath}`);
-		return [];
-	}
-
-	try {
-		const hwdefContent = fs.readFileSync(filePath, 'utf8');
-		const lines = hwdefContent.split('\n');
-		const includeStatements: string[] = [];
-
-		for (const line of lines) {
-			const trimmedLine = line.trim();
-
-			// Skip empty lines and comments
-			if (!trimmedLine || trimmedLine.startsWith('#')) {
-				continue;
-			}
-
-			// Parse MCU line: "MCU STM32H7xx STM32H743xx" (only if not already found)
-			if (!result.mcuTarget && trimmedLine.startsWith('MCU ')) {
-				const parts = trimmedLine.split(/\s+/);
-				logger.log(`INCLUDE_DEBUG: MCU line found: "${trimmedLine}", parts: [${parts.join(', ')}], length: ${parts.length}`);
-				if (parts.length >= 3) {
-					result.mcuTarget = parts[2]; // Third part is the specific MCU target
-					logger.log(`INCLUDE_DEBUG: Found MCU target: ${result.mcuTarget}`);
-				}
-			}
-
-			// Parse flash size line: "FLASH_SIZE_KB 2048" (only if not already found)
-			if (!result.flashSizeKB && trimmedLine.startsWith('FLASH_SIZE_KB ')) {
-				const parts = trimmedLine.split(/\s+/);
-				if (parts.length >= 2) {
-					const flashSize = parseInt(parts[1], 10);
-					if (!isNaN(flashSize)) {
-						result.flashSizeKB = flashSize;
-						logger.log(`INCLUDE_DEBUG: Found flash size: ${result.flashSizeKB}KB`);
-					}
-				}
-			}
-
-			// Parse include statements: "include ../CubeOrange/hwdef.inc"
-			if (trimmedLine.startsWith('include ')) {
-				const parts = trimmedLine.split(/\s+/);
-				if (parts.length >= 2) {
-					const includePath = parts.slice(1).join(' ').trim(); // Handle paths with spaces
-					logger.log(`INCLUDE_DEBUG: Found include statement: "${includePath}"`);
-					includeStatements.push(includePath);
-				}
-			}
-		}
-
-		return includeStatements;
-
-	} catch (error) {
-		logger.log(`INCLUDE_DEBUG: Error reading file ${filePath}: ${error}`);
-		return [];
-	}
-}
-
 /**
  * Reads hwdef.dat file to extract MCU target and flash size information
  * Follows include statements to find missing information
  * @param boardName - The board name (e.g., "CubeOrange")
+ * @param workspaceRoot - The ArduPilot folder to read it from, the selected one by default
  * @returns Promise resolving to HwdefInfo with mcuTarget and flashSizeKB
  */
-export async function readHwdefFile(boardName: string): Promise<HwdefInfo> {
+export async function readHwdefFile(boardName: string, workspaceRoot: string | undefined = apWorkspace.rootPath): Promise<HwdefInfo> {
 	if (!boardName) {
 		console.error('readHwdefFile: boardName is undefined or empty');
 		return {};
@@ -334,10 +438,8 @@ export async function readHwdefFile(boardName: string): Promise<HwdefInfo> {
 
 	const logger = new apLog('readHwdefFile');
 	const result: HwdefInfo = {};
-	const processedFiles = new Set<string>();
 
 	try {
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
 		if (!workspaceRoot) {
 			logger.log('No workspace root available');
 			return result;
@@ -345,63 +447,21 @@ export async function readHwdefFile(boardName: string): Promise<HwdefInfo> {
 
 		// Construct path to main hwdef.dat file
 		const hwdefPath = path.join(workspaceRoot, 'libraries', 'AP_HAL_ChibiOS', 'hwdef', boardName, 'hwdef.dat');
-		logger.log(`INCLUDE_DEBUG: Starting hwdef parsing for board: ${boardName}`);
-		logger.log(`INCLUDE_DEBUG: Main hwdef path: ${hwdefPath}`);
-
 		if (!fs.existsSync(hwdefPath)) {
 			logger.log(`hwdef.dat not found for board: ${boardName}`);
 			return result;
 		}
 
-		// Parse the main hwdef.dat file
-		const includeStatements = await parseHwdefFile(hwdefPath, result, processedFiles, workspaceRoot, logger);
-
-		logger.log(`INCLUDE_DEBUG: After main file - mcuTarget: ${result.mcuTarget}, flashSizeKB: ${result.flashSizeKB}`);
-		logger.log(`INCLUDE_DEBUG: Found ${includeStatements.length} include statements: [${includeStatements.join(', ')}]`);
-
-		// If we still need information and have include statements, process them
-		if ((!result.mcuTarget || !result.flashSizeKB) && includeStatements.length > 0) {
-			logger.log('INCLUDE_DEBUG: Missing info, processing includes...');
-
-			for (const includePath of includeStatements) {
-				// If we have all the info we need, stop processing
-				if (result.mcuTarget && result.flashSizeKB) {
-					break;
-				}
-
-				// Resolve relative path to absolute path
-				const hwdefDir = path.dirname(hwdefPath);
-				const absoluteIncludePath = path.resolve(hwdefDir, includePath);
-				logger.log(`INCLUDE_DEBUG: Resolving include "${includePath}" to: ${absoluteIncludePath}`);
-
-				// Recursively parse the included file
-				const nestedIncludes = await parseHwdefFile(absoluteIncludePath, result, processedFiles, workspaceRoot, logger);
-				logger.log(`INCLUDE_DEBUG: After processing include ${includePath} - mcuTarget: ${result.mcuTarget}, flashSizeKB: ${result.flashSizeKB}`);
-
-				// Recursively process nested includes if we still need information
-				if ((!result.mcuTarget || !result.flashSizeKB) && nestedIncludes.length > 0) {
-					logger.log(`INCLUDE_DEBUG: Processing ${nestedIncludes.length} nested includes: [${nestedIncludes.join(', ')}]`);
-
-					for (const nestedIncludePath of nestedIncludes) {
-						// If we have all the info we need, stop processing
-						if (result.mcuTarget && result.flashSizeKB) {
-							break;
-						}
-
-						// Resolve nested include path relative to the current include file
-						const includeFileDir = path.dirname(absoluteIncludePath);
-						const absoluteNestedIncludePath = path.resolve(includeFileDir, nestedIncludePath);
-						logger.log(`INCLUDE_DEBUG: Resolving nested include "${nestedIncludePath}" to: ${absoluteNestedIncludePath}`);
-
-						// Recursively parse the nested included file
-						await parseHwdefFile(absoluteNestedIncludePath, result, processedFiles, workspaceRoot, logger);
-						logger.log(`INCLUDE_DEBUG: After processing nested include ${nestedIncludePath} - mcuTarget: ${result.mcuTarget}, flashSizeKB: ${result.flashSizeKB}`);
-					}
-				}
-			}
+		// the alternate function tables are only needed for diagnostics
+		const hwdef = parseHwdef(hwdefPath, { altFunctions: () => undefined });
+		// MCU line: "MCU STM32H7xx STM32H743xx", the second argument is the specific MCU target
+		result.mcuTarget = hwdef.config.get('MCU')?.args[1];
+		const flashSize = parseInt(hwdef.config.get('FLASH_SIZE_KB')?.args[0] ?? '', 10);
+		if (!isNaN(flashSize)) {
+			result.flashSizeKB = flashSize;
 		}
 
-		logger.log(`INCLUDE_DEBUG: Final result for ${boardName}: mcuTarget=${result.mcuTarget}, flashSizeKB=${result.flashSizeKB}`);
+		logger.log(`Read ${hwdef.files.length} hwdef files for ${boardName}: mcuTarget=${result.mcuTarget}, flashSizeKB=${result.flashSizeKB}`);
 		return result;
 
 	} catch (error) {
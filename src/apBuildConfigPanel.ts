@@ -16,10 +16,13 @@
 
 import * as vscode from 'vscode';
 import { apLog } from './apLog';
-import { APTaskProvider, ArdupilotTaskDefinition } from './taskProvider';
+import { APTaskProvider, ArdupilotTaskDefinition, getFeaturesList } from './taskProvider';
 import { Uri, Webview } from 'vscode';
 import { UIHooks } from './apUIHooks';
 import { setActiveConfiguration } from './apActions';
+import { FeatureOption } from './apFeaturePresets';
+import { FeatureConflict, describeFeatureConflict, findFeatureConflicts } from './apFeatureDependencies';
+import { apWorkspace } from './apWorkspace';
 
 /**
  * Manages Build Configuration webview panels
@@ -37,14 +40,19 @@ export class apBuildConfigPanel {
 	private readonly _extensionUri: vscode.Uri;
 	private _disposables: vscode.Disposable[] = [];
 	private _currentTask: vscode.Task | undefined;
+	// the ArduPilot folder whose tasks.json holds the configuration
+	private readonly _folder: vscode.WorkspaceFolder;
 	private _uiHooks: UIHooks;
+	// build option to switch once the Feature Viewer has loaded, asked for from a guard in the editor
+	private _featureToggle: { feature: string, action: 'enable' | 'disable' } | undefined;
 
-	public static createOrShow(extensionUri: vscode.Uri, currentTask?: vscode.Task): void {
+	public static createOrShow(extensionUri: vscode.Uri, currentTask?: vscode.Task, folder?: vscode.WorkspaceFolder): void {
+		folder = folder ?? apWorkspace.folderOf(currentTask);
 		const column = vscode.window.activeTextEditor
 			? vscode.window.activeTextEditor.viewColumn
 			: undefined;
 
-		if (currentTask !== undefined && apBuildConfigPanel.currentPanel) {
+		if ((currentTask !== undefined || !apWorkspace.isSameFolder(folder, apBuildConfigPanel.currentPanel?._folder)) && apBuildConfigPanel.currentPanel) {
 			apBuildConfigPanel.currentPanel.dispose();
 			apBuildConfigPanel.currentPanel = undefined;
 		}
@@ -80,30 +88,43 @@ export class apBuildConfigPanel {
 		);
 
 		this.log('Creating new panel');
-		apBuildConfigPanel.currentPanel = new apBuildConfigPanel(panel, extensionUri, currentTask);
+		apBuildConfigPanel.currentPanel = new apBuildConfigPanel(panel, extensionUri, currentTask, folder);
+	}
+
+	/**
+	 * Opens a configuration with one of its build options switched in the
+	 * Feature Viewer, saving it is left to the user
+	 * @param feature the option as named in the flags, e.g. Camera
+	 */
+	public static toggleFeature(extensionUri: vscode.Uri, task: vscode.Task, feature: string, action: 'enable' | 'disable'): void {
+		apBuildConfigPanel.createOrShow(extensionUri, task);
+		if (apBuildConfigPanel.currentPanel) {
+			apBuildConfigPanel.currentPanel._featureToggle = { feature, action };
+		}
 	}
 
 	public static revive(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, currentTask?: vscode.Task): void {
 		apBuildConfigPanel.currentPanel = new apBuildConfigPanel(panel, extensionUri, currentTask);
 	}
 
-	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, currentTask?: vscode.Task) {
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, currentTask?: vscode.Task, folder?: vscode.WorkspaceFolder) {
 		this._panel = panel;
 		this._extensionUri = extensionUri;
 		this._currentTask = currentTask;
 
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
-		if (!workspaceRoot) {
+		const workspaceFolder = folder ?? apWorkspace.folderOf(currentTask);
+		if (!workspaceFolder) {
 			throw new Error('No workspace folder is open.');
 		}
+		this._folder = workspaceFolder;
 
-		this._uiHooks = new UIHooks(panel, extensionUri);
+		this._uiHooks = new UIHooks(panel, extensionUri, this._folder);
 		panel.onDidDispose(() => {
 			this.dispose();
 			this._uiHooks.dispose();
 		}, null, this._disposables);
 
-		this._panel.title = currentTask ? 'Edit Build Configuration' : 'New Build Configuration';
+		this._panel.title = this.title(currentTask ? 'Edit Build Configuration' : 'New Build Configuration');
 		this._panel.webview.html = this._getWebviewContent(this._panel.webview);
 
 		// Handle messages from the webview
@@ -112,6 +133,10 @@ export class apBuildConfigPanel {
 			apBuildConfigPanel.log('Received message from webview: build');
 			console.log(message);
 
+			if (!message.overrideEnabled && !await this.confirmFeatureConflicts(message.extraConfig as string || '')) {
+				return;
+			}
+
 			// Step 1: Create and save configuration first
 			try {
 				// Create a TaskDefinition with all required properties
@@ -131,7 +156,9 @@ export class apBuildConfigPanel {
 					message?.simVehicleCommand as string || '',
 					message?.overrideEnabled as boolean || false,
 					message?.customConfigureCommand as string || '',
-					message?.customBuildCommand as string || ''
+					message?.customBuildCommand as string || '',
+					message?.paramFiles as string[] | undefined,
+					this._folder
 				);
 
 				if (currentTaskDef?.definition.simVehicleCommand) {
@@ -198,6 +225,11 @@ export class apBuildConfigPanel {
 			return;
 		});
 
+		this._uiHooks.on('getFeatureToggle', () => {
+			this._panel.webview.postMessage({ command: 'getFeatureToggle', toggle: this._featureToggle });
+			this._featureToggle = undefined;
+		});
+
 		// Handle request for existing config names
 		this._uiHooks.on('getExistingConfigNames', () => {
 			const configNames = this.getExistingConfigNames();
@@ -207,20 +239,45 @@ export class apBuildConfigPanel {
 	}
 
 	/**
-	 * Get all existing configuration names from tasks.json
+	 * Warns about enabled features whose dependencies are off before building,
+	 * as custom.ardupilot.org does
+	 * @returns whether to go ahead with the build
 	 */
-	private getExistingConfigNames(): string[] {
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
-		if (!workspaceRoot) {
-			return [];
+	private async confirmFeatureConflicts(configureOptions: string): Promise<boolean> {
+		let conflicts: FeatureConflict[];
+		try {
+			const options = await getFeaturesList(this._extensionUri, this._folder.uri.fsPath) as unknown as FeatureOption[];
+			conflicts = findFeatureConflicts(configureOptions, Array.isArray(options) ? options : []);
+		} catch (error) {
+			apBuildConfigPanel.log(`Skipping feature dependency check: ${error}`);
+			return true;
+		}
+		if (conflicts.length === 0) {
+			return true;
 		}
+		const shown = conflicts.slice(0, 10).map(describeFeatureConflict);
+		if (conflicts.length > shown.length) {
+			shown.push(`and ${conflicts.length - shown.length} more`);
+		}
+		const choice = await vscode.window.showWarningMessage(
+			'Some enabled features need features that are off, the build is likely to fail',
+			{ modal: true, detail: shown.join('\n') },
+			'Build Anyway'
+		);
+		return choice === 'Build Anyway';
+	}
 
+	// Name the folder in the title when several ArduPilot folders are open
+	private title(title: string): string {
+		return apWorkspace.isMultiRoot ? `${title} (${this._folder.name})` : title;
+	}
+
+	/**
+	 * Get all existing configuration names from the folder's tasks.json
+	 */
+	private getExistingConfigNames(): string[] {
 		try {
-			const workspaceFolders = vscode.workspace.workspaceFolders;
-			if (!workspaceFolders || workspaceFolders.length === 0) {
-				return [];
-			}
-			const tasksConfig = vscode.workspace.getConfiguration('tasks', workspaceFolders[0].uri);
+			const tasksConfig = vscode.workspace.getConfiguration('tasks', this._folder.uri);
 			const tasks = tasksConfig.get('tasks') as Array<ArdupilotTaskDefinition> || [];
 
 			// Extract all configName values from tasks
@@ -244,7 +301,7 @@ export class apBuildConfigPanel {
 		this._currentTask = task;
 
 		// Update the panel title to reflect we're in edit mode
-		this._panel.title = 'Edit Build Configuration';
+		this._panel.title = this.title('Edit Build Configuration');
 
 		// Notify the webview about the updated task
 		this._panel.webview.postMessage({
@@ -260,7 +317,7 @@ export class apBuildConfigPanel {
 	 */
 	public switchToAddMode(): void {
 		this._currentTask = undefined;
-		this._panel.title = 'New Build Configuration';
+		this._panel.title = this.title('New Build Configuration');
 
 		// Notify the webview that we're now in add mode
 		this._panel.webview.postMessage({ command: 'getCurrentTask', task: null });
@@ -0,0 +1,322 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { apLog } from './apLog';
+import { ProgramUtils } from './apProgramUtils';
+import { readHwdefFile, targetToBin } from './apBuildConfig';
+import { apWorkspace } from './apWorkspace';
+import type { ArdupilotTaskDefinition } from './taskProvider';
+
+// builds kept per configuration, oldest dropped first
+const MAX_RECORDS_PER_CONFIG = 50;
+
+export interface SizeTotals {
+	text: number;
+	data: number;
+	bss: number;
+}
+
+/**
+ * Size of one successful build, read from its ELF
+ */
+export interface BuildRecord {
+	configName: string;
+	// the ArduPilot folder built in, a worktree may have configurations of the same name
+	folder?: string;
+	board: string;
+	target: string;
+	timestamp: number;
+	durationMs: number;
+	commit?: string;
+	branch?: string;
+	// text + data, what ends up in flash
+	flash: number;
+	// data + bss, statically allocated RAM
+	ram: number;
+	sections: Record<string, number>;
+	features: string[];
+	flashSizeKB?: number;
+}
+
+export interface BuildComparison {
+	latest: BuildRecord;
+	previous?: BuildRecord;
+	baseline?: BuildRecord;
+}
+
+/**
+ * Parses `size -A` output into bytes per allocated section
+ */
+export function parseSizeSections(output: string): Record<string, number> {
+	const sections: Record<string, number> = {};
+	for (const line of output.split('\n')) {
+		const match = line.trim().match(/^(\.\S+)\s+(\d+)\s+(\d+)$/);
+		// sections at address 0 are not loaded, debug info, comments and attributes take no flash or RAM
+		if (match && parseInt(match[3], 10) !== 0) {
+			sections[match[1]] = parseInt(match[2], 10);
+		}
+	}
+	return sections;
+}
+
+/**
+ * Parses Berkeley format `size` output, the text/data/bss line after the header
+ */
+export function parseSizeTotals(output: string): SizeTotals {
+	const line = output.split('\n').map(l => l.trim()).find(l => /^\d+\s+\d+\s+\d+/.test(l));
+	if (!line) {
+		throw new Error(`Unexpected size output: ${output.trim()}`);
+	}
+	const [text, data, bss] = line.split(/\s+/).map(value => parseInt(value, 10));
+	return { text, data, bss };
+}
+
+/**
+ * Signed byte count for display, e.g. "+1.2 KB" or "-300 B"
+ */
+export function formatSizeDelta(delta: number): string {
+	const sign = delta > 0 ? '+' : delta < 0 ? '-' : '±';
+	return `${sign}${formatSize(Math.abs(delta))}`;
+}
+
+export function formatSize(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+/**
+ * Percentage of the board's flash the build uses, undefined when the size is unknown
+ */
+export function flashUsagePercent(record: BuildRecord): number | undefined {
+	return record.flashSizeKB ? record.flash / (record.flashSizeKB * 1024) * 100 : undefined;
+}
+
+/**
+ * Whether a record is a build of the configuration in the folder, records
+ * written before the folder was stored match any folder
+ */
+export function isBuildOf(record: BuildRecord, configName: string, folder?: string): boolean {
+	return record.configName === configName &&
+		(folder === undefined || record.folder === undefined || path.resolve(record.folder) === path.resolve(folder));
+}
+
+/**
+ * Latest build of a configuration against the build before it and the most
+ * recent build on the baseline branch
+ */
+export function compareBuilds(records: BuildRecord[], configName: string, baselineBranch: string, folder?: string): BuildComparison | undefined {
+	const builds = records.filter(record => isBuildOf(record, configName, folder))
+		.sort((a, b) => b.timestamp - a.timestamp);
+	if (builds.length === 0) {
+		return undefined;
+	}
+	const [latest, ...older] = builds;
+	return {
+		latest,
+		previous: older[0],
+		// on the baseline branch itself the previous build is the baseline
+		baseline: latest.branch === baselineBranch ? undefined : older.find(record => record.branch === baselineBranch)
+	};
+}
+
+/**
+ * Short flash delta for the Build Configurations view, e.g. "+1.2 KB, +3.4 KB vs master"
+ */
+export function describeDelta(comparison: BuildComparison, baselineBranch: string): string | undefined {
+	const parts: string[] = [];
+	if (comparison.previous) {
+		parts.push(formatSizeDelta(comparison.latest.flash - comparison.previous.flash));
+	}
+	if (comparison.baseline) {
+		parts.push(`${formatSizeDelta(comparison.latest.flash - comparison.baseline.flash)} vs ${baselineBranch}`);
+	}
+	return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+/**
+ * Multi-line summary of the latest build for the tree item tooltip
+ */
+export function describeBuild(comparison: BuildComparison, baselineBranch: string): string {
+	const { latest, previous, baseline } = comparison;
+	const usage = flashUsagePercent(latest);
+	const lines = [
+		`Last build: ${new Date(latest.timestamp).toLocaleString()} in ${(latest.durationMs / 1000).toFixed(0)}s`,
+		`Commit: ${latest.commit ?? 'unknown'}${latest.branch ? ` (${latest.branch})` : ''}`,
+		`Flash: ${formatSize(latest.flash)}${usage !== undefined ? ` (${usage.toFixed(1)}% of ${latest.flashSizeKB} KB)` : ''}`,
+		`RAM: ${formatSize(latest.ram)}`
+	];
+	if (previous) {
+		lines.push(`Since previous build (${previous.commit ?? 'unknown'}): flash ${formatSizeDelta(latest.flash - previous.flash)}, RAM ${formatSizeDelta(latest.ram - previous.ram)}`);
+	}
+	if (baseline) {
+		lines.push(`Since ${baselineBranch} (${baseline.commit ?? 'unknown'}): flash ${formatSizeDelta(latest.flash - baseline.flash)}, RAM ${formatSizeDelta(latest.ram - baseline.ram)}`);
+	}
+	lines.push(`Features: ${latest.features.length}`);
+	const sections = Object.entries(latest.sections).sort((a, b) => b[1] - a[1]).slice(0, 8);
+	if (sections.length > 0) {
+		lines.push('Sections:');
+		for (const [name, size] of sections) {
+			lines.push(`  ${name}: ${formatSize(size)}`);
+		}
+	}
+	return lines.join('\n');
+}
+
+/**
+ * Records flash/RAM usage after each successful build in a history file kept
+ * in the workspace storage, so it never ends up in the repository
+ */
+export class apBuildHistory {
+	private static log = new apLog('apBuildHistory').log;
+	private static storageDir: string | undefined;
+
+	public static initialize(context: vscode.ExtensionContext): void {
+		const storage = context.storageUri ?? context.globalStorageUri;
+		apBuildHistory.storageDir = storage.fsPath;
+	}
+
+	/**
+	 * Overrides the storage location, for tests
+	 */
+	public static setStorageDir(dir: string | undefined): void {
+		apBuildHistory.storageDir = dir;
+	}
+
+	public static get historyPath(): string | undefined {
+		return apBuildHistory.storageDir ? path.join(apBuildHistory.storageDir, 'build-history.json') : undefined;
+	}
+
+	public static load(): BuildRecord[] {
+		const historyPath = apBuildHistory.historyPath;
+		if (!historyPath || !fs.existsSync(historyPath)) {
+			return [];
+		}
+		try {
+			return JSON.parse(fs.readFileSync(historyPath, 'utf8')) as BuildRecord[];
+		} catch (error) {
+			apBuildHistory.log(`Ignoring unreadable build history ${historyPath}: ${error}`);
+			return [];
+		}
+	}
+
+	public static add(record: BuildRecord): void {
+		const historyPath = apBuildHistory.historyPath;
+		if (!historyPath) {
+			return;
+		}
+		const records = apBuildHistory.load();
+		records.push(record);
+		const sameConfig = records.filter(r => isBuildOf(r, record.configName, record.folder));
+		const dropped = new Set(sameConfig.sort((a, b) => a.timestamp - b.timestamp)
+			.slice(0, Math.max(0, sameConfig.length - MAX_RECORDS_PER_CONFIG)));
+		fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+		fs.writeFileSync(historyPath, JSON.stringify(records.filter(r => !dropped.has(r)), null, 2));
+	}
+
+	public static compare(configName: string, folder?: string): BuildComparison | undefined {
+		return compareBuilds(apBuildHistory.load(), configName, apBuildHistory.baselineBranch, folder);
+	}
+
+	public static get baselineBranch(): string {
+		return vscode.workspace.getConfiguration('ardupilot').get<string>('buildHistory.baselineBranch', 'master');
+	}
+
+	public static get flashWarningPercent(): number {
+		return vscode.workspace.getConfiguration('ardupilot').get<number>('buildHistory.flashWarningPercent', 95);
+	}
+
+	/**
+	 * Reads the ELF of a finished build and appends it to the history, warning
+	 * when the firmware has grown past the configured share of the board's flash
+	 * @param startTime when the build started, in ms since the epoch
+	 * @param workspaceRoot the ArduPilot folder the build ran in
+	 */
+	public static async recordBuild(definition: ArdupilotTaskDefinition, startTime: number, workspaceRoot: string | undefined = apWorkspace.rootPath): Promise<BuildRecord | undefined> {
+		if (!workspaceRoot || !definition.configure || !definition.target || !targetToBin[definition.target]) {
+			return undefined;
+		}
+		const elf = path.join(workspaceRoot, 'build', definition.configure, targetToBin[definition.target]);
+		if (!fs.existsSync(elf)) {
+			apBuildHistory.log(`No ELF at ${elf}, build size not recorded`);
+			return undefined;
+		}
+
+		const isSITL = definition.configure.toLowerCase().startsWith('sitl');
+		const size = await ProgramUtils.binutil(definition.configure, 'size') ?? 'arm-none-eabi-size';
+		const nm = await ProgramUtils.binutil(definition.configure, 'nm') ?? definition.nm ?? 'arm-none-eabi-nm';
+		const totals = parseSizeTotals(await apBuildHistory.run(size, [elf], workspaceRoot));
+		const sections = parseSizeSections(await apBuildHistory.run(size, ['-A', elf], workspaceRoot));
+
+		const record: BuildRecord = {
+			configName: definition.configName,
+			folder: workspaceRoot,
+			board: definition.configure,
+			target: definition.target,
+			timestamp: Date.now(),
+			durationMs: Date.now() - startTime,
+			commit: await apBuildHistory.run('git', ['rev-parse', '--short', 'HEAD'], workspaceRoot).then(s => s.trim(), () => undefined),
+			branch: await apBuildHistory.run('git', ['rev-parse', '--abbrev-ref', 'HEAD'], workspaceRoot).then(s => s.trim(), () => undefined),
+			flash: totals.text + totals.data,
+			ram: totals.data + totals.bss,
+			sections,
+			features: await apBuildHistory.extractFeatures(elf, nm, workspaceRoot),
+			flashSizeKB: isSITL ? undefined : (await readHwdefFile(definition.configure, workspaceRoot)).flashSizeKB
+		};
+		apBuildHistory.add(record);
+		apBuildHistory.log(`Recorded ${record.configName}: flash ${record.flash} B, ram ${record.ram} B at ${record.commit}`);
+
+		const usage = flashUsagePercent(record);
+		if (usage !== undefined && usage >= apBuildHistory.flashWarningPercent) {
+			vscode.window.showWarningMessage(`${record.configName} uses ${usage.toFixed(1)}% of the ${record.flashSizeKB} KB flash on ${record.board}`);
+		}
+		return record;
+	}
+
+	private static async extractFeatures(elf: string, nm: string, workspaceRoot: string): Promise<string[]> {
+		const script = path.join(workspaceRoot, 'Tools', 'scripts', 'extract_features.py');
+		if (!fs.existsSync(script)) {
+			return [];
+		}
+		try {
+			const output = await apBuildHistory.run(await ProgramUtils.PYTHON(), [script, '--nm', nm, elf], workspaceRoot);
+			return output.split('\n').map(line => line.trim()).filter(Boolean);
+		} catch (error) {
+			apBuildHistory.log(`extract_features.py failed: ${error}`);
+			return [];
+		}
+	}
+
+	private static run(command: string, args: string[], cwd: string): Promise<string> {
+		return new Promise((resolve, reject) => {
+			cp.execFile(command, args, { cwd, timeout: 60000, maxBuffer: 16 * 1024 * 1024 }, (error, stdout) => {
+				if (error) {
+					reject(error);
+				} else {
+					resolve(stdout);
+				}
+			});
+		});
+	}
+}
@@ -0,0 +1,208 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+/*
+	Build matrices: several build configurations, or every target of a list
+	of boards, built one after the other or a few at a time, e.g. to check a
+	change builds for SITL and a handful of flight controllers before a PR.
+*/
+
+import * as path from 'path';
+import type { ArdupilotTaskDefinition } from './taskProvider';
+
+// relative to the workspace root, meant to be checked in alongside tasks.json
+export const BUILD_MATRIX_FILE = path.join('.vscode', 'build-matrix.json');
+
+export interface BuildMatrix {
+	name: string;
+	// build configurations from tasks.json, by configName
+	configurations?: string[];
+	// boards built for each of the targets
+	boards?: string[];
+	targets?: string[];
+	// waf configure options of the board builds
+	configureOptions?: string;
+}
+
+/**
+ * Layout of .vscode/build-matrix.json
+ */
+export interface BuildMatrixFile {
+	matrices: BuildMatrix[];
+}
+
+export type BuildCellStatus = 'queued' | 'running' | 'passed' | 'failed' | 'cancelled';
+
+export interface BuildMatrixCell {
+	id: string;
+	// row and column of the results table
+	board: string;
+	target: string;
+	definition: ArdupilotTaskDefinition;
+	status: BuildCellStatus;
+	durationMs?: number;
+	flash?: number;
+	flashSizeKB?: number;
+	// first error of a failed build and the log it is in
+	error?: string;
+	logFile?: string;
+}
+
+export function parseBuildMatrixFile(content: string): BuildMatrixFile {
+	let file: BuildMatrixFile;
+	try {
+		file = JSON.parse(content) as BuildMatrixFile;
+	} catch (error) {
+		throw new Error(`Build matrix file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+	}
+	if (typeof file !== 'object' || file === null || !Array.isArray(file.matrices)) {
+		throw new Error('Build matrix file must contain a "matrices" array');
+	}
+	for (const matrix of file.matrices) {
+		if (typeof matrix?.name !== 'string' || !matrix.name) {
+			throw new Error('Every build matrix needs a "name"');
+		}
+		for (const key of ['configurations', 'boards', 'targets'] as const) {
+			const names: unknown = matrix[key];
+			if (names !== undefined && !(Array.isArray(names) && names.every(value => typeof value === 'string'))) {
+				throw new Error(`Build matrix ${matrix.name} "${key}" must be a list of names`);
+			}
+		}
+	}
+	return file;
+}
+
+/**
+ * Adds a matrix to the file, replacing one with the same name
+ */
+export function saveBuildMatrix(file: BuildMatrixFile | undefined, matrix: BuildMatrix): BuildMatrixFile {
+	const matrices = [...file?.matrices ?? []];
+	const index = matrices.findIndex(existing => existing.name === matrix.name);
+	if (index >= 0) {
+		matrices[index] = matrix;
+	} else {
+		matrices.push(matrix);
+	}
+	return { ...file, matrices };
+}
+
+/**
+ * The builds of a matrix: its configurations, as found among the folder's
+ * build configurations, then each board with each target
+ * @returns the cells and the configurations that no longer exist
+ */
+export function expandBuildMatrix(matrix: BuildMatrix, configurations: ArdupilotTaskDefinition[]): { cells: BuildMatrixCell[], missing: string[] } {
+	const cells: BuildMatrixCell[] = [];
+	const missing: string[] = [];
+	const ids = new Set<string>();
+	const add = (board: string, target: string, definition: ArdupilotTaskDefinition) => {
+		const id = `${board}/${target}`;
+		if (!ids.has(id)) {
+			ids.add(id);
+			cells.push({ id, board, target, definition, status: 'queued' });
+		}
+	};
+
+	for (const name of matrix.configurations ?? []) {
+		const configuration = configurations.find(candidate => candidate.configName === name);
+		if (!configuration) {
+			missing.push(name);
+		} else if (configuration.overrideEnabled || !configuration.configure || !configuration.target) {
+			// custom commands build whatever they build, give them a row of their own
+			add(name, '-', { ...configuration });
+		} else {
+			add(configuration.configure, configuration.target, { ...configuration });
+		}
+	}
+	for (const board of matrix.boards ?? []) {
+		for (const target of matrix.targets ?? []) {
+			add(board, target, {
+				type: 'ardupilot',
+				configName: `${board}-${target}`,
+				configure: board,
+				target,
+				configureOptions: matrix.configureOptions ?? '',
+				buildOptions: ''
+			});
+		}
+	}
+	return { cells, missing };
+}
+
+/**
+ * waf lock file for builds of a board, so that builds of different boards
+ * running side by side don't switch each other's build directory
+ */
+export function matrixLockFile(board: string): string {
+	return `.lock-waf_matrix_${board.replace(/[^\w.-]/g, '_')}`;
+}
+
+/**
+ * Runs work on up to `limit` items at once, never two with the same key
+ * together, e.g. two targets of one board sharing its build directory.
+ * Resolves once every item has run.
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, key: (item: T) => string, run: (item: T) => Promise<void>): Promise<void> {
+	const queue = [...items];
+	const busy = new Set<string>();
+	let running = 0;
+	await new Promise<void>(resolve => {
+		const next = () => {
+			if (queue.length === 0 && running === 0) {
+				resolve();
+				return;
+			}
+			while (running < Math.max(1, limit)) {
+				const index = queue.findIndex(item => !busy.has(key(item)));
+				if (index < 0) {
+					break;
+				}
+				const [item] = queue.splice(index, 1);
+				const itemKey = key(item);
+				busy.add(itemKey);
+				running++;
+				run(item).catch(() => undefined).finally(() => {
+					busy.delete(itemKey);
+					running--;
+					next();
+				});
+			}
+		};
+		next();
+	});
+}
+
+/**
+ * Rows and columns of the results table, in the order they first appear
+ */
+export function matrixLayout(cells: BuildMatrixCell[]): { boards: string[], targets: string[] } {
+	return {
+		boards: [...new Set(cells.map(cell => cell.board))],
+		targets: [...new Set(cells.map(cell => cell.target))]
+	};
+}
+
+/**
+ * 0-based line of a build log to open a failure at: where its first error
+ * is, as given in the build summary, else the end of the log
+ */
+export function errorLine(log: string, error: string | undefined): number {
+	const lines = log.split(/\r?\n/);
+	// the summary gives compiler errors as "file:line:column: message"
+	const message = error?.replace(/^\S+?:\d+(?::\d+)?: /, '');
+	const index = message ? lines.findIndex(line => line.includes(message)) : -1;
+	return index >= 0 ? index : Math.max(lines.length - 1, 0);
+}
@@ -0,0 +1,505 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { apLog } from './apLog';
+import { APTaskProvider, ArdupilotTaskDefinition, BuildCompletion } from './taskProvider';
+import { binToTarget } from './apBuildConfig';
+import { apWorkspace } from './apWorkspace';
+import {
+	BUILD_MATRIX_FILE,
+	BuildMatrix,
+	BuildMatrixCell,
+	BuildMatrixFile,
+	errorLine,
+	expandBuildMatrix,
+	matrixLayout,
+	matrixLockFile,
+	parseBuildMatrixFile,
+	runWithConcurrency,
+	saveBuildMatrix
+} from './apBuildMatrix';
+
+export interface BuildMatrixState {
+	name: string;
+	folder: string;
+	running: boolean;
+	concurrency: number;
+	boards: string[];
+	targets: string[];
+	cells: Omit<BuildMatrixCell, 'definition'>[];
+	// configurations of a saved matrix that are no longer in tasks.json
+	missing: string[];
+}
+
+/**
+ * Builds a matrix of configurations or boards and targets through the
+ * ArduPilot build tasks and shows how each went
+ */
+export class apBuildMatrixPanel {
+	public static currentPanel: apBuildMatrixPanel | undefined;
+
+	public static readonly viewType = 'apBuildMatrixPanel';
+	private static log = new apLog('apBuildMatrixPanel').log;
+	// build logs are kept in the workspace storage, next to the build history
+	private static logDir: string | undefined;
+
+	private readonly _panel: vscode.WebviewPanel;
+	private readonly _extensionUri: vscode.Uri;
+	private _disposables: vscode.Disposable[] = [];
+	private _matrix: BuildMatrix;
+	private _folder: vscode.WorkspaceFolder;
+	private _cells: BuildMatrixCell[] = [];
+	private _missing: string[] = [];
+	private _running = false;
+	private _cancelled = false;
+	// closed while building, the builds still finish without a webview to post to
+	private _disposed = false;
+	private _executions = new Map<string, vscode.TaskExecution>();
+
+	public static initialize(context: vscode.ExtensionContext): void {
+		const storage = context.storageUri ?? context.globalStorageUri;
+		apBuildMatrixPanel.logDir = path.join(storage.fsPath, 'build-matrix');
+	}
+
+	public static get concurrency(): number {
+		return Math.max(1, vscode.workspace.getConfiguration('ardupilot').get<number>('buildMatrix.concurrency', 2));
+	}
+
+	/**
+	 * Matrices saved in the folder's .vscode/build-matrix.json
+	 */
+	public static readMatrixFile(folder: vscode.WorkspaceFolder): BuildMatrixFile | undefined {
+		const file = path.join(folder.uri.fsPath, BUILD_MATRIX_FILE);
+		if (!fs.existsSync(file)) {
+			return undefined;
+		}
+		return parseBuildMatrixFile(fs.readFileSync(file, 'utf8'));
+	}
+
+	/**
+	 * Asks what to build: configurations selected in the Build Configurations
+	 * view, a saved matrix, configurations from tasks.json or boards × targets
+	 */
+	public static async pick(extensionUri: vscode.Uri, selected: ArdupilotTaskDefinition[] = []): Promise<void> {
+		const folder = apWorkspace.folder;
+		if (!folder) {
+			vscode.window.showErrorMessage('Open an ArduPilot folder to build a matrix.');
+			return;
+		}
+		if (selected.length > 1) {
+			apBuildMatrixPanel.createOrShow(extensionUri, { name: 'Selected configurations', configurations: selected.map(definition => definition.configName) }, folder);
+			return;
+		}
+
+		let saved: BuildMatrixFile | undefined;
+		try {
+			saved = apBuildMatrixPanel.readMatrixFile(folder);
+		} catch (error) {
+			vscode.window.showWarningMessage(`Ignoring ${BUILD_MATRIX_FILE}: ${error instanceof Error ? error.message : error}`);
+		}
+		type MatrixPick = vscode.QuickPickItem & { matrix?: BuildMatrix, choose?: 'configurations' | 'boards' };
+		const items: MatrixPick[] = (saved?.matrices ?? []).map(matrix => ({ label: `$(layers) ${matrix.name}`, description: describeMatrix(matrix), matrix }));
+		items.push(
+			{ label: '$(checklist) Build Configurations...', description: 'from tasks.json', choose: 'configurations' },
+			{ label: '$(circuit-board) Boards × Targets...', description: 'every target for each board', choose: 'boards' }
+		);
+		const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Build matrix to run' });
+		let matrix = picked?.matrix;
+		if (picked?.choose === 'configurations') {
+			matrix = await apBuildMatrixPanel._pickConfigurations(folder, selected);
+		} else if (picked?.choose === 'boards') {
+			matrix = await apBuildMatrixPanel._pickBoards(folder);
+		}
+		if (matrix) {
+			apBuildMatrixPanel.createOrShow(extensionUri, matrix, folder);
+		}
+	}
+
+	private static async _pickConfigurations(folder: vscode.WorkspaceFolder, selected: ArdupilotTaskDefinition[]): Promise<BuildMatrix | undefined> {
+		const configurations = apBuildMatrixPanel._configurations(folder);
+		if (configurations.length === 0) {
+			vscode.window.showErrorMessage('There are no build configurations in this folder yet.');
+			return undefined;
+		}
+		const picked = await vscode.window.showQuickPick(configurations.map(definition => ({
+			label: definition.configName,
+			description: definition.overrideEnabled ? 'overridden' : `${definition.configure} ${definition.target}`,
+			picked: selected.some(item => item.configName === definition.configName)
+		})), { canPickMany: true, placeHolder: 'Build configurations to build' });
+		if (!picked || picked.length === 0) {
+			return undefined;
+		}
+		return { name: 'Build configurations', configurations: picked.map(item => item.label) };
+	}
+
+	private static async _pickBoards(folder: vscode.WorkspaceFolder): Promise<BuildMatrix | undefined> {
+		const hwdefDir = path.join(folder.uri.fsPath, 'libraries', 'AP_HAL_ChibiOS', 'hwdef');
+		const boards = fs.existsSync(hwdefDir)
+			? fs.readdirSync(hwdefDir).filter(board => fs.existsSync(path.join(hwdefDir, board, 'hwdef.dat'))).sort()
+			: [];
+		const pickedBoards = await vscode.window.showQuickPick(['sitl', ...boards].map(label => ({ label })), {
+			canPickMany: true,
+			placeHolder: 'Boards to build'
+		});
+		if (!pickedBoards || pickedBoards.length === 0) {
+			return undefined;
+		}
+		const pickedTargets = await vscode.window.showQuickPick([...new Set(Object.values(binToTarget))].map(label => ({ label, picked: label === 'copter' })), {
+			canPickMany: true,
+			placeHolder: 'Targets to build for each board'
+		});
+		if (!pickedTargets || pickedTargets.length === 0) {
+			return undefined;
+		}
+		return { name: 'Boards × targets', boards: pickedBoards.map(item => item.label), targets: pickedTargets.map(item => item.label) };
+	}
+
+	private static _configurations(folder: vscode.WorkspaceFolder): ArdupilotTaskDefinition[] {
+		const tasks = vscode.workspace.getConfiguration('tasks', folder.uri).get<ArdupilotTaskDefinition[]>('tasks') ?? [];
+		return tasks.filter(task => task.type === 'ardupilot' && !task.configName.endsWith('-upload'));
+	}
+
+	public static createOrShow(extensionUri: vscode.Uri, matrix: BuildMatrix, folder: vscode.WorkspaceFolder): apBuildMatrixPanel | undefined {
+		const existing = apBuildMatrixPanel.currentPanel;
+		if (existing?._running) {
+			existing._panel.reveal();
+			vscode.window.showWarningMessage(`Build matrix ${existing._matrix.name} is still running.`);
+			return undefined;
+		}
+		if (existing) {
+			existing._panel.reveal();
+			existing._load(matrix, folder);
+			existing._start();
+			return existing;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			apBuildMatrixPanel.viewType,
+			'Build Matrix',
+			vscode.ViewColumn.One,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true
+			}
+		);
+		apBuildMatrixPanel.currentPanel = new apBuildMatrixPanel(panel, extensionUri, matrix, folder);
+		apBuildMatrixPanel.currentPanel._start();
+		return apBuildMatrixPanel.currentPanel;
+	}
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, matrix: BuildMatrix, folder: vscode.WorkspaceFolder) {
+		this._panel = panel;
+		this._extensionUri = extensionUri;
+		this._matrix = matrix;
+		this._folder = folder;
+		this._load(matrix, folder);
+
+		this._panel.webview.html = this._getWebviewContent(this._panel.webview);
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+		this._panel.webview.onDidReceiveMessage(
+			message => this._onReceiveMessage(message),
+			null,
+			this._disposables
+		);
+	}
+
+	public get state(): BuildMatrixState {
+		const layout = matrixLayout(this._cells);
+		return {
+			name: this._matrix.name,
+			folder: this._folder.name,
+			running: this._running,
+			concurrency: apBuildMatrixPanel.concurrency,
+			boards: layout.boards,
+			targets: layout.targets,
+			// eslint-disable-next-line @typescript-eslint/no-unused-vars
+			cells: this._cells.map(({ definition, ...cell }) => cell),
+			missing: this._missing
+		};
+	}
+
+	private _load(matrix: BuildMatrix, folder: vscode.WorkspaceFolder): void {
+		this._matrix = matrix;
+		this._folder = folder;
+		const { cells, missing } = expandBuildMatrix(matrix, apBuildMatrixPanel._configurations(folder));
+		this._cells = cells;
+		this._missing = missing;
+		this._panel.title = `Build Matrix - ${matrix.name}`;
+		if (missing.length > 0) {
+			vscode.window.showWarningMessage(`Build configurations not found in ${folder.name}: ${missing.join(', ')}`);
+		}
+	}
+
+	private _start(): void {
+		this.run().catch(error => apBuildMatrixPanel.log(`Build matrix ${this._matrix.name} failed: ${error}`));
+	}
+
+	/**
+	 * Builds the queued cells, a few at a time but never two of one board,
+	 * which share its build directory
+	 */
+	public async run(): Promise<void> {
+		const queued = this._cells.filter(cell => cell.status === 'queued');
+		if (this._running || queued.length === 0) {
+			this._postState();
+			return;
+		}
+		this._running = true;
+		this._cancelled = false;
+		apBuildMatrixPanel.log(`Building ${queued.length} cells of ${this._matrix.name} in ${this._folder.uri.fsPath}`);
+		this._postState();
+		await runWithConcurrency(queued, apBuildMatrixPanel.concurrency, cell => cell.board, cell => this._build(cell));
+		this._running = false;
+		this._postState();
+
+		const failed = this._cells.filter(cell => cell.status === 'failed').length;
+		const passed = this._cells.filter(cell => cell.status === 'passed').length;
+		apBuildMatrixPanel.log(`${this._matrix.name}: ${passed} passed, ${failed} failed`);
+		if (!this._cancelled) {
+			const message = `Build matrix ${this._matrix.name}: ${passed} passed, ${failed} failed`;
+			if (failed > 0) {
+				vscode.window.showErrorMessage(message);
+			} else {
+				vscode.window.showInformationMessage(message);
+			}
+		}
+	}
+
+	private async _build(cell: BuildMatrixCell): Promise<void> {
+		if (this._cancelled) {
+			cell.status = 'cancelled';
+			this._postState();
+			return;
+		}
+		cell.status = 'running';
+		cell.error = undefined;
+		this._postState();
+
+		// a copy for each run, to tell its completion apart from other builds
+		const definition: ArdupilotTaskDefinition = { ...cell.definition, waflock: matrixLockFile(cell.board) };
+		let listener: vscode.Disposable | undefined;
+		const completed = new Promise<BuildCompletion>(resolve => {
+			listener = APTaskProvider.onDidCompleteBuild(completion => {
+				if (completion.definition === definition) {
+					resolve(completion);
+				}
+			});
+		});
+		try {
+			const task = await APTaskProvider.createTask(definition, this._folder);
+			if (!task) {
+				throw new Error(`Could not create a build task for ${definition.configName}`);
+			}
+			this._executions.set(cell.id, await vscode.tasks.executeTask(task));
+			this._finish(cell, await completed);
+		} catch (error) {
+			cell.status = 'failed';
+			cell.error = error instanceof Error ? error.message : String(error);
+			apBuildMatrixPanel.log(`${cell.id} did not build: ${cell.error}`);
+		} finally {
+			listener?.dispose();
+			this._executions.delete(cell.id);
+		}
+		this._postState();
+	}
+
+	private _finish(cell: BuildMatrixCell, completion: BuildCompletion): void {
+		cell.durationMs = completion.durationMs;
+		cell.flash = completion.record?.flash;
+		cell.flashSizeKB = completion.record?.flashSizeKB;
+		if (completion.exitCode === 0) {
+			cell.status = 'passed';
+		} else if (this._cancelled) {
+			cell.status = 'cancelled';
+		} else {
+			cell.status = 'failed';
+			cell.error = completion.firstError ?? `exit code ${completion.exitCode}`;
+		}
+		if (apBuildMatrixPanel.logDir) {
+			cell.logFile = path.join(apBuildMatrixPanel.logDir, `${cell.id.replace(/[^\w.-]/g, '_')}.log`);
+			try {
+				fs.mkdirSync(apBuildMatrixPanel.logDir, { recursive: true });
+				fs.writeFileSync(cell.logFile, completion.output);
+			} catch (error) {
+				apBuildMatrixPanel.log(`Failed to write ${cell.logFile}: ${error}`);
+				cell.logFile = undefined;
+			}
+		}
+	}
+
+	/**
+	 * Stops the running builds and skips the queued ones
+	 */
+	public cancel(): void {
+		if (!this._running) {
+			return;
+		}
+		this._cancelled = true;
+		for (const execution of this._executions.values()) {
+			execution.terminate();
+		}
+	}
+
+	/**
+	 * Builds the failed and cancelled cells again
+	 */
+	public async rerun(): Promise<void> {
+		for (const cell of this._cells.filter(cell => cell.status === 'failed' || cell.status === 'cancelled')) {
+			cell.status = 'queued';
+		}
+		await this.run();
+	}
+
+	/**
+	 * Saves the matrix to .vscode/build-matrix.json under a name
+	 */
+	public async save(): Promise<void> {
+		const name = await vscode.window.showInputBox({
+			prompt: `Name to save the matrix as in ${BUILD_MATRIX_FILE}`,
+			value: this._matrix.name
+		});
+		if (!name) {
+			return;
+		}
+		const file = path.join(this._folder.uri.fsPath, BUILD_MATRIX_FILE);
+		try {
+			const matrix = { ...this._matrix, name };
+			const content = saveBuildMatrix(apBuildMatrixPanel.readMatrixFile(this._folder), matrix);
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(file, JSON.stringify(content, null, '\t') + '\n');
+			this._matrix = matrix;
+			this._panel.title = `Build Matrix - ${name}`;
+			this._postState();
+			vscode.window.showInformationMessage(`Saved build matrix ${name} to ${BUILD_MATRIX_FILE}`);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to save the build matrix: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	private async _openLog(id: string | undefined): Promise<void> {
+		const cell = this._cells.find(candidate => candidate.id === id);
+		if (!cell?.logFile || !fs.existsSync(cell.logFile)) {
+			vscode.window.showWarningMessage('No build log for this build');
+			return;
+		}
+		const line = errorLine(fs.readFileSync(cell.logFile, 'utf8'), cell.error);
+		const position = new vscode.Position(line, 0);
+		await vscode.window.showTextDocument(vscode.Uri.file(cell.logFile), {
+			viewColumn: vscode.ViewColumn.Beside,
+			selection: new vscode.Range(position, position)
+		});
+	}
+
+	private async _onReceiveMessage(message: { command: string, id?: string }): Promise<void> {
+		switch (message.command) {
+		case 'getState':
+			this._postState('getState');
+			break;
+		case 'cancel':
+			this.cancel();
+			break;
+		case 'rerun':
+			await this.rerun();
+			break;
+		case 'save':
+			await this.save();
+			break;
+		case 'openLog':
+			await this._openLog(message.id);
+			break;
+		case 'error':
+			apBuildMatrixPanel.log(`Error from webview: ${JSON.stringify(message)}`);
+			break;
+		default:
+			void this._panel.webview.postMessage({ command: message.command, response: 'Bad Request' });
+			break;
+		}
+	}
+
+	private _postState(command = 'buildMatrix'): void {
+		if (this._disposed) {
+			return;
+		}
+		this._panel.webview.postMessage({ command, state: this.state }).then(undefined, error => {
+			apBuildMatrixPanel.log(`Failed to post the state of ${this._matrix.name}: ${error}`);
+		});
+	}
+
+	private _getWebviewContent(webview: vscode.Webview): string {
+		const stylesUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'build-matrix.css']);
+		const scriptUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'build-matrix.js']);
+		const sourceMapUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'build-matrix.js.map']);
+
+		return /*html*/ `
+			<!DOCTYPE html>
+			<html lang="en">
+				<head>
+					<title>Build Matrix - ArduPilot DevEnv</title>
+					<meta charset="UTF-8" />
+					<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+					<meta http-equiv="Content-Security-Policy" content="default-src 'none';
+																		style-src ${webview.cspSource};
+																		script-src ${webview.cspSource} 'unsafe-eval' 'unsafe-inline';
+																		connect-src ${webview.cspSource} vscode-resource: vscode-webview-resource: https:;">
+					<link href="${stylesUri}" rel="stylesheet">
+					<script>
+						// Make source map URL available to our error handler
+						window.SOURCE_MAP_URL = "${sourceMapUri}";
+					</script>
+					<script type="module" src="${scriptUri}"></script>
+				</head>
+				<body>
+					<div id="build-matrix"></div>
+				</body>
+			</html>
+		`;
+	}
+
+	public dispose(): void {
+		if (apBuildMatrixPanel.currentPanel !== this) {
+			return;
+		}
+		this._disposed = true;
+		this.cancel();
+		apBuildMatrixPanel.currentPanel = undefined;
+		this._panel.dispose();
+		while (this._disposables.length) {
+			const disposable = this._disposables.pop();
+			if (disposable) {
+				disposable.dispose();
+			}
+		}
+	}
+}
+
+// e.g. "3 configurations, 2 boards × 4 targets"
+function describeMatrix(matrix: BuildMatrix): string {
+	const parts: string[] = [];
+	if (matrix.configurations?.length) {
+		parts.push(`${matrix.configurations.length} configuration${matrix.configurations.length === 1 ? '' : 's'}`);
+	}
+	if (matrix.boards?.length && matrix.targets?.length) {
+		parts.push(`${matrix.boards.length} board${matrix.boards.length === 1 ? '' : 's'} × ${matrix.targets.length} target${matrix.targets.length === 1 ? '' : 's'}`);
+	}
+	return parts.join(', ');
+}
+
+function getUri(webview: vscode.Webview, extensionUri: vscode.Uri, pathList: string[]): vscode.Uri {
+	return webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...pathList));
+}
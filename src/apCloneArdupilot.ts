@@ -15,14 +15,16 @@
 */
 /*
 	CloneArdupilot.ts
-	Clones the Ardupilot repository to a user specified directory.
+	Clones the Ardupilot repository to a user specified directory, from GitHub
+	or any remote or local mirror set in the ardupilot.clone settings.
 */
 import * as vscode from 'vscode';
 import { apLog } from './apLog';
 import { apWelcomeItem } from './apWelcomeItem';
 import * as fs from 'fs';
-import { simpleGit, SimpleGitProgressEvent } from 'simple-git';
+import { SimpleGitProgressEvent } from 'simple-git';
 import * as child_process from 'child_process';
+import { cloneRepository, CloneOptions, DEFAULT_CLONE_URL, initSubmodules } from './apGitMirror';
 
 export class CloneArdupilot extends apWelcomeItem {
 	static log = new apLog('cloneArdupilot');
@@ -32,6 +34,7 @@ export class CloneArdupilot extends apWelcomeItem {
 	) {
 		super(label, collapsibleState);
 		vscode.commands.registerCommand('apClone', () => CloneArdupilot.run());
+		vscode.commands.registerCommand('apCloneWithOptions', () => CloneArdupilot.runWithOptions());
 	}
 
 	// Check if Git is installed
@@ -51,9 +54,78 @@ export class CloneArdupilot extends apWelcomeItem {
 		});
 	}
 
-	static async run(): Promise<void> {
+	/**
+	 * Initialize and update the submodules of a fresh checkout so that it
+	 * builds straight away, used after cloning and when adding a worktree.
+	 * Submodules found in the configured mirror directory are fetched from it.
+	 */
+	static async initSubmodules(
+		repoDir: string,
+		progress?: vscode.Progress<{ message?: string; increment?: number; }>,
+		abortSignal?: AbortSignal
+	): Promise<void> {
+		const submoduleMirror = CloneArdupilot.cloneOptions().submoduleMirror;
+		this.log.log(`Starting submodule initialization in ${repoDir}${submoduleMirror ? ` using mirrors in ${submoduleMirror}` : ''}...`);
+		await initSubmodules(repoDir, {
+			submoduleMirror,
+			abortSignal,
+			report: message => progress?.report({ message, increment: 0 })
+		});
+		this.log.log('Submodules updated');
+	}
+
+	// where and how to clone from, as set in the ardupilot.clone settings
+	static cloneOptions(): CloneOptions {
+		const config = vscode.workspace.getConfiguration('ardupilot.clone');
+		return {
+			url: config.get<string>('url') || DEFAULT_CLONE_URL,
+			ref: config.get<string>('ref') || undefined,
+			depth: config.get<number>('depth', 0),
+			reference: config.get<string>('reference') || undefined,
+			submoduleMirror: config.get<string>('submoduleMirror') || undefined
+		};
+	}
+
+	/**
+	 * Clone after asking for the source, branch or tag and depth, starting
+	 * from the ardupilot.clone settings
+	 */
+	static async runWithOptions(): Promise<void> {
+		const defaults = CloneArdupilot.cloneOptions();
+		const url = await vscode.window.showInputBox({
+			prompt: 'Remote URL or path of a local mirror to clone ArduPilot from',
+			value: defaults.url
+		});
+		if (!url) {
+			return;
+		}
+		const ref = await vscode.window.showInputBox({
+			prompt: 'Branch or tag to check out, empty for the default branch',
+			placeHolder: 'e.g. Copter-4.6 or Copter-4.6.0',
+			value: defaults.ref ?? ''
+		});
+		if (ref === undefined) {
+			return;
+		}
+		const depth = await vscode.window.showInputBox({
+			prompt: 'Number of commits to fetch, 0 for the full history',
+			value: String(defaults.depth ?? 0),
+			validateInput: value => /^\d+$/.test(value.trim()) ? undefined : 'Enter a number'
+		});
+		if (depth === undefined) {
+			return;
+		}
+		await CloneArdupilot.run({
+			...defaults,
+			url: url.trim(),
+			ref: ref.trim() || undefined,
+			depth: parseInt(depth, 10)
+		});
+	}
+
+	static async run(options: CloneOptions = CloneArdupilot.cloneOptions()): Promise<void> {
 		// clone the ardupilot repository
-		this.log.log('CloneArdupilot called');
+		this.log.log(`CloneArdupilot called for ${options.url}${options.ref ? ` at ${options.ref}` : ''}`);
 
 		// First check if Git is installed
 		const gitInstalled = await this.isGitInstalled();
@@ -70,13 +142,13 @@ export class CloneArdupilot extends apWelcomeItem {
 		}
 
 		// show open dialog box to select the directory
-		const options: vscode.OpenDialogOptions = {
+		const dialogOptions: vscode.OpenDialogOptions = {
 			canSelectFiles: false,
 			canSelectFolders: true,
 			canSelectMany: false,
 			openLabel: 'Select Directory to Clone Ardupilot',
 		};
-		vscode.window.showOpenDialog(options).then((uri) => {
+		vscode.window.showOpenDialog(dialogOptions).then((uri) => {
 			if (uri) {
 				let finalUri = uri[0];
 				// ask the user to name the directory
@@ -124,23 +196,14 @@ export class CloneArdupilot extends apWelcomeItem {
 							lastProgress = progress;
 						}
 					};
-					const git = simpleGit({ baseDir: uri[0].fsPath, progress: progController, abort: abortController.signal });
-					git.clone('https://www.github.com/ardupilot/ardupilot.git', name || 'ardupilot', ['--progress'])
+					cloneRepository(uri[0].fsPath, name || 'ardupilot', options, progController, abortController.signal)
 						.then(async () => {
 							this.log.log('Clone completed, initializing submodules...');
 							progressReference?.report({ message: 'Initializing submodules...', increment: 0 });
 
 							// Initialize and update submodules
-							const repoGit = simpleGit({ baseDir: finalUri.fsPath, abort: abortController.signal });
 							try {
-								this.log.log('Starting submodule initialization...');
-								await repoGit.submoduleInit();
-								this.log.log('Submodules initialized');
-								progressReference?.report({ message: 'Updating submodules...', increment: 0 });
-
-								this.log.log('Starting submodule update...');
-								await repoGit.submoduleUpdate(['--init', '--recursive']);
-								this.log.log('Submodules updated');
+								await CloneArdupilot.initSubmodules(finalUri.fsPath, progressReference ?? undefined, abortController.signal);
 								progressReference?.report({ message: 'Clone complete', increment: 0 });
 							} catch (submoduleError) {
 								this.log.log(`Submodule error: ${submoduleError}`);
@@ -153,11 +216,12 @@ export class CloneArdupilot extends apWelcomeItem {
 							// add the cloned repository to the workspace
 							vscode.workspace.updateWorkspaceFolders(vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders.length : 0, null, { uri: finalUri });
 							vscode.window.showInformationMessage(`Cloned Ardupilot to ${finalUri.fsPath}`);
-						}, () => {
+						}, (error) => {
 							progressFinishPromiseResolve();
 							if (!abortController.signal.aborted) {
 								// show failed to clone
-								vscode.window.showErrorMessage('Failed to clone ardupilot');
+								this.log.log(`Clone from ${options.url} failed: ${error}`);
+								vscode.window.showErrorMessage(`Failed to clone ardupilot from ${options.url}${options.ref ? ` at ${options.ref}` : ''}`);
 							}
 						});
 
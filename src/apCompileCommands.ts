@@ -0,0 +1,249 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+/*
+	The compile database waf writes to build/<board>/compile_commands.json:
+	the flags of each translation unit, and the flags to use for headers and
+	sources that are not part of the build.
+*/
+
+import * as path from 'path';
+
+export interface CompileCommand {
+	directory: string;
+	file: string;
+	arguments?: string[];
+	command?: string;
+	output?: string;
+}
+
+/**
+ * What an editor needs from a compile command
+ */
+export interface CompileFlags {
+	compiler: string;
+	includePath: string[];
+	defines: string[];
+	// files passed with -include, e.g. the board's hwdef.h
+	forcedInclude: string[];
+	// -std value, e.g. gnu++11
+	standard?: string;
+	// other options, some change the compiler's built-in defines, e.g. -mcpu=cortex-m7
+	compilerArgs: string[];
+}
+
+export interface CompileLookup {
+	command: CompileCommand;
+	// false when the flags are borrowed from the nearest translation unit
+	exact: boolean;
+}
+
+/**
+ * Splits a shell command line into arguments, honouring quotes and backslashes
+ */
+export function splitCommand(command: string): string[] {
+	const args: string[] = [];
+	let current = '';
+	let quote: string | undefined;
+	let inArg = false;
+	for (let i = 0; i < command.length; i++) {
+		const char = command[i];
+		if (quote) {
+			if (char === quote) {
+				quote = undefined;
+			} else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+				current += command[++i];
+			} else {
+				current += char;
+			}
+		} else if (char === '"' || char === '\'') {
+			quote = char;
+			inArg = true;
+		} else if (char === '\\' && i + 1 < command.length) {
+			current += command[++i];
+			inArg = true;
+		} else if (/\s/.test(char)) {
+			if (inArg) {
+				args.push(current);
+				current = '';
+				inArg = false;
+			}
+		} else {
+			current += char;
+			inArg = true;
+		}
+	}
+	if (inArg) {
+		args.push(current);
+	}
+	return args;
+}
+
+export function parseCompileCommands(content: string): CompileCommand[] {
+	const commands = JSON.parse(content) as unknown;
+	if (!Array.isArray(commands)) {
+		throw new Error('compile_commands.json must contain an array');
+	}
+	return commands.filter((command): command is CompileCommand =>
+		typeof command?.directory === 'string' && typeof command?.file === 'string' &&
+		(Array.isArray(command.arguments) || typeof command.command === 'string'));
+}
+
+/**
+ * Absolute path of the file a command compiles
+ */
+export function commandFile(command: CompileCommand): string {
+	return path.resolve(command.directory, command.file);
+}
+
+/**
+ * Include paths, defines, forced includes and language standard of a compile
+ * command, with paths made absolute
+ */
+export function compileFlags(command: CompileCommand): CompileFlags {
+	const args = command.arguments ?? splitCommand(command.command ?? '');
+	const resolve = (file: string) => path.resolve(command.directory, file);
+	const flags: CompileFlags = { compiler: args[0] ?? '', includePath: [], defines: [], forcedInclude: [], compilerArgs: [] };
+
+	for (let i = 1; i < args.length; i++) {
+		const arg = args[i];
+		// options that take the next argument unless it is attached
+		const option = /^(-I|-isystem|-iquote|-idirafter|-D|-U|-include|-o|-MF|-MT|-MQ|-x)(.*)$/.exec(arg);
+		if (option) {
+			const value = option[2] || args[++i] || '';
+			switch (option[1]) {
+			case '-I':
+			case '-isystem':
+			case '-iquote':
+			case '-idirafter':
+				flags.includePath.push(resolve(value));
+				break;
+			case '-D':
+				flags.defines.push(value);
+				break;
+			case '-include':
+				flags.forcedInclude.push(resolve(value));
+				break;
+			}
+			continue;
+		}
+		if (arg.startsWith('-std=')) {
+			flags.standard = arg.slice('-std='.length);
+		} else if (arg.startsWith('-') && arg !== '-c' && !/^-[WgM]/.test(arg)) {
+			// target, feature and optimisation options change the compiler's built-in defines
+			flags.compilerArgs.push(arg);
+		}
+	}
+	return flags;
+}
+
+function isWithin(file: string, directory: string): boolean {
+	return file === directory || file.startsWith(directory.endsWith(path.sep) ? directory : directory + path.sep);
+}
+
+/**
+ * The translation units of a build, looked up by source file
+ */
+export class CompileDatabase {
+	private byFile = new Map<string, CompileCommand>();
+	private nearest = new Map<string, CompileCommand | undefined>();
+	// deepest directory containing every source, files outside it are not part of the tree
+	private root: string | undefined;
+
+	constructor(public readonly commands: CompileCommand[]) {
+		for (const command of commands) {
+			const file = commandFile(command);
+			this.byFile.set(file, command);
+			const directory = path.dirname(file);
+			while (this.root !== undefined && !isWithin(directory, this.root)) {
+				this.root = path.dirname(this.root);
+			}
+			this.root ??= directory;
+		}
+	}
+
+	public get size(): number {
+		return this.byFile.size;
+	}
+
+	public has(file: string): boolean {
+		return this.byFile.has(path.resolve(file));
+	}
+
+	/**
+	 * The command compiling a file, or for a header or a source outside the
+	 * build the nearest translation unit: one with the same name, e.g.
+	 * AP_Baro.cpp for AP_Baro.h, then one in the same directory, then in the
+	 * closest parent directory
+	 */
+	public lookup(file: string): CompileLookup | undefined {
+		const absolute = path.resolve(file);
+		const command = this.byFile.get(absolute);
+		if (command) {
+			return { command, exact: true };
+		}
+		if (!this.nearest.has(absolute)) {
+			this.nearest.set(absolute, this.findNearest(absolute));
+		}
+		const nearest = this.nearest.get(absolute);
+		return nearest ? { command: nearest, exact: false } : undefined;
+	}
+
+	private findNearest(file: string): CompileCommand | undefined {
+		if (this.root === undefined || !isWithin(file, this.root)) {
+			return undefined;
+		}
+		const stem = path.basename(file, path.extname(file));
+		let directory = path.dirname(file);
+		for (;;) {
+			let best: { command: CompileCommand, score: number } | undefined;
+			for (const [source, command] of this.byFile) {
+				if (!isWithin(source, directory)) {
+					continue;
+				}
+				// same name beats same directory beats a subdirectory
+				const sameDirectory = path.dirname(source) === directory;
+				const score = (sameDirectory && path.basename(source, path.extname(source)) === stem ? 0 : sameDirectory ? 1 : 2) * 1e6
+					+ source.length;
+				if (!best || score < best.score) {
+					best = { command, score };
+				}
+			}
+			if (best) {
+				return best.command;
+			}
+			const parent = path.dirname(directory);
+			if (parent === directory) {
+				return undefined;
+			}
+			directory = parent;
+		}
+	}
+}
+
+/**
+ * compile_commands.json of a board's build directory
+ */
+export function compileCommandsPath(workspaceRoot: string, board: string): string {
+	return path.join(workspaceRoot, 'build', board, 'compile_commands.json');
+}
+
+/**
+ * hwdef.h generated from the board's hwdef.dat, defining its HAL_ options
+ */
+export function hwdefHeaderPath(workspaceRoot: string, board: string): string {
+	return path.join(workspaceRoot, 'build', board, 'hwdef.h');
+}
@@ -16,12 +16,21 @@
 
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
+import * as fs from 'fs';
 import * as os from 'os';
+import * as path from 'path';
 import { Worker } from 'worker_threads';
 import { apLog } from './apLog';
 import { ProgramUtils } from './apProgramUtils';
 import { TOOLS_REGISTRY } from './apToolsConfig';
 import { apTerminalMonitor } from './apTerminalMonitor';
+import { apTelemetryPanel } from './apTelemetryPanel';
+import { apParametersPanel } from './apParametersPanel';
+import { MavlinkConnection } from './apMavlink';
+import { LogEntry, downloadLog, eraseLogs, listLogs, logFileName } from './apLogDownload';
+import { apUploader } from './apUploader';
+import { apWorkspace } from './apWorkspace';
+import { apMavftpFileSystem } from './apMavftpFileSystem';
 
 // Device information interface
 export interface DeviceInfo {
@@ -115,6 +124,14 @@ export class ConnectedDeviceItem extends vscode.TreeItem {
 				// Highlight if connected
 				this.description = `${this.description} (Connected)`;
 				this.resourceUri = vscode.Uri.parse(`connected-device:${device.path}/?connected`);
+			} else if (label.includes('Telemetry')) {
+				this.iconPath = new vscode.ThemeIcon('pulse');
+			} else if (label.includes('Parameters')) {
+				this.iconPath = new vscode.ThemeIcon('settings');
+			} else if (label.includes('Upload')) {
+				this.iconPath = new vscode.ThemeIcon('cloud-upload');
+			} else if (label.includes('Files')) {
+				this.iconPath = new vscode.ThemeIcon('folder-opened');
 			} else {
 				this.iconPath = new vscode.ThemeIcon('play', new vscode.ThemeColor('charts.green'));
 				this.resourceUri = vscode.Uri.parse(`connected-device:${device.path}/?disconnected`);
@@ -161,6 +178,33 @@ export class ConnectedDeviceItem extends vscode.TreeItem {
 	}
 }
 
+// size and date of a log, as shown next to it
+function describeLogEntry(entry: LogEntry): string {
+	const size = entry.size >= 1024 * 1024 ? `${(entry.size / 1024 / 1024).toFixed(1)} MB` : `${(entry.size / 1024).toFixed(1)} KB`;
+	return entry.timeUtc > 0 ? `${size}, ${new Date(entry.timeUtc * 1000).toLocaleString()}` : size;
+}
+
+// Logs stored on a device, listed over MAVLink
+export class DeviceLogsItem extends ConnectedDeviceItem {
+	constructor(device: DeviceInfo, count?: number) {
+		super('Logs', vscode.TreeItemCollapsibleState.Collapsed, device, true);
+		this.iconPath = new vscode.ThemeIcon('history');
+		this.resourceUri = undefined;
+		this.description = count === undefined ? undefined : `${count}`;
+		this.contextValue = 'deviceLogs';
+	}
+}
+
+export class DeviceLogItem extends ConnectedDeviceItem {
+	constructor(device: DeviceInfo, public readonly entry: LogEntry) {
+		super(`Log ${entry.id}`, vscode.TreeItemCollapsibleState.None, device, true);
+		this.iconPath = new vscode.ThemeIcon('file-binary');
+		this.resourceUri = undefined;
+		this.description = describeLogEntry(entry);
+		this.contextValue = 'deviceLog';
+	}
+}
+
 // Provider for the tree view
 export class apConnectedDevices implements vscode.TreeDataProvider<ConnectedDeviceItem> {
 	private _onDidChangeTreeData: vscode.EventEmitter<ConnectedDeviceItem | undefined> = new vscode.EventEmitter<ConnectedDeviceItem | undefined>();
@@ -174,6 +218,15 @@ export class apConnectedDevices implements vscode.TreeDataProvider<ConnectedDevi
 	private isWSL = false;
 	private activeConnections: Map<string, { terminal: apTerminalMonitor | null }> = new Map();
 	private loggedDevices: Set<string> = new Set(); // Track which devices have been logged
+	// log lists read from devices, with the baud rate used to read them
+	private deviceLogs: Map<string, { baudRate: number, entries: LogEntry[] }> = new Map();
+
+	/**
+	 * Devices found by the last refresh, for pickers outside the tree view
+	 */
+	public static getKnownDevices(): DeviceInfo[] {
+		return Array.from(apConnectedDevices.connectedDevicesList.values());
+	}
 
 	public setIsWSL(isWSL: boolean): void {
 		this.isWSL = isWSL;
@@ -230,6 +283,10 @@ export class apConnectedDevices implements vscode.TreeDataProvider<ConnectedDevi
 	}
 
 	async getChildren(element?: ConnectedDeviceItem): Promise<ConnectedDeviceItem[]> {
+		if (element instanceof DeviceLogsItem) {
+			return this.getLogItems(element.device);
+		}
+
 		// If element is provided, we're getting children of a device
 		if (element && !element.isCommand) {
 			// Return command options for the device
@@ -282,12 +339,76 @@ export class apConnectedDevices implements vscode.TreeDataProvider<ConnectedDevi
 			));
 		}
 
-		// Placeholder for future commands
-		// commands.push(new ConnectedDeviceItem("Another Command", ...));
+		// Native MAVLink views, can't share the port with MAVProxy
+		if (!device.isMavproxyConnected) {
+			commands.push(new ConnectedDeviceItem(
+				'Show Telemetry',
+				vscode.TreeItemCollapsibleState.None,
+				device,
+				true,
+				{
+					command: 'connected-devices.showTelemetry',
+					title: 'Show Telemetry',
+					arguments: [device]
+				}
+			));
+			commands.push(new ConnectedDeviceItem(
+				'Show Parameters',
+				vscode.TreeItemCollapsibleState.None,
+				device,
+				true,
+				{
+					command: 'connected-devices.showParameters',
+					title: 'Show Parameters',
+					arguments: [device]
+				}
+			));
+			commands.push(new ConnectedDeviceItem(
+				'Upload Firmware',
+				vscode.TreeItemCollapsibleState.None,
+				device,
+				true,
+				{
+					command: 'connected-devices.uploadFirmware',
+					title: 'Upload Firmware',
+					arguments: [device]
+				}
+			));
+			commands.push(new DeviceLogsItem(device, this.deviceLogs.get(device.path)?.entries.length));
+			commands.push(new ConnectedDeviceItem(
+				'Browse Files',
+				vscode.TreeItemCollapsibleState.None,
+				device,
+				true,
+				{
+					command: 'connected-devices.browseFiles',
+					title: 'Browse Files',
+					arguments: [device]
+				}
+			));
+		}
 
 		return commands;
 	}
 
+	private getLogItems(device: DeviceInfo): ConnectedDeviceItem[] {
+		const logs = this.deviceLogs.get(device.path);
+		if (!logs) {
+			return [new ConnectedDeviceItem(
+				'Read Log List',
+				vscode.TreeItemCollapsibleState.None,
+				device,
+				true,
+				{
+					command: 'connected-devices.listLogs',
+					title: 'Read Log List',
+					arguments: [device]
+				}
+			)];
+		}
+		return logs.entries.map(entry => new DeviceLogItem(device, entry));
+	}
+
 	private createDisplayName(device: DeviceInfo): string {
 		// Use the product name with path in brackets, similar to WSL format
 		if (device.product) {
@@ -923,25 +1044,16 @@ export class apConnectedDevices implements vscode.TreeDataProvider<ConnectedDevi
 			}
 		}
 
-		// Default baud rate for most ArduPilot devices
-		const defaultBaudRate = 115200;
-
-		// Ask user for baudrate
-		const baudRateInput = await vscode.window.showInputBox({
-			prompt: 'Enter baud rate for MAVProxy connection',
-			value: defaultBaudRate.toString(),
-			validateInput: (value) => {
-				const num = parseInt(value);
-				return isNaN(num) ? 'Please enter a valid number' : null;
-			}
-		});
+		if (MavlinkConnection.isDeviceInUse(device.path)) {
+			vscode.window.showErrorMessage(`${device.path} is in use by the telemetry or parameters view. Close it before connecting MAVProxy.`);
+			return;
+		}
 
-		if (!baudRateInput) {
+		const baudRate = await this.promptBaudRate('Enter baud rate for MAVProxy connection');
+		if (baudRate === undefined) {
 			return; // User cancelled
 		}
 
-		const baudRate = parseInt(baudRateInput);
-
 		// Build the MAVProxy command
 		const devicePath = device.path;
 		let mavproxyCommand = '';
@@ -985,6 +1097,255 @@ export class apConnectedDevices implements vscode.TreeDataProvider<ConnectedDevi
 		this.log.log(`Started MAVProxy connection to ${devicePath} at ${baudRate} baud using ${this.isWSL ? 'mavproxy.exe (WSL)' : 'mavproxy.py'}`);
 	}
 
+	/**
+	 * Opens the native MAVLink telemetry view for a device
+	 * @param device device to open, must not be held by MAVProxy
+	 * @param extensionUri extension root, used to locate the webview bundle
+	 */
+	public async showTelemetry(device: DeviceInfo, extensionUri: vscode.Uri): Promise<void> {
+		if (device.isMavproxyConnected) {
+			vscode.window.showErrorMessage(`${device.path} is in use by MAVProxy. Disconnect it before opening the telemetry view.`);
+			return;
+		}
+
+		const baudRate = await this.promptBaudRate('Enter baud rate for the telemetry connection');
+		if (baudRate === undefined) {
+			return; // User cancelled
+		}
+
+		await apTelemetryPanel.createOrShow(extensionUri, { type: 'serial', path: device.path, baudRate }, this.createDisplayName(device));
+	}
+
+	/**
+	 * Opens the parameter editor for a device, sharing the port with an open telemetry view
+	 */
+	public async showParameters(device: DeviceInfo, extensionUri: vscode.Uri): Promise<void> {
+		if (device.isMavproxyConnected) {
+			vscode.window.showErrorMessage(`${device.path} is in use by MAVProxy. Disconnect it before opening the parameters view.`);
+			return;
+		}
+
+		const baudRate = await this.promptBaudRate('Enter baud rate for the parameters connection');
+		if (baudRate === undefined) {
+			return; // User cancelled
+		}
+
+		await apParametersPanel.createOrShow(extensionUri, { type: 'serial', path: device.path, baudRate }, this.createDisplayName(device));
+	}
+
+	/**
+	 * Flashes firmware from build/<board>/bin with the built-in bootloader uploader,
+	 * or runs the waf -upload task of the active configuration where that is unsupported
+	 */
+	public async uploadFirmware(device: DeviceInfo, configuration?: vscode.Task): Promise<void> {
+		if (!apUploader.supported) {
+			if (!configuration) {
+				vscode.window.showErrorMessage('No active configuration selected');
+				return;
+			}
+			// waf finds the board itself, it takes no port from here
+			if (await apUploader.runUploadTask(configuration)) {
+				vscode.window.showInformationMessage(`Uploading with the ${configuration.name}-upload task, which flashes the first board waf finds rather than ${device.path}`);
+			}
+			return;
+		}
+
+		const workspaceRoot = apWorkspace.rootPath;
+		if (!workspaceRoot) {
+			vscode.window.showErrorMessage('No workspace folder is open');
+			return;
+		}
+
+		const firmwarePath = await apUploader.pickFirmware(workspaceRoot);
+		if (!firmwarePath) {
+			return; // User cancelled or nothing built
+		}
+
+		await apUploader.upload(firmwarePath, device);
+	}
+
+	/**
+	 * Reads the list of logs stored on a device, shown under its Logs node
+	 */
+	public async listLogs(device: DeviceInfo): Promise<void> {
+		if (device.isMavproxyConnected) {
+			vscode.window.showErrorMessage(`${device.path} is in use by MAVProxy. Disconnect it before reading logs.`);
+			return;
+		}
+		const baudRate = this.deviceLogs.get(device.path)?.baudRate ?? await this.promptBaudRate('Enter baud rate for reading logs');
+		if (baudRate === undefined) {
+			return; // User cancelled
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Window,
+			title: `Reading logs from ${device.path}`
+		}, async () => {
+			let connection: MavlinkConnection | undefined;
+			try {
+				connection = await MavlinkConnection.acquire({ type: 'serial', path: device.path, baudRate });
+				const entries = await listLogs(connection);
+				this.deviceLogs.set(device.path, { baudRate, entries });
+				this.log.log(`Found ${entries.length} logs on ${device.path}`);
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to read logs from ${device.path}: ${error instanceof Error ? error.message : error}`);
+			} finally {
+				connection?.release();
+			}
+		});
+		this.refresh();
+	}
+
+	/**
+	 * Downloads logs into the workspace logs folder, asking which ones when none are given
+	 */
+	public async downloadLogs(device: DeviceInfo, entries?: LogEntry[]): Promise<void> {
+		const workspaceRoot = apWorkspace.rootPath;
+		if (!workspaceRoot) {
+			vscode.window.showErrorMessage('No workspace folder is open');
+			return;
+		}
+		const logs = this.deviceLogs.get(device.path);
+		if (!logs) {
+			await this.listLogs(device);
+			return;
+		}
+		if (!entries) {
+			const picked = await vscode.window.showQuickPick(logs.entries.map(entry => ({
+				label: `Log ${entry.id}`,
+				description: describeLogEntry(entry),
+				entry
+			})), { canPickMany: true, placeHolder: 'Select the logs to download' });
+			entries = picked?.map(item => item.entry);
+		}
+		if (!entries || entries.length === 0) {
+			return;
+		}
+
+		const logsDir = path.join(workspaceRoot, 'logs');
+		const saved: string[] = [];
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Downloading logs from ${device.path}`,
+			cancellable: true
+		}, async (progress, token) => {
+			let connection: MavlinkConnection | undefined;
+			try {
+				connection = await MavlinkConnection.acquire({ type: 'serial', path: device.path, baudRate: logs.baudRate });
+				const selected = entries ?? [];
+				// each log fills its share of the bar
+				const share = 100 / selected.length;
+				for (const [index, entry] of selected.entries()) {
+					const prefix = `Log ${entry.id} (${index + 1} of ${selected.length})`;
+					let reported = 0;
+					progress.report({ message: prefix });
+					const data = await downloadLog(connection, entry, {
+						token,
+						onProgress: (received, total) => {
+							const percent = Math.floor(received * 100 / Math.max(total, 1));
+							if (percent > reported) {
+								progress.report({ message: `${prefix}: ${percent}%`, increment: (percent - reported) * share / 100 });
+								reported = percent;
+							}
+						}
+					});
+					fs.mkdirSync(logsDir, { recursive: true });
+					const filePath = path.join(logsDir, logFileName(entry));
+					fs.writeFileSync(filePath, data);
+					saved.push(filePath);
+					this.log.log(`Downloaded log ${entry.id} from ${device.path} to ${filePath}`);
+				}
+			} catch (error) {
+				vscode.window.showErrorMessage(`Log download stopped: ${error instanceof Error ? error.message : error}`);
+			} finally {
+				connection?.release();
+			}
+		});
+
+		if (saved.length > 0) {
+			const open = await vscode.window.showInformationMessage(
+				`Downloaded ${saved.length} log${saved.length === 1 ? '' : 's'} to ${path.relative(workspaceRoot, logsDir)}`,
+				'Open in Log Viewer'
+			);
+			if (open) {
+				await vscode.commands.executeCommand('ardupilot.openDataflashLog', vscode.Uri.file(saved[saved.length - 1]));
+			}
+		}
+	}
+
+	/**
+	 * Erases every log on a device after confirmation
+	 */
+	public async eraseLogs(device: DeviceInfo): Promise<void> {
+		const confirm = await vscode.window.showWarningMessage(
+			`Erase all logs on ${device.path}? This cannot be undone.`,
+			{ modal: true },
+			'Erase'
+		);
+		if (confirm !== 'Erase') {
+			return;
+		}
+		const baudRate = this.deviceLogs.get(device.path)?.baudRate ?? await this.promptBaudRate('Enter baud rate for erasing logs');
+		if (baudRate === undefined) {
+			return; // User cancelled
+		}
+
+		let connection: MavlinkConnection | undefined;
+		try {
+			connection = await MavlinkConnection.acquire({ type: 'serial', path: device.path, baudRate });
+			await eraseLogs(connection);
+			this.deviceLogs.set(device.path, { baudRate, entries: [] });
+			vscode.window.showInformationMessage(`Erasing logs on ${device.path}, the vehicle finishes this in the background`);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to erase logs on ${device.path}: ${error instanceof Error ? error.message : error}`);
+		} finally {
+			connection?.release();
+		}
+		this.refresh();
+	}
+
+	/**
+	 * Adds the device's SD card and @SYS, @PARAM and @ROMFS filesystems to the
+	 * workspace as a mavftp:// folder, read and written over MAVLink FTP
+	 */
+	public async browseFiles(device: DeviceInfo): Promise<void> {
+		if (device.isMavproxyConnected) {
+			vscode.window.showErrorMessage(`${device.path} is in use by MAVProxy. Disconnect it before browsing its files.`);
+			return;
+		}
+		const baudRate = this.deviceLogs.get(device.path)?.baudRate ?? await this.promptBaudRate('Enter baud rate for browsing files');
+		if (baudRate === undefined) {
+			return; // User cancelled
+		}
+
+		const uri = await apMavftpFileSystem.mount(device.path, { type: 'serial', path: device.path, baudRate });
+		const folders = vscode.workspace.workspaceFolders ?? [];
+		if (folders.some(folder => folder.uri.toString() === uri.toString())) {
+			await vscode.commands.executeCommand('workbench.view.explorer');
+			return;
+		}
+		this.log.log(`Adding ${uri.toString()} to the workspace`);
+		if (!vscode.workspace.updateWorkspaceFolders(folders.length, 0, { uri, name: `${this.createDisplayName(device)} Files` })) {
+			vscode.window.showErrorMessage(`Failed to add the files of ${device.path} to the workspace`);
+		}
+	}
+
+	private async promptBaudRate(prompt: string): Promise<number | undefined> {
+		// Default baud rate for most ArduPilot devices
+		const defaultBaudRate = 115200;
+
+		const baudRateInput = await vscode.window.showInputBox({
+			prompt,
+			value: defaultBaudRate.toString(),
+			validateInput: (value) => {
+				const num = parseInt(value);
+				return isNaN(num) ? 'Please enter a valid number' : null;
+			}
+		});
+
+		return baudRateInput ? parseInt(baudRateInput) : undefined;
+	}
+
 	public async disconnectDevice(device: DeviceInfo): Promise<void> {
 		const connection = this.activeConnections.get(device.path);
 		if (!connection) {
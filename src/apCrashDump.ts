@@ -0,0 +1,356 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+/*
+	Decoding of the CrashCatcher dumps ChibiOS boards leave in flash after a
+	hardfault, as read from @SYS/crash_dump.bin: registers, fault status,
+	the memory around the stack and a symbolised backtrace.
+*/
+
+import * as cp from 'child_process';
+import * as path from 'path';
+
+// CrashCatcher dump format 3.x, starting with "cC" and the version
+const SIGNATURE = [0x63, 0x43];
+const SUPPORTED_MAJOR = 3;
+const FLAG_FLOATING_POINT = 1;
+// CFSR, HFSR, DFSR, MMFAR, BFAR and AFSR, dumped as a memory region
+const FAULT_STATUS_ADDRESS = 0xE000ED28;
+// words of stack scanned for return addresses
+const STACK_SCAN_WORDS = 1024;
+const MAX_BACKTRACE = 32;
+
+export const CORE_REGISTERS = ['r0', 'r1', 'r2', 'r3', 'r4', 'r5', 'r6', 'r7', 'r8', 'r9', 'r10', 'r11', 'r12', 'sp', 'lr', 'pc', 'xpsr'];
+
+export interface CrashMemoryRegion {
+	start: number;
+	end: number;
+	data: Buffer;
+}
+
+export interface CrashDump {
+	version: string;
+	registers: Record<string, number>;
+	msp: number;
+	psp: number;
+	exceptionPsr: number;
+	// s0-s31 and fpscr, when the FPU was in use
+	floatingPoint?: number[];
+	regions: CrashMemoryRegion[];
+}
+
+export interface FaultStatus {
+	cfsr: number;
+	hfsr: number;
+	dfsr: number;
+	mmfar: number;
+	bfar: number;
+}
+
+export interface FaultSummary {
+	exception: string;
+	causes: string[];
+	// faulting data address, when MMFAR or BFAR holds a valid one
+	address?: number;
+}
+
+export interface SourceLocation {
+	function: string;
+	file?: string;
+	line?: number;
+}
+
+export interface BacktraceFrame {
+	address: number;
+	// where the address came from: PC, LR or the stack slot holding it
+	origin: string;
+	// innermost first, then the functions it was inlined into
+	locations: SourceLocation[];
+}
+
+class Reader {
+	private offset = 0;
+
+	constructor(private readonly data: Buffer) {}
+
+	get remaining(): number {
+		return this.data.length - this.offset;
+	}
+
+	word(): number {
+		if (this.remaining < 4) {
+			throw new Error('Crash dump is truncated');
+		}
+		const value = this.data.readUInt32LE(this.offset);
+		this.offset += 4;
+		return value;
+	}
+
+	words(count: number): number[] {
+		return Array.from({ length: count }, () => this.word());
+	}
+
+	bytes(count: number): Buffer {
+		if (this.remaining < count) {
+			throw new Error('Crash dump is truncated');
+		}
+		const bytes = this.data.subarray(this.offset, this.offset + count);
+		this.offset += count;
+		return bytes;
+	}
+}
+
+/**
+ * CrashCatcher can also print the dump as hex lines between ###CRASH### and
+ * ###END### markers, e.g. when captured from a serial console
+ */
+export function crashDumpFromHex(text: string): Buffer | undefined {
+	const body = /###CRASH###([\s\S]*?)(?:###END###|$)/.exec(text)?.[1] ?? text;
+	const hex = body.replace(/\s+/g, '');
+	if (!hex || !/^([0-9a-fA-F]{2})+$/.test(hex)) {
+		return undefined;
+	}
+	return Buffer.from(hex, 'hex');
+}
+
+export function parseCrashDump(data: Buffer): CrashDump {
+	if (data.length < 4 || data[0] !== SIGNATURE[0] || data[1] !== SIGNATURE[1]) {
+		const hex = crashDumpFromHex(data.toString('latin1'));
+		if (hex && hex.length >= 4 && hex[0] === SIGNATURE[0] && hex[1] === SIGNATURE[1]) {
+			return parseCrashDump(hex);
+		}
+		throw new Error('Not a crash dump: missing the CrashCatcher signature');
+	}
+	if (data[2] !== SUPPORTED_MAJOR) {
+		throw new Error(`Unsupported crash dump version ${data[2]}.${data[3]}`);
+	}
+	const reader = new Reader(data);
+	reader.bytes(4);
+	const flags = reader.word();
+
+	const registers: Record<string, number> = {};
+	for (const [index, value] of reader.words(CORE_REGISTERS.length).entries()) {
+		registers[CORE_REGISTERS[index]] = value;
+	}
+	const [msp, psp, exceptionPsr] = reader.words(3);
+	const floatingPoint = flags & FLAG_FLOATING_POINT ? reader.words(33) : undefined;
+
+	const regions: CrashMemoryRegion[] = [];
+	// the flash sector holding the dump is erased, i.e. 0xFF, after the last region
+	while (reader.remaining >= 8) {
+		const start = reader.word();
+		const end = reader.word();
+		if (start === 0xFFFFFFFF || end < start || end - start > reader.remaining) {
+			break;
+		}
+		regions.push({ start, end, data: reader.bytes(end - start) });
+	}
+
+	return {
+		version: `${data[2]}.${data[3]}`,
+		registers,
+		msp,
+		psp,
+		exceptionPsr,
+		floatingPoint,
+		regions
+	};
+}
+
+export function readWord(dump: CrashDump, address: number): number | undefined {
+	const region = dump.regions.find(candidate => address >= candidate.start && address + 4 <= candidate.end);
+	return region ? region.data.readUInt32LE(address - region.start) : undefined;
+}
+
+export function faultStatus(dump: CrashDump): FaultStatus | undefined {
+	const words = [0, 4, 8, 12, 16].map(offset => readWord(dump, FAULT_STATUS_ADDRESS + offset));
+	if (words.some(word => word === undefined)) {
+		return undefined;
+	}
+	const [cfsr, hfsr, dfsr, mmfar, bfar] = words as number[];
+	return { cfsr, hfsr, dfsr, mmfar, bfar };
+}
+
+const EXCEPTIONS: Record<number, string> = {
+	0: 'Thread mode',
+	2: 'NMI',
+	3: 'HardFault',
+	4: 'MemManage fault',
+	5: 'BusFault',
+	6: 'UsageFault',
+	11: 'SVCall',
+	12: 'DebugMonitor',
+	14: 'PendSV',
+	15: 'SysTick'
+};
+
+// CFSR bits, MemManage in bits 0-7, BusFault in 8-15 and UsageFault in 16-31
+const CFSR_CAUSES: [number, string][] = [
+	[1 << 0, 'IACCVIOL: instruction fetch from a no-execute or protected region'],
+	[1 << 1, 'DACCVIOL: data access to a protected region'],
+	[1 << 3, 'MUNSTKERR: MemManage fault while unstacking from an exception'],
+	[1 << 4, 'MSTKERR: MemManage fault while stacking for an exception'],
+	[1 << 5, 'MLSPERR: MemManage fault during lazy floating point state preservation'],
+	[1 << 8, 'IBUSERR: bus error on instruction fetch'],
+	[1 << 9, 'PRECISERR: precise data bus error'],
+	[1 << 10, 'IMPRECISERR: imprecise data bus error, the PC may be past the faulting instruction'],
+	[1 << 11, 'UNSTKERR: bus error while unstacking from an exception'],
+	[1 << 12, 'STKERR: bus error while stacking for an exception, likely a stack overflow'],
+	[1 << 13, 'LSPERR: bus error during lazy floating point state preservation'],
+	[1 << 16, 'UNDEFINSTR: undefined instruction'],
+	[1 << 17, 'INVSTATE: invalid EPSR state, e.g. a call through a pointer without the Thumb bit'],
+	[1 << 18, 'INVPC: invalid EXC_RETURN value loaded into the PC'],
+	[1 << 19, 'NOCP: coprocessor access while it is disabled, e.g. the FPU'],
+	[1 << 20, 'STKOF: stack overflow detected by the stack limit'],
+	[1 << 24, 'UNALIGNED: unaligned memory access'],
+	[1 << 25, 'DIVBYZERO: division by zero']
+];
+const MMARVALID = 1 << 7;
+const BFARVALID = 1 << 15;
+const HFSR_VECTTBL = 1 << 1;
+const HFSR_FORCED = 1 << 30;
+
+/**
+ * What went wrong: the active exception from xPSR and the causes flagged in
+ * the configurable and hard fault status registers
+ */
+export function summarizeFault(dump: CrashDump): FaultSummary {
+	const exceptionNumber = dump.exceptionPsr & 0x1FF || dump.registers.xpsr & 0x1FF;
+	const exception = EXCEPTIONS[exceptionNumber] ?? (exceptionNumber >= 16 ? `IRQ ${exceptionNumber - 16}` : `exception ${exceptionNumber}`);
+	const causes: string[] = [];
+	const status = faultStatus(dump);
+	let address: number | undefined;
+	if (status) {
+		if (status.hfsr & HFSR_VECTTBL) {
+			causes.push('VECTTBL: bus error reading the vector table');
+		}
+		if (status.hfsr & HFSR_FORCED) {
+			causes.push('FORCED: a configurable fault escalated to a HardFault');
+		}
+		for (const [bit, cause] of CFSR_CAUSES) {
+			if (status.cfsr & bit) {
+				causes.push(cause);
+			}
+		}
+		if (status.cfsr & MMARVALID) {
+			address = status.mmfar;
+		} else if (status.cfsr & BFARVALID) {
+			address = status.bfar;
+		}
+	}
+	return { exception, causes, address };
+}
+
+// addresses in the ARMv7-M code region, with the Thumb bit of a return address
+function isCodeAddress(value: number): boolean {
+	return (value & 1) === 1 && value < 0x20000000 && value > 0x100;
+}
+
+/**
+ * Addresses to symbolise: the PC, the LR and words on the stack that look
+ * like return addresses. Without frame pointers there is no reliable unwind,
+ * so stack entries that addr2line cannot place in a function are dropped
+ * later on.
+ */
+export function backtraceCandidates(dump: CrashDump): { address: number; origin: string }[] {
+	const candidates: { address: number; origin: string }[] = [{ address: dump.registers.pc, origin: 'PC' }];
+	if (isCodeAddress(dump.registers.lr)) {
+		candidates.push({ address: dump.registers.lr, origin: 'LR' });
+	}
+	for (let slot = 0; slot < STACK_SCAN_WORDS && candidates.length < MAX_BACKTRACE * 4; slot++) {
+		const address = dump.registers.sp + slot * 4;
+		const value = readWord(dump, address);
+		if (value === undefined) {
+			break;
+		}
+		if (isCodeAddress(value)) {
+			candidates.push({ address: value, origin: `stack 0x${hex(address)}` });
+		}
+	}
+	return candidates;
+}
+
+// the address to look up: return addresses point after the call, so step back into it
+export function lookupAddress(address: number, origin: string): number {
+	const instruction = address & ~1;
+	return origin === 'PC' ? instruction : instruction - 2;
+}
+
+export function hex(value: number): string {
+	return (value >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Parses `addr2line -f -C -i -p -a` output: one "0xADDR: function at
+ * file:line" line per address, followed by "(inlined by)" lines
+ */
+export function parseAddr2lineOutput(output: string): Map<number, SourceLocation[]> {
+	const result = new Map<number, SourceLocation[]>();
+	let current: SourceLocation[] | undefined;
+	for (const line of output.split(/\r?\n/)) {
+		const entry = /^(?:0x([0-9a-fA-F]+): | \(inlined by\) )(.*)$/.exec(line);
+		if (!entry) {
+			continue;
+		}
+		if (entry[1] !== undefined) {
+			current = [];
+			result.set(parseInt(entry[1], 16), current);
+		}
+		const location = /^(.*?) at (.*?):(\d+|\?)(?: \(discriminator \d+\))?$/.exec(entry[2]);
+		const functionName = location ? location[1] : entry[2].replace(/ \?\?:0$/, '');
+		if (!current || functionName === '??') {
+			continue;
+		}
+		const file = location && location[2] !== '??' ? location[2] : undefined;
+		const lineNumber = location ? parseInt(location[3], 10) : NaN;
+		current.push({ function: functionName, file, line: isNaN(lineNumber) || lineNumber === 0 ? undefined : lineNumber });
+	}
+	return result;
+}
+
+export function runAddr2line(addr2line: string, elf: string, addresses: number[]): Promise<Map<number, SourceLocation[]>> {
+	return new Promise((resolve, reject) => {
+		cp.execFile(addr2line, ['-e', elf, '-f', '-C', '-i', '-p', '-a', ...addresses.map(address => `0x${hex(address)}`)],
+			{ timeout: 120000, maxBuffer: 16 * 1024 * 1024 },
+			(error, stdout, stderr) => {
+				if (error) {
+					reject(new Error(`${path.basename(addr2line)} failed on ${path.basename(elf)}: ${stderr || error.message}`));
+				} else {
+					resolve(parseAddr2lineOutput(stdout));
+				}
+			});
+	});
+}
+
+/**
+ * The backtrace with source locations. Stack words that do not resolve to
+ * a function are not return addresses and are left out.
+ */
+export async function symbolizeBacktrace(dump: CrashDump, addr2line: string, elf: string): Promise<BacktraceFrame[]> {
+	const candidates = backtraceCandidates(dump);
+	const locations = await runAddr2line(addr2line, elf, [...new Set(candidates.map(candidate => lookupAddress(candidate.address, candidate.origin)))]);
+	const frames: BacktraceFrame[] = [];
+	for (const candidate of candidates) {
+		const resolved = locations.get(lookupAddress(candidate.address, candidate.origin)) ?? [];
+		if (candidate.origin === 'PC' || resolved.length > 0) {
+			frames.push({ address: candidate.address, origin: candidate.origin, locations: resolved });
+		}
+		if (frames.length >= MAX_BACKTRACE) {
+			break;
+		}
+	}
+	return frames;
+}
@@ -0,0 +1,403 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { apLog } from './apLog';
+import { ProgramUtils } from './apProgramUtils';
+import { TOOLS_REGISTRY } from './apToolsConfig';
+import { activeConfiguration } from './apActions';
+import type { ArdupilotTaskDefinition } from './taskProvider';
+import {
+	BacktraceFrame,
+	CORE_REGISTERS,
+	FaultSummary,
+	parseCrashDump,
+	readWord,
+	summarizeFault,
+	symbolizeBacktrace
+} from './apCrashDump';
+import { apWorkspace } from './apWorkspace';
+
+export interface CrashDumpState {
+	title: string;
+	dumpFile: string;
+	elfFile: string;
+	loading: boolean;
+	error?: string;
+	version?: string;
+	fault?: FaultSummary;
+	registers: { name: string; value: number }[];
+	backtrace: BacktraceFrame[];
+	// words from the stack pointer up, with the function of those in the backtrace
+	stack: { address: number; value: number; function?: string }[];
+	// CrashDebug and Cortex-Debug are available to load the dump in the debugger
+	canDebug: boolean;
+}
+
+const STACK_WORDS = 64;
+
+/**
+ * Decoded crash dump of a ChibiOS board with a symbolised backtrace
+ */
+export class apCrashDumpPanel {
+	public static currentPanel: apCrashDumpPanel | undefined;
+
+	public static readonly viewType = 'apCrashDumpPanel';
+	private static log = new apLog('apCrashDumpPanel').log;
+
+	private readonly _panel: vscode.WebviewPanel;
+	private readonly _extensionUri: vscode.Uri;
+	private _disposables: vscode.Disposable[] = [];
+	private _state: CrashDumpState;
+
+	/**
+	 * Asks for the crash dump, unless given one e.g. from the explorer, and the
+	 * ELF it came from, then decodes it
+	 */
+	public static async decode(extensionUri: vscode.Uri, dumpUri?: vscode.Uri, elfFile?: string): Promise<apCrashDumpPanel | undefined> {
+		const dumpFile = dumpUri?.fsPath ?? (await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			title: 'Crash dump, e.g. crash_dump.bin from @SYS',
+			filters: { 'Crash dumps': ['bin', 'txt', 'log'], 'All files': ['*'] }
+		}))?.[0]?.fsPath;
+		if (!dumpFile) {
+			return undefined;
+		}
+		const elf = elfFile ?? await apCrashDumpPanel._pickElf();
+		if (!elf) {
+			return undefined;
+		}
+		return apCrashDumpPanel.createOrShow(extensionUri, dumpFile, elf);
+	}
+
+	public static createOrShow(extensionUri: vscode.Uri, dumpFile: string, elfFile: string): apCrashDumpPanel {
+		if (apCrashDumpPanel.currentPanel) {
+			const existing = apCrashDumpPanel.currentPanel;
+			existing._panel.reveal();
+			existing._state = apCrashDumpPanel._initialState(dumpFile, elfFile);
+			void existing.reload();
+			return existing;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			apCrashDumpPanel.viewType,
+			'Crash Dump',
+			vscode.ViewColumn.One,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true
+			}
+		);
+
+		apCrashDumpPanel.log(`Decoding ${dumpFile} with ${elfFile}`);
+		apCrashDumpPanel.currentPanel = new apCrashDumpPanel(panel, extensionUri, dumpFile, elfFile);
+		void apCrashDumpPanel.currentPanel.reload();
+		return apCrashDumpPanel.currentPanel;
+	}
+
+	private static _initialState(dumpFile: string, elfFile: string): CrashDumpState {
+		return {
+			title: path.basename(dumpFile),
+			dumpFile,
+			elfFile,
+			loading: false,
+			registers: [],
+			backtrace: [],
+			stack: [],
+			canDebug: false
+		};
+	}
+
+	/**
+	 * ELF files of the boards built in the selected folder, the active
+	 * configuration's first, plus browsing for one
+	 */
+	private static async _pickElf(): Promise<string | undefined> {
+		const workspaceRoot = apWorkspace.rootPath;
+		const activeBoard = (activeConfiguration?.definition as ArdupilotTaskDefinition | undefined)?.configure;
+		const items: (vscode.QuickPickItem & { file?: string })[] = [];
+		const buildDir = workspaceRoot ? path.join(workspaceRoot, 'build') : undefined;
+		if (buildDir && fs.existsSync(buildDir)) {
+			for (const board of fs.readdirSync(buildDir).sort((a, b) => Number(b === activeBoard) - Number(a === activeBoard))) {
+				const binDir = path.join(buildDir, board, 'bin');
+				if (board.toLowerCase().includes('sitl') || !fs.existsSync(binDir)) {
+					continue;
+				}
+				for (const name of fs.readdirSync(binDir).filter(file => isElf(path.join(binDir, file)))) {
+					items.push({ label: `${board}/${name}`, description: board === activeBoard ? 'active configuration' : undefined, file: path.join(binDir, name) });
+				}
+			}
+		}
+		items.push({ label: '$(folder-opened) Browse for an ELF file...' });
+		const picked = items.length === 1 ? items[0] : await vscode.window.showQuickPick(items, { placeHolder: 'Firmware ELF the crash dump came from' });
+		if (!picked) {
+			return undefined;
+		}
+		if (picked.file) {
+			return picked.file;
+		}
+		const uris = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			defaultUri: buildDir ? vscode.Uri.file(buildDir) : undefined,
+			title: 'Firmware ELF the crash dump came from'
+		});
+		return uris?.[0]?.fsPath;
+	}
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, dumpFile: string, elfFile: string) {
+		this._panel = panel;
+		this._extensionUri = extensionUri;
+		this._state = apCrashDumpPanel._initialState(dumpFile, elfFile);
+
+		this._panel.webview.html = this._getWebviewContent(this._panel.webview);
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+		this._panel.webview.onDidReceiveMessage(
+			message => this._onReceiveMessage(message),
+			null,
+			this._disposables
+		);
+	}
+
+	public get state(): CrashDumpState {
+		return this._state;
+	}
+
+	/**
+	 * Decodes the dump and symbolises it against the ELF
+	 */
+	public async reload(): Promise<void> {
+		const { dumpFile, elfFile } = this._state;
+		this._panel.title = `Crash Dump - ${path.basename(dumpFile)}`;
+		this._state = { ...apCrashDumpPanel._initialState(dumpFile, elfFile), loading: true };
+		this._postState();
+		try {
+			const dump = parseCrashDump(fs.readFileSync(dumpFile));
+			this._state.version = dump.version;
+			this._state.fault = summarizeFault(dump);
+			this._state.registers = [
+				...CORE_REGISTERS.map(name => ({ name, value: dump.registers[name] })),
+				{ name: 'msp', value: dump.msp },
+				{ name: 'psp', value: dump.psp },
+				{ name: 'exc_psr', value: dump.exceptionPsr }
+			];
+
+			const addr2line = await ProgramUtils.binutil(this._boardOf(elfFile), 'addr2line') ?? 'arm-none-eabi-addr2line';
+			this._state.backtrace = await symbolizeBacktrace(dump, addr2line, elfFile);
+			const functions = new Map(this._state.backtrace.map(frame => [frame.address, frame.locations[0]?.function]));
+			for (let slot = 0; slot < STACK_WORDS; slot++) {
+				const address = dump.registers.sp + slot * 4;
+				const value = readWord(dump, address);
+				if (value === undefined) {
+					break;
+				}
+				this._state.stack.push({ address, value, function: functions.get(value) });
+			}
+			this._state.canDebug = !!this._findCrashDebug() && !!vscode.extensions.getExtension('marus25.cortex-debug');
+			apCrashDumpPanel.log(`Decoded ${dumpFile}: ${this._state.fault.exception}, ${this._state.backtrace.length} frames`);
+		} catch (error) {
+			this._state.error = error instanceof Error ? error.message : String(error);
+			apCrashDumpPanel.log(`Failed to decode ${dumpFile}: ${this._state.error}`);
+		}
+		this._state.loading = false;
+		this._postState();
+	}
+
+	// board directory of build/<board>/bin/<elf>, used to pick the toolchain
+	private _boardOf(elfFile: string): string {
+		return path.basename(path.dirname(path.dirname(elfFile)));
+	}
+
+	private async _onReceiveMessage(message: { command: string, file?: string, line?: number }): Promise<void> {
+		switch (message.command) {
+		case 'getState':
+			this._postState('getState');
+			break;
+		case 'reload':
+			await this.reload();
+			break;
+		case 'openSource':
+			await this._openSource(message.file, message.line);
+			break;
+		case 'debug':
+			await this._loadInDebugger();
+			break;
+		case 'error':
+			apCrashDumpPanel.log(`Error from webview: ${JSON.stringify(message)}`);
+			break;
+		default:
+			void this._panel.webview.postMessage({ command: message.command, response: 'Bad Request' });
+			break;
+		}
+	}
+
+	private _postState(command = 'crashDump'): void {
+		void this._panel.webview.postMessage({ command, state: this._state });
+	}
+
+	/**
+	 * Source paths from the debug info are where the firmware was built,
+	 * usually relative to build/<board> or on another machine; look for the
+	 * same file in the selected folder
+	 */
+	private _resolveSource(file: string): string | undefined {
+		const workspaceRoot = apWorkspace.rootPath;
+		if (path.isAbsolute(file) && fs.existsSync(file)) {
+			return file;
+		}
+		if (!workspaceRoot) {
+			return undefined;
+		}
+		const fromBuild = path.resolve(path.dirname(path.dirname(this._state.elfFile)), file);
+		if (fs.existsSync(fromBuild)) {
+			return fromBuild;
+		}
+		const segments = path.normalize(file).split(/[\\/]/).filter(segment => segment && segment !== '..' && segment !== '.');
+		for (let start = 0; start < segments.length; start++) {
+			const candidate = path.join(workspaceRoot, ...segments.slice(start));
+			if (fs.existsSync(candidate)) {
+				return candidate;
+			}
+		}
+		return undefined;
+	}
+
+	private async _openSource(file: string | undefined, line: number | undefined): Promise<void> {
+		if (!file) {
+			return;
+		}
+		const fullPath = this._resolveSource(file);
+		if (!fullPath) {
+			vscode.window.showWarningMessage(`${file} not found`);
+			return;
+		}
+		const position = new vscode.Position(Math.max(0, (line ?? 1) - 1), 0);
+		await vscode.window.showTextDocument(vscode.Uri.file(fullPath), {
+			viewColumn: vscode.ViewColumn.Beside,
+			selection: new vscode.Range(position, position)
+		});
+	}
+
+	// CrashDebug from the ArduPilot CrashDebug submodule, else from the PATH
+	private _findCrashDebug(): string | undefined {
+		const workspaceRoot = apWorkspace.rootPath;
+		const bins = workspaceRoot ? path.join(workspaceRoot, 'modules', 'CrashDebug', 'bins') : undefined;
+		const executable = process.platform === 'win32' ? 'CrashDebug.exe' : 'CrashDebug';
+		const platformDirs: Record<string, string[]> = { linux: ['lin64'], darwin: ['osx64', 'osx'], win32: ['win32', 'win64'] };
+		if (bins) {
+			for (const dir of platformDirs[process.platform] ?? []) {
+				const candidate = path.join(bins, dir, executable);
+				if (fs.existsSync(candidate)) {
+					return candidate;
+				}
+			}
+		}
+		return (process.env.PATH ?? '').split(path.delimiter).map(dir => path.join(dir, executable)).find(candidate => fs.existsSync(candidate));
+	}
+
+	/**
+	 * Starts Cortex-Debug on CrashDebug, which serves the registers and
+	 * memory of the dump to GDB as if the board were halted at the fault
+	 */
+	private async _loadInDebugger(): Promise<void> {
+		const crashDebug = this._findCrashDebug();
+		if (!crashDebug) {
+			vscode.window.showErrorMessage('CrashDebug not found, update the modules/CrashDebug submodule or put CrashDebug on the PATH.');
+			return;
+		}
+		if (!vscode.extensions.getExtension('marus25.cortex-debug')) {
+			vscode.window.showErrorMessage('Install the Cortex-Debug extension to load crash dumps in the debugger.');
+			return;
+		}
+		const armGdb = await ProgramUtils.findProgram(TOOLS_REGISTRY.ARM_GDB);
+		const { dumpFile, elfFile } = this._state;
+		const config: vscode.DebugConfiguration = {
+			name: `Crash Dump - ${path.basename(dumpFile)}`,
+			type: 'cortex-debug',
+			request: 'attach',
+			servertype: 'external',
+			gdbTarget: `| "${crashDebug}" --elf "${elfFile}" --dump "${dumpFile}"`,
+			executable: elfFile,
+			cwd: apWorkspace.rootPath,
+			gdbPath: armGdb.available && armGdb.path ? armGdb.path : undefined
+		};
+		apCrashDumpPanel.log(`Loading ${dumpFile} in the debugger with ${crashDebug}`);
+		await vscode.debug.startDebugging(apWorkspace.folder, config);
+	}
+
+	private _getWebviewContent(webview: vscode.Webview): string {
+		const stylesUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'crash-dump.css']);
+		const scriptUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'crash-dump.js']);
+		const sourceMapUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'crash-dump.js.map']);
+
+		return /*html*/ `
+			<!DOCTYPE html>
+			<html lang="en">
+				<head>
+					<title>Crash Dump - ArduPilot DevEnv</title>
+					<meta charset="UTF-8" />
+					<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+					<meta http-equiv="Content-Security-Policy" content="default-src 'none';
+																		style-src ${webview.cspSource};
+																		script-src ${webview.cspSource} 'unsafe-eval' 'unsafe-inline';
+																		connect-src ${webview.cspSource} vscode-resource: vscode-webview-resource: https:;">
+					<link href="${stylesUri}" rel="stylesheet">
+					<script>
+						// Make source map URL available to our error handler
+						window.SOURCE_MAP_URL = "${sourceMapUri}";
+					</script>
+					<script type="module" src="${scriptUri}"></script>
+				</head>
+				<body>
+					<div id="crash-dump"></div>
+				</body>
+			</html>
+		`;
+	}
+
+	public dispose(): void {
+		if (apCrashDumpPanel.currentPanel !== this) {
+			return;
+		}
+		apCrashDumpPanel.currentPanel = undefined;
+		this._panel.dispose();
+		while (this._disposables.length) {
+			const disposable = this._disposables.pop();
+			if (disposable) {
+				disposable.dispose();
+			}
+		}
+	}
+}
+
+function isElf(file: string): boolean {
+	try {
+		const fd = fs.openSync(file, 'r');
+		try {
+			const magic = Buffer.alloc(4);
+			return fs.readSync(fd, magic, 0, 4, 0) === 4 && magic.equals(Buffer.from([0x7F, 0x45, 0x4C, 0x46]));
+		} finally {
+			fs.closeSync(fd);
+		}
+	} catch {
+		return false;
+	}
+}
+
+function getUri(webview: vscode.Webview, extensionUri: vscode.Uri, pathList: string[]): vscode.Uri {
+	return webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...pathList));
+}
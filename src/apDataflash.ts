@@ -0,0 +1,562 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+export type DataflashValue = number | string;
+
+export interface DataflashField {
+	name: string;
+	// format character, e.g. f for float or Q for uint64
+	type: string;
+	unit?: string;
+	multiplier?: number;
+}
+
+export interface DataflashFormat {
+	type: number;
+	name: string;
+	// length of the whole message, including the 3 byte header
+	length: number;
+	format: string;
+	fields: DataflashField[];
+	// field telling apart multiple sensors of the same kind, e.g. BARO[1]
+	instanceField?: number;
+}
+
+export interface DataflashMessages {
+	format: DataflashFormat;
+	// one array of values per field, in field order
+	columns: DataflashValue[][];
+	count: number;
+}
+
+export interface DataflashLog {
+	messages: Map<string, DataflashMessages>;
+	// bytes skipped because they did not start a known message
+	corruptBytes: number;
+}
+
+export interface DataflashSeries {
+	// seconds since boot
+	time: number[];
+	values: number[];
+}
+
+export interface DataflashParameter {
+	name: string;
+	value: number;
+	default?: number;
+	// times the value was set after it was first logged
+	changes: number;
+}
+
+export interface DataflashSummary {
+	firmware?: string;
+	startUS?: number;
+	endUS?: number;
+	parameters: DataflashParameter[];
+	messages: { timeUS: number; text: string }[];
+	modes: { timeUS: number; mode: number; reason?: number }[];
+	events: { timeUS: number; id: number; name: string }[];
+	errors: { timeUS: number; subsystem: number; code: number; description: string }[];
+}
+
+const HEAD1 = 0xA3;
+const HEAD2 = 0x95;
+
+// FMT describes every other message type, including itself
+const FMT_FORMAT: DataflashFormat = {
+	type: 128,
+	name: 'FMT',
+	length: 89,
+	format: 'BBnNZ',
+	fields: ['Type', 'Length', 'Name', 'Format', 'Columns'].map((name, i) => ({ name, type: 'BBnNZ'[i] }))
+};
+
+const FIELD_SIZES: Record<string, number> = {
+	a: 64, b: 1, B: 1, h: 2, H: 2, i: 4, I: 4, f: 4, d: 8, n: 4, N: 16, Z: 64,
+	c: 2, C: 2, e: 4, E: 4, L: 4, M: 1, q: 8, Q: 8
+};
+
+// format characters stored as scaled integers, already converted when decoded
+const FIELD_SCALES: Record<string, number> = { c: 0.01, C: 0.01, e: 0.01, E: 0.01, L: 1e-7 };
+
+const STRING_TYPES = 'nNZa';
+
+// unit and multiplier characters of FMTU, from AP_Logger/LogStructure.h
+const UNITS: Record<string, string> = {
+	'-': '', '?': '', A: 'A', a: 'Ah', d: 'deg', b: 'B', B: 'B/s', k: 'deg/s', D: 'deglatitude',
+	e: 'deg/s/s', E: 'rad/s', G: 'Gauss', h: 'degheading', i: 'A.s', J: 'W.s', l: 'l', L: 'rad/s/s',
+	m: 'm', n: 'm/s', N: 'N', o: 'm/s/s', O: 'degC', '%': '%', S: 'satellites', s: 's', q: 'rpm',
+	r: 'rad', U: 'deglongitude', u: 'ppm', v: 'V', P: 'Pa', w: 'Ohm', W: 'Watt', X: 'W.h',
+	y: 'l/s', Y: 'us', z: 'Hz', '#': 'instance'
+};
+
+const MULTIPLIERS: Record<string, number> = {
+	'-': 0, '?': 1, '2': 1e2, '1': 1e1, '0': 1, A: 1e-1, B: 1e-2, C: 1e-3, D: 1e-4, E: 1e-5,
+	F: 1e-6, G: 1e-7, I: 1e-9, '!': 3.6, '/': 3600
+};
+
+// LogEvent from AP_Logger/AP_Logger.h
+const EVENT_NAMES: Record<number, string> = {
+	10: 'Armed', 11: 'Disarmed', 15: 'Auto armed', 17: 'Land complete maybe', 18: 'Land complete',
+	19: 'Lost GPS', 21: 'Flip start', 22: 'Flip end', 25: 'Set home', 26: 'Simple on', 27: 'Simple off',
+	28: 'Not landed', 29: 'Super simple on', 30: 'Autotune initialised', 31: 'Autotune off',
+	32: 'Autotune restart', 33: 'Autotune success', 34: 'Autotune failed', 35: 'Autotune reached limit',
+	36: 'Autotune pilot testing', 37: 'Autotune saved gains', 38: 'Save trim', 39: 'Save waypoint',
+	41: 'Fence enabled', 42: 'Fence disabled', 43: 'Acro trainer off', 44: 'Acro trainer leveling',
+	45: 'Acro trainer limited', 46: 'Gripper grab', 47: 'Gripper release', 49: 'Parachute disabled',
+	50: 'Parachute enabled', 51: 'Parachute released', 52: 'Landing gear deployed',
+	53: 'Landing gear retracted', 54: 'Motors emergency stopped', 55: 'Motors emergency stop cleared',
+	56: 'Motor interlock disabled', 57: 'Motor interlock enabled', 58: 'Rotor runup complete',
+	59: 'Rotor speed below critical', 60: 'EKF altitude reset', 61: 'Land cancelled by pilot',
+	62: 'EKF yaw reset', 63: 'ADSB avoidance enabled', 64: 'ADSB avoidance disabled',
+	65: 'Proximity avoidance enabled', 66: 'Proximity avoidance disabled', 67: 'GPS primary changed',
+	71: 'ZigZag store A', 72: 'ZigZag store B', 73: 'Land reposition active', 74: 'Standby enabled',
+	75: 'Standby disabled', 80: 'Fence floor enabled', 81: 'Fence floor disabled',
+	85: 'EKF sources set to primary', 86: 'EKF sources set to secondary',
+	87: 'EKF sources set to tertiary', 90: 'Airspeed primary changed', 163: 'Surfaced',
+	164: 'Not surfaced', 165: 'Bottom reached', 166: 'Not bottom'
+};
+
+// LogErrorSubsystem from AP_Logger/AP_Logger.h
+const ERROR_SUBSYSTEMS: Record<number, string> = {
+	1: 'Main', 2: 'Radio', 3: 'Compass', 4: 'Optical flow', 5: 'Radio failsafe', 6: 'Battery failsafe',
+	7: 'GPS failsafe', 8: 'GCS failsafe', 9: 'Fence failsafe', 10: 'Flight mode', 11: 'GPS',
+	12: 'Crash check', 13: 'Flip', 14: 'Autotune', 15: 'Parachutes', 16: 'EKF check',
+	17: 'EKF failsafe', 18: 'Baro', 19: 'CPU', 20: 'ADSB failsafe', 21: 'Terrain', 22: 'Navigation',
+	23: 'Terrain failsafe', 24: 'EKF primary', 25: 'Thrust loss', 26: 'Sensors failsafe',
+	27: 'Leak failsafe', 28: 'Pilot input', 29: 'Vibration failsafe', 30: 'Internal error',
+	31: 'Dead reckoning failsafe'
+};
+
+/**
+ * Reads a DataFlash log, either the binary .bin written by the autopilot or the
+ * text .log produced by converting one
+ */
+export function parseDataflashLog(data: Uint8Array): DataflashLog {
+	const log = data.length >= 2 && data[0] === HEAD1 && data[1] === HEAD2
+		? parseBinary(data)
+		: parseText(new TextDecoder('latin1').decode(data));
+	applyUnits(log);
+	return log;
+}
+
+function createMessages(log: DataflashLog, format: DataflashFormat): DataflashMessages {
+	const messages = { format, columns: format.fields.map(() => []), count: 0 };
+	log.messages.set(format.name, messages);
+	return messages;
+}
+
+function parseFormatColumns(type: number, length: number, name: string, format: string, columns: string): DataflashFormat {
+	const names = columns.split(',').map(column => column.trim());
+	return {
+		type,
+		name,
+		length,
+		format,
+		fields: [...format].map((char, i) => ({ name: names[i] ?? `Field${i}`, type: char }))
+	};
+}
+
+function readString(data: Uint8Array, start: number, size: number): string {
+	let text = '';
+	for (let i = start; i < start + size && data[i] !== 0; i++) {
+		text += String.fromCharCode(data[i]);
+	}
+	return text;
+}
+
+function readField(view: DataView, data: Uint8Array, offset: number, type: string): DataflashValue {
+	switch (type) {
+	case 'b': return view.getInt8(offset);
+	case 'B': case 'M': return view.getUint8(offset);
+	case 'h': return view.getInt16(offset, true);
+	case 'H': return view.getUint16(offset, true);
+	case 'i': return view.getInt32(offset, true);
+	case 'I': return view.getUint32(offset, true);
+	case 'f': return view.getFloat32(offset, true);
+	case 'd': return view.getFloat64(offset, true);
+	case 'q': return Number(view.getBigInt64(offset, true));
+	case 'Q': return Number(view.getBigUint64(offset, true));
+	case 'c': return view.getInt16(offset, true) * FIELD_SCALES.c;
+	case 'C': return view.getUint16(offset, true) * FIELD_SCALES.C;
+	case 'e': return view.getInt32(offset, true) * FIELD_SCALES.e;
+	case 'E': return view.getUint32(offset, true) * FIELD_SCALES.E;
+	case 'L': return view.getInt32(offset, true) * FIELD_SCALES.L;
+	case 'a': {
+		const values: number[] = [];
+		for (let i = 0; i < 32; i++) {
+			values.push(view.getInt16(offset + i * 2, true));
+		}
+		return values.join(' ');
+	}
+	default:
+		return readString(data, offset, FIELD_SIZES[type] ?? 0);
+	}
+}
+
+function parseBinary(data: Uint8Array): DataflashLog {
+	const log: DataflashLog = { messages: new Map(), corruptBytes: 0 };
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const byType = new Map<number, DataflashMessages>([[FMT_FORMAT.type, createMessages(log, FMT_FORMAT)]]);
+	// field offsets within the message of each type, worked out once
+	const offsets = new Map<number, number[]>();
+
+	let offset = 0;
+	while (offset + 3 <= data.length) {
+		const messages = data[offset] === HEAD1 && data[offset + 1] === HEAD2 ? byType.get(data[offset + 2]) : undefined;
+		if (!messages) {
+			log.corruptBytes++;
+			offset++;
+			continue;
+		}
+		const format = messages.format;
+		if (offset + format.length > data.length) {
+			// the log was cut off in the middle of a message
+			log.corruptBytes += data.length - offset;
+			break;
+		}
+		let fieldOffsets = offsets.get(format.type);
+		if (!fieldOffsets) {
+			fieldOffsets = [];
+			let position = 3;
+			for (const field of format.fields) {
+				fieldOffsets.push(position);
+				position += FIELD_SIZES[field.type] ?? 0;
+			}
+			offsets.set(format.type, fieldOffsets);
+		}
+		const values = format.fields.map((field, i) => readField(view, data, offset + (fieldOffsets?.[i] ?? 0), field.type));
+		values.forEach((value, i) => messages.columns[i].push(value));
+		messages.count++;
+
+		if (format.type === FMT_FORMAT.type) {
+			const described = parseFormatColumns(values[0] as number, values[1] as number, values[2] as string, values[3] as string, values[4] as string);
+			if (!byType.has(described.type)) {
+				byType.set(described.type, createMessages(log, described));
+			}
+		}
+		offset += format.length;
+	}
+	return log;
+}
+
+function parseTextValue(text: string, type: string): DataflashValue {
+	if (STRING_TYPES.includes(type)) {
+		return text;
+	}
+	const value = Number(text);
+	return Number.isNaN(value) ? text : value;
+}
+
+function parseText(content: string): DataflashLog {
+	const log: DataflashLog = { messages: new Map(), corruptBytes: 0 };
+	for (const line of content.split(/\r?\n/)) {
+		const parts = line.split(',').map(part => part.trim());
+		if (parts.length < 2) {
+			continue;
+		}
+		if (parts[0] === 'FMT' && parts.length >= 5) {
+			// Type, Length, Name, Format, then the comma separated column names
+			const format = parseFormatColumns(Number(parts[1]), Number(parts[2]), parts[3], parts[4], parts.slice(5).join(','));
+			if (format.name !== FMT_FORMAT.name && !log.messages.has(format.name)) {
+				createMessages(log, format);
+			}
+			const messages = log.messages.get(FMT_FORMAT.name) ?? createMessages(log, FMT_FORMAT);
+			[format.type, format.length, format.name, format.format, parts.slice(5).join(',')]
+				.forEach((value, i) => messages.columns[i].push(value));
+			messages.count++;
+			continue;
+		}
+		const messages = log.messages.get(parts[0]);
+		if (!messages) {
+			log.corruptBytes += line.length;
+			continue;
+		}
+		const fields = messages.format.fields;
+		let values = parts.slice(1);
+		if (values.length > fields.length && fields.length > 0 && STRING_TYPES.includes(fields[fields.length - 1].type)) {
+			// commas inside the text of the last field
+			values = [...values.slice(0, fields.length - 1), values.slice(fields.length - 1).join(', ')];
+		}
+		fields.forEach((field, i) => messages.columns[i].push(parseTextValue(values[i] ?? '', field.type)));
+		messages.count++;
+	}
+	return log;
+}
+
+function column(messages: DataflashMessages | undefined, name: string): DataflashValue[] | undefined {
+	const index = messages?.format.fields.findIndex(field => field.name === name) ?? -1;
+	return index >= 0 ? messages?.columns[index] : undefined;
+}
+
+// names and multipliers of each field from the FMTU, UNIT and MULT messages
+function applyUnits(log: DataflashLog): void {
+	const units = new Map<string, string>();
+	const unitMessages = log.messages.get('UNIT');
+	column(unitMessages, 'Id')?.forEach((id, i) => units.set(String.fromCharCode(id as number), String(column(unitMessages, 'Label')?.[i] ?? '')));
+	const multipliers = new Map<string, number>();
+	const multMessages = log.messages.get('MULT');
+	column(multMessages, 'Id')?.forEach((id, i) => multipliers.set(String.fromCharCode(id as number), Number(column(multMessages, 'Mult')?.[i])));
+
+	const byType = new Map([...log.messages.values()].map(messages => [messages.format.type, messages.format]));
+	const fmtu = log.messages.get('FMTU');
+	column(fmtu, 'FmtType')?.forEach((type, i) => {
+		const format = byType.get(type as number);
+		const unitIds = String(column(fmtu, 'UnitIds')?.[i] ?? '');
+		const multIds = String(column(fmtu, 'MultIds')?.[i] ?? '');
+		format?.fields.forEach((field, j) => {
+			const unitId = unitIds[j];
+			if (unitId === '#') {
+				format.instanceField = j;
+			}
+			const unit = units.get(unitId) ?? UNITS[unitId];
+			if (unit && unitId !== '#') {
+				field.unit = unit;
+			}
+			const multiplier = multipliers.get(multIds[j]) ?? MULTIPLIERS[multIds[j]];
+			if (multiplier !== undefined && multiplier !== 0 && multiplier !== 1) {
+				field.multiplier = multiplier;
+			}
+		});
+	});
+}
+
+function timeColumn(messages: DataflashMessages): { values: DataflashValue[]; scale: number } | undefined {
+	const timeUS = column(messages, 'TimeUS');
+	if (timeUS) {
+		return { values: timeUS, scale: 1 };
+	}
+	const timeMS = column(messages, 'TimeMS');
+	return timeMS ? { values: timeMS, scale: 1000 } : undefined;
+}
+
+/**
+ * Boot time in microseconds of each message of a type
+ */
+export function dataflashTimeUS(messages: DataflashMessages): number[] {
+	const time = timeColumn(messages);
+	return time ? time.values.map(value => Number(value) * time.scale) : [];
+}
+
+/**
+ * Values of a field as they should be shown: integer fields with a multiplier in
+ * FMTU are converted to the unit, e.g. centimetres to metres
+ */
+export function dataflashDisplayValue(field: DataflashField, value: DataflashValue): DataflashValue {
+	if (typeof value !== 'number' || field.multiplier === undefined || field.type in FIELD_SCALES
+		|| 'fd'.includes(field.type) || field.name === 'TimeUS' || field.name === 'TimeMS') {
+		return value;
+	}
+	return value * field.multiplier;
+}
+
+export function isNumericField(field: DataflashField): boolean {
+	return !STRING_TYPES.includes(field.type);
+}
+
+/**
+ * Instances logged for a message type with an instance field, e.g. [0, 1] for two barometers
+ */
+export function dataflashInstances(messages: DataflashMessages): number[] {
+	if (messages.format.instanceField === undefined) {
+		return [];
+	}
+	return [...new Set(messages.columns[messages.format.instanceField].map(Number))].sort((a, b) => a - b);
+}
+
+// indexes of the messages of one instance, or all of them
+function instanceIndexes(messages: DataflashMessages, instance?: number): number[] {
+	const instances = messages.format.instanceField !== undefined ? messages.columns[messages.format.instanceField] : undefined;
+	const indexes: number[] = [];
+	for (let i = 0; i < messages.count; i++) {
+		if (instance === undefined || !instances || Number(instances[i]) === instance) {
+			indexes.push(i);
+		}
+	}
+	return indexes;
+}
+
+/**
+ * Keeps the lowest and highest value of each bucket so peaks survive when a
+ * long series is reduced to a plottable number of points
+ */
+export function downsampleSeries(series: DataflashSeries, maxPoints: number): DataflashSeries {
+	const length = series.time.length;
+	if (length <= maxPoints || maxPoints < 2) {
+		return series;
+	}
+	const buckets = Math.floor(maxPoints / 2);
+	const result: DataflashSeries = { time: [], values: [] };
+	for (let bucket = 0; bucket < buckets; bucket++) {
+		const start = Math.floor(bucket * length / buckets);
+		const end = Math.floor((bucket + 1) * length / buckets);
+		let min = start;
+		let max = start;
+		for (let i = start + 1; i < end; i++) {
+			if (series.values[i] < series.values[min]) {
+				min = i;
+			}
+			if (series.values[i] > series.values[max]) {
+				max = i;
+			}
+		}
+		for (const i of min === max ? [min] : [Math.min(min, max), Math.max(min, max)]) {
+			result.time.push(series.time[i]);
+			result.values.push(series.values[i]);
+		}
+	}
+	return result;
+}
+
+/**
+ * A numeric field over time, optionally limited to one instance and a time range
+ * @param range start and end in seconds since boot
+ */
+export function dataflashSeries(log: DataflashLog, name: string, fieldName: string, options: {
+	instance?: number;
+	range?: [number, number];
+	maxPoints?: number;
+} = {}): DataflashSeries {
+	const messages = log.messages.get(name);
+	const index = messages?.format.fields.findIndex(field => field.name === fieldName) ?? -1;
+	if (!messages || index < 0) {
+		return { time: [], values: [] };
+	}
+	const field = messages.format.fields[index];
+	const timeUS = dataflashTimeUS(messages);
+	const series: DataflashSeries = { time: [], values: [] };
+	for (const i of instanceIndexes(messages, options.instance)) {
+		const time = timeUS[i] / 1e6;
+		const value = Number(dataflashDisplayValue(field, messages.columns[index][i]));
+		if (Number.isNaN(value) || (options.range && (time < options.range[0] || time > options.range[1]))) {
+			continue;
+		}
+		series.time.push(time);
+		series.values.push(value);
+	}
+	return options.maxPoints ? downsampleSeries(series, options.maxPoints) : series;
+}
+
+/**
+ * A page of messages for the table view
+ * @param startUS when given, the page starts at the first message logged at or after it
+ */
+export function dataflashRows(log: DataflashLog, name: string, offset: number, limit: number, options: {
+	instance?: number;
+	startUS?: number;
+} = {}): { offset: number; total: number; rows: DataflashValue[][] } {
+	const messages = log.messages.get(name);
+	if (!messages) {
+		return { offset: 0, total: 0, rows: [] };
+	}
+	const indexes = instanceIndexes(messages, options.instance);
+	if (options.startUS !== undefined) {
+		const timeUS = dataflashTimeUS(messages);
+		const found = indexes.findIndex(i => timeUS[i] >= (options.startUS ?? 0));
+		offset = found >= 0 ? found : Math.max(indexes.length - 1, 0);
+	}
+	offset = Math.max(0, Math.min(offset, indexes.length));
+	const rows = indexes.slice(offset, offset + limit).map(i =>
+		messages.format.fields.map((field, j) => dataflashDisplayValue(field, messages.columns[j][i])));
+	return { offset, total: indexes.length, rows };
+}
+
+export function eventName(id: number): string {
+	return EVENT_NAMES[id] ?? `Event ${id}`;
+}
+
+export function errorDescription(subsystem: number, code: number): string {
+	const name = ERROR_SUBSYSTEMS[subsystem] ?? `Subsystem ${subsystem}`;
+	if (code === 0) {
+		return `${name}: resolved`;
+	}
+	return name.endsWith('failsafe') && code === 1 ? `${name}: triggered` : `${name}: error ${code}`;
+}
+
+/**
+ * Parameters, messages, flight modes, events and errors of a log
+ */
+export function summarizeDataflashLog(log: DataflashLog): DataflashSummary {
+	const summary: DataflashSummary = { parameters: [], messages: [], modes: [], events: [], errors: [] };
+
+	for (const messages of log.messages.values()) {
+		const timeUS = dataflashTimeUS(messages).filter(time => time > 0);
+		if (timeUS.length > 0) {
+			summary.startUS = Math.min(summary.startUS ?? Infinity, timeUS[0]);
+			summary.endUS = Math.max(summary.endUS ?? 0, timeUS[timeUS.length - 1]);
+		}
+	}
+
+	const parm = log.messages.get('PARM');
+	const parameters = new Map<string, DataflashParameter>();
+	column(parm, 'Name')?.forEach((name, i) => {
+		const value = Number(column(parm, 'Value')?.[i]);
+		const defaultValue = column(parm, 'Default')?.[i];
+		const existing = parameters.get(String(name));
+		if (existing) {
+			if (existing.value !== value) {
+				existing.value = value;
+				existing.changes++;
+			}
+			return;
+		}
+		parameters.set(String(name), {
+			name: String(name),
+			value,
+			default: defaultValue === undefined ? undefined : Number(defaultValue),
+			changes: 0
+		});
+	});
+	summary.parameters = [...parameters.values()].sort((a, b) => a.name.localeCompare(b.name));
+
+	const msg = log.messages.get('MSG');
+	if (msg) {
+		const timeUS = dataflashTimeUS(msg);
+		summary.messages = (column(msg, 'Message') ?? []).map((text, i) => ({ timeUS: timeUS[i], text: String(text) }));
+		summary.firmware = summary.messages.find(message => /^(Ardu|APM:|Antenna)/.test(message.text))?.text;
+	}
+
+	const mode = log.messages.get('MODE');
+	if (mode) {
+		const timeUS = dataflashTimeUS(mode);
+		const reasons = column(mode, 'Rsn');
+		summary.modes = (column(mode, 'ModeNum') ?? column(mode, 'Mode') ?? []).map((value, i) => ({
+			timeUS: timeUS[i],
+			mode: Number(value),
+			reason: reasons ? Number(reasons[i]) : undefined
+		}));
+	}
+
+	const ev = log.messages.get('EV');
+	if (ev) {
+		const timeUS = dataflashTimeUS(ev);
+		summary.events = (column(ev, 'Id') ?? []).map((id, i) => ({ timeUS: timeUS[i], id: Number(id), name: eventName(Number(id)) }));
+	}
+
+	const err = log.messages.get('ERR');
+	if (err) {
+		const timeUS = dataflashTimeUS(err);
+		const codes = column(err, 'ECode') ?? [];
+		summary.errors = (column(err, 'Subsys') ?? []).map((subsystem, i) => ({
+			timeUS: timeUS[i],
+			subsystem: Number(subsystem),
+			code: Number(codes[i]),
+			description: errorDescription(Number(subsystem), Number(codes[i]))
+		}));
+	}
+	return summary;
+}
@@ -0,0 +1,119 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import type { BuildRecord } from './apBuildHistory';
+import { FeatureOption, featureOptionName, splitFeatureFlags } from './apFeaturePresets';
+
+export interface FeatureConflict {
+	feature: string;
+	dependency: string;
+	// disabled by a flag, or left at a default that is off
+	reason: 'disabled' | 'off by default';
+}
+
+export interface FeatureFlashImpact {
+	// flash the feature adds when enabled
+	bytes: number;
+	// build pairs the estimate is averaged over
+	builds: number;
+}
+
+/**
+ * Features an option needs, named as in the flags. build_options.py lists
+ * them by label, comma separated.
+ */
+export function featureDependencies(option: FeatureOption): string[] {
+	if (!option.dependency) {
+		return [];
+	}
+	return option.dependency.split(',').map(label => label.trim()).filter(label => label).map(featureOptionName);
+}
+
+/**
+ * Enabled features whose dependencies are disabled, or off by default and
+ * not enabled, which breaks the build the way custom.ardupilot.org refuses
+ */
+export function findFeatureConflicts(configureOptions: string, options: FeatureOption[]): FeatureConflict[] {
+	const { features } = splitFeatureFlags(configureOptions);
+	const byName = new Map(options.map(option => [featureOptionName(option.label), option]));
+	const conflicts: FeatureConflict[] = [];
+	features.forEach((state, feature) => {
+		const option = byName.get(feature);
+		if (state !== 'enabled' || !option) {
+			return;
+		}
+		for (const dependency of featureDependencies(option)) {
+			const dependencyState = features.get(dependency);
+			if (dependencyState === 'disabled') {
+				conflicts.push({ feature, dependency, reason: 'disabled' });
+			} else if (dependencyState === undefined && byName.get(dependency)?.default === 0) {
+				conflicts.push({ feature, dependency, reason: 'off by default' });
+			}
+		}
+	});
+	return conflicts;
+}
+
+export function describeFeatureConflict(conflict: FeatureConflict): string {
+	return `${conflict.feature} needs ${conflict.dependency}, which is ${conflict.reason}`;
+}
+
+/**
+ * Estimates the flash each feature costs from recorded builds of one board and
+ * target: two builds of the same commit whose features differ in just one
+ * give that feature's size. Several such pairs are averaged.
+ * @returns flash impact by feature name, only for features with such pairs
+ */
+export function estimateFeatureFlashImpact(records: BuildRecord[], board: string, target: string, options: FeatureOption[]): Map<string, FeatureFlashImpact> {
+	const builds = records
+		.filter(record => record.board === board && record.target === target && record.features.length > 0)
+		.map(record => ({
+			record,
+			// extract_features.py prints the defines left out with a leading '!'
+			enabled: new Map(record.features.map(line => line.startsWith('!') ? [line.slice(1), false] : [line, true]))
+		}));
+	const byDefine = new Map(options.map(option => [option.define, featureOptionName(option.label)]));
+	const totals = new Map<string, { sum: number, count: number }>();
+
+	for (let i = 0; i < builds.length; i++) {
+		for (let j = i + 1; j < builds.length; j++) {
+			const a = builds[i];
+			const b = builds[j];
+			if (a.record.commit !== b.record.commit) {
+				continue;
+			}
+			const defines = new Set([...a.enabled.keys(), ...b.enabled.keys()]);
+			const changed = [...defines].filter(define => a.enabled.get(define) !== b.enabled.get(define));
+			const define = changed[0];
+			if (changed.length !== 1 || a.enabled.get(define) === undefined || b.enabled.get(define) === undefined) {
+				continue;
+			}
+			const feature = byDefine.get(define);
+			if (!feature) {
+				continue;
+			}
+			const [withFeature, without] = a.enabled.get(define) ? [a, b] : [b, a];
+			const total = totals.get(feature) ?? { sum: 0, count: 0 };
+			total.sum += withFeature.record.flash - without.record.flash;
+			total.count++;
+			totals.set(feature, total);
+		}
+	}
+
+	const impact = new Map<string, FeatureFlashImpact>();
+	totals.forEach((total, feature) => impact.set(feature, { bytes: Math.round(total.sum / total.count), builds: total.count }));
+	return impact;
+}
@@ -0,0 +1,644 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+/*
+	Evaluation of the preprocessor guards around optional code, e.g.
+	#if AP_CAMERA_ENABLED, for one board. Macros come from the build options
+	of the configuration, the generated hwdef.h, the compiler flags and
+	ap_config.h, and the defaults in the libraries' *_config.h headers.
+*/
+
+import { FeatureOption, featureOptionName, splitFeatureFlags } from './apFeaturePresets';
+
+// where a macro gets its value, in order of priority
+export type MacroSource = 'build option' | 'hwdef' | 'build' | 'default';
+
+const SOURCE_PRIORITY: MacroSource[] = ['build option', 'hwdef', 'build', 'default'];
+
+export interface MacroDefinition {
+	name: string;
+	// parameters of a function-like macro
+	params?: string[];
+	value: string;
+	source: MacroSource;
+	// none for -D flags and build options
+	file?: string;
+	// 0-based
+	line?: number;
+	// #if expressions around the definition, it applies when they all hold
+	conditions?: string[];
+	// the flag setting it, e.g. --disable-Camera
+	detail?: string;
+}
+
+export type DirectiveKind = 'if' | 'ifdef' | 'ifndef' | 'elif' | 'else' | 'endif' | 'define' | 'undef';
+
+export interface Directive {
+	kind: DirectiveKind;
+	// 0-based first and last line, directives continue over lines ending in a backslash
+	line: number;
+	endLine: number;
+	// expression of #if and #elif, macro name of the others
+	text: string;
+	// parameters and value of #define
+	params?: string[];
+	value?: string;
+}
+
+export interface ConditionalResult {
+	directive: Directive;
+	// whether the branch is taken, undefined when its expression could not be evaluated
+	taken: boolean | undefined;
+	// whether the directive itself is in compiled code
+	active: boolean;
+	error?: string;
+	// macros defined or undefined (null) by the file before the directive
+	locals: ReadonlyMap<string, MacroDefinition | null>;
+}
+
+export interface GuardEvaluation {
+	conditionals: ConditionalResult[];
+	// first and last line of each range of code left out, 0-based and inclusive
+	inactive: [number, number][];
+}
+
+const DIRECTIVE = /^\s*#\s*(if|ifdef|ifndef|elif|else|endif|define|undef)\b\s*(.*)$/;
+const DEFINE = /^([A-Za-z_]\w*)(\(([^)]*)\))?\s*(.*)$/;
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+const TOKEN = /\s*([0-9][\w.]*|[A-Za-z_]\w*|\|\||&&|==|!=|<=|>=|<<|>>|##?|'(?:\\.|[^'\\])*'|"(?:\\.|[^"\\])*"|\S)/y;
+const INTEGER = /^(0[xX][0-9a-fA-F]+|0[0-7]*|[1-9]\d*)[uUlL]*$/;
+const BINARY_PRECEDENCE = new Map<string, number>([
+	['*', 10], ['/', 10], ['%', 10],
+	['+', 9], ['-', 9],
+	['<<', 8], ['>>', 8],
+	['<', 7], ['<=', 7], ['>', 7], ['>=', 7],
+	['==', 6], ['!=', 6],
+	['&', 5],
+	['^', 4],
+	['|', 3],
+	['&&', 2],
+	['||', 1]
+]);
+
+/**
+ * Blanks out comments, keeping line numbers and string literals
+ */
+function stripComments(text: string): string {
+	let result = '';
+	let i = 0;
+	while (i < text.length) {
+		const char = text[i];
+		const next = text[i + 1];
+		if (char === '/' && next === '/') {
+			while (i < text.length && text[i] !== '\n') {
+				i++;
+			}
+		} else if (char === '/' && next === '*') {
+			const end = text.indexOf('*/', i + 2);
+			const stop = end < 0 ? text.length : end + 2;
+			result += text.slice(i, stop).replace(/[^\n]/g, ' ');
+			i = stop;
+		} else if (char === '"' || char === '\'') {
+			let j = i + 1;
+			while (j < text.length && text[j] !== char && text[j] !== '\n') {
+				j += text[j] === '\\' ? 2 : 1;
+			}
+			result += text.slice(i, j + 1);
+			i = j + 1;
+		} else {
+			result += char;
+			i++;
+		}
+	}
+	return result;
+}
+
+/**
+ * The conditional and #define/#undef directives of a C or C++ file
+ */
+export function scanDirectives(text: string): Directive[] {
+	const lines = stripComments(text).split(/\r?\n/);
+	const directives: Directive[] = [];
+	for (let i = 0; i < lines.length; i++) {
+		const line = i;
+		let content = lines[i];
+		while (content.endsWith('\\') && i + 1 < lines.length) {
+			content = `${content.slice(0, -1)} ${lines[++i]}`;
+		}
+		const match = DIRECTIVE.exec(content);
+		if (!match) {
+			continue;
+		}
+		const kind = match[1] as DirectiveKind;
+		const rest = match[2].trim();
+		const directive: Directive = { kind, line, endLine: i, text: rest };
+		if (kind === 'define') {
+			const define = DEFINE.exec(rest);
+			if (!define) {
+				continue;
+			}
+			directive.text = define[1];
+			directive.params = define[2] !== undefined ? define[3].split(',').map(param => param.trim()).filter(param => param) : undefined;
+			directive.value = define[4].trim();
+		} else if (kind === 'ifdef' || kind === 'ifndef' || kind === 'undef') {
+			directive.text = rest.split(/\s/)[0];
+		}
+		directives.push(directive);
+	}
+	return directives;
+}
+
+export function tokenize(expression: string): string[] {
+	const tokens: string[] = [];
+	TOKEN.lastIndex = 0;
+	while (expression.slice(TOKEN.lastIndex).trim()) {
+		const match = TOKEN.exec(expression);
+		if (!match) {
+			break;
+		}
+		tokens.push(match[1]);
+	}
+	return tokens;
+}
+
+/**
+ * Identifiers an #if expression refers to, e.g. AP_CAMERA_ENABLED and
+ * HAL_MOUNT_ENABLED for "AP_CAMERA_ENABLED && defined(HAL_MOUNT_ENABLED)"
+ */
+export function expressionMacros(expression: string): string[] {
+	const names = tokenize(expression).filter(token => IDENTIFIER.test(token) && token !== 'defined');
+	return [...new Set(names)];
+}
+
+/**
+ * Definitions of a header, each with the #if conditions around it. The
+ * condition of "#ifndef X" is left out for X itself, that is the include
+ * guard or the default pattern the definition belongs to.
+ */
+export function headerDefinitions(text: string, file: string, source: MacroSource): MacroDefinition[] {
+	const definitions: MacroDefinition[] = [];
+	const frames: { previous: string[], current: string, ownName?: string, guard: boolean }[] = [];
+	for (const directive of scanDirectives(text)) {
+		const frame = frames[frames.length - 1];
+		switch (directive.kind) {
+		case 'if':
+			frames.push({ previous: [], current: directive.text, guard: false });
+			break;
+		case 'ifdef':
+			frames.push({ previous: [], current: `defined(${directive.text})`, guard: false });
+			break;
+		case 'ifndef':
+			frames.push({ previous: [], current: `!defined(${directive.text})`, ownName: directive.text, guard: false });
+			break;
+		case 'elif':
+		case 'else':
+			if (frame) {
+				frame.previous.push(frame.current);
+				frame.current = directive.kind === 'else' ? '1' : directive.text;
+				frame.ownName = undefined;
+				frame.guard = false;
+			}
+			break;
+		case 'endif':
+			frames.pop();
+			break;
+		case 'define':
+			if (frame?.ownName === directive.text) {
+				frame.guard = true;
+			}
+			definitions.push({
+				name: directive.text,
+				params: directive.params,
+				value: directive.value ?? '',
+				source,
+				file,
+				line: directive.line,
+				conditions: frames.filter(outer => !outer.guard).map(outer =>
+					[...outer.previous.map(expression => `!(${expression})`), `(${outer.current})`].join(' && '))
+			});
+			break;
+		}
+	}
+	return definitions;
+}
+
+/**
+ * Macros of -D compiler flags, e.g. APM_BUILD_DIRECTORY=APM_BUILD_ArduCopter
+ */
+export function defineFlagDefinitions(defines: string[]): MacroDefinition[] {
+	const definitions: MacroDefinition[] = [];
+	for (const define of defines) {
+		const separator = define.indexOf('=');
+		const match = DEFINE.exec(separator < 0 ? define : define.slice(0, separator));
+		if (match) {
+			definitions.push({
+				name: match[1],
+				params: match[2] !== undefined ? match[3].split(',').map(param => param.trim()).filter(param => param) : undefined,
+				value: separator < 0 ? '1' : define.slice(separator + 1),
+				source: 'build',
+				detail: `-D${define}`
+			});
+		}
+	}
+	return definitions;
+}
+
+/**
+ * Macros the --enable-/--disable- flags of a configuration set, through the
+ * defines build_options.py names for them
+ */
+export function buildOptionDefinitions(configureOptions: string, options: FeatureOption[]): MacroDefinition[] {
+	const byName = new Map(options.map(option => [featureOptionName(option.label), option]));
+	const definitions: MacroDefinition[] = [];
+	splitFeatureFlags(configureOptions).features.forEach((state, feature) => {
+		const option = byName.get(feature);
+		if (option) {
+			definitions.push({
+				name: option.define,
+				value: state === 'enabled' ? '1' : '0',
+				source: 'build option',
+				detail: `--${state === 'enabled' ? 'enable' : 'disable'}-${feature}`
+			});
+		}
+	});
+	return definitions;
+}
+
+function indexDefinitions(definitions: MacroDefinition[]): Map<string, MacroDefinition[]> {
+	const byName = new Map<string, MacroDefinition[]>();
+	for (const definition of definitions) {
+		const existing = byName.get(definition.name);
+		if (existing) {
+			existing.push(definition);
+		} else {
+			byName.set(definition.name, [definition]);
+		}
+	}
+	return byName;
+}
+
+/**
+ * The macros of a build, resolved by source priority: build options, then
+ * hwdef.h, then compiler flags and ap_config.h, then library defaults
+ */
+export class MacroTable {
+	private byName: Map<string, MacroDefinition[]>;
+	private extra = new Map<string, MacroDefinition[]>();
+	// file being evaluated, its own definitions are taken in order instead
+	private excludeFile: string | undefined;
+	private resolved = new Map<string, MacroDefinition | null>();
+	private resolving = new Set<string>();
+
+	constructor(definitions: MacroDefinition[]) {
+		this.byName = indexDefinitions(definitions);
+	}
+
+	/**
+	 * The table for evaluating one file, with the flags of its translation unit
+	 */
+	public forFile(file: string, definitions: MacroDefinition[] = []): MacroTable {
+		const table = new MacroTable([]);
+		table.byName = this.byName;
+		table.extra = indexDefinitions(definitions);
+		table.excludeFile = file;
+		return table;
+	}
+
+	/**
+	 * The definition of a macro that applies, undefined when it is not defined
+	 */
+	public resolve(name: string): MacroDefinition | undefined {
+		const cached = this.resolved.get(name);
+		if (cached !== undefined) {
+			return cached ?? undefined;
+		}
+		// a default that depends on itself
+		if (this.resolving.has(name)) {
+			return undefined;
+		}
+		this.resolving.add(name);
+		const candidates = [...(this.byName.get(name) ?? []), ...(this.extra.get(name) ?? [])]
+			.filter(definition => definition.file === undefined || definition.file !== this.excludeFile)
+			.sort((a, b) => SOURCE_PRIORITY.indexOf(a.source) - SOURCE_PRIORITY.indexOf(b.source));
+		const definition = candidates.find(candidate => (candidate.conditions ?? []).every(condition => this.holds(condition)));
+		this.resolving.delete(name);
+		this.resolved.set(name, definition ?? null);
+		return definition;
+	}
+
+	/**
+	 * Value of an #if expression, throwing when it is not one
+	 * @param locals macros defined or undefined (null) by the file being evaluated
+	 */
+	public evaluate(expression: string, locals?: ReadonlyMap<string, MacroDefinition | null>): number {
+		const lookup = (name: string) => locals?.has(name) ? locals.get(name) ?? undefined : this.resolve(name);
+		const tokens = this.expand(tokenize(expression), new Set(), lookup);
+		return new ExpressionParser(tokens, name => lookup(name) !== undefined).parse();
+	}
+
+	private holds(condition: string): boolean {
+		try {
+			return this.evaluate(condition) !== 0;
+		} catch {
+			return false;
+		}
+	}
+
+	private expand(tokens: string[], hidden: Set<string>, lookup: (name: string) => MacroDefinition | undefined): string[] {
+		const result: string[] = [];
+		for (let i = 0; i < tokens.length; i++) {
+			const token = tokens[i];
+			if (token === 'defined') {
+				// the operand of defined is not expanded
+				const end = tokens[i + 1] === '(' ? i + 3 : i + 1;
+				result.push(...tokens.slice(i, end + 1));
+				i = end;
+				continue;
+			}
+			const definition = IDENTIFIER.test(token) && !hidden.has(token) ? lookup(token) : undefined;
+			const inner = new Set(hidden).add(token);
+			if (!definition) {
+				result.push(token);
+			} else if (!definition.params) {
+				result.push(...this.expand(tokenize(definition.value), inner, lookup));
+			} else if (tokens[i + 1] !== '(') {
+				// a function-like macro without arguments is left alone
+				result.push(token);
+			} else {
+				const args: string[][] = [[]];
+				let depth = 0;
+				let j = i + 2;
+				for (; j < tokens.length; j++) {
+					const argToken = tokens[j];
+					if (argToken === ')' && depth === 0) {
+						break;
+					}
+					if (argToken === ',' && depth === 0) {
+						args.push([]);
+						continue;
+					}
+					depth += argToken === '(' ? 1 : argToken === ')' ? -1 : 0;
+					args[args.length - 1].push(argToken);
+				}
+				const params = definition.params;
+				const body = tokenize(definition.value).flatMap(bodyToken => {
+					const index = params.indexOf(bodyToken);
+					return index < 0 ? [bodyToken] : this.expand(args[index] ?? [], hidden, lookup);
+				});
+				result.push(...this.expand(body, inner, lookup));
+				i = j;
+			}
+		}
+		return result;
+	}
+}
+
+/**
+ * Integer expressions of #if, after macro expansion
+ */
+class ExpressionParser {
+	private index = 0;
+
+	constructor(private tokens: string[], private isDefined: (name: string) => boolean) {}
+
+	public parse(): number {
+		if (this.tokens.length === 0) {
+			throw new Error('empty expression');
+		}
+		const value = this.conditional();
+		if (this.index < this.tokens.length) {
+			throw new Error(`unexpected '${this.tokens[this.index]}'`);
+		}
+		return value;
+	}
+
+	private next(): string | undefined {
+		return this.tokens[this.index++];
+	}
+
+	private expect(token: string): void {
+		const found = this.next();
+		if (found !== token) {
+			throw new Error(`expected '${token}' but found '${found ?? 'end of expression'}'`);
+		}
+	}
+
+	private conditional(): number {
+		const condition = this.binary(1);
+		if (this.tokens[this.index] !== '?') {
+			return condition;
+		}
+		this.index++;
+		const whenTrue = this.conditional();
+		this.expect(':');
+		const whenFalse = this.conditional();
+		return condition !== 0 ? whenTrue : whenFalse;
+	}
+
+	private binary(minPrecedence: number): number {
+		let left = this.unary();
+		for (;;) {
+			const operator = this.tokens[this.index];
+			const precedence = operator === undefined ? undefined : BINARY_PRECEDENCE.get(operator);
+			if (precedence === undefined || precedence < minPrecedence) {
+				return left;
+			}
+			this.index++;
+			left = applyBinary(operator, left, this.binary(precedence + 1));
+		}
+	}
+
+	private unary(): number {
+		const token = this.next();
+		switch (token) {
+		case undefined:
+			throw new Error('unexpected end of expression');
+		case '!':
+			return Number(this.unary() === 0);
+		case '-':
+			return -this.unary();
+		case '+':
+			return this.unary();
+		case '~':
+			return ~this.unary();
+		case '(': {
+			const value = this.conditional();
+			this.expect(')');
+			return value;
+		}
+		case 'defined': {
+			const parenthesised = this.tokens[this.index] === '(';
+			if (parenthesised) {
+				this.index++;
+			}
+			const name = this.next();
+			if (name === undefined || !IDENTIFIER.test(name)) {
+				throw new Error('defined needs a macro name');
+			}
+			if (parenthesised) {
+				this.expect(')');
+			}
+			return Number(this.isDefined(name));
+		}
+		}
+		const integer = INTEGER.exec(token);
+		if (integer) {
+			const digits = integer[1];
+			return /^0[xX]/.test(digits) ? parseInt(digits, 16) : digits.length > 1 && digits.startsWith('0') ? parseInt(digits, 8) : parseInt(digits, 10);
+		}
+		if (/^'(\\.|[^'\\])'$/.test(token)) {
+			return token.charCodeAt(token.length === 4 ? 2 : 1);
+		}
+		if (IDENTIFIER.test(token)) {
+			// identifiers left after expansion are not defined, true is C++'s
+			return token === 'true' ? 1 : 0;
+		}
+		throw new Error(`'${token}' is not an integer`);
+	}
+}
+
+function applyBinary(operator: string, left: number, right: number): number {
+	switch (operator) {
+	case '*': return left * right;
+	case '/':
+	case '%':
+		if (right === 0) {
+			throw new Error('division by zero');
+		}
+		return operator === '/' ? Math.trunc(left / right) : left % right;
+	case '+': return left + right;
+	case '-': return left - right;
+	case '<<': return left << right;
+	case '>>': return left >> right;
+	case '<': return Number(left < right);
+	case '<=': return Number(left <= right);
+	case '>': return Number(left > right);
+	case '>=': return Number(left >= right);
+	case '==': return Number(left === right);
+	case '!=': return Number(left !== right);
+	case '&': return left & right;
+	case '^': return left ^ right;
+	case '|': return left | right;
+	case '&&': return Number(left !== 0 && right !== 0);
+	default: return Number(left !== 0 || right !== 0);
+	}
+}
+
+/**
+ * Which branch of each conditional of a file is compiled, and the lines
+ * left out. Branches whose conditions cannot be evaluated count as compiled.
+ * @param file the file, its definitions are taken in order rather than from the table
+ */
+export function evaluateGuards(text: string, table: MacroTable, file?: string): GuardEvaluation {
+	const conditionals: ConditionalResult[] = [];
+	const inactive: [number, number][] = [];
+	// unknown when a branch could not be evaluated, so later ones may or may not be taken
+	const frames: { parentActive: boolean, taken: boolean, unknown: boolean, active: boolean, inactiveFrom?: number }[] = [];
+	let locals = new Map<string, MacroDefinition | null>();
+	// whether a result holds on to locals, which are then copied before they change
+	let shared = false;
+	const isActive = () => frames.length === 0 || frames[frames.length - 1].active;
+
+	const test = (directive: Directive): { value: boolean | undefined, error?: string } => {
+		const expression = directive.kind === 'ifdef' ? `defined(${directive.text})`
+			: directive.kind === 'ifndef' ? `!defined(${directive.text})`
+				: directive.text;
+		try {
+			return { value: table.evaluate(expression, locals) !== 0 };
+		} catch (error) {
+			return { value: undefined, error: error instanceof Error ? error.message : String(error) };
+		}
+	};
+	// records a branch and where the code it leaves out starts
+	const open = (frame: typeof frames[number], directive: Directive, taken: boolean | undefined, error?: string) => {
+		frame.active = frame.parentActive && taken !== false;
+		if (frame.parentActive && !frame.active) {
+			frame.inactiveFrom = directive.endLine + 1;
+		}
+		conditionals.push({ directive, taken, active: frame.parentActive, error, locals });
+		shared = true;
+	};
+	const close = (frame: typeof frames[number], directive: Directive) => {
+		if (frame.inactiveFrom !== undefined && directive.line > frame.inactiveFrom) {
+			inactive.push([frame.inactiveFrom, directive.line - 1]);
+		}
+		frame.inactiveFrom = undefined;
+	};
+
+	for (const directive of scanDirectives(text)) {
+		const frame = frames[frames.length - 1];
+		switch (directive.kind) {
+		case 'if':
+		case 'ifdef':
+		case 'ifndef': {
+			const { value, error } = test(directive);
+			const opened = { parentActive: isActive(), taken: value === true, unknown: value === undefined, active: true };
+			frames.push(opened);
+			open(opened, directive, value, error);
+			break;
+		}
+		case 'elif':
+			if (frame) {
+				close(frame, directive);
+				const { value, error } = frame.taken ? { value: false, error: undefined } : test(directive);
+				frame.taken ||= value === true;
+				frame.unknown ||= value === undefined;
+				open(frame, directive, value, error);
+			}
+			break;
+		case 'else':
+			if (frame) {
+				close(frame, directive);
+				const taken = frame.taken ? false : frame.unknown ? undefined : true;
+				frame.taken = true;
+				open(frame, directive, taken);
+			}
+			break;
+		case 'endif':
+			if (frame) {
+				close(frame, directive);
+				frames.pop();
+			}
+			break;
+		case 'define':
+		case 'undef':
+			if (isActive()) {
+				if (shared) {
+					locals = new Map(locals);
+					shared = false;
+				}
+				locals.set(directive.text, directive.kind === 'undef' ? null : {
+					name: directive.text,
+					params: directive.params,
+					value: directive.value ?? '',
+					source: 'default',
+					file,
+					line: directive.line
+				});
+			}
+			break;
+		}
+	}
+	return { conditionals, inactive };
+}
+
+/**
+ * The build options an #if expression refers to, by define
+ */
+export function guardOptions(expression: string, options: FeatureOption[]): FeatureOption[] {
+	const names = new Set(expressionMacros(expression));
+	return options.filter(option => names.has(option.define));
+}
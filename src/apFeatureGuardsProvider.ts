@@ -0,0 +1,429 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+/*
+	apFeatureGuardsProvider.ts
+	Whether code is compiled for the active configuration: hovers on #if
+	guards with the value of each macro and where it is defined, the value
+	of each guard after it, faded code the guards leave out, and CodeLenses
+	switching the build option a guard tests in the Feature Viewer.
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as glob from 'fast-glob';
+import { apLog } from './apLog';
+import { apWorkspace } from './apWorkspace';
+import { activeConfiguration, onDidChangeActiveConfiguration } from './apActions';
+import { apBuildConfigPanel } from './apBuildConfigPanel';
+import { ArdupilotTaskDefinition, getFeaturesList } from './taskProvider';
+import { FeatureOption, featureOptionName } from './apFeaturePresets';
+import { CompileDatabase, compileCommandsPath, compileFlags, hwdefHeaderPath, parseCompileCommands } from './apCompileCommands';
+import {
+	ConditionalResult,
+	GuardEvaluation,
+	MacroDefinition,
+	MacroTable,
+	buildOptionDefinitions,
+	defineFlagDefinitions,
+	evaluateGuards,
+	expressionMacros,
+	guardOptions,
+	headerDefinitions
+} from './apFeatureGuards';
+
+// headers with the defaults of optional features and the HAL's board macros
+const DEFAULT_HEADERS = [
+	'libraries/*/*_config.h',
+	'libraries/AP_HAL/AP_HAL_Boards.h',
+	'libraries/AP_HAL/board/*.h',
+	'libraries/AP_Vehicle/AP_Vehicle_Type.h'
+];
+const SELECTOR: vscode.DocumentSelector = [{ language: 'c', scheme: 'file' }, { language: 'cpp', scheme: 'file' }];
+const CONDITIONS = new Set(['if', 'elif', 'ifdef', 'ifndef']);
+const REFRESH_DELAY_MS = 300;
+// macros named after a guard's value
+const ANNOTATED_MACROS = 3;
+
+interface GuardContext {
+	key: string;
+	task: vscode.Task;
+	root: string;
+	board: string;
+	table: MacroTable;
+	database: CompileDatabase | undefined;
+	options: FeatureOption[];
+}
+
+interface DocumentGuards {
+	version: number;
+	context: GuardContext;
+	table: MacroTable;
+	evaluation: GuardEvaluation;
+}
+
+function isWithin(file: string, directory: string): boolean {
+	const relative = path.relative(directory, file);
+	return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+async function readText(file: string): Promise<string> {
+	try {
+		return await fs.promises.readFile(file, 'utf8');
+	} catch {
+		return '';
+	}
+}
+
+export class apFeatureGuardsProvider implements vscode.HoverProvider, vscode.CodeLensProvider, vscode.Disposable {
+	private static log = new apLog('apFeatureGuardsProvider').log;
+
+	private context: GuardContext | undefined;
+	private loading: { key: string, promise: Promise<GuardContext> } | undefined;
+	// build_options.py of each ArduPilot folder, read once
+	private options = new Map<string, Promise<FeatureOption[]>>();
+	private documents = new Map<string, DocumentGuards>();
+	private inactiveDecoration = vscode.window.createTextEditorDecorationType({ opacity: '0.45' });
+	private valueDecoration = vscode.window.createTextEditorDecorationType({
+		after: { color: new vscode.ThemeColor('editorCodeLens.foreground'), fontStyle: 'italic', margin: '0 0 0 2em' }
+	});
+	private codeLensesChanged = new vscode.EventEmitter<void>();
+	public readonly onDidChangeCodeLenses = this.codeLensesChanged.event;
+	private timers = new Map<string, NodeJS.Timeout>();
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private extensionUri: vscode.Uri) {
+		const watcher = vscode.workspace.createFileSystemWatcher('**/build/*/{hwdef.h,ap_config.h,compile_commands.json}');
+		this.disposables.push(
+			this.inactiveDecoration,
+			this.valueDecoration,
+			this.codeLensesChanged,
+			watcher,
+			watcher.onDidChange(() => this.invalidate()),
+			watcher.onDidCreate(() => this.invalidate()),
+			watcher.onDidDelete(() => this.invalidate()),
+			onDidChangeActiveConfiguration(() => this.invalidate()),
+			apWorkspace.onDidChangeFolder(() => this.invalidate()),
+			vscode.workspace.onDidChangeConfiguration(event => {
+				if (event.affectsConfiguration('tasks') || event.affectsConfiguration('ardupilot.featureGuards')) {
+					this.invalidate();
+				}
+			}),
+			vscode.workspace.onDidSaveTextDocument(document => {
+				// a default changed
+				if (this.context && isWithin(document.uri.fsPath, this.context.root) && /_config\.h$|AP_HAL_Boards\.h$|[\\/]board[\\/][^\\/]+\.h$/.test(document.uri.fsPath)) {
+					this.invalidate();
+				}
+			}),
+			vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => void this.decorate(editor))),
+			vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document)),
+			vscode.workspace.onDidCloseTextDocument(document => this.documents.delete(document.uri.toString()))
+		);
+		this.refresh();
+	}
+
+	private static get enabled(): boolean {
+		return vscode.workspace.getConfiguration('ardupilot').get<boolean>('featureGuards.enabled', true);
+	}
+
+	private static get fadeInactiveCode(): boolean {
+		return vscode.workspace.getConfiguration('ardupilot').get<boolean>('featureGuards.fadeInactiveCode', true);
+	}
+
+	// the macros of the active configuration changed
+	private invalidate(): void {
+		this.context = undefined;
+		this.loading = undefined;
+		this.documents.clear();
+		this.refresh();
+	}
+
+	private refresh(): void {
+		this.codeLensesChanged.fire();
+		vscode.window.visibleTextEditors.forEach(editor => void this.decorate(editor));
+	}
+
+	private schedule(document: vscode.TextDocument): void {
+		if (vscode.languages.match(SELECTOR, document) === 0) {
+			return;
+		}
+		const key = document.uri.toString();
+		clearTimeout(this.timers.get(key));
+		this.timers.set(key, setTimeout(() => {
+			this.timers.delete(key);
+			vscode.window.visibleTextEditors.filter(editor => editor.document === document).forEach(editor => void this.decorate(editor));
+		}, REFRESH_DELAY_MS));
+	}
+
+	private async guardContext(): Promise<GuardContext | undefined> {
+		const task = activeConfiguration;
+		const definition = task?.definition as ArdupilotTaskDefinition | undefined;
+		const root = apWorkspace.folderOf(task)?.uri.fsPath;
+		// custom commands build whatever they like
+		if (!task || !definition?.configure || definition.overrideEnabled || !root) {
+			return undefined;
+		}
+		const key = JSON.stringify([root, definition.configure, definition.configureOptions ?? '']);
+		if (this.context?.key === key) {
+			return this.context;
+		}
+		if (this.loading?.key !== key) {
+			this.loading = { key, promise: this.load(key, task, root, definition.configure, definition) };
+		}
+		return this.loading.promise;
+	}
+
+	private async load(key: string, task: vscode.Task, root: string, board: string, definition: ArdupilotTaskDefinition): Promise<GuardContext> {
+		const options = await this.featureOptions(root);
+		const hwdefHeader = hwdefHeaderPath(root, board);
+		const apConfigHeader = path.join(root, 'build', board, 'ap_config.h');
+		const definitions: MacroDefinition[] = [
+			...buildOptionDefinitions(definition.configureOptions ?? '', options),
+			...headerDefinitions(await readText(hwdefHeader), hwdefHeader, 'hwdef'),
+			...headerDefinitions(await readText(apConfigHeader), apConfigHeader, 'build')
+		];
+		const defaults = await glob.glob(DEFAULT_HEADERS, { cwd: root, absolute: true });
+		for (const file of defaults.map(path.normalize).sort()) {
+			definitions.push(...headerDefinitions(await readText(file), file, 'default'));
+		}
+		let database: CompileDatabase | undefined;
+		try {
+			database = new CompileDatabase(parseCompileCommands(await fs.promises.readFile(compileCommandsPath(root, board), 'utf8')));
+		} catch {
+			// not built yet, only the build options, hwdef.h and defaults apply
+		}
+		const context: GuardContext = { key, task, root, board, table: new MacroTable(definitions), database, options };
+		if (this.loading?.key === key) {
+			this.context = context;
+		}
+		apFeatureGuardsProvider.log(`read ${definitions.length} macro definitions for ${board} from ${defaults.length + 2} headers`);
+		return context;
+	}
+
+	private featureOptions(root: string): Promise<FeatureOption[]> {
+		let options = this.options.get(root);
+		if (!options) {
+			options = getFeaturesList(this.extensionUri, root).then(
+				list => Array.isArray(list) ? list as FeatureOption[] : [],
+				error => {
+					apFeatureGuardsProvider.log(`no build options for ${root}: ${error}`);
+					return [];
+				}
+			);
+			this.options.set(root, options);
+		}
+		return options;
+	}
+
+	private async evaluate(document: vscode.TextDocument): Promise<DocumentGuards | undefined> {
+		if (!apFeatureGuardsProvider.enabled || vscode.languages.match(SELECTOR, document) === 0) {
+			return undefined;
+		}
+		const context = await this.guardContext();
+		if (!context || !isWithin(document.uri.fsPath, context.root)) {
+			return undefined;
+		}
+		const key = document.uri.toString();
+		const cached = this.documents.get(key);
+		if (cached && cached.version === document.version && cached.context === context) {
+			return cached;
+		}
+		// -D flags of the file's translation unit, e.g. the vehicle of APM_BUILD_TYPE()
+		const lookup = context.database?.lookup(document.uri.fsPath);
+		const table = context.table.forFile(document.uri.fsPath, lookup ? defineFlagDefinitions(compileFlags(lookup.command).defines) : []);
+		const guards: DocumentGuards = {
+			version: document.version,
+			context,
+			table,
+			evaluation: evaluateGuards(document.getText(), table, document.uri.fsPath)
+		};
+		this.documents.set(key, guards);
+		return guards;
+	}
+
+	private async decorate(editor: vscode.TextEditor): Promise<void> {
+		const guards = await this.evaluate(editor.document);
+		if (!guards) {
+			editor.setDecorations(this.inactiveDecoration, []);
+			editor.setDecorations(this.valueDecoration, []);
+			return;
+		}
+		const document = editor.document;
+		const inactive = apFeatureGuardsProvider.fadeInactiveCode
+			? guards.evaluation.inactive.map(([start, end]) => new vscode.Range(start, 0, end, document.lineAt(Math.min(end, document.lineCount - 1)).text.length))
+			: [];
+		const values: vscode.DecorationOptions[] = guards.evaluation.conditionals
+			.filter(conditional => conditional.active && (conditional.directive.kind === 'if' || conditional.directive.kind === 'elif'))
+			.map(conditional => {
+				const line = document.lineAt(Math.min(conditional.directive.endLine, document.lineCount - 1));
+				return { range: new vscode.Range(line.range.end, line.range.end), renderOptions: { after: { contentText: this.annotation(guards, conditional) } } };
+			});
+		editor.setDecorations(this.inactiveDecoration, inactive);
+		editor.setDecorations(this.valueDecoration, values);
+	}
+
+	// e.g. "= false · AP_CAMERA_ENABLED 0 (hwdef)"
+	private annotation(guards: DocumentGuards, conditional: ConditionalResult): string {
+		const macros: string[] = [];
+		for (const name of expressionMacros(conditional.directive.text)) {
+			const local = conditional.locals.has(name);
+			const definition = local ? conditional.locals.get(name) : guards.table.resolve(name);
+			if (!definition) {
+				macros.push(`${name} undefined`);
+			} else if (!definition.params) {
+				macros.push(`${name} ${this.valueOf(guards, conditional, name)} (${local ? 'this file' : definition.source})`);
+			}
+		}
+		const value = conditional.taken === undefined ? '= ?' : `= ${conditional.taken}`;
+		return [value, ...macros.slice(0, ANNOTATED_MACROS)].join(' · ');
+	}
+
+	private valueOf(guards: DocumentGuards, conditional: ConditionalResult, name: string): string {
+		try {
+			return String(guards.table.evaluate(name, conditional.locals));
+		} catch {
+			return '?';
+		}
+	}
+
+	public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+		const guards = await this.evaluate(document);
+		const conditional = guards?.evaluation.conditionals.find(result =>
+			position.line >= result.directive.line && position.line <= result.directive.endLine);
+		if (!guards || !conditional) {
+			return undefined;
+		}
+		const markdown = new vscode.MarkdownString();
+		const range = document.getWordRangeAtPosition(position, /[A-Za-z_]\w*/);
+		const word = range ? document.getText(range) : undefined;
+		if (word && word !== 'defined' && !CONDITIONS.has(word) && word !== 'else' && expressionMacros(conditional.directive.text).includes(word)) {
+			markdown.appendMarkdown(this.describeMacro(guards, conditional, word));
+			markdown.appendMarkdown('\n\n---\n\n');
+		}
+		markdown.appendMarkdown(this.describeBranch(guards, conditional));
+		return new vscode.Hover(markdown, range);
+	}
+
+	private describeBranch(guards: DocumentGuards, conditional: ConditionalResult): string {
+		const board = guards.context.board;
+		if (!conditional.active) {
+			return `The enclosing block is not compiled for ${board}`;
+		}
+		if (conditional.taken === undefined) {
+			return conditional.error
+				? `Could not evaluate this guard for ${board}: ${conditional.error}`
+				: `Whether this branch is compiled for ${board} depends on a guard that could not be evaluated`;
+		}
+		return `This branch is ${conditional.taken ? '' : '**not** '}compiled for ${board}`;
+	}
+
+	private describeMacro(guards: DocumentGuards, conditional: ConditionalResult, name: string): string {
+		const definition = conditional.locals.has(name) ? conditional.locals.get(name) : guards.table.resolve(name);
+		const lines: string[] = [];
+		if (!definition) {
+			lines.push(`**${name}** is not defined for ${guards.context.board}, it counts as 0`);
+		} else {
+			const value = definition.params ? '' : ` = ${this.valueOf(guards, conditional, name)}`;
+			lines.push(`**${name}**${value} for ${guards.context.board}`);
+			const params = definition.params ? `(${definition.params.join(', ')})` : '';
+			lines.push(`\`\`\`cpp\n#define ${name}${params} ${definition.value}\n\`\`\``);
+			lines.push(this.describeSource(guards, definition));
+		}
+		const option = guards.context.options.find(candidate => candidate.define === name);
+		if (option) {
+			lines.push(`Build option **${featureOptionName(option.label)}**${option.description ? `: ${option.description}` : ''}`);
+		}
+		return lines.join('\n\n');
+	}
+
+	private describeSource(guards: DocumentGuards, definition: MacroDefinition): string {
+		const location = definition.file !== undefined
+			? `[${path.relative(guards.context.root, definition.file)}${definition.line !== undefined ? `:${definition.line + 1}` : ''}](${vscode.Uri.file(definition.file).with({ fragment: `L${(definition.line ?? 0) + 1}` })})`
+			: '';
+		switch (definition.source) {
+		case 'build option':
+			return `Set by the build option \`${definition.detail}\` of ${guards.context.task.name}`;
+		case 'hwdef':
+			return `Set by the board's hwdef, in ${location}`;
+		case 'build':
+			return definition.detail ? `Set by the compiler flag \`${definition.detail}\`` : `Set by waf configure, in ${location}`;
+		default:
+			return `Default, in ${location}`;
+		}
+	}
+
+	public async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+		const guards = await this.evaluate(document);
+		if (!guards) {
+			return [];
+		}
+		const lenses: vscode.CodeLens[] = [];
+		for (const conditional of guards.evaluation.conditionals) {
+			if (!conditional.active || !CONDITIONS.has(conditional.directive.kind)) {
+				continue;
+			}
+			for (const option of guardOptions(conditional.directive.text, guards.context.options)) {
+				const value = this.valueOf(guards, conditional, option.define);
+				if (value === '?') {
+					continue;
+				}
+				const enabled = value !== '0';
+				const feature = featureOptionName(option.label);
+				const line = conditional.directive.line;
+				lenses.push(new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+					title: `${enabled ? 'Disable' : 'Enable'} ${feature} in Feature Viewer`,
+					tooltip: `${option.define} is ${value} for ${guards.context.board}, switch the build option of ${guards.context.task.name}`,
+					command: 'ardupilot.featureGuards.toggleOption',
+					arguments: [feature, enabled ? 'disable' : 'enable']
+				}));
+			}
+		}
+		return lenses;
+	}
+
+	/**
+	 * Opens the active configuration with a build option switched in the Feature Viewer
+	 */
+	public toggleOption(feature: string, action: 'enable' | 'disable'): void {
+		if (!this.context) {
+			vscode.window.showErrorMessage('Set an active build configuration first');
+			return;
+		}
+		apBuildConfigPanel.toggleFeature(this.extensionUri, this.context.task, feature, action);
+	}
+
+	public dispose(): void {
+		this.timers.forEach(timer => clearTimeout(timer));
+		this.timers.clear();
+		while (this.disposables.length) {
+			this.disposables.pop()?.dispose();
+		}
+	}
+}
+
+/**
+ * Registers hovers, annotations and CodeLenses on the preprocessor guards of C and C++ files
+ */
+export function registerFeatureGuards(context: vscode.ExtensionContext): void {
+	const provider = new apFeatureGuardsProvider(context.extensionUri);
+	context.subscriptions.push(
+		provider,
+		vscode.languages.registerHoverProvider(SELECTOR, provider),
+		vscode.languages.registerCodeLensProvider(SELECTOR, provider),
+		vscode.commands.registerCommand('ardupilot.featureGuards.toggleOption', (feature: string, action: 'enable' | 'disable') => provider.toggleOption(feature, action))
+	);
+}
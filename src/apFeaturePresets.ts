@@ -0,0 +1,189 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// relative to the workspace root, meant to be checked in alongside tasks.json
+export const FEATURE_PRESETS_FILE = path.join('.vscode', 'feature-presets.json');
+
+export type FeatureState = 'enabled' | 'disabled';
+
+/**
+ * A named set of --enable-/--disable- flags. Features are named as in the
+ * flags, i.e. the build_options.py label with spaces replaced by hyphens.
+ */
+export interface FeaturePreset {
+	name: string;
+	description?: string;
+	enable: string[];
+	disable: string[];
+}
+
+// an entry of Tools/scripts/build_options.py, as printed by featureLoader.py
+export interface FeatureOption {
+	label: string;
+	define: string;
+	category?: string;
+	description?: string;
+	default?: number;
+	// labels of the options it needs, comma separated
+	dependency?: string | null;
+}
+
+export interface FeatureDifference {
+	feature: string;
+	// undefined when the configuration leaves the feature at the board default
+	left?: FeatureState;
+	right?: FeatureState;
+}
+
+export function featureOptionName(label: string): string {
+	return label.replace(/\s+/g, '-');
+}
+
+/**
+ * Splits configure options into the feature flags and everything else
+ */
+export function splitFeatureFlags(configureOptions: string): { features: Map<string, FeatureState>, others: string[] } {
+	const features = new Map<string, FeatureState>();
+	const others: string[] = [];
+	for (const part of configureOptions.split(/\s+/).filter(part => part)) {
+		if (part.startsWith('--enable-')) {
+			features.set(part.slice('--enable-'.length), 'enabled');
+		} else if (part.startsWith('--disable-')) {
+			features.set(part.slice('--disable-'.length), 'disabled');
+		} else {
+			others.push(part);
+		}
+	}
+	return { features, others };
+}
+
+export function presetFlags(preset: FeaturePreset): string[] {
+	return [
+		...preset.enable.map(feature => `--enable-${feature}`),
+		...preset.disable.map(feature => `--disable-${feature}`)
+	];
+}
+
+/**
+ * Replaces the feature flags in configure options with those of a preset,
+ * keeping the other options
+ */
+export function applyFeaturePreset(configureOptions: string, preset: FeaturePreset): string {
+	const { others } = splitFeatureFlags(configureOptions);
+	return [...presetFlags(preset), ...others].join(' ');
+}
+
+export function presetFromConfigureOptions(name: string, configureOptions: string, description?: string): FeaturePreset {
+	const { features } = splitFeatureFlags(configureOptions);
+	const preset: FeaturePreset = { name, enable: [], disable: [] };
+	if (description) {
+		preset.description = description;
+	}
+	features.forEach((state, feature) => (state === 'enabled' ? preset.enable : preset.disable).push(feature));
+	preset.enable.sort();
+	preset.disable.sort();
+	return preset;
+}
+
+/**
+ * Builds a preset from the output of Tools/scripts/extract_features.py, which
+ * lists the defines compiled into a binary and those left out prefixed with '!'.
+ * Every known feature is set explicitly, so the preset reproduces the binary
+ * whatever the board defaults are.
+ * @returns the preset and the defines build_options.py has no option for
+ */
+export function presetFromExtractedFeatures(name: string, extracted: string[], options: FeatureOption[], description?: string): { preset: FeaturePreset, unknown: string[] } {
+	const byDefine = new Map(options.map(option => [option.define, option]));
+	const flags: string[] = [];
+	const unknown: string[] = [];
+	for (const line of extracted.map(line => line.trim()).filter(line => line)) {
+		const disabled = line.startsWith('!');
+		const define = disabled ? line.slice(1) : line;
+		const option = byDefine.get(define);
+		if (!option) {
+			unknown.push(define);
+			continue;
+		}
+		flags.push(`--${disabled ? 'disable' : 'enable'}-${featureOptionName(option.label)}`);
+	}
+	return { preset: presetFromConfigureOptions(name, flags.join(' '), description), unknown };
+}
+
+/**
+ * Features set differently by two sets of configure options, in name order
+ */
+export function diffFeatureSets(left: string, right: string): FeatureDifference[] {
+	const leftFeatures = splitFeatureFlags(left).features;
+	const rightFeatures = splitFeatureFlags(right).features;
+	const names = new Set([...leftFeatures.keys(), ...rightFeatures.keys()]);
+	return [...names]
+		.filter(feature => leftFeatures.get(feature) !== rightFeatures.get(feature))
+		.sort()
+		.map(feature => ({ feature, left: leftFeatures.get(feature), right: rightFeatures.get(feature) }));
+}
+
+/**
+ * Readable listing of a configuration's features, one per line, for diffing
+ */
+export function describeFeatureSet(configureOptions: string): string {
+	const { features } = splitFeatureFlags(configureOptions);
+	return [...features.keys()].sort().map(feature => `${feature}: ${features.get(feature)}\n`).join('');
+}
+
+export function parseFeaturePresets(content: string): FeaturePreset[] {
+	let data: { presets?: unknown };
+	try {
+		data = JSON.parse(content);
+	} catch (error) {
+		throw new Error(`Feature presets file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+	}
+	if (typeof data !== 'object' || data === null || !Array.isArray(data.presets)) {
+		throw new Error('Feature presets file must contain a "presets" array');
+	}
+	return data.presets.map((preset: Partial<FeaturePreset>, index: number) => {
+		if (typeof preset?.name !== 'string' || !preset.name.trim()) {
+			throw new Error(`Feature preset ${index + 1} has no name`);
+		}
+		const isList = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+		if (!isList(preset.enable) || !isList(preset.disable)) {
+			throw new Error(`Feature preset "${preset.name}": "enable" and "disable" must be lists of feature names`);
+		}
+		return { ...preset, name: preset.name, enable: preset.enable ?? [], disable: preset.disable ?? [] };
+	});
+}
+
+export function readFeaturePresets(workspaceRoot: string): FeaturePreset[] {
+	const file = path.join(workspaceRoot, FEATURE_PRESETS_FILE);
+	if (!fs.existsSync(file)) {
+		return [];
+	}
+	return parseFeaturePresets(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Adds a preset to the workspace presets, replacing one of the same name
+ */
+export function saveFeaturePreset(workspaceRoot: string, preset: FeaturePreset): void {
+	const presets = readFeaturePresets(workspaceRoot).filter(existing => existing.name !== preset.name);
+	presets.push(preset);
+	presets.sort((a, b) => a.name.localeCompare(b.name));
+	const file = path.join(workspaceRoot, FEATURE_PRESETS_FILE);
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.writeFileSync(file, JSON.stringify({ presets }, null, '\t') + '\n');
+}
@@ -17,6 +17,7 @@
 import * as vscode from 'vscode';
 import { simpleGit, SimpleGitProgressEvent } from 'simple-git';
 import { apWelcomeItem } from './apWelcomeItem';
+import { apWorkspace } from './apWorkspace';
 
 export class ForceUpdateSubmodules extends apWelcomeItem {
 
@@ -74,9 +75,7 @@ export class ForceUpdateSubmodules extends apWelcomeItem {
      * Show progress indication for submodule operations
      */
 	showProgress(): void {
-		const workspaceRoot = (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0)
-			? vscode.workspace.workspaceFolders[0].uri.fsPath
-			: process.cwd();
+		const workspaceRoot = apWorkspace.rootPath ?? process.cwd();
 
 		vscode.window.withProgress({
 			location: vscode.ProgressLocation.Notification,
@@ -0,0 +1,160 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+// Cloning ArduPilot from any remote or local mirror, with submodules fetched from local mirrors when available
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { simpleGit, SimpleGitProgressEvent } from 'simple-git';
+
+export const DEFAULT_CLONE_URL = 'https://www.github.com/ardupilot/ardupilot.git';
+
+export interface CloneOptions {
+	// remote URL or path of a local (bare) mirror
+	url: string;
+	// branch or tag to check out, the remote's default branch when empty
+	ref?: string;
+	// number of commits of a shallow clone, full history when 0
+	depth?: number;
+	// local repository to borrow objects from, see `git clone --reference`
+	reference?: string;
+	// directory of submodule mirrors made with `git clone --mirror`, e.g. ChibiOS.git
+	submoduleMirror?: string;
+}
+
+export interface SubmoduleOptions {
+	submoduleMirror?: string;
+	report?: (message: string) => void;
+	abortSignal?: AbortSignal;
+}
+
+export function isLocalPath(url: string): boolean {
+	return path.isAbsolute(url) || /^\.\.?[\\/]/.test(url);
+}
+
+/**
+ * What to pass to `git clone`: git ignores --depth for plain local paths,
+ * so shallow clones of a local mirror go through a file:// URL
+ */
+export function cloneSource(options: CloneOptions): string {
+	if (isLocalPath(options.url) && (options.depth ?? 0) > 0) {
+		return pathToFileURL(path.resolve(options.url)).href;
+	}
+	return options.url;
+}
+
+export function cloneArguments(options: CloneOptions): string[] {
+	const args = ['--progress'];
+	if (options.ref) {
+		args.push('--branch', options.ref);
+	}
+	if (options.depth && options.depth > 0) {
+		args.push('--depth', String(options.depth));
+	}
+	if (options.reference) {
+		args.push('--reference', options.reference);
+	}
+	return args;
+}
+
+/**
+ * The entry of a mirror directory for a repository URL, matched by name:
+ * https://github.com/ArduPilot/ChibiOS.git is served by ChibiOS.git or ChibiOS
+ */
+export function mirrorEntryFor(url: string, entries: string[]): string | undefined {
+	const name = url.replace(/[\\/]+$/, '').split(/[\\/:]/).pop()?.replace(/\.git$/i, '').toLowerCase();
+	if (!name) {
+		return undefined;
+	}
+	return entries.find(entry => entry.toLowerCase() === `${name}.git`) ?? entries.find(entry => entry.toLowerCase() === name);
+}
+
+// [key, value] pairs of `git config --get-regexp` output
+export function parseConfigEntries(output: string): [string, string][] {
+	return output.split(/\r?\n/)
+		.map(line => line.trim())
+		.filter(line => line)
+		.map(line => {
+			const space = line.indexOf(' ');
+			return space < 0 ? [line, ''] : [line.slice(0, space), line.slice(space + 1)];
+		});
+}
+
+/**
+ * Clone into parentDir/name, returning the path of the new checkout.
+ * Submodules are left to initSubmodules so that a failure there does not
+ * fail the clone.
+ */
+export async function cloneRepository(
+	parentDir: string,
+	name: string,
+	options: CloneOptions,
+	progress?: (event: SimpleGitProgressEvent) => void,
+	abortSignal?: AbortSignal
+): Promise<string> {
+	const git = simpleGit({ baseDir: parentDir, progress, abort: abortSignal });
+	await git.clone(cloneSource(options), name, cloneArguments(options));
+	return path.join(parentDir, name);
+}
+
+/**
+ * Initialize and update the submodules of a checkout, recursively. With a
+ * submodule mirror directory, each level is initialised, the URLs of
+ * submodules found in the mirror are rewritten to it, and only then updated,
+ * so nested submodules come from the mirror as well.
+ */
+export async function initSubmodules(repoDir: string, options: SubmoduleOptions = {}): Promise<void> {
+	const mirror = options.submoduleMirror;
+	// git refuses local paths as submodule URLs unless allowed, the mirror is trusted
+	const git = simpleGit({
+		baseDir: repoDir,
+		abort: options.abortSignal,
+		config: mirror ? ['protocol.file.allow=always'] : [],
+		unsafe: { allowUnsafeProtocolOverride: !!mirror }
+	});
+	await git.submoduleInit();
+	if (!mirror) {
+		options.report?.('Updating submodules...');
+		await git.submoduleUpdate(['--init', '--recursive']);
+		return;
+	}
+
+	const entries = fs.existsSync(mirror) ? fs.readdirSync(mirror) : [];
+	const configEntries = async (args: string[]) => {
+		try {
+			return parseConfigEntries(await git.raw(['config', ...args]));
+		} catch {
+			// git config exits with 1 when nothing matches
+			return [];
+		}
+	};
+	for (const [key, url] of await configEntries(['--get-regexp', '^submodule\\..*\\.url$'])) {
+		const entry = mirrorEntryFor(url, entries);
+		if (entry) {
+			await git.raw(['config', key, path.join(mirror, entry)]);
+		}
+	}
+
+	options.report?.(`Updating submodules of ${path.basename(repoDir)} from ${mirror}...`);
+	await git.submoduleUpdate(['--init']);
+	for (const [, submodulePath] of await configEntries(['-f', '.gitmodules', '--get-regexp', '^submodule\\..*\\.path$'])) {
+		const submoduleDir = path.join(repoDir, submodulePath);
+		if (fs.existsSync(path.join(submoduleDir, '.gitmodules'))) {
+			await initSubmodules(submoduleDir, options);
+		}
+	}
+}
@@ -0,0 +1,145 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as path from 'path';
+
+export interface GtestCase {
+	suite: string;
+	name: string;
+	// 0-based line of the TEST() macro
+	line: number;
+	fixture: boolean;
+}
+
+export interface GtestFailure {
+	message: string;
+	file?: string;
+	// 0-based
+	line?: number;
+}
+
+export interface GtestResult {
+	suite: string;
+	name: string;
+	status: 'passed' | 'failed' | 'skipped';
+	durationMs?: number;
+	failures: GtestFailure[];
+}
+
+// boards waf can build the gtest programs for
+export const GTEST_BOARDS = ['sitl', 'linux'];
+
+/**
+ * Finds the TEST() and TEST_F() cases of a test source, ignoring commented out ones
+ */
+export function parseGtestSource(content: string): GtestCase[] {
+	// blank out comments, keeping newlines so line numbers still match
+	const code = content.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, comment => comment.replace(/[^\n]/g, ' '));
+	const cases: GtestCase[] = [];
+	const pattern = /^[ \t]*(TEST|TEST_F)\s*\(\s*(\w+)\s*,\s*(\w+)\s*\)/gm;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(code)) !== null) {
+		cases.push({
+			suite: match[2],
+			name: match[3],
+			line: code.slice(0, match.index).split('\n').length - 1,
+			fixture: match[1] === 'TEST_F'
+		});
+	}
+	return cases;
+}
+
+/**
+ * Name of the program waf builds from a test source, e.g. test_math for
+ * libraries/AP_Math/tests/test_math.cpp, built into build/<board>/tests
+ */
+export function gtestProgramName(sourcePath: string): string {
+	return path.basename(sourcePath, path.extname(sourcePath));
+}
+
+export function gtestProgramPath(workspaceRoot: string, board: string, sourcePath: string): string {
+	return path.join(workspaceRoot, 'build', board, 'tests', gtestProgramName(sourcePath));
+}
+
+/**
+ * waf target building only the given test programs
+ */
+export function gtestBuildTarget(sourcePaths: string[]): string {
+	return `--targets=${sourcePaths.map(source => `tests/${gtestProgramName(source)}`).join(',')}`;
+}
+
+/**
+ * --gtest_filter selecting the given cases
+ * @param names full case names, e.g. MathTest.IsZero
+ */
+export function gtestFilter(names: string[]): string {
+	return `--gtest_filter=${names.join(':')}`;
+}
+
+function decodeXml(text: string): string {
+	return text.replace(/&(#x[0-9a-fA-F]+|#\d+|quot|apos|lt|gt|amp);/g, (_entity, code: string) => {
+		switch (code) {
+		case 'quot': return '"';
+		case 'apos': return '\'';
+		case 'lt': return '<';
+		case 'gt': return '>';
+		case 'amp': return '&';
+		default:
+			return String.fromCodePoint(code.startsWith('#x') ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+		}
+	});
+}
+
+function parseAttributes(text: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	for (const match of text.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+		attributes[match[1]] = decodeXml(match[2]);
+	}
+	return attributes;
+}
+
+/**
+ * Reads the report written with --gtest_output=xml. Cases that were filtered
+ * out or disabled are left out.
+ */
+export function parseGtestXml(xml: string): GtestResult[] {
+	const results: GtestResult[] = [];
+	for (const match of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+		const attributes = parseAttributes(match[1]);
+		const body = match[2] ?? '';
+		if (attributes.status === 'notrun' || attributes.result === 'suppressed') {
+			continue;
+		}
+		const failures = [...body.matchAll(/<failure\b([^>]*?)(?:\/>|>)/g)].map(failure => {
+			const message = parseAttributes(failure[1]).message ?? '';
+			// gtest starts each failure with file:line
+			const location = /^(.*?):(\d+)\n([\s\S]*)$/.exec(message);
+			return location
+				? { message: location[3], file: location[1], line: parseInt(location[2], 10) - 1 }
+				: { message };
+		});
+		const skipped = attributes.result === 'skipped' || /<skipped\b/.test(body);
+		const time = parseFloat(attributes.time);
+		results.push({
+			suite: attributes.classname ?? '',
+			name: attributes.name ?? '',
+			status: failures.length > 0 ? 'failed' : skipped ? 'skipped' : 'passed',
+			durationMs: Number.isFinite(time) ? Math.round(time * 1000) : undefined,
+			failures
+		});
+	}
+	return results;
+}
@@ -0,0 +1,317 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { apLog } from './apLog';
+import { ProgramUtils } from './apProgramUtils';
+import { TOOLS_REGISTRY } from './apToolsConfig';
+import { APTaskProvider, ArdupilotTaskDefinition } from './taskProvider';
+import { activeConfiguration } from './apActions';
+import { SITL_GDB_SETUP_COMMANDS } from './apLaunch';
+import {
+	GTEST_BOARDS,
+	GtestResult,
+	gtestBuildTarget,
+	gtestFilter,
+	gtestProgramName,
+	gtestProgramPath,
+	parseGtestSource,
+	parseGtestXml
+} from './apGtest';
+
+const TEST_SOURCES = 'libraries/*/tests/*.cpp';
+
+/**
+ * Shows the GoogleTest cases from the tests directory of each library in the Test
+ * Explorer, built with waf for SITL or linux and run with --gtest_filter
+ */
+export class apGtestExplorer implements vscode.Disposable {
+	private static log = new apLog('apGtestExplorer').log;
+	private readonly _controller: vscode.TestController;
+	private _disposables: vscode.Disposable[] = [];
+
+	constructor(private _workspaceRoot: string) {
+		this._controller = vscode.tests.createTestController('ardupilotGtest', 'ArduPilot Unit Tests');
+		this._controller.resolveHandler = async item => {
+			if (!item) {
+				await this.discover();
+			}
+		};
+		this._controller.refreshHandler = () => this.discover();
+		this._controller.createRunProfile('Run', vscode.TestRunProfileKind.Run,
+			(request, token) => this.run(request, token, false), true);
+		this._controller.createRunProfile('Debug', vscode.TestRunProfileKind.Debug,
+			(request, token) => this.run(request, token, true), true);
+
+		const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(this._workspaceRoot, TEST_SOURCES));
+		this._disposables.push(
+			this._controller,
+			watcher,
+			watcher.onDidCreate(uri => this.updateFile(uri)),
+			watcher.onDidChange(uri => this.updateFile(uri)),
+			watcher.onDidDelete(uri => this._controller.items.delete(this._fileId(uri)))
+		);
+	}
+
+	/**
+	 * Finds every test source of the libraries
+	 */
+	public async discover(): Promise<void> {
+		const sources = await vscode.workspace.findFiles(new vscode.RelativePattern(this._workspaceRoot, TEST_SOURCES));
+		this._controller.items.replace([]);
+		sources.forEach(uri => this.updateFile(uri));
+		apGtestExplorer.log(`Found ${sources.length} test sources`);
+	}
+
+	/**
+	 * Parses the TEST() cases of a source again
+	 */
+	public updateFile(uri: vscode.Uri): void {
+		let content: string;
+		try {
+			content = fs.readFileSync(uri.fsPath, 'utf8');
+		} catch {
+			this._controller.items.delete(this._fileId(uri));
+			return;
+		}
+		const cases = parseGtestSource(content);
+		if (cases.length === 0) {
+			this._controller.items.delete(this._fileId(uri));
+			return;
+		}
+		const item = this._controller.items.get(this._fileId(uri))
+			?? this._controller.createTestItem(this._fileId(uri), gtestProgramName(uri.fsPath), uri);
+		// the library the tests belong to, e.g. AP_Math
+		item.description = path.basename(path.dirname(path.dirname(uri.fsPath)));
+		item.children.replace(cases.map(testCase => {
+			const child = this._controller.createTestItem(`${item.id}::${testCase.suite}.${testCase.name}`, `${testCase.suite}.${testCase.name}`, uri);
+			child.range = new vscode.Range(testCase.line, 0, testCase.line, 0);
+			return child;
+		}));
+		this._controller.items.add(item);
+	}
+
+	private _fileId(uri: vscode.Uri): string {
+		return path.relative(this._workspaceRoot, uri.fsPath);
+	}
+
+	/**
+	 * Builds the test programs of the requested cases, then runs each program once
+	 */
+	private async run(request: vscode.TestRunRequest, token: vscode.CancellationToken, debug: boolean): Promise<void> {
+		const run = this._controller.createTestRun(request);
+		const excluded = new Set(request.exclude ?? []);
+		// requested cases per test source
+		const queued = new Map<vscode.TestItem, vscode.TestItem[]>();
+		const included = request.include ?? this._gatherItems(this._controller.items);
+		for (const item of included) {
+			if (excluded.has(item)) {
+				continue;
+			}
+			const fileItem = item.parent ?? item;
+			const cases = (item.parent ? [item] : this._gatherItems(item.children)).filter(testCase => !excluded.has(testCase));
+			queued.set(fileItem, [...(queued.get(fileItem) ?? []), ...cases]);
+			cases.forEach(testCase => run.enqueued(testCase));
+		}
+		if (queued.size === 0) {
+			run.end();
+			return;
+		}
+
+		// build where the active configuration builds, so its configure options are kept
+		const active = activeConfiguration?.definition as ArdupilotTaskDefinition | undefined;
+		const useActive = !!active?.configure && !active.overrideEnabled && GTEST_BOARDS.includes(active.configure.toLowerCase());
+		const board = useActive && active?.configure ? active.configure : 'sitl';
+		const sources = [...queued.keys()].map(item => item.uri?.fsPath ?? '');
+
+		run.appendOutput(`Building ${sources.map(source => gtestProgramName(source)).join(', ')} for ${board}\r\n`);
+		if (!await this._build(board, useActive ? active?.configureOptions : undefined, sources)) {
+			queued.forEach(cases => cases.forEach(testCase =>
+				run.errored(testCase, new vscode.TestMessage(`Build failed for ${board} tests`))));
+			run.end();
+			return;
+		}
+
+		for (const [fileItem, cases] of queued) {
+			if (token.isCancellationRequested) {
+				cases.forEach(testCase => run.skipped(testCase));
+				continue;
+			}
+			await this._runProgram(run, board, fileItem, cases, token, debug);
+		}
+		run.end();
+	}
+
+	private async _build(board: string, configureOptions: string | undefined, sources: string[]): Promise<boolean> {
+		const definition: ArdupilotTaskDefinition = {
+			type: 'ardupilot',
+			configName: `${board}-tests`,
+			configure: board,
+			target: gtestBuildTarget(sources),
+			configureOptions: configureOptions ?? ''
+		};
+		const task = await APTaskProvider.createTask(definition);
+		if (!task) {
+			return false;
+		}
+		return new Promise<boolean>(resolve => {
+			vscode.tasks.executeTask(task).then(taskExecution => {
+				const disposable = vscode.tasks.onDidEndTaskProcess(e => {
+					if (e.execution === taskExecution) {
+						disposable.dispose();
+						resolve(e.exitCode === 0);
+					}
+				});
+			}, () => resolve(false));
+		});
+	}
+
+	private async _runProgram(run: vscode.TestRun, board: string, fileItem: vscode.TestItem, cases: vscode.TestItem[],
+		token: vscode.CancellationToken, debug: boolean): Promise<void> {
+		const program = gtestProgramPath(this._workspaceRoot, board, fileItem.uri?.fsPath ?? '');
+		if (!fs.existsSync(program)) {
+			cases.forEach(testCase => run.errored(testCase, new vscode.TestMessage(`${program} was not built`)));
+			return;
+		}
+
+		const xmlPath = path.join(os.tmpdir(), `ardupilot-gtest-${process.pid}-${fileItem.label}.xml`);
+		fs.rmSync(xmlPath, { force: true });
+		const all = cases.length === fileItem.children.size;
+		const args = [
+			...(all ? [] : [gtestFilter(cases.map(testCase => this._caseName(testCase)))]),
+			`--gtest_output=xml:${xmlPath}`
+		];
+		cases.forEach(testCase => run.started(testCase));
+		run.appendOutput(`${program} ${args.join(' ')}\r\n`);
+
+		const exitCode = debug
+			? await this._debugProgram(program, args, fileItem.label)
+			: await this._spawnProgram(run, program, args, token);
+
+		let results: GtestResult[] = [];
+		try {
+			results = parseGtestXml(fs.readFileSync(xmlPath, 'utf8'));
+			fs.rmSync(xmlPath, { force: true });
+		} catch {
+			apGtestExplorer.log(`No gtest report from ${program}`);
+		}
+
+		const byName = new Map(results.map(result => [`${result.suite}.${result.name}`, result]));
+		for (const testCase of cases) {
+			const result = byName.get(this._caseName(testCase));
+			if (!result) {
+				run.errored(testCase, new vscode.TestMessage(token.isCancellationRequested
+					? 'Cancelled'
+					: `${fileItem.label} exited with code ${exitCode} before reporting a result`));
+			} else if (result.status === 'passed') {
+				run.passed(testCase, result.durationMs);
+			} else if (result.status === 'skipped') {
+				run.skipped(testCase);
+			} else {
+				run.failed(testCase, result.failures.map(failure => {
+					const message = new vscode.TestMessage(failure.message);
+					if (failure.file !== undefined && failure.line !== undefined) {
+						const uri = vscode.Uri.file(path.resolve(this._workspaceRoot, failure.file));
+						message.location = new vscode.Location(uri, new vscode.Position(failure.line, 0));
+					}
+					return message;
+				}), result.durationMs);
+			}
+		}
+	}
+
+	private _spawnProgram(run: vscode.TestRun, program: string, args: string[], token: vscode.CancellationToken): Promise<number | null> {
+		return new Promise(resolve => {
+			const child = cp.spawn(program, args, { cwd: this._workspaceRoot });
+			const onOutput = (data: Buffer) => run.appendOutput(data.toString().replace(/\r?\n/g, '\r\n'));
+			child.stdout.on('data', onOutput);
+			child.stderr.on('data', onOutput);
+			const cancel = token.onCancellationRequested(() => child.kill());
+			child.on('error', error => run.appendOutput(`Failed to start ${program}: ${error.message}\r\n`));
+			child.on('close', code => {
+				cancel.dispose();
+				resolve(code);
+			});
+		});
+	}
+
+	// runs the program under the debugger and waits for the session to end
+	private async _debugProgram(program: string, args: string[], name: string): Promise<number | null> {
+		const sessionName = `Debug ${name}`;
+		let config: vscode.DebugConfiguration;
+		if (os.platform() === 'darwin') {
+			config = { type: 'lldb', request: 'launch', name: sessionName, program, args, cwd: this._workspaceRoot };
+		} else {
+			const gdb = await ProgramUtils.findProgram(TOOLS_REGISTRY.GDB);
+			if (!gdb.available) {
+				vscode.window.showErrorMessage('GDB not found. Please install GDB to debug unit tests.');
+				return null;
+			}
+			config = {
+				type: 'cppdbg',
+				request: 'launch',
+				name: sessionName,
+				program,
+				args,
+				stopAtEntry: false,
+				cwd: this._workspaceRoot,
+				environment: [],
+				externalConsole: false,
+				MIMode: 'gdb',
+				miDebuggerPath: gdb.path,
+				setupCommands: SITL_GDB_SETUP_COMMANDS
+			};
+		}
+
+		return new Promise(resolve => {
+			const terminated = vscode.debug.onDidTerminateDebugSession(session => {
+				if (session.name === sessionName) {
+					terminated.dispose();
+					resolve(null);
+				}
+			});
+			vscode.debug.startDebugging(vscode.workspace.getWorkspaceFolder(vscode.Uri.file(this._workspaceRoot)), config).then(started => {
+				if (!started) {
+					terminated.dispose();
+					resolve(null);
+				}
+			}, () => {
+				terminated.dispose();
+				resolve(null);
+			});
+		});
+	}
+
+	private _caseName(testCase: vscode.TestItem): string {
+		return testCase.id.slice(testCase.id.indexOf('::') + 2);
+	}
+
+	private _gatherItems(collection: vscode.TestItemCollection): vscode.TestItem[] {
+		const items: vscode.TestItem[] = [];
+		collection.forEach(item => items.push(item));
+		return items;
+	}
+
+	dispose(): void {
+		while (this._disposables.length) {
+			this._disposables.pop()?.dispose();
+		}
+	}
+}
@@ -0,0 +1,559 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Position of a hwdef line, line is zero based like vscode.Position
+ */
+export interface HwdefLocation {
+	file: string;
+	line: number;
+}
+
+export interface HwdefPin {
+	// e.g. PA9
+	port: string;
+	// e.g. USART1_TX
+	label: string;
+	// e.g. USART1, OUTPUT, CS, ADC1
+	type: string;
+	modifiers: string[];
+	// ALT(n) index, pins may be redefined for alternate configurations
+	alt: number;
+	location: HwdefLocation;
+}
+
+/**
+ * Any other hwdef statement: config keys such as MCU, define, env and devices
+ * such as SPIDEV and IMU
+ */
+export interface HwdefStatement {
+	keyword: string;
+	args: string[];
+	location: HwdefLocation;
+}
+
+export interface HwdefInclude {
+	path: string;
+	resolved: string;
+	location: HwdefLocation;
+}
+
+export type HwdefSeverity = 'error' | 'warning' | 'information';
+
+export interface HwdefDiagnostic {
+	location: HwdefLocation;
+	// columns of the offending token, the whole line when not set
+	start?: number;
+	end?: number;
+	message: string;
+	severity: HwdefSeverity;
+}
+
+/**
+ * Effective board definition after following includes and undefs
+ */
+export interface Hwdef {
+	root: string;
+	files: string[];
+	config: Map<string, HwdefStatement>;
+	defines: Map<string, HwdefStatement>;
+	env: Map<string, HwdefStatement>;
+	pins: HwdefPin[];
+	devices: HwdefStatement[];
+	includes: HwdefInclude[];
+	diagnostics: HwdefDiagnostic[];
+	// pin:function to alternate function number for the MCU, when its table was found
+	altFunctions?: Map<string, number>;
+}
+
+export interface HwdefToken {
+	text: string;
+	start: number;
+}
+
+export interface HwdefParseOptions {
+	// returns file contents, e.g. from an unsaved editor, undefined when missing
+	readFile?: (file: string) => string | undefined;
+	// alternate function table for an MCU such as STM32H743xx
+	altFunctions?: (mcu: string, root: string) => Map<string, number> | undefined;
+}
+
+// statements that may appear several times, one entry per device
+export const DEVICE_KEYWORDS = ['SPIDEV', 'QSPIDEV', 'OSPIDEV', 'IMU', 'BARO', 'COMPASS', 'AIRSPEED', 'DATAFLASH', 'ROMFS'];
+
+export const HWDEF_KEYWORDS: Record<string, string> = {
+	include: 'Includes another hwdef file, relative to this one',
+	undef: 'Removes earlier pins, defines, config keys or devices so they can be redefined',
+	define: 'Adds a C preprocessor define to hwdef.h',
+	env: 'Sets a waf build environment variable',
+	MCU: 'MCU family and type, e.g. `MCU STM32H7xx STM32H743xx`',
+	FLASH_SIZE_KB: 'Total internal flash in KB',
+	FLASH_RESERVE_START_KB: 'Flash reserved for the bootloader at the start of flash, in KB',
+	FLASH_RESERVE_END_KB: 'Flash reserved at the end of flash, in KB',
+	FLASH_BOOTLOADER_LOAD_KB: 'Offset the bootloader loads the firmware at, in KB',
+	FLASH_USE_MAX_KB: 'Limit on the flash used by the firmware, in KB',
+	EXT_FLASH_SIZE_MB: 'Size of external flash in MB',
+	EXT_FLASH_RESERVE_START_KB: 'External flash reserved at the start, in KB',
+	EXT_FLASH_RESERVE_END_KB: 'External flash reserved at the end, in KB',
+	INT_FLASH_PRIMARY: 'Run from internal flash when external flash is also present',
+	STORAGE_FLASH_PAGE: 'First flash page used for parameter storage when there is no FRAM or SD card',
+	APJ_BOARD_ID: 'Board ID checked by the bootloader before flashing',
+	APJ_BOARD_TYPE: 'Board type written into the .apj file',
+	OSCILLATOR_HZ: 'External crystal frequency in Hz, 0 for the internal oscillator',
+	MCU_CLOCKRATE_MHZ: 'System clock in MHz',
+	STM32_ST_USE_TIMER: 'Timer used for the ChibiOS system tick',
+	SERIAL_ORDER: 'Mapping of SERIALn ports to UARTs',
+	I2C_ORDER: 'Order of the I2C buses',
+	CAN_ORDER: 'Order of the CAN interfaces',
+	CANFD_SUPPORTED: 'Number of CAN interfaces that support CAN FD',
+	PERIPH_FW: 'Marks an AP_Periph board',
+	STDOUT_SERIAL: 'UART used for printf output',
+	STDOUT_BAUDRATE: 'Baudrate of the printf UART',
+	USB_VENDOR: 'USB vendor ID',
+	USB_PRODUCT: 'USB product ID',
+	USB_STRING_MANUFACTURER: 'USB manufacturer string',
+	USB_STRING_PRODUCT: 'USB product string',
+	USB_STRING_SERIAL: 'USB serial number string',
+	MAIN_STACK: 'Size of the main stack',
+	PROCESS_STACK: 'Size of the process stack',
+	IOMCU_UART: 'UART connected to the IOMCU',
+	IOMCU_FW: 'Firmware image for the IOMCU',
+	RAM_MAP: 'Memory regions used for RAM',
+	RAM_RESERVE_START: 'RAM reserved at the start of memory',
+	DMA_PRIORITY: 'Peripherals given priority when DMA streams are shared',
+	DMA_NOSHARE: 'Peripherals that must not share DMA streams',
+	DMA_NOMAP: 'Disable automatic DMA allocation',
+	NODMA: 'Peripherals that do not use DMA',
+	BOOTLOADER_DEV_LIST: 'Devices the bootloader listens on',
+	BOOTLOADER_EMBED: 'Embed the bootloader in the firmware',
+	ROMFS_WILDCARD: 'Files matching a pattern to embed in ROMFS',
+	AUTOBUILD_TARGETS: 'Vehicles built for this board by the build server',
+	ENABLE_DFU_BOOT: 'Allow rebooting into the STM32 DFU bootloader',
+	DEFAULTGPIO: 'Default mode of pins not listed in the hwdef',
+	SPIDEV: 'SPI device: `SPIDEV name bus devid cs mode lowspeed highspeed`',
+	QSPIDEV: 'Quad SPI device',
+	OSPIDEV: 'Octo SPI device',
+	IMU: 'IMU probed at boot: `IMU driver bus args... rotation`',
+	BARO: 'Barometer probed at boot: `BARO driver bus args...`',
+	COMPASS: 'Compass probed at boot: `COMPASS driver bus args... external rotation`',
+	AIRSPEED: 'Airspeed sensor probed at boot',
+	DATAFLASH: 'Dataflash logging device',
+	ROMFS: 'File embedded in ROMFS: `ROMFS name source`'
+};
+
+// pin functions taken from the MCU's alternate function table, as in chibios_hwdef.py
+const AF_LABELS = ['USART', 'UART', 'SPI', 'I2C', 'SDIO', 'SDMMC', 'OTG', 'JT', 'TIM', 'CAN', 'QUADSPI', 'OCTOSPI', 'ETH', 'MCO'];
+
+const PIN_PATTERN = /^P[A-K]\d+$/;
+
+/**
+ * Splits a hwdef line into tokens with their columns, dropping # comments
+ */
+export function tokenizeHwdefLine(line: string): HwdefToken[] {
+	const tokens: HwdefToken[] = [];
+	const text = line.replace(/#.*$/, '');
+	const pattern = /\S+/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		tokens.push({ text: match[0], start: match.index });
+	}
+	return tokens;
+}
+
+export function isPinName(name: string): boolean {
+	return PIN_PATTERN.test(name);
+}
+
+/**
+ * Whether a pin function must come from the alternate function table
+ */
+export function needsAltFunction(label: string): boolean {
+	// chibios_hwdef.py does RTS in software
+	if (label.endsWith('_RTS') && (label.startsWith('USART') || label.startsWith('UART'))) {
+		return false;
+	}
+	return AF_LABELS.some(prefix => label.startsWith(prefix));
+}
+
+/**
+ * Reads AltFunction_map from an MCU script such as hwdef/scripts/STM32H743xx.py
+ */
+export function parseAltFunctionMap(source: string): Map<string, number> {
+	const map = new Map<string, number>();
+	const start = source.indexOf('AltFunction_map');
+	if (start < 0) {
+		return map;
+	}
+	const pattern = /"(P[A-K]\d+:[^"]+)"\s*:\s*(\d+)/g;
+	let match: RegExpExecArray | null;
+	pattern.lastIndex = start;
+	while ((match = pattern.exec(source)) !== null) {
+		map.set(match[1], parseInt(match[2], 10));
+	}
+	return map;
+}
+
+function defaultReadFile(file: string): string | undefined {
+	try {
+		return fs.readFileSync(file, 'utf8');
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Reads hwdef/scripts/<mcu>.py, found above the hwdef file
+ */
+export function readMcuScript(mcu: string, root: string): string | undefined {
+	let dir = path.dirname(root);
+	while (path.basename(dir) !== 'hwdef' && path.dirname(dir) !== dir) {
+		dir = path.dirname(dir);
+	}
+	return defaultReadFile(path.join(dir, 'scripts', `${mcu}.py`));
+}
+
+function defaultAltFunctions(mcu: string, root: string): Map<string, number> | undefined {
+	const source = readMcuScript(mcu, root);
+	return source ? parseAltFunctionMap(source) : undefined;
+}
+
+function lineDiagnostic(location: HwdefLocation, message: string, severity: HwdefSeverity, token?: HwdefToken): HwdefDiagnostic {
+	return { location, message, severity, start: token?.start, end: token ? token.start + token.text.length : undefined };
+}
+
+function describeLocation(location: HwdefLocation, root: string): string {
+	const file = location.file === root ? '' : `${path.basename(path.dirname(location.file))}/${path.basename(location.file)}:`;
+	return `${file}line ${location.line + 1}`;
+}
+
+/**
+ * Parses a hwdef.dat the way chibios_hwdef.py reads it: includes are expanded
+ * in place, later lines override earlier ones and undef removes what came before
+ */
+export function parseHwdef(root: string, options: HwdefParseOptions = {}): Hwdef {
+	const readFile = options.readFile ?? defaultReadFile;
+	const hwdef: Hwdef = {
+		root,
+		files: [],
+		config: new Map(),
+		defines: new Map(),
+		env: new Map(),
+		pins: [],
+		devices: [],
+		includes: [],
+		diagnostics: []
+	};
+
+	const parseFile = (file: string, includedFrom?: { location: HwdefLocation, token: HwdefToken }) => {
+		if (hwdef.files.includes(file)) {
+			if (includedFrom) {
+				hwdef.diagnostics.push(lineDiagnostic(includedFrom.location, `${path.basename(file)} is included more than once`, 'warning', includedFrom.token));
+			}
+			return;
+		}
+		const content = readFile(file);
+		if (content === undefined) {
+			if (includedFrom) {
+				hwdef.diagnostics.push(lineDiagnostic(includedFrom.location, `Included file not found: ${file}`, 'error', includedFrom.token));
+			}
+			return;
+		}
+		hwdef.files.push(file);
+
+		content.split(/\r?\n/).forEach((text, line) => {
+			const tokens = tokenizeHwdefLine(text);
+			if (tokens.length === 0) {
+				return;
+			}
+			const location = { file, line };
+			const keyword = tokens[0].text;
+			const args = tokens.slice(1).map(token => token.text);
+
+			if (keyword === 'include') {
+				if (tokens.length < 2) {
+					hwdef.diagnostics.push(lineDiagnostic(location, 'include needs a file name', 'error', tokens[0]));
+					return;
+				}
+				const resolved = path.resolve(path.dirname(file), args.join(' '));
+				hwdef.includes.push({ path: args.join(' '), resolved, location });
+				parseFile(resolved, { location, token: tokens[1] });
+			} else if (keyword === 'undef') {
+				args.forEach(name => undef(hwdef, name));
+			} else if (keyword === 'define' || keyword === 'env') {
+				if (tokens.length < 2) {
+					hwdef.diagnostics.push(lineDiagnostic(location, `${keyword} needs a name`, 'error', tokens[0]));
+					return;
+				}
+				(keyword === 'define' ? hwdef.defines : hwdef.env).set(args[0], { keyword, args, location });
+			} else if (/^P[A-Z]\d+$/.test(keyword)) {
+				parsePin(hwdef, tokens, location);
+			} else if (DEVICE_KEYWORDS.includes(keyword)) {
+				hwdef.devices.push({ keyword, args, location });
+			} else {
+				if (!(keyword in HWDEF_KEYWORDS)) {
+					hwdef.diagnostics.push(lineDiagnostic(location, `Unknown directive ${keyword}`, 'warning', tokens[0]));
+				}
+				hwdef.config.set(keyword, { keyword, args, location });
+			}
+		});
+	};
+
+	parseFile(root);
+	validate(hwdef, options.altFunctions ?? defaultAltFunctions);
+	return hwdef;
+}
+
+function parsePin(hwdef: Hwdef, tokens: HwdefToken[], location: HwdefLocation): void {
+	const port = tokens[0].text;
+	if (!isPinName(port) || parseInt(port.slice(2), 10) > 15) {
+		hwdef.diagnostics.push(lineDiagnostic(location, `${port} is not a valid pin, expected PA0 to PK15`, 'error', tokens[0]));
+		return;
+	}
+	if (tokens.length < 3) {
+		hwdef.diagnostics.push(lineDiagnostic(location, `Pin ${port} needs a label and a type`, 'error', tokens[0]));
+		return;
+	}
+	const modifiers = tokens.slice(3).map(token => token.text);
+	const altModifier = modifiers.find(modifier => /^ALT\(\d+\)$/.test(modifier));
+	const pin: HwdefPin = {
+		port,
+		label: tokens[1].text,
+		type: tokens[2].text,
+		modifiers,
+		alt: altModifier ? parseInt(altModifier.slice(4, -1), 10) : 0,
+		location
+	};
+
+	const sameAlt = hwdef.pins.filter(other => other.alt === pin.alt);
+	const previous = sameAlt.find(other => other.port === port);
+	if (previous) {
+		hwdef.diagnostics.push(lineDiagnostic(location,
+			`${port} is already assigned to ${previous.label} at ${describeLocation(previous.location, hwdef.root)}, undef ${port} before reassigning it`,
+			'warning', tokens[0]));
+		hwdef.pins.splice(hwdef.pins.indexOf(previous), 1);
+	}
+	const sameFunction = sameAlt.find(other => other.label === pin.label && other.port !== port);
+	if (sameFunction) {
+		hwdef.diagnostics.push(lineDiagnostic(location,
+			`${pin.label} is also assigned to ${sameFunction.port} at ${describeLocation(sameFunction.location, hwdef.root)}`,
+			needsAltFunction(pin.label) ? 'error' : 'warning', tokens[1]));
+	}
+	hwdef.pins.push(pin);
+}
+
+/**
+ * Removes whatever an undef names: a pin by port or label, a define, a config
+ * key, a device keyword such as IMU, or a single SPI device by name
+ */
+function undef(hwdef: Hwdef, name: string): void {
+	hwdef.pins = hwdef.pins.filter(pin => pin.port !== name && pin.label !== name);
+	hwdef.defines.delete(name);
+	hwdef.env.delete(name);
+	hwdef.config.delete(name);
+	hwdef.devices = hwdef.devices.filter(device => device.keyword !== name && !(device.keyword.endsWith('SPIDEV') && device.args[0] === name));
+}
+
+function validate(hwdef: Hwdef, altFunctions: (mcu: string, root: string) => Map<string, number> | undefined): void {
+	const diagnosticAt = (statement: HwdefStatement, message: string, severity: HwdefSeverity) => {
+		hwdef.diagnostics.push({ location: statement.location, message, severity });
+	};
+
+	for (const key of ['FLASH_SIZE_KB', 'STORAGE_FLASH_PAGE', 'APJ_BOARD_ID', 'OSCILLATOR_HZ']) {
+		const statement = hwdef.config.get(key);
+		// APJ_BOARD_ID may also name a board type from board_types.txt
+		if (statement && key !== 'APJ_BOARD_ID' && !/^\d+$/.test(statement.args[0] ?? '')) {
+			diagnosticAt(statement, `${key} expects a number`, 'error');
+		}
+	}
+
+	const mcu = hwdef.config.get('MCU');
+	if (mcu && mcu.args.length < 2) {
+		diagnosticAt(mcu, 'MCU expects the family and the type, e.g. MCU STM32H7xx STM32H743xx', 'error');
+	}
+	const mcuType = mcu?.args[1];
+	hwdef.altFunctions = mcuType ? altFunctions(mcuType, hwdef.root) : undefined;
+	if (hwdef.altFunctions && hwdef.altFunctions.size > 0) {
+		for (const pin of hwdef.pins) {
+			if (needsAltFunction(pin.label) && !hwdef.altFunctions.has(`${pin.port}:${pin.label}`)) {
+				hwdef.diagnostics.push({
+					location: pin.location,
+					message: `${pin.port} has no alternate function ${pin.label} on ${mcuType}`,
+					severity: 'error'
+				});
+			}
+		}
+	}
+
+	const chipSelects = new Set(hwdef.pins.filter(pin => pin.type === 'CS').map(pin => pin.label));
+	for (const device of hwdef.devices.filter(d => d.keyword === 'SPIDEV')) {
+		if (device.args.length < 7) {
+			diagnosticAt(device, 'SPIDEV expects name bus devid cs mode lowspeed highspeed', 'error');
+		} else if (!chipSelects.has(device.args[3])) {
+			diagnosticAt(device, `SPI device ${device.args[0]} uses chip select ${device.args[3]}, which is not a CS pin`, 'warning');
+		}
+	}
+}
+
+/**
+ * Alternate function number of a pin, when the MCU table is known
+ */
+export function altFunctionOf(hwdef: Hwdef, pin: HwdefPin): number | undefined {
+	return hwdef.altFunctions?.get(`${pin.port}:${pin.label}`);
+}
+
+export interface PinoutPin {
+	port: string;
+	// unset for pins the hwdef does not assign
+	label?: string;
+	type?: string;
+	alt?: number;
+	af?: number;
+	gpio?: number;
+	modifiers: string[];
+	location?: HwdefLocation;
+}
+
+export interface SerialPort {
+	serial: number;
+	// e.g. USART2, OTG1 or EMPTY
+	uart: string;
+	// e.g. PD5 USART2_TX
+	pins: string[];
+}
+
+export interface SpiDevice {
+	name: string;
+	bus: string;
+	devid: string;
+	cs: string;
+	mode: string;
+	lowSpeed: string;
+	highSpeed: string;
+	location: HwdefLocation;
+}
+
+export interface DmaAssignment {
+	// e.g. SPI1_RX
+	peripheral: string;
+	// e.g. DMA1 Stream 5
+	stream: string;
+	channel?: string;
+	shared: boolean;
+}
+
+export interface BoardPinout {
+	mcu?: string;
+	pins: PinoutPin[];
+	serialOrder: SerialPort[];
+	spiDevices: SpiDevice[];
+	// only known once the board has been configured, from the generated hwdef.h
+	dma?: DmaAssignment[];
+}
+
+/**
+ * Reads the number of pins per port from an MCU script, e.g. pincount = { 'A': 16, ... }
+ */
+export function parsePinCount(source: string): Map<string, number> {
+	const counts = new Map<string, number>();
+	const start = source.indexOf('pincount');
+	if (start < 0) {
+		return counts;
+	}
+	const block = source.slice(start, source.indexOf('}', start));
+	const pattern = /['"]([A-K])['"]\s*:\s*(\d+)/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(block)) !== null) {
+		counts.set(match[1], parseInt(match[2], 10));
+	}
+	return counts;
+}
+
+/**
+ * Reads the DMA streams dma_resolver.py picked from the hwdef.h generated by waf configure
+ */
+export function parseDmaAssignments(hwdefH: string): DmaAssignment[] {
+	const assignments: DmaAssignment[] = [];
+	const channels = new Map<string, string>();
+	const channelPattern = /^#define\s+STM32_\w+?_(\w+)_DMA_CHAN\s+(\S+)/gm;
+	let match: RegExpExecArray | null;
+	while ((match = channelPattern.exec(hwdefH)) !== null) {
+		channels.set(match[1], match[2]);
+	}
+	const streamPattern = /^#define\s+STM32_\w+?_(\w+)_DMA_STREAM\s+STM32_DMA_STREAM_ID\((\d+),\s*(\d+)\)(?:\s*\/\/\s*(.*))?$/gm;
+	while ((match = streamPattern.exec(hwdefH)) !== null) {
+		assignments.push({
+			peripheral: match[1],
+			stream: `DMA${match[2]} Stream ${match[3]}`,
+			channel: channels.get(match[1]),
+			shared: /shared/i.test(match[4] ?? '')
+		});
+	}
+	return assignments;
+}
+
+function comparePorts(a: string, b: string): number {
+	return a[1].localeCompare(b[1]) || parseInt(a.slice(2), 10) - parseInt(b.slice(2), 10);
+}
+
+/**
+ * Every pin of the MCU with its assignment, plus the serial ports and SPI devices built from them
+ * @param pinCount - pins per port from the MCU script, when known unassigned pins are listed too
+ */
+export function buildPinout(hwdef: Hwdef, pinCount?: Map<string, number>, dma?: DmaAssignment[]): BoardPinout {
+	const pins: PinoutPin[] = hwdef.pins.map(pin => {
+		const gpio = pin.modifiers.find(modifier => /^GPIO\(\d+\)$/.test(modifier));
+		return {
+			port: pin.port,
+			label: pin.label,
+			type: pin.type,
+			alt: pin.alt,
+			af: altFunctionOf(hwdef, pin),
+			gpio: gpio ? parseInt(gpio.slice(5, -1), 10) : undefined,
+			modifiers: pin.modifiers.filter(modifier => modifier !== gpio && !modifier.startsWith('ALT(')),
+			location: pin.location
+		};
+	});
+	for (const [port, count] of pinCount ?? []) {
+		for (let i = 0; i < count; i++) {
+			if (!pins.some(pin => pin.port === `P${port}${i}`)) {
+				pins.push({ port: `P${port}${i}`, modifiers: [] });
+			}
+		}
+	}
+	pins.sort((a, b) => comparePorts(a.port, b.port) || (a.alt ?? 0) - (b.alt ?? 0));
+
+	const serialOrder = (hwdef.config.get('SERIAL_ORDER')?.args ?? []).map((uart, serial) => ({
+		serial,
+		uart,
+		pins: hwdef.pins.filter(pin => pin.alt === 0 && pin.type === uart).map(pin => `${pin.port} ${pin.label}`)
+	}));
+
+	const spiDevices = hwdef.devices.filter(device => device.keyword === 'SPIDEV').map(device => ({
+		name: device.args[0] ?? '',
+		bus: device.args[1] ?? '',
+		devid: device.args[2] ?? '',
+		cs: device.args[3] ?? '',
+		mode: device.args[4] ?? '',
+		lowSpeed: device.args[5] ?? '',
+		highSpeed: device.args[6] ?? '',
+		location: device.location
+	}));
+
+	return { mcu: hwdef.config.get('MCU')?.args[1], pins, serialOrder, spiDevices, dma };
+}
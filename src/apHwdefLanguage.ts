@@ -0,0 +1,274 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { apLog } from './apLog';
+import {
+	HWDEF_KEYWORDS,
+	Hwdef,
+	HwdefDiagnostic,
+	HwdefPin,
+	altFunctionOf,
+	isPinName,
+	parseHwdef,
+	tokenizeHwdefLine
+} from './apHwdef';
+
+export const HWDEF_LANGUAGE = 'hwdef';
+
+const SENSOR_KEYWORDS = ['IMU', 'BARO', 'COMPASS', 'AIRSPEED'];
+// delay before re-validating while typing
+const VALIDATE_DELAY_MS = 500;
+
+/**
+ * Parses a hwdef document, reading included files from open editors when they have unsaved changes
+ */
+function parseDocument(document: vscode.TextDocument): Hwdef {
+	return parseHwdef(document.uri.fsPath, {
+		readFile: (file: string) => {
+			const open = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === file);
+			if (open) {
+				return open.getText();
+			}
+			try {
+				return fs.readFileSync(file, 'utf8');
+			} catch {
+				return undefined;
+			}
+		}
+	});
+}
+
+function describePin(hwdef: Hwdef, pin: HwdefPin): string {
+	const af = altFunctionOf(hwdef, pin);
+	const details = [`**${pin.port}** \`${pin.label}\` ${pin.type}`];
+	if (pin.modifiers.length > 0) {
+		details.push(`Modifiers: ${pin.modifiers.join(' ')}`);
+	}
+	if (af !== undefined) {
+		details.push(`Alternate function AF${af}`);
+	}
+	if (pin.location.file !== hwdef.root) {
+		details.push(`Defined in ${path.basename(path.dirname(pin.location.file))}/${path.basename(pin.location.file)}:${pin.location.line + 1}`);
+	}
+	return details.join('\n\n');
+}
+
+export class apHwdefLanguageProvider implements vscode.DocumentSymbolProvider, vscode.HoverProvider, vscode.DocumentLinkProvider {
+	private cache = new Map<string, { version: number, hwdef: Hwdef }>();
+
+	parse(document: vscode.TextDocument): Hwdef {
+		const key = document.uri.toString();
+		const cached = this.cache.get(key);
+		if (cached && cached.version === document.version) {
+			return cached.hwdef;
+		}
+		const hwdef = parseDocument(document);
+		this.cache.set(key, { version: document.version, hwdef });
+		return hwdef;
+	}
+
+	forget(document: vscode.TextDocument): void {
+		this.cache.delete(document.uri.toString());
+	}
+
+	provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+		const groups = new Map<string, vscode.DocumentSymbol[]>();
+		const add = (group: string, symbol: vscode.DocumentSymbol) => {
+			const list = groups.get(group) ?? [];
+			list.push(symbol);
+			groups.set(group, list);
+		};
+
+		for (let line = 0; line < document.lineCount; line++) {
+			const tokens = tokenizeHwdefLine(document.lineAt(line).text);
+			if (tokens.length === 0) {
+				continue;
+			}
+			const range = document.lineAt(line).range;
+			const selection = new vscode.Range(line, tokens[0].start, line, tokens[0].start + tokens[0].text.length);
+			const keyword = tokens[0].text;
+			const args = tokens.slice(1).map(token => token.text);
+			const symbol = (name: string, detail: string, kind: vscode.SymbolKind) =>
+				new vscode.DocumentSymbol(name || keyword, detail, kind, range, selection);
+
+			if (isPinName(keyword)) {
+				add('Pins', symbol(`${keyword} ${args[0] ?? ''}`.trim(), args.slice(1).join(' '), vscode.SymbolKind.Field));
+			} else if (keyword.endsWith('SPIDEV')) {
+				add('SPI Devices', symbol(args[0], args.slice(1).join(' '), vscode.SymbolKind.Object));
+			} else if (SENSOR_KEYWORDS.includes(keyword)) {
+				add('Sensors', symbol(`${keyword} ${args[0] ?? ''}`.trim(), args.slice(1).join(' '), vscode.SymbolKind.Object));
+			} else if (keyword === 'define') {
+				add('Defines', symbol(args[0], args.slice(1).join(' '), vscode.SymbolKind.Constant));
+			} else if (keyword === 'env') {
+				add('Environment', symbol(args[0], args.slice(1).join(' '), vscode.SymbolKind.Variable));
+			} else if (keyword === 'include') {
+				add('Includes', symbol(args.join(' '), '', vscode.SymbolKind.File));
+			} else if (keyword === 'undef') {
+				add('Configuration', symbol(`undef ${args.join(' ')}`, '', vscode.SymbolKind.Null));
+			} else {
+				add('Configuration', symbol(keyword, args.join(' '), vscode.SymbolKind.Property));
+			}
+		}
+
+		const order = ['Configuration', 'Includes', 'Pins', 'SPI Devices', 'Sensors', 'Defines', 'Environment'];
+		return order.filter(name => groups.has(name)).map(name => {
+			const children = groups.get(name) ?? [];
+			const range = new vscode.Range(children[0].range.start, children[children.length - 1].range.end);
+			const group = new vscode.DocumentSymbol(name, `${children.length}`, vscode.SymbolKind.Namespace, range, children[0].selectionRange);
+			group.children = children;
+			return group;
+		});
+	}
+
+	provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+		const tokens = tokenizeHwdefLine(document.lineAt(position.line).text);
+		const index = tokens.findIndex(token => position.character >= token.start && position.character <= token.start + token.text.length);
+		if (index < 0) {
+			return undefined;
+		}
+		const token = tokens[index];
+		const range = new vscode.Range(position.line, token.start, position.line, token.start + token.text.length);
+		const hwdef = this.parse(document);
+
+		if (index === 0 && token.text in HWDEF_KEYWORDS) {
+			return new vscode.Hover(new vscode.MarkdownString(`**${token.text}**\n\n${HWDEF_KEYWORDS[token.text]}`), range);
+		}
+		if (index > 0 && tokens[0].text === 'include') {
+			const resolved = path.resolve(path.dirname(document.uri.fsPath), tokens.slice(1).map(t => t.text).join(' '));
+			return new vscode.Hover(new vscode.MarkdownString().appendText(resolved), range);
+		}
+
+		const name = token.text;
+		// the pin defined on this line, otherwise the effective pin with this port or label
+		const pin = hwdef.pins.find(p => p.location.file === document.uri.fsPath && p.location.line === position.line && (p.port === name || p.label === name))
+			?? hwdef.pins.find(p => p.port === name || p.label === name);
+		if (pin) {
+			return new vscode.Hover(new vscode.MarkdownString(describePin(hwdef, pin)), range);
+		}
+		const statement = hwdef.defines.get(name) ?? hwdef.env.get(name) ?? hwdef.config.get(name);
+		if (statement) {
+			const value = statement.keyword === 'define' || statement.keyword === 'env' ? statement.args.slice(1) : statement.args;
+			return new vscode.Hover(new vscode.MarkdownString().appendCodeblock(`${name} ${value.join(' ')}`.trim(), HWDEF_LANGUAGE), range);
+		}
+		return undefined;
+	}
+
+	provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+		const links: vscode.DocumentLink[] = [];
+		for (let line = 0; line < document.lineCount; line++) {
+			const tokens = tokenizeHwdefLine(document.lineAt(line).text);
+			if (tokens.length < 2 || tokens[0].text !== 'include') {
+				continue;
+			}
+			const last = tokens[tokens.length - 1];
+			const target = path.resolve(path.dirname(document.uri.fsPath), tokens.slice(1).map(token => token.text).join(' '));
+			const link = new vscode.DocumentLink(new vscode.Range(line, tokens[1].start, line, last.start + last.text.length), vscode.Uri.file(target));
+			link.tooltip = 'Open included hwdef';
+			links.push(link);
+		}
+		return links;
+	}
+}
+
+/**
+ * Keeps the Problems view up to date for open hwdef files
+ */
+export class apHwdefDiagnostics implements vscode.Disposable {
+	private static log = new apLog('apHwdefDiagnostics').log;
+	private collection = vscode.languages.createDiagnosticCollection(HWDEF_LANGUAGE);
+	private timers = new Map<string, NodeJS.Timeout>();
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private provider: apHwdefLanguageProvider) {
+		this.disposables.push(
+			vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+			vscode.workspace.onDidSaveTextDocument(document => this.validate(document)),
+			vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document)),
+			vscode.workspace.onDidCloseTextDocument(document => {
+				this.collection.delete(document.uri);
+				this.provider.forget(document);
+			})
+		);
+		vscode.workspace.textDocuments.forEach(document => this.validate(document));
+	}
+
+	private schedule(document: vscode.TextDocument): void {
+		if (document.languageId !== HWDEF_LANGUAGE) {
+			return;
+		}
+		const key = document.uri.toString();
+		clearTimeout(this.timers.get(key));
+		this.timers.set(key, setTimeout(() => {
+			this.timers.delete(key);
+			this.validate(document);
+		}, VALIDATE_DELAY_MS));
+	}
+
+	validate(document: vscode.TextDocument): void {
+		if (document.languageId !== HWDEF_LANGUAGE) {
+			return;
+		}
+		try {
+			const hwdef = this.provider.parse(document);
+			// problems inside included files are reported when those files are opened
+			const diagnostics = hwdef.diagnostics
+				.filter(diagnostic => diagnostic.location.file === document.uri.fsPath)
+				.map(diagnostic => this.toDiagnostic(document, diagnostic));
+			this.collection.set(document.uri, diagnostics);
+		} catch (error) {
+			apHwdefDiagnostics.log(`Failed to validate ${document.uri.fsPath}: ${error}`);
+		}
+	}
+
+	private toDiagnostic(document: vscode.TextDocument, diagnostic: HwdefDiagnostic): vscode.Diagnostic {
+		const line = Math.min(diagnostic.location.line, document.lineCount - 1);
+		const range = diagnostic.start !== undefined && diagnostic.end !== undefined
+			? new vscode.Range(line, diagnostic.start, line, diagnostic.end)
+			: document.lineAt(line).range;
+		const severity = diagnostic.severity === 'error' ? vscode.DiagnosticSeverity.Error
+			: diagnostic.severity === 'warning' ? vscode.DiagnosticSeverity.Warning
+				: vscode.DiagnosticSeverity.Information;
+		const result = new vscode.Diagnostic(range, diagnostic.message, severity);
+		result.source = HWDEF_LANGUAGE;
+		return result;
+	}
+
+	dispose(): void {
+		this.timers.forEach(timer => clearTimeout(timer));
+		this.timers.clear();
+		this.collection.dispose();
+		while (this.disposables.length) {
+			this.disposables.pop()?.dispose();
+		}
+	}
+}
+
+/**
+ * Registers outline, hover, include links and diagnostics for hwdef files
+ */
+export function registerHwdefLanguage(context: vscode.ExtensionContext): void {
+	const provider = new apHwdefLanguageProvider();
+	const selector: vscode.DocumentSelector = { language: HWDEF_LANGUAGE };
+	context.subscriptions.push(
+		vscode.languages.registerDocumentSymbolProvider(selector, provider),
+		vscode.languages.registerHoverProvider(selector, provider),
+		vscode.languages.registerDocumentLinkProvider(selector, provider),
+		new apHwdefDiagnostics(provider)
+	);
+}
@@ -0,0 +1,296 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+/*
+	apIntelliSense.ts
+	IntelliSense from the compile database of the active configuration: a
+	C/C++ extension configuration provider serving the flags of each file,
+	or clangd pointed at the board's build directory.
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+	CppToolsApi,
+	CustomConfigurationProvider,
+	SourceFileConfiguration,
+	SourceFileConfigurationItem,
+	Version,
+	WorkspaceBrowseConfiguration,
+	getCppToolsApi
+} from 'vscode-cpptools';
+import { apLog } from './apLog';
+import { apWorkspace } from './apWorkspace';
+import {
+	CompileCommand,
+	CompileDatabase,
+	CompileFlags,
+	compileCommandsPath,
+	compileFlags,
+	hwdefHeaderPath,
+	parseCompileCommands
+} from './apCompileCommands';
+
+export type IntelliSenseBackend = 'auto' | 'cpptools' | 'clangd' | 'none';
+
+export class apIntelliSense implements CustomConfigurationProvider, vscode.Disposable {
+	private static log = new apLog('apIntelliSense').log;
+	private static instance: apIntelliSense | undefined;
+	public static readonly EXTENSION_ID = 'ardupilot-org.ardupilot-devenv';
+	private static readonly CPPTOOLS = 'ms-vscode.cpptools';
+	private static readonly CLANGD = 'llvm-vs-code-extensions.vscode-clangd';
+
+	public readonly name = 'ArduPilot';
+	public readonly extensionId = apIntelliSense.EXTENSION_ID;
+
+	private api: CppToolsApi | undefined;
+	private database: CompileDatabase | undefined;
+	private flags = new Map<CompileCommand, CompileFlags>();
+	private workspaceRoot: string | undefined;
+	private board: string | undefined;
+	private hwdefHeader: string | undefined;
+	private watcher: vscode.FileSystemWatcher | undefined;
+	private reloadTimer: NodeJS.Timeout | undefined;
+	private disposables: vscode.Disposable[] = [];
+
+	/**
+	 * Registers the configuration provider with the C/C++ extension, when
+	 * it is installed
+	 */
+	public static initialize(context: vscode.ExtensionContext): void {
+		const intelliSense = new apIntelliSense();
+		apIntelliSense.instance = intelliSense;
+		context.subscriptions.push(intelliSense);
+		void intelliSense.register();
+	}
+
+	/**
+	 * Serves the flags of a board's build, called when the active
+	 * configuration changes
+	 */
+	public static select(board: string, workspaceRoot: string | undefined): void {
+		void apIntelliSense.instance?.select(board, workspaceRoot);
+	}
+
+	// backend chosen in the settings, 'auto' prefers the C/C++ extension
+	public static get backend(): Exclude<IntelliSenseBackend, 'auto'> {
+		const backend = vscode.workspace.getConfiguration('ardupilot').get<IntelliSenseBackend>('intelliSense.backend', 'auto');
+		if (backend !== 'auto') {
+			return backend;
+		}
+		if (vscode.extensions.getExtension(apIntelliSense.CPPTOOLS)) {
+			return 'cpptools';
+		}
+		return vscode.extensions.getExtension(apIntelliSense.CLANGD) ? 'clangd' : 'none';
+	}
+
+	private constructor() {
+		this.disposables.push(vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('ardupilot.intelliSense.backend') && this.board) {
+				void this.select(this.board, this.workspaceRoot);
+			}
+		}));
+	}
+
+	private async register(): Promise<void> {
+		try {
+			this.api = await getCppToolsApi(Version.v6);
+		} catch (error) {
+			apIntelliSense.log(`C/C++ extension API unavailable: ${error}`);
+		}
+		if (!this.api) {
+			return;
+		}
+		this.api.registerCustomConfigurationProvider(this);
+		this.api.notifyReady(this);
+		apIntelliSense.log('registered as C/C++ configuration provider');
+	}
+
+	private async select(board: string, workspaceRoot: string | undefined): Promise<void> {
+		this.board = board;
+		this.workspaceRoot = workspaceRoot;
+		this.watch();
+		await this.reload();
+		if (apIntelliSense.backend === 'clangd') {
+			await this.configureClangd();
+		}
+	}
+
+	// the compile database and hwdef.h are rewritten by every configure
+	private watch(): void {
+		this.watcher?.dispose();
+		this.watcher = undefined;
+		if (!this.workspaceRoot || !this.board) {
+			return;
+		}
+		const pattern = new vscode.RelativePattern(this.workspaceRoot, `build/${this.board}/{compile_commands.json,hwdef.h}`);
+		this.watcher = vscode.workspace.createFileSystemWatcher(pattern);
+		const changed = () => {
+			// waf writes both files, reload once it is done
+			clearTimeout(this.reloadTimer);
+			this.reloadTimer = setTimeout(() => void this.reload(), 500);
+		};
+		this.watcher.onDidChange(changed);
+		this.watcher.onDidCreate(changed);
+		this.watcher.onDidDelete(changed);
+	}
+
+	private async reload(): Promise<void> {
+		this.database = undefined;
+		this.flags.clear();
+		this.hwdefHeader = undefined;
+		if (this.workspaceRoot && this.board) {
+			const file = compileCommandsPath(this.workspaceRoot, this.board);
+			try {
+				this.database = new CompileDatabase(parseCompileCommands(await fs.promises.readFile(file, 'utf8')));
+				apIntelliSense.log(`read ${this.database.size} translation units from ${file}`);
+			} catch (error) {
+				apIntelliSense.log(`no compile database for ${this.board}, build the configuration first: ${error}`);
+			}
+			const hwdef = hwdefHeaderPath(this.workspaceRoot, this.board);
+			this.hwdefHeader = fs.existsSync(hwdef) ? hwdef : undefined;
+		}
+		if (this.api) {
+			this.api.didChangeCustomConfiguration(this);
+			this.api.didChangeCustomBrowseConfiguration(this);
+		}
+	}
+
+	private flagsOf(command: CompileCommand): CompileFlags {
+		let flags = this.flags.get(command);
+		if (!flags) {
+			flags = compileFlags(command);
+			// the board's HAL_ options, for sources built without the -include
+			if (this.hwdefHeader && !flags.forcedInclude.includes(this.hwdefHeader)) {
+				flags.forcedInclude.push(this.hwdefHeader);
+			}
+			this.flags.set(command, flags);
+		}
+		return flags;
+	}
+
+	private isInWorkspace(uri: vscode.Uri): boolean {
+		const folder = apWorkspace.folderOfUri(uri);
+		return folder !== undefined && this.workspaceRoot !== undefined && path.resolve(folder.uri.fsPath) === path.resolve(this.workspaceRoot);
+	}
+
+	// clangd chosen in the settings leaves the C/C++ extension to its own configuration
+	private get serving(): boolean {
+		return this.database !== undefined && apIntelliSense.backend === 'cpptools';
+	}
+
+	public async canProvideConfiguration(uri: vscode.Uri): Promise<boolean> {
+		return this.serving && this.isInWorkspace(uri) && this.database?.lookup(uri.fsPath) !== undefined;
+	}
+
+	public async provideConfigurations(uris: vscode.Uri[]): Promise<SourceFileConfigurationItem[]> {
+		const items: SourceFileConfigurationItem[] = [];
+		for (const uri of uris) {
+			const lookup = this.database?.lookup(uri.fsPath);
+			if (!lookup) {
+				continue;
+			}
+			const flags = this.flagsOf(lookup.command);
+			const configuration: SourceFileConfiguration = {
+				includePath: flags.includePath,
+				defines: flags.defines,
+				forcedInclude: flags.forcedInclude,
+				compilerPath: flags.compiler,
+				compilerArgs: flags.compilerArgs,
+				standard: flags.standard as SourceFileConfiguration['standard']
+			};
+			items.push({ uri, configuration });
+		}
+		return items;
+	}
+
+	public async canProvideBrowseConfiguration(): Promise<boolean> {
+		return this.serving;
+	}
+
+	public async provideBrowseConfiguration(): Promise<WorkspaceBrowseConfiguration | null> {
+		if (!this.database || !this.workspaceRoot) {
+			return null;
+		}
+		const browsePath = new Set<string>([this.workspaceRoot]);
+		let first: CompileFlags | undefined;
+		for (const command of this.database.commands) {
+			const flags = this.flagsOf(command);
+			first ??= flags;
+			flags.includePath.forEach(dir => browsePath.add(dir));
+		}
+		return {
+			browsePath: [...browsePath],
+			compilerPath: first?.compiler,
+			compilerArgs: first?.compilerArgs,
+			standard: first?.standard as WorkspaceBrowseConfiguration['standard']
+		};
+	}
+
+	public async canProvideBrowseConfigurationsPerFolder(): Promise<boolean> {
+		return false;
+	}
+
+	public async provideFolderBrowseConfiguration(): Promise<WorkspaceBrowseConfiguration | null> {
+		return null;
+	}
+
+	/**
+	 * Points clangd at the board's build directory, headers it cannot match
+	 * to a translation unit still get the board's hwdef.h
+	 */
+	private async configureClangd(): Promise<void> {
+		if (!this.workspaceRoot || !this.board || !vscode.extensions.getExtension(apIntelliSense.CLANGD)) {
+			return;
+		}
+		const config = vscode.workspace.getConfiguration('clangd', vscode.Uri.file(this.workspaceRoot));
+		const buildDir = path.dirname(compileCommandsPath(this.workspaceRoot, this.board));
+		const args = (config.get<string[]>('arguments') ?? []).filter(arg => !arg.startsWith('--compile-commands-dir='));
+		args.push(`--compile-commands-dir=${buildDir}`);
+		const fallbackFlags: string[] = [];
+		const previous = config.get<string[]>('fallbackFlags') ?? [];
+		for (let i = 0; i < previous.length; i++) {
+			// drop the hwdef.h of the previous board
+			if (previous[i] === '-include' && previous[i + 1]?.endsWith(`${path.sep}hwdef.h`)) {
+				i++;
+			} else {
+				fallbackFlags.push(previous[i]);
+			}
+		}
+		if (this.hwdefHeader) {
+			fallbackFlags.push('-include', this.hwdefHeader);
+		}
+		try {
+			await config.update('arguments', args, apWorkspace.configurationTarget);
+			await config.update('fallbackFlags', fallbackFlags, apWorkspace.configurationTarget);
+			await vscode.commands.executeCommand('clangd.restart');
+			apIntelliSense.log(`clangd uses ${buildDir}`);
+		} catch (error) {
+			apIntelliSense.log(`failed to configure clangd: ${error}`);
+		}
+	}
+
+	public dispose(): void {
+		clearTimeout(this.reloadTimer);
+		this.watcher?.dispose();
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.api?.dispose();
+		if (apIntelliSense.instance === this) {
+			apIntelliSense.instance = undefined;
+		}
+	}
+}
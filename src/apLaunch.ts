@@ -25,6 +25,8 @@ import { TOOLS_REGISTRY } from './apToolsConfig';
 import { apTerminalMonitor } from './apTerminalMonitor';
 import * as fs from 'fs';
 import { readHwdefFile, getDebugConfigFromMCU, HwdefInfo, DebugConfig } from './apBuildConfig';
+import { paramFileArgs } from './apParameters';
+import { apWorkspace } from './apWorkspace';
 
 // Map vehicle types to ArduPilot binary names
 export const targetToVehicleType: { [key: string]: string } = {
@@ -38,6 +40,12 @@ export const targetToVehicleType: { [key: string]: string } = {
 	'sitl_periph_universal': 'AP_Periph'
 };
 
+// gdb setup for debugging SITL and other host binaries with cppdbg
+export const SITL_GDB_SETUP_COMMANDS = [
+	{ description: 'Enable pretty-printing for gdb', text: '-enable-pretty-printing', ignoreFailures: true },
+	{ description: 'Set Disassembly Flavor to Intel', text: '-gdb-set disassembly-flavor intel', ignoreFailures: true }
+];
+
 export interface APLaunchDefinition {
 	/**
 	 * Type of launch (must be 'apLaunch')
@@ -59,6 +67,15 @@ export interface APLaunchDefinition {
 	 * sim_vehicle.py command arguments for SITL builds
 	 */
 	simVehicleCommand?: string,
+	/**
+	 * parameter files loaded by SITL, relative to the workspace
+	 */
+	paramFiles?: string[];
+	/**
+	 * gdbserver already running the SITL binary, e.g. started by autotest.py --gdbserver.
+	 * Debugging attaches to it instead of starting sim_vehicle.py
+	 */
+	gdbServer?: string;
 	/**
 	 * is it a SITL build
 	 */
@@ -585,7 +602,7 @@ export class APLaunchConfigurationProvider implements vscode.DebugConfigurationP
 	}
 
 	public async resolveDebugConfiguration(
-		_folder: vscode.WorkspaceFolder | undefined,
+		folder: vscode.WorkspaceFolder | undefined,
 		config: vscode.DebugConfiguration
 	): Promise<vscode.DebugConfiguration | undefined> {
 		// If launch.json is missing or empty
@@ -608,8 +625,8 @@ export class APLaunchConfigurationProvider implements vscode.DebugConfigurationP
 
 		const apConfig = config as unknown as APLaunchDefinition;
 
-		// Get the workspace root
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
+		// Get the workspace root, the folder whose launch.json holds the configuration
+		const workspaceRoot = folder?.uri.fsPath ?? apWorkspace.rootPath;
 		if (!workspaceRoot) {
 			vscode.window.showErrorMessage('No workspace is open.');
 			return undefined;
@@ -634,8 +651,9 @@ export class APLaunchConfigurationProvider implements vscode.DebugConfigurationP
 			const taskName = taskParts[1].trim();
 
 			// Find the task by type and name
+			// in a multi-root workspace, prefer the task of the same folder
 			const tasks = await vscode.tasks.fetchTasks({ type: taskType });
-			const task = tasks.find(t => t.name === taskName);
+			const task = tasks.find(t => t.name === taskName && apWorkspace.rootOf(t) === workspaceRoot) ?? tasks.find(t => t.name === taskName);
 
 			if (!task) {
 				vscode.window.showErrorMessage(`Pre-launch task '${taskName}' of type '${taskType}' not found.`);
@@ -738,6 +756,11 @@ export class APLaunchConfigurationProvider implements vscode.DebugConfigurationP
 						additionalArgs = '-f heli';
 					}
 				}
+				if (apConfig.gdbServer) {
+					const binaryPath = path.join(workspaceRoot, 'build', 'sitl', targetToBin[vehicleBaseType]);
+					return await this.createGdbServerAttachConfig(workspaceRoot, vehicleType, binaryPath, apConfig.gdbServer);
+				}
+
 				// Check if tmux is available
 				const tmux = await ProgramUtils.findProgram(TOOLS_REGISTRY.TMUX);
 				if (!tmux.available || !tmux.path) {
@@ -817,10 +840,7 @@ export class APLaunchConfigurationProvider implements vscode.DebugConfigurationP
 							cwd: workspaceRoot,
 							MIMode: 'gdb',
 							miDebuggerPath: gdb.path,
-							setupCommands: [
-								{ description: 'Enable pretty-printing for gdb', text: '-enable-pretty-printing', ignoreFailures: true },
-								{ description: 'Set Disassembly Flavor to Intel', text: '-gdb-set disassembly-flavor intel', ignoreFailures: true }
-							]
+							setupCommands: SITL_GDB_SETUP_COMMANDS
 						};
 						APLaunchConfigurationProvider.log.log(`DEBUG: Attaching GDB to PID ${(selection as ProcessQuickPickItem).pid}`);
 						return cppAttachConfig;
@@ -904,7 +924,7 @@ export class APLaunchConfigurationProvider implements vscode.DebugConfigurationP
 
 					const tmuxPath = tmux.path;
 					const tmuxCommand = `"${tmuxPath}" new-session -s "${this.tmuxSessionName}" -n "SimVehicle"`;
-					const simVehicleCmd = `${await ProgramUtils.PYTHON()} ${simVehiclePath} --no-rebuild -v ${vehicleType} ${additionalArgs} ${apConfig.simVehicleCommand || ''}`;
+					const simVehicleCmd = `${await ProgramUtils.PYTHON()} ${simVehiclePath} --no-rebuild -v ${vehicleType} ${additionalArgs} ${apConfig.simVehicleCommand || ''} ${paramFileArgs(apConfig.paramFiles, workspaceRoot)}`;
 					this.simVehicleCommand = simVehicleCmd; // Store the command for cleanup
 					APLaunchConfigurationProvider.log.log(`DEBUG: Running SITL simulation: ${simVehicleCmd}`);
 
@@ -992,7 +1012,7 @@ export class APLaunchConfigurationProvider implements vscode.DebugConfigurationP
 					// Set up the environment to use gdbserver through TMUX_PREFIX
 					const tmuxPath = tmux.path;
 					const tmuxCommand = `"${tmuxPath}" new-session -s "${this.tmuxSessionName}" -n "SimVehicle"`;
-					const simVehicleCmd = `export TMUX_PREFIX="gdbserver localhost:${gdbPort}" && ${await ProgramUtils.PYTHON()} ${simVehiclePath} --no-rebuild -v ${vehicleType} ${additionalArgs} ${apConfig.simVehicleCommand || ''}`;
+					const simVehicleCmd = `export TMUX_PREFIX="gdbserver localhost:${gdbPort}" && ${await ProgramUtils.PYTHON()} ${simVehiclePath} --no-rebuild -v ${vehicleType} ${additionalArgs} ${apConfig.simVehicleCommand || ''} ${paramFileArgs(apConfig.paramFiles, workspaceRoot)}`;
 					this.simVehicleCommand = simVehicleCmd; // Store the command for cleanup
 					APLaunchConfigurationProvider.log.log(`DEBUG: Running SITL simulation with gdbserver: ${simVehicleCmd}`);
 
@@ -1030,18 +1050,7 @@ export class APLaunchConfigurationProvider implements vscode.DebugConfigurationP
 						externalConsole: false,
 						MIMode: 'gdb',
 						miDebuggerPath: gdb.path,
-						setupCommands: [
-							{
-								description: 'Enable pretty-printing for gdb',
-								text: '-enable-pretty-printing',
-								ignoreFailures: true
-							},
-							{
-								description: 'Set Disassembly Flavor to Intel',
-								text: '-gdb-set disassembly-flavor intel',
-								ignoreFailures: true
-							}
-						]
+						setupCommands: SITL_GDB_SETUP_COMMANDS
 					};
 					// Start the C++ debugger
 					APLaunchConfigurationProvider.log.log('DEBUG: Starting cppdbg debugger session');
@@ -1061,6 +1070,42 @@ export class APLaunchConfigurationProvider implements vscode.DebugConfigurationP
 		}
 	}
 
+	/*
+	 * Attach GDB to a SITL binary that another tool started under gdbserver
+	 * @param workspaceRoot - The workspace root directory
+	 * @param vehicleType - Vehicle name used in the session name
+	 * @param binaryPath - The SITL binary being served, for symbols
+	 * @param address - gdbserver address, e.g. localhost:3333
+	 * @returns Debug configuration for cppdbg
+	 */
+	private async createGdbServerAttachConfig(workspaceRoot: string, vehicleType: string, binaryPath: string, address: string): Promise<vscode.DebugConfiguration | undefined> {
+		if (os.platform() === 'darwin') {
+			vscode.window.showErrorMessage('Attaching to gdbserver is not supported on macOS.');
+			return undefined;
+		}
+		const gdb = await ProgramUtils.findProgram(TOOLS_REGISTRY.GDB);
+		if (!gdb.available) {
+			vscode.window.showErrorMessage('GDB not found. Please install GDB to debug SITL.');
+			return undefined;
+		}
+		APLaunchConfigurationProvider.log.log(`DEBUG: Attaching GDB to gdbserver at ${address}`);
+		return {
+			type: 'cppdbg',
+			request: 'launch',
+			name: `Debug ${vehicleType} SITL`,
+			miDebuggerServerAddress: address,
+			program: binaryPath,
+			args: [],
+			stopAtEntry: false,
+			cwd: workspaceRoot,
+			environment: [],
+			externalConsole: false,
+			MIMode: 'gdb',
+			miDebuggerPath: gdb.path,
+			setupCommands: SITL_GDB_SETUP_COMMANDS
+		};
+	}
+
 	/*
 	 * Set up hardware debugging for physical boards
 	 * @param workspaceRoot - The workspace root directory
@@ -1074,7 +1119,7 @@ export class APLaunchConfigurationProvider implements vscode.DebugConfigurationP
 		}
 
 		// Get hardware definition info for the board
-		const hwdefInfo = await readHwdefFile(config.board);
+		const hwdefInfo = await readHwdefFile(config.board, workspaceRoot);
 		if (!hwdefInfo.mcuTarget || !hwdefInfo.flashSizeKB) {
 			vscode.window.showErrorMessage(`Incomplete debug information for board: ${config.board}. MCU target: ${hwdefInfo.mcuTarget}, Flash size: ${hwdefInfo.flashSizeKB}`);
 			return undefined;
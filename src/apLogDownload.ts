@@ -0,0 +1,246 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import { MavlinkConnection } from './apMavlink';
+
+// bytes carried by each LOG_DATA message
+export const LOG_DATA_CHUNK = 90;
+
+export interface LogEntry {
+	id: number;
+	size: number;
+	// seconds since the UNIX epoch, 0 when the vehicle had no clock
+	timeUtc: number;
+}
+
+export interface LogListOptions {
+	// time without new LOG_ENTRYs before the list is requested again
+	idleMs?: number;
+	retries?: number;
+}
+
+export interface LogDownloadOptions {
+	// time without new LOG_DATA before the missing parts are requested again
+	idleMs?: number;
+	// rounds of re-requests without progress before giving up
+	retries?: number;
+	// missing ranges requested per round
+	maxGapRequests?: number;
+	onProgress?: (received: number, total: number) => void;
+	token?: vscode.CancellationToken;
+}
+
+function targetOf(connection: MavlinkConnection): { target_system: number, target_component: number } {
+	return { target_system: connection.targetSystem ?? 0, target_component: connection.targetComponent ?? 0 };
+}
+
+// waits until woken or idle for the given time
+function idle(idleMs: number, setWake: (wake: () => void) => void): Promise<void> {
+	return new Promise<void>(resolve => {
+		const timer = setTimeout(resolve, idleMs);
+		setWake(() => {
+			clearTimeout(timer);
+			resolve();
+		});
+	});
+}
+
+/**
+ * Reads the list of logs stored on the vehicle
+ * @returns the logs in id order
+ */
+export async function listLogs(connection: MavlinkConnection, options: LogListOptions = {}): Promise<LogEntry[]> {
+	const idleMs = options.idleMs ?? 1000;
+	const retries = options.retries ?? 3;
+	await connection.waitForVehicle(5000);
+
+	const received = new Map<number, LogEntry>();
+	let total: number | undefined;
+	let closed = false;
+	let wake: (() => void) | undefined;
+	const complete = () => total !== undefined && received.size >= total;
+
+	const listeners = [
+		connection.onMessage(message => {
+			if (message.name !== 'LOG_ENTRY' || message.sysid !== connection.targetSystem) {
+				return;
+			}
+			total = message.fields.num_logs as number;
+			// an empty list is reported as a single entry with num_logs 0
+			if (total > 0) {
+				const id = message.fields.id as number;
+				received.set(id, { id, size: message.fields.size as number, timeUtc: message.fields.time_utc as number });
+			}
+			if (complete()) {
+				wake?.();
+			}
+		}),
+		connection.onDidClose(() => {
+			closed = true;
+			wake?.();
+		})
+	];
+
+	try {
+		let attempts = 0;
+		while (!complete()) {
+			const before = received.size;
+			if (before === 0 || attempts > 0) {
+				connection.send('LOG_REQUEST_LIST', { ...targetOf(connection), start: 0, end: 0xFFFF });
+			}
+			await idle(idleMs, resolve => { wake = resolve; });
+			if (closed) {
+				throw new Error('Connection closed while listing logs');
+			}
+			if (received.size > before) {
+				attempts = 0;
+			} else if (!complete() && ++attempts > retries) {
+				throw new Error(`Timed out listing logs (${received.size} of ${total ?? 'unknown'} received)`);
+			}
+		}
+	} finally {
+		wake = undefined;
+		listeners.forEach(listener => listener.dispose());
+	}
+
+	return [...received.values()].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Byte ranges of a log not received yet, from chunk flags
+ */
+export function missingRanges(have: Uint8Array, size: number, limit = Infinity): { ofs: number, count: number }[] {
+	const ranges: { ofs: number, count: number }[] = [];
+	for (let chunk = 0; chunk < have.length && ranges.length < limit; chunk++) {
+		if (have[chunk]) {
+			continue;
+		}
+		const start = chunk;
+		while (chunk + 1 < have.length && !have[chunk + 1]) {
+			chunk++;
+		}
+		const ofs = start * LOG_DATA_CHUNK;
+		ranges.push({ ofs, count: Math.min((chunk + 1) * LOG_DATA_CHUNK, size) - ofs });
+	}
+	return ranges;
+}
+
+/**
+ * Downloads one log. The vehicle streams the whole log first, then the chunks
+ * lost on the way are requested again range by range until none are missing.
+ */
+export async function downloadLog(connection: MavlinkConnection, entry: LogEntry, options: LogDownloadOptions = {}): Promise<Buffer> {
+	const idleMs = options.idleMs ?? 1000;
+	const retries = options.retries ?? 5;
+	const maxGapRequests = options.maxGapRequests ?? 32;
+	await connection.waitForVehicle(5000);
+
+	const data = Buffer.alloc(entry.size);
+	const have = new Uint8Array(Math.ceil(entry.size / LOG_DATA_CHUNK));
+	let chunks = 0;
+	let received = 0;
+	let closed = false;
+	let wake: (() => void) | undefined;
+	const complete = () => chunks >= have.length;
+
+	const listeners = [
+		connection.onMessage(message => {
+			if (message.name !== 'LOG_DATA' || message.sysid !== connection.targetSystem || message.fields.id !== entry.id) {
+				return;
+			}
+			const ofs = message.fields.ofs as number;
+			const count = Math.min(message.fields.count as number, entry.size - ofs);
+			// chunks always start on a multiple of the chunk size, as requested
+			if (count <= 0 || ofs % LOG_DATA_CHUNK !== 0 || have[ofs / LOG_DATA_CHUNK]) {
+				return;
+			}
+			Buffer.from((message.fields.data as number[]).slice(0, count)).copy(data, ofs);
+			have[ofs / LOG_DATA_CHUNK] = 1;
+			chunks++;
+			received += count;
+			options.onProgress?.(received, entry.size);
+			if (complete()) {
+				wake?.();
+			}
+		}),
+		connection.onDidClose(() => {
+			closed = true;
+			wake?.();
+		})
+	];
+	if (options.token) {
+		listeners.push(options.token.onCancellationRequested(() => wake?.()));
+	}
+
+	try {
+		connection.send('LOG_REQUEST_DATA', { ...targetOf(connection), id: entry.id, ofs: 0, count: 0xFFFFFFFF });
+		let attempts = 0;
+		while (!complete()) {
+			const before = chunks;
+			await idle(idleMs, resolve => { wake = resolve; });
+			if (options.token?.isCancellationRequested) {
+				throw new Error(`Download of log ${entry.id} cancelled`);
+			}
+			if (closed) {
+				throw new Error(`Connection closed while downloading log ${entry.id}`);
+			}
+			if (complete()) {
+				break;
+			}
+			if (chunks > before) {
+				// still streaming in
+				attempts = 0;
+				continue;
+			}
+			if (++attempts > retries) {
+				throw new Error(`Timed out downloading log ${entry.id} (${received} of ${entry.size} bytes received)`);
+			}
+			for (const range of missingRanges(have, entry.size, maxGapRequests)) {
+				connection.send('LOG_REQUEST_DATA', { ...targetOf(connection), id: entry.id, ...range });
+			}
+		}
+	} finally {
+		wake = undefined;
+		listeners.forEach(listener => listener.dispose());
+		// lets the vehicle go back to streaming telemetry
+		connection.send('LOG_REQUEST_END', targetOf(connection));
+	}
+	return data;
+}
+
+/**
+ * Asks the vehicle to erase all of its logs. ArduPilot does not acknowledge
+ * this, it erases them in the background, so this resolves once the request
+ * has had time to be written out.
+ */
+export async function eraseLogs(connection: MavlinkConnection): Promise<void> {
+	await connection.waitForVehicle(5000);
+	connection.send('LOG_ERASE', targetOf(connection));
+	// give the write time to leave before the connection is released
+	await new Promise(resolve => setTimeout(resolve, 500));
+}
+
+/**
+ * Name a downloaded log is saved under, e.g. log_12_2024-05-01_13-45-10.BIN
+ */
+export function logFileName(entry: LogEntry): string {
+	if (entry.timeUtc <= 0) {
+		return `log_${entry.id}.BIN`;
+	}
+	const time = new Date(entry.timeUtc * 1000).toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
+	return `log_${entry.id}_${time}.BIN`;
+}
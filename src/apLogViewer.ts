@@ -0,0 +1,206 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { apLog } from './apLog';
+import {
+	DataflashLog,
+	DataflashSummary,
+	dataflashInstances,
+	dataflashRows,
+	dataflashSeries,
+	isNumericField,
+	parseDataflashLog,
+	summarizeDataflashLog
+} from './apDataflash';
+
+export interface LogMessageType {
+	name: string;
+	count: number;
+	fields: { name: string; unit?: string; numeric: boolean }[];
+	instances: number[];
+}
+
+export interface LogViewerState {
+	fileName: string;
+	size: number;
+	corruptBytes: number;
+	types: LogMessageType[];
+	summary: DataflashSummary;
+	error?: string;
+}
+
+interface LogViewerMessage {
+	command: string;
+	message?: string;
+	field?: string;
+	instance?: number;
+	range?: [number, number];
+	maxPoints?: number;
+	offset?: number;
+	limit?: number;
+	startUS?: number;
+}
+
+class apLogDocument implements vscode.CustomDocument {
+	constructor(
+		public readonly uri: vscode.Uri,
+		public readonly log: DataflashLog,
+		public readonly state: LogViewerState
+	) {}
+
+	dispose(): void {
+		// nothing held beyond the parsed log
+	}
+}
+
+/**
+ * Read-only editor for DataFlash logs, with a message browser, table and plots.
+ * The log is parsed once here and the webview asks for pages and series of it.
+ */
+export class apLogViewerProvider implements vscode.CustomReadonlyEditorProvider<apLogDocument> {
+	public static readonly viewType = 'ardupilot.dataflashLog';
+	private static log = new apLog('apLogViewer').log;
+
+	public static register(extensionUri: vscode.Uri): vscode.Disposable {
+		return vscode.window.registerCustomEditorProvider(
+			apLogViewerProvider.viewType,
+			new apLogViewerProvider(extensionUri),
+			{
+				webviewOptions: { retainContextWhenHidden: true },
+				supportsMultipleEditorsPerDocument: true
+			}
+		);
+	}
+
+	/**
+	 * Opens a log in the viewer, asking for one when no file is given
+	 */
+	public static async openLog(uri?: vscode.Uri): Promise<void> {
+		if (!uri) {
+			const picked = await vscode.window.showOpenDialog({
+				canSelectMany: false,
+				filters: { 'DataFlash Logs': ['bin', 'BIN', 'log'] },
+				openLabel: 'Open Log'
+			});
+			uri = picked?.[0];
+		}
+		if (uri) {
+			await vscode.commands.executeCommand('vscode.openWith', uri, apLogViewerProvider.viewType);
+		}
+	}
+
+	private constructor(private readonly _extensionUri: vscode.Uri) {}
+
+	public async openCustomDocument(uri: vscode.Uri): Promise<apLogDocument> {
+		const data = await vscode.workspace.fs.readFile(uri);
+		const log = parseDataflashLog(data);
+		const types: LogMessageType[] = [...log.messages.values()]
+			.filter(messages => messages.count > 0)
+			.map(messages => ({
+				name: messages.format.name,
+				count: messages.count,
+				fields: messages.format.fields.map(field => ({ name: field.name, unit: field.unit, numeric: isNumericField(field) })),
+				instances: dataflashInstances(messages)
+			}))
+			.sort((a, b) => a.name.localeCompare(b.name));
+		const state: LogViewerState = {
+			fileName: path.basename(uri.fsPath),
+			size: data.length,
+			corruptBytes: log.corruptBytes,
+			types,
+			summary: summarizeDataflashLog(log),
+			error: types.length === 0 ? 'No DataFlash messages found in this file' : undefined
+		};
+		apLogViewerProvider.log(`Read ${types.length} message types from ${uri.fsPath}, ${log.corruptBytes} corrupt bytes`);
+		return new apLogDocument(uri, log, state);
+	}
+
+	public resolveCustomEditor(document: apLogDocument, webviewPanel: vscode.WebviewPanel): void {
+		webviewPanel.webview.options = { enableScripts: true };
+		webviewPanel.webview.html = this._getWebviewContent(webviewPanel.webview);
+		const subscription = webviewPanel.webview.onDidReceiveMessage(message => this._onReceiveMessage(document, webviewPanel.webview, message));
+		webviewPanel.onDidDispose(() => subscription.dispose());
+	}
+
+	private _onReceiveMessage(document: apLogDocument, webview: vscode.Webview, message: LogViewerMessage): void {
+		switch (message.command) {
+		case 'getState':
+			void webview.postMessage({ command: 'getState', state: document.state });
+			break;
+		case 'getSeries':
+			void webview.postMessage({
+				command: 'getSeries',
+				series: dataflashSeries(document.log, message.message ?? '', message.field ?? '', {
+					instance: message.instance,
+					range: message.range,
+					maxPoints: message.maxPoints
+				})
+			});
+			break;
+		case 'getRows':
+			void webview.postMessage({
+				command: 'getRows',
+				page: dataflashRows(document.log, message.message ?? '', message.offset ?? 0, message.limit ?? 100, {
+					instance: message.instance,
+					startUS: message.startUS
+				})
+			});
+			break;
+		case 'error':
+			apLogViewerProvider.log(`Error from webview: ${JSON.stringify(message)}`);
+			break;
+		default:
+			void webview.postMessage({ command: message.command, response: 'Bad Request' });
+			break;
+		}
+	}
+
+	private _getWebviewContent(webview: vscode.Webview): string {
+		const stylesUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'logviewer.css']);
+		const scriptUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'logviewer.js']);
+		const sourceMapUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'logviewer.js.map']);
+
+		return /*html*/ `
+			<!DOCTYPE html>
+			<html lang="en">
+				<head>
+					<title>Log Viewer - ArduPilot DevEnv</title>
+					<meta charset="UTF-8" />
+					<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+					<meta http-equiv="Content-Security-Policy" content="default-src 'none';
+																		style-src ${webview.cspSource};
+																		script-src ${webview.cspSource} 'unsafe-eval' 'unsafe-inline';
+																		connect-src ${webview.cspSource} vscode-resource: vscode-webview-resource: https:;">
+					<link href="${stylesUri}" rel="stylesheet">
+					<script>
+						// Make source map URL available to our error handler
+						window.SOURCE_MAP_URL = "${sourceMapUri}";
+					</script>
+					<script type="module" src="${scriptUri}"></script>
+				</head>
+				<body>
+					<div id="logviewer"></div>
+				</body>
+			</html>
+		`;
+	}
+}
+
+function getUri(webview: vscode.Webview, extensionUri: vscode.Uri, pathList: string[]): vscode.Uri {
+	return webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...pathList));
+}
@@ -0,0 +1,201 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+// Lua scripting bindings from AP_Scripting's docs.lua, checks of scripts against them and script errors reported by the vehicle
+
+// the binding API of a checkout, kept in the lua-language-server annotation format
+export const SCRIPTING_DOCS = 'libraries/AP_Scripting/docs/docs.lua';
+
+// MAV_CMD_SCRIPTING param1 that stops all scripts and loads them again
+export const SCRIPTING_CMD_STOP_AND_RESTART = 3;
+
+export interface LuaBindings {
+	// members of global tables, e.g. ahrs -> get_roll, get_pitch, ...
+	tables: Map<string, Set<string>>;
+}
+
+export interface LuaBindingProblem {
+	// 0-based position of the unknown member
+	line: number;
+	column: number;
+	length: number;
+	message: string;
+}
+
+export interface LuaScriptError {
+	// file name of the script, without the directory it runs from on the vehicle
+	file: string;
+	// 1-based line
+	line: number;
+	message: string;
+}
+
+/**
+ * Reads the global tables and their members declared in docs.lua, e.g.
+ * `ahrs = {}` and `function ahrs:get_roll() end`. Userdata classes are
+ * `local` tables and skipped.
+ */
+export function parseBindings(docs: string): LuaBindings {
+	const tables = new Map<string, Set<string>>();
+	for (const line of docs.split(/\r?\n/)) {
+		const table = /^([A-Za-z_]\w*)\s*=\s*\{\s*\}/.exec(line);
+		if (table) {
+			if (!tables.has(table[1])) {
+				tables.set(table[1], new Set());
+			}
+			continue;
+		}
+		const method = /^function\s+([A-Za-z_]\w*)[:.]([A-Za-z_]\w*)\s*\(/.exec(line);
+		if (method) {
+			tables.get(method[1])?.add(method[2]);
+		}
+	}
+	return { tables };
+}
+
+/**
+ * Definitions file for the lua-language-server. docs.lua is already written
+ * in its annotation format, it only needs marking as a definitions file.
+ */
+export function luaDefinitions(docs: string, source: string): string {
+	const header = [
+		`-- Generated from ${source} by the ArduPilot DevEnv extension, do not edit`,
+		'-- Regenerated whenever docs.lua changes, e.g. after switching branches',
+	];
+	if (!/^---@meta\b/m.test(docs)) {
+		header.unshift('---@meta');
+	}
+	return `${header.join('\n')}\n\n${docs}`;
+}
+
+/**
+ * Blanks out comments and strings, keeping line and column positions, so
+ * that only code is searched
+ */
+export function maskLuaCode(script: string): string {
+	let result = '';
+	let i = 0;
+	const longBracket = /(--)?\[(=*)\[/y;
+	const special = /--|\[=*\[|["']/g;
+	const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+	while (i < script.length) {
+		longBracket.lastIndex = i;
+		const bracket = longBracket.exec(script);
+		let stop: number;
+		if (bracket) {
+			const close = `]${bracket[2]}]`;
+			const end = script.indexOf(close, i + bracket[0].length);
+			stop = end < 0 ? script.length : end + close.length;
+		} else if (script.startsWith('--', i)) {
+			const end = script.indexOf('\n', i);
+			stop = end < 0 ? script.length : end;
+		} else if (script[i] === '"' || script[i] === '\'') {
+			let j = i + 1;
+			while (j < script.length && script[j] !== script[i] && script[j] !== '\n') {
+				j += script[j] === '\\' ? 2 : 1;
+			}
+			stop = Math.min(j + 1, script.length);
+		} else {
+			// copy plain code up to the next comment or string in one go
+			special.lastIndex = i + 1;
+			stop = special.exec(script)?.index ?? script.length;
+			result += script.slice(i, stop);
+			i = stop;
+			continue;
+		}
+		result += blank(script.slice(i, stop));
+		i = stop;
+	}
+	return result;
+}
+
+/**
+ * Uses of members of binding tables that docs.lua does not declare, e.g. a
+ * binding added on a newer branch. Names the script assigns itself are skipped.
+ */
+export function findUnknownBindings(script: string, bindings: LuaBindings): LuaBindingProblem[] {
+	const code = maskLuaCode(script);
+	const shadowed = new Set<string>();
+	for (const match of code.matchAll(/\blocal\s+([\w\s,]+?)\s*(?:=|\n|$)/g)) {
+		match[1].split(',').forEach(name => shadowed.add(name.trim()));
+	}
+	for (const match of code.matchAll(/\blocal\s+function\s+([A-Za-z_]\w*)/g)) {
+		shadowed.add(match[1]);
+	}
+	// members the script defines itself, e.g. function gcs.my_helper()
+	const defined = new Set<string>();
+	for (const match of code.matchAll(/\bfunction\s+([A-Za-z_]\w*)[:.]([A-Za-z_]\w*)/g)) {
+		defined.add(`${match[1]}.${match[2]}`);
+	}
+	for (const match of code.matchAll(/(?<![\w.:])([A-Za-z_]\w*)\.([A-Za-z_]\w*)\s*=(?!=)/g)) {
+		defined.add(`${match[1]}.${match[2]}`);
+	}
+
+	const problems: LuaBindingProblem[] = [];
+	code.split('\n').forEach((line, lineNumber) => {
+		for (const match of line.matchAll(/(?<![\w.:])([A-Za-z_]\w*)\s*([:.])\s*([A-Za-z_]\w*)/g)) {
+			const [, table, separator, member] = match;
+			const members = bindings.tables.get(table);
+			if (!members || shadowed.has(table) || members.has(member) || defined.has(`${table}.${member}`)) {
+				continue;
+			}
+			problems.push({
+				line: lineNumber,
+				column: (match.index ?? 0) + match[0].length - member.length,
+				length: member.length,
+				message: `${table}${separator}${member} is not a scripting binding in this ArduPilot version`
+			});
+		}
+	});
+	return problems;
+}
+
+/**
+ * A script error from a STATUSTEXT, e.g.
+ * "Lua: /APM/scripts/hello.lua:12: attempt to call a nil value (field 'foo')"
+ * or "Lua: ./scripts/hello.lua:3: syntax error near 'end'" from SITL
+ */
+export function parseScriptError(text: string): LuaScriptError | undefined {
+	const match = /^(?:AP: )?Lua: (?:Error: )?(?:.*[\\/])?([^\\/:\s]+\.lua):(\d+): (.*)$/.exec(text.trim());
+	if (!match) {
+		return undefined;
+	}
+	return { file: match[1], line: parseInt(match[2]), message: match[3] };
+}
+
+/**
+ * SITL instance number from the arguments of a running SITL binary, set by
+ * sim_vehicle.py's -I option
+ */
+export function sitlInstanceFromArgs(args: string): number {
+	const match = /(?:^|\s)(?:-I\s*|--instance[=\s]+)(\d+)(?=\s|$)/.exec(args);
+	return match ? parseInt(match[1]) : 0;
+}
+
+/**
+ * Running SITL binaries in `ps -eo pid=,args=` output, i.e. programs under a
+ * build's sitl/bin directory such as build/sitl/bin/arducopter
+ */
+export function parseSitlProcesses(psOutput: string): { pid: number, instance: number }[] {
+	const processes: { pid: number, instance: number }[] = [];
+	for (const line of psOutput.split(/\r?\n/)) {
+		const match = /^\s*(\d+)\s+(\S+)(.*)$/.exec(line);
+		if (match && /[\\/]sitl[\\/]bin[\\/][^\\/]+$/.test(match[2])) {
+			processes.push({ pid: parseInt(match[1]), instance: sitlInstanceFromArgs(match[3]) });
+		}
+	}
+	return processes;
+}
@@ -0,0 +1,360 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+/*
+	apLuaScriptingManager.ts
+	Lua scripting support: language-server definitions and binding checks
+	from the checkout's docs.lua, deploying scripts to SITL or a board, and
+	script errors reported by the vehicle shown on the script.
+*/
+
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { apLog } from './apLog';
+import { apWorkspace } from './apWorkspace';
+import { apMavftpFileSystem } from './apMavftpFileSystem';
+import {
+	MAV_CMD_SCRIPTING,
+	MAV_RESULT_ACCEPTED,
+	MavlinkConnection,
+	MavlinkEndpoint,
+	StatusTextAssembler
+} from './apMavlink';
+import {
+	LuaBindings,
+	SCRIPTING_CMD_STOP_AND_RESTART,
+	SCRIPTING_DOCS,
+	findUnknownBindings,
+	luaDefinitions,
+	parseBindings,
+	parseScriptError,
+	parseSitlProcesses
+} from './apLuaScripting';
+
+interface DeployTarget extends vscode.QuickPickItem {
+	// where the script is copied to, a local scripts directory or APM/scripts on a board
+	scriptsDir: vscode.Uri;
+	// connection used to restart scripting, none when SITL is not running
+	endpoint?: MavlinkEndpoint;
+}
+
+export class apLuaScriptingManager implements vscode.Disposable {
+	private static log = new apLog('apLuaScriptingManager').log;
+	private static readonly DEFINITIONS_DIR = path.join('.vscode', 'ardupilot-lua');
+	private static readonly LUA_LANGUAGE_SERVER = 'sumneko.lua';
+	// how long script errors are watched for after a deploy
+	private static readonly ERROR_WATCH_MS = 120000;
+
+	private bindings: LuaBindings | undefined;
+	private bindingDiagnostics = vscode.languages.createDiagnosticCollection('ardupilot-lua-bindings');
+	private errorDiagnostics = vscode.languages.createDiagnosticCollection('ardupilot-lua-errors');
+	// local files of deployed scripts by file name, errors only name the file
+	private deployed = new Map<string, vscode.Uri>();
+	private errorWatch: vscode.Disposable | undefined;
+	private suggestedLanguageServer = false;
+	private disposables: vscode.Disposable[] = [];
+
+	constructor() {
+		const watcher = vscode.workspace.createFileSystemWatcher(`**/${SCRIPTING_DOCS}`);
+		this.disposables.push(
+			this.bindingDiagnostics,
+			this.errorDiagnostics,
+			watcher,
+			watcher.onDidChange(() => void this.reload()),
+			watcher.onDidCreate(() => void this.reload()),
+			watcher.onDidDelete(() => void this.reload()),
+			apWorkspace.onDidChangeFolder(() => void this.reload()),
+			vscode.workspace.onDidOpenTextDocument(document => this.check(document)),
+			vscode.workspace.onDidChangeTextDocument(event => this.check(event.document)),
+			vscode.workspace.onDidCloseTextDocument(document => this.bindingDiagnostics.delete(document.uri))
+		);
+		void this.reload();
+	}
+
+	/**
+	 * Reads docs.lua of the selected ArduPilot folder, regenerates the
+	 * language-server definitions from it and checks the open scripts again
+	 */
+	public async reload(): Promise<void> {
+		const root = apWorkspace.rootPath;
+		const docsPath = root && path.join(root, SCRIPTING_DOCS);
+		if (!root || !docsPath || !fs.existsSync(docsPath)) {
+			this.bindings = undefined;
+			this.bindingDiagnostics.clear();
+			return;
+		}
+		try {
+			const docs = fs.readFileSync(docsPath, 'utf8');
+			this.bindings = parseBindings(docs);
+			apLuaScriptingManager.log(`read ${this.bindings.tables.size} binding tables from ${docsPath}`);
+			await this.writeDefinitions(root, docs);
+		} catch (error) {
+			apLuaScriptingManager.log(`failed to load ${docsPath}: ${error}`);
+		}
+		vscode.workspace.textDocuments.forEach(document => this.check(document));
+	}
+
+	/**
+	 * Writes the definitions into .vscode/ardupilot-lua and adds that to the
+	 * Lua language server's libraries, when it is installed
+	 */
+	private async writeDefinitions(root: string, docs: string): Promise<void> {
+		const dir = path.join(root, apLuaScriptingManager.DEFINITIONS_DIR);
+		const file = path.join(dir, 'ardupilot.lua');
+		const content = luaDefinitions(docs, SCRIPTING_DOCS);
+		if (!fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== content) {
+			fs.mkdirSync(dir, { recursive: true });
+			fs.writeFileSync(file, content);
+			apLuaScriptingManager.log(`wrote Lua definitions to ${file}`);
+		}
+
+		if (!vscode.extensions.getExtension(apLuaScriptingManager.LUA_LANGUAGE_SERVER)) {
+			return;
+		}
+		const config = vscode.workspace.getConfiguration('Lua', apWorkspace.folder?.uri);
+		const library = config.get<string[]>('workspace.library') ?? [];
+		if (!library.includes(dir)) {
+			await config.update('workspace.library', [...library, dir], apWorkspace.configurationTarget);
+		}
+		// ArduPilot embeds Lua 5.3
+		if (config.inspect('runtime.version')?.workspaceValue === undefined) {
+			await config.update('runtime.version', 'Lua 5.3', apWorkspace.configurationTarget);
+		}
+	}
+
+	// whether a document is a script checked against the bindings of the selected folder
+	private isScript(document: vscode.TextDocument): boolean {
+		if (document.languageId !== 'lua') {
+			return false;
+		}
+		if (document.uri.scheme === apMavftpFileSystem.scheme) {
+			return true;
+		}
+		const folder = apWorkspace.folderOfUri(document.uri);
+		if (!folder || !apWorkspace.isSameFolder(folder, apWorkspace.folder)) {
+			return false;
+		}
+		const relative = path.relative(folder.uri.fsPath, document.uri.fsPath);
+		return relative !== path.normalize(SCRIPTING_DOCS) && !relative.startsWith(apLuaScriptingManager.DEFINITIONS_DIR);
+	}
+
+	private check(document: vscode.TextDocument): void {
+		if (!this.bindings || !this.isScript(document)) {
+			return;
+		}
+		this.suggestLanguageServer();
+		const diagnostics = findUnknownBindings(document.getText(), this.bindings).map(problem => {
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(problem.line, problem.column, problem.line, problem.column + problem.length),
+				problem.message,
+				vscode.DiagnosticSeverity.Warning
+			);
+			diagnostic.source = 'ArduPilot';
+			return diagnostic;
+		});
+		this.bindingDiagnostics.set(document.uri, diagnostics);
+	}
+
+	private suggestLanguageServer(): void {
+		if (this.suggestedLanguageServer || vscode.extensions.getExtension(apLuaScriptingManager.LUA_LANGUAGE_SERVER)) {
+			return;
+		}
+		this.suggestedLanguageServer = true;
+		void vscode.window.showInformationMessage(
+			'Install the Lua language server for completion of ArduPilot scripting bindings?',
+			'Install'
+		).then(choice => {
+			if (choice === 'Install') {
+				void vscode.commands.executeCommand('workbench.extensions.installExtension', apLuaScriptingManager.LUA_LANGUAGE_SERVER);
+			}
+		});
+	}
+
+	/**
+	 * Copies a script to a running SITL instance or uploads it to a mounted
+	 * board over MAVFTP, then restarts scripting so it is loaded
+	 */
+	public async deploy(uri?: vscode.Uri): Promise<void> {
+		const scriptUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+		if (!scriptUri || path.posix.extname(scriptUri.path) !== '.lua') {
+			vscode.window.showErrorMessage('Select a Lua script to deploy');
+			return;
+		}
+		await vscode.workspace.textDocuments.find(document => document.uri.toString() === scriptUri.toString())?.save();
+
+		const targets = this.deployTargets();
+		const target = targets.length === 1 ? targets[0] : await vscode.window.showQuickPick(targets, {
+			placeHolder: `Deploy ${path.posix.basename(scriptUri.path)} to`
+		});
+		if (!target) {
+			return;
+		}
+
+		const name = path.posix.basename(scriptUri.path);
+		try {
+			await vscode.window.withProgress({
+				location: vscode.ProgressLocation.Notification,
+				title: `Deploying ${name} to ${target.label}`
+			}, async progress => {
+				const data = await vscode.workspace.fs.readFile(scriptUri);
+				await vscode.workspace.fs.createDirectory(target.scriptsDir);
+				await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(target.scriptsDir, name), data);
+				apLuaScriptingManager.log(`deployed ${scriptUri.toString()} to ${target.scriptsDir.toString()}`);
+				this.deployed.set(name, scriptUri);
+				this.errorDiagnostics.delete(scriptUri);
+				if (target.endpoint) {
+					progress.report({ message: 'Restarting scripting' });
+					await this.restartScripting(target.endpoint);
+				}
+			});
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to deploy ${name}: ${error instanceof Error ? error.message : error}`);
+			return;
+		}
+		vscode.window.showInformationMessage(target.endpoint ?
+			`Deployed ${name} to ${target.label} and restarted scripting` :
+			`Copied ${name} to ${target.scriptsDir.fsPath}, it is loaded when SITL starts`);
+	}
+
+	private deployTargets(): DeployTarget[] {
+		const targets: DeployTarget[] = [];
+		for (const sitl of this.findSitlInstances()) {
+			targets.push({
+				label: `SITL instance ${sitl.instance}`,
+				description: path.join(sitl.cwd, 'scripts'),
+				scriptsDir: vscode.Uri.file(path.join(sitl.cwd, 'scripts')),
+				// sim_vehicle.py's MAVProxy forwards each instance to 14551 + 10 * instance
+				endpoint: { type: 'udpin', host: '127.0.0.1', port: 14551 + 10 * sitl.instance }
+			});
+		}
+		const root = apWorkspace.rootPath;
+		if (targets.length === 0 && root) {
+			// sim_vehicle.py runs SITL from the checkout, scripts are picked up on the next start
+			targets.push({
+				label: 'SITL (not running)',
+				description: path.join(root, 'scripts'),
+				scriptsDir: vscode.Uri.file(path.join(root, 'scripts'))
+			});
+		}
+		for (const device of apMavftpFileSystem.mountedDevices()) {
+			targets.push({
+				label: device.name,
+				description: 'APM/scripts over MAVFTP',
+				scriptsDir: vscode.Uri.joinPath(device.root, 'APM', 'scripts'),
+				endpoint: device.endpoint
+			});
+		}
+		return targets;
+	}
+
+	// running SITL instances and the directory each runs in, where it looks for scripts/
+	private findSitlInstances(): { instance: number, cwd: string }[] {
+		if (os.platform() === 'win32') {
+			return [];
+		}
+		const ps = cp.spawnSync('ps', ['-eo', 'pid=,args='], { encoding: 'utf8' });
+		if (ps.error || ps.status !== 0) {
+			return [];
+		}
+		const instances: { instance: number, cwd: string }[] = [];
+		for (const sitl of parseSitlProcesses(ps.stdout)) {
+			const cwd = this.processCwd(sitl.pid);
+			if (cwd) {
+				instances.push({ instance: sitl.instance, cwd });
+			}
+		}
+		return instances.sort((a, b) => a.instance - b.instance);
+	}
+
+	private processCwd(pid: number): string | undefined {
+		try {
+			if (os.platform() === 'linux') {
+				return fs.readlinkSync(`/proc/${pid}/cwd`);
+			}
+			const lsof = cp.spawnSync('lsof', ['-a', '-p', pid.toString(), '-d', 'cwd', '-Fn'], { encoding: 'utf8' });
+			return lsof.stdout.split('\n').find(line => line.startsWith('n'))?.slice(1);
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Sends MAV_CMD_SCRIPTING to stop and reload all scripts, then keeps
+	 * listening for a while to show script errors on the deployed files
+	 */
+	private async restartScripting(endpoint: MavlinkEndpoint): Promise<void> {
+		this.errorWatch?.dispose();
+		this.errorWatch = undefined;
+		const connection = await MavlinkConnection.acquire(endpoint);
+		try {
+			await connection.waitForVehicle(5000);
+			const ack = connection.waitForMessage('COMMAND_ACK', 3000, message => message.fields.command === MAV_CMD_SCRIPTING);
+			connection.send('COMMAND_LONG', {
+				target_system: connection.targetSystem ?? 0,
+				target_component: connection.targetComponent ?? 0,
+				command: MAV_CMD_SCRIPTING,
+				param1: SCRIPTING_CMD_STOP_AND_RESTART
+			});
+			const result = (await ack).fields.result as number;
+			if (result !== MAV_RESULT_ACCEPTED) {
+				throw new Error(`the vehicle refused to restart scripting (result ${result}), check that SCR_ENABLE is 1`);
+			}
+		} catch (error) {
+			connection.release();
+			throw error;
+		}
+		this.watchScriptErrors(connection);
+	}
+
+	private watchScriptErrors(connection: MavlinkConnection): void {
+		const assembler = new StatusTextAssembler();
+		const listener = connection.onMessage(message => {
+			if (message.name !== 'STATUSTEXT' || message.sysid !== connection.targetSystem) {
+				return;
+			}
+			const text = assembler.add(message);
+			const error = text ? parseScriptError(text) : undefined;
+			const uri = error && this.deployed.get(error.file);
+			if (!error || !uri) {
+				return;
+			}
+			apLuaScriptingManager.log(`script error in ${error.file}:${error.line}: ${error.message}`);
+			const line = Math.max(error.line - 1, 0);
+			const diagnostic = new vscode.Diagnostic(new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER), error.message, vscode.DiagnosticSeverity.Error);
+			diagnostic.source = 'ArduPilot Lua';
+			this.errorDiagnostics.set(uri, [diagnostic]);
+		});
+		const timer = setTimeout(() => watch.dispose(), apLuaScriptingManager.ERROR_WATCH_MS);
+		const closed = connection.onDidClose(() => watch.dispose());
+		const watch = new vscode.Disposable(() => {
+			clearTimeout(timer);
+			listener.dispose();
+			closed.dispose();
+			connection.release();
+			if (this.errorWatch === watch) {
+				this.errorWatch = undefined;
+			}
+		});
+		this.errorWatch = watch;
+	}
+
+	dispose(): void {
+		this.errorWatch?.dispose();
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+}
@@ -0,0 +1,548 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+/*
+ * MAVLink FTP client, see https://mavlink.io/en/services/ftp.html
+ *
+ * Requests and replies travel in the payload of FILE_TRANSFER_PROTOCOL messages.
+ * ArduPilot serves one session at a time, so operations are queued and each
+ * one opens, uses and terminates its session before the next starts.
+ */
+
+import type { MavlinkConnection } from './apMavlink';
+
+// bytes of file data carried by one payload
+export const FTP_DATA_LENGTH = 239;
+const FTP_HEADER_LENGTH = 12;
+const FTP_PAYLOAD_LENGTH = FTP_HEADER_LENGTH + FTP_DATA_LENGTH;
+
+export const FtpOpcode = {
+	None: 0,
+	TerminateSession: 1,
+	ResetSessions: 2,
+	ListDirectory: 3,
+	OpenFileRO: 4,
+	ReadFile: 5,
+	CreateFile: 6,
+	WriteFile: 7,
+	RemoveFile: 8,
+	CreateDirectory: 9,
+	RemoveDirectory: 10,
+	OpenFileWO: 11,
+	TruncateFile: 12,
+	Rename: 13,
+	CalcFileCRC32: 14,
+	BurstReadFile: 15,
+	Ack: 128,
+	Nak: 129,
+} as const;
+
+// error codes carried in the first data byte of a NAK
+export const FtpError = {
+	None: 0,
+	Fail: 1,
+	FailErrno: 2,
+	InvalidDataSize: 3,
+	InvalidSession: 4,
+	NoSessionsAvailable: 5,
+	EOF: 6,
+	UnknownCommand: 7,
+	FileExists: 8,
+	FileProtected: 9,
+	FileNotFound: 10,
+} as const;
+
+const FTP_ERROR_DESCRIPTIONS: Record<number, string> = {
+	[FtpError.Fail]: 'failed',
+	[FtpError.FailErrno]: 'failed',
+	[FtpError.InvalidDataSize]: 'invalid data size',
+	[FtpError.InvalidSession]: 'invalid session',
+	[FtpError.NoSessionsAvailable]: 'no sessions available',
+	[FtpError.EOF]: 'end of file',
+	[FtpError.UnknownCommand]: 'not supported by the vehicle',
+	[FtpError.FileExists]: 'already exists',
+	[FtpError.FileProtected]: 'write protected',
+	[FtpError.FileNotFound]: 'not found',
+};
+
+export interface FtpPayload {
+	seq: number;
+	session: number;
+	opcode: number;
+	// bytes of data used
+	size: number;
+	// opcode of the request an ACK or NAK answers
+	reqOpcode: number;
+	// set on the last reply of a burst
+	burstComplete: boolean;
+	offset: number;
+	data: Buffer;
+}
+
+export interface FtpEntry {
+	name: string;
+	type: 'file' | 'directory';
+	size: number;
+}
+
+/**
+ * Carries FTP payloads to and from the vehicle
+ */
+export interface MavftpLink {
+	send(payload: Buffer): void;
+	onPayload(listener: (payload: Buffer) => void): { dispose(): void };
+}
+
+export interface MavftpOptions {
+	// time to wait for a reply before the request is sent again
+	timeoutMs?: number;
+	retries?: number;
+}
+
+/**
+ * A NAK from the vehicle, code is one of FtpError
+ */
+export class MavftpError extends Error {
+	constructor(message: string, public readonly code: number, public readonly errno?: number) {
+		super(message);
+		this.name = 'MavftpError';
+	}
+}
+
+export function encodeFtpPayload(payload: FtpPayload): Buffer {
+	const buffer = Buffer.alloc(FTP_PAYLOAD_LENGTH);
+	buffer.writeUInt16LE(payload.seq & 0xFFFF, 0);
+	buffer.writeUInt8(payload.session, 2);
+	buffer.writeUInt8(payload.opcode, 3);
+	buffer.writeUInt8(payload.size, 4);
+	buffer.writeUInt8(payload.reqOpcode, 5);
+	buffer.writeUInt8(payload.burstComplete ? 1 : 0, 6);
+	buffer.writeUInt32LE(payload.offset >>> 0, 8);
+	payload.data.copy(buffer, FTP_HEADER_LENGTH, 0, FTP_DATA_LENGTH);
+	return buffer;
+}
+
+export function decodeFtpPayload(buffer: Buffer): FtpPayload {
+	const padded = Buffer.alloc(Math.max(buffer.length, FTP_PAYLOAD_LENGTH));
+	buffer.copy(padded);
+	const size = Math.min(padded.readUInt8(4), FTP_DATA_LENGTH);
+	return {
+		seq: padded.readUInt16LE(0),
+		session: padded.readUInt8(2),
+		opcode: padded.readUInt8(3),
+		size,
+		reqOpcode: padded.readUInt8(5),
+		burstComplete: padded.readUInt8(6) !== 0,
+		offset: padded.readUInt32LE(8),
+		data: padded.subarray(FTP_HEADER_LENGTH, FTP_HEADER_LENGTH + size),
+	};
+}
+
+/**
+ * Path as sent to the vehicle. ArduPilot's virtual filesystems are matched by
+ * prefix, so /@SYS/threads.txt has to go out as @SYS/threads.txt.
+ */
+export function ftpPath(filePath: string): string {
+	const trimmed = filePath.replace(/\/+$/, '');
+	if (trimmed === '') {
+		return '/';
+	}
+	return trimmed.replace(/^\/+(?=@)/, '');
+}
+
+/**
+ * Entries of a ListDirectory reply, "F<name>\t<size>", "D<name>" or "S" for
+ * one the vehicle skipped
+ * @returns the entries and how many were in the reply, skipped ones included
+ */
+export function parseDirectoryEntries(data: Buffer): { entries: FtpEntry[], count: number } {
+	const entries: FtpEntry[] = [];
+	let count = 0;
+	for (const item of data.toString('utf8').split('\0')) {
+		if (!item) {
+			continue;
+		}
+		count++;
+		const name = item.slice(1).split('\t')[0];
+		if (name === '.' || name === '..') {
+			continue;
+		}
+		if (item[0] === 'F') {
+			entries.push({ name, type: 'file', size: parseInt(item.split('\t')[1] ?? '0') || 0 });
+		} else if (item[0] === 'D') {
+			entries.push({ name, type: 'directory', size: 0 });
+		}
+	}
+	return { entries, count };
+}
+
+/**
+ * Link over a MAVLink connection, talking to its target vehicle
+ */
+export function mavlinkFtpLink(connection: MavlinkConnection): MavftpLink {
+	return {
+		send: payload => connection.send('FILE_TRANSFER_PROTOCOL', {
+			target_network: 0,
+			target_system: connection.targetSystem ?? 0,
+			target_component: connection.targetComponent ?? 0,
+			payload: [...payload]
+		}),
+		onPayload: listener => connection.onMessage(message => {
+			if (message.name === 'FILE_TRANSFER_PROTOCOL' && message.sysid === connection.targetSystem &&
+				(message.fields.target_system === 0 || message.fields.target_system === connection.encoder.sysid)) {
+				listener(Buffer.from(message.fields.payload as number[]));
+			}
+		})
+	};
+}
+
+function describeRequest(opcode: number): string {
+	switch (opcode) {
+	case FtpOpcode.ListDirectory: return 'Listing';
+	case FtpOpcode.OpenFileRO:
+	case FtpOpcode.ReadFile:
+	case FtpOpcode.BurstReadFile: return 'Reading';
+	case FtpOpcode.CreateFile:
+	case FtpOpcode.WriteFile: return 'Writing';
+	case FtpOpcode.RemoveFile:
+	case FtpOpcode.RemoveDirectory: return 'Removing';
+	case FtpOpcode.CreateDirectory: return 'Creating';
+	case FtpOpcode.Rename: return 'Renaming';
+	default: return 'Accessing';
+	}
+}
+
+// waits until woken or idle for the given time
+function idle(idleMs: number, setWake: (wake: () => void) => void): Promise<void> {
+	return new Promise<void>(resolve => {
+		const timer = setTimeout(resolve, idleMs);
+		setWake(() => {
+			clearTimeout(timer);
+			resolve();
+		});
+	});
+}
+
+export class MavftpClient {
+	private seq = 0;
+	private queue: Promise<unknown> = Promise.resolve();
+	private readonly timeoutMs: number;
+	private readonly retries: number;
+
+	constructor(private link: MavftpLink, options: MavftpOptions = {}) {
+		this.timeoutMs = options.timeoutMs ?? 1000;
+		this.retries = options.retries ?? 3;
+	}
+
+	/**
+	 * Closes any sessions left open on the vehicle, e.g. by an interrupted transfer
+	 */
+	resetSessions(): Promise<void> {
+		return this.run(async () => {
+			await this.request({ opcode: FtpOpcode.ResetSessions }, '/');
+		});
+	}
+
+	listDirectory(dirPath: string): Promise<FtpEntry[]> {
+		return this.run(async () => {
+			const entries: FtpEntry[] = [];
+			let offset = 0;
+			for (;;) {
+				let reply: FtpPayload;
+				try {
+					reply = await this.request({ opcode: FtpOpcode.ListDirectory, offset, data: Buffer.from(ftpPath(dirPath)) }, dirPath);
+				} catch (error) {
+					if (error instanceof MavftpError && error.code === FtpError.EOF) {
+						break;
+					}
+					throw error;
+				}
+				const listed = parseDirectoryEntries(reply.data);
+				if (listed.count === 0) {
+					break;
+				}
+				entries.push(...listed.entries);
+				offset += listed.count;
+			}
+			return entries;
+		});
+	}
+
+	/**
+	 * Reads a whole file, with burst reads when the vehicle supports them.
+	 * Reading goes on until the vehicle reports the end of the file, as the
+	 * size given on open is 0 for generated files such as @SYS/threads.txt.
+	 */
+	readFile(filePath: string, onProgress?: (received: number, total: number) => void): Promise<Buffer> {
+		return this.run(async () => {
+			const opened = await this.openSession(FtpOpcode.OpenFileRO, filePath);
+			const size = opened.size >= 4 ? opened.data.readUInt32LE(0) : 0;
+			try {
+				const chunks: Buffer[] = [];
+				let received = 0;
+				const report = (chunk: Buffer) => {
+					chunks.push(chunk);
+					received += chunk.length;
+					onProgress?.(received, Math.max(size, received));
+				};
+				if (!await this.burstRead(opened.session, filePath, () => received, report)) {
+					await this.sequentialRead(opened.session, filePath, () => received, report);
+				}
+				return Buffer.concat(chunks);
+			} finally {
+				await this.terminate(opened.session);
+			}
+		});
+	}
+
+	/**
+	 * Creates or truncates a file and writes it
+	 */
+	writeFile(filePath: string, data: Uint8Array, onProgress?: (sent: number, total: number) => void): Promise<void> {
+		return this.run(async () => {
+			const created = await this.openSession(FtpOpcode.CreateFile, filePath);
+			try {
+				for (let offset = 0; offset < data.length; offset += FTP_DATA_LENGTH) {
+					const chunk = Buffer.from(data.subarray(offset, offset + FTP_DATA_LENGTH));
+					await this.request({ opcode: FtpOpcode.WriteFile, session: created.session, offset, data: chunk }, filePath);
+					onProgress?.(offset + chunk.length, data.length);
+				}
+			} finally {
+				await this.terminate(created.session);
+			}
+		});
+	}
+
+	removeFile(filePath: string): Promise<void> {
+		return this.pathRequest(FtpOpcode.RemoveFile, filePath);
+	}
+
+	createDirectory(dirPath: string): Promise<void> {
+		return this.pathRequest(FtpOpcode.CreateDirectory, dirPath);
+	}
+
+	removeDirectory(dirPath: string): Promise<void> {
+		return this.pathRequest(FtpOpcode.RemoveDirectory, dirPath);
+	}
+
+	rename(from: string, to: string): Promise<void> {
+		return this.run(async () => {
+			await this.request({ opcode: FtpOpcode.Rename, data: Buffer.from(`${ftpPath(from)}\0${ftpPath(to)}`) }, from);
+		});
+	}
+
+	private pathRequest(opcode: number, filePath: string): Promise<void> {
+		return this.run(async () => {
+			await this.request({ opcode, data: Buffer.from(ftpPath(filePath)) }, filePath);
+		});
+	}
+
+	// runs operations one after another, the vehicle only has one session
+	private run<T>(operation: () => Promise<T>): Promise<T> {
+		const result = this.queue.then(operation, operation);
+		this.queue = result.catch(() => undefined);
+		return result;
+	}
+
+	// opens a session, clearing a session left behind by an interrupted transfer once
+	private async openSession(opcode: number, filePath: string): Promise<FtpPayload> {
+		const open = () => this.request({ opcode, data: Buffer.from(ftpPath(filePath)) }, filePath);
+		try {
+			return await open();
+		} catch (error) {
+			if (!(error instanceof MavftpError) || error.code !== FtpError.NoSessionsAvailable) {
+				throw error;
+			}
+			await this.request({ opcode: FtpOpcode.ResetSessions }, filePath);
+			return open();
+		}
+	}
+
+	private async terminate(session: number): Promise<void> {
+		try {
+			await this.request({ opcode: FtpOpcode.TerminateSession, session }, '');
+		} catch {
+			// the session is reset before the next open if this was lost
+		}
+	}
+
+	/**
+	 * Streams the file in bursts, asking for the rest again from the first
+	 * missing byte whenever a reply was lost or a burst ended
+	 * @returns false when the vehicle does not support burst reads
+	 */
+	private async burstRead(session: number, filePath: string, received: () => number, report: (chunk: Buffer) => void): Promise<boolean> {
+		let done = false;
+		let failure: Error | undefined;
+		let unsupported = false;
+		let requestedAt = -1;
+		let signalled = false;
+		let wake: (() => void) | undefined;
+		const signal = () => {
+			signalled = true;
+			wake?.();
+		};
+		const send = () => {
+			requestedAt = received();
+			this.link.send(this.encode({ opcode: FtpOpcode.BurstReadFile, session, offset: requestedAt, size: FTP_DATA_LENGTH }, this.nextSeq()));
+		};
+
+		const listener = this.link.onPayload(buffer => {
+			const reply = decodeFtpPayload(buffer);
+			if (reply.reqOpcode !== FtpOpcode.BurstReadFile || reply.session !== session || done) {
+				return;
+			}
+			if (reply.opcode === FtpOpcode.Nak) {
+				const code = reply.data[0] ?? FtpError.Fail;
+				if (code === FtpError.EOF) {
+					done = true;
+				} else if (code === FtpError.UnknownCommand && received() === 0) {
+					unsupported = true;
+				} else {
+					failure = this.error(FtpOpcode.BurstReadFile, filePath, reply);
+				}
+				signal();
+				return;
+			}
+			if (reply.opcode !== FtpOpcode.Ack) {
+				return;
+			}
+			if (reply.offset === received()) {
+				report(Buffer.from(reply.data));
+				if (reply.size === 0) {
+					done = true;
+				}
+			} else if (reply.offset > received() && requestedAt !== received()) {
+				// a reply was lost, the rest of this burst is of no use
+				send();
+			}
+			if (reply.burstComplete || done) {
+				signal();
+			}
+		});
+
+		try {
+			let attempts = 0;
+			while (!done && !unsupported && !failure) {
+				const before = received();
+				signalled = false;
+				if (requestedAt !== before || attempts > 0) {
+					send();
+				}
+				if (!signalled) {
+					await idle(this.timeoutMs, resolve => { wake = resolve; });
+				}
+				if (received() > before) {
+					attempts = 0;
+				} else if (!signalled && ++attempts > this.retries) {
+					throw new MavftpError(`Reading ${filePath} timed out after ${received()} bytes`, FtpError.Fail);
+				}
+			}
+		} finally {
+			wake = undefined;
+			listener.dispose();
+		}
+		if (failure) {
+			throw failure;
+		}
+		return !unsupported;
+	}
+
+	private async sequentialRead(session: number, filePath: string, received: () => number, report: (chunk: Buffer) => void): Promise<void> {
+		for (;;) {
+			let reply: FtpPayload;
+			try {
+				reply = await this.request({ opcode: FtpOpcode.ReadFile, session, offset: received(), size: FTP_DATA_LENGTH }, filePath);
+			} catch (error) {
+				if (error instanceof MavftpError && error.code === FtpError.EOF) {
+					return;
+				}
+				throw error;
+			}
+			if (reply.size === 0) {
+				return;
+			}
+			report(Buffer.from(reply.data));
+		}
+	}
+
+	private nextSeq(): number {
+		const seq = this.seq;
+		this.seq = (this.seq + 1) & 0xFFFF;
+		return seq;
+	}
+
+	private encode(request: Partial<FtpPayload> & { opcode: number }, seq: number): Buffer {
+		const data = request.data ?? Buffer.alloc(0);
+		return encodeFtpPayload({
+			seq,
+			session: request.session ?? 0,
+			opcode: request.opcode,
+			size: request.size ?? Math.min(data.length, FTP_DATA_LENGTH),
+			reqOpcode: 0,
+			burstComplete: false,
+			offset: request.offset ?? 0,
+			data
+		});
+	}
+
+	private error(opcode: number, filePath: string, reply: FtpPayload): MavftpError {
+		const code = reply.size > 0 ? reply.data[0] : FtpError.Fail;
+		const errno = code === FtpError.FailErrno && reply.size > 1 ? reply.data[1] : undefined;
+		const reason = FTP_ERROR_DESCRIPTIONS[code] ?? `error ${code}`;
+		return new MavftpError(`${describeRequest(opcode)} ${filePath} ${reason}${errno !== undefined ? ` (errno ${errno})` : ''}`, code, errno);
+	}
+
+	/**
+	 * Sends a request and resolves with its ACK, sending it again with the same
+	 * sequence number when no reply comes, so the vehicle can spot the repeat
+	 */
+	private async request(request: Partial<FtpPayload> & { opcode: number }, filePath: string): Promise<FtpPayload> {
+		const seq = this.nextSeq();
+		const expected = (seq + 1) & 0xFFFF;
+		const buffer = this.encode(request, seq);
+
+		let reply: FtpPayload | undefined;
+		let wake: (() => void) | undefined;
+		const listener = this.link.onPayload(data => {
+			const candidate = decodeFtpPayload(data);
+			if (candidate.seq === expected && candidate.reqOpcode === request.opcode &&
+				(candidate.opcode === FtpOpcode.Ack || candidate.opcode === FtpOpcode.Nak)) {
+				reply = candidate;
+				wake?.();
+			}
+		});
+		try {
+			for (let attempt = 0; attempt <= this.retries && !reply; attempt++) {
+				this.link.send(buffer);
+				if (!reply) {
+					await idle(this.timeoutMs, resolve => { wake = resolve; });
+				}
+			}
+		} finally {
+			wake = undefined;
+			listener.dispose();
+		}
+
+		if (!reply) {
+			throw new MavftpError(`${describeRequest(request.opcode)} ${filePath} timed out`, FtpError.Fail);
+		}
+		if (reply.opcode === FtpOpcode.Nak) {
+			throw this.error(request.opcode, filePath, reply);
+		}
+		return reply;
+	}
+}
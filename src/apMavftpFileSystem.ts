@@ -0,0 +1,322 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { apLog } from './apLog';
+import { MavlinkConnection, MavlinkEndpoint, endpointToString } from './apMavlink';
+import { FtpEntry, FtpError, MavftpClient, MavftpError, mavlinkFtpLink } from './apMavftp';
+
+interface MavftpMount {
+	endpoint: MavlinkEndpoint;
+	name: string;
+}
+
+interface MavftpSession {
+	connection: MavlinkConnection;
+	client: MavftpClient;
+	// operations in progress, the connection is only released when none are
+	active: number;
+	releaseTimer?: NodeJS.Timeout;
+	closeListener: vscode.Disposable;
+}
+
+/**
+ * Files on a board's SD card and ArduPilot's virtual @SYS, @PARAM and @ROMFS
+ * filesystems, under mavftp://<device>/ and reached over MAVLink FTP.
+ * Mounted devices are remembered so a workspace folder on one still opens
+ * after a reload; the MAVLink connection is only held while files are in use.
+ */
+export class apMavftpFileSystem implements vscode.FileSystemProvider {
+	private static log = new apLog('apMavftpFileSystem').log;
+	static readonly scheme = 'mavftp';
+	private static readonly STATE_KEY = 'ardupilot.mavftpMounts';
+	// release the connection once idle for this long, letting other tools use the port
+	private static readonly IDLE_RELEASE_MS = 30000;
+	// how long a directory listing answers stat() calls
+	private static readonly LISTING_CACHE_MS = 2000;
+	private static context: vscode.ExtensionContext | undefined;
+	private static instance: apMavftpFileSystem | undefined;
+
+	private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+	readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+	private sessions = new Map<string, Promise<MavftpSession>>();
+	private listings = new Map<string, { entries: FtpEntry[], time: number }>();
+
+	public static initialize(context: vscode.ExtensionContext): void {
+		apMavftpFileSystem.context = context;
+		apMavftpFileSystem.instance = new apMavftpFileSystem();
+		context.subscriptions.push(
+			vscode.workspace.registerFileSystemProvider(apMavftpFileSystem.scheme, apMavftpFileSystem.instance, { isCaseSensitive: true }),
+			apMavftpFileSystem.instance
+		);
+	}
+
+	// URI authority for a device, e.g. ttyACM0 for /dev/ttyACM0 or com3 for COM3
+	public static authorityFor(devicePath: string): string {
+		return path.basename(devicePath).replace(/[^A-Za-z0-9._-]/g, '_').toLowerCase();
+	}
+
+	/**
+	 * Remembers how to reach a device and returns the root of its files
+	 */
+	public static async mount(devicePath: string, endpoint: MavlinkEndpoint): Promise<vscode.Uri> {
+		const authority = apMavftpFileSystem.authorityFor(devicePath);
+		const mounts = apMavftpFileSystem.mounts();
+		mounts[authority] = { endpoint, name: devicePath };
+		await apMavftpFileSystem.context?.globalState.update(apMavftpFileSystem.STATE_KEY, mounts);
+		// a new baud rate takes effect on the next connection
+		await apMavftpFileSystem.instance?.release(authority);
+		apMavftpFileSystem.log(`mounted ${devicePath} as ${apMavftpFileSystem.scheme}://${authority}/ (${endpointToString(endpoint)})`);
+		return vscode.Uri.from({ scheme: apMavftpFileSystem.scheme, authority, path: '/' });
+	}
+
+	/**
+	 * Devices mounted so far, with the root of their files
+	 */
+	public static mountedDevices(): { name: string, endpoint: MavlinkEndpoint, root: vscode.Uri }[] {
+		return Object.entries(apMavftpFileSystem.mounts()).map(([authority, mount]) => ({
+			name: mount.name,
+			endpoint: mount.endpoint,
+			root: vscode.Uri.from({ scheme: apMavftpFileSystem.scheme, authority, path: '/' })
+		}));
+	}
+
+	private static mounts(): Record<string, MavftpMount> {
+		return { ...apMavftpFileSystem.context?.globalState.get<Record<string, MavftpMount>>(apMavftpFileSystem.STATE_KEY) };
+	}
+
+	watch(): vscode.Disposable {
+		// changes made on the vehicle itself are not reported
+		return new vscode.Disposable(() => undefined);
+	}
+
+	async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+		const filePath = this.pathOf(uri);
+		// the root and the virtual filesystems can't be listed from their parent
+		if (filePath === '/' || /^\/@[^/]+$/.test(filePath)) {
+			return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+		}
+		const name = path.posix.basename(filePath);
+		const entry = (await this.list(uri.with({ path: path.posix.dirname(filePath) }), true)).find(candidate => candidate.name === name);
+		if (!entry) {
+			throw vscode.FileSystemError.FileNotFound(uri);
+		}
+		return {
+			type: entry.type === 'directory' ? vscode.FileType.Directory : vscode.FileType.File,
+			ctime: 0,
+			mtime: 0,
+			size: entry.size
+		};
+	}
+
+	async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+		const entries = await this.list(uri, false);
+		return entries.map(entry => [entry.name, entry.type === 'directory' ? vscode.FileType.Directory : vscode.FileType.File]);
+	}
+
+	async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+		return vscode.window.withProgress({
+			location: vscode.ProgressLocation.Window,
+			title: `Reading ${uri.path} from ${uri.authority}`
+		}, progress => this.withClient(uri, client => client.readFile(this.pathOf(uri), (received, total) => {
+			progress.report({ message: `${Math.floor(received / 1024)} of ${Math.ceil(total / 1024)} KB` });
+		})));
+	}
+
+	async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean, overwrite: boolean }): Promise<void> {
+		const exists = await this.exists(uri);
+		if (!exists && !options.create) {
+			throw vscode.FileSystemError.FileNotFound(uri);
+		}
+		if (exists && !options.overwrite) {
+			throw vscode.FileSystemError.FileExists(uri);
+		}
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Window,
+			title: `Writing ${uri.path} to ${uri.authority}`
+		}, progress => this.withClient(uri, client => client.writeFile(this.pathOf(uri), content, (sent, total) => {
+			progress.report({ message: `${Math.floor(sent / 1024)} of ${Math.ceil(total / 1024)} KB` });
+		})));
+		this.changed(uri, exists ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created);
+	}
+
+	async createDirectory(uri: vscode.Uri): Promise<void> {
+		await this.withClient(uri, client => client.createDirectory(this.pathOf(uri)));
+		this.changed(uri, vscode.FileChangeType.Created);
+	}
+
+	async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+		const stat = await this.stat(uri);
+		if (stat.type === vscode.FileType.Directory) {
+			if (options.recursive) {
+				for (const [name] of await this.readDirectory(uri)) {
+					await this.delete(vscode.Uri.joinPath(uri, name), options);
+				}
+			}
+			await this.withClient(uri, client => client.removeDirectory(this.pathOf(uri)));
+		} else {
+			await this.withClient(uri, client => client.removeFile(this.pathOf(uri)));
+		}
+		this.changed(uri, vscode.FileChangeType.Deleted);
+	}
+
+	async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+		if (oldUri.authority !== newUri.authority) {
+			throw vscode.FileSystemError.NoPermissions('Files can only be renamed on the same device');
+		}
+		if (await this.exists(newUri)) {
+			if (!options.overwrite) {
+				throw vscode.FileSystemError.FileExists(newUri);
+			}
+			await this.delete(newUri, { recursive: false });
+		}
+		await this.withClient(oldUri, client => client.rename(this.pathOf(oldUri), this.pathOf(newUri)));
+		this.changed(oldUri, vscode.FileChangeType.Deleted);
+		this.changed(newUri, vscode.FileChangeType.Created);
+	}
+
+	dispose(): void {
+		for (const authority of [...this.sessions.keys()]) {
+			void this.release(authority);
+		}
+		this._onDidChangeFile.dispose();
+	}
+
+	private pathOf(uri: vscode.Uri): string {
+		return path.posix.normalize(uri.path || '/');
+	}
+
+	private async exists(uri: vscode.Uri): Promise<boolean> {
+		try {
+			await this.stat(uri);
+			return true;
+		} catch (error) {
+			if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+				return false;
+			}
+			throw error;
+		}
+	}
+
+	private async list(uri: vscode.Uri, cached: boolean): Promise<FtpEntry[]> {
+		const key = `${uri.authority}${this.pathOf(uri)}`;
+		const listing = this.listings.get(key);
+		if (cached && listing && Date.now() - listing.time < apMavftpFileSystem.LISTING_CACHE_MS) {
+			return listing.entries;
+		}
+		const entries = await this.withClient(uri, client => client.listDirectory(this.pathOf(uri)));
+		this.listings.set(key, { entries, time: Date.now() });
+		return entries;
+	}
+
+	private changed(uri: vscode.Uri, type: vscode.FileChangeType): void {
+		const parent = uri.with({ path: path.posix.dirname(this.pathOf(uri)) });
+		this.listings.delete(`${parent.authority}${this.pathOf(parent)}`);
+		this.listings.delete(`${uri.authority}${this.pathOf(uri)}`);
+		this._onDidChangeFile.fire([{ type, uri }]);
+	}
+
+	/**
+	 * Runs an operation with the device's client, connecting on first use and
+	 * turning MAVLink FTP errors into the matching FileSystemErrors
+	 */
+	private async withClient<T>(uri: vscode.Uri, operation: (client: MavftpClient) => Promise<T>): Promise<T> {
+		const authority = uri.authority.toLowerCase();
+		let session: MavftpSession;
+		try {
+			session = await this.session(authority);
+		} catch (error) {
+			throw vscode.FileSystemError.Unavailable(`${uri.authority}: ${error instanceof Error ? error.message : error}`);
+		}
+		if (session.releaseTimer) {
+			clearTimeout(session.releaseTimer);
+		}
+		session.active++;
+		try {
+			return await operation(session.client);
+		} catch (error) {
+			if (!(error instanceof MavftpError)) {
+				throw error;
+			}
+			switch (error.code) {
+			case FtpError.FileNotFound:
+				throw vscode.FileSystemError.FileNotFound(uri);
+			case FtpError.FileExists:
+				throw vscode.FileSystemError.FileExists(uri);
+			case FtpError.FileProtected:
+				throw vscode.FileSystemError.NoPermissions(uri);
+			default:
+				throw vscode.FileSystemError.Unavailable(error.message);
+			}
+		} finally {
+			if (--session.active === 0) {
+				session.releaseTimer = setTimeout(() => void this.release(authority), apMavftpFileSystem.IDLE_RELEASE_MS);
+			}
+		}
+	}
+
+	private session(authority: string): Promise<MavftpSession> {
+		let session = this.sessions.get(authority);
+		if (!session) {
+			session = this.connect(authority);
+			this.sessions.set(authority, session);
+			session.catch(() => this.sessions.delete(authority));
+		}
+		return session;
+	}
+
+	private async connect(authority: string): Promise<MavftpSession> {
+		const mount = apMavftpFileSystem.mounts()[authority];
+		if (!mount) {
+			throw new Error('Device not mounted, browse its files from the Connected Devices view');
+		}
+		const connection = await MavlinkConnection.acquire(mount.endpoint);
+		try {
+			await connection.waitForVehicle(5000);
+			const client = new MavftpClient(mavlinkFtpLink(connection));
+			// clears a session left behind by an interrupted transfer
+			await client.resetSessions();
+			apMavftpFileSystem.log(`connected to ${mount.name} for file access`);
+			const closeListener = connection.onDidClose(() => {
+				this.sessions.delete(authority);
+			});
+			return { connection, client, active: 0, closeListener };
+		} catch (error) {
+			connection.release();
+			throw error;
+		}
+	}
+
+	private async release(authority: string): Promise<void> {
+		const pending = this.sessions.get(authority);
+		if (!pending) {
+			return;
+		}
+		this.sessions.delete(authority);
+		try {
+			const session = await pending;
+			if (session.releaseTimer) {
+				clearTimeout(session.releaseTimer);
+			}
+			session.closeListener.dispose();
+			session.connection.release();
+			apMavftpFileSystem.log(`released ${authority}`);
+		} catch {
+			// never connected
+		}
+	}
+}
@@ -0,0 +1,962 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as dgram from 'dgram';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as tty from 'tty';
+import { apLog } from './apLog';
+
+/*
+ * Minimal native MAVLink v1/v2 implementation.
+ *
+ * Only the messages the extension actually uses are described in MAVLINK_MESSAGES,
+ * with their fields listed in wire order (sorted by type size as the generator does,
+ * extension fields last). Anything else on the link is counted and skipped.
+ */
+
+export const MAVLINK_STX_V1 = 0xFE;
+export const MAVLINK_STX_V2 = 0xFD;
+const MAVLINK_IFLAG_SIGNED = 0x01;
+const MAVLINK_SIGNATURE_LEN = 13;
+const MAVLINK_V1_HEADER_LEN = 6;
+const MAVLINK_V2_HEADER_LEN = 10;
+const MAVLINK_CHECKSUM_LEN = 2;
+
+export type MavFieldType = 'uint8_t' | 'int8_t' | 'uint16_t' | 'int16_t' | 'uint32_t' | 'int32_t' |
+	'uint64_t' | 'int64_t' | 'float' | 'double' | 'char';
+
+export interface MavFieldDef {
+	name: string;
+	type: MavFieldType;
+	arrayLength?: number;
+	extension?: boolean;
+}
+
+export interface MavMessageDef {
+	id: number;
+	name: string;
+	crcExtra: number;
+	fields: MavFieldDef[];
+}
+
+export type MavFieldValue = number | string | number[];
+export type MavlinkFields = Record<string, MavFieldValue>;
+
+export interface MavlinkMessage {
+	msgid: number;
+	name: string;
+	version: 1 | 2;
+	seq: number;
+	sysid: number;
+	compid: number;
+	fields: MavlinkFields;
+}
+
+export const MAV_TYPE_GCS = 6;
+export const MAV_AUTOPILOT_INVALID = 8;
+export const MAV_STATE_ACTIVE = 4;
+export const MAV_MODE_FLAG_SAFETY_ARMED = 0x80;
+export const MAV_CMD_PREFLIGHT_REBOOT_SHUTDOWN = 246;
+export const MAV_CMD_SCRIPTING = 42701;
+export const MAV_RESULT_ACCEPTED = 0;
+
+export const MAVLINK_MESSAGES: MavMessageDef[] = [
+	{
+		id: 0, name: 'HEARTBEAT', crcExtra: 50, fields: [
+			{ name: 'custom_mode', type: 'uint32_t' },
+			{ name: 'type', type: 'uint8_t' },
+			{ name: 'autopilot', type: 'uint8_t' },
+			{ name: 'base_mode', type: 'uint8_t' },
+			{ name: 'system_status', type: 'uint8_t' },
+			{ name: 'mavlink_version', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 1, name: 'SYS_STATUS', crcExtra: 124, fields: [
+			{ name: 'onboard_control_sensors_present', type: 'uint32_t' },
+			{ name: 'onboard_control_sensors_enabled', type: 'uint32_t' },
+			{ name: 'onboard_control_sensors_health', type: 'uint32_t' },
+			{ name: 'load', type: 'uint16_t' },
+			{ name: 'voltage_battery', type: 'uint16_t' },
+			{ name: 'current_battery', type: 'int16_t' },
+			{ name: 'drop_rate_comm', type: 'uint16_t' },
+			{ name: 'errors_comm', type: 'uint16_t' },
+			{ name: 'errors_count1', type: 'uint16_t' },
+			{ name: 'errors_count2', type: 'uint16_t' },
+			{ name: 'errors_count3', type: 'uint16_t' },
+			{ name: 'errors_count4', type: 'uint16_t' },
+			{ name: 'battery_remaining', type: 'int8_t' },
+		]
+	},
+	{
+		id: 20, name: 'PARAM_REQUEST_READ', crcExtra: 214, fields: [
+			{ name: 'param_index', type: 'int16_t' },
+			{ name: 'target_system', type: 'uint8_t' },
+			{ name: 'target_component', type: 'uint8_t' },
+			{ name: 'param_id', type: 'char', arrayLength: 16 },
+		]
+	},
+	{
+		id: 21, name: 'PARAM_REQUEST_LIST', crcExtra: 159, fields: [
+			{ name: 'target_system', type: 'uint8_t' },
+			{ name: 'target_component', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 22, name: 'PARAM_VALUE', crcExtra: 220, fields: [
+			{ name: 'param_value', type: 'float' },
+			{ name: 'param_count', type: 'uint16_t' },
+			{ name: 'param_index', type: 'uint16_t' },
+			{ name: 'param_id', type: 'char', arrayLength: 16 },
+			{ name: 'param_type', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 23, name: 'PARAM_SET', crcExtra: 168, fields: [
+			{ name: 'param_value', type: 'float' },
+			{ name: 'target_system', type: 'uint8_t' },
+			{ name: 'target_component', type: 'uint8_t' },
+			{ name: 'param_id', type: 'char', arrayLength: 16 },
+			{ name: 'param_type', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 24, name: 'GPS_RAW_INT', crcExtra: 24, fields: [
+			{ name: 'time_usec', type: 'uint64_t' },
+			{ name: 'lat', type: 'int32_t' },
+			{ name: 'lon', type: 'int32_t' },
+			{ name: 'alt', type: 'int32_t' },
+			{ name: 'eph', type: 'uint16_t' },
+			{ name: 'epv', type: 'uint16_t' },
+			{ name: 'vel', type: 'uint16_t' },
+			{ name: 'cog', type: 'uint16_t' },
+			{ name: 'fix_type', type: 'uint8_t' },
+			{ name: 'satellites_visible', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 30, name: 'ATTITUDE', crcExtra: 39, fields: [
+			{ name: 'time_boot_ms', type: 'uint32_t' },
+			{ name: 'roll', type: 'float' },
+			{ name: 'pitch', type: 'float' },
+			{ name: 'yaw', type: 'float' },
+			{ name: 'rollspeed', type: 'float' },
+			{ name: 'pitchspeed', type: 'float' },
+			{ name: 'yawspeed', type: 'float' },
+		]
+	},
+	{
+		id: 66, name: 'REQUEST_DATA_STREAM', crcExtra: 148, fields: [
+			{ name: 'req_message_rate', type: 'uint16_t' },
+			{ name: 'target_system', type: 'uint8_t' },
+			{ name: 'target_component', type: 'uint8_t' },
+			{ name: 'req_stream_id', type: 'uint8_t' },
+			{ name: 'start_stop', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 76, name: 'COMMAND_LONG', crcExtra: 152, fields: [
+			{ name: 'param1', type: 'float' },
+			{ name: 'param2', type: 'float' },
+			{ name: 'param3', type: 'float' },
+			{ name: 'param4', type: 'float' },
+			{ name: 'param5', type: 'float' },
+			{ name: 'param6', type: 'float' },
+			{ name: 'param7', type: 'float' },
+			{ name: 'command', type: 'uint16_t' },
+			{ name: 'target_system', type: 'uint8_t' },
+			{ name: 'target_component', type: 'uint8_t' },
+			{ name: 'confirmation', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 77, name: 'COMMAND_ACK', crcExtra: 143, fields: [
+			{ name: 'command', type: 'uint16_t' },
+			{ name: 'result', type: 'uint8_t' },
+			{ name: 'progress', type: 'uint8_t', extension: true },
+			{ name: 'result_param2', type: 'int32_t', extension: true },
+			{ name: 'target_system', type: 'uint8_t', extension: true },
+			{ name: 'target_component', type: 'uint8_t', extension: true },
+		]
+	},
+	{
+		id: 110, name: 'FILE_TRANSFER_PROTOCOL', crcExtra: 84, fields: [
+			{ name: 'target_network', type: 'uint8_t' },
+			{ name: 'target_system', type: 'uint8_t' },
+			{ name: 'target_component', type: 'uint8_t' },
+			{ name: 'payload', type: 'uint8_t', arrayLength: 251 },
+		]
+	},
+	{
+		id: 117, name: 'LOG_REQUEST_LIST', crcExtra: 128, fields: [
+			{ name: 'start', type: 'uint16_t' },
+			{ name: 'end', type: 'uint16_t' },
+			{ name: 'target_system', type: 'uint8_t' },
+			{ name: 'target_component', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 118, name: 'LOG_ENTRY', crcExtra: 56, fields: [
+			{ name: 'time_utc', type: 'uint32_t' },
+			{ name: 'size', type: 'uint32_t' },
+			{ name: 'id', type: 'uint16_t' },
+			{ name: 'num_logs', type: 'uint16_t' },
+			{ name: 'last_log_num', type: 'uint16_t' },
+		]
+	},
+	{
+		id: 119, name: 'LOG_REQUEST_DATA', crcExtra: 116, fields: [
+			{ name: 'ofs', type: 'uint32_t' },
+			{ name: 'count', type: 'uint32_t' },
+			{ name: 'id', type: 'uint16_t' },
+			{ name: 'target_system', type: 'uint8_t' },
+			{ name: 'target_component', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 120, name: 'LOG_DATA', crcExtra: 134, fields: [
+			{ name: 'ofs', type: 'uint32_t' },
+			{ name: 'id', type: 'uint16_t' },
+			{ name: 'count', type: 'uint8_t' },
+			{ name: 'data', type: 'uint8_t', arrayLength: 90 },
+		]
+	},
+	{
+		id: 121, name: 'LOG_ERASE', crcExtra: 237, fields: [
+			{ name: 'target_system', type: 'uint8_t' },
+			{ name: 'target_component', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 122, name: 'LOG_REQUEST_END', crcExtra: 203, fields: [
+			{ name: 'target_system', type: 'uint8_t' },
+			{ name: 'target_component', type: 'uint8_t' },
+		]
+	},
+	{
+		id: 253, name: 'STATUSTEXT', crcExtra: 83, fields: [
+			{ name: 'severity', type: 'uint8_t' },
+			{ name: 'text', type: 'char', arrayLength: 50 },
+			{ name: 'id', type: 'uint16_t', extension: true },
+			{ name: 'chunk_seq', type: 'uint8_t', extension: true },
+		]
+	},
+];
+
+const MESSAGES_BY_ID = new Map<number, MavMessageDef>(MAVLINK_MESSAGES.map(def => [def.id, def]));
+const MESSAGES_BY_NAME = new Map<string, MavMessageDef>(MAVLINK_MESSAGES.map(def => [def.name, def]));
+
+const FIELD_SIZES: Record<MavFieldType, number> = {
+	'uint8_t': 1, 'int8_t': 1, 'char': 1,
+	'uint16_t': 2, 'int16_t': 2,
+	'uint32_t': 4, 'int32_t': 4, 'float': 4,
+	'uint64_t': 8, 'int64_t': 8, 'double': 8,
+};
+
+export function getMessageDef(nameOrId: string | number): MavMessageDef | undefined {
+	return typeof nameOrId === 'number' ? MESSAGES_BY_ID.get(nameOrId) : MESSAGES_BY_NAME.get(nameOrId);
+}
+
+/**
+ * Payload length of a message definition
+ * @param def message definition
+ * @param includeExtensions whether MAVLink2 extension fields are counted
+ */
+export function payloadLength(def: MavMessageDef, includeExtensions = true): number {
+	return def.fields
+		.filter(field => includeExtensions || !field.extension)
+		.reduce((len, field) => len + FIELD_SIZES[field.type] * (field.arrayLength ?? 1), 0);
+}
+
+/**
+ * CRC-16/MCRF4XX (the "X.25" checksum used by MAVLink)
+ * @param data bytes to accumulate
+ * @param crc running checksum, 0xFFFF to start a new one
+ */
+export function x25Crc(data: Uint8Array, crc = 0xFFFF): number {
+	for (const byte of data) {
+		let tmp = (byte ^ (crc & 0xFF)) & 0xFF;
+		tmp = (tmp ^ (tmp << 4)) & 0xFF;
+		crc = ((crc >> 8) ^ (tmp << 8) ^ (tmp << 3) ^ (tmp >> 4)) & 0xFFFF;
+	}
+	return crc;
+}
+
+function readField(payload: Buffer, offset: number, type: MavFieldType): number {
+	switch (type) {
+	case 'uint8_t':
+	case 'char':
+		return payload.readUInt8(offset);
+	case 'int8_t':
+		return payload.readInt8(offset);
+	case 'uint16_t':
+		return payload.readUInt16LE(offset);
+	case 'int16_t':
+		return payload.readInt16LE(offset);
+	case 'uint32_t':
+		return payload.readUInt32LE(offset);
+	case 'int32_t':
+		return payload.readInt32LE(offset);
+	case 'uint64_t':
+		return Number(payload.readBigUInt64LE(offset));
+	case 'int64_t':
+		return Number(payload.readBigInt64LE(offset));
+	case 'float':
+		return payload.readFloatLE(offset);
+	case 'double':
+		return payload.readDoubleLE(offset);
+	}
+}
+
+function writeField(payload: Buffer, offset: number, type: MavFieldType, value: number): void {
+	switch (type) {
+	case 'uint8_t':
+	case 'char':
+		payload.writeUInt8(value & 0xFF, offset);
+		break;
+	case 'int8_t':
+		payload.writeInt8(value, offset);
+		break;
+	case 'uint16_t':
+		payload.writeUInt16LE(value & 0xFFFF, offset);
+		break;
+	case 'int16_t':
+		payload.writeInt16LE(value, offset);
+		break;
+	case 'uint32_t':
+		payload.writeUInt32LE(value >>> 0, offset);
+		break;
+	case 'int32_t':
+		payload.writeInt32LE(value, offset);
+		break;
+	case 'uint64_t':
+		payload.writeBigUInt64LE(BigInt(Math.trunc(value)), offset);
+		break;
+	case 'int64_t':
+		payload.writeBigInt64LE(BigInt(Math.trunc(value)), offset);
+		break;
+	case 'float':
+		payload.writeFloatLE(value, offset);
+		break;
+	case 'double':
+		payload.writeDoubleLE(value, offset);
+		break;
+	}
+}
+
+/**
+ * Decodes a payload into named fields. MAVLink2 truncates trailing zero bytes,
+ * so short payloads are zero-padded back to the full length first.
+ */
+export function decodePayload(def: MavMessageDef, data: Buffer): MavlinkFields {
+	const fullLength = payloadLength(def);
+	const payload = Buffer.alloc(Math.max(fullLength, data.length));
+	data.copy(payload);
+
+	const fields: MavlinkFields = {};
+	let offset = 0;
+	for (const field of def.fields) {
+		const size = FIELD_SIZES[field.type];
+		if (field.arrayLength === undefined) {
+			fields[field.name] = readField(payload, offset, field.type);
+		} else if (field.type === 'char') {
+			const raw = payload.subarray(offset, offset + field.arrayLength);
+			const end = raw.indexOf(0);
+			fields[field.name] = raw.subarray(0, end === -1 ? raw.length : end).toString('utf8');
+		} else {
+			const values: number[] = [];
+			for (let i = 0; i < field.arrayLength; i++) {
+				values.push(readField(payload, offset + i * size, field.type));
+			}
+			fields[field.name] = values;
+		}
+		offset += size * (field.arrayLength ?? 1);
+	}
+	return fields;
+}
+
+/**
+ * Encodes named fields into a payload, missing fields are sent as zero
+ * @param version MAVLink1 drops extension fields, MAVLink2 truncates trailing zeros
+ */
+export function encodePayload(def: MavMessageDef, fields: MavlinkFields, version: 1 | 2 = 2): Buffer {
+	const payload = Buffer.alloc(payloadLength(def, version === 2));
+	let offset = 0;
+	for (const field of def.fields) {
+		if (field.extension && version === 1) {
+			break;
+		}
+		const size = FIELD_SIZES[field.type];
+		const value = fields[field.name];
+		if (field.arrayLength === undefined) {
+			writeField(payload, offset, field.type, typeof value === 'number' ? value : 0);
+		} else if (field.type === 'char') {
+			Buffer.from(typeof value === 'string' ? value : '', 'utf8').copy(payload, offset, 0, field.arrayLength);
+		} else if (Array.isArray(value)) {
+			value.slice(0, field.arrayLength).forEach((item, i) => writeField(payload, offset + i * size, field.type, item));
+		}
+		offset += size * (field.arrayLength ?? 1);
+	}
+
+	if (version === 1) {
+		return payload;
+	}
+	let length = payload.length;
+	while (length > 1 && payload[length - 1] === 0) {
+		length--;
+	}
+	return payload.subarray(0, length);
+}
+
+/**
+ * Builds MAVLink frames for outgoing messages, keeping track of the sequence number
+ */
+export class MavlinkEncoder {
+	private seq = 0;
+
+	constructor(
+		public sysid = 255,
+		public compid = 190,
+		public version: 1 | 2 = 2
+	) {}
+
+	encode(name: string, fields: MavlinkFields): Buffer {
+		const def = getMessageDef(name);
+		if (!def) {
+			throw new Error(`Unknown MAVLink message ${name}`);
+		}
+		const frame = encodeFrame(def, fields, {
+			version: this.version,
+			seq: this.seq,
+			sysid: this.sysid,
+			compid: this.compid
+		});
+		this.seq = (this.seq + 1) & 0xFF;
+		return frame;
+	}
+}
+
+export function encodeFrame(def: MavMessageDef, fields: MavlinkFields, header: { version: 1 | 2, seq: number, sysid: number, compid: number }): Buffer {
+	const payload = encodePayload(def, fields, header.version);
+	const headerBytes = header.version === 1
+		? Buffer.from([MAVLINK_STX_V1, payload.length, header.seq, header.sysid, header.compid, def.id])
+		: Buffer.from([MAVLINK_STX_V2, payload.length, 0, 0, header.seq, header.sysid, header.compid,
+			def.id & 0xFF, (def.id >> 8) & 0xFF, (def.id >> 16) & 0xFF]);
+
+	let crc = x25Crc(headerBytes.subarray(1));
+	crc = x25Crc(payload, crc);
+	crc = x25Crc(Buffer.from([def.crcExtra]), crc);
+	const checksum = Buffer.alloc(MAVLINK_CHECKSUM_LEN);
+	checksum.writeUInt16LE(crc);
+	return Buffer.concat([headerBytes, payload, checksum]);
+}
+
+export interface MavlinkParserStats {
+	received: number;
+	crcErrors: number;
+	unknown: number;
+	lost: number;
+}
+
+/**
+ * Incremental MAVLink v1/v2 frame parser. Feed it raw bytes as they arrive from
+ * the transport; frames split across reads are buffered until complete and
+ * corrupt data is skipped byte by byte until the stream resynchronises.
+ * Signed frames are accepted but the signature is not verified.
+ */
+export class MavlinkParser {
+	private buffer: Buffer = Buffer.alloc(0);
+	private lastSeq = new Map<number, number>();
+	public readonly stats: MavlinkParserStats = { received: 0, crcErrors: 0, unknown: 0, lost: 0 };
+
+	parse(data: Buffer): MavlinkMessage[] {
+		const messages: MavlinkMessage[] = [];
+		this.buffer = this.buffer.length ? Buffer.concat([this.buffer, data]) : data;
+
+		for (;;) {
+			const start = this.findStart();
+			if (start === -1) {
+				this.buffer = Buffer.alloc(0);
+				break;
+			}
+			this.buffer = this.buffer.subarray(start);
+
+			const isV2 = this.buffer[0] === MAVLINK_STX_V2;
+			const headerLen = isV2 ? MAVLINK_V2_HEADER_LEN : MAVLINK_V1_HEADER_LEN;
+			if (this.buffer.length < headerLen) {
+				break;
+			}
+			const len = this.buffer[1];
+			const signed = isV2 && (this.buffer[2] & MAVLINK_IFLAG_SIGNED) !== 0;
+			const frameLen = headerLen + len + MAVLINK_CHECKSUM_LEN + (signed ? MAVLINK_SIGNATURE_LEN : 0);
+			if (this.buffer.length < frameLen) {
+				break;
+			}
+
+			const frame = this.buffer.subarray(0, frameLen);
+			const msgid = isV2 ? frame[7] | (frame[8] << 8) | (frame[9] << 16) : frame[5];
+			const def = MESSAGES_BY_ID.get(msgid);
+			if (!def) {
+				// without the CRC extra byte the frame can't be validated, so only skip it
+				// as a whole when another frame starts right after it
+				if (this.buffer.length === frameLen) {
+					break;
+				}
+				const next = this.buffer[frameLen];
+				if (next === MAVLINK_STX_V1 || next === MAVLINK_STX_V2) {
+					this.stats.unknown++;
+					this.trackSequence(isV2 ? frame[5] : frame[3], isV2 ? frame[6] : frame[4], isV2 ? frame[4] : frame[2]);
+					this.buffer = this.buffer.subarray(frameLen);
+				} else {
+					this.buffer = this.buffer.subarray(1);
+				}
+				continue;
+			}
+
+			let crc = x25Crc(frame.subarray(1, headerLen + len));
+			crc = x25Crc(Buffer.from([def.crcExtra]), crc);
+			if (crc !== frame.readUInt16LE(headerLen + len)) {
+				this.stats.crcErrors++;
+				this.buffer = this.buffer.subarray(1);
+				continue;
+			}
+
+			const message: MavlinkMessage = {
+				msgid,
+				name: def.name,
+				version: isV2 ? 2 : 1,
+				seq: isV2 ? frame[4] : frame[2],
+				sysid: isV2 ? frame[5] : frame[3],
+				compid: isV2 ? frame[6] : frame[4],
+				fields: decodePayload(def, frame.subarray(headerLen, headerLen + len))
+			};
+			this.trackSequence(message.sysid, message.compid, message.seq);
+			this.stats.received++;
+			messages.push(message);
+			this.buffer = this.buffer.subarray(frameLen);
+		}
+		return messages;
+	}
+
+	private findStart(): number {
+		for (let i = 0; i < this.buffer.length; i++) {
+			if (this.buffer[i] === MAVLINK_STX_V1 || this.buffer[i] === MAVLINK_STX_V2) {
+				return i;
+			}
+		}
+		return -1;
+	}
+
+	private trackSequence(sysid: number, compid: number, seq: number): void {
+		const key = (sysid << 8) | compid;
+		const last = this.lastSeq.get(key);
+		if (last !== undefined) {
+			this.stats.lost += (seq - last - 1 + 256) & 0xFF;
+		}
+		this.lastSeq.set(key, seq);
+	}
+}
+
+/**
+ * Joins STATUSTEXTs that MAVLink2 splits into 50 character chunks sharing an
+ * id, the last chunk being the shorter one
+ */
+export class StatusTextAssembler {
+	private pending: Map<string, string[]> = new Map();
+
+	/**
+	 * @returns the full text once the message is complete
+	 */
+	add(message: MavlinkMessage): string | undefined {
+		const text = message.fields.text as string;
+		const id = (message.fields.id as number | undefined) ?? 0;
+		if (id === 0) {
+			return text;
+		}
+		const key = `${message.sysid}/${message.compid}/${id}`;
+		const chunks = this.pending.get(key) ?? [];
+		chunks[(message.fields.chunk_seq as number | undefined) ?? 0] = text;
+		if (text.length >= 50) {
+			this.pending.set(key, chunks);
+			return undefined;
+		}
+		this.pending.delete(key);
+		return chunks.map(chunk => chunk ?? '').join('');
+	}
+}
+
+export type MavlinkEndpoint =
+	| { type: 'serial', path: string, baudRate: number }
+	| { type: 'udpin', host: string, port: number }
+	| { type: 'udpout', host: string, port: number }
+	| { type: 'tcp', host: string, port: number };
+
+/**
+ * Parses a MAVProxy style connection string, e.g. `udp:127.0.0.1:14550`,
+ * `udpout:192.168.1.10:14550`, `tcp:127.0.0.1:5760` or a serial device path
+ * @param connection connection string
+ * @param baudRate baud rate used for serial devices
+ */
+export function parseEndpoint(connection: string, baudRate = 115200): MavlinkEndpoint {
+	const match = /^(udp|udpin|udpout|tcp):([^:]*):(\d+)$/.exec(connection.trim());
+	if (match) {
+		const type = match[1] === 'udp' ? 'udpin' : match[1] as 'udpin' | 'udpout' | 'tcp';
+		const host = match[2] || (type === 'udpin' ? '0.0.0.0' : '127.0.0.1');
+		return { type, host, port: parseInt(match[3], 10) } as MavlinkEndpoint;
+	}
+	if (/^(udp|udpin|udpout|tcp):/.test(connection)) {
+		throw new Error(`Invalid MAVLink connection string: ${connection}`);
+	}
+	return { type: 'serial', path: connection.trim(), baudRate };
+}
+
+export function endpointToString(endpoint: MavlinkEndpoint): string {
+	if (endpoint.type === 'serial') {
+		return `${endpoint.path}@${endpoint.baudRate}`;
+	}
+	return `${endpoint.type}:${endpoint.host}:${endpoint.port}`;
+}
+
+/**
+ * Identifies the link behind an endpoint, a serial device can only be opened
+ * once whatever the baud rate
+ */
+export function connectionKey(endpoint: MavlinkEndpoint): string {
+	return endpoint.type === 'serial' ? endpoint.path : endpointToString(endpoint);
+}
+
+/**
+ * Byte stream underneath a link, also used directly by the bootloader uploader
+ */
+export interface MavlinkTransport {
+	open(onData: (data: Buffer) => void, onClose: (error?: Error) => void): Promise<void>;
+	write(data: Buffer): void;
+	close(): void;
+}
+
+class UdpTransport implements MavlinkTransport {
+	private socket: dgram.Socket | undefined;
+	private remote: { address: string, port: number } | undefined;
+
+	constructor(private endpoint: { type: 'udpin' | 'udpout', host: string, port: number }) {
+		if (endpoint.type === 'udpout') {
+			this.remote = { address: endpoint.host, port: endpoint.port };
+		}
+	}
+
+	open(onData: (data: Buffer) => void, onClose: (error?: Error) => void): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const socket = dgram.createSocket('udp4');
+			this.socket = socket;
+			socket.on('message', (data, rinfo) => {
+				// reply to whoever talks to us, which is how SITL --out and udpin work in MAVProxy
+				if (this.endpoint.type === 'udpin') {
+					this.remote = { address: rinfo.address, port: rinfo.port };
+				}
+				onData(data);
+			});
+			socket.once('error', reject);
+			socket.on('close', () => onClose());
+			const bound = () => {
+				socket.removeListener('error', reject);
+				socket.on('error', error => onClose(error));
+				resolve();
+			};
+			if (this.endpoint.type === 'udpin') {
+				socket.bind(this.endpoint.port, this.endpoint.host, bound);
+			} else {
+				socket.bind(0, bound);
+			}
+		});
+	}
+
+	write(data: Buffer): void {
+		if (this.socket && this.remote) {
+			this.socket.send(data, this.remote.port, this.remote.address);
+		}
+	}
+
+	close(): void {
+		this.socket?.close();
+		this.socket = undefined;
+	}
+}
+
+class TcpTransport implements MavlinkTransport {
+	private socket: net.Socket | undefined;
+
+	constructor(private endpoint: { host: string, port: number }) {}
+
+	open(onData: (data: Buffer) => void, onClose: (error?: Error) => void): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const socket = net.createConnection({ host: this.endpoint.host, port: this.endpoint.port });
+			this.socket = socket;
+			socket.once('error', reject);
+			socket.once('connect', () => {
+				socket.removeListener('error', reject);
+				socket.on('error', error => onClose(error));
+				resolve();
+			});
+			socket.on('data', onData);
+			socket.on('close', () => onClose());
+		});
+	}
+
+	write(data: Buffer): void {
+		this.socket?.write(data);
+	}
+
+	close(): void {
+		this.socket?.destroy();
+		this.socket = undefined;
+	}
+}
+
+/**
+ * Serial transport without a native serial module: the port is put into raw mode
+ * with stty and then read through a non-blocking tty stream.
+ */
+export class SerialTransport implements MavlinkTransport {
+	private fd: number | undefined;
+	private stream: tty.ReadStream | undefined;
+
+	constructor(private endpoint: { path: string, baudRate: number }) {}
+
+	async open(onData: (data: Buffer) => void, onClose: (error?: Error) => void): Promise<void> {
+		if (process.platform === 'win32' || /^COM\d+$/i.test(this.endpoint.path)) {
+			throw new Error(`Serial port ${this.endpoint.path} is not supported, forward it over UDP or TCP instead`);
+		}
+		const deviceFlag = process.platform === 'darwin' ? '-f' : '-F';
+		await new Promise<void>((resolve, reject) => {
+			cp.execFile('stty', [deviceFlag, this.endpoint.path, this.endpoint.baudRate.toString(), 'raw', '-echo', '-echoe', '-echok', '-hupcl', 'clocal'],
+				error => error ? reject(new Error(`Failed to configure ${this.endpoint.path}: ${error.message}`)) : resolve());
+		});
+
+		this.fd = fs.openSync(this.endpoint.path, fs.constants.O_RDWR | fs.constants.O_NOCTTY);
+		this.stream = new tty.ReadStream(this.fd);
+		this.stream.on('data', data => onData(Buffer.isBuffer(data) ? data : Buffer.from(data)));
+		this.stream.on('error', error => onClose(error));
+		this.stream.on('close', () => onClose());
+	}
+
+	write(data: Buffer): void {
+		if (this.fd !== undefined) {
+			fs.write(this.fd, data, () => { /* a lost heartbeat is harmless */ });
+		}
+	}
+
+	close(): void {
+		this.stream?.destroy();
+		this.stream = undefined;
+		this.fd = undefined;
+	}
+}
+
+/**
+ * A MAVLink link to a vehicle. Once opened it announces itself as a GCS with a
+ * 1Hz heartbeat and, when the first autopilot heartbeat arrives, asks the
+ * vehicle to start streaming telemetry.
+ */
+export class MavlinkConnection implements vscode.Disposable {
+	private static logger = new apLog('MavlinkConnection');
+	private static log = MavlinkConnection.logger.log;
+	private static shared: Map<string, { connection: MavlinkConnection, opened: Promise<void>, users: number }> = new Map();
+
+	private _onMessage = new vscode.EventEmitter<MavlinkMessage>();
+	readonly onMessage: vscode.Event<MavlinkMessage> = this._onMessage.event;
+	private _onDidClose = new vscode.EventEmitter<Error | undefined>();
+	readonly onDidClose: vscode.Event<Error | undefined> = this._onDidClose.event;
+
+	readonly parser = new MavlinkParser();
+	readonly encoder = new MavlinkEncoder();
+	private transport: MavlinkTransport;
+	private heartbeatTimer: NodeJS.Timeout | undefined;
+	private closed = false;
+	public targetSystem: number | undefined;
+	public targetComponent: number | undefined;
+
+	constructor(public readonly endpoint: MavlinkEndpoint, private streamRate = 4) {
+		switch (endpoint.type) {
+		case 'serial':
+			this.transport = new SerialTransport(endpoint);
+			break;
+		case 'tcp':
+			this.transport = new TcpTransport(endpoint);
+			break;
+		case 'udpin':
+		case 'udpout':
+			this.transport = new UdpTransport(endpoint);
+			break;
+		}
+	}
+
+	/**
+	 * Returns an open connection to the endpoint shared with the other views
+	 * using it, opening it on first use. Each call must be paired with release().
+	 */
+	static async acquire(endpoint: MavlinkEndpoint): Promise<MavlinkConnection> {
+		const key = connectionKey(endpoint);
+		let entry = MavlinkConnection.shared.get(key);
+		if (!entry) {
+			const connection = new MavlinkConnection(endpoint);
+			entry = { connection, opened: connection.open(), users: 0 };
+			MavlinkConnection.shared.set(key, entry);
+		}
+		entry.users++;
+		try {
+			await entry.opened;
+		} catch (error) {
+			entry.connection.dispose();
+			throw error;
+		}
+		return entry.connection;
+	}
+
+	/**
+	 * Whether a shared connection currently holds the endpoint open
+	 */
+	static isInUse(endpoint: MavlinkEndpoint): boolean {
+		return MavlinkConnection.shared.has(connectionKey(endpoint));
+	}
+
+	/**
+	 * Whether a shared connection currently holds the serial device open
+	 */
+	static isDeviceInUse(devicePath: string): boolean {
+		return MavlinkConnection.shared.has(devicePath);
+	}
+
+	/**
+	 * Drops one user of a connection obtained from acquire(), closing it when
+	 * the last user goes away
+	 */
+	release(): void {
+		const entry = MavlinkConnection.shared.get(connectionKey(this.endpoint));
+		if (entry?.connection === this && --entry.users > 0) {
+			return;
+		}
+		this.dispose();
+	}
+
+	async open(): Promise<void> {
+		await this.transport.open(data => this.handleData(data), error => this.handleClose(error));
+		MavlinkConnection.log(`Opened MAVLink connection ${endpointToString(this.endpoint)}`);
+		this.sendHeartbeat();
+		this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), 1000);
+	}
+
+	send(name: string, fields: MavlinkFields): void {
+		if (!this.closed) {
+			this.transport.write(this.encoder.encode(name, fields));
+		}
+	}
+
+	/**
+	 * Resolves with the next message matching the given name and predicate
+	 * @param timeoutMs time to wait before rejecting
+	 */
+	waitForMessage(name: string, timeoutMs: number, predicate?: (message: MavlinkMessage) => boolean): Promise<MavlinkMessage> {
+		return new Promise((resolve, reject) => {
+			const timer = setTimeout(() => {
+				listener.dispose();
+				reject(new Error(`Timed out waiting for ${name}`));
+			}, timeoutMs);
+			const listener = this.onMessage(message => {
+				if (message.name === name && (!predicate || predicate(message))) {
+					clearTimeout(timer);
+					listener.dispose();
+					resolve(message);
+				}
+			});
+		});
+	}
+
+	/**
+	 * Resolves once the first autopilot heartbeat has set the target system
+	 */
+	async waitForVehicle(timeoutMs: number): Promise<void> {
+		if (this.targetSystem === undefined) {
+			await this.waitForMessage('HEARTBEAT', timeoutMs, () => this.targetSystem !== undefined);
+		}
+	}
+
+	private sendHeartbeat(): void {
+		this.send('HEARTBEAT', {
+			type: MAV_TYPE_GCS,
+			autopilot: MAV_AUTOPILOT_INVALID,
+			base_mode: 0,
+			custom_mode: 0,
+			system_status: MAV_STATE_ACTIVE,
+			mavlink_version: 3
+		});
+	}
+
+	private handleData(data: Buffer): void {
+		for (const message of this.parser.parse(data)) {
+			if (this.targetSystem === undefined && message.name === 'HEARTBEAT' &&
+				message.fields.autopilot !== MAV_AUTOPILOT_INVALID) {
+				this.targetSystem = message.sysid;
+				this.targetComponent = message.compid;
+				// talk back in whatever protocol version the vehicle uses
+				this.encoder.version = message.version;
+				MavlinkConnection.log(`Found vehicle sysid ${message.sysid} compid ${message.compid} (MAVLink${message.version})`);
+				this.requestDataStreams();
+			}
+			this._onMessage.fire(message);
+		}
+	}
+
+	private requestDataStreams(): void {
+		this.send('REQUEST_DATA_STREAM', {
+			target_system: this.targetSystem ?? 0,
+			target_component: this.targetComponent ?? 0,
+			req_stream_id: 0, // MAV_DATA_STREAM_ALL
+			req_message_rate: this.streamRate,
+			start_stop: 1
+		});
+	}
+
+	private handleClose(error?: Error): void {
+		if (this.closed) {
+			return;
+		}
+		if (error) {
+			MavlinkConnection.log(`MAVLink connection ${endpointToString(this.endpoint)} failed: ${error.message}`);
+		}
+		this.dispose();
+		this._onDidClose.fire(error);
+	}
+
+	dispose(): void {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		const key = connectionKey(this.endpoint);
+		if (MavlinkConnection.shared.get(key)?.connection === this) {
+			MavlinkConnection.shared.delete(key);
+		}
+		if (this.heartbeatTimer) {
+			clearInterval(this.heartbeatTimer);
+			this.heartbeatTimer = undefined;
+		}
+		this.transport.close();
+		MavlinkConnection.log(`Closed MAVLink connection ${endpointToString(this.endpoint)}`);
+	}
+}
@@ -0,0 +1,205 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { apLog } from './apLog';
+import {
+	ParameterMetadata,
+	ParameterFileProblem,
+	loadParameterMetadata,
+	parameterMetadataPath,
+	validateParameterFile
+} from './apParameters';
+import { apWorkspace } from './apWorkspace';
+
+export const PARAM_FILE_LANGUAGE = 'ardupilot-params';
+
+// delay before re-validating while typing
+const VALIDATE_DELAY_MS = 500;
+
+function describeParameter(name: string, doc: ParameterMetadata): vscode.MarkdownString {
+	const markdown = new vscode.MarkdownString(`**${name}**${doc.displayName ? ` - ${doc.displayName}` : ''}\n\n`);
+	if (doc.description) {
+		markdown.appendText(`${doc.description}\n\n`);
+	}
+	const details: string[] = [];
+	if (doc.range) {
+		details.push(`Range: ${doc.range.low} to ${doc.range.high}`);
+	}
+	if (doc.units) {
+		details.push(`Units: ${doc.units}`);
+	}
+	if (doc.rebootRequired) {
+		details.push('Reboot required');
+	}
+	if (details.length) {
+		markdown.appendMarkdown(`${details.join(' | ')}\n\n`);
+	}
+	if (doc.values) {
+		markdown.appendMarkdown(Object.entries(doc.values).map(([value, label]) => `- \`${value}\` ${label}`).join('\n'));
+	}
+	return markdown;
+}
+
+/**
+ * Hover and completion for parameter files, from the parameter documentation
+ * of the ArduPilot folder holding the file
+ */
+export class apParamFileLanguageProvider implements vscode.HoverProvider, vscode.CompletionItemProvider {
+	private static log = new apLog('apParamFileLanguageProvider').log;
+	// by workspace root, undefined when the folder has no documentation
+	private _metadata = new Map<string, Record<string, ParameterMetadata> | undefined>();
+
+	/**
+	 * Parameter documentation for a file, from its ArduPilot folder or, for
+	 * files outside the workspace, from the selected one
+	 */
+	metadataFor(uri: vscode.Uri): Record<string, ParameterMetadata> | undefined {
+		const workspaceRoot = apWorkspace.folderOfUri(uri)?.uri.fsPath ?? apWorkspace.rootPath;
+		if (!workspaceRoot) {
+			return undefined;
+		}
+		if (!this._metadata.has(workspaceRoot)) {
+			try {
+				this._metadata.set(workspaceRoot, loadParameterMetadata(workspaceRoot));
+			} catch (error) {
+				apParamFileLanguageProvider.log(`Failed to read parameter metadata: ${error}`);
+				this._metadata.set(workspaceRoot, undefined);
+			}
+		}
+		return this._metadata.get(workspaceRoot);
+	}
+
+	// re-read the documentation next time it is needed, e.g. after param_parse.py ran again
+	invalidate(): void {
+		this._metadata.clear();
+	}
+
+	provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+		const range = document.getWordRangeAtPosition(position, /[A-Za-z0-9_]+/);
+		if (!range || range.start.character !== document.lineAt(position.line).firstNonWhitespaceCharacterIndex) {
+			return undefined;
+		}
+		const name = document.getText(range);
+		const doc = this.metadataFor(document.uri)?.[name];
+		return doc ? new vscode.Hover(describeParameter(name, doc), range) : undefined;
+	}
+
+	provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+		// only the parameter name is completed
+		if (/[\s,]/.test(document.lineAt(position.line).text.slice(0, position.character).trim())) {
+			return [];
+		}
+		return Object.entries(this.metadataFor(document.uri) ?? {}).map(([name, doc]) => {
+			const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Variable);
+			item.detail = doc.displayName;
+			item.documentation = describeParameter(name, doc);
+			return item;
+		});
+	}
+}
+
+/**
+ * Keeps the Problems view up to date for open parameter files
+ */
+export class apParamFileDiagnostics implements vscode.Disposable {
+	private static log = new apLog('apParamFileDiagnostics').log;
+	private collection = vscode.languages.createDiagnosticCollection(PARAM_FILE_LANGUAGE);
+	private timers = new Map<string, NodeJS.Timeout>();
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private provider: apParamFileLanguageProvider) {
+		this.disposables.push(
+			vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+			vscode.workspace.onDidSaveTextDocument(document => this.validate(document)),
+			vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document)),
+			vscode.workspace.onDidCloseTextDocument(document => this.collection.delete(document.uri))
+		);
+
+		const revalidate = () => {
+			this.provider.invalidate();
+			vscode.workspace.textDocuments.forEach(document => this.validate(document));
+		};
+		for (const folder of apWorkspace.folders) {
+			const metadataPath = parameterMetadataPath(folder.uri.fsPath);
+			const watcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(path.dirname(metadataPath), path.basename(metadataPath)));
+			this.disposables.push(watcher, watcher.onDidCreate(revalidate), watcher.onDidChange(revalidate), watcher.onDidDelete(revalidate));
+		}
+		// files outside the workspace are checked against the selected folder
+		this.disposables.push(apWorkspace.onDidChangeFolder(revalidate));
+		vscode.workspace.textDocuments.forEach(document => this.validate(document));
+	}
+
+	private schedule(document: vscode.TextDocument): void {
+		if (document.languageId !== PARAM_FILE_LANGUAGE) {
+			return;
+		}
+		const key = document.uri.toString();
+		clearTimeout(this.timers.get(key));
+		this.timers.set(key, setTimeout(() => {
+			this.timers.delete(key);
+			this.validate(document);
+		}, VALIDATE_DELAY_MS));
+	}
+
+	validate(document: vscode.TextDocument): void {
+		if (document.languageId !== PARAM_FILE_LANGUAGE) {
+			return;
+		}
+		try {
+			const dir = path.dirname(document.uri.fsPath);
+			const problems = validateParameterFile(document.getText(), this.provider.metadataFor(document.uri),
+				document.uri.scheme === 'file' ? includePath => fs.existsSync(path.resolve(dir, includePath)) : undefined);
+			this.collection.set(document.uri, problems.map(problem => this.toDiagnostic(problem)));
+		} catch (error) {
+			apParamFileDiagnostics.log(`Failed to validate ${document.uri.fsPath}: ${error}`);
+		}
+	}
+
+	private toDiagnostic(problem: ParameterFileProblem): vscode.Diagnostic {
+		const diagnostic = new vscode.Diagnostic(
+			new vscode.Range(problem.line, problem.start, problem.line, problem.end),
+			problem.message,
+			problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning);
+		diagnostic.source = PARAM_FILE_LANGUAGE;
+		return diagnostic;
+	}
+
+	dispose(): void {
+		this.timers.forEach(timer => clearTimeout(timer));
+		this.timers.clear();
+		this.collection.dispose();
+		while (this.disposables.length) {
+			this.disposables.pop()?.dispose();
+		}
+	}
+}
+
+/**
+ * Registers hover, completion and diagnostics for parameter files
+ */
+export function registerParamFileLanguage(context: vscode.ExtensionContext): void {
+	const provider = new apParamFileLanguageProvider();
+	const selector: vscode.DocumentSelector = { language: PARAM_FILE_LANGUAGE };
+	context.subscriptions.push(
+		vscode.languages.registerHoverProvider(selector, provider),
+		vscode.languages.registerCompletionItemProvider(selector, provider),
+		new apParamFileDiagnostics(provider)
+	);
+}
@@ -0,0 +1,415 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MavlinkConnection, MavlinkMessage } from './apMavlink';
+
+export const MAV_PARAM_TYPE_REAL32 = 9;
+
+// parameter names are limited by the 16 character param_id field
+const PARAM_NAME_PATTERN = /^[A-Za-z0-9_]{1,16}$/;
+
+export interface ParameterValue {
+	name: string;
+	value: number;
+	type: number;
+	index: number;
+}
+
+export interface ParameterMetadata {
+	displayName?: string;
+	description?: string;
+	units?: string;
+	range?: { low: number, high: number };
+	increment?: number;
+	values?: Record<string, string>;
+	bitmask?: Record<string, string>;
+	user?: string;
+	rebootRequired?: boolean;
+	readOnly?: boolean;
+}
+
+export interface FetchOptions {
+	// time without new PARAM_VALUEs before missing parameters are requested again
+	idleMs?: number;
+	// rounds of re-requests without progress before giving up
+	retries?: number;
+	onProgress?: (received: number, total: number) => void;
+}
+
+// ArduPilot vehicle directory, as used by param_parse.py, for each MAV_TYPE
+const VEHICLE_FOR_MAV_TYPE: Record<number, string> = {
+	1: 'ArduPlane', 2: 'ArduCopter', 3: 'ArduCopter', 4: 'ArduCopter', 5: 'AntennaTracker',
+	7: 'Blimp', 10: 'Rover', 11: 'Rover', 12: 'ArduSub', 13: 'ArduCopter', 14: 'ArduCopter',
+	15: 'ArduCopter', 16: 'ArduPlane', 19: 'ArduPlane', 20: 'ArduPlane', 21: 'ArduPlane',
+	22: 'ArduPlane', 23: 'ArduPlane', 24: 'ArduPlane', 25: 'ArduPlane', 29: 'ArduCopter',
+};
+
+export function vehicleForMavType(mavType: number): string | undefined {
+	return VEHICLE_FOR_MAV_TYPE[mavType];
+}
+
+function toParameter(message: MavlinkMessage): ParameterValue {
+	return {
+		name: message.fields.param_id as string,
+		value: message.fields.param_value as number,
+		type: message.fields.param_type as number,
+		index: message.fields.param_index as number
+	};
+}
+
+function targetOf(connection: MavlinkConnection): { target_system: number, target_component: number } {
+	return { target_system: connection.targetSystem ?? 0, target_component: connection.targetComponent ?? 0 };
+}
+
+/**
+ * Downloads the full parameter list from the vehicle. Parameters lost on the
+ * link are re-requested one at a time by index until the list is complete.
+ * @returns the parameters in index order
+ */
+export async function fetchParameters(connection: MavlinkConnection, options: FetchOptions = {}): Promise<ParameterValue[]> {
+	const idleMs = options.idleMs ?? 1000;
+	const retries = options.retries ?? 5;
+	await connection.waitForVehicle(5000);
+
+	const received = new Map<number, ParameterValue>();
+	let total: number | undefined;
+	let closed = false;
+	let wake: (() => void) | undefined;
+	const complete = () => total !== undefined && received.size >= total;
+
+	const listeners = [
+		connection.onMessage(message => {
+			if (message.name !== 'PARAM_VALUE' || message.sysid !== connection.targetSystem) {
+				return;
+			}
+			total = message.fields.param_count as number;
+			const param = toParameter(message);
+			// replies to reads by name may carry index 65535
+			if (param.index >= total || received.has(param.index)) {
+				return;
+			}
+			received.set(param.index, param);
+			options.onProgress?.(received.size, total);
+			if (complete()) {
+				wake?.();
+			}
+		}),
+		connection.onDidClose(() => {
+			closed = true;
+			wake?.();
+		})
+	];
+
+	try {
+		connection.send('PARAM_REQUEST_LIST', targetOf(connection));
+		let attempts = 0;
+		while (!complete()) {
+			const before = received.size;
+			await new Promise<void>(resolve => {
+				const timer = setTimeout(resolve, idleMs);
+				wake = () => {
+					clearTimeout(timer);
+					resolve();
+				};
+			});
+			if (closed) {
+				throw new Error('Connection closed while fetching parameters');
+			}
+			if (complete()) {
+				break;
+			}
+			if (received.size > before) {
+				// still streaming in
+				attempts = 0;
+				continue;
+			}
+			if (++attempts > retries) {
+				throw new Error(`Timed out fetching parameters (${received.size} of ${total ?? 'unknown'} received)`);
+			}
+			if (total === undefined) {
+				connection.send('PARAM_REQUEST_LIST', targetOf(connection));
+			} else {
+				for (let index = 0; index < total; index++) {
+					if (!received.has(index)) {
+						connection.send('PARAM_REQUEST_READ', { ...targetOf(connection), param_id: '', param_index: index });
+					}
+				}
+			}
+		}
+	} finally {
+		wake = undefined;
+		listeners.forEach(listener => listener.dispose());
+	}
+
+	return [...received.values()].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Compares two parameter values as the vehicle stores them, in single precision
+ */
+export function parameterValuesEqual(a: number, b: number): boolean {
+	const fa = Math.fround(a);
+	const fb = Math.fround(b);
+	return fa === fb || Math.abs(fa - fb) <= 1e-6 * Math.max(1, Math.abs(fa));
+}
+
+/**
+ * Sets a parameter and waits for the vehicle to echo the new value back
+ * @param type MAV_PARAM_TYPE reported for the parameter by the vehicle
+ * @returns the value read back from the vehicle
+ */
+export async function setParameter(connection: MavlinkConnection, name: string, value: number, type = MAV_PARAM_TYPE_REAL32,
+	timeoutMs = 1000, retries = 3): Promise<ParameterValue> {
+	if (!PARAM_NAME_PATTERN.test(name)) {
+		throw new Error(`Invalid parameter name ${name}`);
+	}
+	await connection.waitForVehicle(5000);
+
+	for (let attempt = 0; ; attempt++) {
+		const reply = connection.waitForMessage('PARAM_VALUE', timeoutMs,
+			message => message.sysid === connection.targetSystem && message.fields.param_id === name);
+		connection.send('PARAM_SET', { ...targetOf(connection), param_id: name, param_value: value, param_type: type });
+		let readBack: ParameterValue;
+		try {
+			readBack = toParameter(await reply);
+		} catch {
+			if (attempt < retries) {
+				continue;
+			}
+			throw new Error(`No response from vehicle setting ${name}`);
+		}
+		if (!parameterValuesEqual(readBack.value, value)) {
+			throw new Error(`Vehicle rejected ${name}=${formatParameterValue(value)}, it reports ${formatParameterValue(readBack.value)}`);
+		}
+		return readBack;
+	}
+}
+
+/**
+ * Shortest decimal form of a value that round trips through single precision
+ */
+export function formatParameterValue(value: number): string {
+	if (Number.isInteger(value)) {
+		return value.toString();
+	}
+	const single = Math.fround(value);
+	for (let precision = 1; precision < 9; precision++) {
+		const text = parseFloat(single.toPrecision(precision)).toString();
+		if (Math.fround(parseFloat(text)) === single) {
+			return text;
+		}
+	}
+	return single.toString();
+}
+
+/**
+ * Parses a parameter file in either the Mission Planner (`NAME,VALUE`) or the
+ * MAVProxy (`NAME VALUE`) format. Comments start with `#`; ArduPilot's `@`
+ * directives such as `@include` are left to loadParameterFile().
+ */
+export function parseParameterFile(content: string): { name: string, value: number }[] {
+	const params: { name: string, value: number }[] = [];
+	content.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+		const line = rawLine.replace(/#.*$/, '').trim();
+		if (!line || line.startsWith('@')) {
+			return;
+		}
+		const [name, valueText, ...rest] = line.split(/[\s,]+/);
+		const value = Number(valueText);
+		// trailing flags such as @READONLY are allowed after the value
+		if (!PARAM_NAME_PATTERN.test(name) || !valueText || !Number.isFinite(value) || rest.some(token => !token.startsWith('@'))) {
+			throw new Error(`Invalid parameter on line ${lineIndex + 1}: ${rawLine.trim()}`);
+		}
+		params.push({ name, value });
+	});
+	return params;
+}
+
+export interface ParameterFileProblem {
+	// zero based
+	line: number;
+	start: number;
+	end: number;
+	message: string;
+	severity: 'error' | 'warning';
+}
+
+/**
+ * Checks a parameter file line by line without stopping at the first error
+ * @param metadata - when given, names and values are checked against the documentation
+ * @param includeExists - when given, `@include` targets are checked
+ */
+export function validateParameterFile(content: string, metadata?: Record<string, ParameterMetadata>,
+	includeExists?: (includePath: string) => boolean): ParameterFileProblem[] {
+	const problems: ParameterFileProblem[] = [];
+	const seen = new Map<string, number>();
+	content.split(/\r?\n/).forEach((rawLine, line) => {
+		const text = rawLine.replace(/#.*$/, '');
+		const nameMatch = /^\s*(\S+?)(?=[\s,]|$)/.exec(text);
+		if (!nameMatch) {
+			return;
+		}
+		const name = nameMatch[1];
+		const start = text.indexOf(name);
+		const problem = (message: string, severity: 'error' | 'warning', from = start, to = start + name.length) =>
+			problems.push({ line, start: from, end: to, message, severity });
+
+		if (name.startsWith('@')) {
+			const include = /^\s*@include\s+(\S+)/.exec(text);
+			if (include && includeExists && !includeExists(include[1])) {
+				const at = text.indexOf(include[1], start + name.length);
+				problem(`Included file not found: ${include[1]}`, 'error', at, at + include[1].length);
+			}
+			return;
+		}
+
+		const [, valueText, ...rest] = text.trim().split(/[\s,]+/);
+		const valueStart = valueText ? text.indexOf(valueText, start + name.length) : start;
+		const value = Number(valueText);
+		if (!PARAM_NAME_PATTERN.test(name)) {
+			problem(`Invalid parameter name ${name}`, 'error');
+			return;
+		}
+		if (!valueText || !Number.isFinite(value)) {
+			problem(`${name} needs a numeric value`, 'error', valueText ? valueStart : start, valueText ? valueStart + valueText.length : start + name.length);
+			return;
+		}
+		if (rest.some(token => !token.startsWith('@'))) {
+			problem(`Unexpected text after the value of ${name}`, 'error', valueStart + valueText.length, text.trimEnd().length);
+		}
+		if (seen.has(name)) {
+			problem(`${name} is already set on line ${(seen.get(name) ?? 0) + 1}`, 'warning');
+		}
+		seen.set(name, line);
+
+		const doc = metadata?.[name];
+		if (metadata && !doc) {
+			problem(`Unknown parameter ${name}`, 'warning');
+		} else if (doc?.range && (value < doc.range.low || value > doc.range.high)) {
+			problem(`${name} is outside its range ${doc.range.low} to ${doc.range.high}${doc.units ? ` ${doc.units}` : ''}`, 'warning',
+				valueStart, valueStart + valueText.length);
+		} else if (doc?.values && !(formatParameterValue(value) in doc.values)) {
+			problem(`${formatParameterValue(value)} is not one of the documented values of ${name}`, 'warning',
+				valueStart, valueStart + valueText.length);
+		}
+	});
+	return problems;
+}
+
+/**
+ * sim_vehicle.py arguments loading the configuration's parameter files on top of the frame defaults
+ */
+export function paramFileArgs(paramFiles: string[] | undefined, workspaceRoot: string): string {
+	return (paramFiles ?? [])
+		.map(file => `--add-param-file="${path.resolve(workspaceRoot, file)}"`)
+		.join(' ');
+}
+
+/**
+ * Reads a parameter file, following `@include` directives relative to the
+ * including file. Later values override earlier ones.
+ */
+export function loadParameterFile(filePath: string, seen: Set<string> = new Set()): Map<string, number> {
+	const resolved = path.resolve(filePath);
+	if (seen.has(resolved)) {
+		throw new Error(`Recursive @include of ${filePath}`);
+	}
+	seen.add(resolved);
+
+	const content = fs.readFileSync(resolved, 'utf8');
+	const values = new Map<string, number>();
+	const body: string[] = [];
+	const flush = () => {
+		parseParameterFile(body.join('\n')).forEach(param => values.set(param.name, param.value));
+		body.length = 0;
+	};
+	for (const line of content.split(/\r?\n/)) {
+		const include = /^\s*@include\s+(\S+)/.exec(line);
+		if (include) {
+			flush();
+			loadParameterFile(path.join(path.dirname(resolved), include[1]), seen).forEach((value, name) => values.set(name, value));
+		}
+		// keep the line (blank for directives) so errors report the right line number
+		body.push(include ? '' : line);
+	}
+	flush();
+	seen.delete(resolved);
+	return values;
+}
+
+/**
+ * Formats parameters for saving, sorted by name
+ * @param format `missionplanner` writes `NAME,VALUE`, `mavproxy` writes `NAME VALUE` padded to 16 characters
+ */
+export function formatParameterFile(params: { name: string, value: number }[], format: 'missionplanner' | 'mavproxy'): string {
+	return [...params]
+		.sort((a, b) => a.name.localeCompare(b.name))
+		.map(param => format === 'missionplanner'
+			? `${param.name},${formatParameterValue(param.value)}`
+			: `${param.name.padEnd(16)} ${formatParameterValue(param.value)}`)
+		.join('\n') + '\n';
+}
+
+/**
+ * Where Tools/autotest/param_metadata/param_parse.py writes its JSON output when
+ * run from the workspace root
+ */
+export function parameterMetadataPath(workspaceRoot: string): string {
+	return path.join(workspaceRoot, 'apm.pdef.json');
+}
+
+/**
+ * Loads parameter documentation from the workspace's apm.pdef.json, flattening
+ * the per-library groups into a single table keyed by parameter name
+ * @returns undefined when the metadata has not been generated
+ */
+export function loadParameterMetadata(workspaceRoot: string): Record<string, ParameterMetadata> | undefined {
+	const metadataPath = parameterMetadataPath(workspaceRoot);
+	if (!fs.existsSync(metadataPath)) {
+		return undefined;
+	}
+
+	const groups = JSON.parse(fs.readFileSync(metadataPath, 'utf8')) as Record<string, Record<string, Record<string, unknown>>>;
+	const metadata: Record<string, ParameterMetadata> = {};
+	for (const group of Object.values(groups)) {
+		if (!group || typeof group !== 'object') {
+			continue;
+		}
+		for (const [name, doc] of Object.entries(group)) {
+			if (!doc || typeof doc !== 'object' || !('Description' in doc || 'DisplayName' in doc)) {
+				continue;
+			}
+			const range = doc.Range as { low?: string, high?: string } | undefined;
+			metadata[name] = {
+				displayName: doc.DisplayName as string | undefined,
+				description: doc.Description as string | undefined,
+				units: doc.Units as string | undefined,
+				range: range?.low !== undefined && range?.high !== undefined
+					? { low: Number(range.low), high: Number(range.high) }
+					: undefined,
+				increment: doc.Increment !== undefined ? Number(doc.Increment) : undefined,
+				values: doc.Values as Record<string, string> | undefined,
+				bitmask: doc.Bitmask as Record<string, string> | undefined,
+				user: doc.User as string | undefined,
+				rebootRequired: doc.RebootRequired !== undefined ? String(doc.RebootRequired) === 'True' : undefined,
+				readOnly: doc.ReadOnly !== undefined ? String(doc.ReadOnly) === 'True' : undefined
+			};
+		}
+	}
+	return metadata;
+}
@@ -0,0 +1,504 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as child_process from 'child_process';
+import { apLog } from './apLog';
+import { ProgramUtils } from './apProgramUtils';
+import {
+	MavlinkConnection,
+	MavlinkEndpoint,
+	MavlinkMessage,
+	MAV_AUTOPILOT_INVALID,
+	connectionKey,
+	endpointToString
+} from './apMavlink';
+import {
+	ParameterValue,
+	fetchParameters,
+	formatParameterFile,
+	loadParameterFile,
+	loadParameterMetadata,
+	parameterMetadataPath,
+	parameterValuesEqual,
+	setParameter,
+	vehicleForMavType
+} from './apParameters';
+import { apWorkspace } from './apWorkspace';
+
+const UPDATE_INTERVAL_MS = 200;
+
+export interface ParametersState {
+	connection: string;
+	connected: boolean;
+	error?: string;
+	vehicle?: string;
+	loading: boolean;
+	progress: { received: number, total: number };
+	params: ParameterValue[];
+	defaults?: { file: string, values: Record<string, number> };
+	metadataAvailable: boolean;
+}
+
+/**
+ * Parameter editor for a single connection, one panel per endpoint
+ */
+export class apParametersPanel {
+	private static panels: Map<string, apParametersPanel> = new Map();
+
+	public static readonly viewType = 'apParametersPanel';
+	private static log = new apLog('apParametersPanel').log;
+
+	private readonly _panel: vscode.WebviewPanel;
+	private readonly _extensionUri: vscode.Uri;
+	private readonly _connection: MavlinkConnection;
+	private readonly _key: string;
+	private _disposables: vscode.Disposable[] = [];
+	private _state: ParametersState;
+	private _dirty = false;
+	private _updateTimer: NodeJS.Timeout;
+
+	/**
+	 * Opens a parameter editor for the endpoint, or reveals the existing one
+	 * @param extensionUri extension root, used to locate the webview bundle
+	 * @param endpoint link to open
+	 * @param title short name of the vehicle or device shown in the panel title
+	 */
+	public static async createOrShow(extensionUri: vscode.Uri, endpoint: MavlinkEndpoint, title?: string): Promise<apParametersPanel | undefined> {
+		const key = connectionKey(endpoint);
+		const existing = apParametersPanel.panels.get(key);
+		if (existing) {
+			existing._panel.reveal();
+			return existing;
+		}
+
+		let connection: MavlinkConnection;
+		try {
+			connection = await MavlinkConnection.acquire(endpoint);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			apParametersPanel.log(`Failed to open ${endpointToString(endpoint)}: ${message}`);
+			vscode.window.showErrorMessage(`Failed to open MAVLink connection ${endpointToString(endpoint)}: ${message}`);
+			return undefined;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			apParametersPanel.viewType,
+			`Parameters - ${title ?? endpointToString(endpoint)}`,
+			vscode.ViewColumn.One,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true
+			}
+		);
+
+		apParametersPanel.log(`Creating parameters panel for ${endpointToString(endpoint)}`);
+		const parametersPanel = new apParametersPanel(panel, extensionUri, connection, key);
+		apParametersPanel.panels.set(key, parametersPanel);
+		void parametersPanel.refresh();
+		return parametersPanel;
+	}
+
+	/**
+	 * Whether a parameters panel is currently open for the given endpoint
+	 */
+	public static isOpen(endpoint: MavlinkEndpoint): boolean {
+		return apParametersPanel.panels.has(connectionKey(endpoint));
+	}
+
+	public static disposeAll(): void {
+		apParametersPanel.panels.forEach(panel => panel.dispose());
+	}
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, connection: MavlinkConnection, key: string) {
+		this._panel = panel;
+		this._extensionUri = extensionUri;
+		this._connection = connection;
+		this._key = key;
+		this._state = {
+			connection: endpointToString(connection.endpoint),
+			connected: true,
+			loading: false,
+			progress: { received: 0, total: 0 },
+			params: [],
+			metadataAvailable: false
+		};
+		const workspaceRoot = this._workspaceRoot();
+		this._state.metadataAvailable = !!workspaceRoot && fs.existsSync(parameterMetadataPath(workspaceRoot));
+
+		this._panel.webview.html = this._getWebviewContent(this._panel.webview);
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+		this._panel.webview.onDidReceiveMessage(
+			message => this._onReceiveMessage(message),
+			null,
+			this._disposables
+		);
+
+		this._disposables.push(
+			connection.onMessage(message => this._onMavlinkMessage(message)),
+			connection.onDidClose(error => {
+				this._state.connected = false;
+				this._state.error = error?.message ?? 'Connection closed';
+				this._dirty = true;
+			})
+		);
+
+		this._updateTimer = setInterval(() => {
+			if (this._dirty) {
+				this._dirty = false;
+				this._postState('parameters');
+			}
+		}, UPDATE_INTERVAL_MS);
+	}
+
+	public get state(): ParametersState {
+		return this._state;
+	}
+
+	/**
+	 * Downloads the full parameter list from the vehicle
+	 */
+	public async refresh(): Promise<void> {
+		if (this._state.loading || !this._state.connected) {
+			return;
+		}
+		this._state.loading = true;
+		this._state.error = undefined;
+		this._state.progress = { received: 0, total: 0 };
+		this._dirty = true;
+		try {
+			this._state.params = await fetchParameters(this._connection, {
+				onProgress: (received, total) => {
+					this._state.progress = { received, total };
+					this._dirty = true;
+				}
+			});
+			apParametersPanel.log(`Fetched ${this._state.params.length} parameters from ${this._state.connection}`);
+		} catch (error) {
+			this._state.error = error instanceof Error ? error.message : String(error);
+			apParametersPanel.log(`Failed to fetch parameters: ${this._state.error}`);
+		} finally {
+			this._state.loading = false;
+			this._dirty = true;
+		}
+	}
+
+	/**
+	 * Writes a parameter to the vehicle and records the value it reads back
+	 */
+	public async setParameter(name: string, value: number): Promise<ParameterValue> {
+		const current = this._state.params.find(param => param.name === name);
+		if (!current) {
+			throw new Error(`Unknown parameter ${name}`);
+		}
+		const readBack = await setParameter(this._connection, name, value, current.type);
+		current.value = readBack.value;
+		this._dirty = true;
+		apParametersPanel.log(`Set ${name} to ${readBack.value}`);
+		return readBack;
+	}
+
+	private _onMavlinkMessage(message: MavlinkMessage): void {
+		if (message.name === 'HEARTBEAT' && message.fields.autopilot !== MAV_AUTOPILOT_INVALID && !this._state.vehicle) {
+			this._state.vehicle = vehicleForMavType(message.fields.type as number);
+			this._dirty = true;
+		} else if (message.name === 'PARAM_VALUE' && message.sysid === this._connection.targetSystem && !this._state.loading) {
+			// the vehicle announces changes made by other ground stations
+			const param = this._state.params.find(p => p.name === message.fields.param_id);
+			if (param && !parameterValuesEqual(param.value, message.fields.param_value as number)) {
+				param.value = message.fields.param_value as number;
+				this._dirty = true;
+			}
+		}
+	}
+
+	private async _onReceiveMessage(message: { command: string, name?: string, value?: number }): Promise<void> {
+		switch (message.command) {
+		case 'getParameters':
+			this._postState('getParameters');
+			break;
+		case 'getMetadata':
+			this._postMetadata();
+			break;
+		case 'refresh':
+			await this.refresh();
+			break;
+		case 'setParameter':
+			try {
+				const readBack = await this.setParameter(message.name ?? '', Number(message.value));
+				void this._panel.webview.postMessage({ command: 'parameterSet', name: message.name, value: readBack.value });
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				apParametersPanel.log(`Failed to set ${message.name}: ${errorMessage}`);
+				void this._panel.webview.postMessage({ command: 'parameterSet', name: message.name, error: errorMessage });
+			}
+			break;
+		case 'loadFile':
+			await this._loadFile();
+			break;
+		case 'saveFile':
+			await this._saveFile();
+			break;
+		case 'loadDefaults':
+			await this._loadDefaults();
+			break;
+		case 'clearDefaults':
+			this._state.defaults = undefined;
+			this._postState('parameters');
+			break;
+		case 'generateMetadata':
+			await this._generateMetadata();
+			break;
+		case 'error':
+			apParametersPanel.log(`Error from webview: ${JSON.stringify(message)}`);
+			break;
+		default:
+			void this._panel.webview.postMessage({ command: message.command, response: 'Bad Request' });
+			break;
+		}
+	}
+
+	private _workspaceRoot(): string | undefined {
+		return apWorkspace.rootPath;
+	}
+
+	private _postState(command: string): void {
+		void this._panel.webview.postMessage({ command, state: this._state });
+	}
+
+	private _postMetadata(): void {
+		const workspaceRoot = this._workspaceRoot();
+		let metadata;
+		try {
+			metadata = workspaceRoot ? loadParameterMetadata(workspaceRoot) : undefined;
+		} catch (error) {
+			apParametersPanel.log(`Failed to read parameter metadata: ${error}`);
+		}
+		this._state.metadataAvailable = !!metadata;
+		void this._panel.webview.postMessage({ command: 'getMetadata', metadata: metadata ?? {} });
+	}
+
+	private async _loadFile(): Promise<void> {
+		const workspaceRoot = this._workspaceRoot();
+		const uris = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			defaultUri: workspaceRoot ? vscode.Uri.file(workspaceRoot) : undefined,
+			filters: { 'Parameter files': ['param', 'parm', 'txt'], 'All files': ['*'] },
+			title: 'Load parameters to the vehicle'
+		});
+		if (!uris?.length) {
+			return;
+		}
+
+		let values: Map<string, number>;
+		try {
+			values = loadParameterFile(uris[0].fsPath);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to read ${path.basename(uris[0].fsPath)}: ${error instanceof Error ? error.message : error}`);
+			return;
+		}
+
+		const unknown: string[] = [];
+		const changes: { name: string, value: number }[] = [];
+		values.forEach((value, name) => {
+			const current = this._state.params.find(param => param.name === name);
+			if (!current) {
+				unknown.push(name);
+			} else if (!parameterValuesEqual(current.value, value)) {
+				changes.push({ name, value });
+			}
+		});
+		if (changes.length === 0) {
+			vscode.window.showInformationMessage(`All parameters in ${path.basename(uris[0].fsPath)} already match the vehicle`);
+			return;
+		}
+
+		const confirm = await vscode.window.showWarningMessage(
+			`Write ${changes.length} changed parameter${changes.length === 1 ? '' : 's'} to the vehicle?` +
+			(unknown.length ? ` ${unknown.length} not present on the vehicle will be skipped.` : ''),
+			{ modal: true },
+			'Write'
+		);
+		if (confirm !== 'Write') {
+			return;
+		}
+
+		const failed: string[] = [];
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: 'Writing parameters',
+			cancellable: true
+		}, async (progress, token) => {
+			for (const change of changes) {
+				if (token.isCancellationRequested) {
+					break;
+				}
+				progress.report({ message: change.name, increment: 100 / changes.length });
+				try {
+					await this.setParameter(change.name, change.value);
+				} catch (error) {
+					failed.push(change.name);
+					apParametersPanel.log(`Failed to set ${change.name}: ${error instanceof Error ? error.message : error}`);
+				}
+			}
+		});
+
+		if (failed.length) {
+			vscode.window.showWarningMessage(`Failed to write ${failed.length} parameter${failed.length === 1 ? '' : 's'}: ${failed.join(', ')}`);
+		} else {
+			vscode.window.showInformationMessage(`Wrote ${changes.length} parameter${changes.length === 1 ? '' : 's'} to the vehicle`);
+		}
+	}
+
+	private async _saveFile(): Promise<void> {
+		if (this._state.params.length === 0) {
+			vscode.window.showErrorMessage('No parameters have been fetched from the vehicle');
+			return;
+		}
+
+		const format = await vscode.window.showQuickPick([
+			{ label: 'Mission Planner', description: 'NAME,VALUE', format: 'missionplanner' as const },
+			{ label: 'MAVProxy', description: 'NAME VALUE', format: 'mavproxy' as const }
+		], { placeHolder: 'Select the parameter file format' });
+		if (!format) {
+			return;
+		}
+
+		const defaultName = `${this._state.vehicle ?? 'vehicle'}.param`;
+		const workspaceRoot = this._workspaceRoot();
+		const uri = await vscode.window.showSaveDialog({
+			defaultUri: workspaceRoot ? vscode.Uri.file(path.join(workspaceRoot, defaultName)) : undefined,
+			filters: { 'Parameter files': ['param', 'parm'] },
+			title: 'Save vehicle parameters'
+		});
+		if (!uri) {
+			return;
+		}
+
+		try {
+			fs.writeFileSync(uri.fsPath, formatParameterFile(this._state.params, format.format), 'utf8');
+			vscode.window.showInformationMessage(`Saved ${this._state.params.length} parameters to ${path.basename(uri.fsPath)}`);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to save parameters: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	private async _loadDefaults(): Promise<void> {
+		// SITL defaults live alongside the autotest scripts
+		const workspaceRoot = this._workspaceRoot();
+		const defaultParams = workspaceRoot ? path.join(workspaceRoot, 'Tools', 'autotest', 'default_params') : undefined;
+		const uris = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			defaultUri: defaultParams && fs.existsSync(defaultParams) ? vscode.Uri.file(defaultParams) : undefined,
+			filters: { 'Parameter files': ['param', 'parm', 'txt'], 'All files': ['*'] },
+			title: 'Compare with defaults'
+		});
+		if (!uris?.length) {
+			return;
+		}
+
+		try {
+			const values = loadParameterFile(uris[0].fsPath);
+			this._state.defaults = { file: path.basename(uris[0].fsPath), values: Object.fromEntries(values) };
+			this._postState('parameters');
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to read ${path.basename(uris[0].fsPath)}: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	private async _generateMetadata(): Promise<void> {
+		const workspaceRoot = this._workspaceRoot();
+		const script = workspaceRoot ? path.join(workspaceRoot, 'Tools', 'autotest', 'param_metadata', 'param_parse.py') : undefined;
+		if (!workspaceRoot || !script || !fs.existsSync(script)) {
+			vscode.window.showErrorMessage('param_parse.py not found. Please ensure ArduPilot is properly cloned.');
+			return;
+		}
+		if (!this._state.vehicle) {
+			vscode.window.showErrorMessage('Vehicle type is unknown, wait for a heartbeat from the vehicle');
+			return;
+		}
+
+		const python = await ProgramUtils.PYTHON();
+		const vehicle = this._state.vehicle;
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Generating ${vehicle} parameter documentation`
+		}, () => new Promise<void>(resolve => {
+			child_process.execFile(python, [script, '--vehicle', vehicle, '--format', 'json'], { cwd: workspaceRoot }, (error, _stdout, stderr) => {
+				if (error) {
+					apParametersPanel.log(`param_parse.py failed: ${stderr || error.message}`);
+					vscode.window.showErrorMessage(`Failed to generate parameter documentation: ${error.message}`);
+				}
+				resolve();
+			});
+		}));
+		this._postMetadata();
+		this._postState('parameters');
+	}
+
+	private _getWebviewContent(webview: vscode.Webview): string {
+		const stylesUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'parameters.css']);
+		const scriptUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'parameters.js']);
+		const sourceMapUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'parameters.js.map']);
+
+		return /*html*/ `
+			<!DOCTYPE html>
+			<html lang="en">
+				<head>
+					<title>Parameters - ArduPilot DevEnv</title>
+					<meta charset="UTF-8" />
+					<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+					<meta http-equiv="Content-Security-Policy" content="default-src 'none';
+																		style-src ${webview.cspSource};
+																		script-src ${webview.cspSource} 'unsafe-eval' 'unsafe-inline';
+																		connect-src ${webview.cspSource} vscode-resource: vscode-webview-resource: https:;">
+					<link href="${stylesUri}" rel="stylesheet">
+					<script>
+						// Make source map URL available to our error handler
+						window.SOURCE_MAP_URL = "${sourceMapUri}";
+					</script>
+					<script type="module" src="${scriptUri}"></script>
+				</head>
+				<body>
+					<div id="parameters"></div>
+				</body>
+			</html>
+		`;
+	}
+
+	public dispose(): void {
+		if (apParametersPanel.panels.get(this._key) !== this) {
+			return;
+		}
+		apParametersPanel.panels.delete(this._key);
+		clearInterval(this._updateTimer);
+		this._connection.release();
+		this._panel.dispose();
+		while (this._disposables.length) {
+			const disposable = this._disposables.pop();
+			if (disposable) {
+				disposable.dispose();
+			}
+		}
+		apParametersPanel.log(`Closed parameters panel for ${this._state.connection}`);
+	}
+}
+
+function getUri(webview: vscode.Webview, extensionUri: vscode.Uri, pathList: string[]): vscode.Uri {
+	return webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...pathList));
+}
@@ -0,0 +1,248 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { apLog } from './apLog';
+import {
+	BoardPinout,
+	buildPinout,
+	parseDmaAssignments,
+	parseHwdef,
+	parsePinCount,
+	readMcuScript
+} from './apHwdef';
+import { apWorkspace } from './apWorkspace';
+
+export interface PinoutState {
+	board: string;
+	loading: boolean;
+	error?: string;
+	pinout?: BoardPinout;
+	// hwdef.h generated by configure, where the DMA assignments come from
+	hwdefHeader?: string;
+}
+
+/**
+ * Pin assignments, serial ports, SPI devices and DMA streams of a board from its hwdef
+ */
+export class apPinoutPanel {
+	public static currentPanel: apPinoutPanel | undefined;
+
+	public static readonly viewType = 'apPinoutPanel';
+	private static log = new apLog('apPinoutPanel').log;
+
+	private readonly _panel: vscode.WebviewPanel;
+	private readonly _extensionUri: vscode.Uri;
+	private _disposables: vscode.Disposable[] = [];
+	private _board: string;
+	// hwdef files of the board, to refresh when one of them is saved
+	private _files: string[] = [];
+	private _state: PinoutState;
+
+	/**
+	 * Opens the pinout of a board, or switches the open one to it
+	 */
+	public static createOrShow(extensionUri: vscode.Uri, board: string): apPinoutPanel {
+		if (apPinoutPanel.currentPanel) {
+			const existing = apPinoutPanel.currentPanel;
+			existing._panel.reveal();
+			if (existing._board !== board) {
+				existing._board = board;
+				existing.reload();
+			}
+			return existing;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			apPinoutPanel.viewType,
+			`Pinout - ${board}`,
+			vscode.ViewColumn.One,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true
+			}
+		);
+
+		apPinoutPanel.log(`Creating pinout for ${board}`);
+		apPinoutPanel.currentPanel = new apPinoutPanel(panel, extensionUri, board);
+		apPinoutPanel.currentPanel.reload();
+		return apPinoutPanel.currentPanel;
+	}
+
+	/**
+	 * Asks for a board among the hwdef directories of the workspace
+	 */
+	public static async pickBoard(): Promise<string | undefined> {
+		const workspaceRoot = apWorkspace.rootPath;
+		if (!workspaceRoot) {
+			return undefined;
+		}
+		const hwdefDir = path.join(workspaceRoot, 'libraries', 'AP_HAL_ChibiOS', 'hwdef');
+		const boards = fs.existsSync(hwdefDir)
+			? fs.readdirSync(hwdefDir).filter(name => fs.existsSync(path.join(hwdefDir, name, 'hwdef.dat'))).sort()
+			: [];
+		if (boards.length === 0) {
+			vscode.window.showErrorMessage('No boards found in libraries/AP_HAL_ChibiOS/hwdef');
+			return undefined;
+		}
+		return vscode.window.showQuickPick(boards, { placeHolder: 'Select a board to show its pinout' });
+	}
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, board: string) {
+		this._panel = panel;
+		this._extensionUri = extensionUri;
+		this._board = board;
+		this._state = { board, loading: false };
+
+		this._panel.webview.html = this._getWebviewContent(this._panel.webview);
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+		this._panel.webview.onDidReceiveMessage(
+			message => this._onReceiveMessage(message),
+			null,
+			this._disposables
+		);
+		vscode.workspace.onDidSaveTextDocument(document => {
+			if (this._files.includes(document.uri.fsPath)) {
+				this.reload();
+			}
+		}, null, this._disposables);
+	}
+
+	public get state(): PinoutState {
+		return this._state;
+	}
+
+	/**
+	 * Parses the board's hwdef again
+	 */
+	public reload(): void {
+		this._panel.title = `Pinout - ${this._board}`;
+		this._state = { board: this._board, loading: true };
+		this._postState();
+		try {
+			const workspaceRoot = apWorkspace.rootPath;
+			if (!workspaceRoot) {
+				throw new Error('Open an ArduPilot workspace to show board pinouts');
+			}
+			const hwdefPath = path.join(workspaceRoot, 'libraries', 'AP_HAL_ChibiOS', 'hwdef', this._board, 'hwdef.dat');
+			if (!fs.existsSync(hwdefPath)) {
+				throw new Error(`hwdef.dat not found for ${this._board}`);
+			}
+			const hwdef = parseHwdef(hwdefPath);
+			this._files = hwdef.files;
+			const mcu = hwdef.config.get('MCU')?.args[1];
+			const script = mcu ? readMcuScript(mcu, hwdefPath) : undefined;
+
+			const hwdefHeader = path.join(workspaceRoot, 'build', this._board, 'hwdef.h');
+			const dma = fs.existsSync(hwdefHeader) ? parseDmaAssignments(fs.readFileSync(hwdefHeader, 'utf8')) : undefined;
+
+			this._state.pinout = buildPinout(hwdef, script ? parsePinCount(script) : undefined, dma);
+			this._state.hwdefHeader = dma ? path.relative(workspaceRoot, hwdefHeader) : undefined;
+			apPinoutPanel.log(`Read ${hwdef.pins.length} pins for ${this._board} from ${hwdef.files.length} files`);
+		} catch (error) {
+			this._state.error = error instanceof Error ? error.message : String(error);
+			apPinoutPanel.log(`Failed to read pinout: ${this._state.error}`);
+		}
+		this._state.loading = false;
+		this._postState();
+	}
+
+	private async _onReceiveMessage(message: { command: string, file?: string, line?: number }): Promise<void> {
+		switch (message.command) {
+		case 'getState':
+			this._postState('getState');
+			break;
+		case 'reload':
+			this.reload();
+			break;
+		case 'openLocation':
+			await this._openLocation(message.file, message.line);
+			break;
+		case 'error':
+			apPinoutPanel.log(`Error from webview: ${JSON.stringify(message)}`);
+			break;
+		default:
+			void this._panel.webview.postMessage({ command: message.command, response: 'Bad Request' });
+			break;
+		}
+	}
+
+	private _postState(command = 'pinout'): void {
+		void this._panel.webview.postMessage({ command, state: this._state });
+	}
+
+	// only files of this board's hwdef are opened from the webview
+	private async _openLocation(file: string | undefined, line: number | undefined): Promise<void> {
+		if (!file || !this._files.includes(file)) {
+			return;
+		}
+		const position = new vscode.Position(line ?? 0, 0);
+		await vscode.window.showTextDocument(vscode.Uri.file(file), {
+			viewColumn: vscode.ViewColumn.Beside,
+			selection: new vscode.Range(position, position)
+		});
+	}
+
+	private _getWebviewContent(webview: vscode.Webview): string {
+		const stylesUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'pinout.css']);
+		const scriptUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'pinout.js']);
+		const sourceMapUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'pinout.js.map']);
+
+		return /*html*/ `
+			<!DOCTYPE html>
+			<html lang="en">
+				<head>
+					<title>Pinout - ArduPilot DevEnv</title>
+					<meta charset="UTF-8" />
+					<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+					<meta http-equiv="Content-Security-Policy" content="default-src 'none';
+																		style-src ${webview.cspSource};
+																		script-src ${webview.cspSource} 'unsafe-eval' 'unsafe-inline';
+																		connect-src ${webview.cspSource} vscode-resource: vscode-webview-resource: https:;">
+					<link href="${stylesUri}" rel="stylesheet">
+					<script>
+						// Make source map URL available to our error handler
+						window.SOURCE_MAP_URL = "${sourceMapUri}";
+					</script>
+					<script type="module" src="${scriptUri}"></script>
+				</head>
+				<body>
+					<div id="pinout"></div>
+				</body>
+			</html>
+		`;
+	}
+
+	public dispose(): void {
+		if (apPinoutPanel.currentPanel !== this) {
+			return;
+		}
+		apPinoutPanel.currentPanel = undefined;
+		this._panel.dispose();
+		while (this._disposables.length) {
+			const disposable = this._disposables.pop();
+			if (disposable) {
+				disposable.dispose();
+			}
+		}
+	}
+}
+
+function getUri(webview: vscode.Webview, extensionUri: vscode.Uri, pathList: string[]): vscode.Uri {
+	return webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...pathList));
+}
@@ -23,6 +23,7 @@ import * as glob from 'fast-glob';
 import * as apToolsConfig from './apToolsConfig';
 import { apLog } from './apLog';
 import { TOOLS_REGISTRY } from './apToolsConfig';
+import { apWorkspace } from './apWorkspace';
 import { PythonExtension, Environment as PythonEnv} from '@vscode/python-extension';
 
 /**
@@ -202,6 +203,20 @@ export class ProgramUtils {
 		return (await ProgramUtils.findProgram(TOOLS_REGISTRY.PYTHON))?.path || 'python';
 	}
 
+	/**
+	 * Finds a binutils program such as nm or size for inspecting a board's ELF
+	 * @param board board name, SITL builds use the host tools
+	 * @param tool program name without the target prefix
+	 * @returns the host tool for SITL, the one next to arm-none-eabi-gcc otherwise, undefined without an ARM toolchain
+	 */
+	public static async binutil(board: string, tool: string): Promise<string | undefined> {
+		if (board.toLowerCase().includes('sitl')) {
+			return tool;
+		}
+		const armToolchain = await ProgramUtils.findProgram(TOOLS_REGISTRY.ARM_GCC);
+		return armToolchain?.path ? path.join(path.dirname(armToolchain.path), `arm-none-eabi-${tool}`) : undefined;
+	}
+
 	/**
 	 * Gets the Python virtual environment activation command if available
 	 * @returns Promise resolving to activation command string or null if not in venv
@@ -559,8 +574,8 @@ export class ProgramUtils {
 	 * @returns Promise resolving to true if venv-ardupilot was added, false otherwise
 	 */
 	public static async configureVenvArdupilot(): Promise<boolean> {
-		// Get the workspace folder
-		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+		// Get the selected ArduPilot folder
+		const workspaceFolder = apWorkspace.folder;
 		if (!workspaceFolder) {
 			this.log.log('No workspace folder found');
 			return false;
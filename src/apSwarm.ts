@@ -0,0 +1,484 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { apLog } from './apLog';
+import { apTerminalMonitor } from './apTerminalMonitor';
+import { ProgramUtils } from './apProgramUtils';
+import { TOOLS_REGISTRY } from './apToolsConfig';
+import { APTaskProvider, ArdupilotTaskDefinition } from './taskProvider';
+import { targetToVehicleType } from './apLaunch';
+import { targetToBin } from './apBuildConfig';
+import { activeConfiguration } from './apActions';
+import { apWorkspace } from './apWorkspace';
+
+// relative to the workspace root, meant to be checked in alongside tasks.json
+export const SWARM_FILE = path.join('.vscode', 'sitl-swarm.json');
+
+// sim_vehicle.py's default location, CMAC
+const DEFAULT_HOME: SwarmLocation = { lat: -35.363261, lng: 149.165230, alt: 584, heading: 353 };
+const DEFAULT_SPACING = 5;
+const EARTH_RADIUS = 6378137;
+
+export interface SwarmLocation {
+	lat: number;
+	lng: number;
+	alt: number;
+	heading: number;
+}
+
+export interface SwarmInstanceConfig {
+	name?: string;
+	instance?: number;
+	sysid?: number;
+	vehicle?: string;
+	frame?: string;
+	// metres from the swarm home
+	offset?: { north?: number, east?: number };
+	args?: string;
+}
+
+/**
+ * Layout of .vscode/sitl-swarm.json. Either list the instances or give a count,
+ * which lines the vehicles up eastwards from home, spacing metres apart.
+ */
+export interface SwarmConfig {
+	vehicle?: string;
+	frame?: string;
+	home?: Partial<SwarmLocation>;
+	count?: number;
+	spacing?: number;
+	args?: string;
+	instances?: SwarmInstanceConfig[];
+}
+
+export interface SwarmInstance {
+	name: string;
+	instance: number;
+	sysid: number;
+	vehicle: string;
+	frame?: string;
+	home: SwarmLocation;
+	args: string;
+}
+
+/**
+ * Moves a location by a north/east offset in metres, flat earth is plenty over
+ * the size of a swarm
+ */
+export function offsetLocation(home: SwarmLocation, north: number, east: number): SwarmLocation {
+	const radians = Math.PI / 180;
+	return {
+		...home,
+		lat: home.lat + north / EARTH_RADIUS / radians,
+		lng: home.lng + east / (EARTH_RADIUS * Math.cos(home.lat * radians)) / radians
+	};
+}
+
+export function parseSwarmFile(content: string): SwarmConfig {
+	let config: SwarmConfig;
+	try {
+		config = JSON.parse(content) as SwarmConfig;
+	} catch (error) {
+		throw new Error(`Swarm file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+	}
+	if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+		throw new Error('Swarm file must contain a JSON object');
+	}
+	if (config.instances !== undefined && !Array.isArray(config.instances)) {
+		throw new Error('Swarm file "instances" must be an array');
+	}
+	if (config.count !== undefined && (!Number.isInteger(config.count) || config.count < 1)) {
+		throw new Error('Swarm file "count" must be a positive integer');
+	}
+	return config;
+}
+
+/**
+ * Fills in instance IDs, SYSIDs and home locations. Unless given, instance IDs
+ * count up from 0 and each SYSID is its instance ID plus one.
+ * @param defaultVehicle vehicle for instances that don't name one, e.g. 'copter'
+ */
+export function resolveSwarmInstances(config: SwarmConfig, defaultVehicle?: string): SwarmInstance[] {
+	const home = { ...DEFAULT_HOME, ...config.home };
+	const spacing = config.spacing ?? DEFAULT_SPACING;
+	const entries = config.instances ?? Array.from({ length: config.count ?? 1 },
+		(_, index): SwarmInstanceConfig => ({ offset: { east: index * spacing } }));
+
+	const usedInstances = new Set<number>();
+	const usedSysids = new Set<number>();
+	const names = new Set<string>();
+	return entries.map((entry, index) => {
+		const instance = entry.instance ?? index;
+		const sysid = entry.sysid ?? instance + 1;
+		const vehicle = entry.vehicle ?? config.vehicle ?? defaultVehicle;
+		const name = entry.name ?? `Vehicle ${sysid}`;
+		if (!Number.isInteger(instance) || instance < 0) {
+			throw new Error(`Swarm instance ${name} has an invalid instance ID ${instance}`);
+		}
+		if (!Number.isInteger(sysid) || sysid < 1 || sysid > 255) {
+			throw new Error(`Swarm instance ${name} has an invalid SYSID ${sysid}`);
+		}
+		if (usedInstances.has(instance)) {
+			throw new Error(`Swarm instance ID ${instance} is used more than once`);
+		}
+		if (usedSysids.has(sysid)) {
+			throw new Error(`Swarm SYSID ${sysid} is used more than once`);
+		}
+		if (names.has(name)) {
+			throw new Error(`Swarm instance name ${name} is used more than once`);
+		}
+		if (!vehicle) {
+			throw new Error(`Swarm instance ${name} has no vehicle, set "vehicle" or activate a SITL configuration`);
+		}
+		usedInstances.add(instance);
+		usedSysids.add(sysid);
+		names.add(name);
+		return {
+			name,
+			instance,
+			sysid,
+			vehicle,
+			frame: entry.frame ?? config.frame,
+			home: offsetLocation(home, entry.offset?.north ?? 0, entry.offset?.east ?? 0),
+			args: [config.args, entry.args].filter(Boolean).join(' ')
+		};
+	});
+}
+
+/**
+ * sim_vehicle.py arguments for one instance. sim_vehicle.py moves the instance's
+ * ports up by 10 per instance ID, so instance 1 serves TCP 5770 and streams to UDP 14560.
+ */
+export function simVehicleArguments(instance: SwarmInstance): string[] {
+	let vehicleType = targetToVehicleType[instance.vehicle] ?? instance.vehicle;
+	let frame = instance.frame;
+	// helicopters are ArduCopter with a heli frame
+	if (instance.vehicle === 'heli') {
+		vehicleType = 'ArduCopter';
+		frame = frame ?? 'heli';
+	}
+	const { lat, lng, alt, heading } = instance.home;
+	const args = [
+		'--no-rebuild',
+		'-v', vehicleType,
+		...(frame ? ['-f', frame] : []),
+		`-I${instance.instance}`,
+		'--sysid', instance.sysid.toString(),
+		`--custom-location=${lat.toFixed(7)},${lng.toFixed(7)},${alt},${heading}`
+	];
+	return instance.args ? [...args, instance.args] : args;
+}
+
+export class SwarmInstanceItem extends vscode.TreeItem {
+	constructor(public readonly instance: SwarmInstance, public readonly running: boolean) {
+		super(instance.name, vscode.TreeItemCollapsibleState.None);
+		this.id = `swarm-${instance.instance}`;
+		this.description = `${instance.vehicle} SYSID ${instance.sysid}${running ? ' (running)' : ''}`;
+		this.tooltip = [
+			`Instance: ${instance.instance}`,
+			`SYSID: ${instance.sysid}`,
+			`Home: ${instance.home.lat.toFixed(7)}, ${instance.home.lng.toFixed(7)}`,
+			`MAVLink: tcp:127.0.0.1:${5760 + 10 * instance.instance}, udp:127.0.0.1:${14550 + 10 * instance.instance}`
+		].join('\n');
+		this.iconPath = running
+			? new vscode.ThemeIcon('vm-running', new vscode.ThemeColor('charts.green'))
+			: new vscode.ThemeIcon('vm-outline');
+		this.contextValue = running ? 'swarmInstanceRunning' : 'swarmInstanceStopped';
+	}
+}
+
+/**
+ * Tree of the instances in .vscode/sitl-swarm.json, each running sim_vehicle.py
+ * in its own tracked terminal
+ */
+export class apSwarmProvider implements vscode.TreeDataProvider<SwarmInstanceItem>, vscode.Disposable {
+	private _onDidChangeTreeData: vscode.EventEmitter<SwarmInstanceItem | undefined> = new vscode.EventEmitter<SwarmInstanceItem | undefined>();
+	readonly onDidChangeTreeData: vscode.Event<SwarmInstanceItem | undefined> = this._onDidChangeTreeData.event;
+	private static log = new apLog('apSwarmProvider').log;
+
+	// instances keep the folder they were started in, when another one is selected
+	private running: Map<number, { instance: SwarmInstance, monitor: apTerminalMonitor, root: string }> = new Map();
+	private watcher: vscode.FileSystemWatcher | undefined;
+	private disposables: vscode.Disposable[] = [];
+
+	/**
+	 * @param root folder to read the swarm file from, the selected ArduPilot folder when omitted
+	 */
+	constructor(private readonly root?: string) {
+		this.watch();
+		this.disposables.push(apWorkspace.onDidChangeFolder(() => {
+			this.watch();
+			this.refresh();
+		}));
+		// an instance stops when the user closes its terminal
+		this.disposables.push(vscode.window.onDidCloseTerminal(terminal => {
+			for (const [id, entry] of this.running) {
+				if (entry.monitor.getTerminal() === terminal) {
+					this.running.delete(id);
+					void entry.monitor.dispose(true);
+					this.refresh();
+				}
+			}
+		}));
+	}
+
+	private get workspaceRoot(): string | undefined {
+		return this.root ?? apWorkspace.rootPath;
+	}
+
+	// the swarm file of the selected folder
+	private watch(): void {
+		this.watcher?.dispose();
+		this.watcher = undefined;
+		const workspaceRoot = this.workspaceRoot;
+		if (workspaceRoot) {
+			this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceRoot, SWARM_FILE));
+			this.watcher.onDidChange(() => this.refresh());
+			this.watcher.onDidCreate(() => this.refresh());
+			this.watcher.onDidDelete(() => this.refresh());
+		}
+	}
+
+	refresh(): void {
+		this._onDidChangeTreeData.fire(undefined);
+	}
+
+	getTreeItem(element: SwarmInstanceItem): vscode.TreeItem {
+		return element;
+	}
+
+	getChildren(element?: SwarmInstanceItem): SwarmInstanceItem[] {
+		if (element) {
+			return [];
+		}
+		let instances: SwarmInstance[];
+		try {
+			instances = this.loadInstances() ?? [];
+		} catch (error) {
+			apSwarmProvider.log(`Error reading swarm file: ${error}`);
+			instances = [];
+		}
+		return instances.map(instance => new SwarmInstanceItem(instance, this.running.has(instance.instance)));
+	}
+
+	get swarmFilePath(): string | undefined {
+		return this.workspaceRoot ? path.join(this.workspaceRoot, SWARM_FILE) : undefined;
+	}
+
+	/**
+	 * Reads the swarm file, undefined when there is none
+	 */
+	loadInstances(): SwarmInstance[] | undefined {
+		const filePath = this.swarmFilePath;
+		if (!filePath || !fs.existsSync(filePath)) {
+			return undefined;
+		}
+		const activeDef = activeConfiguration?.definition as ArdupilotTaskDefinition | undefined;
+		const activeVehicle = activeDef?.configure?.toLowerCase().startsWith('sitl') ? activeDef.target?.replace('sitl-', '') : undefined;
+		return resolveSwarmInstances(parseSwarmFile(fs.readFileSync(filePath, 'utf8')), activeVehicle);
+	}
+
+	isRunning(instance: SwarmInstance): boolean {
+		return this.running.has(instance.instance);
+	}
+
+	async startAll(): Promise<void> {
+		let instances: SwarmInstance[] | undefined;
+		try {
+			instances = this.loadInstances();
+		} catch (error) {
+			vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+			return;
+		}
+		if (!instances) {
+			const choice = await vscode.window.showInformationMessage(`No swarm file found at ${SWARM_FILE}`, 'Create Swarm File');
+			if (choice) {
+				await this.editSwarmFile();
+			}
+			return;
+		}
+		for (const instance of instances.filter(instance => !this.isRunning(instance))) {
+			await this.start(instance);
+		}
+	}
+
+	async start(instance: SwarmInstance): Promise<void> {
+		const workspaceRoot = this.workspaceRoot;
+		if (!workspaceRoot) {
+			vscode.window.showErrorMessage('No workspace folder is open');
+			return;
+		}
+		if (this.isRunning(instance)) {
+			return;
+		}
+		const simVehiclePath = path.join(workspaceRoot, 'Tools', 'autotest', 'sim_vehicle.py');
+		if (!fs.existsSync(simVehiclePath)) {
+			vscode.window.showErrorMessage('sim_vehicle.py not found. Please ensure ArduPilot is properly cloned.');
+			return;
+		}
+
+		const activeDef = activeConfiguration?.definition as ArdupilotTaskDefinition | undefined;
+		const terminalEnv = await APTaskProvider.prepareEnvironmentVariables(activeDef);
+		const monitor = new apTerminalMonitor(`ArduPilot SITL ${instance.name} (-I${instance.instance})`);
+		this.running.set(instance.instance, { instance, monitor, root: workspaceRoot });
+		this.refresh();
+
+		await monitor.createTerminal({ env: terminalEnv }, true);
+		await monitor.runCommand(`cd "${workspaceRoot}"`, { nonblocking: true });
+		let command = `${await ProgramUtils.PYTHON()} "${simVehiclePath}" ${simVehicleArguments(instance).join(' ')}`;
+		if (os.platform() === 'darwin') {
+			command = `DISPLAY=1 ${command}`;
+		}
+		apSwarmProvider.log(`Starting swarm instance ${instance.name}: ${command}`);
+		void monitor.runCommand(command, { nonblocking: true });
+	}
+
+	async stop(instance: SwarmInstance): Promise<void> {
+		const entry = this.running.get(instance.instance);
+		if (!entry) {
+			return;
+		}
+		apSwarmProvider.log(`Stopping swarm instance ${instance.name}`);
+		await entry.monitor.dispose();
+		// dispose leaves the terminal open when the process would not stop
+		if (!entry.monitor.isTerminalActive()) {
+			this.running.delete(instance.instance);
+		}
+		this.refresh();
+	}
+
+	async restart(instance: SwarmInstance): Promise<void> {
+		await this.stop(instance);
+		if (!this.isRunning(instance)) {
+			await this.start(instance);
+		}
+	}
+
+	async stopAll(): Promise<void> {
+		await Promise.all(Array.from(this.running.values()).map(entry => this.stop(entry.instance)));
+	}
+
+	/**
+	 * Attaches the debugger to the ArduPilot binary sim_vehicle.py started for the instance
+	 */
+	async attachDebugger(instance: SwarmInstance): Promise<void> {
+		const root = this.running.get(instance.instance)?.root;
+		if (!root) {
+			vscode.window.showErrorMessage(`${instance.name} is not running`);
+			return;
+		}
+		const binaryPath = path.join(root, 'build', 'sitl', targetToBin[instance.vehicle] ?? `bin/${instance.vehicle}`);
+		const pid = findInstanceProcess(path.basename(binaryPath), instance.instance);
+		if (pid === undefined) {
+			vscode.window.showErrorMessage(`No ${path.basename(binaryPath)} process found for instance ${instance.instance}`);
+			return;
+		}
+
+		let debugConfig: vscode.DebugConfiguration;
+		if (os.platform() === 'darwin') {
+			debugConfig = {
+				type: 'lldb',
+				request: 'attach',
+				name: `Debug ${instance.name} SITL`,
+				program: binaryPath,
+				pid,
+				waitFor: false,
+				stopOnEntry: false
+			};
+		} else {
+			const gdb = await ProgramUtils.findProgram(TOOLS_REGISTRY.GDB);
+			if (!gdb.available) {
+				vscode.window.showErrorMessage('GDB not found. Please install GDB to attach to SITL.');
+				return;
+			}
+			debugConfig = {
+				type: 'cppdbg',
+				request: 'attach',
+				name: `Debug ${instance.name} SITL`,
+				program: binaryPath,
+				processId: pid,
+				cwd: root,
+				MIMode: 'gdb',
+				miDebuggerPath: gdb.path,
+				setupCommands: [
+					{ description: 'Enable pretty-printing for gdb', text: '-enable-pretty-printing', ignoreFailures: true }
+				]
+			};
+		}
+		apSwarmProvider.log(`Attaching debugger to ${instance.name} PID ${pid}`);
+		await vscode.debug.startDebugging(undefined, debugConfig);
+	}
+
+	/**
+	 * Opens the swarm file, creating a three vehicle example first if there is none
+	 */
+	async editSwarmFile(): Promise<void> {
+		const filePath = this.swarmFilePath;
+		if (!filePath) {
+			vscode.window.showErrorMessage('No workspace folder is open');
+			return;
+		}
+		if (!fs.existsSync(filePath)) {
+			const example: SwarmConfig = {
+				vehicle: 'copter',
+				home: DEFAULT_HOME,
+				instances: [
+					{ name: 'Leader', offset: { north: 0, east: 0 } },
+					{ name: 'Left', offset: { north: -5, east: -5 } },
+					{ name: 'Right', offset: { north: -5, east: 5 } }
+				]
+			};
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.writeFileSync(filePath, JSON.stringify(example, null, '\t') + '\n');
+			this.refresh();
+		}
+		await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+	}
+
+	dispose(): void {
+		this.watcher?.dispose();
+		this.watcher = undefined;
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.disposables = [];
+	}
+}
+
+/**
+ * Finds the SITL binary sim_vehicle.py started with -I<instance>
+ */
+function findInstanceProcess(binaryName: string, instance: number): number | undefined {
+	const ps = spawnSync('ps', ['-eo', 'pid=,args='], { encoding: 'utf8' });
+	if (ps.status !== 0) {
+		return undefined;
+	}
+	for (const line of ps.stdout.split('\n')) {
+		const match = line.trim().match(/^(\d+)\s+(.*)$/);
+		if (!match) {
+			continue;
+		}
+		const args = match[2].split(/\s+/);
+		// skip the sim_vehicle.py and gdbserver wrappers, which carry the same arguments
+		if (path.basename(args[0]) === binaryName && args.includes(`-I${instance}`)) {
+			return parseInt(match[1], 10);
+		}
+	}
+	return undefined;
+}
@@ -0,0 +1,396 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { apLog } from './apLog';
+import { ProgramUtils } from './apProgramUtils';
+import { targetToBin } from './apBuildConfig';
+import type { ArdupilotTaskDefinition } from './taskProvider';
+import {
+	ElfSymbol,
+	MemoryRegion,
+	SizeNode,
+	buildSizeTree,
+	diffSizeTrees,
+	loadSymbols
+} from './apSymbols';
+import { apWorkspace } from './apWorkspace';
+
+export interface SymbolExplorerState {
+	title: string;
+	region: MemoryRegion;
+	loading: boolean;
+	error?: string;
+	tree?: SizeNode;
+	// label of the build the tree is compared against
+	comparison?: string;
+}
+
+/**
+ * Symbols of a build saved for later comparison, e.g. before switching commits
+ */
+interface SymbolSnapshot {
+	label: string;
+	commit?: string;
+	created: number;
+	symbols: ElfSymbol[];
+}
+
+interface BuildSymbols {
+	label: string;
+	symbols: ElfSymbol[];
+}
+
+/**
+ * Flash and RAM usage of a build by library, source file and symbol
+ */
+export class apSymbolExplorerPanel {
+	public static currentPanel: apSymbolExplorerPanel | undefined;
+
+	public static readonly viewType = 'apSymbolExplorerPanel';
+	private static log = new apLog('apSymbolExplorerPanel').log;
+
+	private readonly _panel: vscode.WebviewPanel;
+	private readonly _context: vscode.ExtensionContext;
+	private _disposables: vscode.Disposable[] = [];
+	private _definition: ArdupilotTaskDefinition;
+	private _current: BuildSymbols | undefined;
+	private _base: BuildSymbols | undefined;
+	private _state: SymbolExplorerState;
+
+	/**
+	 * Opens the explorer on a configuration's ELF, or switches the open one to it
+	 */
+	public static createOrShow(context: vscode.ExtensionContext, definition: ArdupilotTaskDefinition): apSymbolExplorerPanel {
+		if (apSymbolExplorerPanel.currentPanel) {
+			const existing = apSymbolExplorerPanel.currentPanel;
+			existing._panel.reveal();
+			if (existing._definition.configName !== definition.configName) {
+				existing._definition = definition;
+				existing._base = undefined;
+				void existing.reload();
+			}
+			return existing;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			apSymbolExplorerPanel.viewType,
+			'Flash Usage',
+			vscode.ViewColumn.One,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true
+			}
+		);
+
+		apSymbolExplorerPanel.log(`Creating symbol explorer for ${definition.configName}`);
+		apSymbolExplorerPanel.currentPanel = new apSymbolExplorerPanel(panel, context, definition);
+		void apSymbolExplorerPanel.currentPanel.reload();
+		return apSymbolExplorerPanel.currentPanel;
+	}
+
+	private constructor(panel: vscode.WebviewPanel, context: vscode.ExtensionContext, definition: ArdupilotTaskDefinition) {
+		this._panel = panel;
+		this._context = context;
+		this._definition = definition;
+		this._state = { title: definition.configName, region: 'flash', loading: false };
+
+		this._panel.webview.html = this._getWebviewContent(this._panel.webview);
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+		this._panel.webview.onDidReceiveMessage(
+			message => this._onReceiveMessage(message),
+			null,
+			this._disposables
+		);
+	}
+
+	public get state(): SymbolExplorerState {
+		return this._state;
+	}
+
+	/**
+	 * Reads the symbols of the configuration's ELF again, e.g. after a rebuild
+	 */
+	public async reload(): Promise<void> {
+		this._panel.title = `Flash Usage - ${this._definition.configName}`;
+		this._state = { title: this._definition.configName, region: this._state.region, loading: true };
+		this._postState();
+		try {
+			const elf = this._elfFor(this._definition);
+			if (!elf) {
+				throw new Error(`No firmware found for ${this._definition.configName}, build it first`);
+			}
+			this._current = { label: this._definition.configName, symbols: await this._loadElf(elf, this._definition) };
+			apSymbolExplorerPanel.log(`Read ${this._current.symbols.length} symbols from ${elf}`);
+		} catch (error) {
+			this._current = undefined;
+			this._state.error = error instanceof Error ? error.message : String(error);
+			apSymbolExplorerPanel.log(`Failed to read symbols: ${this._state.error}`);
+		}
+		this._state.loading = false;
+		this._updateTree();
+	}
+
+	private _workspaceRoot(): string | undefined {
+		return apWorkspace.rootPath;
+	}
+
+	private _elfFor(definition: ArdupilotTaskDefinition): string | undefined {
+		const workspaceRoot = this._workspaceRoot();
+		if (!workspaceRoot || !definition.configure || !definition.target || !targetToBin[definition.target]) {
+			return undefined;
+		}
+		const elf = path.join(workspaceRoot, 'build', definition.configure, targetToBin[definition.target]);
+		return fs.existsSync(elf) ? elf : undefined;
+	}
+
+	private async _loadElf(elf: string, definition: ArdupilotTaskDefinition): Promise<ElfSymbol[]> {
+		const nm = await ProgramUtils.binutil(definition.configure ?? '', 'nm') ?? definition.nm ?? 'arm-none-eabi-nm';
+		return vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Reading symbols from ${path.basename(elf)}`
+		}, () => loadSymbols(nm, elf, this._workspaceRoot()));
+	}
+
+	private _updateTree(): void {
+		if (this._current) {
+			const tree = buildSizeTree(this._current.symbols, this._state.region);
+			this._state.tree = this._base ? diffSizeTrees(tree, buildSizeTree(this._base.symbols, this._state.region)) : tree;
+			this._state.comparison = this._base?.label;
+		} else {
+			this._state.tree = undefined;
+			this._state.comparison = undefined;
+		}
+		this._postState();
+	}
+
+	private async _onReceiveMessage(message: { command: string, region?: MemoryRegion, file?: string, line?: number }): Promise<void> {
+		switch (message.command) {
+		case 'getState':
+			this._postState('getState');
+			break;
+		case 'reload':
+			await this.reload();
+			break;
+		case 'setRegion':
+			this._state.region = message.region === 'ram' ? 'ram' : 'flash';
+			this._updateTree();
+			break;
+		case 'compare':
+			await this._compare();
+			break;
+		case 'clearComparison':
+			this._base = undefined;
+			this._updateTree();
+			break;
+		case 'saveSnapshot':
+			await this._saveSnapshot();
+			break;
+		case 'openSource':
+			await this._openSource(message.file, message.line);
+			break;
+		case 'error':
+			apSymbolExplorerPanel.log(`Error from webview: ${JSON.stringify(message)}`);
+			break;
+		default:
+			void this._panel.webview.postMessage({ command: message.command, response: 'Bad Request' });
+			break;
+		}
+	}
+
+	private _postState(command = 'symbols'): void {
+		void this._panel.webview.postMessage({ command, state: this._state });
+	}
+
+	private _snapshotDir(): string {
+		return path.join((this._context.storageUri ?? this._context.globalStorageUri).fsPath, 'symbol-snapshots');
+	}
+
+	private _listSnapshots(): { file: string, snapshot: SymbolSnapshot }[] {
+		const dir = this._snapshotDir();
+		if (!fs.existsSync(dir)) {
+			return [];
+		}
+		const snapshots: { file: string, snapshot: SymbolSnapshot }[] = [];
+		for (const name of fs.readdirSync(dir).filter(file => file.endsWith('.json'))) {
+			try {
+				snapshots.push({ file: path.join(dir, name), snapshot: JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8')) as SymbolSnapshot });
+			} catch (error) {
+				apSymbolExplorerPanel.log(`Ignoring unreadable snapshot ${name}: ${error}`);
+			}
+		}
+		return snapshots.sort((a, b) => b.snapshot.created - a.snapshot.created);
+	}
+
+	private async _compare(): Promise<void> {
+		type CompareItem = vscode.QuickPickItem & { load?: () => Promise<BuildSymbols> };
+		const items: CompareItem[] = [];
+
+		const tasks = vscode.workspace.getConfiguration('tasks', apWorkspace.folder?.uri).get<ArdupilotTaskDefinition[]>('tasks') ?? [];
+		for (const definition of tasks.filter(task => task.type === 'ardupilot' && task.configName !== this._definition.configName)) {
+			const elf = this._elfFor(definition);
+			if (elf) {
+				items.push({
+					label: definition.configName,
+					description: `${definition.configure} ${definition.target}`,
+					load: async () => ({ label: definition.configName, symbols: await this._loadElf(elf, definition) })
+				});
+			}
+		}
+		if (items.length) {
+			items.unshift({ label: 'Configurations', kind: vscode.QuickPickItemKind.Separator });
+		}
+
+		const snapshots = this._listSnapshots();
+		if (snapshots.length) {
+			items.push({ label: 'Snapshots', kind: vscode.QuickPickItemKind.Separator });
+			for (const { snapshot } of snapshots) {
+				items.push({
+					label: snapshot.label,
+					description: snapshot.commit,
+					detail: new Date(snapshot.created).toLocaleString(),
+					load: async () => ({ label: `${snapshot.label}${snapshot.commit ? ` (${snapshot.commit})` : ''}`, symbols: snapshot.symbols })
+				});
+			}
+		}
+
+		items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+		items.push({
+			label: '$(folder-opened) Browse for an ELF file...',
+			load: async () => {
+				const uris = await vscode.window.showOpenDialog({
+					canSelectMany: false,
+					defaultUri: this._workspaceRoot() ? vscode.Uri.file(path.join(this._workspaceRoot() ?? '', 'build')) : undefined,
+					title: 'Compare with firmware ELF'
+				});
+				if (!uris?.length) {
+					throw new vscode.CancellationError();
+				}
+				return { label: path.basename(uris[0].fsPath), symbols: await this._loadElf(uris[0].fsPath, this._definition) };
+			}
+		});
+
+		const picked = await vscode.window.showQuickPick(items, { placeHolder: `Compare ${this._definition.configName} with` });
+		if (!picked?.load) {
+			return;
+		}
+		try {
+			this._base = await picked.load();
+			this._updateTree();
+		} catch (error) {
+			if (!(error instanceof vscode.CancellationError)) {
+				vscode.window.showErrorMessage(`Failed to read symbols: ${error instanceof Error ? error.message : error}`);
+			}
+		}
+	}
+
+	private async _saveSnapshot(): Promise<void> {
+		if (!this._current) {
+			return;
+		}
+		const commit = await new Promise<string | undefined>(resolve => {
+			cp.execFile('git', ['rev-parse', '--short', 'HEAD'], { cwd: this._workspaceRoot() }, (error, stdout) => {
+				resolve(error ? undefined : stdout.trim());
+			});
+		});
+		const label = await vscode.window.showInputBox({
+			prompt: 'Name the snapshot to compare against later',
+			value: commit ? `${this._definition.configName}@${commit}` : this._definition.configName
+		});
+		if (!label) {
+			return;
+		}
+
+		const snapshot: SymbolSnapshot = { label, commit, created: Date.now(), symbols: this._current.symbols };
+		const dir = this._snapshotDir();
+		try {
+			fs.mkdirSync(dir, { recursive: true });
+			fs.writeFileSync(path.join(dir, `${label.replace(/[^\w.@-]+/g, '_')}.json`), JSON.stringify(snapshot));
+			vscode.window.showInformationMessage(`Saved symbol snapshot ${label}`);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to save snapshot: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	private async _openSource(file: string | undefined, line: number | undefined): Promise<void> {
+		const workspaceRoot = this._workspaceRoot();
+		if (!file) {
+			return;
+		}
+		const fullPath = path.isAbsolute(file) || !workspaceRoot ? file : path.join(workspaceRoot, file);
+		if (!fs.existsSync(fullPath)) {
+			vscode.window.showWarningMessage(`${file} not found`);
+			return;
+		}
+		const position = new vscode.Position(Math.max(0, (line ?? 1) - 1), 0);
+		await vscode.window.showTextDocument(vscode.Uri.file(fullPath), {
+			viewColumn: vscode.ViewColumn.Beside,
+			selection: new vscode.Range(position, position)
+		});
+	}
+
+	private _getWebviewContent(webview: vscode.Webview): string {
+		const extensionUri = this._context.extensionUri;
+		const stylesUri = getUri(webview, extensionUri, ['webview-ui', 'dist', 'symbol-explorer.css']);
+		const scriptUri = getUri(webview, extensionUri, ['webview-ui', 'dist', 'symbol-explorer.js']);
+		const sourceMapUri = getUri(webview, extensionUri, ['webview-ui', 'dist', 'symbol-explorer.js.map']);
+
+		return /*html*/ `
+			<!DOCTYPE html>
+			<html lang="en">
+				<head>
+					<title>Flash Usage - ArduPilot DevEnv</title>
+					<meta charset="UTF-8" />
+					<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+					<meta http-equiv="Content-Security-Policy" content="default-src 'none';
+																		style-src ${webview.cspSource};
+																		script-src ${webview.cspSource} 'unsafe-eval' 'unsafe-inline';
+																		connect-src ${webview.cspSource} vscode-resource: vscode-webview-resource: https:;">
+					<link href="${stylesUri}" rel="stylesheet">
+					<script>
+						// Make source map URL available to our error handler
+						window.SOURCE_MAP_URL = "${sourceMapUri}";
+					</script>
+					<script type="module" src="${scriptUri}"></script>
+				</head>
+				<body>
+					<div id="symbol-explorer"></div>
+				</body>
+			</html>
+		`;
+	}
+
+	public dispose(): void {
+		if (apSymbolExplorerPanel.currentPanel !== this) {
+			return;
+		}
+		apSymbolExplorerPanel.currentPanel = undefined;
+		this._panel.dispose();
+		while (this._disposables.length) {
+			const disposable = this._disposables.pop();
+			if (disposable) {
+				disposable.dispose();
+			}
+		}
+	}
+}
+
+function getUri(webview: vscode.Webview, extensionUri: vscode.Uri, pathList: string[]): vscode.Uri {
+	return webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...pathList));
+}
@@ -0,0 +1,195 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as cp from 'child_process';
+import * as path from 'path';
+
+export type MemoryRegion = 'flash' | 'ram';
+
+/**
+ * A sized symbol from `nm -S -l`, with its source file relative to the
+ * workspace when it lives there
+ */
+export interface ElfSymbol {
+	name: string;
+	size: number;
+	type: string;
+	file?: string;
+	line?: number;
+}
+
+/**
+ * Symbol sizes rolled up by library, then source file, then symbol.
+ * baseSize is only set when the tree is compared against another build.
+ */
+export interface SizeNode {
+	name: string;
+	size: number;
+	baseSize?: number;
+	file?: string;
+	line?: number;
+	children?: SizeNode[];
+}
+
+// symbols without a source location, usually libc, libgcc and linker generated ones
+export const NO_DEBUG_INFO = '(no debug info)';
+export const TOOLCHAIN = '(toolchain)';
+
+/**
+ * Parses `nm --size-sort -S -C -l` output. Demangled names can contain spaces,
+ * the source location follows a tab.
+ */
+export function parseNmOutput(output: string, workspaceRoot?: string): ElfSymbol[] {
+	const symbols: ElfSymbol[] = [];
+	for (const line of output.split('\n')) {
+		const match = line.match(/^[0-9a-fA-F]+\s+([0-9a-fA-F]+)\s+(\w)\s+([^\t]+?)(?:\t(.+):(\d+))?\s*$/);
+		if (!match) {
+			continue;
+		}
+		const symbol: ElfSymbol = { name: match[3], size: parseInt(match[1], 16), type: match[2] };
+		if (match[4]) {
+			symbol.file = workspaceRoot ? relativeToWorkspace(match[4], workspaceRoot) : match[4];
+			symbol.line = parseInt(match[5], 10);
+		}
+		symbols.push(symbol);
+	}
+	return symbols;
+}
+
+function relativeToWorkspace(file: string, workspaceRoot: string): string {
+	const normalized = path.normalize(file);
+	const relative = path.relative(workspaceRoot, normalized);
+	return relative.startsWith('..') || path.isAbsolute(relative) ? normalized : relative.split(path.sep).join('/');
+}
+
+/**
+ * Whether a symbol of the given nm type takes up space in the region.
+ * Initialised data is stored in flash and copied to RAM at startup.
+ */
+export function symbolInRegion(type: string, region: MemoryRegion): boolean {
+	const kind = type.toLowerCase();
+	if (region === 'flash') {
+		return kind === 't' || kind === 'r' || kind === 'd' || kind === 'w' || kind === 'v';
+	}
+	return kind === 'd' || kind === 'b';
+}
+
+/**
+ * Library a source file belongs to: libraries/<lib> and modules/<module> are
+ * kept together, other workspace files group by their top level directory
+ */
+export function libraryOf(file: string | undefined): string {
+	if (!file) {
+		return NO_DEBUG_INFO;
+	}
+	if (path.isAbsolute(file)) {
+		return TOOLCHAIN;
+	}
+	const parts = file.split('/');
+	if ((parts[0] === 'libraries' || parts[0] === 'modules') && parts.length > 2) {
+		return `${parts[0]}/${parts[1]}`;
+	}
+	if (parts[0] === 'build') {
+		return 'build (generated)';
+	}
+	return parts.length > 1 ? parts[0] : '.';
+}
+
+function addChild(parent: SizeNode, name: string): SizeNode {
+	let child = parent.children?.find(node => node.name === name);
+	if (!child) {
+		child = { name, size: 0 };
+		parent.children = parent.children ?? [];
+		parent.children.push(child);
+	}
+	return child;
+}
+
+function sortBySize(node: SizeNode): void {
+	if (node.children) {
+		node.children.sort((a, b) => b.size - a.size || a.name.localeCompare(b.name));
+		node.children.forEach(sortBySize);
+	}
+}
+
+/**
+ * Rolls symbols up into library / source file / symbol, largest first
+ */
+export function buildSizeTree(symbols: ElfSymbol[], region: MemoryRegion, name = 'Total'): SizeNode {
+	const root: SizeNode = { name, size: 0, children: [] };
+	for (const symbol of symbols) {
+		if (symbol.size === 0 || !symbolInRegion(symbol.type, region)) {
+			continue;
+		}
+		const library = addChild(root, libraryOf(symbol.file));
+		const unit = addChild(library, symbol.file ?? NO_DEBUG_INFO);
+		const leaf = addChild(unit, symbol.name);
+		leaf.size += symbol.size;
+		if (symbol.file) {
+			leaf.file = symbol.file;
+			leaf.line = symbol.line;
+		}
+		unit.size += symbol.size;
+		library.size += symbol.size;
+		root.size += symbol.size;
+	}
+	sortBySize(root);
+	return root;
+}
+
+/**
+ * Merges two trees so every node carries its size in both builds. Nodes only
+ * present in one build get a size of zero in the other.
+ */
+export function diffSizeTrees(current: SizeNode, base: SizeNode): SizeNode {
+	const merged: SizeNode = { ...current, baseSize: base.size, children: undefined };
+	if (current.children || base.children) {
+		const baseChildren = new Map((base.children ?? []).map(child => [child.name, child]));
+		merged.children = (current.children ?? []).map(child => {
+			const baseChild = baseChildren.get(child.name);
+			baseChildren.delete(child.name);
+			return baseChild ? diffSizeTrees(child, baseChild) : withBaseSize(child, 0);
+		});
+		baseChildren.forEach(removed => merged.children?.push(removedNode(removed)));
+	}
+	return merged;
+}
+
+function withBaseSize(node: SizeNode, baseSize: number): SizeNode {
+	return { ...node, baseSize, children: node.children?.map(child => withBaseSize(child, 0)) };
+}
+
+function removedNode(node: SizeNode): SizeNode {
+	return { ...node, size: 0, baseSize: node.size, children: node.children?.map(removedNode) };
+}
+
+/**
+ * Runs nm over an ELF and returns its sized, defined symbols. Looking up source
+ * lines from the debug info takes a while on a full vehicle build.
+ */
+export function loadSymbols(nm: string, elf: string, workspaceRoot?: string): Promise<ElfSymbol[]> {
+	return new Promise((resolve, reject) => {
+		cp.execFile(nm, ['--size-sort', '-S', '-C', '-l', '--defined-only', elf],
+			{ cwd: workspaceRoot, timeout: 300000, maxBuffer: 256 * 1024 * 1024 },
+			(error, stdout, stderr) => {
+				if (error) {
+					reject(new Error(`${path.basename(nm)} failed on ${path.basename(elf)}: ${stderr || error.message}`));
+				} else {
+					resolve(parseNmOutput(stdout, workspaceRoot));
+				}
+			});
+	});
+}
@@ -0,0 +1,255 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import { apLog } from './apLog';
+import {
+	MavlinkConnection,
+	MavlinkEndpoint,
+	MavlinkFields,
+	MavlinkMessage,
+	MavlinkParserStats,
+	MAV_AUTOPILOT_INVALID,
+	connectionKey,
+	endpointToString
+} from './apMavlink';
+
+// messages whose latest value is shown in the panel
+const TELEMETRY_MESSAGES = ['HEARTBEAT', 'SYS_STATUS', 'ATTITUDE', 'GPS_RAW_INT'];
+const MAX_STATUSTEXT = 200;
+const UPDATE_INTERVAL_MS = 200;
+
+export interface TelemetryState {
+	connection: string;
+	connected: boolean;
+	error?: string;
+	vehicle?: { sysid: number, compid: number, mavlinkVersion: number };
+	lastHeartbeat?: number;
+	messages: Record<string, MavlinkFields>;
+	statusText: { time: number, severity: number, text: string }[];
+	stats: MavlinkParserStats;
+}
+
+/**
+ * Live MAVLink telemetry view for a single connection, one panel per endpoint
+ */
+export class apTelemetryPanel {
+	private static panels: Map<string, apTelemetryPanel> = new Map();
+
+	public static readonly viewType = 'apTelemetryPanel';
+	private static log = new apLog('apTelemetryPanel').log;
+
+	private readonly _panel: vscode.WebviewPanel;
+	private readonly _extensionUri: vscode.Uri;
+	private readonly _connection: MavlinkConnection;
+	private readonly _key: string;
+	private _disposables: vscode.Disposable[] = [];
+	private _state: TelemetryState;
+	private _dirty = false;
+	private _updateTimer: NodeJS.Timeout;
+
+	/**
+	 * Opens a telemetry panel for the endpoint, or reveals the existing one
+	 * @param extensionUri extension root, used to locate the webview bundle
+	 * @param endpoint link to open
+	 * @param title short name of the vehicle or device shown in the panel title
+	 */
+	public static async createOrShow(extensionUri: vscode.Uri, endpoint: MavlinkEndpoint, title?: string): Promise<apTelemetryPanel | undefined> {
+		const key = connectionKey(endpoint);
+		const existing = apTelemetryPanel.panels.get(key);
+		if (existing) {
+			existing._panel.reveal();
+			return existing;
+		}
+
+		let connection: MavlinkConnection;
+		try {
+			connection = await MavlinkConnection.acquire(endpoint);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			apTelemetryPanel.log(`Failed to open ${endpointToString(endpoint)}: ${message}`);
+			vscode.window.showErrorMessage(`Failed to open MAVLink connection ${endpointToString(endpoint)}: ${message}`);
+			return undefined;
+		}
+
+		const panel = vscode.window.createWebviewPanel(
+			apTelemetryPanel.viewType,
+			`Telemetry - ${title ?? endpointToString(endpoint)}`,
+			vscode.ViewColumn.One,
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true
+			}
+		);
+
+		apTelemetryPanel.log(`Creating telemetry panel for ${endpointToString(endpoint)}`);
+		const telemetryPanel = new apTelemetryPanel(panel, extensionUri, connection, key);
+		apTelemetryPanel.panels.set(key, telemetryPanel);
+		return telemetryPanel;
+	}
+
+	/**
+	 * Whether a telemetry panel currently holds the given endpoint open
+	 */
+	public static isOpen(endpoint: MavlinkEndpoint): boolean {
+		return apTelemetryPanel.panels.has(connectionKey(endpoint));
+	}
+
+	public static disposeAll(): void {
+		apTelemetryPanel.panels.forEach(panel => panel.dispose());
+	}
+
+	private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, connection: MavlinkConnection, key: string) {
+		this._panel = panel;
+		this._extensionUri = extensionUri;
+		this._connection = connection;
+		this._key = key;
+		this._state = {
+			connection: endpointToString(connection.endpoint),
+			connected: true,
+			messages: {},
+			statusText: [],
+			stats: connection.parser.stats
+		};
+
+		this._panel.webview.html = this._getWebviewContent(this._panel.webview);
+		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+		this._panel.webview.onDidReceiveMessage(
+			message => this._onReceiveMessage(message),
+			null,
+			this._disposables
+		);
+
+		this._disposables.push(
+			connection.onMessage(message => this._onMavlinkMessage(message)),
+			connection.onDidClose(error => {
+				this._state.connected = false;
+				this._state.error = error?.message ?? 'Connection closed';
+				this._dirty = true;
+			})
+		);
+
+		// batch updates, a vehicle can easily send a few hundred messages a second
+		this._updateTimer = setInterval(() => {
+			if (this._dirty) {
+				this._dirty = false;
+				this._postState('telemetry');
+			}
+		}, UPDATE_INTERVAL_MS);
+	}
+
+	public get state(): TelemetryState {
+		return this._state;
+	}
+
+	private _onMavlinkMessage(message: MavlinkMessage): void {
+		if (message.name === 'HEARTBEAT') {
+			// ignore heartbeats from other GCSs and companion computers on the same link
+			if (message.fields.autopilot === MAV_AUTOPILOT_INVALID) {
+				return;
+			}
+			this._state.lastHeartbeat = Date.now();
+			this._state.vehicle = { sysid: message.sysid, compid: message.compid, mavlinkVersion: message.version };
+		}
+
+		if (TELEMETRY_MESSAGES.includes(message.name)) {
+			this._state.messages[message.name] = message.fields;
+		} else if (message.name === 'STATUSTEXT') {
+			this._state.statusText.push({
+				time: Date.now(),
+				severity: message.fields.severity as number,
+				text: message.fields.text as string
+			});
+			if (this._state.statusText.length > MAX_STATUSTEXT) {
+				this._state.statusText.shift();
+			}
+		}
+		this._dirty = true;
+	}
+
+	private _onReceiveMessage(message: { command: string }): void {
+		switch (message.command) {
+		case 'getTelemetry':
+			this._postState('getTelemetry');
+			break;
+		case 'clearStatusText':
+			this._state.statusText = [];
+			this._postState('telemetry');
+			break;
+		case 'error':
+			apTelemetryPanel.log(`Error from webview: ${JSON.stringify(message)}`);
+			break;
+		default:
+			void this._panel.webview.postMessage({ command: message.command, response: 'Bad Request' });
+			break;
+		}
+	}
+
+	private _postState(command: string): void {
+		void this._panel.webview.postMessage({ command, state: this._state });
+	}
+
+	private _getWebviewContent(webview: vscode.Webview): string {
+		const stylesUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'telemetry.css']);
+		const scriptUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'telemetry.js']);
+		const sourceMapUri = getUri(webview, this._extensionUri, ['webview-ui', 'dist', 'telemetry.js.map']);
+
+		return /*html*/ `
+			<!DOCTYPE html>
+			<html lang="en">
+				<head>
+					<title>Telemetry - ArduPilot DevEnv</title>
+					<meta charset="UTF-8" />
+					<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+					<meta http-equiv="Content-Security-Policy" content="default-src 'none';
+																		style-src ${webview.cspSource};
+																		script-src ${webview.cspSource} 'unsafe-eval' 'unsafe-inline';
+																		connect-src ${webview.cspSource} vscode-resource: vscode-webview-resource: https:;">
+					<link href="${stylesUri}" rel="stylesheet">
+					<script>
+						// Make source map URL available to our error handler
+						window.SOURCE_MAP_URL = "${sourceMapUri}";
+					</script>
+					<script type="module" src="${scriptUri}"></script>
+				</head>
+				<body>
+					<div id="telemetry"></div>
+				</body>
+			</html>
+		`;
+	}
+
+	public dispose(): void {
+		if (apTelemetryPanel.panels.get(this._key) !== this) {
+			return;
+		}
+		apTelemetryPanel.panels.delete(this._key);
+		clearInterval(this._updateTimer);
+		this._connection.release();
+		this._panel.dispose();
+		while (this._disposables.length) {
+			const disposable = this._disposables.pop();
+			if (disposable) {
+				disposable.dispose();
+			}
+		}
+		apTelemetryPanel.log(`Closed telemetry panel for ${this._state.connection}`);
+	}
+}
+
+function getUri(webview: vscode.Webview, extensionUri: vscode.Uri, pathList: string[]): vscode.Uri {
+	return webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...pathList));
+}
@@ -19,6 +19,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { apLog } from './apLog';
 import { getVSCodeCommand } from './apCommonUtils';
+import { apWorkspace } from './apWorkspace';
 
 /**
  * Interface for tool path configurations
@@ -605,6 +606,14 @@ export class ToolsConfig {
 	public static initialize(context: vscode.ExtensionContext): void {
 		this.loadConfig();
 		this.setupConfigWatcher(context);
+
+		// each ArduPilot folder of a multi-root workspace has its own tool configuration
+		context.subscriptions.push(apWorkspace.onDidChangeFolder(() => {
+			this.configWatcher?.dispose();
+			this.setupConfigWatcher(context);
+			this.loadConfig();
+			this.notifyConfigChanged();
+		}));
 	}
 
 	/**
@@ -612,12 +621,11 @@ export class ToolsConfig {
      * @param context VS Code extension context
      */
 	private static setupConfigWatcher(context: vscode.ExtensionContext): void {
-		const workspaceFolders = vscode.workspace.workspaceFolders;
-		if (!workspaceFolders || workspaceFolders.length === 0) {
+		const workspaceRoot = apWorkspace.folder?.uri;
+		if (!workspaceRoot) {
 			return;
 		}
 
-		const workspaceRoot = workspaceFolders[0].uri;
 		const configPattern = new vscode.RelativePattern(workspaceRoot, this.CONFIG_FILE);
 
 		this.configWatcher = vscode.workspace.createFileSystemWatcher(configPattern);
@@ -712,15 +720,15 @@ export class ToolsConfig {
 
 	/**
      * Gets the path to the configuration file
-     * @returns The absolute path to the configuration file, or undefined if no workspace is open
+     * @returns The absolute path to the configuration file of the selected ArduPilot folder, or undefined if no workspace is open
      */
 	private static getConfigFilePath(): string | undefined {
-		const workspaceFolders = vscode.workspace.workspaceFolders;
-		if (!workspaceFolders || workspaceFolders.length === 0) {
+		const workspaceRoot = apWorkspace.rootPath;
+		if (!workspaceRoot) {
 			return undefined;
 		}
 
-		return path.join(workspaceFolders[0].uri.fsPath, this.CONFIG_FILE);
+		return path.join(workspaceRoot, this.CONFIG_FILE);
 	}
 
 	/**
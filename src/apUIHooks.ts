@@ -26,6 +26,10 @@ import { apTerminalMonitor } from './apTerminalMonitor';
 import { ProgramUtils } from './apProgramUtils';
 import { TOOLS_REGISTRY } from './apToolsConfig';
 import { FireAndForget } from './apCommonUtils';
+import { estimateFeatureFlashImpact } from './apFeatureDependencies';
+import { apBuildHistory } from './apBuildHistory';
+import { FeatureOption, presetFromConfigureOptions, presetFromExtractedFeatures, readFeaturePresets, saveFeaturePreset } from './apFeaturePresets';
+import { apWorkspace } from './apWorkspace';
 
 export class UIHooks {
 	_panel: vscode.WebviewPanel;
@@ -34,7 +38,10 @@ export class UIHooks {
 	private static logger = new apLog('uiHooks');
 	private static log = UIHooks.logger.log;
 
-	constructor(panel: vscode.WebviewPanel, private _extensionUri: vscode.Uri) {
+	/**
+	 * @param _folder the ArduPilot folder the panel works on, the selected one when not given
+	 */
+	constructor(panel: vscode.WebviewPanel, private _extensionUri: vscode.Uri, private _folder?: vscode.WorkspaceFolder) {
 		this._panel = panel;
 		this._panel.webview.onDidReceiveMessage(
 			message => {
@@ -44,6 +51,10 @@ export class UIHooks {
 			this._disposables);
 	}
 
+	private get workspaceRoot(): string | undefined {
+		return this._folder?.uri.fsPath ?? apWorkspace.rootPath;
+	}
+
 	dispose(): void {
 		this._panel.dispose();
 		this._disposables.forEach(d => d.dispose());
@@ -80,6 +91,18 @@ export class UIHooks {
 		case 'extractFeatures':
 			void this.extractFeatures(message);
 			break;
+		case 'getFeaturePresets':
+			void this.getFeaturePresets();
+			break;
+		case 'saveFeaturePreset':
+			void this.saveFeaturePreset(message);
+			break;
+		case 'importFeaturePreset':
+			void this.importFeaturePreset(message);
+			break;
+		case 'getFeatureFlashImpact':
+			void this.getFeatureFlashImpact(message);
+			break;
 		case 'getConfigureOptions':
 			void this.getConfigureOptions();
 			break;
@@ -92,6 +115,15 @@ export class UIHooks {
 		case 'getDebugInfo':
 			void this.getDebugInfo(message);
 			break;
+		case 'showPinout':
+			void vscode.commands.executeCommand('ardupilot.showPinout', message.board);
+			break;
+		case 'pickParamFiles':
+			void this.pickParamFiles();
+			break;
+		case 'openParamFile':
+			void this.openParamFile(message);
+			break;
 		case 'close':
 			this._panel.dispose();
 			break;
@@ -108,7 +140,7 @@ export class UIHooks {
 
 	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
 	private async getTasksList(): Promise<void> {
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
+		const workspaceRoot = this.workspaceRoot;
 		if (workspaceRoot === undefined) {
 			this._panel.webview.postMessage({ command: 'getTasksList', tasksList: undefined });
 			return;
@@ -145,13 +177,13 @@ export class UIHooks {
 
 	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
 	public async getFeaturesList(): Promise<void> {
-		const featuresList = await getFeaturesList(this._extensionUri);
+		const featuresList = await getFeaturesList(this._extensionUri, this.workspaceRoot);
 		this._panel.webview.postMessage({ command: 'getFeaturesList', featuresList });
 	}
 
 	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
 	public async extractFeatures(message: Record<string, unknown>): Promise<void> {
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
+		const workspaceRoot = this.workspaceRoot;
 		if (!workspaceRoot) {
 			this._panel.webview.postMessage({ command: 'extractFeatures', features: [], error: 'No workspace folder found' });
 			return;
@@ -178,63 +210,18 @@ export class UIHooks {
 				return;
 			}
 
-			const extractFeaturesScript = path.join(workspaceRoot, 'Tools', 'scripts', 'extract_features.py');
-			if (!fs.existsSync(extractFeaturesScript)) {
-				this._panel.webview.postMessage({
-					command: 'extractFeatures',
-					features: [],
-					error: 'extract_features.py script not found'
-				});
-				return;
-			}
-			const armToolchain = await ProgramUtils.findProgram(TOOLS_REGISTRY.ARM_GCC);
-			let nm = undefined;
-			if (armToolchain?.path) {
-				nm = path.join(path.dirname(armToolchain.path), 'arm-none-eabi-nm');
-			}
-
-			if (board.toLowerCase().includes('sitl')) {
-				nm = 'nm'; // Use 'nm' for SITL targets
-			}
-			if (!nm) {
-				this._panel.webview.postMessage({
-					command: 'extractFeatures',
-					features: [],
-					error: 'nm tool not found'
-				});
-				return;
-			}
-			const result = cp.spawnSync(
-				`${await ProgramUtils.PYTHON()}`,
-				[extractFeaturesScript, '--nm', nm, binaryFile],
-				{ timeout: 60000, killSignal: 'SIGKILL' }
-			);
-			if (result.error) {
-				UIHooks.log(`extract_features.py error: ${result.error.message}`);
-				this._panel.webview.postMessage({
-					command: 'extractFeatures',
-					features: [],
-					error: result.error.message && result.error.message.includes('ETIMEDOUT')
-						? 'Timed out after 60 seconds while extracting features'
-						: `Failed to extract features: ${result.error.message}`
-				});
-				vscode.window.showErrorMessage(`Failed to extract features: ${result.error.message}`);
-				return;
-			}
-			if (result.status !== 0) {
-				UIHooks.log(`extract_features.py failed: ${result.stderr?.toString()}`);
+			let features: string[];
+			try {
+				features = await this.runExtractFeatures(workspaceRoot, board, binaryFile);
+			} catch (error) {
 				this._panel.webview.postMessage({
 					command: 'extractFeatures',
 					features: [],
-					error: `Failed to extract features: ${result.stderr?.toString() || 'Unknown error'}`
+					error: error instanceof Error ? error.message : `${error}`
 				});
 				return;
 			}
 
-			const output = result.stdout?.toString() || '';
-			const lines = output.split('\n').filter((line: string) => line.trim());
-			const features = lines.map((line: string) => line.trim());
-
 			this._panel.webview.postMessage({
 				command: 'extractFeatures',
 				features: features
@@ -250,6 +237,155 @@ export class UIHooks {
 		}
 	}
 
+	/**
+	 * Lists the features compiled into a binary with Tools/scripts/extract_features.py,
+	 * those left out prefixed with '!'
+	 */
+	private async runExtractFeatures(workspaceRoot: string, board: string, binaryFile: string): Promise<string[]> {
+		const extractFeaturesScript = path.join(workspaceRoot, 'Tools', 'scripts', 'extract_features.py');
+		if (!fs.existsSync(extractFeaturesScript)) {
+			throw new Error('extract_features.py script not found');
+		}
+		const nm = await ProgramUtils.binutil(board, 'nm');
+		if (!nm) {
+			throw new Error('nm tool not found');
+		}
+		const result = cp.spawnSync(
+			`${await ProgramUtils.PYTHON()}`,
+			[extractFeaturesScript, '--nm', nm, binaryFile],
+			{ timeout: 60000, killSignal: 'SIGKILL' }
+		);
+		if (result.error) {
+			UIHooks.log(`extract_features.py error: ${result.error.message}`);
+			vscode.window.showErrorMessage(`Failed to extract features: ${result.error.message}`);
+			throw new Error(result.error.message && result.error.message.includes('ETIMEDOUT')
+				? 'Timed out after 60 seconds while extracting features'
+				: `Failed to extract features: ${result.error.message}`);
+		}
+		if (result.status !== 0) {
+			UIHooks.log(`extract_features.py failed: ${result.stderr?.toString()}`);
+			throw new Error(`Failed to extract features: ${result.stderr?.toString() || 'Unknown error'}`);
+		}
+
+		const output = result.stdout?.toString() || '';
+		return output.split('\n').map((line: string) => line.trim()).filter((line: string) => line);
+	}
+
+	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
+	public async getFeaturePresets(): Promise<void> {
+		const workspaceRoot = this.workspaceRoot;
+		try {
+			this._panel.webview.postMessage({ command: 'getFeaturePresets', presets: workspaceRoot ? readFeaturePresets(workspaceRoot) : [] });
+		} catch (error) {
+			this._panel.webview.postMessage({ command: 'getFeaturePresets', presets: [], error: `${error instanceof Error ? error.message : error}` });
+		}
+	}
+
+	/**
+	 * Saves feature flags, or the features extracted from a build, as a workspace preset
+	 */
+	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
+	public async saveFeaturePreset(message: Record<string, unknown>): Promise<void> {
+		const workspaceRoot = this.workspaceRoot;
+		if (!workspaceRoot) {
+			this._panel.webview.postMessage({ command: 'saveFeaturePreset', error: 'No workspace folder found' });
+			return;
+		}
+		try {
+			const saved = Array.isArray(message.extracted)
+				? await this.savePresetFromExtracted(workspaceRoot, message.extracted as string[])
+				: await this.savePresetFromFlags(workspaceRoot, message.flags as string || '');
+			this._panel.webview.postMessage({ command: 'saveFeaturePreset', saved, presets: readFeaturePresets(workspaceRoot) });
+		} catch (error) {
+			this._panel.webview.postMessage({ command: 'saveFeaturePreset', error: error instanceof Error ? error.message : `${error}` });
+		}
+	}
+
+	/**
+	 * Creates a preset from the features of any firmware ELF, e.g. one a customer flew
+	 */
+	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
+	public async importFeaturePreset(message: Record<string, unknown>): Promise<void> {
+		const workspaceRoot = this.workspaceRoot;
+		const board = message.board as string;
+		if (!workspaceRoot || !board) {
+			this._panel.webview.postMessage({ command: 'importFeaturePreset', error: 'Select a board first, its toolchain reads the binary' });
+			return;
+		}
+		const uris = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			defaultUri: vscode.Uri.file(path.join(workspaceRoot, 'build', board, 'bin')),
+			openLabel: 'Import Features',
+			title: 'Select a firmware ELF file (not .apj or .bin, those have no symbols)'
+		});
+		if (!uris || uris.length === 0) {
+			this._panel.webview.postMessage({ command: 'importFeaturePreset' });
+			return;
+		}
+		try {
+			const extracted = await this.runExtractFeatures(workspaceRoot, board, uris[0].fsPath);
+			const saved = await this.savePresetFromExtracted(workspaceRoot, extracted, path.basename(uris[0].fsPath));
+			this._panel.webview.postMessage({ command: 'importFeaturePreset', saved, presets: readFeaturePresets(workspaceRoot) });
+		} catch (error) {
+			this._panel.webview.postMessage({ command: 'importFeaturePreset', error: error instanceof Error ? error.message : `${error}` });
+		}
+	}
+
+	/**
+	 * Flash each feature costs on a board and target, estimated from the build history
+	 */
+	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
+	public async getFeatureFlashImpact(message: Record<string, unknown>): Promise<void> {
+		const board = message.board as string;
+		const target = message.target as string;
+		if (!board || !target) {
+			this._panel.webview.postMessage({ command: 'getFeatureFlashImpact', impact: {} });
+			return;
+		}
+		try {
+			const options = await getFeaturesList(this._extensionUri, this.workspaceRoot) as unknown as FeatureOption[];
+			const impact = estimateFeatureFlashImpact(apBuildHistory.load(), board, target, Array.isArray(options) ? options : []);
+			this._panel.webview.postMessage({ command: 'getFeatureFlashImpact', impact: Object.fromEntries(impact) });
+		} catch (error) {
+			UIHooks.log(`Error estimating feature flash impact: ${error}`);
+			this._panel.webview.postMessage({ command: 'getFeatureFlashImpact', impact: {} });
+		}
+	}
+
+	private async promptPresetName(value?: string): Promise<string | undefined> {
+		const name = await vscode.window.showInputBox({
+			prompt: 'Name of the feature preset, e.g. "minimal 1MB board"',
+			value,
+			validateInput: input => input.trim() ? undefined : 'Enter a name'
+		});
+		return name?.trim();
+	}
+
+	private async savePresetFromFlags(workspaceRoot: string, flags: string): Promise<string | undefined> {
+		const name = await this.promptPresetName();
+		if (!name) {
+			return undefined;
+		}
+		saveFeaturePreset(workspaceRoot, presetFromConfigureOptions(name, flags));
+		return name;
+	}
+
+	private async savePresetFromExtracted(workspaceRoot: string, extracted: string[], source?: string): Promise<string | undefined> {
+		const name = await this.promptPresetName(source);
+		if (!name) {
+			return undefined;
+		}
+		const options = await getFeaturesList(this._extensionUri, this.workspaceRoot) as unknown as FeatureOption[];
+		const { preset, unknown } = presetFromExtractedFeatures(name, extracted, Array.isArray(options) ? options : [],
+			source ? `Features of ${source}` : undefined);
+		saveFeaturePreset(workspaceRoot, preset);
+		if (unknown.length > 0) {
+			UIHooks.log(`Features without a build option, left out of ${name}: ${unknown.join(', ')}`);
+			vscode.window.showWarningMessage(`${unknown.length} features of the binary have no build option and are left at the board default`);
+		}
+		return name;
+	}
+
 	private findBinaryFile(targetDir: string, target: string): string | null {
 		const target_output = targetToBin[target];
 		const target_binary = `${targetDir}/${target_output}`;
@@ -271,7 +407,7 @@ export class UIHooks {
 
 	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
 	public async getConfigureOptions(): Promise<void> {
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
+		const workspaceRoot = this.workspaceRoot;
 		if (!workspaceRoot) {
 			this._panel.webview.postMessage({ command: 'getConfigureOptions', options: [], error: 'No workspace folder found' });
 			return;
@@ -299,7 +435,7 @@ export class UIHooks {
 			const options = this.parseConfigureOptions(output);
 
 			// Get feature list to filter out feature-specific options
-			const featuresData = await getFeaturesList(this._extensionUri);
+			const featuresData = await getFeaturesList(this._extensionUri, this.workspaceRoot);
 			const featuresObject = (featuresData as Record<string, unknown>)?.features || {};
 			const featureOptions = new Set<string>();
 
@@ -349,7 +485,7 @@ export class UIHooks {
 
 	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
 	public async getSITLOptions(): Promise<void> {
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
+		const workspaceRoot = this.workspaceRoot;
 		if (!workspaceRoot) {
 			this._panel.webview.postMessage({ command: 'getSITLOptions', options: [], error: 'No workspace folder found' });
 			return;
@@ -391,6 +527,54 @@ export class UIHooks {
 		}
 	}
 
+	/**
+	 * Lets the user choose parameter files for SITL, from the autotest defaults or anywhere on disk
+	 */
+	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
+	public async pickParamFiles(): Promise<void> {
+		const workspaceRoot = this.workspaceRoot;
+		if (!workspaceRoot) {
+			this._panel.webview.postMessage({ command: 'pickParamFiles', files: [] });
+			return;
+		}
+
+		const defaultsDir = path.join(workspaceRoot, 'Tools', 'autotest', 'default_params');
+		const defaults = fs.existsSync(defaultsDir)
+			? fs.readdirSync(defaultsDir).filter(name => name.endsWith('.parm')).sort()
+			: [];
+		const browse = 'Browse...';
+		const picked = await vscode.window.showQuickPick(
+			[...defaults.map(name => ({ label: name, description: 'Tools/autotest/default_params' })), { label: browse, description: '' }],
+			{ canPickMany: true, placeHolder: 'Select parameter files to load in SITL' }
+		);
+		if (!picked) {
+			this._panel.webview.postMessage({ command: 'pickParamFiles', files: [] });
+			return;
+		}
+
+		const files = picked
+			.filter(item => item.label !== browse)
+			.map(item => path.relative(workspaceRoot, path.join(defaultsDir, item.label)));
+		if (picked.some(item => item.label === browse)) {
+			const uris = await vscode.window.showOpenDialog({
+				canSelectMany: true,
+				defaultUri: vscode.Uri.file(workspaceRoot),
+				filters: { 'Parameter files': ['parm', 'param'] }
+			});
+			files.push(...(uris ?? []).map(uri => path.relative(workspaceRoot, uri.fsPath)));
+		}
+		this._panel.webview.postMessage({ command: 'pickParamFiles', files });
+	}
+
+	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
+	private async openParamFile(message: Record<string, unknown>): Promise<void> {
+		const workspaceRoot = this.workspaceRoot;
+		if (!workspaceRoot || typeof message.file !== 'string') {
+			return;
+		}
+		await vscode.window.showTextDocument(vscode.Uri.file(path.resolve(workspaceRoot, message.file)));
+	}
+
 	private parseSITLOptions(helpText: string): { name: string; description: string }[] {
 		const options: { name: string; description: string }[] = [];
 		const lines = helpText.split('\n');
@@ -528,7 +712,7 @@ export class UIHooks {
 
 	@FireAndForget({ apLog: UIHooks.logger, showErrorPopup: true })
 	public async getBuildCommands(message: Record<string, unknown>): Promise<void> {
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
+		const workspaceRoot = this.workspaceRoot;
 		if (!workspaceRoot) {
 			this._panel.webview.postMessage({
 				command: 'getBuildCommands',
@@ -591,7 +775,7 @@ export class UIHooks {
 		if (board) {
 			try {
 				UIHooks.log(`DEBUG_INFO: Starting readHwdefFile for ${board}`);
-				const hwdefInfo = await readHwdefFile(board);
+				const hwdefInfo = await readHwdefFile(board, this.workspaceRoot);
 				UIHooks.log(`DEBUG_INFO: readHwdefFile result: ${JSON.stringify(hwdefInfo)}`);
 
 				if (hwdefInfo.mcuTarget) {
@@ -0,0 +1,260 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { apLog } from './apLog';
+import { apWorkspace } from './apWorkspace';
+import { ApjFirmware, BootloaderClient, FlashStage, flashFirmware, loadApj } from './apBootloader';
+import { MAV_CMD_PREFLIGHT_REBOOT_SHUTDOWN, MavlinkConnection, SerialTransport } from './apMavlink';
+import type { DeviceInfo } from './apConnectedDevices';
+
+export interface FirmwareFile {
+	path: string;
+	board: string;
+	modified: Date;
+}
+
+/**
+ * Lists the .apj files under build/<board>/bin, newest first
+ * @param board only look in this board's build directory, otherwise all boards
+ */
+export function findFirmwareFiles(workspaceRoot: string, board?: string): FirmwareFile[] {
+	const buildDir = path.join(workspaceRoot, 'build');
+	let boards: string[];
+	try {
+		boards = board ? [board] : fs.readdirSync(buildDir);
+	} catch {
+		return [];
+	}
+
+	const files: FirmwareFile[] = [];
+	for (const boardName of boards) {
+		const binDir = path.join(buildDir, boardName, 'bin');
+		let entries: string[];
+		try {
+			entries = fs.readdirSync(binDir);
+		} catch {
+			continue;
+		}
+		for (const entry of entries.filter(name => name.endsWith('.apj'))) {
+			const filePath = path.join(binDir, entry);
+			files.push({ path: filePath, board: boardName, modified: fs.statSync(filePath).mtime });
+		}
+	}
+	return files.sort((a, b) => b.modified.getTime() - a.modified.getTime());
+}
+
+const STAGE_MESSAGES: Record<FlashStage, string> = {
+	erase: 'Erasing',
+	program: 'Programming',
+	verify: 'Verifying',
+	reboot: 'Rebooting'
+};
+
+/**
+ * Flashes .apj firmware over the bootloader protocol, rebooting a board running
+ * ArduPilot into its bootloader first when needed
+ */
+export class apUploader {
+	private static logger = new apLog('apUploader');
+	private static log = apUploader.logger.log;
+
+	// how long a rebooting board takes to come back as a serial device
+	static rebootTimeoutMs = 15000;
+	// attempts at GET_SYNC before treating the port as running firmware
+	static syncAttempts = 3;
+
+	// Windows serial ports are left to the waf -upload task
+	static get supported(): boolean {
+		return process.platform !== 'win32';
+	}
+
+	/**
+	 * Runs the waf -upload task of a build configuration, which builds and
+	 * flashes the firmware where the built-in uploader is unsupported
+	 * @returns whether the task was started
+	 */
+	static async runUploadTask(configuration: vscode.Task): Promise<boolean> {
+		const tasks = await vscode.tasks.fetchTasks();
+		const uploadTask = tasks.find(task => task.name === `${configuration.name}-upload` &&
+			apWorkspace.isSameFolder(apWorkspace.folderOf(task), apWorkspace.folderOf(configuration)));
+		if (!uploadTask) {
+			vscode.window.showErrorMessage(`No upload task found for ${configuration.name}`);
+			return false;
+		}
+		await vscode.tasks.executeTask(uploadTask);
+		return true;
+	}
+
+	static async pickFirmware(workspaceRoot: string, board?: string): Promise<string | undefined> {
+		const files = findFirmwareFiles(workspaceRoot, board);
+		if (files.length === 0) {
+			vscode.window.showErrorMessage(board ? `No firmware found in build/${board}/bin, build the board first` : 'No firmware found under build/, build a board first');
+			return undefined;
+		}
+		if (files.length === 1) {
+			return files[0].path;
+		}
+		const picked = await vscode.window.showQuickPick(files.map(file => ({
+			label: path.basename(file.path),
+			description: file.board,
+			detail: `Built ${file.modified.toLocaleString()}`,
+			file
+		})), { placeHolder: 'Select firmware to upload' });
+		return picked?.file.path;
+	}
+
+	static async pickDevice(devices: DeviceInfo[]): Promise<DeviceInfo | undefined> {
+		if (devices.length === 0) {
+			vscode.window.showErrorMessage('No connected devices found');
+			return undefined;
+		}
+		if (devices.length === 1) {
+			return devices[0];
+		}
+		// boards identified as ArduPilot first
+		const sorted = [...devices].sort((a, b) => Number(!!b.isArduPilot) - Number(!!a.isArduPilot));
+		const picked = await vscode.window.showQuickPick(sorted.map(device => ({
+			label: device.path,
+			description: device.product ?? device.manufacturer ?? '',
+			detail: `${device.vendorId}:${device.productId}`,
+			device
+		})), { placeHolder: 'Select the board to upload to' });
+		return picked?.device;
+	}
+
+	/**
+	 * Uploads firmware to the device, reporting progress in a notification
+	 * @returns whether the upload completed
+	 */
+	static async upload(firmwarePath: string, device: DeviceInfo): Promise<boolean> {
+		if (!apUploader.supported) {
+			vscode.window.showErrorMessage('The built-in uploader does not support Windows serial ports, use the waf -upload task instead');
+			return false;
+		}
+		if (device.isMavproxyConnected || MavlinkConnection.isDeviceInUse(device.path)) {
+			vscode.window.showErrorMessage(`${device.path} is in use by MAVProxy or a MAVLink view. Close it before uploading.`);
+			return false;
+		}
+
+		let firmware: ApjFirmware;
+		try {
+			firmware = loadApj(firmwarePath);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to read ${path.basename(firmwarePath)}: ${error instanceof Error ? error.message : error}`);
+			return false;
+		}
+
+		const name = path.basename(firmwarePath);
+		return await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Uploading ${name} to ${device.path}`
+		}, async progress => {
+			let programmed = 0;
+			progress.report({ message: 'Connecting to bootloader' });
+			let client: BootloaderClient | undefined;
+			try {
+				client = await apUploader.connect(device.path);
+				await flashFirmware(client, firmware, (stage, fraction) => {
+					if (stage === 'program') {
+						const percent = Math.floor(fraction * 100);
+						progress.report({ message: `${STAGE_MESSAGES[stage]} ${percent}%`, increment: percent - programmed });
+						programmed = percent;
+					} else {
+						progress.report({ message: STAGE_MESSAGES[stage] });
+					}
+				});
+				apUploader.log(`Uploaded ${firmwarePath} to ${device.path}`);
+				vscode.window.showInformationMessage(`Uploaded ${name} to ${device.path}`);
+				return true;
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				apUploader.log(`Upload of ${firmwarePath} to ${device.path} failed: ${message}`);
+				vscode.window.showErrorMessage(`Upload failed: ${message}`);
+				return false;
+			} finally {
+				client?.close();
+			}
+		});
+	}
+
+	/**
+	 * Returns a client in sync with the bootloader on the device. If the board is
+	 * running firmware instead, it is asked over MAVLink to reboot into the
+	 * bootloader and the port is reopened once it comes back.
+	 */
+	static async connect(devicePath: string): Promise<BootloaderClient> {
+		const client = await apUploader.trySync(devicePath);
+		if (client) {
+			return client;
+		}
+
+		apUploader.log(`No bootloader on ${devicePath}, requesting reboot into bootloader`);
+		await apUploader.rebootToBootloader(devicePath);
+
+		const deadline = Date.now() + apUploader.rebootTimeoutMs;
+		while (Date.now() < deadline) {
+			await new Promise(resolve => setTimeout(resolve, 250));
+			if (!fs.existsSync(devicePath)) {
+				continue;
+			}
+			const rebooted = await apUploader.trySync(devicePath).catch(() => undefined);
+			if (rebooted) {
+				return rebooted;
+			}
+		}
+		throw new Error(`No bootloader found on ${devicePath}`);
+	}
+
+	private static async trySync(devicePath: string): Promise<BootloaderClient | undefined> {
+		const client = new BootloaderClient(new SerialTransport({ path: devicePath, baudRate: 115200 }));
+		await client.open();
+		for (let attempt = 0; attempt < apUploader.syncAttempts; attempt++) {
+			try {
+				await client.sync();
+				return client;
+			} catch {
+				// firmware ignores the sync bytes, try again in case the bootloader was slow
+			}
+		}
+		client.close();
+		return undefined;
+	}
+
+	private static async rebootToBootloader(devicePath: string): Promise<void> {
+		const connection = new MavlinkConnection({ type: 'serial', path: devicePath, baudRate: 115200 });
+		try {
+			await connection.open();
+			await connection.waitForVehicle(3000);
+			connection.send('COMMAND_LONG', {
+				target_system: connection.targetSystem ?? 1,
+				target_component: connection.targetComponent ?? 1,
+				command: MAV_CMD_PREFLIGHT_REBOOT_SHUTDOWN,
+				confirmation: 0,
+				param1: 3, // reboot and stay in the bootloader
+				param2: 0, param3: 0, param4: 0, param5: 0, param6: 0, param7: 0
+			});
+			// give the write time to leave before the port goes away
+			await new Promise(resolve => setTimeout(resolve, 500));
+		} catch (error) {
+			throw new Error(`Board on ${devicePath} is not in its bootloader and did not answer over MAVLink: ${error instanceof Error ? error.message : error}`);
+		} finally {
+			connection.dispose();
+		}
+	}
+}
@@ -0,0 +1,308 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+/*
+	Parsing of waf build output: the "[ n/total]" progress of each task and
+	the compiler errors and warnings with their include chains, template
+	backtraces and notes, summarised once the build finishes.
+*/
+
+import * as path from 'path';
+
+export type CompilerSeverity = 'error' | 'warning';
+
+export interface CompilerLocation {
+	// relative to the ArduPilot folder, or absolute for files outside it
+	file: string;
+	// 1-based, 0 when the compiler gives no line or column
+	line: number;
+	column: number;
+}
+
+export interface CompilerRelated extends CompilerLocation {
+	message: string;
+}
+
+export interface CompilerDiagnostic extends CompilerLocation {
+	severity: CompilerSeverity;
+	message: string;
+	// include chain and template instantiation context before the message, then its notes
+	related: CompilerRelated[];
+}
+
+export interface WafProgress {
+	current: number;
+	total: number;
+	// what waf is doing, e.g. "Compiling libraries/AP_HAL/Util.cpp"
+	message: string;
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPE = /\u001b\[[0-9;]*[A-Za-z]/g;
+const PROGRESS = /^\[\s*(\d+)\/(\d+)\]\s*(.*)$/;
+const MESSAGE = /^(.+?):(\d+):(?:(\d+):)?\s+(fatal error|error|warning|note):\s+(.*)$/;
+const INCLUDED_FROM = /^(?:In file included from|\s+from)\s+(.+?):(\d+)(?::(\d+))?[,:]$/;
+const INSTANTIATED_FROM = /^(.+?):(\d+):(?:(\d+):)?\s+((?:recursively )?required (?:from|by) .*|in (?:constexpr )?expansion of .*)$/;
+// "file: In function 'x':", "file: In instantiation of 'y':", "file: At global scope:"
+const SCOPE = /^(\S.*?): (?:In|At) .*:$/;
+// errors without a source position, e.g. from the linker
+const OTHER_ERROR = /undefined reference to|multiple definition of|\berror:|^Error:/i;
+
+export function stripAnsi(text: string): string {
+	return text.replace(ANSI_ESCAPE, '');
+}
+
+/**
+ * Progress of a waf task line, e.g. "[ 12/345] Compiling libraries/AP_HAL/Util.cpp"
+ */
+export function parseWafProgress(line: string): WafProgress | undefined {
+	const match = PROGRESS.exec(stripAnsi(line).trim());
+	if (!match) {
+		return undefined;
+	}
+	return { current: parseInt(match[1]), total: parseInt(match[2]), message: match[3] };
+}
+
+/**
+ * Library a file belongs to when counting warnings, e.g. AP_HAL for
+ * libraries/AP_HAL/Util.cpp, ArduCopter for ArduCopter/mode.cpp and
+ * modules/mavlink for generated MAVLink headers
+ */
+export function sourceComponent(file: string): string {
+	if (path.isAbsolute(file)) {
+		return 'external';
+	}
+	const parts = file.split(/[\\/]/);
+	if (parts[0] === 'libraries' && parts.length > 2) {
+		return parts[1];
+	}
+	if (parts[0] === 'modules' && parts.length > 2) {
+		return `modules/${parts[1]}`;
+	}
+	return parts.length > 1 ? parts[0] : '.';
+}
+
+export function formatElapsed(ms: number): string {
+	const seconds = Math.round(ms / 100) / 10;
+	if (seconds < 60) {
+		return `${seconds.toFixed(1)}s`;
+	}
+	const whole = Math.round(seconds);
+	return `${Math.floor(whole / 60)}m ${String(whole % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * Collects progress and compiler messages from the output of a waf build.
+ * Output is added as it arrives, in chunks that may split lines.
+ */
+export class WafOutputParser {
+	public readonly diagnostics: CompilerDiagnostic[] = [];
+	public progress: WafProgress | undefined;
+	// first error that has no source position, e.g. an undefined reference
+	public otherError: string | undefined;
+
+	private partial = new Map<string, string>();
+	private seen = new Set<string>();
+	// include chain and instantiation context for the next message
+	private context: CompilerRelated[] = [];
+	// message that following notes belong to
+	private current: CompilerDiagnostic | undefined;
+	private inMessage = false;
+
+	/**
+	 * @param root ArduPilot folder; compilers run in build/<board> and name
+	 * sources as ../../libraries/..., which are made relative to it
+	 */
+	constructor(private root?: string) {}
+
+	/**
+	 * Adds a chunk of output from one stream, returning the latest progress
+	 * it contained
+	 */
+	public addOutput(text: string, stream = 'stdout'): WafProgress | undefined {
+		const lines = ((this.partial.get(stream) ?? '') + text).split(/\r?\n|\r/);
+		this.partial.set(stream, lines.pop() ?? '');
+		let progress: WafProgress | undefined;
+		for (const line of lines) {
+			progress = this.addLine(line) ?? progress;
+		}
+		return progress;
+	}
+
+	/**
+	 * Parses whatever is left of lines without a line ending
+	 */
+	public flush(): void {
+		for (const [stream, line] of this.partial) {
+			this.partial.set(stream, '');
+			if (line) {
+				this.addLine(line);
+			}
+		}
+	}
+
+	public addLine(rawLine: string): WafProgress | undefined {
+		const line = stripAnsi(rawLine).trimEnd();
+		const progress = parseWafProgress(line);
+		if (progress) {
+			this.progress = progress;
+			this.context = [];
+			this.endMessage();
+			return progress;
+		}
+
+		const message = MESSAGE.exec(line);
+		if (message) {
+			const [, file, lineNumber, column, severity, text] = message;
+			const location = this.location(file, lineNumber, column);
+			if (severity === 'note') {
+				this.current?.related.push({ ...location, message: text });
+				return undefined;
+			}
+			const diagnostic: CompilerDiagnostic = {
+				...location,
+				severity: severity === 'warning' ? 'warning' : 'error',
+				message: text,
+				related: this.context
+			};
+			this.context = [];
+			this.inMessage = true;
+			// headers included by several sources report the same problem for each
+			const key = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}:${diagnostic.severity}:${text}`;
+			if (this.seen.has(key)) {
+				this.current = undefined;
+				return undefined;
+			}
+			this.seen.add(key);
+			this.diagnostics.push(diagnostic);
+			this.current = diagnostic;
+			return undefined;
+		}
+
+		const included = INCLUDED_FROM.exec(line);
+		if (included) {
+			this.endMessage();
+			this.context.push({ ...this.location(included[1], included[2], included[3]), message: 'In file included from here' });
+			return undefined;
+		}
+
+		const instantiated = INSTANTIATED_FROM.exec(line);
+		if (instantiated) {
+			this.endMessage();
+			this.context.push({ ...this.location(instantiated[1], instantiated[2], instantiated[3]), message: instantiated[4].trim() });
+			return undefined;
+		}
+
+		if (SCOPE.test(line)) {
+			// an include chain comes before the scope of the same message
+			if (this.inMessage) {
+				this.endMessage();
+			}
+			return undefined;
+		}
+
+		if (!this.otherError && OTHER_ERROR.test(line)) {
+			this.otherError = line.trim();
+		}
+		return undefined;
+	}
+
+	public get errors(): CompilerDiagnostic[] {
+		return this.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+	}
+
+	public get warnings(): CompilerDiagnostic[] {
+		return this.diagnostics.filter(diagnostic => diagnostic.severity === 'warning');
+	}
+
+	/**
+	 * First error of the build, as "file:line:column: message" for compiler errors
+	 */
+	public firstError(): string | undefined {
+		const error = this.errors[0];
+		if (!error) {
+			return this.otherError;
+		}
+		return `${[error.file, error.line, error.column].filter(part => part).join(':')}: ${error.message}`;
+	}
+
+	/**
+	 * Warning counts per library, most warnings first
+	 */
+	public warningsByComponent(): [string, number][] {
+		const counts = new Map<string, number>();
+		for (const warning of this.warnings) {
+			const component = sourceComponent(warning.file);
+			counts.set(component, (counts.get(component) ?? 0) + 1);
+		}
+		return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+	}
+
+	/**
+	 * Summary printed at the end of the build: the first error, warning
+	 * counts per library and the elapsed time
+	 */
+	public summary(elapsedMs: number): string[] {
+		this.flush();
+		const lines = ['======== Build Summary ========'];
+		const firstError = this.errors[0];
+		if (firstError) {
+			lines.push(`First error: ${this.firstError()}`);
+			for (const related of firstError.related) {
+				lines.push(`    ${[related.file, related.line, related.column].filter(part => part).join(':')}: ${related.message}`);
+			}
+			if (this.errors.length > 1) {
+				lines.push(`Errors: ${this.errors.length}`);
+			}
+		} else if (this.otherError) {
+			lines.push(`First error: ${this.otherError}`);
+		}
+		const warnings = this.warningsByComponent();
+		if (warnings.length === 0) {
+			lines.push('Warnings: none');
+		} else {
+			lines.push(`Warnings: ${this.warnings.length}`);
+			const width = Math.max(...warnings.map(([component]) => component.length));
+			for (const [component, count] of warnings) {
+				lines.push(`    ${component.padEnd(width)}  ${count}`);
+			}
+		}
+		lines.push(`Elapsed: ${formatElapsed(elapsedMs)}`);
+		return lines;
+	}
+
+	private endMessage(): void {
+		this.current = undefined;
+		this.inMessage = false;
+	}
+
+	private location(file: string, line: string | undefined, column: string | undefined): CompilerLocation {
+		return { file: this.relativePath(file.trim()), line: parseInt(line ?? '0') || 0, column: parseInt(column ?? '0') || 0 };
+	}
+
+	private relativePath(file: string): string {
+		if (path.isAbsolute(file)) {
+			if (this.root) {
+				const relative = path.relative(this.root, file);
+				if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+					return relative.split(path.sep).join('/');
+				}
+			}
+			return file;
+		}
+		return path.posix.normalize(file.replace(/\\/g, '/')).replace(/^(?:\.\.\/)+/, '');
+	}
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { ValidateEnvironment } from './apEnvironmentValidator';
 import { CloneArdupilot } from './apCloneArdupilot';
 import { ForceUpdateSubmodules } from './apForceUpdateSubmodules';
+import { ArdupilotWorktrees } from './apWorktreeManager';
 import { apLog } from './apLog';
 import { apWelcomeItem } from './apWelcomeItem';
 
@@ -16,7 +17,8 @@ export class apWelcomeProvider implements vscode.TreeDataProvider<apWelcomeItem>
 		this.apWelcomeItems = [
 			new CloneArdupilot('Clone Ardupilot', vscode.TreeItemCollapsibleState.None),
 			new ValidateEnvironment('Validate Environment', vscode.TreeItemCollapsibleState.None),
-			new ForceUpdateSubmodules('Force Update Submodules', vscode.TreeItemCollapsibleState.None)
+			new ForceUpdateSubmodules('Force Update Submodules', vscode.TreeItemCollapsibleState.None),
+			new ArdupilotWorktrees('ArduPilot Worktrees', vscode.TreeItemCollapsibleState.Collapsed, item => this._onDidChangeTreeData.fire(item))
 		];
 	}
 
@@ -28,7 +30,14 @@ export class apWelcomeProvider implements vscode.TreeDataProvider<apWelcomeItem>
 		this._onDidChangeTreeData.fire(new apWelcomeItem('Welcome', vscode.TreeItemCollapsibleState.None));
 	}
 
-	getChildren(): Thenable<apWelcomeItem[]> {
+	getChildren(element?: apWelcomeItem): Thenable<apWelcomeItem[]> {
+		// worktrees are listed under the ArduPilot Worktrees item
+		if (element instanceof ArdupilotWorktrees) {
+			return element.getChildren();
+		}
+		if (element) {
+			return Promise.resolve([]);
+		}
 		// Return both Clone Ardupilot and Validate Environment items
 		return Promise.resolve(this.apWelcomeItems);
 	}
@@ -39,4 +48,11 @@ export class apWelcomeProvider implements vscode.TreeDataProvider<apWelcomeItem>
 	getForceUpdateSubmodules(): ForceUpdateSubmodules | undefined {
 		return this.apWelcomeItems.find(item => item instanceof ForceUpdateSubmodules) as ForceUpdateSubmodules;
 	}
+
+	/**
+	 * Get the ArdupilotWorktrees instance for command execution
+	 */
+	getWorktrees(): ArdupilotWorktrees | undefined {
+		return this.apWelcomeItems.find(item => item instanceof ArdupilotWorktrees) as ArdupilotWorktrees;
+	}
 }
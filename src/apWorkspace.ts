@@ -0,0 +1,144 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { apLog } from './apLog';
+
+/**
+ * Whether a directory is an ArduPilot checkout, i.e. has waf and the HAL
+ */
+export function isArdupilotCheckout(dir: string): boolean {
+	return fs.existsSync(path.join(dir, 'waf')) && fs.existsSync(path.join(dir, 'libraries', 'AP_HAL'));
+}
+
+/**
+ * Tracks which workspace folder the extension works on. In a multi-root
+ * workspace, e.g. a main checkout plus worktrees of release branches, every
+ * build configuration, task, launch configuration and tool lookup is scoped
+ * to the selected ArduPilot folder; with a single folder that is simply it.
+ */
+export class apWorkspace {
+	private static log = new apLog('apWorkspace').log;
+	private static readonly STATE_KEY = 'ardupilot.selectedFolder';
+	private static context: vscode.ExtensionContext | undefined;
+	private static selectedPath: string | undefined;
+	private static _onDidChangeFolder = new vscode.EventEmitter<vscode.WorkspaceFolder | undefined>();
+	static readonly onDidChangeFolder = apWorkspace._onDidChangeFolder.event;
+
+	public static initialize(context: vscode.ExtensionContext): void {
+		apWorkspace.context = context;
+		apWorkspace.selectedPath = context.workspaceState.get<string>(apWorkspace.STATE_KEY);
+		context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(() => {
+			// the selected folder may have been removed from the workspace
+			apWorkspace._onDidChangeFolder.fire(apWorkspace.folder);
+		}));
+	}
+
+	/**
+	 * Workspace folders holding an ArduPilot checkout, or all folders when
+	 * none of them looks like one (e.g. a checkout still being cloned)
+	 */
+	public static get folders(): vscode.WorkspaceFolder[] {
+		// folders on other filesystems, e.g. a board's files over MAVFTP, are never checkouts
+		const folders = (vscode.workspace.workspaceFolders ?? []).filter(folder => folder.uri.scheme === 'file');
+		if (folders.length <= 1) {
+			return [...folders];
+		}
+		const checkouts = folders.filter(folder => isArdupilotCheckout(folder.uri.fsPath));
+		return checkouts.length > 0 ? checkouts : [...folders];
+	}
+
+	public static get isMultiRoot(): boolean {
+		return apWorkspace.folders.length > 1;
+	}
+
+	// the selected ArduPilot folder, defaulting to the first one
+	public static get folder(): vscode.WorkspaceFolder | undefined {
+		const folders = apWorkspace.folders;
+		return folders.find(folder => folder.uri.fsPath === apWorkspace.selectedPath) ?? folders[0];
+	}
+
+	public static get rootPath(): string | undefined {
+		return apWorkspace.folder?.uri.fsPath;
+	}
+
+	/**
+	 * The folder a task belongs to: tasks read from a folder's tasks.json are
+	 * scoped to it, anything else runs in the selected folder
+	 */
+	public static folderOf(task: vscode.Task | undefined): vscode.WorkspaceFolder | undefined {
+		const scope = task?.scope;
+		if (scope && typeof scope === 'object') {
+			return scope;
+		}
+		return apWorkspace.folder;
+	}
+
+	public static rootOf(task: vscode.Task | undefined): string | undefined {
+		return apWorkspace.folderOf(task)?.uri.fsPath;
+	}
+
+	// the folder containing a file, if it is one of the ArduPilot folders
+	public static folderOfUri(uri: vscode.Uri): vscode.WorkspaceFolder | undefined {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		return folder && apWorkspace.folders.some(candidate => candidate.uri.fsPath === folder.uri.fsPath) ? folder : undefined;
+	}
+
+	public static isSameFolder(a: vscode.WorkspaceFolder | undefined, b: vscode.WorkspaceFolder | undefined): boolean {
+		return a?.uri.fsPath === b?.uri.fsPath;
+	}
+
+	/**
+	 * Where folder settings such as tasks.json and launch.json are written.
+	 * In a multi-root workspace the Workspace target is the .code-workspace
+	 * file, shared by all folders, so each folder's own settings are used.
+	 */
+	public static get configurationTarget(): vscode.ConfigurationTarget {
+		return apWorkspace.isMultiRoot ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace;
+	}
+
+	// the name of the active build configuration saved in a folder's settings
+	public static activeConfigurationName(folder: vscode.WorkspaceFolder | undefined): string | undefined {
+		return vscode.workspace.getConfiguration('ardupilot', folder?.uri).get<string>('activeConfiguration') || undefined;
+	}
+
+	public static select(folder: vscode.WorkspaceFolder | undefined): void {
+		if (!folder || apWorkspace.isSameFolder(folder, apWorkspace.folder)) {
+			return;
+		}
+		apWorkspace.log(`selected folder ${folder.name} (${folder.uri.fsPath})`);
+		apWorkspace.selectedPath = folder.uri.fsPath;
+		void apWorkspace.context?.workspaceState.update(apWorkspace.STATE_KEY, folder.uri.fsPath);
+		apWorkspace._onDidChangeFolder.fire(folder);
+	}
+
+	// Ask which ArduPilot folder to use, without asking when there is only one
+	public static async pickFolder(placeHolder = 'ArduPilot folder'): Promise<vscode.WorkspaceFolder | undefined> {
+		const folders = apWorkspace.folders;
+		if (folders.length <= 1) {
+			return folders[0];
+		}
+		const current = apWorkspace.folder;
+		const picked = await vscode.window.showQuickPick(folders.map(folder => ({
+			label: folder.name,
+			description: apWorkspace.isSameFolder(folder, current) ? `${folder.uri.fsPath} (selected)` : folder.uri.fsPath,
+			folder
+		})), { placeHolder });
+		return picked?.folder;
+	}
+}
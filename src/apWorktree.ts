@@ -0,0 +1,110 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+import * as path from 'path';
+
+// an entry of `git worktree list --porcelain`
+export interface Worktree {
+	path: string;
+	head?: string;
+	// short branch name, undefined when the HEAD is detached
+	branch?: string;
+	bare: boolean;
+	// the repository's own working tree, which cannot be removed
+	main: boolean;
+	locked: boolean;
+	// its directory is gone, `git worktree prune` drops it
+	prunable: boolean;
+}
+
+export interface GitRemote {
+	name: string;
+	refs: { fetch: string; push: string };
+}
+
+export function parseWorktreeList(porcelain: string): Worktree[] {
+	const worktrees: Worktree[] = [];
+	// records are separated by blank lines, the first one is the main working tree
+	for (const record of porcelain.split(/\r?\n\r?\n/)) {
+		const lines = record.split(/\r?\n/).filter(line => line);
+		const worktreeLine = lines.find(line => line.startsWith('worktree '));
+		if (!worktreeLine) {
+			continue;
+		}
+		const worktree: Worktree = {
+			path: worktreeLine.slice('worktree '.length),
+			bare: false,
+			main: worktrees.length === 0,
+			locked: false,
+			prunable: false
+		};
+		for (const line of lines) {
+			if (line.startsWith('HEAD ')) {
+				worktree.head = line.slice('HEAD '.length);
+			} else if (line.startsWith('branch ')) {
+				worktree.branch = line.slice('branch '.length).replace(/^refs\/heads\//, '');
+			} else if (line === 'bare') {
+				worktree.bare = true;
+			} else if (line === 'locked' || line.startsWith('locked ')) {
+				worktree.locked = true;
+			} else if (line === 'prunable' || line.startsWith('prunable ')) {
+				worktree.prunable = true;
+			}
+		}
+		worktrees.push(worktree);
+	}
+	return worktrees;
+}
+
+/**
+ * The pull request number of "1234", "#1234", "pull/1234" or a GitHub pull
+ * request URL, undefined for anything else
+ */
+export function parsePullRequest(input: string): number | undefined {
+	const match = /^(?:#|pull\/|https?:\/\/(?:www\.)?github\.com\/[\w.-]+\/[\w.-]+\/pull\/)?(\d+)(?:\/.*)?$/.exec(input.trim());
+	const number = match ? parseInt(match[1], 10) : NaN;
+	return number > 0 ? number : undefined;
+}
+
+// local branch a pull request is fetched into
+export function pullRequestBranch(number: number): string {
+	return `pr-${number}`;
+}
+
+/**
+ * The remote pointing at github.com/ArduPilot/ardupilot, where the release
+ * branches and pull request refs live, falling back to origin
+ */
+export function upstreamRemote(remotes: GitRemote[]): string | undefined {
+	const upstream = remotes.find(remote => /github\.com[:/]ardupilot\/ardupilot(\.git)?\/?$/i.test(remote.refs.fetch));
+	return upstream?.name ?? remotes.find(remote => remote.name === 'origin')?.name ?? remotes[0]?.name;
+}
+
+/**
+ * Default place for a new worktree: next to the repository, named after it
+ * and the branch, e.g. ../ardupilot-Copter-4.6
+ */
+export function defaultWorktreePath(repositoryRoot: string, branch: string): string {
+	const name = `${path.basename(repositoryRoot)}-${branch.replace(/[^\w.-]+/g, '-')}`;
+	return path.join(path.dirname(repositoryRoot), name);
+}
+
+export function describeWorktree(worktree: Worktree): string {
+	if (worktree.branch) {
+		return worktree.branch;
+	}
+	return worktree.head ? `detached at ${worktree.head.slice(0, 8)}` : path.basename(worktree.path);
+}
@@ -0,0 +1,332 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+/*
+	apWorktreeManager.ts
+	Creates, lists, opens and removes git worktrees of the ArduPilot checkout,
+	one per release branch or pull request under review.
+*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { simpleGit, SimpleGitProgressEvent } from 'simple-git';
+import { apLog } from './apLog';
+import { apWelcomeItem } from './apWelcomeItem';
+import { apWorkspace } from './apWorkspace';
+import { CloneArdupilot } from './apCloneArdupilot';
+import {
+	defaultWorktreePath,
+	describeWorktree,
+	parsePullRequest,
+	parseWorktreeList,
+	pullRequestBranch,
+	upstreamRemote,
+	Worktree
+} from './apWorktree';
+
+export class WorktreeItem extends apWelcomeItem {
+	constructor(public readonly worktree: Worktree) {
+		super(describeWorktree(worktree), vscode.TreeItemCollapsibleState.None);
+		const open = vscode.workspace.workspaceFolders?.some(folder => folder.uri.fsPath === worktree.path);
+		this.description = open ? `${worktree.path} (open)` : worktree.path;
+		this.tooltip = `${worktree.path}\n${worktree.head ?? ''}${worktree.locked ? '\nlocked' : ''}${worktree.prunable ? '\nmissing, will be pruned' : ''}`;
+		this.resourceUri = vscode.Uri.file(worktree.path);
+		if (worktree.prunable) {
+			this.iconPath = new vscode.ThemeIcon('warning');
+		} else if (worktree.main) {
+			this.iconPath = new vscode.ThemeIcon('repo');
+		} else if (worktree.branch?.startsWith('pr-')) {
+			this.iconPath = new vscode.ThemeIcon('git-pull-request');
+		} else {
+			this.iconPath = new vscode.ThemeIcon('git-branch');
+		}
+		this.contextValue = worktree.main ? 'apWorktreeMain' : 'apWorktree';
+	}
+}
+
+export class ArdupilotWorktrees extends apWelcomeItem {
+	private static log = new apLog('apWorktrees').log;
+
+	constructor(
+		label: string,
+		collapsibleState: vscode.TreeItemCollapsibleState,
+		private readonly onDidChange: (item: ArdupilotWorktrees) => void
+	) {
+		super(label, collapsibleState);
+		this.iconPath = new vscode.ThemeIcon('git-branch');
+		this.tooltip = 'Worktrees of the ArduPilot checkout for release branches and pull requests';
+		this.contextValue = 'apWorktrees';
+	}
+
+	refresh(): void {
+		this.onDidChange(this);
+	}
+
+	async getChildren(): Promise<apWelcomeItem[]> {
+		const repository = apWorkspace.rootPath;
+		if (!repository) {
+			return [new apWelcomeItem('Open an ArduPilot checkout to manage its worktrees', vscode.TreeItemCollapsibleState.None)];
+		}
+		try {
+			return (await this.list(repository)).filter(worktree => !worktree.bare).map(worktree => new WorktreeItem(worktree));
+		} catch (error) {
+			ArdupilotWorktrees.log(`failed to list worktrees of ${repository}: ${error}`);
+			return [new apWelcomeItem('Not a git repository', vscode.TreeItemCollapsibleState.None)];
+		}
+	}
+
+	private async list(repository: string): Promise<Worktree[]> {
+		return parseWorktreeList(await simpleGit({ baseDir: repository }).raw(['worktree', 'list', '--porcelain']));
+	}
+
+	/**
+	 * Add a worktree for a branch or a pull request. The ref is fetched from
+	 * the ArduPilot remote into the local repository, which acts as a mirror
+	 * all worktrees share objects with, and its submodules are initialised the
+	 * same way as after cloning so that it builds straight away.
+	 */
+	async create(): Promise<void> {
+		const repository = apWorkspace.rootPath;
+		if (!repository) {
+			void vscode.window.showErrorMessage('Open an ArduPilot checkout to add worktrees to it.');
+			return;
+		}
+		const kind = await vscode.window.showQuickPick([
+			{ label: '$(git-branch) Branch', description: 'e.g. a release branch such as Copter-4.6', pullRequest: false },
+			{ label: '$(git-pull-request) Pull Request', description: 'review a GitHub pull request', pullRequest: true }
+		], { placeHolder: 'Create a worktree for' });
+		if (!kind) {
+			return;
+		}
+
+		const git = simpleGit({ baseDir: repository });
+		const remote = upstreamRemote(await git.getRemotes(true));
+		if (!remote) {
+			void vscode.window.showErrorMessage(`${repository} has no remote to fetch from.`);
+			return;
+		}
+
+		let branch: string;
+		let fetchRefspec: string;
+		if (kind.pullRequest) {
+			const input = await vscode.window.showInputBox({
+				prompt: `Pull request to fetch from ${remote}`,
+				placeHolder: 'Number or URL, e.g. 12345 or https://github.com/ArduPilot/ardupilot/pull/12345',
+				validateInput: value => parsePullRequest(value) ? undefined : 'Enter a pull request number or URL'
+			});
+			const number = input ? parsePullRequest(input) : undefined;
+			if (!number) {
+				return;
+			}
+			branch = pullRequestBranch(number);
+			// force update so that a pull request fetched before picks up new pushes
+			fetchRefspec = `+refs/pull/${number}/head:refs/heads/${branch}`;
+		} else {
+			const input = (await vscode.window.showInputBox({
+				prompt: `Branch to fetch from ${remote}`,
+				placeHolder: 'e.g. Copter-4.6'
+			}))?.trim();
+			if (!input) {
+				return;
+			}
+			branch = input;
+			fetchRefspec = `refs/heads/${branch}:refs/remotes/${remote}/${branch}`;
+		}
+
+		const worktreePath = await vscode.window.showInputBox({
+			prompt: 'Directory of the new worktree',
+			value: defaultWorktreePath(repository, branch),
+			validateInput: value => fs.existsSync(value) ? 'Directory already exists' : undefined
+		});
+		if (!worktreePath) {
+			return;
+		}
+
+		const created = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Creating worktree for ${branch}`,
+			cancellable: true
+		}, async (progress, token) => {
+			const abortController = new AbortController();
+			token.onCancellationRequested(() => abortController.abort());
+			const progressGit = simpleGit({
+				baseDir: repository,
+				abort: abortController.signal,
+				progress: ({ method, stage, progress: percent }: SimpleGitProgressEvent) => {
+					progress.report({ message: `${method} ${stage} ${percent}%` });
+				}
+			});
+			try {
+				progress.report({ message: `Fetching ${branch} from ${remote}...` });
+				await progressGit.fetch(remote, fetchRefspec, ['--progress']);
+
+				progress.report({ message: 'Adding worktree...' });
+				const localBranch = await progressGit.raw(['branch', '--list', branch]);
+				if (kind.pullRequest || localBranch.trim()) {
+					await progressGit.raw(['worktree', 'add', worktreePath, branch]);
+				} else {
+					await progressGit.raw(['worktree', 'add', '--track', '-b', branch, worktreePath, `${remote}/${branch}`]);
+				}
+			} catch (error) {
+				if (!abortController.signal.aborted) {
+					const message = error instanceof Error ? error.message : String(error);
+					void vscode.window.showErrorMessage(`Failed to create worktree for ${branch}: ${message}`);
+				}
+				return false;
+			}
+
+			progress.report({ message: 'Initializing submodules...' });
+			try {
+				await CloneArdupilot.initSubmodules(worktreePath, progress, abortController.signal);
+			} catch (submoduleError) {
+				ArdupilotWorktrees.log(`Submodule error: ${submoduleError}`);
+				void vscode.window.showWarningMessage(`Worktree created, but submodule initialization failed. You may need to run "git submodule update --init --recursive" in ${worktreePath}.`);
+			}
+			return true;
+		});
+		this.refresh();
+		if (!created) {
+			return;
+		}
+
+		ArdupilotWorktrees.log(`created worktree ${worktreePath} for ${branch}`);
+		const action = await vscode.window.showInformationMessage(`Created worktree for ${branch} at ${worktreePath}`, 'Open in New Window', 'Add to Workspace');
+		if (action === 'Open in New Window') {
+			await ArdupilotWorktrees.openInNewWindow(worktreePath);
+		} else if (action === 'Add to Workspace') {
+			ArdupilotWorktrees.addToWorkspace(worktreePath);
+		}
+	}
+
+	// pick a worktree when a command is run from the palette rather than the tree
+	private async pick(placeHolder: string, removable = false): Promise<Worktree | undefined> {
+		const repository = apWorkspace.rootPath;
+		if (!repository) {
+			return undefined;
+		}
+		const worktrees = (await this.list(repository)).filter(worktree => !worktree.bare && !(removable && worktree.main));
+		if (worktrees.length === 0) {
+			void vscode.window.showInformationMessage('There are no worktrees besides the main checkout.');
+			return undefined;
+		}
+		const picked = await vscode.window.showQuickPick(worktrees.map(worktree => ({
+			label: describeWorktree(worktree),
+			description: worktree.path,
+			worktree
+		})), { placeHolder });
+		return picked?.worktree;
+	}
+
+	async open(item?: WorktreeItem): Promise<void> {
+		const worktree = item?.worktree ?? await this.pick('Worktree to open in a new window');
+		if (worktree) {
+			await ArdupilotWorktrees.openInNewWindow(worktree.path);
+		}
+	}
+
+	async add(item?: WorktreeItem): Promise<void> {
+		const worktree = item?.worktree ?? await this.pick('Worktree to add to the workspace');
+		if (worktree) {
+			ArdupilotWorktrees.addToWorkspace(worktree.path);
+		}
+	}
+
+	/**
+	 * Remove a worktree, confirming first and warning about anything that
+	 * would be lost: uncommitted or untracked files, and commits that are on
+	 * no remote. A clean worktree is removed with --force all the same, as
+	 * git refuses to remove worktrees with initialised submodules otherwise.
+	 */
+	async remove(item?: WorktreeItem): Promise<void> {
+		const worktree = item?.worktree ?? await this.pick('Worktree to remove', true);
+		if (!worktree || worktree.main) {
+			return;
+		}
+		const repository = apWorkspace.rootPath;
+		if (!repository) {
+			return;
+		}
+		const name = describeWorktree(worktree);
+		if (worktree.locked) {
+			void vscode.window.showErrorMessage(`Worktree ${name} is locked, unlock it with "git worktree unlock ${worktree.path}" first.`);
+			return;
+		}
+
+		const warnings: string[] = [];
+		if (!worktree.prunable) {
+			const worktreeGit = simpleGit({ baseDir: worktree.path });
+			const status = await worktreeGit.status();
+			if (!status.isClean()) {
+				warnings.push(`${status.files.length} uncommitted or untracked file(s)`);
+			}
+			const unpushed = worktree.branch
+				? parseInt(await worktreeGit.raw(['rev-list', '--count', worktree.branch, '--not', '--remotes']), 10)
+				: 0;
+			if (unpushed > 0) {
+				warnings.push(`${unpushed} commit(s) on ${worktree.branch} that are not on any remote`);
+			}
+		}
+		if (worktree.path === repository) {
+			void vscode.window.showErrorMessage(`Worktree ${name} is the selected ArduPilot folder, select another folder before removing it.`);
+			return;
+		}
+		const openFolder = vscode.workspace.workspaceFolders?.find(folder => folder.uri.fsPath === worktree.path);
+
+		const detail = warnings.length > 0
+			? `It has ${warnings.join(' and ')}, which will be lost.`
+			: `The directory ${worktree.path} will be deleted, the branch is kept.`;
+		const confirm = await vscode.window.showWarningMessage(
+			`Remove worktree ${name}?`,
+			{ modal: true, detail },
+			warnings.length > 0 ? 'Remove Anyway' : 'Remove'
+		);
+		if (!confirm) {
+			return;
+		}
+
+		try {
+			if (openFolder) {
+				vscode.workspace.updateWorkspaceFolders(openFolder.index, 1);
+			}
+			const git = simpleGit({ baseDir: repository });
+			if (worktree.prunable) {
+				await git.raw(['worktree', 'prune']);
+			} else {
+				await git.raw(['worktree', 'remove', '--force', worktree.path]);
+			}
+			ArdupilotWorktrees.log(`removed worktree ${worktree.path}`);
+			void vscode.window.showInformationMessage(`Removed worktree ${name}`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			void vscode.window.showErrorMessage(`Failed to remove worktree ${name}: ${message}`);
+		}
+		this.refresh();
+	}
+
+	private static async openInNewWindow(worktreePath: string): Promise<void> {
+		await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(worktreePath), { forceNewWindow: true });
+	}
+
+	private static addToWorkspace(worktreePath: string): void {
+		if (vscode.workspace.workspaceFolders?.some(folder => folder.uri.fsPath === worktreePath)) {
+			return;
+		}
+		vscode.workspace.updateWorkspaceFolders(vscode.workspace.workspaceFolders?.length ?? 0, null, {
+			uri: vscode.Uri.file(worktreePath),
+			name: path.basename(worktreePath)
+		});
+	}
+}
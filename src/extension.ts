@@ -18,15 +18,34 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
 
-import { APTaskProvider } from './taskProvider';
+import { APTaskProvider, ArdupilotTaskDefinition } from './taskProvider';
 import { apBuildConfig, apBuildConfigProvider } from './apBuildConfig';
 import { apLog } from './apLog';
 import { apWelcomeProvider } from './apWelcomeProvider';
-import { apConnectedDevices, ConnectedDeviceDecorationProvider } from './apConnectedDevices';
+import { apConnectedDevices, ConnectedDeviceDecorationProvider, ConnectedDeviceItem, DeviceInfo, DeviceLogItem } from './apConnectedDevices';
 import { ToolsConfig } from './apToolsConfig';
 import { APLaunchConfigurationProvider } from './apLaunch';
 import { apActionItem, apActionsProvider, activeConfiguration, setActiveConfiguration } from './apActions';
 import { ProgramUtils } from './apProgramUtils';
+import { apTelemetryPanel } from './apTelemetryPanel';
+import { apParametersPanel } from './apParametersPanel';
+import { MavlinkEndpoint, parseEndpoint } from './apMavlink';
+import { apSwarmProvider, SwarmInstanceItem } from './apSwarm';
+import { apAutotestExplorer } from './apAutotestExplorer';
+import { apGtestExplorer } from './apGtestExplorer';
+import { apBuildHistory } from './apBuildHistory';
+import { registerHwdefLanguage } from './apHwdefLanguage';
+import { registerFeatureGuards } from './apFeatureGuardsProvider';
+import { registerParamFileLanguage } from './apParamFileLanguage';
+import { apPinoutPanel } from './apPinoutPanel';
+import { apLogViewerProvider } from './apLogViewer';
+import { apWorkspace } from './apWorkspace';
+import { apCrashDumpPanel } from './apCrashDumpPanel';
+import { apBuildMatrixPanel } from './apBuildMatrixPanel';
+import { apIntelliSense } from './apIntelliSense';
+import { apMavftpFileSystem } from './apMavftpFileSystem';
+import { apLuaScriptingManager } from './apLuaScriptingManager';
+import { WorktreeItem } from './apWorktreeManager';
 
 export interface APExtensionContext {
 	apTaskProvider?: vscode.Disposable;
@@ -36,6 +55,9 @@ export interface APExtensionContext {
 	vscodeContext?: vscode.ExtensionContext;
 	active?: Promise<boolean>;
 	apWelcomeProviderInstance?: apWelcomeProvider;
+	swarmProvider?: apSwarmProvider;
+	autotestExplorer?: apAutotestExplorer;
+	gtestExplorer?: apGtestExplorer;
 }
 
 const apExtensionContext: APExtensionContext = {};
@@ -49,7 +71,12 @@ export async function activate(_context: vscode.ExtensionContext): Promise<APExt
 		resolveActive = resolve;
 	});
 	// Initialize ToolsConfig
+	apWorkspace.initialize(_context);
 	ToolsConfig.initialize(_context);
+	apBuildHistory.initialize(_context);
+	apBuildMatrixPanel.initialize(_context);
+	apMavftpFileSystem.initialize(_context);
+	apIntelliSense.initialize(_context);
 
 	// Configure venv-ardupilot as default Python interpreter if available
 	await ProgramUtils.configureVenvArdupilot();
@@ -72,7 +99,25 @@ export async function activate(_context: vscode.ExtensionContext): Promise<APExt
 
 	vscode.window.registerTreeDataProvider('apWelcome', apExtensionContext.apWelcomeProviderInstance);
 
-	const workspaceRoot = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0 ? vscode.workspace.workspaceFolders[0] : undefined;
+	// worktrees are managed from the Welcome view, they follow the selected ArduPilot folder
+	const worktrees = apExtensionContext.apWelcomeProviderInstance.getWorktrees();
+	_context.subscriptions.push(
+		vscode.commands.registerCommand('ardupilot.worktrees.create', () => worktrees?.create()),
+		vscode.commands.registerCommand('ardupilot.worktrees.refresh', () => worktrees?.refresh()),
+		vscode.commands.registerCommand('ardupilot.worktrees.open', (item?: WorktreeItem) => worktrees?.open(item)),
+		vscode.commands.registerCommand('ardupilot.worktrees.addToWorkspace', (item?: WorktreeItem) => worktrees?.add(item)),
+		vscode.commands.registerCommand('ardupilot.worktrees.remove', (item?: WorktreeItem) => worktrees?.remove(item)),
+		apWorkspace.onDidChangeFolder(() => worktrees?.refresh())
+	);
+
+	// hwdef editing works for any open file, with or without an ArduPilot workspace
+	registerHwdefLanguage(_context);
+	registerParamFileLanguage(_context);
+	// guards are evaluated once a configuration is active
+	registerFeatureGuards(_context);
+
+	// in a multi-root workspace, the selected ArduPilot folder
+	const workspaceRoot = apWorkspace.folder;
 	if (!workspaceRoot) {
 		return apExtensionContext;
 	}
@@ -95,20 +140,49 @@ export async function activate(_context: vscode.ExtensionContext): Promise<APExt
 		vscode.debug.registerDebugConfigurationProvider('apLaunch', apLaunchProvider)
 	);
 
-	const rootPath = (vscode.workspace.workspaceFolders && (vscode.workspace.workspaceFolders.length > 0))
-		? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
+	const rootPath = workspaceRoot.uri.fsPath;
 
 	// Register Build Config Provider
 	apExtensionContext.apBuildConfigProviderInstance = new apBuildConfigProvider(rootPath, _context);
-	vscode.window.registerTreeDataProvider('apBuildConfig', apExtensionContext.apBuildConfigProviderInstance);
+	// several configurations can be selected to build them as a matrix
+	_context.subscriptions.push(vscode.window.createTreeView('apBuildConfig', {
+		treeDataProvider: apExtensionContext.apBuildConfigProviderInstance,
+		canSelectMany: true
+	}));
 	// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
 	vscode.commands.registerCommand('apBuildConfig.refreshEntry', () => apExtensionContext.apBuildConfigProviderInstance!.refresh());
 	// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-	vscode.commands.registerCommand('apBuildConfig.addEntry', () => apExtensionContext.apBuildConfigProviderInstance!.add());
+	vscode.commands.registerCommand('apBuildConfig.addEntry', (item?: apBuildConfig) => apExtensionContext.apBuildConfigProviderInstance!.add(item));
 	vscode.commands.registerCommand('apBuildConfig.editEntry', (item: apBuildConfig) => item.edit());
 	vscode.commands.registerCommand('apBuildConfig.deleteEntry', (item: apBuildConfig) => item.delete());
 	vscode.commands.registerCommand('apBuildConfig.activate', (item: apBuildConfig) => item.activate());
 	vscode.commands.registerCommand('apBuildConfig.activateOnSelect', (item: apBuildConfig) => item.activate());
+	vscode.commands.registerCommand('apBuildConfig.showPinout', (item: apBuildConfig) => item.showPinout());
+	vscode.commands.registerCommand('apBuildConfig.applyFeaturePreset', (item: apBuildConfig) => item.applyFeaturePreset());
+	vscode.commands.registerCommand('apBuildConfig.compareFeatures', (item: apBuildConfig) => item.compareFeatures());
+	vscode.commands.registerCommand('apBuildConfig.selectFolder', (item: apBuildConfig) => item.selectFolder());
+	vscode.commands.registerCommand('ardupilot.buildMatrix', (item?: apBuildConfig, items?: apBuildConfig[]) => {
+		const selected = (items ?? (item ? [item] : [])).flatMap(config => config.task ? [config.task.definition as ArdupilotTaskDefinition] : []);
+		return apBuildMatrixPanel.pick(_context.extensionUri, selected);
+	});
+	vscode.commands.registerCommand('ardupilot.selectFolder', async () => {
+		apWorkspace.select(await apWorkspace.pickFolder('ArduPilot folder to build, run and debug'));
+	});
+	vscode.commands.registerCommand('ardupilot.showPinout', async (board?: string) => {
+		board = board ?? await apPinoutPanel.pickBoard();
+		if (board) {
+			apPinoutPanel.createOrShow(_context.extensionUri, board);
+		}
+	});
+	_context.subscriptions.push(apLogViewerProvider.register(_context.extensionUri));
+	vscode.commands.registerCommand('ardupilot.openDataflashLog', (uri?: vscode.Uri) => apLogViewerProvider.openLog(uri));
+	vscode.commands.registerCommand('ardupilot.decodeCrashDump', (uri?: vscode.Uri) => apCrashDumpPanel.decode(_context.extensionUri, uri));
+
+	// Lua scripting: bindings from docs.lua, deploying scripts to SITL or a board
+	const luaScripting = new apLuaScriptingManager();
+	_context.subscriptions.push(luaScripting);
+	vscode.commands.registerCommand('ardupilot.lua.deployScript', (uri?: vscode.Uri) => luaScripting.deploy(uri));
+	vscode.commands.registerCommand('ardupilot.lua.reloadBindings', () => luaScripting.reload());
 
 	// Register Actions Provider
 	apExtensionContext.actionsProvider = new apActionsProvider(_context);
@@ -122,6 +196,9 @@ export async function activate(_context: vscode.ExtensionContext): Promise<APExt
 	vscode.commands.registerCommand('apActions.configure', (item: apActionItem) => item.performAction());
 	vscode.commands.registerCommand('apActions.clean', (item: apActionItem) => item.performAction());
 	vscode.commands.registerCommand('apActions.distclean', (item: apActionItem) => item.performAction());
+	vscode.commands.registerCommand('apActions.parameters', (item: apActionItem) => item.performAction());
+	vscode.commands.registerCommand('apActions.flashUsage', (item: apActionItem) => item.performAction());
+	vscode.commands.registerCommand('ardupilot.addParamFileToConfiguration', (uri?: vscode.Uri) => apActionItem.addParamFileToActiveConfiguration(uri));
 
 	// Command to set active configuration from outside apActions
 	vscode.commands.registerCommand('apActions.setActiveConfiguration', (task: vscode.Task) => {
@@ -153,6 +230,77 @@ export async function activate(_context: vscode.ExtensionContext): Promise<APExt
 	vscode.commands.registerCommand('connected-devices.disconnectMAVProxy',
 		(device) => apExtensionContext.connectedDevicesProvider?.disconnectDevice(device));
 
+	// Register the native telemetry commands
+	vscode.commands.registerCommand('connected-devices.showTelemetry',
+		(device) => apExtensionContext.connectedDevicesProvider?.showTelemetry(device, _context.extensionUri));
+	vscode.commands.registerCommand('ardupilot.showTelemetry', async () => {
+		const endpoint = await promptMavlinkEndpoint();
+		if (endpoint) {
+			await apTelemetryPanel.createOrShow(_context.extensionUri, endpoint);
+		}
+	});
+
+	// Register the parameter editor commands
+	vscode.commands.registerCommand('connected-devices.showParameters',
+		(device) => apExtensionContext.connectedDevicesProvider?.showParameters(device, _context.extensionUri));
+	vscode.commands.registerCommand('ardupilot.showParameters', async () => {
+		const endpoint = await promptMavlinkEndpoint();
+		if (endpoint) {
+			await apParametersPanel.createOrShow(_context.extensionUri, endpoint);
+		}
+	});
+
+	// Register the board log download commands, run from a device's Logs node
+	const logsDevice = (arg: DeviceInfo | ConnectedDeviceItem) => arg instanceof ConnectedDeviceItem ? arg.device : arg;
+	vscode.commands.registerCommand('connected-devices.listLogs',
+		(arg: DeviceInfo | ConnectedDeviceItem) => apExtensionContext.connectedDevicesProvider?.listLogs(logsDevice(arg)));
+	vscode.commands.registerCommand('connected-devices.downloadLogs',
+		(arg: DeviceInfo | ConnectedDeviceItem) => apExtensionContext.connectedDevicesProvider?.downloadLogs(logsDevice(arg)));
+	vscode.commands.registerCommand('connected-devices.downloadLog',
+		(item: DeviceLogItem) => apExtensionContext.connectedDevicesProvider?.downloadLogs(item.device, [item.entry]));
+	vscode.commands.registerCommand('connected-devices.eraseLogs',
+		(arg: DeviceInfo | ConnectedDeviceItem) => apExtensionContext.connectedDevicesProvider?.eraseLogs(logsDevice(arg)));
+	// Mount a device's SD card and virtual filesystems over MAVFTP
+	vscode.commands.registerCommand('connected-devices.browseFiles',
+		(arg: DeviceInfo | ConnectedDeviceItem) => apExtensionContext.connectedDevicesProvider?.browseFiles(logsDevice(arg)));
+
+	// Register SITL swarm tree provider, following the selected ArduPilot folder
+	apExtensionContext.swarmProvider = new apSwarmProvider();
+	vscode.window.registerTreeDataProvider('sitl-swarm', apExtensionContext.swarmProvider);
+	vscode.commands.registerCommand('sitl-swarm.refresh', () => apExtensionContext.swarmProvider?.refresh());
+	vscode.commands.registerCommand('sitl-swarm.editFile', () => apExtensionContext.swarmProvider?.editSwarmFile());
+	vscode.commands.registerCommand('sitl-swarm.startAll', () => apExtensionContext.swarmProvider?.startAll());
+	vscode.commands.registerCommand('sitl-swarm.stopAll', () => apExtensionContext.swarmProvider?.stopAll());
+	vscode.commands.registerCommand('sitl-swarm.start', (item: SwarmInstanceItem) => apExtensionContext.swarmProvider?.start(item.instance));
+	vscode.commands.registerCommand('sitl-swarm.stop', (item: SwarmInstanceItem) => apExtensionContext.swarmProvider?.stop(item.instance));
+	vscode.commands.registerCommand('sitl-swarm.restart', (item: SwarmInstanceItem) => apExtensionContext.swarmProvider?.restart(item.instance));
+	vscode.commands.registerCommand('sitl-swarm.attachDebugger', (item: SwarmInstanceItem) => apExtensionContext.swarmProvider?.attachDebugger(item.instance));
+
+	// Autotest vehicle tests and GoogleTest unit tests of the libraries in the Test Explorer,
+	// listed for the selected ArduPilot folder and recreated when another one is selected
+	let testsRoot: string | undefined;
+	const createTestExplorers = (folder: vscode.WorkspaceFolder | undefined) => {
+		if (!folder || folder.uri.fsPath === testsRoot) {
+			return;
+		}
+		testsRoot = folder.uri.fsPath;
+		apExtensionContext.autotestExplorer?.dispose();
+		apExtensionContext.gtestExplorer?.dispose();
+		apExtensionContext.autotestExplorer = new apAutotestExplorer(testsRoot);
+		apExtensionContext.gtestExplorer = new apGtestExplorer(testsRoot);
+	};
+	createTestExplorers(workspaceRoot);
+	_context.subscriptions.push(apWorkspace.onDidChangeFolder(createTestExplorers), {
+		dispose: () => {
+			apExtensionContext.autotestExplorer?.dispose();
+			apExtensionContext.gtestExplorer?.dispose();
+		}
+	});
+
+	// Register the built-in firmware uploader command
+	vscode.commands.registerCommand('connected-devices.uploadFirmware',
+		(device) => apExtensionContext.connectedDevicesProvider?.uploadFirmware(device, activeConfiguration));
+
 	// Register Force Update Submodules command
 	vscode.commands.registerCommand('ardupilot.forceUpdateSubmodules', () => {
 		const forceUpdateItem = apExtensionContext.apWelcomeProviderInstance?.getForceUpdateSubmodules();
@@ -187,4 +335,29 @@ export async function deactivate(): Promise<void> {
 	if (apExtensionContext.connectedDevicesProvider) {
 		apExtensionContext.connectedDevicesProvider.dispose();
 	}
+
+	if (apExtensionContext.swarmProvider) {
+		await apExtensionContext.swarmProvider.stopAll();
+		apExtensionContext.swarmProvider.dispose();
+	}
+
+	apTelemetryPanel.disposeAll();
+	apParametersPanel.disposeAll();
+}
+
+async function promptMavlinkEndpoint(): Promise<MavlinkEndpoint | undefined> {
+	// SITL launched through sim_vehicle.py streams to udp 14550 by default
+	const connection = await vscode.window.showInputBox({
+		prompt: 'MAVLink connection (udp:host:port, udpout:host:port, tcp:host:port or a serial device)',
+		value: 'udp:127.0.0.1:14550',
+		validateInput: (value) => {
+			try {
+				parseEndpoint(value);
+				return null;
+			} catch (error) {
+				return error instanceof Error ? error.message : String(error);
+			}
+		}
+	});
+	return connection ? parseEndpoint(connection) : undefined;
 }
@@ -23,6 +23,10 @@ import { ProgramUtils } from './apProgramUtils';
 import { TOOLS_REGISTRY } from './apToolsConfig';
 import { isVehicleTarget } from './apCommonUtils';
 import { setCleanTask, setDistCleanTask } from './apActions';
+import { apBuildHistory } from './apBuildHistory';
+import { apWorkspace } from './apWorkspace';
+import { CompilerLocation, stripAnsi, WafOutputParser, WafProgress } from './apWafOutput';
+import type { BuildRecord } from './apBuildHistory';
 
 /**
  * Custom execution class for ArduPilot build tasks
@@ -34,11 +38,13 @@ class APCustomExecution extends vscode.CustomExecution {
 	private terminalOutputDisposables: vscode.Disposable[] = [];
 
 	constructor(
-		private definition: ArdupilotTaskDefinition
+		private definition: ArdupilotTaskDefinition,
+		private workspaceRoot: string
 	) {
 		super(async (): Promise<vscode.Pseudoterminal> => {
 			return new APBuildPseudoterminal(
-				this.definition
+				this.definition,
+				this.workspaceRoot
 			);
 		});
 	}
@@ -52,8 +58,20 @@ class APBuildPseudoterminal implements vscode.Pseudoterminal {
 	private writeEmitter = new vscode.EventEmitter<string>();
 	private closeEmitter = new vscode.EventEmitter<number>();
 	private static log = new apLog('APBuildPseudoterminal');
+	// compiler errors and warnings of the latest build of each configuration, replacing the
+	// $apgcc problem matcher; builds running side by side, e.g. of a build matrix, keep their own
+	private static diagnostics = new Map<string, vscode.DiagnosticCollection>();
 	private childProcess: cp.ChildProcess | null = null;
 	private commandFinished = false;
+	private startTime = Date.now();
+	private output: WafOutputParser;
+	// everything the build printed, without colours, for APTaskProvider.onDidCompleteBuild
+	private transcript: string[] = [];
+	private publishedDiagnostics = 0;
+	private progress: vscode.Progress<{ message?: string; increment?: number }> | undefined;
+	private progressPercent = 0;
+	private endProgress: (() => void) | undefined;
+	private statusBarItem: vscode.StatusBarItem | undefined;
 
 	onDidWrite: vscode.Event<string> = this.writeEmitter.event;
 	onDidClose: vscode.Event<number> = this.closeEmitter.event;
@@ -130,12 +148,28 @@ class APBuildPseudoterminal implements vscode.Pseudoterminal {
 	}
 
 	constructor(
-		private definition: ArdupilotTaskDefinition
-	) {}
+		private definition: ArdupilotTaskDefinition,
+		private workspaceRoot: string
+	) {
+		this.output = new WafOutputParser(workspaceRoot);
+	}
+
+	private get diagnosticCollection(): vscode.DiagnosticCollection {
+		const key = `${this.workspaceRoot}:${this.definition.configName}`;
+		let collection = APBuildPseudoterminal.diagnostics.get(key);
+		if (!collection) {
+			collection = vscode.languages.createDiagnosticCollection('ardupilot-build');
+			APBuildPseudoterminal.diagnostics.set(key, collection);
+		}
+		return collection;
+	}
 
 	async open(): Promise<void> {
 		this.writeEmitter.fire('Starting ArduPilot build task...\r\n');
 		APBuildPseudoterminal.log.log(`Opening pseudoterminal for task: ${this.definition.configName}`);
+		this.startTime = Date.now();
+		this.diagnosticCollection.clear();
+		this.startProgress();
 
 		// Execute the build command directly with spawn
 		void this.executeBuildCommand();
@@ -150,8 +184,14 @@ class APBuildPseudoterminal implements vscode.Pseudoterminal {
 			this.childProcess.kill('SIGTERM');
 		}
 
+		// a build stopped from outside, e.g. by terminating the task, still completes
+		if (!this.commandFinished) {
+			this.fireCompletion(130);
+		}
+
 		// Mark as finished to prevent duplicate handling
 		this.commandFinished = true;
+		this.stopProgress();
 
 		this.writeEmitter.fire('Build task completed.\r\n');
 		this.closeEmitter.fire(0);
@@ -166,6 +206,10 @@ class APBuildPseudoterminal implements vscode.Pseudoterminal {
 		const exitCode = result?.exitCode || 0;
 		const buildStatus = exitCode === 0 ? 'SUCCESS ✅' : 'FAILED ❌';
 
+		this.stopProgress();
+		const summary = this.output.summary(Date.now() - this.startTime);
+		this.publishDiagnostics();
+		this.writeEmitter.fire(`\r\n${summary.join('\r\n')}\r\n`);
 		this.writeEmitter.fire(`Build completed with exit code: ${exitCode}\r\n`);
 
 		// Log completion info
@@ -175,13 +219,46 @@ class APBuildPseudoterminal implements vscode.Pseudoterminal {
 		apLog.channel.appendLine(`[BUILD] Status: ${buildStatus}`);
 		apLog.channel.appendLine('[BUILD] ===================================');
 
+		if (exitCode === 0 && !this.definition.overrideEnabled) {
+			// the task ends once the size is recorded, so that it is part of the completion
+			void this.recordBuildSize().then(record => {
+				this.fireCompletion(exitCode, record);
+				this.closeEmitter.fire(exitCode);
+			});
+			return;
+		}
+
 		// Close the pseudoterminal with the exit code
+		this.fireCompletion(exitCode);
 		this.closeEmitter.fire(exitCode);
 	}
 
+	private recordBuildSize(): Promise<BuildRecord | undefined> {
+		return apBuildHistory.recordBuild(this.definition, this.startTime, this.workspaceRoot).then(record => {
+			if (record) {
+				void vscode.commands.executeCommand('apBuildConfig.refreshEntry');
+			}
+			return record;
+		}, (error) => {
+			APBuildPseudoterminal.log.log(`Failed to record build size: ${error}`);
+			return undefined;
+		});
+	}
+
+	private fireCompletion(exitCode: number, record?: BuildRecord): void {
+		APTaskProvider.fireBuildCompletion({
+			definition: this.definition,
+			exitCode,
+			durationMs: Date.now() - this.startTime,
+			output: this.transcript.join(''),
+			firstError: exitCode !== 0 ? this.output.firstError() : undefined,
+			record
+		});
+	}
+
 	private async executeBuildCommand(): Promise<void> {
 		try {
-			const workspaceRoot = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0]?.uri.fsPath;
+			const workspaceRoot = this.workspaceRoot;
 
 			// Prepare environment variables lazily
 			const baseEnv = await APTaskProvider.prepareEnvironmentVariables(this.definition);
@@ -195,7 +272,7 @@ class APBuildPseudoterminal implements vscode.Pseudoterminal {
 					const msg = 'Missing configure or target for non-override task';
 					APBuildPseudoterminal.log.log(msg);
 					this.writeEmitter.fire(msg + '\r\n');
-					this.closeEmitter.fire(1);
+					this.handleBuildCompletion({ exitCode: 1 });
 					return;
 				}
 				const commands = await APTaskProvider.generateBuildCommands(
@@ -260,7 +337,7 @@ class APBuildPseudoterminal implements vscode.Pseudoterminal {
 
 		if (!this.childProcess) {
 			this.writeEmitter.fire('Error: Failed to spawn build process\r\n');
-			this.closeEmitter.fire(1);
+			this.handleBuildCompletion({ exitCode: 1 });
 			return;
 		}
 
@@ -271,6 +348,7 @@ class APBuildPseudoterminal implements vscode.Pseudoterminal {
 			// Process text to handle carriage returns properly for pseudoterminal
 			const processedText = this.processTerminalOutput(text);
 			this.writeEmitter.fire(processedText);
+			this.parseOutput(text, 'stdout');
 			// Log to extension channel (strip ANSI codes for clean logging)
 			// eslint-disable-next-line no-control-regex
 			const cleanText = text.replace(/\u001b\[[0-9;]*[mGKH]/g, '');
@@ -289,6 +367,7 @@ class APBuildPseudoterminal implements vscode.Pseudoterminal {
 			// Process text to handle carriage returns properly for pseudoterminal
 			const processedText = this.processTerminalOutput(text);
 			this.writeEmitter.fire(processedText);
+			this.parseOutput(text, 'stderr');
 			// Log to extension channel (strip ANSI codes for clean logging)
 			// eslint-disable-next-line no-control-regex
 			const cleanText = text.replace(/\u001b\[[0-9;]*[mGKH]/g, '');
@@ -323,15 +402,113 @@ class APBuildPseudoterminal implements vscode.Pseudoterminal {
 		APBuildPseudoterminal.log.log('Build process spawned successfully');
 	}
 
+	/**
+	 * Follows waf's "[ n/total]" progress and publishes compiler messages as
+	 * they are reported
+	 */
+	private parseOutput(text: string, stream: string): void {
+		this.transcript.push(stripAnsi(text));
+		const progress = this.output.addOutput(text, stream);
+		if (progress) {
+			this.reportProgress(progress);
+		}
+		if (this.output.diagnostics.length !== this.publishedDiagnostics) {
+			this.publishDiagnostics();
+		}
+	}
+
+	private startProgress(): void {
+		this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+		this.statusBarItem.text = '$(sync~spin) ArduPilot build';
+		this.statusBarItem.tooltip = `Building ${this.definition.configName}`;
+		this.statusBarItem.show();
+
+		void vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Building ${this.definition.configName}`,
+			cancellable: true
+		}, (progress, token) => {
+			this.progress = progress;
+			token.onCancellationRequested(() => this.handleInput('\x03'));
+			return new Promise<void>(resolve => {
+				this.endProgress = resolve;
+			});
+		});
+	}
+
+	private reportProgress(progress: WafProgress): void {
+		const percent = Math.floor(progress.current * 100 / Math.max(progress.total, 1));
+		// waf counts each build group separately, so the total can restart
+		const increment = Math.max(percent - this.progressPercent, 0);
+		this.progressPercent = Math.max(percent, this.progressPercent);
+		this.progress?.report({ increment, message: `[${progress.current}/${progress.total}] ${progress.message}` });
+		if (this.statusBarItem) {
+			this.statusBarItem.text = `$(sync~spin) ArduPilot build ${percent}%`;
+		}
+	}
+
+	private stopProgress(): void {
+		this.endProgress?.();
+		this.endProgress = undefined;
+		this.progress = undefined;
+		this.statusBarItem?.dispose();
+		this.statusBarItem = undefined;
+	}
+
+	private publishDiagnostics(): void {
+		const byFile = new Map<string, vscode.Diagnostic[]>();
+		for (const message of this.output.diagnostics) {
+			const diagnostic = new vscode.Diagnostic(
+				this.range(message),
+				message.message,
+				message.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+			);
+			diagnostic.source = 'gcc';
+			diagnostic.relatedInformation = message.related.map(related => new vscode.DiagnosticRelatedInformation(
+				new vscode.Location(this.uri(related), this.range(related)),
+				related.message
+			));
+			const file = this.uri(message).toString();
+			byFile.set(file, [...byFile.get(file) ?? [], diagnostic]);
+		}
+		const collection = this.diagnosticCollection;
+		collection.clear();
+		for (const [file, diagnostics] of byFile) {
+			collection.set(vscode.Uri.parse(file), diagnostics);
+		}
+		this.publishedDiagnostics = this.output.diagnostics.length;
+	}
+
+	private uri(location: CompilerLocation): vscode.Uri {
+		return vscode.Uri.file(path.resolve(this.workspaceRoot, location.file));
+	}
+
+	private range(location: CompilerLocation): vscode.Range {
+		const line = Math.max(location.line - 1, 0);
+		const column = Math.max(location.column - 1, 0);
+		return new vscode.Range(line, column, line, column);
+	}
+
 }
 
 export class APTaskProvider implements vscode.TaskProvider {
 	static ardupilotTaskType = 'ardupilot';
 	private ardupilotPromise: Thenable<vscode.Task[]> | undefined = undefined;
+	private taskListWatchers: vscode.FileSystemWatcher[] = [];
 	private static log = new apLog('apBuildConfigPanel');
 	private static _extensionUri: vscode.Uri;
+	private static _onDidCompleteBuild = new vscode.EventEmitter<BuildCompletion>();
 	private log = APTaskProvider.log.log;
 
+	/**
+	 * Fires when a build task finishes, passed or failed, or is stopped
+	 */
+	public static readonly onDidCompleteBuild: vscode.Event<BuildCompletion> = APTaskProvider._onDidCompleteBuild.event;
+
+	public static fireBuildCompletion(completion: BuildCompletion): void {
+		APTaskProvider._onDidCompleteBuild.fire(completion);
+	}
+
 	/**
 	 * Migrates existing tasks.json to add configName field if missing
 	 */
@@ -347,7 +524,7 @@ export class APTaskProvider implements vscode.TaskProvider {
 		workspaceRoot?: string
 	): Promise<{ configureCommand: string; buildCommand: string; taskCommand: string; }> {
 		if (!workspaceRoot) {
-			workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : '';
+			workspaceRoot = apWorkspace.rootPath ?? '';
 		}
 
 		const waffile = path.join(workspaceRoot, 'waf');
@@ -369,11 +546,13 @@ export class APTaskProvider implements vscode.TaskProvider {
 	}
 
 	public static migrateTasksJsonForConfigName(): boolean {
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
-		if (!workspaceRoot) {
-			return false;
-		}
+		// every ArduPilot folder of a multi-root workspace has its own tasks.json
+		return apWorkspace.folders
+			.map(folder => APTaskProvider.migrateFolderTasksJson(folder.uri.fsPath))
+			.reduce((migrated, folderMigrated) => migrated || folderMigrated, false);
+	}
 
+	private static migrateFolderTasksJson(workspaceRoot: string): boolean {
 		const tasksPath = path.join(workspaceRoot, '.vscode', 'tasks.json');
 		if (!fs.existsSync(tasksPath)) {
 			return false;
@@ -436,18 +615,30 @@ export class APTaskProvider implements vscode.TaskProvider {
 		return false;
 	}
 
-	constructor(workspaceRoot: string, extensionUri: vscode.Uri) {
-		const pattern = path.join(workspaceRoot, 'tasklist.json');
-		const fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
-		fileWatcher.onDidChange(() => this.ardupilotPromise = undefined);
-		fileWatcher.onDidCreate(() => this.ardupilotPromise = undefined);
-		fileWatcher.onDidDelete(() => this.ardupilotPromise = undefined);
+	constructor(private workspaceRoot: string, extensionUri: vscode.Uri) {
+		this.watchTaskLists();
+		// folders added to the workspace have their own tasklist.json
+		apWorkspace.onDidChangeFolder(() => this.watchTaskLists());
 		APTaskProvider._extensionUri = extensionUri;
 	}
 
+	// tasklist.json of every ArduPilot folder
+	private watchTaskLists(): void {
+		this.taskListWatchers.forEach(watcher => watcher.dispose());
+		const roots = new Set([this.workspaceRoot, ...apWorkspace.folders.map(folder => folder.uri.fsPath)]);
+		this.taskListWatchers = [...roots].map(root => {
+			const fileWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(root, 'tasklist.json'));
+			fileWatcher.onDidChange(() => this.ardupilotPromise = undefined);
+			fileWatcher.onDidCreate(() => this.ardupilotPromise = undefined);
+			fileWatcher.onDidDelete(() => this.ardupilotPromise = undefined);
+			return fileWatcher;
+		});
+	}
+
 	public provideTasks(): Thenable<vscode.Task[]> | undefined {
 		return (async () => {
-			const workspaceRoot = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
+			// clean and distclean act on the selected ArduPilot folder
+			const workspaceRoot = apWorkspace.folder;
 			if (!workspaceRoot) {
 				return [];
 			}
@@ -474,7 +665,7 @@ export class APTaskProvider implements vscode.TaskProvider {
 
 			const tasks: vscode.Task[] = [];
 			for (const def of definitions) {
-				const task = await APTaskProvider.createTask(def);
+				const task = await APTaskProvider.createTask(def, workspaceRoot);
 				if (task) {
 					tasks.push(task);
 				}
@@ -490,9 +681,9 @@ export class APTaskProvider implements vscode.TaskProvider {
 		})();
 	}
 
-	public static async getOrCreateBuildConfig(board: string, target: string, configName: string, configureOptions?: string, simVehicleCommand?: string, overrideEnabled?: boolean, customConfigureCommand?: string, customBuildCommand?: string): Promise<vscode.Task | undefined> {
-		// create a new task definition in tasks.json
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
+	public static async getOrCreateBuildConfig(board: string, target: string, configName: string, configureOptions?: string, simVehicleCommand?: string, overrideEnabled?: boolean, customConfigureCommand?: string, customBuildCommand?: string, paramFiles?: string[], folder: vscode.WorkspaceFolder | undefined = apWorkspace.folder): Promise<vscode.Task | undefined> {
+		// create a new task definition in the tasks.json of the folder
+		const workspaceRoot = folder?.uri.fsPath;
 
 		// Log with appropriate information based on override mode
 		if (overrideEnabled) {
@@ -501,7 +692,7 @@ export class APTaskProvider implements vscode.TaskProvider {
 			APTaskProvider.log.log(`Creating new build configuration for ${board} ${target} @ ${workspaceRoot}`);
 		}
 
-		if (!workspaceRoot || !vscode.workspace.workspaceFolders) {
+		if (!workspaceRoot || !folder) {
 			vscode.window.showErrorMessage('No workspace folder is open.');
 			return;
 		}
@@ -590,7 +781,11 @@ export class APTaskProvider implements vscode.TaskProvider {
 			}
 		}
 
-		const task = taskDef ? await this.createTask(taskDef) : undefined;
+		if (!overrideEnabled && board.toLowerCase().startsWith('sitl') && paramFiles && paramFiles.length > 0) {
+			taskDef.paramFiles = paramFiles;
+		}
+
+		const task = taskDef ? await this.createTask(taskDef, folder) : undefined;
 		if (!task) {
 			vscode.window.showErrorMessage('Failed to create task definition.');
 			return undefined;
@@ -600,12 +795,7 @@ export class APTaskProvider implements vscode.TaskProvider {
 		}
 
 		// Get the tasks configuration using the VS Code API
-		if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
-			APTaskProvider.log.log('No workspace folders available for tasks configuration');
-			vscode.window.showErrorMessage('No workspace folder is open for tasks configuration.');
-			return undefined;
-		}
-		const tasksConfig = vscode.workspace.getConfiguration('tasks', vscode.workspace.workspaceFolders[0].uri);
+		const tasksConfig = vscode.workspace.getConfiguration('tasks', folder.uri);
 
 		// Get current tasks array or initialize empty array if it doesn't exist
 		const tasks = tasksConfig.get('tasks') as Array<ArdupilotTaskDefinition> || [];
@@ -644,7 +834,7 @@ export class APTaskProvider implements vscode.TaskProvider {
 		}
 
 		// Update the tasks configuration
-		tasksConfig.update('tasks', tasks, vscode.ConfigurationTarget.Workspace).then(() => {
+		tasksConfig.update('tasks', tasks, apWorkspace.configurationTarget).then(() => {
 			APTaskProvider.log.log(`Added/updated task ${configName} to tasks.json using VS Code API`);
 		}, (error) => {
 			APTaskProvider.log.log(`Error updating tasks.json: ${error}`);
@@ -720,6 +910,11 @@ export class APTaskProvider implements vscode.TaskProvider {
 			}
 		}
 
+		// builds of a build matrix keep their own waf lock file
+		if (definition?.waflock) {
+			env.WAFLOCK = definition.waflock;
+		}
+
 		// also set PYTHON environment variable
 		const pythonInfo = await ProgramUtils.findProgram(TOOLS_REGISTRY.PYTHON);
 		if (pythonInfo.path) {
@@ -731,8 +926,12 @@ export class APTaskProvider implements vscode.TaskProvider {
 		return env;
 	}
 
-	static async createTask(definition: ArdupilotTaskDefinition): Promise<vscode.Task | undefined> {
-		const workspaceRoot = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
+	/**
+	 * Creates the task of a build configuration, scoped to the folder whose
+	 * tasks.json defines it (the selected ArduPilot folder by default)
+	 */
+	static async createTask(definition: ArdupilotTaskDefinition, folder?: vscode.WorkspaceFolder): Promise<vscode.Task | undefined> {
+		const workspaceRoot = folder ?? apWorkspace.folder;
 		if (!workspaceRoot) {
 			return undefined;
 		}
@@ -769,13 +968,13 @@ export class APTaskProvider implements vscode.TaskProvider {
 
 			createdTask = new vscode.Task(
 				definition,
-				vscode.TaskScope.Workspace,
+				workspaceRoot,
 				task_name,
 				'ardupilot',
 				new APCustomExecution(
-					definition
-				),
-				'$apgcc'
+					definition,
+					workspaceRoot.uri.fsPath
+				)
 			);
 		};
 
@@ -786,9 +985,9 @@ export class APTaskProvider implements vscode.TaskProvider {
 		return createdTask;
 	}
 
-	public static delete(taskName: string): void {
-		// delete the task from tasks.json using VS Code API
-		const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0] : undefined;
+	public static delete(taskName: string, folder?: vscode.WorkspaceFolder): void {
+		// delete the task from the folder's tasks.json using VS Code API
+		const workspaceRoot = folder ?? apWorkspace.folder;
 		if (!workspaceRoot) {
 			vscode.window.showErrorMessage('No workspace folder is open.');
 			return;
@@ -820,7 +1019,7 @@ export class APTaskProvider implements vscode.TaskProvider {
 		// Only update if we actually removed a task
 		if (newTasks.length !== tasks.length) {
 			// Update the tasks configuration
-			tasksConfig.update('tasks', newTasks, vscode.ConfigurationTarget.Workspace).then(() => {
+			tasksConfig.update('tasks', newTasks, apWorkspace.configurationTarget).then(() => {
 				if (uploadTaskName && tasks.some(t => t.configName === uploadTaskName)) {
 					APTaskProvider.log.log(`Removed task for ${taskName} and its upload task ${uploadTaskName} from tasks.json`);
 				} else {
@@ -839,7 +1038,7 @@ export class APTaskProvider implements vscode.TaskProvider {
 		const taskDef = task.definition;
 		if (taskDef) {
 			// Full environment variables will be set when the task is actually executed
-			return APTaskProvider.createTask(taskDef as ArdupilotTaskDefinition);
+			return APTaskProvider.createTask(taskDef as ArdupilotTaskDefinition, apWorkspace.folderOf(task));
 		}
 		return undefined;
 	}
@@ -887,6 +1086,10 @@ export interface ArdupilotTaskDefinition extends vscode.TaskDefinition {
 	 * sim_vehicle.py command for SITL builds (only used when override is false)
 	 */
 	simVehicleCommand?: string;
+	/**
+	 * parameter files, relative to the workspace, passed to sim_vehicle.py with --add-param-file (SITL only)
+	 */
+	paramFiles?: string[];
 	/**
 	 * custom configure command (only used when override is true)
 	 */
@@ -907,11 +1110,29 @@ export interface ArdupilotTaskDefinition extends vscode.TaskDefinition {
 	 * Tasks that this task depends on (for upload tasks depending on build tasks)
 	 */
 	dependsOn?: string[];
+	/**
+	 * waf lock file naming the build directory, instead of the default .lock-waf_<platform>_build
+	 */
+	waflock?: string;
+}
+
+/**
+ * Outcome of a build task
+ */
+export interface BuildCompletion {
+	definition: ArdupilotTaskDefinition;
+	// 130 when the build was stopped
+	exitCode: number;
+	durationMs: number;
+	// what the build printed, without terminal colours
+	output: string;
+	firstError?: string;
+	// size of a successful build, when it could be read
+	record?: BuildRecord;
 }
 
-export async function getFeaturesList(extensionUri: vscode.Uri): Promise<Record<string, unknown>> {
+export async function getFeaturesList(extensionUri: vscode.Uri, workspaceRoot: string | undefined = apWorkspace.rootPath): Promise<Record<string, unknown>> {
 	// run resources/featureLoader.py on workspaceRoot/Tools/scripts/build_options.py
-	const workspaceRoot = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : undefined;
 	if (workspaceRoot === undefined) {
 		return {};
 	}
@@ -6,6 +6,7 @@ import * as fs from 'fs';
 import * as sinon from 'sinon';
 import { apActionItem, apActionsProvider, setActiveConfiguration, activeConfiguration, activeLaunchConfig } from '../../apActions';
 import { ArdupilotTaskDefinition } from '../../taskProvider';
+import { apUploader } from '../../apUploader';
 import { APExtensionContext } from '../../extension';
 import { getApExtApi } from './common';
 
@@ -217,6 +218,8 @@ suite('apActions Test Suite', () => {
 			assert.ok(actions.includes('build'));
 			assert.ok(actions.includes('debug'));
 			assert.ok(actions.includes('run')); // Should be 'run' for SITL configuration
+			assert.ok(actions.includes('parameters')); // Parameter editor for the running simulation
+			assert.ok(actions.includes('flashUsage')); // Symbol size explorer for the build
 		});
 
 		test('should show upload action for hardware configuration', async () => {
@@ -250,6 +253,7 @@ suite('apActions Test Suite', () => {
 			assert.ok(actions.includes('debug'));
 			assert.ok(actions.includes('upload')); // Should be 'upload' for hardware configuration
 			assert.ok(!actions.includes('run')); // Should not include 'run' for hardware
+			assert.ok(!actions.includes('parameters'));
 		});
 	});
 
@@ -622,12 +626,35 @@ suite('apActions Test Suite', () => {
 				assert.strictEqual(taskExecuted, true);
 			});
 
-			test('should perform upload action for hardware', async () => {
+			test('should build before uploading for hardware', async () => {
+				sandbox.stub(apUploader, 'supported').get(() => true);
+				// Stub executeTask to assert the build task runs ahead of the built-in uploader
+				let executedTask: vscode.Task | undefined;
+				sandbox.stub(vscode.tasks, 'executeTask').callsFake(async (task: vscode.Task) => {
+					executedTask = task;
+					return mockTaskExecution;
+				});
+
+				const actionItem = new apActionItem(
+					actionsProvider,
+					'Upload to Board',
+					vscode.TreeItemCollapsibleState.None,
+					'upload',
+					'Upload to CubeOrange'
+				);
+
+				actionItem.performAction();
+				await new Promise(resolve => setTimeout(resolve, 10));
+				assert.strictEqual(executedTask, activeConfiguration);
+			});
+
+			test('should run the upload task where the built-in uploader is unsupported', async () => {
+				sandbox.stub(apUploader, 'supported').get(() => false);
 				// Arrange: stub fetchTasks to provide an upload task matching the active configuration
 				const uploadTask: vscode.Task = {
 					definition: { type: 'ardupilot' } as ArdupilotTaskDefinition,
 					scope: vscode.TaskScope.Workspace,
-					name: 'Hardware Task-upload',
+					name: `${mockHardwareTask.name}-upload`,
 					source: 'ardupilot',
 					execution: undefined,
 					problemMatchers: [],
@@ -637,18 +664,11 @@ suite('apActions Test Suite', () => {
 					detail: undefined,
 					runOptions: {}
 				};
-
+				// the upload task is looked up when uploading, not when the configuration is selected
 				sandbox.stub(vscode.tasks, 'fetchTasks').resolves([uploadTask]);
-				// Re-set active configuration to trigger activeUploadTask discovery
-				setActiveConfiguration(mockHardwareTask);
-				// Allow microtasks to complete
-				await new Promise(resolve => setTimeout(resolve, 10));
 
-				// Stub executeTask to assert the upload task is invoked
-				let taskExecuted = false;
 				let executedTask: vscode.Task | undefined;
 				sandbox.stub(vscode.tasks, 'executeTask').callsFake(async (task: vscode.Task) => {
-					taskExecuted = true;
 					executedTask = task;
 					return mockTaskExecution;
 				});
@@ -662,7 +682,7 @@ suite('apActions Test Suite', () => {
 				);
 
 				actionItem.performAction();
-				assert.strictEqual(taskExecuted, true);
+				await new Promise(resolve => setTimeout(resolve, 10));
 				assert.strictEqual(executedTask, uploadTask);
 			});
 
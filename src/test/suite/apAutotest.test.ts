@@ -0,0 +1,102 @@
+/*
+ * Test suite for apAutotest module
+ *
+ * Tests the autotest.py integration used by the Test Explorer:
+ * - Reading the subtests of each vehicle from --list-subtests
+ * - Mapping SITL targets to autotest vehicles and steps
+ * - Finding where a subtest is defined
+ * - Pass/fail results from autotest output split across chunks
+ */
+
+import * as assert from 'assert';
+import {
+	AutotestOutputParser,
+	autotestStep,
+	autotestVehiclesForTarget,
+	findSubtestDefinition,
+	parseSubtestList
+} from '../../apAutotest';
+
+const LIST_OUTPUT = `test.Copter:
+    AltEstimation: Test that Alt Estimation is mandatory for ALT_HOLD
+    NavDelay: Fly a simple mission that has a delay in it
+
+test.Plane:
+    AUTOTUNE: Test AutoTune mode
+
+test.Empty:
+
+`;
+
+const RUN_OUTPUT = [
+	'AT-0000.0: ##################################################################################',
+	'AT-0000.0: ########## AltEstimation (Test that Alt Estimation is mandatory for ALT_HOLD)  ##########',
+	'AT-0000.0: ##################################################################################',
+	'AT-0012.3: PASSED: "AltEstimation (Test that Alt Estimation is mandatory for ALT_HOLD)"',
+	'AT-0012.4: ########## NavDelay (Fly a simple mission that has a delay in it)  ##########',
+	'AT-0045.6: FAILED: "NavDelay (Fly a simple mission that has a delay in it)": AutoTestTimeoutException(\'Did not get to waypoint\') (see /tmp/buildlogs/ArduCopter-NavDelay.txt)',
+	'>>>> FAILED STEP: test.Copter.NavDelay at Mon Oct 19 10:00:00 2026 (Did not get to waypoint)',
+	'>>>> PASSED STEP: test.Copter.AltEstimation at Mon Oct 19 10:00:00 2026',
+	'Listening on port 3333'
+].join('\n');
+
+suite('apAutotest Test Suite', () => {
+	test('should read the subtests of each vehicle', () => {
+		assert.deepStrictEqual(parseSubtestList(LIST_OUTPUT), [
+			{
+				name: 'Copter',
+				subtests: [
+					{ name: 'AltEstimation', description: 'Test that Alt Estimation is mandatory for ALT_HOLD' },
+					{ name: 'NavDelay', description: 'Fly a simple mission that has a delay in it' }
+				]
+			},
+			{ name: 'Plane', subtests: [{ name: 'AUTOTUNE', description: 'Test AutoTune mode' }] }
+		]);
+	});
+
+	test('should map SITL targets to autotest vehicles and steps', () => {
+		assert.deepStrictEqual(autotestVehiclesForTarget('copter'), ['Copter']);
+		assert.deepStrictEqual(autotestVehiclesForTarget('sitl-plane'), ['Plane', 'QuadPlane']);
+		assert.deepStrictEqual(autotestVehiclesForTarget('sitl_periph_universal'), []);
+		assert.strictEqual(autotestStep('Copter'), 'test.Copter');
+		assert.strictEqual(autotestStep('Copter', 'NavDelay'), 'test.Copter.NavDelay');
+	});
+
+	test('should find the method defining a subtest', () => {
+		const source = [
+			'class AutoTestCopter(vehicle_test_suite.TestSuite):',
+			'    def NavDelayTakeoffAbsTime(self):',
+			'        pass',
+			'',
+			'    def NavDelay(self):',
+			'        \'\'\'Fly a simple mission that has a delay in it\'\'\''
+		].join('\n');
+
+		assert.strictEqual(findSubtestDefinition(source, 'NavDelay'), 4);
+		assert.strictEqual(findSubtestDefinition(source, 'AltEstimation'), undefined);
+	});
+
+	test('should report results from output split across chunks', () => {
+		const parser = new AutotestOutputParser();
+		const events = [];
+		for (let i = 0; i < RUN_OUTPUT.length; i += 37) {
+			events.push(...parser.feed(RUN_OUTPUT.slice(i, i + 37)));
+		}
+		events.push(...parser.flush());
+
+		assert.deepStrictEqual(events, [
+			{ type: 'started', subtest: 'AltEstimation' },
+			{ type: 'passed', subtest: 'AltEstimation' },
+			{ type: 'started', subtest: 'NavDelay' },
+			{
+				type: 'failed',
+				subtest: 'NavDelay',
+				message: 'AutoTestTimeoutException(\'Did not get to waypoint\')',
+				logFile: '/tmp/buildlogs/ArduCopter-NavDelay.txt'
+			},
+			{ type: 'stepFailed', step: 'test.Copter.NavDelay', message: 'Did not get to waypoint' },
+			{ type: 'stepPassed', step: 'test.Copter.AltEstimation' },
+			{ type: 'gdbserver', port: 3333 }
+		]);
+	});
+});
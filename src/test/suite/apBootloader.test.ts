@@ -0,0 +1,316 @@
+/*
+ * Test suite for apBootloader module
+ *
+ * Tests the bootloader protocol against a simulated bootloader on a
+ * pseudo-serial transport:
+ * - Sync and device identification
+ * - Erase, program, CRC verification and reboot
+ * - Refusing firmware built for another board
+ * - Reading .apj files and finding them in build/<board>/bin
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { MavlinkTransport } from '../../apMavlink';
+import {
+	ApjFirmware,
+	BootloaderClient,
+	FlashStage,
+	PROG_MULTI_MAX,
+	checkFirmwareCompatible,
+	firmwareCrc,
+	flashFirmware,
+	parseApj
+} from '../../apBootloader';
+import { findFirmwareFiles } from '../../apUploader';
+
+// bitwise CRC32 without final inversion, independent of the table driven one under test
+function referenceCrc(data: Buffer): number {
+	let crc = 0;
+	for (const byte of data) {
+		crc ^= byte;
+		for (let bit = 0; bit < 8; bit++) {
+			crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+		}
+	}
+	return crc >>> 0;
+}
+
+/**
+ * Plays the board side of the serial line: parses commands as bytes trickle in
+ * and answers asynchronously, like a bootloader behind a USB CDC port
+ */
+class SimulatedBootloader implements MavlinkTransport {
+	boardId = 140;
+	bootloaderRev = 5;
+	flash = Buffer.alloc(16384, 0xFF);
+	// offset of a byte that fails to program, for verification tests
+	corruptAt: number | undefined;
+	// answer nothing, like a board running firmware
+	silent = false;
+	failErase = false;
+	readonly commands: number[] = [];
+	rebooted = false;
+	private rx = Buffer.alloc(0);
+	private programmed = 0;
+	private onData: ((data: Buffer) => void) | undefined;
+
+	async open(onData: (data: Buffer) => void): Promise<void> {
+		this.onData = onData;
+	}
+
+	write(data: Buffer): void {
+		this.rx = Buffer.concat([this.rx, data]);
+		this.process();
+	}
+
+	close(): void {
+		this.onData = undefined;
+	}
+
+	private reply(...parts: (number[] | Buffer)[]): void {
+		const data = Buffer.concat(parts.map(part => Buffer.from(part)));
+		setImmediate(() => this.onData?.(data));
+	}
+
+	private ok(data: Buffer = Buffer.alloc(0)): void {
+		this.reply(data, [0x12, 0x10]);
+	}
+
+	private uint32(value: number): Buffer {
+		const data = Buffer.alloc(4);
+		data.writeUInt32LE(value >>> 0, 0);
+		return data;
+	}
+
+	private process(): void {
+		while (this.rx.length > 0) {
+			const command = this.rx[0];
+			// command bytes plus the trailing EOC
+			let length = 2;
+			if (command === 0x22) {
+				length = 3;
+			} else if (command === 0x27) {
+				length = this.rx.length > 1 ? 3 + this.rx[1] : Infinity;
+			}
+			if (this.rx.length < length) {
+				return;
+			}
+			const packet = this.rx.subarray(0, length);
+			this.rx = this.rx.subarray(length);
+			this.commands.push(command);
+			if (!this.silent) {
+				this.handle(command, packet);
+			}
+		}
+	}
+
+	private handle(command: number, packet: Buffer): void {
+		switch (command) {
+		case 0x21: // GET_SYNC
+			this.ok();
+			break;
+		case 0x22: { // GET_DEVICE
+			const info: Record<number, number> = { 1: this.bootloaderRev, 2: this.boardId, 3: 0, 4: this.flash.length };
+			if (packet[1] in info) {
+				this.ok(this.uint32(info[packet[1]]));
+			} else {
+				this.reply([0x12, 0x13]);
+			}
+			break;
+		}
+		case 0x23: // CHIP_ERASE
+			if (this.failErase) {
+				this.reply([0x12, 0x11]);
+				break;
+			}
+			this.flash.fill(0xFF);
+			this.programmed = 0;
+			this.ok();
+			break;
+		case 0x27: { // PROG_MULTI
+			const data = Buffer.from(packet.subarray(2, 2 + packet[1]));
+			if (this.corruptAt !== undefined && this.corruptAt >= this.programmed && this.corruptAt < this.programmed + data.length) {
+				data[this.corruptAt - this.programmed] ^= 0xFF;
+			}
+			data.copy(this.flash, this.programmed);
+			this.programmed += data.length;
+			this.ok();
+			break;
+		}
+		case 0x29: // GET_CRC
+			this.ok(this.uint32(referenceCrc(this.flash)));
+			break;
+		case 0x30: // REBOOT
+			this.rebooted = true;
+			this.ok();
+			break;
+		default:
+			this.reply([0x12, 0x13]);
+		}
+	}
+}
+
+function makeFirmware(image: Buffer, boardId = 140): ApjFirmware {
+	return { boardId, boardRevision: 0, imageSize: image.length, image };
+}
+
+function makeImage(length: number): Buffer {
+	const image = Buffer.alloc(length);
+	for (let i = 0; i < length; i++) {
+		image[i] = (i * 7) & 0xFF;
+	}
+	return image;
+}
+
+suite('apBootloader Test Suite', () => {
+	let bootloader: SimulatedBootloader;
+	let client: BootloaderClient;
+
+	setup(async () => {
+		bootloader = new SimulatedBootloader();
+		client = new BootloaderClient(bootloader);
+		await client.open();
+	});
+
+	teardown(() => {
+		client.close();
+	});
+
+	suite('Bootloader Protocol', () => {
+		test('should sync and identify the board', async () => {
+			await client.sync();
+			const info = await client.identify();
+			assert.deepStrictEqual(info, { bootloaderRev: 5, boardId: 140, boardRev: 0, flashSize: 16384 });
+		});
+
+		test('should time out when the port is running firmware', async () => {
+			bootloader.silent = true;
+			await assert.rejects(client.sync(100), /Timed out waiting for the bootloader/);
+		});
+
+		test('should reject bootloaders without GET_CRC', async () => {
+			bootloader.bootloaderRev = 2;
+			await assert.rejects(client.identify(), /Unsupported bootloader protocol revision 2/);
+		});
+
+		test('should report a failed erase as an error', async () => {
+			bootloader.failErase = true;
+			await assert.rejects(client.erase(), /OPERATION FAILED/);
+		});
+
+		test('should erase, program, verify and reboot', async () => {
+			const image = makeImage(PROG_MULTI_MAX * 3 + 8);
+			const stages: FlashStage[] = [];
+			let lastFraction = 0;
+			await client.sync();
+			await flashFirmware(client, makeFirmware(image), (stage, fraction) => {
+				if (!stages.includes(stage)) {
+					stages.push(stage);
+				}
+				if (stage === 'program') {
+					lastFraction = fraction;
+				}
+			});
+
+			assert.deepStrictEqual(stages, ['erase', 'program', 'verify', 'reboot']);
+			assert.strictEqual(lastFraction, 1);
+			assert.ok(bootloader.flash.subarray(0, image.length).equals(image));
+			assert.ok(bootloader.flash.subarray(image.length).every(byte => byte === 0xFF));
+			assert.strictEqual(bootloader.commands.filter(command => command === 0x27).length, 4);
+			assert.strictEqual(bootloader.rebooted, true);
+		});
+
+		test('should refuse firmware for another board before erasing', async () => {
+			await client.sync();
+			await assert.rejects(flashFirmware(client, makeFirmware(makeImage(64), 9)),
+				/Firmware not suitable for this board \(firmware board_id 9, board reports 140\)/);
+			assert.ok(!bootloader.commands.includes(0x23));
+		});
+
+		test('should fail verification when the flash does not match', async () => {
+			bootloader.corruptAt = 300;
+			await client.sync();
+			await assert.rejects(flashFirmware(client, makeFirmware(makeImage(1024))), /Verification failed/);
+			assert.strictEqual(bootloader.rebooted, false);
+		});
+	});
+
+	suite('Firmware Checks', () => {
+		test('should match the CRC the bootloader computes over the whole flash', () => {
+			const image = makeImage(1000);
+			const flash = Buffer.alloc(4096, 0xFF);
+			image.copy(flash);
+			assert.strictEqual(firmwareCrc(image, flash.length), referenceCrc(flash));
+		});
+
+		test('should accept boards whose bootloader reports a compatible id', () => {
+			const info = { bootloaderRev: 5, boardId: 33, boardRev: 0, flashSize: 4096 };
+			checkFirmwareCompatible(makeFirmware(makeImage(64), 9), info);
+			assert.throws(() => checkFirmwareCompatible(makeFirmware(makeImage(64), 10), info), /not suitable/);
+		});
+
+		test('should refuse images larger than the flash', () => {
+			const info = { bootloaderRev: 5, boardId: 140, boardRev: 0, flashSize: 1024 };
+			assert.throws(() => checkFirmwareCompatible(makeFirmware(makeImage(2048)), info), /too large/);
+		});
+	});
+
+	suite('Firmware Files', () => {
+		let tmpDir: string;
+
+		setup(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apbootloader-test-'));
+		});
+
+		teardown(() => {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		test('should decompress the image and pad it to whole words', () => {
+			const image = makeImage(1001);
+			const firmware = parseApj(JSON.stringify({
+				board_id: 140,
+				board_revision: 0,
+				image: zlib.deflateSync(image).toString('base64'),
+				image_size: image.length,
+				summary: 'CubeOrange',
+				git_identity: 'abc1234'
+			}));
+
+			assert.strictEqual(firmware.boardId, 140);
+			assert.strictEqual(firmware.imageSize, 1001);
+			assert.strictEqual(firmware.image.length, 1004);
+			assert.ok(firmware.image.subarray(0, 1001).equals(image));
+			assert.ok(firmware.image.subarray(1001).every(byte => byte === 0xFF));
+			assert.strictEqual(firmware.summary, 'CubeOrange');
+			assert.strictEqual(firmware.gitIdentity, 'abc1234');
+		});
+
+		test('should reject files that are not firmware', () => {
+			assert.throws(() => parseApj(JSON.stringify({ summary: 'nothing here' })), /board_id or image is missing/);
+			assert.throws(() => parseApj(JSON.stringify({
+				board_id: 140,
+				image: zlib.deflateSync(makeImage(16)).toString('base64'),
+				extf_image_size: 1024
+			})), /external flash/);
+		});
+
+		test('should list firmware in build/<board>/bin newest first', () => {
+			const binDir = path.join(tmpDir, 'build', 'CubeOrange', 'bin');
+			fs.mkdirSync(binDir, { recursive: true });
+			fs.writeFileSync(path.join(binDir, 'arduplane.apj'), '{}');
+			fs.writeFileSync(path.join(binDir, 'arducopter.apj'), '{}');
+			fs.writeFileSync(path.join(binDir, 'arducopter.bin'), '');
+			fs.utimesSync(path.join(binDir, 'arduplane.apj'), new Date(1000000), new Date(1000000));
+
+			const files = findFirmwareFiles(tmpDir, 'CubeOrange');
+			assert.deepStrictEqual(files.map(file => path.basename(file.path)), ['arducopter.apj', 'arduplane.apj']);
+			assert.strictEqual(files[0].board, 'CubeOrange');
+			assert.deepStrictEqual(findFirmwareFiles(tmpDir, 'MatekH743'), []);
+		});
+	});
+});
@@ -0,0 +1,212 @@
+/*
+ * Test suite for apBuildHistory module
+ *
+ * Tests build size tracking:
+ * - Parsing size output per section and in total
+ * - Comparing against the previous build and the baseline branch
+ * - Storing and trimming the history file
+ * - Flash usage against the board's flash size
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	BuildRecord,
+	apBuildHistory,
+	compareBuilds,
+	describeBuild,
+	describeDelta,
+	flashUsagePercent,
+	formatSizeDelta,
+	isBuildOf,
+	parseSizeSections,
+	parseSizeTotals
+} from '../../apBuildHistory';
+
+const SIZE_A_OUTPUT = `build/CubeOrange/bin/arducopter  :
+section              size        addr
+.isr_vector           664   134348800
+.text             1703320   134349464
+.ARM.attributes        48           0
+.data                2372   536870912
+.bss               258868   536873284
+.debug_info      12345678           0
+Total            14310950
+`;
+
+// size -A of a host build with -g, as SITL is built
+const SIZE_A_DEBUG_OUTPUT = `s  :
+section              size    addr
+.interp                28     792
+.note.gnu.property     32     824
+.note.gnu.build-id     36     856
+.note.ABI-tag          32     892
+.gnu.hash              36     928
+.dynsym               144     968
+.dynstr               136    1112
+.gnu.version           12    1248
+.gnu.version_r         48    1264
+.rela.dyn             192    1312
+.init                  23    4096
+.plt                   16    4128
+.plt.got                8    4144
+.text                 253    4160
+.fini                   9    4416
+.rodata                 4    8192
+.eh_frame_hdr          44    8196
+.eh_frame             172    8240
+.init_array             8   15872
+.fini_array             8   15880
+.dynamic              432   15888
+.got                   40   16320
+.got.plt               24   16360
+.data                  20   16384
+.bss                  288   16416
+.comment               39       0
+.debug_aranges         48       0
+.debug_info           143       0
+.debug_abbrev         108       0
+.debug_line            82       0
+.debug_str             99       0
+.debug_line_str         9       0
+Total                2573
+`;
+
+const SIZE_B_OUTPUT = `   text	   data	    bss	    dec	    hex	filename
+1704032	   2372	 258868	1965272	 1dfcd8	build/CubeOrange/bin/arducopter
+`;
+
+function makeRecord(overrides: Partial<BuildRecord>): BuildRecord {
+	return {
+		configName: 'CubeOrange-copter',
+		board: 'CubeOrange',
+		target: 'copter',
+		timestamp: 1000,
+		durationMs: 60000,
+		commit: 'abc1234',
+		branch: 'master',
+		flash: 1000000,
+		ram: 200000,
+		sections: {},
+		features: [],
+		flashSizeKB: 2048,
+		...overrides
+	};
+}
+
+suite('apBuildHistory Test Suite', () => {
+	suite('Size Output', () => {
+		test('should read each allocated section from size -A', () => {
+			const sections = parseSizeSections(SIZE_A_OUTPUT);
+			assert.strictEqual(sections['.text'], 1703320);
+			assert.strictEqual(sections['.bss'], 258868);
+			assert.ok(!('.ARM.attributes' in sections));
+			assert.ok(!('.debug_info' in sections));
+			assert.ok(!('Total' in sections));
+			assert.ok(!('section' in sections));
+		});
+
+		test('should leave out debug sections and comments', () => {
+			const sections = parseSizeSections(SIZE_A_DEBUG_OUTPUT);
+			assert.strictEqual(Object.keys(sections).length, 25);
+			assert.strictEqual(sections['.text'], 253);
+			assert.strictEqual(sections['.bss'], 288);
+			assert.ok(Object.keys(sections).every(name => !name.startsWith('.debug') && name !== '.comment'));
+			assert.ok(!describeBuild({ latest: makeRecord({ sections }) }, 'master').includes('.debug'));
+		});
+
+		test('should read text, data and bss from Berkeley output', () => {
+			assert.deepStrictEqual(parseSizeTotals(SIZE_B_OUTPUT), { text: 1704032, data: 2372, bss: 258868 });
+			assert.throws(() => parseSizeTotals('size: build/x: file format not recognized'), /Unexpected size output/);
+		});
+
+		test('should format signed deltas', () => {
+			assert.strictEqual(formatSizeDelta(300), '+300 B');
+			assert.strictEqual(formatSizeDelta(-2048), '-2.0 KB');
+			assert.strictEqual(formatSizeDelta(0), '±0 B');
+		});
+	});
+
+	suite('Comparison', () => {
+		test('should compare against the previous build and the baseline branch', () => {
+			const records = [
+				makeRecord({ timestamp: 1000, branch: 'master', flash: 1000000 }),
+				makeRecord({ timestamp: 2000, branch: 'feature', flash: 1001000 }),
+				makeRecord({ configName: 'MatekH743-plane', timestamp: 2500, flash: 5 }),
+				makeRecord({ timestamp: 3000, branch: 'feature', flash: 1001500 })
+			];
+			const comparison = compareBuilds(records, 'CubeOrange-copter', 'master');
+			assert.ok(comparison);
+			assert.strictEqual(comparison.latest.timestamp, 3000);
+			assert.strictEqual(comparison.previous?.timestamp, 2000);
+			assert.strictEqual(comparison.baseline?.timestamp, 1000);
+			assert.strictEqual(describeDelta(comparison, 'master'), '+500 B, +1.5 KB vs master');
+			assert.ok(describeBuild(comparison, 'master').includes('Since master (abc1234): flash +1.5 KB'));
+		});
+
+		test('should not show a baseline when building the baseline branch', () => {
+			const records = [
+				makeRecord({ timestamp: 1000, flash: 1000000 }),
+				makeRecord({ timestamp: 2000, flash: 999000 })
+			];
+			const comparison = compareBuilds(records, 'CubeOrange-copter', 'master');
+			assert.ok(comparison);
+			assert.strictEqual(comparison.baseline, undefined);
+			assert.strictEqual(describeDelta(comparison, 'master'), '-1000 B');
+			assert.strictEqual(compareBuilds(records, 'MatekH743-plane', 'master'), undefined);
+		});
+
+		test('should keep the builds of each folder apart', () => {
+			const records = [
+				makeRecord({ folder: '/ardupilot', timestamp: 1000, flash: 1000000 }),
+				makeRecord({ folder: '/worktrees/pr-123', timestamp: 2000, flash: 1200000 }),
+				makeRecord({ folder: '/ardupilot', timestamp: 3000, flash: 1000500 })
+			];
+			const main = compareBuilds(records, 'CubeOrange-copter', 'master', '/ardupilot');
+			assert.strictEqual(main?.latest.timestamp, 3000);
+			assert.strictEqual(main?.previous?.timestamp, 1000);
+			const worktree = compareBuilds(records, 'CubeOrange-copter', 'master', '/worktrees/pr-123');
+			assert.strictEqual(worktree?.latest.timestamp, 2000);
+			assert.strictEqual(worktree?.previous, undefined);
+			assert.ok(isBuildOf(makeRecord({}), 'CubeOrange-copter', '/ardupilot'), 'older records have no folder');
+		});
+
+		test('should report flash usage only when the flash size is known', () => {
+			assert.strictEqual(flashUsagePercent(makeRecord({ flash: 1024 * 1024, flashSizeKB: 2048 })), 50);
+			assert.strictEqual(flashUsagePercent(makeRecord({ flashSizeKB: undefined })), undefined);
+		});
+	});
+
+	suite('History File', () => {
+		let tmpDir: string;
+
+		setup(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apbuildhistory-test-'));
+			apBuildHistory.setStorageDir(tmpDir);
+		});
+
+		teardown(() => {
+			apBuildHistory.setStorageDir(undefined);
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		test('should keep the latest 50 builds per configuration', () => {
+			apBuildHistory.add(makeRecord({ configName: 'sitl-copter', timestamp: 1 }));
+			for (let i = 0; i < 55; i++) {
+				apBuildHistory.add(makeRecord({ timestamp: 100 + i }));
+			}
+			const records = apBuildHistory.load();
+			const copter = records.filter(r => r.configName === 'CubeOrange-copter');
+			assert.strictEqual(copter.length, 50);
+			assert.strictEqual(Math.min(...copter.map(r => r.timestamp)), 105);
+			assert.strictEqual(records.filter(r => r.configName === 'sitl-copter').length, 1);
+		});
+
+		test('should ignore a corrupt history file', () => {
+			fs.writeFileSync(path.join(tmpDir, 'build-history.json'), '{ not json');
+			assert.deepStrictEqual(apBuildHistory.load(), []);
+		});
+	});
+});
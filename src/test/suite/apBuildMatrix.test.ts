@@ -0,0 +1,102 @@
+/*
+ * Test suite for apBuildMatrix module
+ *
+ * Tests the build matrix logic that works without the editor:
+ * - Reading and saving .vscode/build-matrix.json
+ * - Expanding a matrix into builds of configurations and boards × targets
+ * - Running builds a few at a time without two of one board together
+ * - Finding the first error in a build log
+ */
+
+import * as assert from 'assert';
+import {
+	errorLine,
+	expandBuildMatrix,
+	matrixLayout,
+	matrixLockFile,
+	parseBuildMatrixFile,
+	runWithConcurrency,
+	saveBuildMatrix
+} from '../../apBuildMatrix';
+import type { ArdupilotTaskDefinition } from '../../taskProvider';
+
+const CONFIGURATIONS: ArdupilotTaskDefinition[] = [
+	{ type: 'ardupilot', configName: 'sitl-copter', configure: 'sitl', target: 'copter', configureOptions: '--debug' },
+	{ type: 'ardupilot', configName: 'CubeOrange-plane', configure: 'CubeOrange', target: 'plane' },
+	{ type: 'ardupilot', configName: 'custom', overrideEnabled: true, customConfigureCommand: './waf configure --board sitl', customBuildCommand: './waf rover' }
+];
+
+suite('apBuildMatrix Test Suite', () => {
+	test('should read and save matrix files', () => {
+		const file = parseBuildMatrixFile('{"matrices": [{"name": "pre-pr", "configurations": ["sitl-copter"], "boards": ["MatekH743"], "targets": ["copter"]}]}');
+		assert.strictEqual(file.matrices[0].name, 'pre-pr');
+		assert.throws(() => parseBuildMatrixFile('{"matrices": {}}'), /"matrices" array/);
+		assert.throws(() => parseBuildMatrixFile('{"matrices": [{"name": "x", "boards": "CubeOrange"}]}'), /"boards" must be a list/);
+		assert.throws(() => parseBuildMatrixFile('not json'), /not valid JSON/);
+
+		const replaced = saveBuildMatrix(file, { name: 'pre-pr', boards: ['sitl'], targets: ['plane'] });
+		assert.deepStrictEqual(replaced.matrices, [{ name: 'pre-pr', boards: ['sitl'], targets: ['plane'] }]);
+		assert.deepStrictEqual(saveBuildMatrix(undefined, { name: 'all' }).matrices.map(matrix => matrix.name), ['all']);
+		assert.strictEqual(saveBuildMatrix(replaced, { name: 'other' }).matrices.length, 2);
+	});
+
+	test('should expand configurations and boards × targets', () => {
+		const { cells, missing } = expandBuildMatrix({
+			name: 'pre-pr',
+			configurations: ['sitl-copter', 'custom', 'gone'],
+			boards: ['CubeOrange', 'sitl'],
+			targets: ['plane', 'copter'],
+			configureOptions: '--enable-scripting'
+		}, CONFIGURATIONS);
+
+		assert.deepStrictEqual(missing, ['gone']);
+		assert.deepStrictEqual(cells.map(cell => cell.id), ['sitl/copter', 'custom/-', 'CubeOrange/plane', 'CubeOrange/copter', 'sitl/plane']);
+		assert.strictEqual(cells[0].definition.configureOptions, '--debug', 'a configuration keeps its options');
+		assert.notStrictEqual(cells[0].definition, CONFIGURATIONS[0], 'configurations are copied');
+		assert.deepStrictEqual(cells[3].definition, {
+			type: 'ardupilot',
+			configName: 'CubeOrange-copter',
+			configure: 'CubeOrange',
+			target: 'copter',
+			configureOptions: '--enable-scripting',
+			buildOptions: ''
+		});
+		assert.ok(cells.every(cell => cell.status === 'queued'));
+		assert.deepStrictEqual(matrixLayout(cells), { boards: ['sitl', 'custom', 'CubeOrange'], targets: ['copter', '-', 'plane'] });
+		assert.strictEqual(matrixLockFile('sitl'), '.lock-waf_matrix_sitl');
+	});
+
+	test('should run a few builds at a time, one per board', async () => {
+		const items = ['a/1', 'a/2', 'b/1', 'c/1', 'b/2'];
+		const running = new Set<string>();
+		const order: string[] = [];
+		let most = 0;
+		await runWithConcurrency(items, 2, item => item.split('/')[0], async item => {
+			const board = item.split('/')[0];
+			assert.ok(![...running].some(other => other.startsWith(`${board}/`)), `${item} runs alone on its board`);
+			running.add(item);
+			most = Math.max(most, running.size);
+			order.push(item);
+			await new Promise(resolve => setTimeout(resolve, 5));
+			running.delete(item);
+			if (item === 'c/1') {
+				throw new Error('a failed build does not stop the others');
+			}
+		});
+		assert.strictEqual(most, 2);
+		assert.deepStrictEqual([...order].sort(), [...items].sort());
+		assert.deepStrictEqual(order.slice(0, 2), ['a/1', 'b/1'], 'a/2 waits for a/1');
+		await runWithConcurrency([], 2, item => item, async () => undefined);
+	});
+
+	test('should find the first error in a build log', () => {
+		const log = [
+			'[ 3/12] Compiling ArduCopter/mode.cpp',
+			'../../libraries/AP_Common/Bitmask.h:57:9: error: \'bitsx\' was not declared in this scope',
+			'Build failed'
+		].join('\n');
+		assert.strictEqual(errorLine(log, 'libraries/AP_Common/Bitmask.h:57:9: \'bitsx\' was not declared in this scope'), 1);
+		assert.strictEqual(errorLine(log, 'mode.cpp:(.text+0x1c): undefined reference to `foo()\''), 2);
+		assert.strictEqual(errorLine(log, undefined), 2);
+	});
+});
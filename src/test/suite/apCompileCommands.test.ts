@@ -0,0 +1,82 @@
+/*
+ * Test suite for apCompileCommands module
+ *
+ * Tests reading the compile database waf writes for a board:
+ * - Splitting command lines and reading compile_commands.json
+ * - Extracting include paths, defines, forced includes and the standard
+ * - Finding the flags of a file, or of the nearest translation unit
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+	CompileDatabase,
+	compileCommandsPath,
+	compileFlags,
+	hwdefHeaderPath,
+	parseCompileCommands,
+	splitCommand
+} from '../../apCompileCommands';
+
+const ROOT = path.resolve('/ardupilot');
+const BUILD = path.join(ROOT, 'build', 'CubeOrange');
+
+function command(file: string, extra: string[] = []) {
+	return {
+		directory: BUILD,
+		file: `../../${file}`,
+		arguments: ['arm-none-eabi-g++', '-std=gnu++11', '-mcpu=cortex-m7', '-Wall', '-g', '-Ilibraries', '-I', '../../libraries',
+			'-DHAL_BOARD_NAME="CubeOrange"', '-include', 'hwdef.h', ...extra, '-MMD', '-c', `../../${file}`, '-o', `${file}.o`]
+	};
+}
+
+suite('apCompileCommands Test Suite', () => {
+	test('should split commands and read compile_commands.json', () => {
+		assert.deepStrictEqual(splitCommand('gcc -DNAME="a b" \'-I dir\' x\\ y.c  -c'), ['gcc', '-DNAME=a b', '-I dir', 'x y.c', '-c']);
+		const commands = parseCompileCommands(JSON.stringify([
+			{ directory: BUILD, file: 'a.cpp', command: 'g++ -c a.cpp' },
+			{ directory: BUILD, file: 'b.cpp' },
+			command('libraries/AP_Baro/AP_Baro.cpp')
+		]));
+		assert.strictEqual(commands.length, 2, 'entries without a command are skipped');
+		assert.throws(() => parseCompileCommands('{}'), /must contain an array/);
+	});
+
+	test('should extract the flags of a command', () => {
+		const flags = compileFlags(command('libraries/AP_Baro/AP_Baro.cpp', ['-isystem/opt/include', '-DNDEBUG']));
+		assert.strictEqual(flags.compiler, 'arm-none-eabi-g++');
+		assert.deepStrictEqual(flags.includePath, [path.join(BUILD, 'libraries'), path.join(ROOT, 'libraries'), path.resolve('/opt/include')]);
+		assert.deepStrictEqual(flags.defines, ['HAL_BOARD_NAME="CubeOrange"', 'NDEBUG']);
+		assert.deepStrictEqual(flags.forcedInclude, [path.join(BUILD, 'hwdef.h')]);
+		assert.strictEqual(flags.standard, 'gnu++11');
+		assert.deepStrictEqual(flags.compilerArgs, ['-mcpu=cortex-m7'], 'warnings, debug info and dependency options are dropped');
+
+		const shell = compileFlags({ directory: BUILD, file: 'x.c', command: 'gcc -std=c11 -D FOO=1 -c x.c' });
+		assert.deepStrictEqual(shell.defines, ['FOO=1']);
+		assert.strictEqual(shell.standard, 'c11');
+	});
+
+	test('should look up a file or the nearest translation unit', () => {
+		const database = new CompileDatabase([
+			command('libraries/AP_Baro/AP_Baro.cpp'),
+			command('libraries/AP_Baro/AP_Baro_Backend.cpp'),
+			command('libraries/AP_HAL_ChibiOS/hwdef/common/stm32_util.c'),
+			command('ArduCopter/Copter.cpp')
+		]);
+		const lookup = (file: string) => {
+			const found = database.lookup(path.join(ROOT, file));
+			return found && `${found.command.file.replace('../../', '')}${found.exact ? '' : ' (nearest)'}`;
+		};
+		assert.strictEqual(database.size, 4);
+		assert.ok(database.has(path.join(ROOT, 'ArduCopter/Copter.cpp')));
+		assert.strictEqual(lookup('libraries/AP_Baro/AP_Baro_Backend.cpp'), 'libraries/AP_Baro/AP_Baro_Backend.cpp');
+		assert.strictEqual(lookup('libraries/AP_Baro/AP_Baro_Backend.h'), 'libraries/AP_Baro/AP_Baro_Backend.cpp (nearest)');
+		assert.strictEqual(lookup('libraries/AP_Baro/AP_Baro_DPS280.cpp'), 'libraries/AP_Baro/AP_Baro.cpp (nearest)', 'a source not built for this board');
+		assert.strictEqual(lookup('libraries/AP_HAL_ChibiOS/Util.h'), 'libraries/AP_HAL_ChibiOS/hwdef/common/stm32_util.c (nearest)');
+		assert.strictEqual(lookup('ArduPlane/Plane.cpp'), 'ArduCopter/Copter.cpp (nearest)');
+		assert.strictEqual(database.lookup(path.resolve('/elsewhere/x.cpp')), undefined);
+
+		assert.strictEqual(compileCommandsPath(ROOT, 'sitl'), path.join(ROOT, 'build', 'sitl', 'compile_commands.json'));
+		assert.strictEqual(hwdefHeaderPath(ROOT, 'CubeOrange'), path.join(BUILD, 'hwdef.h'));
+	});
+});
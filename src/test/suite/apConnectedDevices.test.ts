@@ -143,6 +143,36 @@ suite('apConnectedDevices Test Suite', () => {
 			assert.strictEqual(connectedChildren[0].label, 'Disconnect MAVProxy');
 			assert.strictEqual(disconnectedChildren[0].label, 'Connect with MAVProxy');
 		});
+
+		test('should only offer telemetry, parameters and upload when the port is not held by MAVProxy', async () => {
+			const device: DeviceInfo = {
+				path: '/dev/ttyACM0',
+				vendorId: '2DAE',
+				productId: '1016',
+				isArduPilot: true,
+				isMavproxyConnected: false
+			};
+
+			const freeChildren = await provider.getChildren(
+				new ConnectedDeviceItem('Free Device', vscode.TreeItemCollapsibleState.Collapsed, device));
+			const busyChildren = await provider.getChildren(
+				new ConnectedDeviceItem('Busy Device', vscode.TreeItemCollapsibleState.Collapsed, { ...device, isMavproxyConnected: true }));
+
+			const telemetryItem = freeChildren.find(child => child.label === 'Show Telemetry');
+			assert.ok(telemetryItem);
+			assert.strictEqual(telemetryItem.command?.command, 'connected-devices.showTelemetry');
+			assert.ok(!busyChildren.some(child => child.label === 'Show Telemetry'));
+
+			const parametersItem = freeChildren.find(child => child.label === 'Show Parameters');
+			assert.ok(parametersItem);
+			assert.strictEqual(parametersItem.command?.command, 'connected-devices.showParameters');
+			assert.ok(!busyChildren.some(child => child.label === 'Show Parameters'));
+
+			const uploadItem = freeChildren.find(child => child.label === 'Upload Firmware');
+			assert.ok(uploadItem);
+			assert.strictEqual(uploadItem.command?.command, 'connected-devices.uploadFirmware');
+			assert.ok(!busyChildren.some(child => child.label === 'Upload Firmware'));
+		});
 	});
 
 	suite('Device Detection', () => {
@@ -527,6 +557,9 @@ suite('apConnectedDevices Test Suite', () => {
 			assert.ok(commands.includes('connected-devices.refresh'));
 			assert.ok(commands.includes('connected-devices.connectMAVProxy'));
 			assert.ok(commands.includes('connected-devices.disconnectMAVProxy'));
+			assert.ok(commands.includes('connected-devices.showTelemetry'));
+			assert.ok(commands.includes('connected-devices.showParameters'));
+			assert.ok(commands.includes('connected-devices.uploadFirmware'));
 		});
 
 		test('should execute refresh command', async () => {
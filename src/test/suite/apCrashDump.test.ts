@@ -0,0 +1,113 @@
+/*
+ * Test suite for apCrashDump module
+ *
+ * Tests decoding of CrashCatcher crash dumps:
+ * - Registers and memory regions of binary and hex dumps
+ * - Fault summary from xPSR and the fault status registers
+ * - Return address candidates on the stack
+ * - Reading addr2line output
+ */
+
+import * as assert from 'assert';
+import {
+	backtraceCandidates,
+	CORE_REGISTERS,
+	crashDumpFromHex,
+	lookupAddress,
+	parseAddr2lineOutput,
+	parseCrashDump,
+	summarizeFault
+} from '../../apCrashDump';
+
+const SP = 0x20001000;
+
+function words(values: number[]): Buffer {
+	const buffer = Buffer.alloc(values.length * 4);
+	values.forEach((value, index) => buffer.writeUInt32LE(value >>> 0, index * 4));
+	return buffer;
+}
+
+function region(start: number, values: number[]): Buffer {
+	return Buffer.concat([words([start, start + values.length * 4]), words(values)]);
+}
+
+// a HardFault escalated from a precise bus error, reading address 0x00000004
+function makeDump(): Buffer {
+	const registers: Record<string, number> = {
+		sp: SP,
+		lr: 0x08012345,
+		pc: 0x08010000,
+		xpsr: 0x61000000
+	};
+	return Buffer.concat([
+		Buffer.from([0x63, 0x43, 3, 0]),
+		words([0]),
+		words(CORE_REGISTERS.map((name, index) => registers[name] ?? index)),
+		// msp, psp and the PSR in the handler, i.e. HardFault
+		words([0x20000f00, SP, 0x00000003]),
+		region(SP, [0x00000000, 0x0801abcd, 0x20000000, 0x08020001]),
+		// CFSR with PRECISERR and BFARVALID, HFSR FORCED, DFSR, MMFAR, BFAR
+		region(0xE000ED28, [(1 << 9) | (1 << 15), 1 << 30, 0, 0, 0x00000004]),
+		// erased flash after the dump
+		Buffer.alloc(16, 0xFF)
+	]);
+}
+
+suite('apCrashDump Test Suite', () => {
+	test('should read registers and memory regions', () => {
+		const dump = parseCrashDump(makeDump());
+
+		assert.strictEqual(dump.version, '3.0');
+		assert.strictEqual(dump.registers.r3, 3);
+		assert.strictEqual(dump.registers.pc, 0x08010000);
+		assert.strictEqual(dump.psp, SP);
+		assert.strictEqual(dump.floatingPoint, undefined);
+		assert.deepStrictEqual(dump.regions.map(memory => [memory.start, memory.end]), [[SP, SP + 16], [0xE000ED28, 0xE000ED3C]]);
+		assert.throws(() => parseCrashDump(Buffer.from('not a dump')), /CrashCatcher signature/);
+	});
+
+	test('should read dumps printed as hex', () => {
+		const binary = makeDump();
+		const text = `boot messages\n###CRASH###\n${binary.toString('hex').replace(/(.{64})/g, '$1\n')}\n###END###\n`;
+
+		assert.deepStrictEqual(crashDumpFromHex(text), binary);
+		assert.strictEqual(parseCrashDump(Buffer.from(text)).registers.lr, 0x08012345);
+	});
+
+	test('should summarise the fault', () => {
+		const fault = summarizeFault(parseCrashDump(makeDump()));
+
+		assert.strictEqual(fault.exception, 'HardFault');
+		assert.deepStrictEqual(fault.causes.map(cause => cause.split(':')[0]), ['FORCED', 'PRECISERR']);
+		assert.strictEqual(fault.address, 4);
+	});
+
+	test('should find return addresses on the stack', () => {
+		const candidates = backtraceCandidates(parseCrashDump(makeDump()));
+
+		assert.deepStrictEqual(candidates.map(candidate => [candidate.address, candidate.origin]), [
+			[0x08010000, 'PC'],
+			[0x08012345, 'LR'],
+			[0x0801abcd, 'stack 0x20001004'],
+			[0x08020001, 'stack 0x2000100c']
+		]);
+		assert.strictEqual(lookupAddress(0x08010000, 'PC'), 0x08010000);
+		assert.strictEqual(lookupAddress(0x08012345, 'LR'), 0x08012342);
+	});
+
+	test('should read addr2line output with inlined functions', () => {
+		const locations = parseAddr2lineOutput([
+			'0x08010000: AP_Baro::update() at ../../libraries/AP_Baro/AP_Baro.cpp:812',
+			' (inlined by) AP_Vehicle::loop() at ../../libraries/AP_Vehicle/AP_Vehicle.cpp:120 (discriminator 2)',
+			'0x08020000: ?? ??:0',
+			'0x08030000: memcpy at ??:?'
+		].join('\n'));
+
+		assert.deepStrictEqual(locations.get(0x08010000), [
+			{ function: 'AP_Baro::update()', file: '../../libraries/AP_Baro/AP_Baro.cpp', line: 812 },
+			{ function: 'AP_Vehicle::loop()', file: '../../libraries/AP_Vehicle/AP_Vehicle.cpp', line: 120 }
+		]);
+		assert.deepStrictEqual(locations.get(0x08020000), []);
+		assert.deepStrictEqual(locations.get(0x08030000), [{ function: 'memcpy', file: undefined, line: undefined }]);
+	});
+});
@@ -0,0 +1,99 @@
+/*
+ * Test suite for apDataflash module
+ *
+ * Tests the DataFlash log reader behind the log viewer, against the sample logs in
+ * src/test/fixtures/dataflash:
+ * - Message types, units, multipliers and instances from FMT, FMTU, UNIT and MULT
+ * - Binary and text logs giving the same messages, resyncing over corrupt bytes
+ * - Series for plotting, table pages and the log summary
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+	dataflashInstances,
+	dataflashRows,
+	dataflashSeries,
+	downsampleSeries,
+	parseDataflashLog,
+	summarizeDataflashLog
+} from '../../apDataflash';
+
+const FIXTURES = path.resolve(__dirname, '../../../src/test/fixtures/dataflash');
+
+function readFixture(name: string): Uint8Array {
+	return fs.readFileSync(path.join(FIXTURES, name));
+}
+
+suite('apDataflash Test Suite', () => {
+	test('should read message formats, units and instances from a binary log', () => {
+		const log = parseDataflashLog(readFixture('sample.bin'));
+		assert.strictEqual(log.corruptBytes, 3);
+
+		const att = log.messages.get('ATT');
+		assert.strictEqual(att?.count, 50);
+		assert.deepStrictEqual(att?.format.fields.map(field => field.name),
+			['TimeUS', 'DesRoll', 'Roll', 'DesPitch', 'Pitch', 'DesYaw', 'Yaw']);
+		assert.strictEqual(att?.format.fields[2].unit, 'deg');
+
+		const baro = log.messages.get('BARO');
+		assert.ok(baro);
+		assert.strictEqual(baro.format.instanceField, 1);
+		assert.deepStrictEqual(dataflashInstances(baro), [0, 1]);
+		assert.strictEqual(baro.columns[4][0], 35);
+
+		const gps = log.messages.get('GPS');
+		assert.ok(gps);
+		assert.ok(Math.abs((gps.columns[3][0] as number) + 35.3632621) < 1e-7);
+		assert.strictEqual(gps.format.fields[5].multiplier, 0.01);
+	});
+
+	test('should give the same messages from a text log', () => {
+		const binary = parseDataflashLog(readFixture('sample.bin'));
+		const text = parseDataflashLog(readFixture('sample.log'));
+		assert.strictEqual(text.corruptBytes, 0);
+		assert.deepStrictEqual([...text.messages.keys()].sort(), [...binary.messages.keys()].sort());
+		for (const [name, messages] of binary.messages) {
+			assert.strictEqual(text.messages.get(name)?.count, messages.count, name);
+		}
+		assert.deepStrictEqual(text.messages.get('MSG')?.columns[1], binary.messages.get('MSG')?.columns[1]);
+		assert.deepStrictEqual(dataflashSeries(text, 'GPS', 'Alt').values, dataflashSeries(binary, 'GPS', 'Alt').values);
+	});
+
+	test('should give series and table pages for one instance', () => {
+		const log = parseDataflashLog(readFixture('sample.bin'));
+
+		const alt = dataflashSeries(log, 'BARO', 'Alt', { instance: 1, range: [1, 2] });
+		assert.deepStrictEqual(alt.time, [1.001, 1.201, 1.401, 1.601, 1.801]);
+		assert.strictEqual(alt.values[0], Math.fround(1.8));
+
+		// GPS altitude is logged in centimetres
+		assert.strictEqual(dataflashSeries(log, 'GPS', 'Alt').values[0], 584);
+
+		const page = dataflashRows(log, 'BARO', 0, 2, { instance: 0, startUS: 5000000 });
+		assert.strictEqual(page.total, 50);
+		assert.strictEqual(page.offset, 24);
+		assert.deepStrictEqual(page.rows.map(row => row[0]), [5001000, 5201000]);
+
+		const reduced = downsampleSeries({ time: [0, 1, 2, 3, 4, 5], values: [0, 9, 1, 2, -3, 4] }, 4);
+		assert.deepStrictEqual(reduced, { time: [0, 1, 4, 5], values: [0, 9, -3, 4] });
+	});
+
+	test('should summarize parameters, messages, modes, events and errors', () => {
+		const summary = summarizeDataflashLog(parseDataflashLog(readFixture('sample.bin')));
+		assert.strictEqual(summary.firmware, 'ArduCopter V4.6.0-dev (abcdef12)');
+		assert.strictEqual(summary.startUS, 100000);
+		assert.strictEqual(summary.endUS, 10002000);
+		assert.deepStrictEqual(summary.parameters, [
+			{ name: 'ANGLE_MAX', value: 4500, default: 3000, changes: 0 },
+			{ name: 'PILOT_SPEED_UP', value: 300, default: 250, changes: 1 }
+		]);
+		assert.deepStrictEqual(summary.messages.map(message => message.text),
+			['ArduCopter V4.6.0-dev (abcdef12)', 'Frame: QUAD/X', 'Arming, checks, ok']);
+		assert.deepStrictEqual(summary.modes.map(mode => [mode.mode, mode.reason]), [[0, 0], [5, 1], [6, 2]]);
+		assert.deepStrictEqual(summary.events.map(event => event.name), ['Armed', 'Disarmed']);
+		assert.deepStrictEqual(summary.errors.map(error => error.description),
+			['Radio failsafe: triggered', 'Radio failsafe: resolved']);
+	});
+});
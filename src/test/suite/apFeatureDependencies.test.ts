@@ -0,0 +1,78 @@
+/*
+ * Test suite for apFeatureDependencies module
+ *
+ * Tests the checks against build_options.py dependencies:
+ * - Reading the dependency labels of a feature
+ * - Enabled features whose dependencies are disabled or off by default
+ * - Flash cost per feature estimated from recorded builds
+ */
+
+import * as assert from 'assert';
+import type { BuildRecord } from '../../apBuildHistory';
+import { FeatureOption } from '../../apFeaturePresets';
+import {
+	describeFeatureConflict,
+	estimateFeatureFlashImpact,
+	featureDependencies,
+	findFeatureConflicts
+} from '../../apFeatureDependencies';
+
+const OPTIONS: FeatureOption[] = [
+	{ label: 'Camera', define: 'AP_CAMERA_ENABLED', default: 1, dependency: null },
+	{ label: 'Mount', define: 'HAL_MOUNT_ENABLED', default: 1 },
+	{ label: 'Camera_Servo', define: 'AP_CAMERA_SERVO_ENABLED', default: 1, dependency: 'Camera' },
+	{ label: 'Mount_Siyi', define: 'HAL_MOUNT_SIYI_ENABLED', default: 1, dependency: 'Mount, Camera' },
+	{ label: 'OSD', define: 'OSD_ENABLED', default: 0 },
+	{ label: 'OSD Param', define: 'OSD_PARAM_ENABLED', default: 0, dependency: 'OSD' }
+];
+
+function build(flash: number, features: string[], commit = 'abc1234'): BuildRecord {
+	return {
+		configName: 'CubeOrange-copter',
+		board: 'CubeOrange',
+		target: 'copter',
+		timestamp: 0,
+		durationMs: 0,
+		commit,
+		flash,
+		ram: 0,
+		sections: {},
+		features
+	};
+}
+
+suite('apFeatureDependencies Test Suite', () => {
+	test('should read dependency labels as flag names', () => {
+		assert.deepStrictEqual(featureDependencies(OPTIONS[3]), ['Mount', 'Camera']);
+		assert.deepStrictEqual(featureDependencies(OPTIONS[0]), []);
+		assert.deepStrictEqual(featureDependencies({ label: 'X', define: 'X', dependency: 'OSD Param' }), ['OSD-Param']);
+	});
+
+	test('should find enabled features whose dependencies are off', () => {
+		const conflicts = findFeatureConflicts('--debug --enable-Mount_Siyi --disable-Camera --enable-OSD-Param --enable-Camera_Servo', OPTIONS);
+
+		assert.deepStrictEqual(conflicts.map(describeFeatureConflict), [
+			'Mount_Siyi needs Camera, which is disabled',
+			'OSD-Param needs OSD, which is off by default',
+			'Camera_Servo needs Camera, which is disabled'
+		]);
+		assert.deepStrictEqual(findFeatureConflicts('--enable-OSD --enable-OSD-Param --disable-Camera --disable-Camera_Servo', OPTIONS), []);
+	});
+
+	test('should estimate flash per feature from builds differing in one feature', () => {
+		const records = [
+			build(1000000, ['AP_CAMERA_ENABLED', 'HAL_MOUNT_ENABLED', 'OSD_ENABLED']),
+			build(990000, ['AP_CAMERA_ENABLED', 'HAL_MOUNT_ENABLED', '!OSD_ENABLED']),
+			build(992000, ['AP_CAMERA_ENABLED', 'HAL_MOUNT_ENABLED', '!OSD_ENABLED'], 'def5678'),
+			build(1002000, ['AP_CAMERA_ENABLED', 'HAL_MOUNT_ENABLED', 'OSD_ENABLED'], 'def5678'),
+			// two features changed at once, not attributable
+			build(900000, ['!AP_CAMERA_ENABLED', '!HAL_MOUNT_ENABLED', 'OSD_ENABLED']),
+			// another board
+			{ ...build(10, ['AP_CAMERA_ENABLED', 'HAL_MOUNT_ENABLED', 'OSD_ENABLED']), board: 'MatekH743' }
+		];
+
+		const impact = estimateFeatureFlashImpact(records, 'CubeOrange', 'copter', OPTIONS);
+
+		assert.deepStrictEqual([...impact.entries()], [['OSD', { bytes: 10000, builds: 2 }]]);
+	});
+});
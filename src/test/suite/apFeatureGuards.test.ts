@@ -0,0 +1,155 @@
+/*
+ * Test suite for apFeatureGuards module
+ *
+ * Tests evaluating preprocessor guards for a board:
+ * - Reading definitions and the #if conditions around them from headers
+ * - Resolving macros from build options, hwdef.h, compiler flags and defaults
+ * - Evaluating #if expressions with defined() and function-like macros
+ * - Finding the branches taken and the code left out in a file
+ */
+
+import * as assert from 'assert';
+import {
+	MacroTable,
+	buildOptionDefinitions,
+	defineFlagDefinitions,
+	evaluateGuards,
+	expressionMacros,
+	guardOptions,
+	headerDefinitions,
+	scanDirectives
+} from '../../apFeatureGuards';
+import type { FeatureOption } from '../../apFeaturePresets';
+
+const OPTIONS: FeatureOption[] = [
+	{ label: 'Camera', define: 'AP_CAMERA_ENABLED', category: 'Camera', default: 1 },
+	{ label: 'Mount', define: 'HAL_MOUNT_ENABLED', category: 'Camera', default: 1 }
+];
+
+const CAMERA_CONFIG = [
+	'#pragma once',
+	'',
+	'#include <AP_HAL/AP_HAL_Boards.h>',
+	'',
+	'#ifndef AP_CAMERA_ENABLED',
+	'#define AP_CAMERA_ENABLED HAL_PROGRAM_SIZE_LIMIT_KB > 1024 // big boards',
+	'#endif',
+	'',
+	'#ifndef AP_CAMERA_MOUNT_ENABLED',
+	'#define AP_CAMERA_MOUNT_ENABLED (AP_CAMERA_ENABLED && \\',
+	'    HAL_MOUNT_ENABLED)',
+	'#endif',
+	'/* #if 0 in a comment is no directive */'
+].join('\n');
+
+const BOARDS = [
+	'#ifndef __AP_HAL_BOARDS_H__',
+	'#define __AP_HAL_BOARDS_H__',
+	'#define HAL_BOARD_SITL 3',
+	'#define HAL_BOARD_CHIBIOS 10',
+	'#if CONFIG_HAL_BOARD == HAL_BOARD_CHIBIOS',
+	'#define HAL_PROGRAM_SIZE_LIMIT_KB 2048',
+	'#else',
+	'#define HAL_PROGRAM_SIZE_LIMIT_KB 4096',
+	'#endif',
+	'#define APM_BUILD_TYPE(type) ((type) == APM_BUILD_DIRECTORY)',
+	'#endif'
+].join('\n');
+
+function table(hwdef: string, configureOptions = ''): MacroTable {
+	return new MacroTable([
+		...buildOptionDefinitions(configureOptions, OPTIONS),
+		...headerDefinitions(hwdef, '/build/CubeOrange/hwdef.h', 'hwdef'),
+		...defineFlagDefinitions(['CONFIG_HAL_BOARD=HAL_BOARD_CHIBIOS', 'APM_BUILD_DIRECTORY=APM_BUILD_ArduCopter', 'APM_BUILD_ArduCopter=2', 'NDEBUG']),
+		...headerDefinitions(CAMERA_CONFIG, '/libraries/AP_Camera/AP_Camera_config.h', 'default'),
+		...headerDefinitions(BOARDS, '/libraries/AP_HAL/AP_HAL_Boards.h', 'default')
+	]);
+}
+
+suite('apFeatureGuards Test Suite', () => {
+	test('should read definitions and their conditions from headers', () => {
+		const directives = scanDirectives(CAMERA_CONFIG);
+		assert.deepStrictEqual(directives.map(directive => directive.kind), ['ifndef', 'define', 'endif', 'ifndef', 'define', 'endif']);
+		assert.deepStrictEqual(directives[4], {
+			kind: 'define', line: 9, endLine: 10, text: 'AP_CAMERA_MOUNT_ENABLED', params: undefined, value: '(AP_CAMERA_ENABLED &&      HAL_MOUNT_ENABLED)'
+		});
+
+		const definitions = headerDefinitions(BOARDS, 'AP_HAL_Boards.h', 'default');
+		const sizes = definitions.filter(definition => definition.name === 'HAL_PROGRAM_SIZE_LIMIT_KB');
+		assert.deepStrictEqual(sizes.map(definition => definition.conditions), [
+			['(CONFIG_HAL_BOARD == HAL_BOARD_CHIBIOS)'],
+			['!(CONFIG_HAL_BOARD == HAL_BOARD_CHIBIOS) && (1)']
+		], 'the include guard is not a condition');
+		assert.deepStrictEqual(definitions.find(definition => definition.name === 'APM_BUILD_TYPE')?.params, ['type']);
+		assert.deepStrictEqual(headerDefinitions(CAMERA_CONFIG, 'x', 'default')[0].conditions, [], 'nor is the default pattern');
+	});
+
+	test('should resolve macros by where they are defined', () => {
+		const defaults = table('');
+		assert.strictEqual(defaults.evaluate('AP_CAMERA_ENABLED'), 1);
+		assert.strictEqual(defaults.resolve('AP_CAMERA_ENABLED')?.source, 'default');
+		assert.strictEqual(defaults.resolve('HAL_PROGRAM_SIZE_LIMIT_KB')?.value, '2048', 'the definition whose conditions hold');
+		assert.strictEqual(defaults.evaluate('AP_CAMERA_MOUNT_ENABLED'), 0, 'HAL_MOUNT_ENABLED is not defined');
+
+		const hwdef = table('#define HAL_PROGRAM_SIZE_LIMIT_KB 1024\n#define HAL_MOUNT_ENABLED 1');
+		assert.strictEqual(hwdef.evaluate('AP_CAMERA_ENABLED'), 0);
+		assert.strictEqual(hwdef.resolve('HAL_PROGRAM_SIZE_LIMIT_KB')?.source, 'hwdef');
+
+		const options = table('#define AP_CAMERA_ENABLED 0\n#define HAL_MOUNT_ENABLED 1', '--enable-Camera --disable-Unknown');
+		const camera = options.resolve('AP_CAMERA_ENABLED');
+		assert.deepStrictEqual([camera?.source, camera?.detail], ['build option', '--enable-Camera']);
+		assert.strictEqual(options.evaluate('AP_CAMERA_MOUNT_ENABLED'), 1);
+		assert.strictEqual(options.resolve('NDEBUG')?.source, 'build');
+	});
+
+	test('should evaluate #if expressions', () => {
+		const macros = table('#define HAL_WITH_DSP 1');
+		assert.strictEqual(macros.evaluate('APM_BUILD_TYPE(APM_BUILD_ArduCopter) && !APM_BUILD_TYPE(APM_BUILD_ArduPlane)'), 1);
+		assert.strictEqual(macros.evaluate('defined(HAL_WITH_DSP) && defined HAL_BOARD_SITL && !defined(HAL_NOT_THERE)'), 1);
+		assert.strictEqual(macros.evaluate('CONFIG_HAL_BOARD == HAL_BOARD_SITL ? 1 : 0x10 << 2'), 64);
+		assert.strictEqual(macros.evaluate('(2 + 3) * 4 - 10 / 3 % 2 >= 19 || 0'), 1);
+		assert.strictEqual(macros.evaluate('UNDEFINED_THING || true'), 1);
+		assert.throws(() => macros.evaluate('1 / 0'), /division by zero/);
+		assert.throws(() => macros.evaluate('HAL_BOARD_SITL +'), /end of expression/);
+		assert.deepStrictEqual(expressionMacros('AP_CAMERA_ENABLED && defined(HAL_MOUNT_ENABLED)'), ['AP_CAMERA_ENABLED', 'HAL_MOUNT_ENABLED']);
+		assert.deepStrictEqual(guardOptions('HAL_MOUNT_ENABLED || AP_CAMERA_ENABLED', OPTIONS).map(option => option.label), ['Camera', 'Mount']);
+	});
+
+	test('should find the branches taken in a file', () => {
+		const file = '/libraries/AP_Camera/AP_Camera_config.h';
+		const source = [
+			CAMERA_CONFIG,                                  // 0-12
+			'#if AP_CAMERA_MOUNT_ENABLED',                  // 13
+			'void mount();',
+			'#elif AP_CAMERA_ENABLED',                      // 15
+			'void camera();',
+			'#if BAD +',                                    // 17
+			'void bad();',
+			'#else',                                        // 19
+			'void notBad();',
+			'#endif',                                       // 21
+			'#else',                                        // 22
+			'void neither();',
+			'#endif',                                       // 24
+			'#undef AP_CAMERA_ENABLED',
+			'#ifdef AP_CAMERA_ENABLED',                     // 26
+			'void undefined();',
+			'#endif'
+		].join('\n');
+		const evaluation = evaluateGuards(source, table('').forFile(file), file);
+		const taken = evaluation.conditionals.map(result => [result.directive.line, result.taken, result.active]);
+		assert.deepStrictEqual(taken, [
+			[4, true, true],
+			[8, true, true],
+			[13, false, true],
+			[15, true, true],
+			[17, undefined, true],
+			[19, undefined, true],
+			[22, false, true],
+			[26, false, true]
+		]);
+		assert.ok(evaluation.conditionals[4].error);
+		assert.deepStrictEqual(evaluation.inactive, [[14, 14], [23, 23], [27, 27]]);
+		assert.strictEqual(evaluation.conditionals[2].locals.get('AP_CAMERA_ENABLED')?.line, 5, 'the file defines the macro itself');
+	});
+});
@@ -0,0 +1,98 @@
+/*
+ * Test suite for apFeaturePresets module
+ *
+ * Tests the build option feature presets:
+ * - Applying a preset to a configuration's configure options
+ * - Comparing the features of two configurations
+ * - Presets from the output of extract_features.py
+ * - Reading, validating and saving .vscode/feature-presets.json
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	FEATURE_PRESETS_FILE,
+	FeatureOption,
+	applyFeaturePreset,
+	describeFeatureSet,
+	diffFeatureSets,
+	parseFeaturePresets,
+	presetFromConfigureOptions,
+	presetFromExtractedFeatures,
+	readFeaturePresets,
+	saveFeaturePreset
+} from '../../apFeaturePresets';
+
+const OPTIONS: FeatureOption[] = [
+	{ label: 'Scripting', define: 'AP_SCRIPTING_ENABLED', category: 'Scripting' },
+	{ label: 'MSP', define: 'HAL_MSP_ENABLED', category: 'Telemetry' },
+	{ label: 'Camera Mount', define: 'HAL_MOUNT_ENABLED', category: 'Camera' }
+];
+
+suite('apFeaturePresets Test Suite', () => {
+	test('should replace feature flags and keep other configure options', () => {
+		const preset = presetFromConfigureOptions('no scripting', '--disable-Scripting --enable-MSP');
+
+		assert.deepStrictEqual(preset, { name: 'no scripting', enable: ['MSP'], disable: ['Scripting'] });
+		assert.strictEqual(
+			applyFeaturePreset('--debug --enable-Scripting --disable-Camera-Mount --bootloader', preset),
+			'--enable-MSP --disable-Scripting --debug --bootloader'
+		);
+	});
+
+	test('should list the features two configurations set differently', () => {
+		const left = '--enable-MSP --disable-Scripting --enable-Camera-Mount';
+		const right = '--debug --enable-MSP --enable-Scripting --disable-OSD';
+
+		assert.deepStrictEqual(diffFeatureSets(left, right), [
+			{ feature: 'Camera-Mount', left: 'enabled', right: undefined },
+			{ feature: 'OSD', left: undefined, right: 'disabled' },
+			{ feature: 'Scripting', left: 'disabled', right: 'enabled' }
+		]);
+		assert.deepStrictEqual(diffFeatureSets(left, `${left} --debug`), []);
+		assert.strictEqual(describeFeatureSet(right), 'MSP: enabled\nOSD: disabled\nScripting: enabled\n');
+	});
+
+	test('should build a preset from extracted features', () => {
+		const { preset, unknown } = presetFromExtractedFeatures(
+			'customer', ['AP_SCRIPTING_ENABLED', '!HAL_MSP_ENABLED', '', '!AP_UNHEARD_OF_ENABLED', 'HAL_MOUNT_ENABLED\r'], OPTIONS, 'Features of arducopter'
+		);
+
+		assert.deepStrictEqual(preset, {
+			name: 'customer',
+			description: 'Features of arducopter',
+			enable: ['Camera-Mount', 'Scripting'],
+			disable: ['MSP']
+		});
+		assert.deepStrictEqual(unknown, ['AP_UNHEARD_OF_ENABLED']);
+	});
+
+	test('should reject malformed preset files', () => {
+		assert.throws(() => parseFeaturePresets('{'), /not valid JSON/);
+		assert.throws(() => parseFeaturePresets('{"presets": {}}'), /"presets" array/);
+		assert.throws(() => parseFeaturePresets('{"presets": [{"enable": []}]}'), /preset 1 has no name/);
+		assert.throws(() => parseFeaturePresets('{"presets": [{"name": "x", "disable": "MSP"}]}'), /lists of feature names/);
+		assert.deepStrictEqual(parseFeaturePresets('{"presets": [{"name": "empty"}]}'), [{ name: 'empty', enable: [], disable: [] }]);
+	});
+
+	test('should save presets in the workspace, replacing one of the same name', () => {
+		const workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'feature-presets-'));
+		try {
+			assert.deepStrictEqual(readFeaturePresets(workspaceRoot), []);
+
+			saveFeaturePreset(workspaceRoot, { name: 'minimal', enable: [], disable: ['Scripting'] });
+			saveFeaturePreset(workspaceRoot, { name: 'alpha', enable: ['MSP'], disable: [] });
+			saveFeaturePreset(workspaceRoot, { name: 'minimal', enable: [], disable: ['Scripting', 'MSP'] });
+
+			assert.ok(fs.existsSync(path.join(workspaceRoot, FEATURE_PRESETS_FILE)));
+			assert.deepStrictEqual(readFeaturePresets(workspaceRoot), [
+				{ name: 'alpha', enable: ['MSP'], disable: [] },
+				{ name: 'minimal', enable: [], disable: ['Scripting', 'MSP'] }
+			]);
+		} finally {
+			fs.rmSync(workspaceRoot, { recursive: true, force: true });
+		}
+	});
+});
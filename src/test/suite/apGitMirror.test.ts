@@ -0,0 +1,92 @@
+/*
+ * Test suite for apGitMirror module
+ *
+ * Tests cloning from mirrors:
+ * - git clone arguments for branches, tags, depth and reference repositories
+ * - Matching submodule URLs to a mirror directory
+ * - Cloning a local bare repository with its submodules from a local mirror
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { simpleGit } from 'simple-git';
+import {
+	cloneArguments,
+	cloneRepository,
+	cloneSource,
+	initSubmodules,
+	mirrorEntryFor,
+	parseConfigEntries
+} from '../../apGitMirror';
+
+const IDENTITY = ['user.name=ArduPilot', 'user.email=test@ardupilot.org', 'protocol.file.allow=always'];
+const UNSAFE = { allowUnsafeProtocolOverride: true };
+
+// a repository with one committed file
+async function makeRepository(dir: string, file: string): Promise<void> {
+	fs.mkdirSync(dir, { recursive: true });
+	const git = simpleGit({ baseDir: dir, config: IDENTITY, unsafe: UNSAFE });
+	await git.init();
+	fs.writeFileSync(path.join(dir, file), file);
+	await git.add(file);
+	await git.commit(`add ${file}`);
+}
+
+suite('apGitMirror Test Suite', () => {
+	let root: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'ap-git-mirror-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('should build git clone arguments from the options', () => {
+		assert.deepStrictEqual(cloneArguments({ url: 'https://github.com/ArduPilot/ardupilot.git' }), ['--progress']);
+		assert.deepStrictEqual(cloneArguments({ url: '/srv/ardupilot.git', ref: 'Copter-4.6', depth: 1, reference: '/srv/ardupilot' }),
+			['--progress', '--branch', 'Copter-4.6', '--depth', '1', '--reference', '/srv/ardupilot']);
+		assert.strictEqual(cloneSource({ url: 'git@github.com:ArduPilot/ardupilot.git', depth: 1 }), 'git@github.com:ArduPilot/ardupilot.git');
+		assert.strictEqual(cloneSource({ url: path.join(root, 'ardupilot.git') }), path.join(root, 'ardupilot.git'));
+		assert.ok(cloneSource({ url: path.join(root, 'ardupilot.git'), depth: 1 }).startsWith('file://'));
+	});
+
+	test('should match submodule URLs to mirror entries by name', () => {
+		const entries = ['ChibiOS.git', 'mavlink', 'README'];
+		assert.strictEqual(mirrorEntryFor('https://github.com/ArduPilot/ChibiOS.git', entries), 'ChibiOS.git');
+		assert.strictEqual(mirrorEntryFor('git@github.com:ArduPilot/mavlink.git', entries), 'mavlink');
+		assert.strictEqual(mirrorEntryFor('https://github.com/ArduPilot/chibios/', entries), 'ChibiOS.git');
+		assert.strictEqual(mirrorEntryFor('https://github.com/ArduPilot/googletest', entries), undefined);
+		assert.deepStrictEqual(parseConfigEntries('submodule.modules/ChibiOS.url https://github.com/ArduPilot/ChibiOS.git\n\n'),
+			[['submodule.modules/ChibiOS.url', 'https://github.com/ArduPilot/ChibiOS.git']]);
+	});
+
+	test('should clone a local bare repository with submodules from a mirror', async function () {
+		this.timeout(60000);
+		// a submodule whose upstream cannot be reached, only its mirror
+		const submodule = path.join(root, 'work', 'lwip');
+		await makeRepository(submodule, 'lwip.c');
+		const mirror = path.join(root, 'mirror');
+		await simpleGit({ baseDir: root }).clone(submodule, path.join(mirror, 'lwip.git'), ['--mirror']);
+
+		const main = path.join(root, 'work', 'ardupilot');
+		await makeRepository(main, 'waf');
+		const mainGit = simpleGit({ baseDir: main, config: IDENTITY, unsafe: UNSAFE });
+		await mainGit.subModule(['add', submodule, 'modules/lwip']);
+		await mainGit.raw(['config', '-f', '.gitmodules', 'submodule.modules/lwip.url', 'https://unreachable.invalid/ArduPilot/lwip.git']);
+		await mainGit.add('.gitmodules');
+		await mainGit.commit('add lwip');
+		await mainGit.branch(['Copter-4.6']);
+		await simpleGit({ baseDir: root }).clone(main, path.join(root, 'ardupilot.git'), ['--bare']);
+
+		const checkout = await cloneRepository(root, 'clone', { url: path.join(root, 'ardupilot.git'), ref: 'Copter-4.6', depth: 1 });
+		await initSubmodules(checkout, { submoduleMirror: mirror });
+
+		assert.strictEqual(checkout, path.join(root, 'clone'));
+		assert.strictEqual((await simpleGit({ baseDir: checkout }).revparse(['--abbrev-ref', 'HEAD'])).trim(), 'Copter-4.6');
+		assert.ok(fs.existsSync(path.join(checkout, 'modules', 'lwip', 'lwip.c')), 'submodule should be checked out from the mirror');
+	});
+});
@@ -0,0 +1,92 @@
+/*
+ * Test suite for apGtest module
+ *
+ * Tests the GoogleTest integration used by the Test Explorer:
+ * - Finding TEST() and TEST_F() cases, skipping commented out ones
+ * - Program paths, waf targets and --gtest_filter for the selected cases
+ * - Results, durations and failure locations from the XML report
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+	gtestBuildTarget,
+	gtestFilter,
+	gtestProgramPath,
+	parseGtestSource,
+	parseGtestXml
+} from '../../apGtest';
+
+const SOURCE = `#include <AP_gtest.h>
+#include <AP_Math/AP_Math.h>
+
+TEST(MathTest, IsZero)
+{
+    EXPECT_TRUE(is_zero(0.0f));
+}
+
+// TEST(MathTest, Commented)
+/*
+TEST(MathTest, BlockCommented)
+*/
+TEST_F(VectorTest,
+       Length)
+{
+}
+
+AP_GTEST_MAIN()
+`;
+
+const REPORT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="4" failures="1" disabled="1" errors="0" time="0.012" name="AllTests">
+  <testsuite name="MathTest" tests="3" failures="1" disabled="1" errors="0" time="0.01">
+    <testcase name="IsZero" status="run" time="0.002" classname="MathTest" />
+    <testcase name="Constrain" status="run" time="0.01" classname="MathTest">
+      <failure message="libraries/AP_Math/tests/test_math.cpp:42&#x0A;Expected equality of these values:&#x0A;  &quot;a&quot; &amp; 1" type=""><![CDATA[libraries/AP_Math/tests/test_math.cpp:42
+Expected equality of these values:
+  "a" & 1]]></failure>
+    </testcase>
+    <testcase name="DISABLED_Slow" status="notrun" time="0" classname="MathTest" />
+  </testsuite>
+  <testsuite name="VectorTest" tests="1" failures="0" disabled="0" errors="0" time="0">
+    <testcase name="Length" status="run" result="skipped" time="0" classname="VectorTest">
+      <skipped message="needs doubles" />
+    </testcase>
+  </testsuite>
+</testsuites>
+`;
+
+suite('apGtest Test Suite', () => {
+	test('should find TEST and TEST_F cases outside comments', () => {
+		assert.deepStrictEqual(parseGtestSource(SOURCE), [
+			{ suite: 'MathTest', name: 'IsZero', line: 3, fixture: false },
+			{ suite: 'VectorTest', name: 'Length', line: 12, fixture: true }
+		]);
+	});
+
+	test('should build and run only the selected programs and cases', () => {
+		const sources = ['libraries/AP_Math/tests/test_math.cpp', 'libraries/AP_Math/tests/test_vector2.cpp'];
+
+		assert.strictEqual(gtestProgramPath('/ardupilot', 'sitl', sources[0]), path.join('/ardupilot', 'build', 'sitl', 'tests', 'test_math'));
+		assert.strictEqual(gtestBuildTarget(sources), '--targets=tests/test_math,tests/test_vector2');
+		assert.strictEqual(gtestFilter(['MathTest.IsZero', 'VectorTest.Length']), '--gtest_filter=MathTest.IsZero:VectorTest.Length');
+	});
+
+	test('should read results and failure locations from the XML report', () => {
+		assert.deepStrictEqual(parseGtestXml(REPORT), [
+			{ suite: 'MathTest', name: 'IsZero', status: 'passed', durationMs: 2, failures: [] },
+			{
+				suite: 'MathTest',
+				name: 'Constrain',
+				status: 'failed',
+				durationMs: 10,
+				failures: [{
+					message: 'Expected equality of these values:\n  "a" & 1',
+					file: 'libraries/AP_Math/tests/test_math.cpp',
+					line: 41
+				}]
+			},
+			{ suite: 'VectorTest', name: 'Length', status: 'skipped', durationMs: 0, failures: [] }
+		]);
+	});
+});
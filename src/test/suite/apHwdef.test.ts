@@ -0,0 +1,242 @@
+/*
+ * Test suite for apHwdef module
+ *
+ * Tests the hwdef.dat parser:
+ * - Pins, defines, env, config keys and devices
+ * - Following includes relative to the including file
+ * - undef of pins, defines and devices
+ * - Diagnostics for duplicate pins, alternate functions and unknown directives
+ * - Board pinout with serial order, SPI devices and DMA streams
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+	Hwdef,
+	HwdefDiagnostic,
+	buildPinout,
+	needsAltFunction,
+	parseAltFunctionMap,
+	parseDmaAssignments,
+	parseHwdef,
+	parsePinCount,
+	tokenizeHwdefLine
+} from '../../apHwdef';
+
+const HWDEF_DIR = '/ardupilot/libraries/AP_HAL_ChibiOS/hwdef';
+const CUBE_ORANGE = path.join(HWDEF_DIR, 'CubeOrange', 'hwdef.dat');
+const CUBE_ORANGE_INC = path.join(HWDEF_DIR, 'CubeOrange', 'hwdef.inc');
+
+const MCU_SCRIPT = `
+# MCU parameters
+pincount = {
+	'A': 16,
+	'B': 4,
+	'K': 0
+}
+
+AltFunction_map = {
+	# format is PIN:FUNCTION : AFNUM
+	"PA9:USART1_TX"     	:	7,
+	"PA10:USART1_RX"    	:	7,
+	"PA5:SPI1_SCK"      	:	5,
+	"PB3:SPI1_SCK"      	:	5,
+}
+`;
+
+function parse(files: Record<string, string>, root = CUBE_ORANGE): Hwdef {
+	return parseHwdef(root, {
+		readFile: (file: string) => files[file],
+		altFunctions: (mcu: string) => mcu === 'STM32H743xx' ? parseAltFunctionMap(MCU_SCRIPT) : undefined
+	});
+}
+
+function messages(diagnostics: HwdefDiagnostic[]): string[] {
+	return diagnostics.map(d => d.message);
+}
+
+suite('apHwdef Test Suite', () => {
+	suite('Parsing', () => {
+		test('should tokenize lines with their columns and drop comments', () => {
+			assert.deepStrictEqual(tokenizeHwdefLine('PA9  USART1_TX USART1 # console'), [
+				{ text: 'PA9', start: 0 },
+				{ text: 'USART1_TX', start: 5 },
+				{ text: 'USART1', start: 15 }
+			]);
+			assert.deepStrictEqual(tokenizeHwdefLine('# only a comment'), []);
+		});
+
+		test('should read pins, defines, env, config and devices', () => {
+			const hwdef = parse({
+				[CUBE_ORANGE]: [
+					'MCU STM32H7xx STM32H743xx',
+					'FLASH_SIZE_KB 2048',
+					'PA9 USART1_TX USART1',
+					'PC2 MPU9250_CS CS',
+					'PB0 EXTERN_GPIO1 OUTPUT GPIO(1) ALT(1)',
+					'SPIDEV mpu9250 SPI1 DEVID4 MPU9250_CS MODE3 1*MHZ 4*MHZ',
+					'IMU Invensense SPI:mpu9250 ROTATION_YAW_270',
+					'define HAL_STORAGE_SIZE 16384',
+					'env OPTIMIZE -Os'
+				].join('\n')
+			});
+			assert.deepStrictEqual(hwdef.diagnostics, []);
+			assert.deepStrictEqual(hwdef.config.get('MCU')?.args, ['STM32H7xx', 'STM32H743xx']);
+			assert.strictEqual(hwdef.pins.length, 3);
+			assert.deepStrictEqual(hwdef.pins[2], {
+				port: 'PB0',
+				label: 'EXTERN_GPIO1',
+				type: 'OUTPUT',
+				modifiers: ['GPIO(1)', 'ALT(1)'],
+				alt: 1,
+				location: { file: CUBE_ORANGE, line: 4 }
+			});
+			assert.deepStrictEqual(hwdef.devices.map(d => d.keyword), ['SPIDEV', 'IMU']);
+			assert.deepStrictEqual(hwdef.defines.get('HAL_STORAGE_SIZE')?.args, ['HAL_STORAGE_SIZE', '16384']);
+			assert.deepStrictEqual(hwdef.env.get('OPTIMIZE')?.args, ['OPTIMIZE', '-Os']);
+		});
+
+		test('should follow includes relative to the including file and apply undef', () => {
+			const hwdef = parse({
+				[CUBE_ORANGE]: [
+					'include ../CubeOrange/hwdef.inc',
+					'undef PA9 HAL_STORAGE_SIZE IMU',
+					'PA9 GPIO_SPARE INPUT',
+					'IMU Invensensev3 SPI:icm42688 ROTATION_NONE',
+					'FLASH_SIZE_KB 1024'
+				].join('\n'),
+				[CUBE_ORANGE_INC]: [
+					'MCU STM32H7xx STM32H743xx',
+					'FLASH_SIZE_KB 2048',
+					'PA9 USART1_TX USART1',
+					'IMU Invensense SPI:mpu9250 ROTATION_YAW_270',
+					'IMU Invensense SPI:mpu6000 ROTATION_NONE',
+					'define HAL_STORAGE_SIZE 16384'
+				].join('\n')
+			});
+			assert.deepStrictEqual(hwdef.files, [CUBE_ORANGE, CUBE_ORANGE_INC]);
+			assert.strictEqual(hwdef.includes[0].resolved, CUBE_ORANGE_INC);
+			assert.deepStrictEqual(hwdef.diagnostics, []);
+			assert.strictEqual(hwdef.config.get('MCU')?.location.file, CUBE_ORANGE_INC);
+			// later lines override the included value
+			assert.deepStrictEqual(hwdef.config.get('FLASH_SIZE_KB')?.args, ['1024']);
+			assert.deepStrictEqual(hwdef.pins.map(p => p.label), ['GPIO_SPARE']);
+			assert.strictEqual(hwdef.defines.has('HAL_STORAGE_SIZE'), false);
+			assert.deepStrictEqual(hwdef.devices.map(d => d.args[1]), ['SPI:icm42688']);
+		});
+	});
+
+	suite('Diagnostics', () => {
+		test('should report duplicate pins and labels', () => {
+			const hwdef = parse({
+				[CUBE_ORANGE]: [
+					'PA9 USART1_TX USART1',
+					'PA9 GPIO_SPARE INPUT',
+					'PA10 GPIO_SPARE INPUT',
+					'PA9 USART1_TX USART1 ALT(1)'
+				].join('\n')
+			});
+			assert.deepStrictEqual(messages(hwdef.diagnostics), [
+				'PA9 is already assigned to USART1_TX at line 1, undef PA9 before reassigning it',
+				'GPIO_SPARE is also assigned to PA9 at line 2'
+			]);
+			assert.deepStrictEqual(hwdef.diagnostics[0].location, { file: CUBE_ORANGE, line: 1 });
+			assert.deepStrictEqual([hwdef.diagnostics[0].start, hwdef.diagnostics[0].end], [0, 3]);
+		});
+
+		test('should check alternate functions against the MCU table', () => {
+			const hwdef = parse({
+				[CUBE_ORANGE]: [
+					'MCU STM32H7xx STM32H743xx',
+					'PA9 USART1_TX USART1',
+					'PA10 USART1_TX USART1',
+					'PA11 USART1_RTS OUTPUT',
+					'PB3 SPI1_SCK SPI1',
+					'PA5 SPI1_MISO SPI1'
+				].join('\n')
+			});
+			assert.deepStrictEqual(messages(hwdef.diagnostics), [
+				'USART1_TX is also assigned to PA9 at line 2',
+				'PA10 has no alternate function USART1_TX on STM32H743xx',
+				'PA5 has no alternate function SPI1_MISO on STM32H743xx'
+			]);
+			assert.strictEqual(hwdef.diagnostics[0].severity, 'error');
+			assert.strictEqual(needsAltFunction('UART8_RTS'), false);
+			assert.strictEqual(needsAltFunction('TIM1_CH1'), true);
+			assert.strictEqual(needsAltFunction('VDD_5V_SENS'), false);
+		});
+
+		test('should report unknown directives, missing includes and bad values', () => {
+			const hwdef = parse({
+				[CUBE_ORANGE]: [
+					'FLASH_SIZE_KB 2M',
+					'FLASH_SIZ_KB 2048',
+					'include ../missing/hwdef.inc',
+					'PZ3 LED OUTPUT',
+					'SPIDEV ms5611 SPI1 DEVID3 MS5611_CS MODE3 20*MHZ 20*MHZ'
+				].join('\n')
+			});
+			assert.deepStrictEqual(hwdef.diagnostics.map(d => [d.severity, d.location.line, d.message]), [
+				['warning', 1, 'Unknown directive FLASH_SIZ_KB'],
+				['error', 2, `Included file not found: ${path.join(HWDEF_DIR, 'missing', 'hwdef.inc')}`],
+				['error', 3, 'PZ3 is not a valid pin, expected PA0 to PK15'],
+				['error', 0, 'FLASH_SIZE_KB expects a number'],
+				['warning', 4, 'SPI device ms5611 uses chip select MS5611_CS, which is not a CS pin']
+			]);
+		});
+	});
+
+	suite('Pinout', () => {
+		test('should list every MCU pin with its assignment', () => {
+			const pinCount = parsePinCount(MCU_SCRIPT);
+			assert.deepStrictEqual([...pinCount.entries()], [['A', 16], ['B', 4], ['K', 0]]);
+
+			const hwdef = parse({
+				[CUBE_ORANGE]: [
+					'MCU STM32H7xx STM32H743xx',
+					'SERIAL_ORDER OTG1 USART1 EMPTY',
+					'PA9 USART1_TX USART1 NODMA',
+					'PA10 USART1_RX USART1',
+					'PA11 OTG_FS_DM OTG1',
+					'PB1 EXTERN_GPIO1 OUTPUT GPIO(51)',
+					'PB1 SPI1_CS CS ALT(1)',
+					'SPIDEV ms5611 SPI1 DEVID3 SPI1_CS MODE3 20*MHZ 20*MHZ'
+				].join('\n')
+			});
+			const pinout = buildPinout(hwdef, pinCount);
+			assert.strictEqual(pinout.mcu, 'STM32H743xx');
+			assert.strictEqual(pinout.pins.length, 21);
+			assert.deepStrictEqual(pinout.pins.slice(9, 12).map(p => [p.port, p.label, p.af]), [
+				['PA9', 'USART1_TX', 7], ['PA10', 'USART1_RX', 7], ['PA11', 'OTG_FS_DM', undefined]
+			]);
+			assert.deepStrictEqual(pinout.pins[0], { port: 'PA0', modifiers: [] });
+			const gpio = pinout.pins.filter(p => p.port === 'PB1');
+			assert.deepStrictEqual(gpio.map(p => [p.label, p.alt, p.gpio, p.modifiers]), [
+				['EXTERN_GPIO1', 0, 51, []], ['SPI1_CS', 1, undefined, []]
+			]);
+			assert.deepStrictEqual(pinout.serialOrder, [
+				{ serial: 0, uart: 'OTG1', pins: ['PA11 OTG_FS_DM'] },
+				{ serial: 1, uart: 'USART1', pins: ['PA9 USART1_TX', 'PA10 USART1_RX'] },
+				{ serial: 2, uart: 'EMPTY', pins: [] }
+			]);
+			assert.deepStrictEqual(pinout.spiDevices.map(d => [d.name, d.bus, d.cs, d.highSpeed]), [['ms5611', 'SPI1', 'SPI1_CS', '20*MHZ']]);
+			assert.strictEqual(pinout.dma, undefined);
+		});
+
+		test('should read DMA streams from the generated hwdef.h', () => {
+			const dma = parseDmaAssignments([
+				'// auto-generated DMA mapping from dma_resolver.py',
+				'#define STM32_ADC_ADC1_DMA_STREAM      STM32_DMA_STREAM_ID(2, 4)',
+				'#define STM32_ADC_ADC1_DMA_CHAN        0',
+				'#define STM32_SPI_SPI1_RX_DMA_STREAM   STM32_DMA_STREAM_ID(1, 1) // shared SPI1_RX,USART2_TX',
+				'#define STM32_UART_USART2_RX_DMA_STREAM STM32_DMA_STREAM_ID(1, 5)',
+				'#define STM32_UART_USART2_RX_DMA_CHAN  STM32_DMAMUX1_USART2_RX'
+			].join('\n'));
+			assert.deepStrictEqual(dma, [
+				{ peripheral: 'ADC1', stream: 'DMA2 Stream 4', channel: '0', shared: false },
+				{ peripheral: 'SPI1_RX', stream: 'DMA1 Stream 1', channel: undefined, shared: true },
+				{ peripheral: 'USART2_RX', stream: 'DMA1 Stream 5', channel: 'STM32_DMAMUX1_USART2_RX', shared: false }
+			]);
+		});
+	});
+});
@@ -0,0 +1,218 @@
+/*
+ * Test suite for apLogDownload module
+ *
+ * Tests downloading DataFlash logs over MAVLink against a UDP stand-in for a vehicle:
+ * - Listing the logs on the vehicle, including an empty list
+ * - Downloading a log, re-requesting the chunks lost on the link
+ * - Cancelling a download and erasing logs
+ * - Names the downloaded logs are saved under
+ */
+
+import * as assert from 'assert';
+import * as dgram from 'dgram';
+import * as vscode from 'vscode';
+import {
+	MavlinkConnection,
+	MavlinkEncoder,
+	MavlinkParser
+} from '../../apMavlink';
+import {
+	LOG_DATA_CHUNK,
+	downloadLog,
+	eraseLogs,
+	listLogs,
+	logFileName,
+	missingRanges
+} from '../../apLogDownload';
+import { waitForCondition } from './common';
+
+function getFreePort(): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const socket = dgram.createSocket('udp4');
+		socket.once('error', reject);
+		socket.bind(0, '127.0.0.1', () => {
+			const port = socket.address().port;
+			socket.close(() => resolve(port));
+		});
+	});
+}
+
+function logContent(size: number, seed: number): Buffer {
+	return Buffer.from(Array.from({ length: size }, (_value, i) => (i * 7 + seed) & 0xFF));
+}
+
+/**
+ * Plays the autopilot side of the log protocol: LOG_ENTRY replies, LOG_DATA
+ * streamed in 90 byte chunks and erasing
+ */
+class LogVehicleStandIn {
+	logs = [
+		{ id: 1, timeUtc: 1714571110, data: logContent(1000, 1) },
+		{ id: 2, timeUtc: 0, data: logContent(LOG_DATA_CHUNK * 3, 2) }
+	];
+	readonly requests: { name: string, fields: Record<string, unknown> }[] = [];
+	// chunk offsets left out of the first stream, as if lost on the link
+	dropOnce = new Set<number>();
+	// stop streaming after this many chunks
+	stallAfter = Infinity;
+	private socket = dgram.createSocket('udp4');
+	private encoder = new MavlinkEncoder(1, 1);
+	private parser = new MavlinkParser();
+	private heartbeatTimer: NodeJS.Timeout | undefined;
+
+	constructor(private gcsPort: number) {
+		this.socket.on('message', data => {
+			for (const message of this.parser.parse(data)) {
+				if (message.name !== 'HEARTBEAT') {
+					this.requests.push({ name: message.name, fields: message.fields });
+				}
+				this.handle(message.name, message.fields);
+			}
+		});
+	}
+
+	start(): void {
+		const heartbeat = () => this.send('HEARTBEAT', {
+			type: 2, autopilot: 3, base_mode: 0, custom_mode: 0, system_status: 3, mavlink_version: 3
+		});
+		heartbeat();
+		this.heartbeatTimer = setInterval(heartbeat, 200);
+	}
+
+	close(): void {
+		clearInterval(this.heartbeatTimer);
+		this.socket.close();
+	}
+
+	private send(name: string, fields: Record<string, number | string | number[]>): void {
+		this.socket.send(this.encoder.encode(name, fields), this.gcsPort, '127.0.0.1');
+	}
+
+	private handle(name: string, fields: Record<string, unknown>): void {
+		switch (name) {
+		case 'LOG_REQUEST_LIST':
+			if (this.logs.length === 0) {
+				this.send('LOG_ENTRY', { id: 0, num_logs: 0, last_log_num: 0, size: 0, time_utc: 0 });
+			}
+			this.logs.forEach(log => this.send('LOG_ENTRY', {
+				id: log.id,
+				num_logs: this.logs.length,
+				last_log_num: this.logs[this.logs.length - 1].id,
+				size: log.data.length,
+				time_utc: log.timeUtc
+			}));
+			break;
+		case 'LOG_REQUEST_DATA': {
+			const log = this.logs.find(candidate => candidate.id === fields.id);
+			if (!log) {
+				return;
+			}
+			const start = fields.ofs as number;
+			const end = Math.min(log.data.length, start + (fields.count as number));
+			let sent = 0;
+			for (let ofs = start; ofs < end && sent < this.stallAfter; ofs += LOG_DATA_CHUNK, sent++) {
+				if (this.dropOnce.delete(ofs)) {
+					continue;
+				}
+				const chunk = log.data.subarray(ofs, Math.min(ofs + LOG_DATA_CHUNK, end));
+				this.send('LOG_DATA', { id: log.id, ofs, count: chunk.length, data: [...chunk] });
+			}
+			break;
+		}
+		case 'LOG_ERASE':
+			this.logs = [];
+			break;
+		}
+	}
+}
+
+suite('apLogDownload Test Suite', () => {
+	let connection: MavlinkConnection | undefined;
+	let vehicle: LogVehicleStandIn | undefined;
+
+	async function connect(): Promise<{ connection: MavlinkConnection, vehicle: LogVehicleStandIn }> {
+		const port = await getFreePort();
+		connection = new MavlinkConnection({ type: 'udpin', host: '127.0.0.1', port });
+		await connection.open();
+		vehicle = new LogVehicleStandIn(port);
+		vehicle.start();
+		return { connection, vehicle };
+	}
+
+	teardown(() => {
+		connection?.dispose();
+		connection = undefined;
+		vehicle?.close();
+		vehicle = undefined;
+	});
+
+	test('should list the logs on the vehicle', async () => {
+		const { connection } = await connect();
+
+		const logs = await listLogs(connection);
+
+		assert.deepStrictEqual(logs, [
+			{ id: 1, size: 1000, timeUtc: 1714571110 },
+			{ id: 2, size: 270, timeUtc: 0 }
+		]);
+	});
+
+	test('should download a log, requesting lost chunks again', async () => {
+		const { connection, vehicle } = await connect();
+		vehicle.dropOnce = new Set([90, 180, 540, 990]);
+		const progress: number[] = [];
+
+		const data = await downloadLog(connection, { id: 1, size: 1000, timeUtc: 0 }, {
+			idleMs: 100,
+			onProgress: received => progress.push(received)
+		});
+
+		assert.ok(data.equals(vehicle.logs[0].data));
+		assert.strictEqual(progress[progress.length - 1], 1000);
+		const dataRequests = vehicle.requests.filter(request => request.name === 'LOG_REQUEST_DATA').map(request => request.fields);
+		assert.deepStrictEqual(dataRequests.map(fields => [fields.ofs, fields.count]), [
+			[0, 0xFFFFFFFF],
+			[90, 180],
+			[540, 90],
+			[990, 10]
+		]);
+		await waitForCondition(() => vehicle.requests[vehicle.requests.length - 1].name === 'LOG_REQUEST_END', 'log transfer ended');
+	});
+
+	test('should stop a cancelled download', async () => {
+		const { connection, vehicle } = await connect();
+		vehicle.stallAfter = 2;
+		const cancellation = new vscode.CancellationTokenSource();
+
+		const download = downloadLog(connection, { id: 1, size: 1000, timeUtc: 0 }, {
+			idleMs: 5000,
+			token: cancellation.token,
+			onProgress: received => {
+				if (received === 2 * LOG_DATA_CHUNK) {
+					cancellation.cancel();
+				}
+			}
+		});
+
+		await assert.rejects(download, /Download of log 1 cancelled/);
+		await waitForCondition(() => vehicle.requests.some(request => request.name === 'LOG_REQUEST_END'), 'log transfer ended');
+	});
+
+	test('should erase the logs', async () => {
+		const { connection, vehicle } = await connect();
+
+		await eraseLogs(connection);
+		await waitForCondition(() => vehicle.logs.length === 0, 'logs erased');
+
+		assert.deepStrictEqual(await listLogs(connection), []);
+	});
+
+	test('should find missing ranges and name downloaded logs', () => {
+		assert.deepStrictEqual(missingRanges(Uint8Array.from([1, 0, 0, 1, 0]), 400), [
+			{ ofs: 90, count: 180 },
+			{ ofs: 360, count: 40 }
+		]);
+		assert.strictEqual(logFileName({ id: 12, size: 0, timeUtc: 1714571110 }), 'log_12_2024-05-01_13-45-10.BIN');
+		assert.strictEqual(logFileName({ id: 3, size: 0, timeUtc: 0 }), 'log_3.BIN');
+	});
+});
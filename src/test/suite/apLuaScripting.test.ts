@@ -0,0 +1,125 @@
+/*
+ * Test suite for apLuaScripting module
+ *
+ * Tests the Lua scripting support that works without the editor:
+ * - Reading binding tables from docs.lua and writing language-server definitions
+ * - Reporting bindings a script uses that docs.lua does not declare
+ * - Script errors from STATUSTEXT, including ones split into chunks
+ * - Finding running SITL instances
+ */
+
+import * as assert from 'assert';
+import { StatusTextAssembler } from '../../apMavlink';
+import {
+	findUnknownBindings,
+	luaDefinitions,
+	maskLuaCode,
+	parseBindings,
+	parseScriptError,
+	parseSitlProcesses,
+	sitlInstanceFromArgs
+} from '../../apLuaScripting';
+
+// excerpt in the style of libraries/AP_Scripting/docs/docs.lua
+const DOCS = `-- ArduPilot lua scripting documentation in EmmyLua Annotations
+
+---@class (exact) Vector3f_ud
+local Vector3f_ud = {}
+
+---@return Vector3f_ud
+function Vector3f() end
+
+---@return number
+function Vector3f_ud:x() end
+
+-- desc
+---@class (exact) ahrs
+ahrs = {}
+
+---@return number
+function ahrs:get_roll() end
+
+---@return Vector3f_ud|nil
+function ahrs:get_velocity_NED() end
+
+-- desc
+gcs = {}
+
+---@param severity integer
+---@param text string
+function gcs:send_text(severity, text) end
+
+---@return uint32_t_ud
+function millis() end
+`;
+
+suite('apLuaScripting Test Suite', () => {
+	test('should read binding tables from docs.lua', () => {
+		const bindings = parseBindings(DOCS);
+		assert.deepStrictEqual([...bindings.tables.keys()], ['ahrs', 'gcs']);
+		assert.deepStrictEqual([...bindings.tables.get('ahrs') ?? []], ['get_roll', 'get_velocity_NED']);
+		assert.ok(!bindings.tables.has('Vector3f_ud'), 'userdata classes are not global tables');
+
+		const definitions = luaDefinitions(DOCS, 'libraries/AP_Scripting/docs/docs.lua');
+		assert.ok(definitions.startsWith('---@meta\n'));
+		assert.ok(definitions.endsWith(DOCS));
+		assert.ok(!luaDefinitions(`---@meta\n${DOCS}`, 'docs.lua').startsWith('---@meta\n---@meta'));
+	});
+
+	test('should report bindings missing from this version', () => {
+		const bindings = parseBindings(DOCS);
+		const script = [
+			'-- ahrs:get_pitch() in a comment is fine',
+			'local roll = ahrs:get_roll()',
+			'gcs:send_text(6, "ahrs:get_yaw() in a string is fine")',
+			'local pitch = ahrs:get_pitch()',
+			'if ahrs.get_quaternion then gcs:send_text(6, "has quaternions") end',
+			'--[[ gcs:send_named_float("A", 1)',
+			']] local v = Vector3f():x() + millis():tofloat()'
+		].join('\n');
+		const problems = findUnknownBindings(script, bindings);
+		assert.deepStrictEqual(problems.map(problem => [problem.line, problem.column, problem.length]), [[3, 19, 9], [4, 8, 14]]);
+		assert.strictEqual(problems[0].message, 'ahrs:get_pitch is not a scripting binding in this ArduPilot version');
+
+		// names the script defines or shadows itself are its own business
+		assert.deepStrictEqual(findUnknownBindings('function gcs.helper() end\ngcs.helper()\nlocal ahrs = {}\nahrs:anything()', bindings), []);
+		assert.strictEqual(maskLuaCode('a = "x" -- y\nb = [==[\nz]==]'), `${'a ='.padEnd(12)}\n${'b ='.padEnd(8)}\n${' '.repeat(5)}`);
+	});
+
+	test('should read script errors from STATUSTEXT', () => {
+		assert.deepStrictEqual(parseScriptError('Lua: /APM/scripts/hello.lua:12: attempt to call a nil value (method \'get_pitch\')'), {
+			file: 'hello.lua', line: 12, message: 'attempt to call a nil value (method \'get_pitch\')'
+		});
+		assert.deepStrictEqual(parseScriptError('Lua: ./scripts/my-script.lua:3: syntax error near \'end\''), {
+			file: 'my-script.lua', line: 3, message: 'syntax error near \'end\''
+		});
+		assert.strictEqual(parseScriptError('Lua: State memory usage: 4824 + 8370'), undefined);
+
+		// MAVLink2 splits long texts into 50 character chunks sharing an id
+		const text = 'Lua: /APM/scripts/hello.lua:12: attempt to index a nil value (global \'foo\')';
+		const assembler = new StatusTextAssembler();
+		const chunk = (seq: number) => ({
+			msgid: 253, name: 'STATUSTEXT', version: 2 as const, seq, sysid: 1, compid: 1,
+			fields: { severity: 2, text: text.slice(seq * 50, seq * 50 + 50), id: 7, chunk_seq: seq }
+		});
+		assert.strictEqual(assembler.add(chunk(0)), undefined);
+		assert.strictEqual(assembler.add(chunk(1)), text);
+		assert.strictEqual(assembler.add({ ...chunk(0), fields: { severity: 6, text: 'Lua: ok', id: 0, chunk_seq: 0 } }), 'Lua: ok');
+	});
+
+	test('should find running SITL instances', () => {
+		const ps = [
+			'  101 /usr/bin/python3 /home/dev/ardupilot/Tools/autotest/sim_vehicle.py -v ArduCopter -I1',
+			'  102 /home/dev/ardupilot/build/sitl/bin/arducopter -S --model + --speedup 1 --slave 0 --sim-address=127.0.0.1 -I1',
+			'  103 /home/dev/ardupilot/build/sitl/bin/arduplane --model plane -I 2 --home 1,2,3,4',
+			'  104 /home/dev/ardupilot/build/sitl/bin/ardurover --model rover',
+			'  105 vim build/sitl/bin/notes.txt'
+		].join('\n');
+		assert.deepStrictEqual(parseSitlProcesses(ps), [
+			{ pid: 102, instance: 1 },
+			{ pid: 103, instance: 2 },
+			{ pid: 104, instance: 0 }
+		]);
+		assert.strictEqual(sitlInstanceFromArgs('--model quad --instance=3'), 3);
+	});
+});
@@ -0,0 +1,412 @@
+/*
+ * Test suite for apMavftp module
+ *
+ * Tests the MAVLink FTP client against an in-memory MAVFTP server:
+ * - Encoding payloads, vehicle paths and directory listings
+ * - Listing directories spread over several replies
+ * - Burst reads recovering lost replies, and plain reads when bursts are unsupported
+ * - Writing, renaming and removing files and directories, NAKs as errors
+ * - Clearing a session left open by an interrupted transfer
+ * - Talking to the server over a MAVLink connection
+ */
+
+import * as assert from 'assert';
+import * as dgram from 'dgram';
+import { MavlinkConnection, MavlinkEncoder, MavlinkParser } from '../../apMavlink';
+import {
+	FTP_DATA_LENGTH,
+	FtpError,
+	FtpOpcode,
+	FtpPayload,
+	MavftpClient,
+	MavftpError,
+	MavftpLink,
+	decodeFtpPayload,
+	encodeFtpPayload,
+	ftpPath,
+	mavlinkFtpLink,
+	parseDirectoryEntries
+} from '../../apMavftp';
+
+function getFreePort(): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const socket = dgram.createSocket('udp4');
+		socket.once('error', reject);
+		socket.bind(0, '127.0.0.1', () => {
+			const port = socket.address().port;
+			socket.close(() => resolve(port));
+		});
+	});
+}
+
+function fileContent(size: number, seed: number): Buffer {
+	return Buffer.from(Array.from({ length: size }, (_value, i) => (i * 13 + seed) & 0xFF));
+}
+
+/**
+ * Plays the vehicle side of MAVLink FTP on an in-memory filesystem, with a
+ * single session like ArduPilot. Replies are delivered asynchronously.
+ */
+class InMemoryMavftpServer implements MavftpLink {
+	files = new Map<string, Buffer>([
+		['APM/scripts/hello.lua', Buffer.from('function update() return update, 1000 end\nreturn update()\n')],
+		['APM/LOGS/00000001.BIN', fileContent(5000, 1)],
+		['@SYS/threads.txt', Buffer.from('ThreadsV2\nidle 1 0 0\nmain 2 0 0\n')],
+		['@PARAM/param.pck', fileContent(700, 2)]
+	]);
+	dirs = new Set<string>(['', 'APM', 'APM/scripts', 'APM/LOGS', '@SYS', '@PARAM']);
+	readonly requests: FtpPayload[] = [];
+	// offsets of burst replies lost on the link, once each
+	dropBurstOnce = new Set<number>();
+	supportsBurst = true;
+	// data packets sent per burst
+	burstLength = 8;
+	session: { path: string, write: boolean } | undefined;
+	private listeners: ((payload: Buffer) => void)[] = [];
+
+	send(payload: Buffer): void {
+		const request = decodeFtpPayload(payload);
+		this.requests.push(request);
+		setImmediate(() => this.handle(request));
+	}
+
+	onPayload(listener: (payload: Buffer) => void): { dispose(): void } {
+		this.listeners.push(listener);
+		return { dispose: () => { this.listeners = this.listeners.filter(candidate => candidate !== listener); } };
+	}
+
+	private reply(request: FtpPayload, fields: Partial<FtpPayload>, seqOffset = 1): void {
+		const data = fields.data ?? Buffer.alloc(0);
+		const payload = encodeFtpPayload({
+			seq: request.seq + seqOffset,
+			session: request.session,
+			opcode: FtpOpcode.Ack,
+			size: data.length,
+			reqOpcode: request.opcode,
+			burstComplete: false,
+			offset: request.offset,
+			...fields,
+			data
+		});
+		this.listeners.forEach(listener => listener(payload));
+	}
+
+	private nak(request: FtpPayload, code: number): void {
+		this.reply(request, { opcode: FtpOpcode.Nak, data: Buffer.from([code]) });
+	}
+
+	private normalize(data: Buffer): string {
+		return data.toString('utf8').replace(/^\/+/, '').replace(/\/+$/, '');
+	}
+
+	private parent(filePath: string): string {
+		return filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '';
+	}
+
+	private handle(request: FtpPayload): void {
+		const filePath = this.normalize(request.data);
+		switch (request.opcode) {
+		case FtpOpcode.ResetSessions:
+			this.session = undefined;
+			this.reply(request, {});
+			break;
+		case FtpOpcode.TerminateSession:
+			this.session = undefined;
+			this.reply(request, {});
+			break;
+		case FtpOpcode.ListDirectory: {
+			if (!this.dirs.has(filePath)) {
+				this.nak(request, FtpError.FileNotFound);
+				return;
+			}
+			const prefix = filePath ? `${filePath}/` : '';
+			const children = (items: Iterable<string>) => [...items].filter(item => item !== filePath &&
+				item.startsWith(prefix) && !item.slice(prefix.length).includes('/'));
+			const entries = [
+				...children(this.dirs).map(dir => `D${dir.slice(prefix.length)}`),
+				...children(this.files.keys()).map(file => `F${file.slice(prefix.length)}\t${this.files.get(file)?.length}`)
+			].slice(request.offset);
+			if (entries.length === 0) {
+				this.nak(request, FtpError.EOF);
+				return;
+			}
+			// as many entries as fit in one reply
+			let data = '';
+			for (const entry of entries) {
+				if (data.length + entry.length + 1 > FTP_DATA_LENGTH) {
+					break;
+				}
+				data += `${entry}\0`;
+			}
+			this.reply(request, { data: Buffer.from(data) });
+			break;
+		}
+		case FtpOpcode.OpenFileRO:
+		case FtpOpcode.CreateFile: {
+			if (this.session) {
+				this.nak(request, FtpError.NoSessionsAvailable);
+				return;
+			}
+			const write = request.opcode === FtpOpcode.CreateFile;
+			if (write ? !this.dirs.has(this.parent(filePath)) : !this.files.has(filePath)) {
+				this.nak(request, FtpError.FileNotFound);
+				return;
+			}
+			if (write) {
+				this.files.set(filePath, Buffer.alloc(0));
+			}
+			this.session = { path: filePath, write };
+			const size = Buffer.alloc(4);
+			// generated files don't know their size up front
+			size.writeUInt32LE(filePath.startsWith('@SYS') ? 0 : this.files.get(filePath)?.length ?? 0);
+			this.reply(request, { session: 1, data: write ? Buffer.alloc(0) : size });
+			break;
+		}
+		case FtpOpcode.ReadFile: {
+			const content = this.session && this.files.get(this.session.path);
+			if (!content || request.session !== 1) {
+				this.nak(request, FtpError.InvalidSession);
+			} else if (request.offset >= content.length) {
+				this.nak(request, FtpError.EOF);
+			} else {
+				this.reply(request, { data: content.subarray(request.offset, request.offset + request.size) });
+			}
+			break;
+		}
+		case FtpOpcode.BurstReadFile: {
+			const content = this.session && this.files.get(this.session.path);
+			if (!this.supportsBurst) {
+				this.nak(request, FtpError.UnknownCommand);
+			} else if (!content || request.session !== 1) {
+				this.nak(request, FtpError.InvalidSession);
+			} else {
+				let offset = request.offset;
+				for (let sent = 0; sent < this.burstLength && offset < content.length; sent++, offset += FTP_DATA_LENGTH) {
+					const last = sent === this.burstLength - 1 || offset + FTP_DATA_LENGTH >= content.length;
+					if (!this.dropBurstOnce.delete(offset)) {
+						this.reply(request, { offset, burstComplete: last, data: content.subarray(offset, offset + FTP_DATA_LENGTH) }, sent + 1);
+					}
+				}
+				if (offset >= content.length) {
+					this.nak(request, FtpError.EOF);
+				}
+			}
+			break;
+		}
+		case FtpOpcode.WriteFile: {
+			const content = this.session?.write ? this.files.get(this.session.path) : undefined;
+			if (!this.session || !content || request.session !== 1) {
+				this.nak(request, FtpError.InvalidSession);
+				return;
+			}
+			const updated = Buffer.alloc(Math.max(content.length, request.offset + request.size));
+			content.copy(updated);
+			request.data.copy(updated, request.offset);
+			this.files.set(this.session.path, updated);
+			this.reply(request, {});
+			break;
+		}
+		case FtpOpcode.RemoveFile:
+			if (this.files.delete(filePath)) {
+				this.reply(request, {});
+			} else {
+				this.nak(request, FtpError.FileNotFound);
+			}
+			break;
+		case FtpOpcode.CreateDirectory:
+			if (this.dirs.has(filePath) || this.files.has(filePath)) {
+				this.nak(request, FtpError.FileExists);
+			} else {
+				this.dirs.add(filePath);
+				this.reply(request, {});
+			}
+			break;
+		case FtpOpcode.RemoveDirectory:
+			if (!this.dirs.has(filePath)) {
+				this.nak(request, FtpError.FileNotFound);
+			} else if ([...this.files.keys(), ...this.dirs].some(item => item.startsWith(`${filePath}/`))) {
+				this.nak(request, FtpError.Fail);
+			} else {
+				this.dirs.delete(filePath);
+				this.reply(request, {});
+			}
+			break;
+		case FtpOpcode.Rename: {
+			const [from, to] = request.data.toString('utf8').split('\0').map(item => item.replace(/^\/+/, ''));
+			const content = this.files.get(from);
+			if (!content) {
+				this.nak(request, FtpError.FileNotFound);
+				return;
+			}
+			this.files.delete(from);
+			this.files.set(to, content);
+			this.reply(request, {});
+			break;
+		}
+		default:
+			this.nak(request, FtpError.UnknownCommand);
+		}
+	}
+}
+
+/**
+ * Vehicle on UDP answering FILE_TRANSFER_PROTOCOL from an in-memory server
+ */
+class FtpVehicleStandIn {
+	readonly server = new InMemoryMavftpServer();
+	private socket = dgram.createSocket('udp4');
+	private encoder = new MavlinkEncoder(1, 1);
+	private parser = new MavlinkParser();
+	private heartbeatTimer: NodeJS.Timeout | undefined;
+
+	constructor(private gcsPort: number) {
+		this.server.onPayload(payload => this.send('FILE_TRANSFER_PROTOCOL', {
+			target_network: 0, target_system: 255, target_component: 190, payload: [...payload]
+		}));
+		this.socket.on('message', data => {
+			for (const message of this.parser.parse(data)) {
+				if (message.name === 'FILE_TRANSFER_PROTOCOL') {
+					this.server.send(Buffer.from(message.fields.payload as number[]));
+				}
+			}
+		});
+	}
+
+	start(): void {
+		const heartbeat = () => this.send('HEARTBEAT', {
+			type: 2, autopilot: 3, base_mode: 0, custom_mode: 0, system_status: 3, mavlink_version: 3
+		});
+		heartbeat();
+		this.heartbeatTimer = setInterval(heartbeat, 200);
+	}
+
+	close(): void {
+		clearInterval(this.heartbeatTimer);
+		this.socket.close();
+	}
+
+	private send(name: string, fields: Record<string, number | string | number[]>): void {
+		this.socket.send(this.encoder.encode(name, fields), this.gcsPort, '127.0.0.1');
+	}
+}
+
+suite('apMavftp Test Suite', () => {
+	let server: InMemoryMavftpServer;
+	let client: MavftpClient;
+
+	setup(() => {
+		server = new InMemoryMavftpServer();
+		client = new MavftpClient(server, { timeoutMs: 200, retries: 2 });
+	});
+
+	test('should encode payloads, vehicle paths and directory entries', () => {
+		const payload: FtpPayload = {
+			seq: 0x1234, session: 1, opcode: FtpOpcode.ReadFile, size: 3, reqOpcode: 0,
+			burstComplete: true, offset: 0x01020304, data: Buffer.from([7, 8, 9])
+		};
+		const encoded = encodeFtpPayload(payload);
+		assert.strictEqual(encoded.length, 251);
+		assert.deepStrictEqual(decodeFtpPayload(encoded), payload);
+		// MAVLink2 trims trailing zeros, the payload is padded back
+		assert.strictEqual(decodeFtpPayload(encoded.subarray(0, 15)).offset, 0x01020304);
+
+		assert.strictEqual(ftpPath('/APM/scripts/'), '/APM/scripts');
+		assert.strictEqual(ftpPath('/@SYS/threads.txt'), '@SYS/threads.txt');
+		assert.strictEqual(ftpPath(''), '/');
+
+		const listed = parseDirectoryEntries(Buffer.from('D.\0Dscripts\0Fhello.lua\t57\0S\0'));
+		assert.strictEqual(listed.count, 4);
+		assert.deepStrictEqual(listed.entries, [
+			{ name: 'scripts', type: 'directory', size: 0 },
+			{ name: 'hello.lua', type: 'file', size: 57 }
+		]);
+	});
+
+	test('should list directories spread over several replies', async () => {
+		for (let i = 0; i < 40; i++) {
+			server.files.set(`APM/LOGS/${String(i + 2).padStart(8, '0')}.BIN`, Buffer.alloc(i));
+		}
+		const entries = await client.listDirectory('/APM/LOGS');
+		assert.strictEqual(entries.length, 41);
+		assert.deepStrictEqual(entries.find(entry => entry.name === '00000001.BIN'), { name: '00000001.BIN', type: 'file', size: 5000 });
+		assert.ok(server.requests.filter(request => request.opcode === FtpOpcode.ListDirectory).length > 2);
+
+		const root = await client.listDirectory('/');
+		assert.deepStrictEqual(root.filter(entry => entry.type === 'directory').map(entry => entry.name).sort(), ['@PARAM', '@SYS', 'APM']);
+		await assert.rejects(client.listDirectory('/missing'), (error: MavftpError) => error.code === FtpError.FileNotFound);
+	});
+
+	test('should read files in bursts, asking again for lost replies', async () => {
+		server.dropBurstOnce = new Set([FTP_DATA_LENGTH * 3, FTP_DATA_LENGTH * 12]);
+		const progress: number[] = [];
+		const data = await client.readFile('/APM/LOGS/00000001.BIN', received => progress.push(received));
+		assert.ok(data.equals(fileContent(5000, 1)));
+		assert.strictEqual(progress[progress.length - 1], 5000);
+		assert.strictEqual(server.dropBurstOnce.size, 0);
+		assert.strictEqual(server.session, undefined, 'the session is terminated');
+
+		// generated files report no size when opened
+		assert.strictEqual((await client.readFile('/@SYS/threads.txt')).toString(), 'ThreadsV2\nidle 1 0 0\nmain 2 0 0\n');
+		assert.strictEqual(server.requests.find(request => request.opcode === FtpOpcode.OpenFileRO)?.data.toString(), '/APM/LOGS/00000001.BIN');
+		assert.ok(server.requests.some(request => request.opcode === FtpOpcode.OpenFileRO && request.data.toString() === '@SYS/threads.txt'));
+	});
+
+	test('should fall back to plain reads without burst support', async () => {
+		server.supportsBurst = false;
+		const data = await client.readFile('@PARAM/param.pck');
+		assert.ok(data.equals(fileContent(700, 2)));
+		assert.ok(server.requests.some(request => request.opcode === FtpOpcode.ReadFile));
+	});
+
+	test('should write, rename and remove files and directories', async () => {
+		const script = Buffer.from(`-- ${'x'.repeat(600)}\nreturn\n`);
+		await client.createDirectory('/APM/scripts/modules');
+		await client.writeFile('/APM/scripts/modules/test.lua', script);
+		assert.ok(server.files.get('APM/scripts/modules/test.lua')?.equals(script));
+		assert.strictEqual(server.requests.filter(request => request.opcode === FtpOpcode.WriteFile).length, 3);
+
+		await client.writeFile('/APM/scripts/empty.lua', new Uint8Array(0));
+		assert.strictEqual(server.files.get('APM/scripts/empty.lua')?.length, 0);
+
+		await client.rename('/APM/scripts/modules/test.lua', '/APM/scripts/test.lua');
+		assert.ok(server.files.has('APM/scripts/test.lua'));
+		await assert.rejects(client.removeDirectory('/APM/scripts'), (error: MavftpError) => error.code === FtpError.Fail);
+		await client.removeDirectory('/APM/scripts/modules');
+		await client.removeFile('/APM/scripts/test.lua');
+		assert.ok(!server.files.has('APM/scripts/test.lua'));
+
+		await assert.rejects(client.removeFile('/APM/scripts/test.lua'), /Removing \/APM\/scripts\/test.lua not found/);
+		await assert.rejects(client.createDirectory('/APM'), (error: MavftpError) => error.code === FtpError.FileExists);
+	});
+
+	test('should clear a session left open by an interrupted transfer', async () => {
+		server.session = { path: 'APM/scripts/hello.lua', write: false };
+		assert.ok((await client.readFile('/APM/scripts/hello.lua')).toString().startsWith('function update()'));
+		assert.ok(server.requests.some(request => request.opcode === FtpOpcode.ResetSessions));
+	});
+
+	test('should time out when the vehicle does not answer', async () => {
+		const silent: MavftpLink = { send: () => undefined, onPayload: () => ({ dispose: () => undefined }) };
+		const quiet = new MavftpClient(silent, { timeoutMs: 50, retries: 1 });
+		await assert.rejects(quiet.listDirectory('/'), /Listing \/ timed out/);
+	});
+
+	test('should talk to the vehicle over MAVLink', async () => {
+		const port = await getFreePort();
+		const connection = new MavlinkConnection({ type: 'udpin', host: '127.0.0.1', port });
+		const vehicle = new FtpVehicleStandIn(port);
+		try {
+			await connection.open();
+			vehicle.start();
+			await connection.waitForVehicle(5000);
+			const mavftp = new MavftpClient(mavlinkFtpLink(connection));
+			const entries = await mavftp.listDirectory('/APM/scripts');
+			assert.deepStrictEqual(entries.map(entry => entry.name), ['hello.lua']);
+			const data = await mavftp.readFile('/APM/LOGS/00000001.BIN');
+			assert.ok(data.equals(fileContent(5000, 1)));
+		} finally {
+			connection.dispose();
+			vehicle.close();
+		}
+	});
+});
@@ -0,0 +1,344 @@
+/*
+ * Test suite for apMavlink module
+ *
+ * Tests the native MAVLink implementation without any hardware:
+ * - Frame parsing of recorded MAVLink1/MAVLink2 byte streams
+ * - Resynchronisation on corrupt and fragmented input
+ * - Encoding, including MAVLink2 payload truncation
+ * - Connections against local UDP and TCP stand-ins for a vehicle
+ * - Sharing one connection between several views
+ * - The telemetry panel fed from a UDP stand-in
+ */
+
+import * as assert from 'assert';
+import * as dgram from 'dgram';
+import * as net from 'net';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import {
+	MavlinkConnection,
+	MavlinkEncoder,
+	MavlinkMessage,
+	MavlinkParser,
+	getMessageDef,
+	encodePayload,
+	parseEndpoint,
+	x25Crc
+} from '../../apMavlink';
+import { apTelemetryPanel } from '../../apTelemetryPanel';
+import { waitForCondition } from './common';
+
+// Recorded from an ArduCopter SITL style link (sysid 1, compid 1), MAVLink2 with
+// truncated payloads and a VFR_HUD (not decoded by the extension) in the middle
+const RECORDED_V2_STREAM = [
+	'fd0900000001010000000000000002035903033a77', // HEARTBEAT
+	'fd1f00000101010100000f5a23010f5a23010f5a230178003831f0050000000000000000000000005733bf', // SYS_STATUS
+	'fd1200000201014a000000000000cdcccc3d66061244000000006101c050', // VFR_HUD
+	'fd1000000301011e000040e20100cdcccc3dcdcc4cbd0000c03fc8c3', // ATTITUDE
+	'fd2b000004010118000000401e18240a060093feebea16cfe8589ae908007900c80000000000060a000000002c0100002c010000284a02', // GPS_RAW_INT
+	'fd210000050101fd00000641726475436f707465722056342e362e302d64657620283265643062643235294bf5', // STATUSTEXT
+].join('');
+
+// HEARTBEAT from an armed plane in AUTO over MAVLink1
+const RECORDED_V1_HEARTBEAT = 'fe09070101000a0000000103d904035658';
+
+function getFreePort(): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const socket = dgram.createSocket('udp4');
+		socket.once('error', reject);
+		socket.bind(0, '127.0.0.1', () => {
+			const port = socket.address().port;
+			socket.close(() => resolve(port));
+		});
+	});
+}
+
+suite('apMavlink Test Suite', () => {
+	let sandbox: sinon.SinonSandbox;
+
+	setup(() => {
+		sandbox = sinon.createSandbox();
+	});
+
+	teardown(() => {
+		sandbox.restore();
+	});
+
+	suite('Checksum', () => {
+		test('should compute the MCRF4XX checksum used by MAVLink', () => {
+			assert.strictEqual(x25Crc(Buffer.from('123456789')), 0x6F91);
+		});
+	});
+
+	suite('MavlinkParser', () => {
+		test('should decode a recorded MAVLink2 stream', () => {
+			const parser = new MavlinkParser();
+			const messages = parser.parse(Buffer.from(RECORDED_V2_STREAM, 'hex'));
+
+			assert.deepStrictEqual(messages.map(m => m.name), ['HEARTBEAT', 'SYS_STATUS', 'ATTITUDE', 'GPS_RAW_INT', 'STATUSTEXT']);
+			assert.ok(messages.every(m => m.version === 2 && m.sysid === 1 && m.compid === 1));
+			assert.deepStrictEqual(parser.stats, { received: 5, crcErrors: 0, unknown: 1, lost: 0 });
+
+			const [heartbeat, sysStatus, attitude, gps, statusText] = messages;
+			assert.strictEqual(heartbeat.fields.type, 2);
+			assert.strictEqual(heartbeat.fields.autopilot, 3);
+			assert.strictEqual(heartbeat.fields.base_mode, 89);
+			assert.strictEqual(sysStatus.fields.voltage_battery, 12600);
+			assert.strictEqual(sysStatus.fields.current_battery, 1520);
+			assert.strictEqual(sysStatus.fields.battery_remaining, 87);
+			assert.strictEqual(attitude.fields.time_boot_ms, 123456);
+			assert.ok(Math.abs((attitude.fields.roll as number) - 0.1) < 1e-6);
+			assert.ok(Math.abs((attitude.fields.pitch as number) + 0.05) < 1e-6);
+			assert.strictEqual(gps.fields.lat, -353632621);
+			assert.strictEqual(gps.fields.lon, 1491652374);
+			assert.strictEqual(gps.fields.fix_type, 6);
+			assert.strictEqual(gps.fields.satellites_visible, 10);
+			assert.strictEqual(statusText.fields.severity, 6);
+			assert.strictEqual(statusText.fields.text, 'ArduCopter V4.6.0-dev (2ed0bd25)');
+		});
+
+		test('should decode a recorded MAVLink1 frame', () => {
+			const parser = new MavlinkParser();
+			const [heartbeat] = parser.parse(Buffer.from(RECORDED_V1_HEARTBEAT, 'hex'));
+
+			assert.strictEqual(heartbeat.version, 1);
+			assert.strictEqual(heartbeat.seq, 7);
+			assert.strictEqual(heartbeat.fields.type, 1);
+			assert.strictEqual(heartbeat.fields.custom_mode, 10);
+			assert.strictEqual(heartbeat.fields.base_mode, 217);
+		});
+
+		test('should reassemble frames split across reads', () => {
+			const parser = new MavlinkParser();
+			const stream = Buffer.from(RECORDED_V2_STREAM, 'hex');
+			const messages: MavlinkMessage[] = [];
+			for (const byte of stream) {
+				messages.push(...parser.parse(Buffer.from([byte])));
+			}
+
+			assert.strictEqual(messages.length, 5);
+			assert.strictEqual(messages[4].fields.text, 'ArduCopter V4.6.0-dev (2ed0bd25)');
+		});
+
+		test('should resynchronise after corrupt data', () => {
+			const parser = new MavlinkParser();
+			const stream = Buffer.from(RECORDED_V2_STREAM, 'hex');
+			// flip a payload byte of the HEARTBEAT and prepend line noise with a bogus start byte
+			stream[12] ^= 0xFF;
+			const noisy = Buffer.concat([Buffer.from([0x00, 0xFD, 0x01, 0x02]), stream]);
+
+			const messages = parser.parse(noisy);
+
+			assert.deepStrictEqual(messages.map(m => m.name), ['SYS_STATUS', 'ATTITUDE', 'GPS_RAW_INT', 'STATUSTEXT']);
+			assert.strictEqual(parser.stats.crcErrors, 1);
+		});
+
+		test('should count lost packets from sequence gaps', () => {
+			const parser = new MavlinkParser();
+			const encoder = new MavlinkEncoder(1, 1);
+			parser.parse(encoder.encode('ATTITUDE', {}));
+			encoder.encode('ATTITUDE', {});
+			encoder.encode('ATTITUDE', {});
+			parser.parse(encoder.encode('ATTITUDE', {}));
+
+			assert.strictEqual(parser.stats.lost, 2);
+		});
+	});
+
+	suite('MavlinkEncoder', () => {
+		test('should produce frames identical to the recorded stream', () => {
+			const encoder = new MavlinkEncoder(1, 1);
+			const frame = encoder.encode('HEARTBEAT', {
+				type: 2, autopilot: 3, base_mode: 89, custom_mode: 0, system_status: 3, mavlink_version: 3
+			});
+
+			assert.strictEqual(frame.toString('hex'), RECORDED_V2_STREAM.substring(0, frame.length * 2));
+		});
+
+		test('should truncate MAVLink2 payloads and drop extensions for MAVLink1', () => {
+			const def = getMessageDef('STATUSTEXT');
+			assert.ok(def);
+
+			assert.strictEqual(encodePayload(def, { severity: 4, text: 'PreArm' }, 2).length, 7);
+			assert.strictEqual(encodePayload(def, { severity: 4, text: 'PreArm', id: 1 }, 2).length, 52);
+			assert.strictEqual(encodePayload(def, { severity: 4, text: 'PreArm', id: 1 }, 1).length, 51);
+		});
+
+		test('should round trip through the parser', () => {
+			const encoder = new MavlinkEncoder(42, 1, 1);
+			const parser = new MavlinkParser();
+			const [message] = parser.parse(encoder.encode('GPS_RAW_INT', { lat: -353632621, lon: 1491652374, alt: -5000, fix_type: 3 }));
+
+			assert.strictEqual(message.sysid, 42);
+			assert.strictEqual(message.version, 1);
+			assert.strictEqual(message.fields.lat, -353632621);
+			assert.strictEqual(message.fields.alt, -5000);
+			assert.strictEqual(message.fields.fix_type, 3);
+		});
+
+		test('should reject unknown messages', () => {
+			assert.throws(() => new MavlinkEncoder().encode('NOT_A_MESSAGE', {}), /Unknown MAVLink message/);
+		});
+	});
+
+	suite('Endpoints', () => {
+		test('should parse MAVProxy style connection strings', () => {
+			assert.deepStrictEqual(parseEndpoint('udp:127.0.0.1:14550'), { type: 'udpin', host: '127.0.0.1', port: 14550 });
+			assert.deepStrictEqual(parseEndpoint('udpout:10.0.0.2:14550'), { type: 'udpout', host: '10.0.0.2', port: 14550 });
+			assert.deepStrictEqual(parseEndpoint('tcp::5760'), { type: 'tcp', host: '127.0.0.1', port: 5760 });
+			assert.deepStrictEqual(parseEndpoint('/dev/ttyACM0', 57600), { type: 'serial', path: '/dev/ttyACM0', baudRate: 57600 });
+		});
+
+		test('should reject malformed network connection strings', () => {
+			assert.throws(() => parseEndpoint('udp:localhost'), /Invalid MAVLink connection string/);
+		});
+	});
+
+	suite('MavlinkConnection', () => {
+		let connection: MavlinkConnection | undefined;
+		let vehicle: dgram.Socket | undefined;
+		let server: net.Server | undefined;
+
+		teardown(() => {
+			connection?.dispose();
+			connection = undefined;
+			vehicle?.close();
+			vehicle = undefined;
+			server?.close();
+			server = undefined;
+		});
+
+		test('should exchange messages with a UDP vehicle stand-in', async () => {
+			const port = await getFreePort();
+			connection = new MavlinkConnection({ type: 'udpin', host: '127.0.0.1', port });
+			await connection.open();
+
+			// the stand-in plays the autopilot side of the link
+			const vehicleParser = new MavlinkParser();
+			const fromGcs: MavlinkMessage[] = [];
+			vehicle = dgram.createSocket('udp4');
+			vehicle.on('message', data => fromGcs.push(...vehicleParser.parse(data)));
+			await new Promise<void>(resolve => vehicle?.bind(0, '127.0.0.1', () => resolve()));
+
+			const received = connection.waitForMessage('STATUSTEXT', 2000);
+			vehicle.send(Buffer.from(RECORDED_V2_STREAM, 'hex'), port, '127.0.0.1');
+			const statusText = await received;
+
+			assert.strictEqual(statusText.fields.text, 'ArduCopter V4.6.0-dev (2ed0bd25)');
+			assert.strictEqual(connection.targetSystem, 1);
+			assert.strictEqual(connection.targetComponent, 1);
+
+			// the connection replies to the vehicle with a stream request and GCS heartbeats
+			await waitForCondition(
+				() => fromGcs.some(m => m.name === 'REQUEST_DATA_STREAM') && fromGcs.some(m => m.name === 'HEARTBEAT'),
+				'GCS messages at the vehicle', 3000);
+			const request = fromGcs.find(m => m.name === 'REQUEST_DATA_STREAM');
+			assert.strictEqual(request?.fields.target_system, 1);
+			assert.strictEqual(request?.fields.start_stop, 1);
+			assert.strictEqual(fromGcs.find(m => m.name === 'HEARTBEAT')?.fields.type, 6);
+		});
+
+		test('should receive messages from a TCP vehicle stand-in', async () => {
+			server = net.createServer(socket => {
+				socket.write(Buffer.from(RECORDED_V1_HEARTBEAT, 'hex'));
+			});
+			await new Promise<void>(resolve => server?.listen(0, '127.0.0.1', () => resolve()));
+			const port = (server.address() as net.AddressInfo).port;
+
+			connection = new MavlinkConnection({ type: 'tcp', host: '127.0.0.1', port });
+			const received = connection.waitForMessage('HEARTBEAT', 2000);
+			await connection.open();
+			const heartbeat = await received;
+
+			assert.strictEqual(heartbeat.version, 1);
+			// replies follow the protocol version the vehicle uses
+			assert.strictEqual(connection.encoder.version, 1);
+		});
+
+		test('should report a failed TCP connection', async () => {
+			const port = await getFreePort();
+			connection = new MavlinkConnection({ type: 'tcp', host: '127.0.0.1', port });
+
+			await assert.rejects(connection.open());
+		});
+
+		test('should share one connection per endpoint between acquirers', async () => {
+			const port = await getFreePort();
+			const endpoint = parseEndpoint(`udp:127.0.0.1:${port}`);
+
+			const [first, second] = await Promise.all([MavlinkConnection.acquire(endpoint), MavlinkConnection.acquire(endpoint)]);
+			assert.strictEqual(first, second);
+			assert.ok(MavlinkConnection.isInUse(endpoint));
+
+			// the link stays open until the last user releases it
+			first.release();
+			assert.ok(MavlinkConnection.isInUse(endpoint));
+			second.release();
+			assert.ok(!MavlinkConnection.isInUse(endpoint));
+
+			const reopened = await MavlinkConnection.acquire(endpoint);
+			assert.notStrictEqual(reopened, first);
+			connection = reopened;
+		});
+
+		test('should not register a shared connection that fails to open', async () => {
+			const endpoint = parseEndpoint('tcp:127.0.0.1:1');
+
+			await assert.rejects(MavlinkConnection.acquire(endpoint));
+			assert.ok(!MavlinkConnection.isInUse(endpoint));
+		});
+
+		test('should time out waiting for a message that never arrives', async () => {
+			const port = await getFreePort();
+			connection = new MavlinkConnection({ type: 'udpin', host: '127.0.0.1', port });
+			await connection.open();
+
+			await assert.rejects(connection.waitForMessage('HEARTBEAT', 100), /Timed out waiting for HEARTBEAT/);
+		});
+	});
+
+	suite('apTelemetryPanel', () => {
+		let vehicle: dgram.Socket | undefined;
+
+		teardown(() => {
+			apTelemetryPanel.disposeAll();
+			vehicle?.close();
+			vehicle = undefined;
+		});
+
+		test('should show telemetry received from a UDP vehicle stand-in', async () => {
+			const port = await getFreePort();
+			const endpoint = parseEndpoint(`udp:127.0.0.1:${port}`);
+			const extension = vscode.extensions.getExtension('ardupilot-org.ardupilot-devenv');
+			assert.ok(extension);
+
+			const panel = await apTelemetryPanel.createOrShow(extension.extensionUri, endpoint, 'SITL');
+			assert.ok(panel);
+			assert.ok(apTelemetryPanel.isOpen(endpoint));
+
+			vehicle = dgram.createSocket('udp4');
+			vehicle.send(Buffer.from(RECORDED_V2_STREAM, 'hex'), port, '127.0.0.1');
+			await waitForCondition(() => panel.state.statusText.length > 0, 'STATUSTEXT in the panel', 3000);
+
+			assert.deepStrictEqual(panel.state.vehicle, { sysid: 1, compid: 1, mavlinkVersion: 2 });
+			assert.strictEqual(panel.state.messages.SYS_STATUS.voltage_battery, 12600);
+			assert.strictEqual(panel.state.messages.GPS_RAW_INT.satellites_visible, 10);
+			assert.strictEqual(panel.state.statusText[0].text, 'ArduCopter V4.6.0-dev (2ed0bd25)');
+
+			// a second request for the same endpoint reuses the panel
+			assert.strictEqual(await apTelemetryPanel.createOrShow(extension.extensionUri, endpoint), panel);
+
+			panel.dispose();
+			assert.ok(!apTelemetryPanel.isOpen(endpoint));
+		});
+
+		test('should show an error when the endpoint cannot be opened', async () => {
+			const showErrorStub = sandbox.stub(vscode.window, 'showErrorMessage');
+
+			const panel = await apTelemetryPanel.createOrShow(vscode.Uri.file('/'), parseEndpoint('tcp:127.0.0.1:1'));
+
+			assert.strictEqual(panel, undefined);
+			assert.ok(showErrorStub.calledOnce);
+		});
+	});
+});
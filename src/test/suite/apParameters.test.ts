@@ -0,0 +1,394 @@
+/*
+ * Test suite for apParameters module
+ *
+ * Tests parameter handling against a UDP stand-in for a vehicle:
+ * - Fetching the full list, including re-requesting lost parameters
+ * - Setting parameters with read-back confirmation
+ * - Mission Planner and MAVProxy parameter files, including @include
+ * - Validation of parameter files and the SITL arguments loading them
+ * - Parameter documentation generated by param_parse.py
+ * - The parameters panel
+ */
+
+import * as assert from 'assert';
+import * as dgram from 'dgram';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import {
+	MavlinkConnection,
+	MavlinkEncoder,
+	MavlinkParser,
+	parseEndpoint
+} from '../../apMavlink';
+import {
+	fetchParameters,
+	formatParameterFile,
+	formatParameterValue,
+	loadParameterFile,
+	loadParameterMetadata,
+	paramFileArgs,
+	parseParameterFile,
+	setParameter,
+	validateParameterFile
+} from '../../apParameters';
+import { apParametersPanel } from '../../apParametersPanel';
+import { waitForCondition } from './common';
+
+const MAV_PARAM_TYPE_INT8 = 2;
+const MAV_PARAM_TYPE_REAL32 = 9;
+
+function getFreePort(): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const socket = dgram.createSocket('udp4');
+		socket.once('error', reject);
+		socket.bind(0, '127.0.0.1', () => {
+			const port = socket.address().port;
+			socket.close(() => resolve(port));
+		});
+	});
+}
+
+/**
+ * Plays the autopilot side of the link: heartbeats, the parameter protocol and
+ * a parameter (SERIAL0_BAUD) whose range is enforced, like ArduPilot clamping values
+ */
+class VehicleStandIn {
+	readonly params: { name: string, value: number, type: number }[] = [
+		{ name: 'FORMAT_VERSION', value: 120, type: MAV_PARAM_TYPE_INT8 },
+		{ name: 'ATC_RAT_RLL_P', value: 0.135, type: MAV_PARAM_TYPE_REAL32 },
+		{ name: 'ATC_RAT_PIT_P', value: 0.135, type: MAV_PARAM_TYPE_REAL32 },
+		{ name: 'SERIAL0_BAUD', value: 115, type: MAV_PARAM_TYPE_INT8 },
+		{ name: 'WPNAV_SPEED', value: 1000, type: MAV_PARAM_TYPE_REAL32 },
+	];
+	readonly requests: string[] = [];
+	// indices left out of the first PARAM_REQUEST_LIST reply, as if lost on the link
+	dropOnList = new Set<number>();
+	ignoreSets = false;
+	private socket = dgram.createSocket('udp4');
+	private encoder = new MavlinkEncoder(1, 1);
+	private parser = new MavlinkParser();
+	private heartbeatTimer: NodeJS.Timeout | undefined;
+
+	constructor(private gcsPort: number) {
+		this.socket.on('message', data => {
+			for (const message of this.parser.parse(data)) {
+				this.requests.push(message.name);
+				this.handle(message.name, message.fields);
+			}
+		});
+	}
+
+	start(): void {
+		const heartbeat = () => this.send('HEARTBEAT', {
+			type: 2, autopilot: 3, base_mode: 0, custom_mode: 0, system_status: 3, mavlink_version: 3
+		});
+		heartbeat();
+		this.heartbeatTimer = setInterval(heartbeat, 200);
+	}
+
+	close(): void {
+		clearInterval(this.heartbeatTimer);
+		this.socket.close();
+	}
+
+	private send(name: string, fields: Record<string, number | string>): void {
+		this.socket.send(this.encoder.encode(name, fields), this.gcsPort, '127.0.0.1');
+	}
+
+	private sendParam(index: number): void {
+		const param = this.params[index];
+		this.send('PARAM_VALUE', {
+			param_id: param.name,
+			param_value: param.value,
+			param_type: param.type,
+			param_count: this.params.length,
+			param_index: index
+		});
+	}
+
+	private handle(name: string, fields: Record<string, unknown>): void {
+		switch (name) {
+		case 'PARAM_REQUEST_LIST':
+			this.params.forEach((_param, index) => {
+				if (!this.dropOnList.has(index)) {
+					this.sendParam(index);
+				}
+			});
+			this.dropOnList.clear();
+			break;
+		case 'PARAM_REQUEST_READ':
+			this.sendParam(fields.param_index as number);
+			break;
+		case 'PARAM_SET': {
+			const index = this.params.findIndex(param => param.name === fields.param_id);
+			if (index < 0 || this.ignoreSets) {
+				return;
+			}
+			const value = fields.param_value as number;
+			this.params[index].value = this.params[index].name === 'SERIAL0_BAUD' ? Math.min(value, 2000) : value;
+			this.sendParam(index);
+			break;
+		}
+		}
+	}
+}
+
+suite('apParameters Test Suite', () => {
+	let sandbox: sinon.SinonSandbox;
+	let tmpDir: string;
+
+	setup(() => {
+		sandbox = sinon.createSandbox();
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ap-params-'));
+	});
+
+	teardown(() => {
+		sandbox.restore();
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	suite('Parameter Protocol', () => {
+		let connection: MavlinkConnection | undefined;
+		let vehicle: VehicleStandIn | undefined;
+
+		async function connect(): Promise<{ connection: MavlinkConnection, vehicle: VehicleStandIn }> {
+			const port = await getFreePort();
+			connection = new MavlinkConnection({ type: 'udpin', host: '127.0.0.1', port });
+			await connection.open();
+			vehicle = new VehicleStandIn(port);
+			vehicle.start();
+			return { connection, vehicle };
+		}
+
+		teardown(() => {
+			connection?.dispose();
+			connection = undefined;
+			vehicle?.close();
+			vehicle = undefined;
+		});
+
+		test('should fetch the full parameter list', async () => {
+			const { connection, vehicle } = await connect();
+			const progress: number[] = [];
+
+			const params = await fetchParameters(connection, { onProgress: received => progress.push(received) });
+
+			assert.deepStrictEqual(params.map(param => param.name), vehicle.params.map(param => param.name));
+			assert.strictEqual(params[0].type, MAV_PARAM_TYPE_INT8);
+			assert.strictEqual(formatParameterValue(params[1].value), '0.135');
+			assert.deepStrictEqual(progress, [1, 2, 3, 4, 5]);
+		});
+
+		test('should re-request parameters lost on the link', async () => {
+			const { connection, vehicle } = await connect();
+			vehicle.dropOnList = new Set([1, 3]);
+
+			const params = await fetchParameters(connection, { idleMs: 100 });
+
+			assert.strictEqual(params.length, 5);
+			assert.strictEqual(params[3].name, 'SERIAL0_BAUD');
+			assert.strictEqual(vehicle.requests.filter(name => name === 'PARAM_REQUEST_READ').length, 2);
+		});
+
+		test('should set a parameter and confirm the value read back', async () => {
+			const { connection, vehicle } = await connect();
+
+			const readBack = await setParameter(connection, 'WPNAV_SPEED', 1250.5);
+
+			assert.strictEqual(readBack.value, 1250.5);
+			assert.strictEqual(vehicle.params[4].value, 1250.5);
+		});
+
+		test('should report a value the vehicle did not accept', async () => {
+			const { connection } = await connect();
+
+			await assert.rejects(setParameter(connection, 'SERIAL0_BAUD', 921600, MAV_PARAM_TYPE_INT8),
+				/Vehicle rejected SERIAL0_BAUD=921600, it reports 2000/);
+		});
+
+		test('should give up when the vehicle never answers a set', async () => {
+			const { connection, vehicle } = await connect();
+			vehicle.ignoreSets = true;
+
+			await assert.rejects(setParameter(connection, 'WPNAV_SPEED', 500, MAV_PARAM_TYPE_REAL32, 100, 1),
+				/No response from vehicle setting WPNAV_SPEED/);
+			assert.strictEqual(vehicle.requests.filter(name => name === 'PARAM_SET').length, 2);
+		});
+	});
+
+	suite('Parameter Files', () => {
+		test('should parse Mission Planner and MAVProxy formats', () => {
+			const content = [
+				'# saved by Mission Planner',
+				'ATC_RAT_RLL_P,0.135',
+				'SERIAL0_BAUD\t115',
+				'WPNAV_SPEED      1000.000000  # trailing comment',
+				'FORMAT_VERSION 120 @READONLY',
+				'',
+				'@include other.parm'
+			].join('\r\n');
+
+			assert.deepStrictEqual(parseParameterFile(content), [
+				{ name: 'ATC_RAT_RLL_P', value: 0.135 },
+				{ name: 'SERIAL0_BAUD', value: 115 },
+				{ name: 'WPNAV_SPEED', value: 1000 },
+				{ name: 'FORMAT_VERSION', value: 120 }
+			]);
+		});
+
+		test('should report malformed lines with their line number', () => {
+			assert.throws(() => parseParameterFile('ATC_RAT_RLL_P 0.1\nWPNAV_SPEED fast'), /line 2: WPNAV_SPEED fast/);
+			assert.throws(() => parseParameterFile('A_NAME_LONGER_THAN_16 1'), /line 1/);
+		});
+
+		test('should write both formats sorted by name', () => {
+			const params = [{ name: 'WPNAV_SPEED', value: 1000 }, { name: 'ATC_RAT_RLL_P', value: Math.fround(0.135) }];
+
+			assert.strictEqual(formatParameterFile(params, 'missionplanner'), 'ATC_RAT_RLL_P,0.135\nWPNAV_SPEED,1000\n');
+			assert.strictEqual(formatParameterFile(params, 'mavproxy'), 'ATC_RAT_RLL_P    0.135\nWPNAV_SPEED      1000\n');
+			assert.deepStrictEqual(parseParameterFile(formatParameterFile(params, 'mavproxy')).map(param => param.name),
+				['ATC_RAT_RLL_P', 'WPNAV_SPEED']);
+		});
+
+		test('should follow @include with later values overriding earlier ones', () => {
+			fs.writeFileSync(path.join(tmpDir, 'copter.parm'), 'WPNAV_SPEED 1000\nATC_RAT_RLL_P 0.1\n');
+			fs.writeFileSync(path.join(tmpDir, 'quad.parm'), '@include copter.parm\nATC_RAT_RLL_P 0.2\n');
+
+			const values = loadParameterFile(path.join(tmpDir, 'quad.parm'));
+
+			assert.deepStrictEqual(Object.fromEntries(values), { WPNAV_SPEED: 1000, ATC_RAT_RLL_P: 0.2 });
+		});
+
+		test('should reject recursive includes', () => {
+			fs.writeFileSync(path.join(tmpDir, 'loop.parm'), '@include loop.parm\n');
+
+			assert.throws(() => loadParameterFile(path.join(tmpDir, 'loop.parm')), /Recursive @include/);
+		});
+
+		test('should validate names, values and ranges against the documentation', () => {
+			const metadata = {
+				WPNAV_SPEED: { range: { low: 10, high: 2000 }, units: 'cm/s' },
+				FRAME_CLASS: { values: { '1': 'Quad', '2': 'Hexa' } },
+				ATC_RAT_RLL_P: {}
+			};
+			const content = [
+				'# copter defaults',
+				'WPNAV_SPEED 5000',
+				'FRAME_CLASS 7',
+				'ATC_RAT_RLL_P,fast',
+				'WPNAV_SPED 1000',
+				'FRAME_CLASS 1',
+				'A_NAME_LONGER_THAN_16 1',
+				'@include missing.parm'
+			].join('\n');
+
+			const problems = validateParameterFile(content, metadata, () => false);
+
+			assert.deepStrictEqual(problems.map(problem => [problem.line, problem.severity, problem.message]), [
+				[1, 'warning', 'WPNAV_SPEED is outside its range 10 to 2000 cm/s'],
+				[2, 'warning', '7 is not one of the documented values of FRAME_CLASS'],
+				[3, 'error', 'ATC_RAT_RLL_P needs a numeric value'],
+				[4, 'warning', 'Unknown parameter WPNAV_SPED'],
+				[5, 'warning', 'FRAME_CLASS is already set on line 3'],
+				[6, 'error', 'Invalid parameter name A_NAME_LONGER_THAN_16'],
+				[7, 'error', 'Included file not found: missing.parm']
+			]);
+			assert.deepStrictEqual([problems[0].start, problems[0].end], [12, 16]);
+		});
+
+		test('should only check the syntax without documentation', () => {
+			assert.deepStrictEqual(validateParameterFile('ANY_NAME 1\nOTHER 2 3\n'), [
+				{ line: 1, start: 7, end: 9, message: 'Unexpected text after the value of OTHER', severity: 'error' }
+			]);
+		});
+
+		test('should build sim_vehicle.py arguments for the configured files', () => {
+			const root = path.join(tmpDir, 'ardupilot');
+
+			assert.strictEqual(paramFileArgs(undefined, root), '');
+			assert.strictEqual(paramFileArgs(['Tools/autotest/default_params/copter.parm', path.join(tmpDir, 'mine.parm')], root),
+				`--add-param-file="${path.join(root, 'Tools', 'autotest', 'default_params', 'copter.parm')}" --add-param-file="${path.join(tmpDir, 'mine.parm')}"`);
+		});
+	});
+
+	suite('Parameter Metadata', () => {
+		test('should flatten the documentation generated by param_parse.py', () => {
+			fs.writeFileSync(path.join(tmpDir, 'apm.pdef.json'), JSON.stringify({
+				json: { version: 0 },
+				ArduCopter: {
+					FORMAT_VERSION: { DisplayName: 'Eeprom format version number', Description: 'Changing this resets parameters', ReadOnly: 'True' }
+				},
+				SERIAL: {
+					SERIAL0_BAUD: {
+						DisplayName: 'Serial0 baud rate',
+						Description: 'The baud rate used on the USB console.',
+						Values: { '57': '57600', '115': '115200' },
+						RebootRequired: 'True'
+					}
+				},
+				WPNAV_: {
+					WPNAV_SPEED: { DisplayName: 'Waypoint Horizontal Speed Target', Description: 'Speed', Units: 'cm/s', Range: { low: '10', high: '2000' }, Increment: '50' }
+				}
+			}));
+
+			const metadata = loadParameterMetadata(tmpDir);
+
+			assert.ok(metadata);
+			assert.deepStrictEqual(Object.keys(metadata).sort(), ['FORMAT_VERSION', 'SERIAL0_BAUD', 'WPNAV_SPEED']);
+			assert.strictEqual(metadata.FORMAT_VERSION.readOnly, true);
+			assert.strictEqual(metadata.SERIAL0_BAUD.values?.['115'], '115200');
+			assert.strictEqual(metadata.SERIAL0_BAUD.rebootRequired, true);
+			assert.deepStrictEqual(metadata.WPNAV_SPEED.range, { low: 10, high: 2000 });
+			assert.strictEqual(metadata.WPNAV_SPEED.units, 'cm/s');
+		});
+
+		test('should return undefined when no documentation was generated', () => {
+			assert.strictEqual(loadParameterMetadata(tmpDir), undefined);
+		});
+	});
+
+	suite('apParametersPanel', () => {
+		let vehicle: VehicleStandIn | undefined;
+
+		teardown(() => {
+			apParametersPanel.disposeAll();
+			vehicle?.close();
+			vehicle = undefined;
+		});
+
+		test('should fetch and edit the parameters of a UDP vehicle stand-in', async () => {
+			const port = await getFreePort();
+			const endpoint = parseEndpoint(`udp:127.0.0.1:${port}`);
+			const extension = vscode.extensions.getExtension('ardupilot-org.ardupilot-devenv');
+			assert.ok(extension);
+			vehicle = new VehicleStandIn(port);
+			vehicle.start();
+
+			const panel = await apParametersPanel.createOrShow(extension.extensionUri, endpoint, 'SITL');
+			assert.ok(panel);
+			await waitForCondition(() => panel.state.params.length === 5 && !panel.state.loading, 'parameters in the panel', 5000);
+
+			assert.strictEqual(panel.state.vehicle, 'ArduCopter');
+			const readBack = await panel.setParameter('WPNAV_SPEED', 750);
+			assert.strictEqual(readBack.value, 750);
+			assert.strictEqual(panel.state.params.find(param => param.name === 'WPNAV_SPEED')?.value, 750);
+
+			// the connection is released with the panel
+			panel.dispose();
+			assert.ok(!apParametersPanel.isOpen(endpoint));
+			assert.ok(!MavlinkConnection.isInUse(endpoint));
+		});
+
+		test('should show an error when the endpoint cannot be opened', async () => {
+			const showErrorStub = sandbox.stub(vscode.window, 'showErrorMessage');
+
+			const panel = await apParametersPanel.createOrShow(vscode.Uri.file('/'), parseEndpoint('tcp:127.0.0.1:1'));
+
+			assert.strictEqual(panel, undefined);
+			assert.ok(showErrorStub.calledOnce);
+		});
+	});
+});
@@ -0,0 +1,163 @@
+/*
+ * Test suite for apSwarm module
+ *
+ * Tests the SITL swarm launcher:
+ * - Reading and validating .vscode/sitl-swarm.json
+ * - Instance IDs, SYSIDs and home offsets
+ * - sim_vehicle.py arguments for each instance
+ * - The swarm tree view
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+	SWARM_FILE,
+	apSwarmProvider,
+	offsetLocation,
+	parseSwarmFile,
+	resolveSwarmInstances,
+	simVehicleArguments
+} from '../../apSwarm';
+import { getApExtApi } from './common';
+
+suite('apSwarm Test Suite', () => {
+	suite('Swarm Layout', () => {
+		test('should line up count vehicles eastwards with distinct IDs', () => {
+			const instances = resolveSwarmInstances(parseSwarmFile(JSON.stringify({
+				vehicle: 'copter',
+				count: 3,
+				spacing: 10,
+				home: { lat: 0, lng: 0, alt: 100, heading: 0 }
+			})));
+
+			assert.deepStrictEqual(instances.map(i => i.instance), [0, 1, 2]);
+			assert.deepStrictEqual(instances.map(i => i.sysid), [1, 2, 3]);
+			assert.deepStrictEqual(instances.map(i => i.name), ['Vehicle 1', 'Vehicle 2', 'Vehicle 3']);
+			assert.strictEqual(instances[0].home.lng, 0);
+			// 10m at the equator is about 9e-5 degrees
+			assert.ok(Math.abs(instances[1].home.lng - 8.983e-5) < 1e-7);
+			assert.strictEqual(instances[1].home.lat, 0);
+			assert.strictEqual(instances[2].home.alt, 100);
+		});
+
+		test('should honour explicit instances, SYSIDs and per-instance vehicles', () => {
+			const instances = resolveSwarmInstances(parseSwarmFile(JSON.stringify({
+				vehicle: 'copter',
+				args: '--speedup 2',
+				instances: [
+					{ name: 'Leader', instance: 4, sysid: 10, vehicle: 'plane', args: '--wipe-eeprom' },
+					{ name: 'Follower', offset: { north: 20 } }
+				]
+			})));
+
+			assert.strictEqual(instances[0].instance, 4);
+			assert.strictEqual(instances[0].sysid, 10);
+			assert.strictEqual(instances[0].vehicle, 'plane');
+			assert.strictEqual(instances[0].args, '--speedup 2 --wipe-eeprom');
+			assert.strictEqual(instances[1].instance, 1);
+			assert.strictEqual(instances[1].sysid, 2);
+			assert.strictEqual(instances[1].vehicle, 'copter');
+			assert.ok(instances[1].home.lat > instances[0].home.lat);
+		});
+
+		test('should fall back to the active SITL vehicle', () => {
+			const instances = resolveSwarmInstances({ count: 1 }, 'rover');
+			assert.strictEqual(instances[0].vehicle, 'rover');
+			assert.throws(() => resolveSwarmInstances({ count: 1 }), /has no vehicle/);
+		});
+
+		test('should reject clashing instance IDs and SYSIDs', () => {
+			assert.throws(() => resolveSwarmInstances({ vehicle: 'copter', instances: [{ instance: 1 }, { instance: 1, sysid: 5 }] }),
+				/instance ID 1 is used more than once/);
+			assert.throws(() => resolveSwarmInstances({ vehicle: 'copter', instances: [{ sysid: 3 }, { sysid: 3 }] }),
+				/SYSID 3 is used more than once/);
+			assert.throws(() => resolveSwarmInstances({ vehicle: 'copter', instances: [{ sysid: 256 }] }), /invalid SYSID 256/);
+		});
+
+		test('should reject malformed swarm files', () => {
+			assert.throws(() => parseSwarmFile('{ vehicle: copter'), /not valid JSON/);
+			assert.throws(() => parseSwarmFile('[]'), /must contain a JSON object/);
+			assert.throws(() => parseSwarmFile('{"instances": {}}'), /"instances" must be an array/);
+			assert.throws(() => parseSwarmFile('{"count": 0}'), /"count" must be a positive integer/);
+		});
+
+		test('should offset by metres north and east', () => {
+			const home = { lat: 60, lng: 10, alt: 0, heading: 90 };
+			const moved = offsetLocation(home, 111.32, 55.66);
+			assert.ok(Math.abs(moved.lat - 60.001) < 1e-5);
+			// a degree of longitude is half as long at 60 degrees latitude
+			assert.ok(Math.abs(moved.lng - 10.001) < 1e-5);
+			assert.strictEqual(moved.heading, 90);
+		});
+	});
+
+	suite('sim_vehicle.py Arguments', () => {
+		test('should pass instance, SYSID and custom location', () => {
+			const [instance] = resolveSwarmInstances({
+				vehicle: 'plane',
+				frame: 'quadplane',
+				home: { lat: -35.5, lng: 149.25, alt: 584, heading: 353 },
+				instances: [{ instance: 2, args: '--speedup 5' }]
+			});
+
+			assert.deepStrictEqual(simVehicleArguments(instance), [
+				'--no-rebuild',
+				'-v', 'ArduPlane',
+				'-f', 'quadplane',
+				'-I2',
+				'--sysid', '3',
+				'--custom-location=-35.5000000,149.2500000,584,353',
+				'--speedup 5'
+			]);
+		});
+
+		test('should run helicopters as ArduCopter with the heli frame', () => {
+			const [instance] = resolveSwarmInstances({ vehicle: 'heli', count: 1 });
+			const args = simVehicleArguments(instance);
+			assert.deepStrictEqual(args.slice(1, 5), ['-v', 'ArduCopter', '-f', 'heli']);
+		});
+	});
+
+	suite('apSwarmProvider', () => {
+		let tmpDir: string;
+		let provider: apSwarmProvider;
+
+		setup(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apswarm-test-'));
+			provider = new apSwarmProvider(tmpDir);
+		});
+
+		teardown(() => {
+			provider.dispose();
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		test('should show no instances without a swarm file', () => {
+			assert.strictEqual(provider.loadInstances(), undefined);
+			assert.deepStrictEqual(provider.getChildren(), []);
+		});
+
+		test('should list one stopped node per instance', () => {
+			fs.mkdirSync(path.join(tmpDir, '.vscode'));
+			fs.writeFileSync(path.join(tmpDir, SWARM_FILE), JSON.stringify({ vehicle: 'copter', count: 2 }));
+
+			const items = provider.getChildren();
+			assert.deepStrictEqual(items.map(item => item.label), ['Vehicle 1', 'Vehicle 2']);
+			assert.strictEqual(items[1].contextValue, 'swarmInstanceStopped');
+			assert.strictEqual(items[1].description, 'copter SYSID 2');
+			assert.ok((items[1].tooltip as string).includes('udp:127.0.0.1:14560'));
+			assert.strictEqual((items[1].iconPath as vscode.ThemeIcon).id, 'vm-outline');
+		});
+
+		test('should register the swarm commands', async () => {
+			await getApExtApi();
+			const commands = await vscode.commands.getCommands();
+			for (const command of ['startAll', 'stopAll', 'start', 'stop', 'restart', 'attachDebugger', 'editFile']) {
+				assert.ok(commands.includes(`sitl-swarm.${command}`), `sitl-swarm.${command} not registered`);
+			}
+		});
+	});
+});
@@ -0,0 +1,124 @@
+/*
+ * Test suite for apSymbols module
+ *
+ * Tests symbol size analysis for the flash usage explorer:
+ * - Parsing nm output with demangled names and source locations
+ * - Grouping by library and source file
+ * - Flash and RAM regions
+ * - Comparing two builds
+ */
+
+import * as assert from 'assert';
+import {
+	NO_DEBUG_INFO,
+	SizeNode,
+	TOOLCHAIN,
+	buildSizeTree,
+	diffSizeTrees,
+	libraryOf,
+	parseNmOutput,
+	symbolInRegion
+} from '../../apSymbols';
+
+const ROOT = '/home/dev/ardupilot';
+
+const NM_OUTPUT = [
+	'08001000 00000010 T memcpy',
+	`08002000 00000200 T AP_AHRS::update(bool)\t${ROOT}/libraries/AP_AHRS/AP_AHRS.cpp:512`,
+	`08003000 00000100 t AP_AHRS::reset()\t${ROOT}/libraries/AP_AHRS/AP_AHRS.cpp:90`,
+	`08004000 00000080 T AP_AHRS_DCM::update()\t${ROOT}/libraries/AP_AHRS/AP_AHRS_DCM.cpp:40`,
+	`08005000 00000300 T Copter::fast_loop()\t${ROOT}/ArduCopter/Copter.cpp:250`,
+	`08006000 00000040 R ap_romfs_data\t${ROOT}/build/CubeOrange/ap_romfs_embedded.h:1`,
+	'08007000 00000020 T __aeabi_uldivmod\t/opt/gcc-arm-none-eabi/src/libgcc/lib1funcs.S:1',
+	`20000000 00000008 D g_counter\t${ROOT}/libraries/AP_HAL/Util.cpp:10`,
+	`20001000 00001000 B Copter::g_stack\t${ROOT}/ArduCopter/Copter.cpp:20`,
+	'not a symbol line'
+].join('\n');
+
+function child(node: SizeNode, name: string): SizeNode {
+	const found = node.children?.find(c => c.name === name);
+	assert.ok(found, `${name} not found under ${node.name}`);
+	return found;
+}
+
+suite('apSymbols Test Suite', () => {
+	suite('nm Output', () => {
+		test('should parse sizes, types, demangled names and locations', () => {
+			const symbols = parseNmOutput(NM_OUTPUT, ROOT);
+			assert.strictEqual(symbols.length, 9);
+			assert.deepStrictEqual(symbols[0], { name: 'memcpy', size: 0x10, type: 'T' });
+			assert.deepStrictEqual(symbols[1], {
+				name: 'AP_AHRS::update(bool)',
+				size: 0x200,
+				type: 'T',
+				file: 'libraries/AP_AHRS/AP_AHRS.cpp',
+				line: 512
+			});
+			// files outside the workspace keep their absolute path
+			assert.strictEqual(symbols[6].file, '/opt/gcc-arm-none-eabi/src/libgcc/lib1funcs.S');
+		});
+
+		test('should group files by library', () => {
+			assert.strictEqual(libraryOf('libraries/AP_HAL_ChibiOS/hwdef/common/stubs.c'), 'libraries/AP_HAL_ChibiOS');
+			assert.strictEqual(libraryOf('modules/ChibiOS/os/rt/src/chschd.c'), 'modules/ChibiOS');
+			assert.strictEqual(libraryOf('ArduCopter/Copter.cpp'), 'ArduCopter');
+			assert.strictEqual(libraryOf('build/CubeOrange/ap_romfs_embedded.h'), 'build (generated)');
+			assert.strictEqual(libraryOf('/usr/include/c++/12/bits/stl_vector.h'), TOOLCHAIN);
+			assert.strictEqual(libraryOf(undefined), NO_DEBUG_INFO);
+		});
+
+		test('should count initialised data in both flash and RAM', () => {
+			assert.ok(symbolInRegion('T', 'flash') && !symbolInRegion('T', 'ram'));
+			assert.ok(symbolInRegion('r', 'flash') && !symbolInRegion('r', 'ram'));
+			assert.ok(symbolInRegion('D', 'flash') && symbolInRegion('D', 'ram'));
+			assert.ok(!symbolInRegion('b', 'flash') && symbolInRegion('B', 'ram'));
+		});
+	});
+
+	suite('Size Tree', () => {
+		test('should roll symbols up by library and source file, largest first', () => {
+			const tree = buildSizeTree(parseNmOutput(NM_OUTPUT, ROOT), 'flash');
+			assert.strictEqual(tree.size, 0x10 + 0x200 + 0x100 + 0x80 + 0x300 + 0x40 + 0x20 + 0x8);
+			assert.deepStrictEqual(tree.children?.map(c => c.name), [
+				'libraries/AP_AHRS', 'ArduCopter', 'build (generated)', TOOLCHAIN, NO_DEBUG_INFO, 'libraries/AP_HAL'
+			]);
+
+			const ahrs = child(tree, 'libraries/AP_AHRS');
+			assert.strictEqual(ahrs.size, 0x380);
+			assert.deepStrictEqual(ahrs.children?.map(c => c.name), ['libraries/AP_AHRS/AP_AHRS.cpp', 'libraries/AP_AHRS/AP_AHRS_DCM.cpp']);
+			const update = child(child(ahrs, 'libraries/AP_AHRS/AP_AHRS.cpp'), 'AP_AHRS::update(bool)');
+			assert.strictEqual(update.line, 512);
+			assert.strictEqual(update.children, undefined);
+		});
+
+		test('should only include RAM symbols in the RAM view', () => {
+			const tree = buildSizeTree(parseNmOutput(NM_OUTPUT, ROOT), 'ram');
+			assert.strictEqual(tree.size, 0x1008);
+			assert.deepStrictEqual(tree.children?.map(c => c.name), ['ArduCopter', 'libraries/AP_HAL']);
+		});
+
+		test('should compare two builds including added and removed symbols', () => {
+			const before = buildSizeTree(parseNmOutput([
+				`08002000 00000180 T AP_AHRS::update(bool)\t${ROOT}/libraries/AP_AHRS/AP_AHRS.cpp:512`,
+				`08009000 00000050 T AP_Mount::update()\t${ROOT}/libraries/AP_Mount/AP_Mount.cpp:30`
+			].join('\n'), ROOT), 'flash');
+			const after = buildSizeTree(parseNmOutput([
+				`08002000 00000200 T AP_AHRS::update(bool)\t${ROOT}/libraries/AP_AHRS/AP_AHRS.cpp:512`,
+				`08003000 00000100 t AP_AHRS::reset()\t${ROOT}/libraries/AP_AHRS/AP_AHRS.cpp:90`
+			].join('\n'), ROOT), 'flash');
+
+			const diff = diffSizeTrees(after, before);
+			assert.strictEqual(diff.size, 0x300);
+			assert.strictEqual(diff.baseSize, 0x1D0);
+
+			const ahrsFile = child(child(diff, 'libraries/AP_AHRS'), 'libraries/AP_AHRS/AP_AHRS.cpp');
+			assert.strictEqual(child(ahrsFile, 'AP_AHRS::update(bool)').baseSize, 0x180);
+			assert.strictEqual(child(ahrsFile, 'AP_AHRS::reset()').baseSize, 0);
+
+			const mount = child(diff, 'libraries/AP_Mount');
+			assert.strictEqual(mount.size, 0);
+			assert.strictEqual(mount.baseSize, 0x50);
+			assert.strictEqual(child(child(mount, 'libraries/AP_Mount/AP_Mount.cpp'), 'AP_Mount::update()').baseSize, 0x50);
+		});
+	});
+});
@@ -0,0 +1,108 @@
+/*
+ * Test suite for apWafOutput module
+ *
+ * Tests the parsing of waf build output:
+ * - "[ n/total]" progress lines, including ones split across chunks
+ * - Compiler errors and warnings with include chains, template backtraces and notes
+ * - The end of build summary
+ */
+
+import * as assert from 'assert';
+import { formatElapsed, parseWafProgress, sourceComponent, WafOutputParser } from '../../apWafOutput';
+
+const OUTPUT = `Waf: Entering directory \`/home/dev/ardupilot/build/sitl'
+[ 1/12] Compiling libraries/AP_HAL/Util.cpp
+\u001b[01;32m[ 2/12] \u001b[0mCompiling libraries/AP_Math/vector3.cpp
+In file included from ../../libraries/AP_Math/AP_Math.h:12,
+                 from ../../libraries/AP_Math/vector3.cpp:3:
+../../libraries/AP_Math/vector3.h: In member function 'T Vector3<T>::length() const':
+../../libraries/AP_Math/vector3.h:88:13: warning: unused variable 'unused' [-Wunused-variable]
+   88 |         int unused;
+      |             ^~~~~~
+[ 3/12] Compiling ArduCopter/mode.cpp
+../../libraries/AP_Common/Bitmask.h: In instantiation of 'void Bitmask<num_bits>::set(uint16_t) [with short unsigned int num_bits = 64]':
+../../ArduCopter/mode.cpp:40:20:   required from here
+../../libraries/AP_Common/Bitmask.h:57:9: error: 'bitsx' was not declared in this scope; did you mean 'bits'?
+   57 |         bitsx[word] |= (1U << ofs);
+      |         ^~~~~
+../../libraries/AP_Common/Bitmask.h:120:14: note: 'bits' declared here
+In file included from ../../libraries/AP_Math/AP_Math.h:12,
+                 from ../../ArduCopter/mode.cpp:1:
+../../libraries/AP_Math/vector3.h: In member function 'T Vector3<T>::length() const':
+../../libraries/AP_Math/vector3.h:88:13: warning: unused variable 'unused' [-Wunused-variable]
+../../ArduCopter/mode.cpp:75:5: warning: comparison of integer expressions of different signedness [-Wsign-compare]
+
+Waf: Leaving directory \`/home/dev/ardupilot/build/sitl'
+Build failed
+ -> task in 'objs/ArduCopter' failed with exit status 1 (run with -v to display more information)
+`;
+
+suite('apWafOutput Test Suite', () => {
+	test('should follow waf progress', () => {
+		assert.deepStrictEqual(parseWafProgress('[  7/845] Linking build/sitl/bin/arducopter'), {
+			current: 7, total: 845, message: 'Linking build/sitl/bin/arducopter'
+		});
+		assert.strictEqual(parseWafProgress('Waf: Entering directory'), undefined);
+
+		const parser = new WafOutputParser('/home/dev/ardupilot');
+		assert.strictEqual(parser.addOutput('[ 4/12] Compil'), undefined);
+		assert.deepStrictEqual(parser.addOutput('ing ArduCopter/Copter.cpp\n[ 5/'), {
+			current: 4, total: 12, message: 'Compiling ArduCopter/Copter.cpp'
+		});
+		// the other stream does not complete the line
+		assert.strictEqual(parser.addOutput('12] Compiling x.cpp\n', 'stderr'), undefined);
+		assert.strictEqual(parser.addOutput('12] Compiling ArduCopter/Log.cpp\r\n')?.current, 5);
+	});
+
+	test('should collect compiler messages with their context', () => {
+		const parser = new WafOutputParser('/home/dev/ardupilot');
+		parser.addOutput(OUTPUT);
+		assert.strictEqual(parser.progress?.current, 3);
+
+		const [unused, bitmask, signedness] = parser.diagnostics;
+		assert.strictEqual(parser.diagnostics.length, 3, 'the repeated header warning is reported once');
+		assert.deepStrictEqual(unused, {
+			file: 'libraries/AP_Math/vector3.h',
+			line: 88,
+			column: 13,
+			severity: 'warning',
+			message: 'unused variable \'unused\' [-Wunused-variable]',
+			related: [
+				{ file: 'libraries/AP_Math/AP_Math.h', line: 12, column: 0, message: 'In file included from here' },
+				{ file: 'libraries/AP_Math/vector3.cpp', line: 3, column: 0, message: 'In file included from here' }
+			]
+		});
+		assert.strictEqual(bitmask.severity, 'error');
+		assert.deepStrictEqual(bitmask.related.map(related => `${related.file}:${related.line} ${related.message}`), [
+			'ArduCopter/mode.cpp:40 required from here',
+			'libraries/AP_Common/Bitmask.h:120 \'bits\' declared here'
+		]);
+		assert.deepStrictEqual(signedness.related, [], 'context of the previous message does not carry over');
+		assert.strictEqual(parser.otherError, undefined);
+
+		const linker = new WafOutputParser();
+		linker.addOutput('/usr/bin/ld: mode.o: in function `Mode::run()\':\nmode.cpp:(.text+0x1c): undefined reference to `foo()\'\n');
+		assert.strictEqual(linker.otherError, 'mode.cpp:(.text+0x1c): undefined reference to `foo()\'');
+	});
+
+	test('should summarise the build', () => {
+		const parser = new WafOutputParser('/home/dev/ardupilot');
+		parser.addOutput(OUTPUT);
+		assert.deepStrictEqual(parser.warningsByComponent(), [['AP_Math', 1], ['ArduCopter', 1]]);
+		assert.deepStrictEqual(parser.summary(83400), [
+			'======== Build Summary ========',
+			'First error: libraries/AP_Common/Bitmask.h:57:9: \'bitsx\' was not declared in this scope; did you mean \'bits\'?',
+			'    ArduCopter/mode.cpp:40:20: required from here',
+			'    libraries/AP_Common/Bitmask.h:120:14: \'bits\' declared here',
+			'Warnings: 2',
+			'    AP_Math     1',
+			'    ArduCopter  1',
+			'Elapsed: 1m 23s'
+		]);
+		assert.deepStrictEqual(new WafOutputParser().summary(4321), ['======== Build Summary ========', 'Warnings: none', 'Elapsed: 4.3s']);
+
+		assert.strictEqual(sourceComponent('modules/mavlink/include/mavlink.h'), 'modules/mavlink');
+		assert.strictEqual(sourceComponent('/usr/include/stdio.h'), 'external');
+		assert.strictEqual(formatElapsed(605000), '10m 05s');
+	});
+});
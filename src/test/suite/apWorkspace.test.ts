@@ -0,0 +1,101 @@
+/*
+ * Test suite for apWorkspace module
+ *
+ * Tests the ArduPilot folders of a multi-root workspace:
+ * - Recognising ArduPilot checkouts
+ * - Which workspace folders are ArduPilot folders
+ * - The folder a task belongs to
+ * - Where folder settings are written
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { apWorkspace, isArdupilotCheckout } from '../../apWorkspace';
+
+function makeFolder(root: string, name: string, index: number, checkout: boolean): vscode.WorkspaceFolder {
+	const dir = path.join(root, name);
+	fs.mkdirSync(path.join(dir, 'libraries', checkout ? 'AP_HAL' : 'other'), { recursive: true });
+	if (checkout) {
+		fs.writeFileSync(path.join(dir, 'waf'), '');
+	}
+	return { uri: vscode.Uri.file(dir), name, index };
+}
+
+suite('apWorkspace Test Suite', () => {
+	let sandbox: sinon.SinonSandbox;
+	let root: string;
+
+	setup(() => {
+		sandbox = sinon.createSandbox();
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'ap-workspace-'));
+	});
+
+	teardown(() => {
+		sandbox.restore();
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('should recognise ArduPilot checkouts by waf and the HAL', () => {
+		assert.strictEqual(isArdupilotCheckout(makeFolder(root, 'ardupilot', 0, true).uri.fsPath), true);
+		assert.strictEqual(isArdupilotCheckout(makeFolder(root, 'docs', 1, false).uri.fsPath), false);
+	});
+
+	test('should only use the ArduPilot folders of a multi-root workspace', () => {
+		const main = makeFolder(root, 'ardupilot', 0, true);
+		const docs = makeFolder(root, 'docs', 1, false);
+		const release = makeFolder(root, 'Copter-4.6', 2, true);
+
+		sandbox.stub(vscode.workspace, 'workspaceFolders').value([main, docs, release]);
+		assert.deepStrictEqual(apWorkspace.folders.map(folder => folder.name), ['ardupilot', 'Copter-4.6']);
+		assert.strictEqual(apWorkspace.isMultiRoot, true);
+		assert.strictEqual(apWorkspace.configurationTarget, vscode.ConfigurationTarget.WorkspaceFolder);
+		assert.ok(apWorkspace.folders.some(folder => apWorkspace.isSameFolder(folder, apWorkspace.folder)));
+	});
+
+	test('should keep single folder workspaces as they are', () => {
+		const docs = makeFolder(root, 'docs', 0, false);
+		const main = makeFolder(root, 'ardupilot', 1, true);
+
+		sandbox.stub(vscode.workspace, 'workspaceFolders').value([docs]);
+		assert.deepStrictEqual(apWorkspace.folders, [docs]);
+		assert.strictEqual(apWorkspace.rootPath, docs.uri.fsPath);
+		assert.strictEqual(apWorkspace.configurationTarget, vscode.ConfigurationTarget.Workspace);
+
+		// one checkout next to other folders is not a multi-root ArduPilot workspace
+		sandbox.stub(vscode.workspace, 'workspaceFolders').value([docs, main]);
+		assert.deepStrictEqual(apWorkspace.folders, [main]);
+		assert.strictEqual(apWorkspace.isMultiRoot, false);
+	});
+
+	test('should scope tasks to the folder whose tasks.json defines them', () => {
+		const main = makeFolder(root, 'ardupilot', 0, true);
+		const release = makeFolder(root, 'Copter-4.6', 1, true);
+		sandbox.stub(vscode.workspace, 'workspaceFolders').value([main, release]);
+
+		const definition = { type: 'ardupilot', configName: 'CubeOrange-copter' };
+		const folderTask = new vscode.Task(definition, release, 'CubeOrange-copter', 'ardupilot');
+		const workspaceTask = new vscode.Task(definition, vscode.TaskScope.Workspace, 'CubeOrange-copter', 'ardupilot');
+
+		assert.strictEqual(apWorkspace.folderOf(folderTask), release);
+		assert.strictEqual(apWorkspace.rootOf(folderTask), release.uri.fsPath);
+		assert.strictEqual(apWorkspace.folderOf(workspaceTask), apWorkspace.folder);
+		assert.strictEqual(apWorkspace.folderOf(undefined), apWorkspace.folder);
+	});
+
+	test('should read the active configuration of each folder', () => {
+		const main = makeFolder(root, 'ardupilot', 0, true);
+		const release = makeFolder(root, 'Copter-4.6', 1, true);
+		sandbox.stub(vscode.workspace, 'getConfiguration').callsFake((section?: string, scope?: vscode.ConfigurationScope | null) => ({
+			get: (key: string) => section === 'ardupilot' && key === 'activeConfiguration'
+				? ((scope as vscode.Uri | undefined)?.fsPath === release.uri.fsPath ? 'CubeOrange-copter' : '')
+				: undefined
+		}) as unknown as vscode.WorkspaceConfiguration);
+
+		assert.strictEqual(apWorkspace.activeConfigurationName(release), 'CubeOrange-copter');
+		assert.strictEqual(apWorkspace.activeConfigurationName(main), undefined);
+	});
+});
@@ -0,0 +1,82 @@
+/*
+ * Test suite for apWorktree module
+ *
+ * Tests the git worktree helpers:
+ * - Parsing `git worktree list --porcelain`
+ * - Reading pull request numbers and URLs
+ * - Choosing the ArduPilot remote
+ * - Default worktree directories
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+	defaultWorktreePath,
+	describeWorktree,
+	GitRemote,
+	parsePullRequest,
+	parseWorktreeList,
+	pullRequestBranch,
+	upstreamRemote
+} from '../../apWorktree';
+
+function remote(name: string, url: string): GitRemote {
+	return { name, refs: { fetch: url, push: url } };
+}
+
+suite('apWorktree Test Suite', () => {
+	test('should parse the porcelain worktree list', () => {
+		const worktrees = parseWorktreeList([
+			'worktree /src/ardupilot',
+			'HEAD 1111111111111111111111111111111111111111',
+			'branch refs/heads/master',
+			'',
+			'worktree /src/ardupilot-Copter-4.6',
+			'HEAD 2222222222222222222222222222222222222222',
+			'branch refs/heads/Copter-4.6',
+			'locked',
+			'',
+			'worktree /src/ardupilot-review',
+			'HEAD 3333333333333333333333333333333333333333',
+			'detached',
+			'prunable gitdir file points to non-existent location',
+			''
+		].join('\n'));
+
+		assert.deepStrictEqual(worktrees.map(worktree => [worktree.path, worktree.branch, worktree.main, worktree.locked, worktree.prunable]), [
+			['/src/ardupilot', 'master', true, false, false],
+			['/src/ardupilot-Copter-4.6', 'Copter-4.6', false, true, false],
+			['/src/ardupilot-review', undefined, false, false, true]
+		]);
+		assert.strictEqual(describeWorktree(worktrees[2]), 'detached at 33333333');
+		assert.deepStrictEqual(parseWorktreeList(''), []);
+	});
+
+	test('should read pull request numbers and URLs', () => {
+		assert.strictEqual(parsePullRequest('12345'), 12345);
+		assert.strictEqual(parsePullRequest(' #12345 '), 12345);
+		assert.strictEqual(parsePullRequest('pull/12345'), 12345);
+		assert.strictEqual(parsePullRequest('https://github.com/ArduPilot/ardupilot/pull/12345/files'), 12345);
+		assert.strictEqual(parsePullRequest('Copter-4.6'), undefined);
+		assert.strictEqual(parsePullRequest('0'), undefined);
+		assert.strictEqual(pullRequestBranch(12345), 'pr-12345');
+	});
+
+	test('should prefer the ArduPilot remote over forks', () => {
+		assert.strictEqual(upstreamRemote([
+			remote('origin', 'git@github.com:someone/ardupilot.git'),
+			remote('upstream', 'https://github.com/ArduPilot/ardupilot.git')
+		]), 'upstream');
+		assert.strictEqual(upstreamRemote([
+			remote('mirror', '/srv/mirrors/ardupilot.git'),
+			remote('origin', 'git@github.com:someone/ardupilot.git')
+		]), 'origin');
+		assert.strictEqual(upstreamRemote([]), undefined);
+	});
+
+	test('should place worktrees next to the repository', () => {
+		const repository = path.join(path.sep, 'src', 'ardupilot');
+		assert.strictEqual(defaultWorktreePath(repository, 'Copter-4.6'), path.join(path.sep, 'src', 'ardupilot-Copter-4.6'));
+		assert.strictEqual(defaultWorktreePath(repository, 'feature/new thing'), path.join(path.sep, 'src', 'ardupilot-feature-new-thing'));
+	});
+});
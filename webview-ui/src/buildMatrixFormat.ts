@@ -0,0 +1,66 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+// Results table of the build matrix
+
+export type BuildCellStatus = "queued" | "running" | "passed" | "failed" | "cancelled";
+
+// BuildMatrixCell of apBuildMatrix, without its task definition
+export interface BuildMatrixCell {
+  id: string;
+  board: string;
+  target: string;
+  status: BuildCellStatus;
+  durationMs?: number;
+  flash?: number;
+  flashSizeKB?: number;
+  error?: string;
+  logFile?: string;
+}
+
+// BuildMatrixState of apBuildMatrixPanel
+export interface BuildMatrixState {
+  name: string;
+  folder: string;
+  running: boolean;
+  concurrency: number;
+  boards: string[];
+  targets: string[];
+  cells: BuildMatrixCell[];
+  missing: string[];
+}
+
+export const STATUS_ICONS: Record<BuildCellStatus, string> = {
+  queued: "○",
+  running: "◐",
+  passed: "✅",
+  failed: "❌",
+  cancelled: "⊘",
+};
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+// flash used, with the share of the board's flash when known
+export function formatFlash(cell: BuildMatrixCell): string {
+  if (cell.flash === undefined) {
+    return "";
+  }
+  const text = cell.flash < 1024 * 1024 ? `${(cell.flash / 1024).toFixed(1)} KB` : `${(cell.flash / (1024 * 1024)).toFixed(2)} MB`;
+  return cell.flashSizeKB ? `${text} (${(cell.flash / (cell.flashSizeKB * 1024) * 100).toFixed(1)}%)` : text;
+}
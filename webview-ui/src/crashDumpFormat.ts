@@ -0,0 +1,60 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+// Decoded crash dump shown by the crash dump view
+
+export interface SourceLocation {
+  function: string;
+  file?: string;
+  line?: number;
+}
+
+export interface BacktraceFrame {
+  address: number;
+  // where the address came from: PC, LR or the stack slot holding it
+  origin: string;
+  // innermost first, then the functions it was inlined into
+  locations: SourceLocation[];
+}
+
+export interface FaultSummary {
+  exception: string;
+  causes: string[];
+  address?: number;
+}
+
+// CrashDumpState of apCrashDumpPanel
+export interface CrashDumpState {
+  title: string;
+  dumpFile: string;
+  elfFile: string;
+  loading: boolean;
+  error?: string;
+  version?: string;
+  fault?: FaultSummary;
+  registers: { name: string; value: number }[];
+  backtrace: BacktraceFrame[];
+  stack: { address: number; value: number; function?: string }[];
+  canDebug: boolean;
+}
+
+export function hex(value: number): string {
+  return `0x${(value >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+export function fileName(file: string): string {
+  return file.split(/[\\/]/).pop() ?? file;
+}
@@ -0,0 +1,134 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+// Dependency resolution between build_options.py features, as custom.ardupilot.org does it
+
+export type FeatureState = 'enabled' | 'disabled';
+
+export interface FeatureDefinition {
+  label: string;
+  define: string;
+  category?: string;
+  description?: string;
+  default?: number;
+  // labels of the features it needs, comma separated
+  dependency?: string | null;
+}
+
+export interface FeatureConflict {
+  feature: string;
+  dependency: string;
+  reason: 'disabled' | 'off by default';
+}
+
+export interface FeatureFlashImpact {
+  bytes: number;
+  builds: number;
+}
+
+// name used in the --enable-/--disable- flags
+export function featureFlagName(label: string): string {
+  return label.replace(/\s+/g, '-');
+}
+
+export function dependenciesOf(definition: FeatureDefinition): string[] {
+  if (!definition.dependency) {
+    return [];
+  }
+  return definition.dependency
+    .split(',')
+    .map((label) => label.trim())
+    .filter((label) => label)
+    .map(featureFlagName);
+}
+
+export function parseFeatureFlags(featureConfig: string): Map<string, FeatureState> {
+  const states = new Map<string, FeatureState>();
+  for (const flag of featureConfig.split(/\s+/)) {
+    if (flag.startsWith('--enable-')) {
+      states.set(flag.slice('--enable-'.length), 'enabled');
+    } else if (flag.startsWith('--disable-')) {
+      states.set(flag.slice('--disable-'.length), 'disabled');
+    }
+  }
+  return states;
+}
+
+export function definitionsByName(definitions: FeatureDefinition[]): Map<string, FeatureDefinition> {
+  return new Map(definitions.map((definition) => [featureFlagName(definition.label), definition]));
+}
+
+/**
+ * Everything a feature needs, directly or through other features
+ */
+export function requiredFeatures(name: string, byName: Map<string, FeatureDefinition>): string[] {
+  const required = new Set<string>();
+  const pending = [name];
+  while (pending.length > 0) {
+    const definition = byName.get(pending.pop() as string);
+    for (const dependency of definition ? dependenciesOf(definition) : []) {
+      if (dependency !== name && !required.has(dependency)) {
+        required.add(dependency);
+        pending.push(dependency);
+      }
+    }
+  }
+  return [...required];
+}
+
+/**
+ * Every feature that needs this one, directly or through other features
+ */
+export function dependentFeatures(name: string, byName: Map<string, FeatureDefinition>): string[] {
+  const dependents = new Set<string>();
+  const pending = [name];
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    byName.forEach((definition, candidate) => {
+      if (candidate !== name && !dependents.has(candidate) && dependenciesOf(definition).includes(current)) {
+        dependents.add(candidate);
+        pending.push(candidate);
+      }
+    });
+  }
+  return [...dependents];
+}
+
+export function findFeatureConflicts(states: Map<string, FeatureState>, byName: Map<string, FeatureDefinition>): FeatureConflict[] {
+  const conflicts: FeatureConflict[] = [];
+  states.forEach((state, feature) => {
+    const definition = byName.get(feature);
+    if (state !== 'enabled' || !definition) {
+      return;
+    }
+    for (const dependency of dependenciesOf(definition)) {
+      const dependencyState = states.get(dependency);
+      if (dependencyState === 'disabled') {
+        conflicts.push({ feature, dependency, reason: 'disabled' });
+      } else if (dependencyState === undefined && byName.get(dependency)?.default === 0) {
+        conflicts.push({ feature, dependency, reason: 'off by default' });
+      }
+    }
+  });
+  return conflicts;
+}
+
+// flash cost for display, e.g. "+12.3 KB"
+export function formatFlashImpact(bytes: number): string {
+  const sign = bytes < 0 ? '-' : '+';
+  const size = Math.abs(bytes);
+  return size < 1024 ? `${sign}${size} B` : `${sign}${(size / 1024).toFixed(1)} KB`;
+}
@@ -0,0 +1,172 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+// Formatting and plot helpers for the DataFlash log viewer
+
+import { flightModeName } from './telemetryFormat';
+
+export interface LogField {
+  name: string;
+  unit?: string;
+  numeric: boolean;
+}
+
+export interface LogMessageType {
+  name: string;
+  count: number;
+  fields: LogField[];
+  instances: number[];
+}
+
+export interface DataflashSummary {
+  firmware?: string;
+  startUS?: number;
+  endUS?: number;
+  parameters: { name: string; value: number; default?: number; changes: number }[];
+  messages: { timeUS: number; text: string }[];
+  modes: { timeUS: number; mode: number; reason?: number }[];
+  events: { timeUS: number; id: number; name: string }[];
+  errors: { timeUS: number; subsystem: number; code: number; description: string }[];
+}
+
+// LogViewerState of apLogViewer
+export interface LogViewerState {
+  fileName: string;
+  size: number;
+  corruptBytes: number;
+  types: LogMessageType[];
+  summary: DataflashSummary;
+  error?: string;
+}
+
+// rows of one message type, as dataflashRows returns them for the table
+export interface LogTablePage {
+  offset: number;
+  total: number;
+  rows: (number | string)[][];
+}
+
+export interface PlotSeries {
+  key: string;
+  message: string;
+  field: string;
+  instance?: number;
+  unit?: string;
+  color: string;
+  // seconds since boot
+  time: number[];
+  values: number[];
+}
+
+// VS Code chart colours, with fallbacks for themes that leave them out
+export const SERIES_COLORS: [string, string][] = [
+  ['--vscode-charts-blue', '#3794ff'],
+  ['--vscode-charts-red', '#f14c4c'],
+  ['--vscode-charts-green', '#89d185'],
+  ['--vscode-charts-yellow', '#cca700'],
+  ['--vscode-charts-purple', '#b180d7'],
+  ['--vscode-charts-orange', '#d18616'],
+];
+
+export function seriesLabel(message: string, field: string, instance?: number): string {
+  return instance === undefined ? `${message}.${field}` : `${message}[${instance}].${field}`;
+}
+
+// MAV_TYPE for the firmware named in the log, so mode numbers can be named
+export function vehicleTypeFromFirmware(firmware?: string): number {
+  if (!firmware) {
+    return 2;
+  }
+  if (/ArduPlane/i.test(firmware)) {
+    return 1;
+  }
+  if (/Rover/i.test(firmware)) {
+    return 10;
+  }
+  if (/ArduSub/i.test(firmware)) {
+    return 12;
+  }
+  return 2;
+}
+
+export function modeName(firmware: string | undefined, mode: number): string {
+  return flightModeName(vehicleTypeFromFirmware(firmware), mode);
+}
+
+// boot time as m:ss.s
+export function formatTime(timeUS: number): string {
+  const seconds = timeUS / 1e6;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+}
+
+export function formatValue(value: number | string): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Number.isInteger(value)) {
+    return `${value}`;
+  }
+  return Math.abs(value) >= 1e5 || Math.abs(value) < 1e-3 ? value.toPrecision(7) : `${Number(value.toPrecision(7))}`;
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Round numbered axis ticks covering min to max
+ */
+export function niceTicks(min: number, max: number, count: number): number[] {
+  const span = max - min;
+  if (!(span > 0) || count < 1) {
+    return [min];
+  }
+  const rough = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * Index of the sample closest to a time, in a sorted list of times
+ */
+export function nearestIndex(times: number[], time: number): number {
+  if (times.length === 0) {
+    return -1;
+  }
+  let low = 0;
+  let high = times.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (times[middle] < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  if (low > 0 && Math.abs(times[low - 1] - time) <= Math.abs(times[low] - time)) {
+    return low - 1;
+  }
+  return low;
+}
@@ -0,0 +1,91 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+// Display helpers for parameter values and the metadata from apm.pdef.json
+
+export interface ParameterValue {
+  name: string;
+  value: number;
+  type: number;
+  index: number;
+}
+
+// ParametersState of apParametersPanel
+export interface ParametersState {
+  connection: string;
+  connected: boolean;
+  error?: string;
+  vehicle?: string;
+  loading: boolean;
+  progress: { received: number, total: number };
+  params: ParameterValue[];
+  defaults?: { file: string, values: Record<string, number> };
+  metadataAvailable: boolean;
+}
+
+export interface ParameterMetadata {
+  displayName?: string;
+  description?: string;
+  units?: string;
+  range?: { low: number, high: number };
+  values?: Record<string, string>;
+  bitmask?: Record<string, string>;
+  rebootRequired?: boolean;
+  readOnly?: boolean;
+}
+
+// parameters travel as single precision floats, show the shortest form that round trips
+export function formatValue(value: number): string {
+  if (Number.isInteger(value)) {
+    return value.toString();
+  }
+  const single = Math.fround(value);
+  for (let precision = 1; precision < 9; precision++) {
+    const text = parseFloat(single.toPrecision(precision)).toString();
+    if (Math.fround(parseFloat(text)) === single) {
+      return text;
+    }
+  }
+  return single.toString();
+}
+
+export function valuesDiffer(a: number, b: number): boolean {
+  const fa = Math.fround(a);
+  const fb = Math.fround(b);
+  return fa !== fb && Math.abs(fa - fb) > 1e-6 * Math.max(1, Math.abs(fa));
+}
+
+export function formatRange(meta?: ParameterMetadata): string {
+  return meta?.range ? `${meta.range.low} .. ${meta.range.high}` : '';
+}
+
+export function outOfRange(value: number, meta?: ParameterMetadata): boolean {
+  return !!meta?.range && (value < meta.range.low || value > meta.range.high);
+}
+
+// meaning of an enumerated or bitmask value, e.g. "Enabled" or "GPS, Compass"
+export function describeValue(value: number, meta?: ParameterMetadata): string {
+  if (meta?.values) {
+    return meta.values[formatValue(value)] ?? '';
+  }
+  if (meta?.bitmask && Number.isInteger(value)) {
+    return Object.entries(meta.bitmask)
+      .filter(([bit]) => Math.floor(value / 2 ** Number(bit)) % 2 === 1)
+      .map(([, name]) => name)
+      .join(', ');
+  }
+  return '';
+}
@@ -0,0 +1,129 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+// Grouping and colours for the board pinout
+
+export interface PinoutPin {
+  port: string;
+  label?: string;
+  type?: string;
+  alt?: number;
+  af?: number;
+  gpio?: number;
+  modifiers: string[];
+  location?: { file: string; line: number };
+}
+
+export interface SerialPort {
+  serial: number;
+  // e.g. USART2, OTG1 or EMPTY
+  uart: string;
+  // e.g. PD5 USART2_TX
+  pins: string[];
+}
+
+export interface SpiDevice {
+  name: string;
+  bus: string;
+  devid: string;
+  cs: string;
+  mode: string;
+  lowSpeed: string;
+  highSpeed: string;
+  location: { file: string; line: number };
+}
+
+export interface DmaAssignment {
+  // e.g. SPI1_RX
+  peripheral: string;
+  // e.g. DMA1 Stream 5
+  stream: string;
+  channel?: string;
+  shared: boolean;
+}
+
+export interface BoardPinout {
+  mcu?: string;
+  pins: PinoutPin[];
+  serialOrder: SerialPort[];
+  spiDevices: SpiDevice[];
+  // only known once the board has been configured, from the generated hwdef.h
+  dma?: DmaAssignment[];
+}
+
+// PinoutState of apPinoutPanel
+export interface PinoutState {
+  board: string;
+  loading: boolean;
+  error?: string;
+  pinout?: BoardPinout;
+  // hwdef.h generated by configure, where the DMA assignments come from
+  hwdefHeader?: string;
+}
+
+export interface PinClass {
+  name: string;
+  color: string;
+}
+
+const CLASSES: { pattern: RegExp; name: string; color: string }[] = [
+  { pattern: /^(USART|UART|LPUART)/, name: "Serial", color: "var(--vscode-charts-blue)" },
+  { pattern: /^(SPI|QUADSPI|OCTOSPI)/, name: "SPI", color: "var(--vscode-charts-purple)" },
+  { pattern: /^I2C/, name: "I2C", color: "var(--vscode-charts-yellow)" },
+  { pattern: /^(CAN|FDCAN)/, name: "CAN", color: "var(--vscode-charts-orange)" },
+  { pattern: /^TIM/, name: "Timer", color: "var(--vscode-charts-red)" },
+  { pattern: /^ADC/, name: "ADC", color: "var(--vscode-charts-green)" },
+  { pattern: /^(OTG|USB)/, name: "USB", color: "var(--vscode-terminal-ansiCyan)" },
+  { pattern: /^(SDIO|SDMMC)/, name: "SD card", color: "var(--vscode-terminal-ansiMagenta)" },
+  { pattern: /^CS$/, name: "Chip select", color: "var(--vscode-terminal-ansiBrightBlue)" },
+  { pattern: /^(INPUT|OUTPUT)$/, name: "GPIO", color: "var(--vscode-descriptionForeground)" },
+];
+
+const OTHER: PinClass = { name: "Other", color: "var(--vscode-terminal-ansiWhite)" };
+export const UNASSIGNED: PinClass = { name: "Unassigned", color: "transparent" };
+
+export function pinClass(pin: PinoutPin): PinClass {
+  if (!pin.type) {
+    return UNASSIGNED;
+  }
+  const type = pin.type;
+  return CLASSES.find((c) => c.pattern.test(type)) ?? OTHER;
+}
+
+export function legend(): PinClass[] {
+  return [...CLASSES.map(({ name, color }) => ({ name, color })), OTHER, UNASSIGNED];
+}
+
+// pins by port letter, e.g. A -> [PA0, PA1, ...], alternate configurations excluded
+export function portsOf(pins: PinoutPin[]): [string, PinoutPin[]][] {
+  const ports = new Map<string, PinoutPin[]>();
+  for (const pin of pins.filter((p) => !p.alt)) {
+    const port = pin.port[1];
+    ports.set(port, [...(ports.get(port) ?? []), pin]);
+  }
+  return [...ports.entries()];
+}
+
+export function matchesFilter(pin: PinoutPin, filter: string): boolean {
+  if (!filter) {
+    return true;
+  }
+  const text = [pin.port, pin.label, pin.type, pin.af !== undefined ? `AF${pin.af}` : "", ...pin.modifiers].join(" ").toLowerCase();
+  return filter
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => text.includes(word));
+}
@@ -0,0 +1,152 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+// Sizes, sorting and treemap layout for the symbol explorer
+
+export interface SizeNode {
+  name: string;
+  size: number;
+  baseSize?: number;
+  file?: string;
+  line?: number;
+  children?: SizeNode[];
+}
+
+export type SortKey = "name" | "size" | "delta";
+
+// SymbolExplorerState of apSymbolExplorerPanel
+export interface SymbolExplorerState {
+  title: string;
+  region: "flash" | "ram";
+  loading: boolean;
+  error?: string;
+  tree?: SizeNode;
+  // label of the build the tree is compared against
+  comparison?: string;
+}
+
+export interface TreemapRect {
+  node: SizeNode;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function formatBytes(bytes: number): string {
+  if (Math.abs(bytes) < 1024) {
+    return `${bytes} B`;
+  }
+  if (Math.abs(bytes) < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+export function delta(node: SizeNode): number {
+  return node.baseSize === undefined ? 0 : node.size - node.baseSize;
+}
+
+export function formatDelta(node: SizeNode): string {
+  const change = delta(node);
+  if (node.baseSize === undefined || change === 0) {
+    return "";
+  }
+  return change > 0 ? `+${formatBytes(change)}` : `-${formatBytes(-change)}`;
+}
+
+export function sortNodes(nodes: SizeNode[], key: SortKey, descending: boolean): SizeNode[] {
+  const direction = descending ? -1 : 1;
+  return [...nodes].sort((a, b) => {
+    let order = 0;
+    if (key === "name") {
+      order = a.name.localeCompare(b.name);
+    } else if (key === "delta") {
+      order = delta(a) - delta(b);
+    } else {
+      order = a.size - b.size;
+    }
+    return order * direction || a.name.localeCompare(b.name);
+  });
+}
+
+// worst aspect ratio of a row of areas laid along a side
+function worstRatio(areas: number[], side: number): number {
+  const sum = areas.reduce((total, area) => total + area, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+}
+
+/**
+ * Squarified treemap of the nodes' sizes, filling width x height
+ */
+export function squarify(nodes: SizeNode[], width: number, height: number): TreemapRect[] {
+  const items = nodes.filter((node) => node.size > 0).sort((a, b) => b.size - a.size);
+  const total = items.reduce((sum, node) => sum + node.size, 0);
+  const rects: TreemapRect[] = [];
+  if (total === 0 || width <= 0 || height <= 0) {
+    return rects;
+  }
+  const scale = (width * height) / total;
+  let x = 0;
+  let y = 0;
+  let w = width;
+  let h = height;
+  let index = 0;
+
+  while (index < items.length) {
+    const side = Math.min(w, h);
+    const row: SizeNode[] = [];
+    let best = Infinity;
+    while (index < items.length) {
+      const areas = [...row, items[index]].map((node) => node.size * scale);
+      const ratio = worstRatio(areas, side);
+      if (row.length > 0 && ratio > best) {
+        break;
+      }
+      row.push(items[index]);
+      best = ratio;
+      index++;
+    }
+
+    const rowArea = row.reduce((sum, node) => sum + node.size * scale, 0);
+    if (w >= h) {
+      // a column along the left edge
+      const columnWidth = rowArea / h;
+      let offset = y;
+      for (const node of row) {
+        const cellHeight = (node.size * scale) / columnWidth;
+        rects.push({ node, x, y: offset, width: columnWidth, height: cellHeight });
+        offset += cellHeight;
+      }
+      x += columnWidth;
+      w -= columnWidth;
+    } else {
+      // a row along the top edge
+      const rowHeight = rowArea / w;
+      let offset = x;
+      for (const node of row) {
+        const cellWidth = (node.size * scale) / rowHeight;
+        rects.push({ node, x: offset, y, width: cellWidth, height: rowHeight });
+        offset += cellWidth;
+      }
+      y += rowHeight;
+      h -= rowHeight;
+    }
+  }
+  return rects;
+}
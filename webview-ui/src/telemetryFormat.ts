@@ -0,0 +1,103 @@
+/*
+	Licensed under the Apache License, Version 2.0 (the "License");
+	you may not use this file except in compliance with the License.
+	You may obtain a copy of the License at
+
+		http://www.apache.org/licenses/LICENSE-2.0
+
+	Unless required by applicable law or agreed to in writing, software
+	distributed under the License is distributed on an "AS IS" BASIS,
+	WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+	See the License for the specific language governing permissions and
+	limitations under the License.
+
+	Copyright (c) 2024 Siddharth Purohit, CubePilot Global Pty Ltd.
+*/
+
+// Display helpers for raw MAVLink fields sent by the telemetry panel
+
+// TelemetryState of apTelemetryPanel, the messages shown only have numeric fields
+export interface TelemetryState {
+  connection: string;
+  connected: boolean;
+  error?: string;
+  vehicle?: { sysid: number, compid: number, mavlinkVersion: number };
+  lastHeartbeat?: number;
+  messages: Record<string, Record<string, number> | undefined>;
+  statusText: { time: number, severity: number, text: string }[];
+  stats: { received: number, crcErrors: number, unknown: number, lost: number };
+}
+
+const COPTER_MODES: Record<number, string> = {
+  0: 'STABILIZE', 1: 'ACRO', 2: 'ALT_HOLD', 3: 'AUTO', 4: 'GUIDED', 5: 'LOITER', 6: 'RTL',
+  7: 'CIRCLE', 9: 'LAND', 11: 'DRIFT', 13: 'SPORT', 14: 'FLIP', 15: 'AUTOTUNE', 16: 'POSHOLD',
+  17: 'BRAKE', 18: 'THROW', 19: 'AVOID_ADSB', 20: 'GUIDED_NOGPS', 21: 'SMART_RTL', 22: 'FLOWHOLD',
+  23: 'FOLLOW', 24: 'ZIGZAG', 25: 'SYSTEMID', 26: 'AUTOROTATE', 27: 'AUTO_RTL', 28: 'TURTLE',
+};
+
+const PLANE_MODES: Record<number, string> = {
+  0: 'MANUAL', 1: 'CIRCLE', 2: 'STABILIZE', 3: 'TRAINING', 4: 'ACRO', 5: 'FBWA', 6: 'FBWB',
+  7: 'CRUISE', 8: 'AUTOTUNE', 10: 'AUTO', 11: 'RTL', 12: 'LOITER', 13: 'TAKEOFF', 14: 'AVOID_ADSB',
+  15: 'GUIDED', 17: 'QSTABILIZE', 18: 'QHOVER', 19: 'QLOITER', 20: 'QLAND', 21: 'QRTL',
+  22: 'QAUTOTUNE', 23: 'QACRO', 24: 'THERMAL', 25: 'LOITER_ALT_QLAND', 26: 'AUTOLAND',
+};
+
+const ROVER_MODES: Record<number, string> = {
+  0: 'MANUAL', 1: 'ACRO', 3: 'STEERING', 4: 'HOLD', 5: 'LOITER', 6: 'FOLLOW', 7: 'SIMPLE',
+  8: 'DOCK', 9: 'CIRCLE', 10: 'AUTO', 11: 'RTL', 12: 'SMART_RTL', 15: 'GUIDED', 16: 'INITIALISING',
+};
+
+const SUB_MODES: Record<number, string> = {
+  0: 'STABILIZE', 1: 'ACRO', 2: 'ALT_HOLD', 3: 'AUTO', 4: 'GUIDED', 7: 'CIRCLE', 9: 'SURFACE',
+  16: 'POSHOLD', 19: 'MANUAL', 20: 'MOTOR_DETECT', 21: 'SURFTRAK',
+};
+
+const VEHICLE_TYPES: Record<number, string> = {
+  1: 'Fixed Wing', 2: 'Quadrotor', 3: 'Coaxial', 4: 'Helicopter', 10: 'Ground Rover',
+  11: 'Surface Boat', 12: 'Submarine', 13: 'Hexarotor', 14: 'Octorotor', 15: 'Tricopter',
+  19: 'VTOL Tailsitter Duo', 20: 'VTOL Tailsitter Quad', 21: 'VTOL Tiltrotor', 22: 'VTOL Fixedrotor',
+  23: 'VTOL Tailsitter', 24: 'VTOL Tiltwing', 29: 'Dodecarotor', 35: 'Decarotor',
+};
+
+const SYSTEM_STATES = ['UNINIT', 'BOOT', 'CALIBRATING', 'STANDBY', 'ACTIVE', 'CRITICAL', 'EMERGENCY', 'POWEROFF', 'FLIGHT_TERMINATION'];
+
+const GPS_FIX_TYPES = ['No GPS', 'No Fix', '2D Fix', '3D Fix', 'DGPS', 'RTK Float', 'RTK Fixed', 'Static', 'PPP'];
+
+export const SEVERITY_NAMES = ['EMERGENCY', 'ALERT', 'CRITICAL', 'ERROR', 'WARNING', 'NOTICE', 'INFO', 'DEBUG'];
+
+function modesForVehicle(vehicleType: number): Record<number, string> {
+  if (vehicleType === 1 || (vehicleType >= 19 && vehicleType <= 25)) {
+    return PLANE_MODES;
+  }
+  if (vehicleType === 10 || vehicleType === 11) {
+    return ROVER_MODES;
+  }
+  if (vehicleType === 12) {
+    return SUB_MODES;
+  }
+  return COPTER_MODES;
+}
+
+export function vehicleTypeName(vehicleType: number): string {
+  return VEHICLE_TYPES[vehicleType] ?? `Type ${vehicleType}`;
+}
+
+export function flightModeName(vehicleType: number, customMode: number): string {
+  return modesForVehicle(vehicleType)[customMode] ?? `Mode ${customMode}`;
+}
+
+export function systemStatusName(status: number): string {
+  return SYSTEM_STATES[status] ?? `${status}`;
+}
+
+export function gpsFixName(fixType: number): string {
+  return GPS_FIX_TYPES[fixType] ?? `${fixType}`;
+}
+
+export function severityName(severity: number): string {
+  return SEVERITY_NAMES[severity] ?? `${severity}`;
+}
+
+export function radToDeg(rad: number): string {
+  return (rad * 180 / Math.PI).toFixed(1);
+}
@@ -12,6 +12,13 @@ export default defineConfig({
       input: {
         'build-config': path.resolve(__dirname, 'src/main-build-config.ts'),
         'environment-validator': path.resolve(__dirname, 'src/main-environment-validator.ts'),
+        'telemetry': path.resolve(__dirname, 'src/main-telemetry.ts'),
+        'parameters': path.resolve(__dirname, 'src/main-parameters.ts'),
+        'symbol-explorer': path.resolve(__dirname, 'src/main-symbol-explorer.ts'),
+        'pinout': path.resolve(__dirname, 'src/main-pinout.ts'),
+        'logviewer': path.resolve(__dirname, 'src/main-logviewer.ts'),
+        'crash-dump': path.resolve(__dirname, 'src/main-crash-dump.ts'),
+        'build-matrix': path.resolve(__dirname, 'src/main-build-matrix.ts'),
       },
       output: {
         entryFileNames: '[name].js',